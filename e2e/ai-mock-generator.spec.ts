@@ -0,0 +1,84 @@
+// e2e/ai-mock-generator.spec.ts
+import { test, expect } from '@playwright/test';
+
+const SCHEMA = JSON.stringify({
+  title: 'User',
+  type: 'object',
+  required: ['id', 'email', 'role'],
+  properties: {
+    id: { type: 'integer' },
+    email: { type: 'string', format: 'email' },
+    role: { type: 'string', enum: ['admin', 'member'] },
+    code: { type: 'string', pattern: '^[A-Z]{3}-\\d{4}$' },
+  },
+});
+
+test.describe('AI Mock Generator E2E', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/tools/ai-mock-generator');
+    await page.locator('[data-hydrated="true"]').waitFor();
+    await page.getByRole('button', { name: 'OpenAPI / JSON Schema' }).click();
+  });
+
+  test('should generate schema records locally without calling the API', async ({ page }) => {
+    let apiCalled = false;
+    await page.route('**/api/generate-mock', (route) => {
+      apiCalled = true;
+      return route.abort();
+    });
+
+    await page.getByLabel('OpenAPI or JSON Schema').fill(SCHEMA);
+    await page.getByLabel('Row Count:').fill('3');
+    await page.getByRole('button', { name: 'Generate Data' }).click();
+
+    const output = page.locator('pre code');
+    await expect(output).toContainText('"id": 3');
+    await expect(output).toContainText('@example.');
+    expect(apiCalled).toBe(false);
+
+    const records = JSON.parse(await output.innerText());
+    expect(records).toHaveLength(3);
+    for (const record of records) {
+      expect(['admin', 'member']).toContain(record.role);
+      if (record.code) expect(record.code).toMatch(/^[A-Z]{3}-\d{4}$/);
+    }
+  });
+
+  test('should reproduce the same records for the same seed', async ({ page }) => {
+    await page.getByLabel('OpenAPI or JSON Schema').fill(SCHEMA);
+    await page.getByLabel('Seed').fill('fixtures');
+    await page.getByRole('button', { name: 'Generate Data' }).click();
+    const output = page.locator('pre code');
+    await expect(output).toContainText('"id": 1');
+    const first = await output.innerText();
+
+    await page.getByLabel('Seed').fill('other');
+    await page.getByRole('button', { name: 'Generate Data' }).click();
+    await expect(output).not.toHaveText(first);
+
+    await page.getByLabel('Seed').fill('fixtures');
+    await page.getByRole('button', { name: 'Generate Data' }).click();
+    await expect(output).toHaveText(first);
+  });
+
+  test('should export the generated records as CSV, SQL and TypeScript', async ({ page }) => {
+    await page.getByLabel('OpenAPI or JSON Schema').fill(SCHEMA);
+    await page.getByLabel('Row Count:').fill('2');
+    await page.getByRole('button', { name: 'Generate Data' }).click();
+    const output = page.locator('pre code');
+    await expect(output).toContainText('"id": 2');
+
+    await page.getByLabel('Export as').selectOption('csv');
+    await expect(output).toContainText(/^id,email,role/);
+
+    await page.getByLabel('Export as').selectOption('sql');
+    await page.getByLabel('Dialect').selectOption('mysql');
+    await page.getByLabel('Table').fill('users');
+    await expect(output).toContainText('INSERT INTO `users` (`id`, `email`, `role`');
+
+    await page.getByLabel('Export as').selectOption('typescript');
+    await expect(output).toContainText('export interface User {');
+    await expect(output).toContainText('export const fixtures: User[] = [');
+    await expect(page.getByRole('button', { name: 'Download .ts' })).toBeVisible();
+  });
+});
@@ -0,0 +1,63 @@
+// e2e/cli.spec.ts
+import { test, expect } from '@playwright/test';
+import { spawnSync } from 'node:child_process';
+import { writeFile } from 'node:fs/promises';
+import { build } from 'esbuild';
+
+// Bundled the way `build:cli` does it, under test-results/ so node_modules still resolves
+let cli: string;
+
+function syntaxsnap(args: string[], stdin = '') {
+  const { status, stdout, stderr } = spawnSync(process.execPath, [cli, ...args], { input: stdin, encoding: 'utf8' });
+  return { status, stdout, stderr };
+}
+
+test.describe('syntaxsnap CLI', () => {
+  test.beforeAll(async ({}, testInfo) => {
+    cli = testInfo.outputPath('syntaxsnap.js');
+    await build({
+      entryPoints: ['src/cli/index.ts'],
+      bundle: true,
+      platform: 'node',
+      target: 'node18',
+      format: 'esm',
+      packages: 'external',
+      outfile: cli,
+      logLevel: 'silent',
+    });
+  });
+
+  test('converts stdin to stdout', () => {
+    const { status, stdout } = syntaxsnap(['json-to-zod'], '{"id": 1, "name": "Rex"}');
+    expect(status).toBe(0);
+    expect(stdout).toContain('z.object(');
+    expect(stdout).toContain('name: z.string()');
+  });
+
+  test('passes with --check when the output is current and fails once it is stale', async ({}, testInfo) => {
+    const output = testInfo.outputPath('schema.ts');
+    const input = 'DATABASE_URL=postgres://localhost/db\nPORT=3000\n';
+    expect(syntaxsnap(['env-to-zod', '-o', output], input).status).toBe(0);
+
+    const current = syntaxsnap(['env-to-zod', '-o', output, '--check'], input);
+    expect(current.status).toBe(0);
+    expect(current.stderr).toContain('is up to date');
+
+    await writeFile(output, '// edited by hand\n');
+    const stale = syntaxsnap(['env-to-zod', '-o', output, '--check'], input);
+    expect(stale.status).toBe(1);
+    expect(stale.stderr).toContain('is out of date');
+  });
+
+  test('exits 1 when the converter reports an error', () => {
+    const { status, stderr } = syntaxsnap(['pydantic-to-zod'], 'not json');
+    expect(status).toBe(1);
+    expect(stderr).toContain('Invalid JSON');
+  });
+
+  test('exits 2 on usage errors', () => {
+    expect(syntaxsnap(['no-such-tool'], '{}').status).toBe(2);
+    expect(syntaxsnap(['json-to-zod', '--check'], '{}').stderr).toContain('--check needs --output');
+    expect(syntaxsnap(['json-to-zod', '--bogus'], '{}').status).toBe(2);
+  });
+});
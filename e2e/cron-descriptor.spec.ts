@@ -153,4 +153,198 @@ test.describe('Cron Descriptor', () => {
     await expect(runCountInput).toHaveValue('7');
     await expect(page.locator('text=/Sunday/i').first()).toBeVisible();
   });
-});
\ No newline at end of file
+
+  test('carries the expression over when switching to Quartz', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+
+    await page.getByLabel('Cron Dialect').selectOption('quartz');
+    await expect(input).toHaveValue('0 0 12 ? * MON-FRI');
+
+    await input.fill('0 0 12 ? * 6#3');
+    await expect(page.locator('text=/third Friday/i').first()).toBeVisible({ timeout: 5000 });
+    await expect(page.locator('text=6#3 — the third Friday of the month')).toBeVisible();
+  });
+
+  test('keeps valid expressions that never fire', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+
+    await input.fill('0 0 30 2 *');
+    await expect(page.locator('text=/day 30 of the month/i').first()).toBeVisible({ timeout: 5000 });
+    await expect(page.getByText('No runs found in range.')).toBeVisible();
+    await expect(page.locator('[role="alert"]')).toHaveCount(0);
+  });
+
+  test('parses AWS EventBridge rate expressions', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+
+    await page.getByLabel('Cron Dialect').selectOption('aws');
+    await expect(input).toHaveValue('cron(0 12 ? * MON-FRI *)');
+
+    await input.fill('rate(5 minutes)');
+    await expect(page.locator('text=/Every 5 minutes/i').first()).toBeVisible({ timeout: 5000 });
+  });
+
+  test('lists translations and explains what a dialect cannot express', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+    const translations = page.getByRole('list', { name: 'Dialect translations' });
+
+    await expect(translations.getByRole('listitem').filter({ hasText: 'GitHub Actions' })).toContainText('0 12 * * 1-5');
+
+    await page.getByLabel('Cron Dialect').selectOption('quartz');
+    await input.fill('0 0 12 L * ?');
+    await expect(translations.getByRole('listitem').filter({ hasText: 'GitHub Actions' })).toContainText(/no equivalent for L/i, { timeout: 5000 });
+
+    await page.getByRole('button', { name: 'Use the AWS EventBridge expression' }).click();
+    await expect(input).toHaveValue('cron(0 12 L * ? *)');
+  });
+
+  test('flags runs skipped and repeated by DST in the source timezone', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+
+    await page.getByLabel('Source Timezone').selectOption('Europe/Berlin');
+    await input.fill('30 2 * * *');
+    await page.getByLabel('Weeks').selectOption('52');
+
+    const transitions = page.getByRole('list', { name: 'DST transitions' });
+    await expect(transitions).toContainText('Moved past the jump: 02:30 → 03:30', { timeout: 5000 });
+    await expect(transitions).toContainText('Runs once: 02:30');
+    await expect(page.getByRole('table', { name: 'Fire calendar' })).toBeVisible();
+
+    await input.fill('0 * * * *');
+    await expect(transitions).toContainText('Skipped runs: 02:00', { timeout: 5000 });
+    await expect(transitions).toContainText('Runs twice: 02:00');
+  });
+
+  test('counts a DST day in the calendar the way the next runs list fires it', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+
+    await page.getByLabel('Source Timezone').selectOption('America/New_York');
+    await page.getByLabel('Weeks').selectOption('52');
+    await page.locator('input[type="number"]').fill('20');
+    // Sundays in March at 02:30, so the list reaches the spring-forward day
+    await input.fill('30 2 * 3 0');
+
+    const dstDay = page.getByRole('table', { name: 'Fire calendar' }).getByRole('cell', { name: /clocks forward/ });
+    await expect(dstDay).toHaveAttribute('aria-label', /: 1 run, /, { timeout: 5000 });
+    const date = (await dstDay.getAttribute('aria-label'))!.slice(0, 10);
+    const day = new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { dateStyle: 'full', timeZone: 'UTC' });
+
+    const runsThatDay = page.getByRole('list', { name: 'Next runs' }).getByRole('listitem').filter({ hasText: day });
+    await expect(runsThatDay).toHaveCount(1);
+    await expect(runsThatDay).toContainText('3:30:00 AM EDT');
+    await expect(runsThatDay).toContainText('DST: moved from 02:30');
+  });
+
+  test('shows run times in added timezones', async ({ page }) => {
+    await page.getByLabel('Add Timezone').selectOption('Asia/Tokyo');
+    await expect(page.locator('.bg-slate-950\\/50.px-3.py-2').first()).toContainText('Asia/Tokyo');
+
+    await page.getByRole('button', { name: 'Remove Asia/Tokyo' }).click();
+    await expect(page.locator('.bg-slate-950\\/50.px-3.py-2').first()).not.toContainText('Asia/Tokyo');
+  });
+
+  test('builds an expression field by field', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+
+    await page.getByLabel('Hour', { exact: true }).selectOption('step');
+    await expect(input).toHaveValue('0 */2 * * 1-5');
+
+    await page.getByLabel('Hour step').selectOption('6');
+    await expect(input).toHaveValue('0 */6 * * 1-5');
+
+    await page.getByRole('group', { name: 'Minute values' }).getByRole('button', { name: '30', exact: true }).click();
+    await expect(input).toHaveValue('0,30 */6 * * 1-5');
+  });
+
+  test('turns a description into cron', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+    const description = page.getByLabel('Describe a schedule');
+
+    await description.fill('every weekday at 9am and 5pm');
+    await page.getByRole('button', { name: 'To Cron' }).click();
+    await expect(input).toHaveValue('0 9,17 * * 1-5');
+
+    await description.fill('every weekday at 9:30am and 5pm');
+    await page.getByRole('button', { name: 'To Cron' }).click();
+    const expressions = page.getByRole('list', { name: 'Expressions for the description' });
+    await expect(expressions.getByRole('listitem')).toHaveCount(2);
+    await page.getByRole('button', { name: 'Use 0 17 * * 1-5' }).click();
+    await expect(input).toHaveValue('0 17 * * 1-5');
+  });
+
+  test('reports descriptions the dialect cannot express', async ({ page }) => {
+    const input = page.locator('input[type="text"]');
+
+    await page.getByLabel('Describe a schedule').fill('first Monday of each month');
+    await page.getByRole('button', { name: 'To Cron' }).click();
+    await expect(page.locator('text=/no equivalent for first Monday/i')).toBeVisible();
+
+    await page.getByLabel('Cron Dialect').selectOption('quartz');
+    await page.getByRole('button', { name: 'To Cron' }).click();
+    await expect(input).toHaveValue('0 0 0 ? * 2#1');
+  });
+
+  test('flags colliding jobs in a crontab', async ({ page }) => {
+    await page.getByRole('button', { name: 'Multiple Jobs' }).click();
+
+    await expect(page.getByRole('table', { name: 'Scheduled jobs' }).getByRole('row')).toHaveCount(7, { timeout: 5000 });
+    const collisions = page.getByRole('list', { name: 'Collisions' });
+    await expect(collisions).toContainText('vacuum-analyze');
+
+    await page.getByLabel('Overlap Window').selectOption('0');
+    await expect(collisions).toContainText('backup-db');
+    await expect(collisions).not.toContainText('vacuum-analyze');
+
+    await expect(page.getByRole('list', { name: 'Runs per hour' }).getByRole('listitem')).toHaveCount(24);
+  });
+
+  test('schedules crontab lines in CRON_TZ but not TZ', async ({ page }) => {
+    await page.getByRole('button', { name: 'Multiple Jobs' }).click();
+    const table = page.getByRole('table', { name: 'Scheduled jobs' });
+
+    await page.getByLabel('Jobs', { exact: true }).fill(
+      ['CRON_TZ=Europe/Berlin', '0 2 * * * backup', 'TZ=Asia/Tokyo', '0 3 * * * report'].join('\n'),
+    );
+    await expect(table.getByRole('row').filter({ hasText: 'backup' })).toContainText('Europe/Berlin', { timeout: 5000 });
+    await expect(table.getByRole('row').filter({ hasText: 'report' })).not.toContainText('Asia/Tokyo');
+    await expect(page.locator('text=/TZ only sets the environment the command runs in/')).toBeVisible();
+  });
+
+  test('reads Kubernetes CronJobs and GitHub Actions schedules', async ({ page }) => {
+    await page.getByRole('button', { name: 'Multiple Jobs' }).click();
+    const jobs = page.getByLabel('Jobs', { exact: true });
+    const table = page.getByRole('table', { name: 'Scheduled jobs' });
+
+    await jobs.fill([
+      'apiVersion: batch/v1',
+      'kind: CronJob',
+      'metadata:',
+      '  name: nightly-backup',
+      'spec:',
+      '  schedule: "0 2 * * *"',
+      '  timeZone: Europe/Berlin',
+      '---',
+      'apiVersion: batch/v1',
+      'kind: CronJob',
+      'metadata:',
+      '  name: report',
+      'spec:',
+      '  schedule: "@hourly"',
+      '---',
+      'apiVersion: batch/v1',
+      'kind: CronJob',
+      'metadata:',
+      '  name: prefixed',
+      'spec:',
+      '  schedule: "CRON_TZ=UTC 0 4 * * *"',
+    ].join('\n'));
+    await expect(page.locator('text=Kubernetes CronJob YAML · 3 jobs')).toBeVisible({ timeout: 5000 });
+    await expect(table).toContainText('nightly-backup');
+    await expect(table).toContainText('Europe/Berlin');
+    await expect(table.getByRole('row').filter({ hasText: 'prefixed' })).toContainText('set spec.timeZone on the CronJob instead');
+
+    await jobs.fill(['name: Nightly', 'on:', '  schedule:', "    - cron: '0 3 * * *'", "    - cron: '*/30 * * * *'"].join('\n'));
+    await expect(page.locator('text=GitHub Actions workflow · 2 jobs')).toBeVisible({ timeout: 5000 });
+    await expect(table).toContainText('Nightly #2');
+  });
+});
@@ -0,0 +1,95 @@
+// e2e/generate-mock-api.spec.ts
+// Runs against the OpenAI-compatible stand-in started by playwright.config.ts
+import { test, expect } from '@playwright/test';
+
+const USER_SCHEMA = {
+  type: 'object',
+  required: ['id', 'name'],
+  properties: { id: { type: 'integer' }, name: { type: 'string' } },
+};
+
+test.describe('Generate Mock API E2E', () => {
+  test('should generate records from a prompt through the configured provider', async ({ request }) => {
+    const response = await request.post('/api/generate-mock', {
+      data: { prompt: 'users with id and name', rowCount: 3 },
+    });
+    expect(response.status()).toBe(200);
+    const records = await response.json();
+    expect(records).toHaveLength(3);
+    expect(records[2]).toEqual({ id: 3, name: 'Stand-in 3' });
+  });
+
+  test('should send records to the provider for enrichment', async ({ request }) => {
+    const response = await request.post('/api/generate-mock', {
+      data: { records: [{ id: 1, email: 'a@example.com' }] },
+    });
+    expect(response.status()).toBe(200);
+    expect(await response.json()).toEqual([{ id: 1, email: 'a@example.com', standIn: true }]);
+  });
+
+  test('should stream validated rows as NDJSON and repair invalid ones', async ({ request }) => {
+    const response = await request.post('/api/generate-mock', {
+      headers: { Accept: 'application/x-ndjson' },
+      data: { prompt: 'users [stand-in:invalid-first]', rowCount: 3, schema: USER_SCHEMA },
+    });
+    expect(response.status()).toBe(200);
+    expect(response.headers()['content-type']).toContain('application/x-ndjson');
+
+    const events = (await response.text()).trim().split('\n').map((line) => JSON.parse(line));
+    expect(events[0]).toEqual({ type: 'start', total: 3 });
+    expect(events.filter((e) => e.type === 'row').map((e) => e.data.id)).toEqual([2, 3, 1000]);
+    expect(events).toContainEqual({ type: 'repair', attempt: 1, invalid: 1, missing: 0 });
+    expect(events.at(-1)).toEqual({ type: 'done', rows: 3, repaired: 1, dropped: 0 });
+  });
+
+  test('should reject a schema that cannot be validated', async ({ request }) => {
+    const response = await request.post('/api/generate-mock', {
+      data: { prompt: 'users', rowCount: 2, schema: { if: { type: 'object' }, then: { required: ['id'] } } },
+    });
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toContain("Schema can't be used for validation");
+  });
+
+  test('should reject an out-of-range row count before calling the provider', async ({ request }) => {
+    const response = await request.post('/api/generate-mock', {
+      data: { prompt: 'users', rowCount: 500 },
+    });
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.error).toContain('Row count');
+    expect(body.code).toBe('invalid_request');
+  });
+
+  test('should refuse an oversized body before parsing it', async ({ request }) => {
+    const response = await request.post('/api/generate-mock', {
+      data: { prompt: 'x'.repeat(70 * 1024) },
+    });
+    expect(response.status()).toBe(413);
+    expect((await response.json()).code).toBe('payload_too_large');
+  });
+
+  test('should reject a body that is not JSON', async ({ request }) => {
+    const response = await request.post('/api/generate-mock', {
+      headers: { 'Content-Type': 'application/json' },
+      data: '{"prompt": ',
+    });
+    expect(response.status()).toBe(400);
+    expect((await response.json()).code).toBe('invalid_json');
+  });
+
+  test('should rate limit a client once its bucket is empty', async ({ request }) => {
+    // A client IP of its own, so the rest of the suite keeps its budget (RATE_LIMIT_CAPACITY=50)
+    const headers = { 'CF-Connecting-IP': `2001:db8::${Math.random().toString(16).slice(2, 6)}` };
+    for (let i = 0; i < 50; i++) {
+      const response = await request.post('/api/generate-mock', { headers, data: { prompt: 'users', rowCount: 0 } });
+      expect(response.status()).toBe(400);
+    }
+
+    const limited = await request.post('/api/generate-mock', { headers, data: { prompt: 'users', rowCount: 3 } });
+    expect(limited.status()).toBe(429);
+    expect(Number(limited.headers()['retry-after'])).toBeGreaterThan(0);
+    const body = await limited.json();
+    expect(body.code).toBe('rate_limited');
+    expect(body.retryAfter).toBe(Number(limited.headers()['retry-after']));
+  });
+});
@@ -0,0 +1,97 @@
+// e2e/openapi-to-express.spec.ts
+import { test, expect } from '@playwright/test';
+
+const SPEC = JSON.stringify({
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0' },
+  paths: {
+    '/pets/{petId}': {
+      get: {
+        tags: ['pets'],
+        operationId: 'getPet',
+        parameters: [{ in: 'path', name: 'petId', required: true, schema: { type: 'integer' } }],
+        responses: {
+          200: {
+            description: 'A pet',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' }, example: { id: 7, name: 'Rex' } } },
+          },
+        },
+      },
+    },
+    '/pets': {
+      post: {
+        tags: ['pets'],
+        operationId: 'createPet',
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        responses: { 201: { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: { type: 'object', required: ['id', 'name'], properties: { id: { type: 'integer' }, name: { type: 'string' } } },
+    },
+  },
+});
+
+test.describe('OpenAPI to Express E2E', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/tools/openapi-to-express');
+    await page.getByLabel('OpenAPI input').waitFor();
+  });
+
+  test('should scaffold a tag router with Zod validation and examples', async ({ page }) => {
+    await page.getByLabel('OpenAPI input').fill(SPEC);
+    await page.getByRole('button', { name: 'Generate Express Server' }).click();
+
+    const output = page.locator('pre code');
+    await expect(output).toContainText('export const petsRouter = express.Router();');
+    await expect(output).toContainText('petId: z.coerce.number().int()');
+    await expect(output).toContainText('validate(createPetSchemas)');
+    await expect(output).toContainText('res.status(201).json(');
+    await expect(output).toContainText('name: "Rex"');
+  });
+
+  test('should split non-exploded query arrays the way the client joins them', async ({ page }) => {
+    const spec = JSON.parse(SPEC);
+    spec.paths['/pets'].get = {
+      tags: ['pets'],
+      operationId: 'listPets',
+      parameters: [{ in: 'query', name: 'tags', explode: false, schema: { type: 'array', items: { type: 'string' } } }],
+      responses: { 200: { description: 'Pets' } },
+    };
+    await page.getByLabel('OpenAPI input').fill(JSON.stringify(spec));
+    await page.getByRole('button', { name: 'Generate Express Server' }).click();
+
+    await expect(page.locator('pre code')).toContainText('tags: z.preprocess((v) => (typeof v === "string" ? v.split(",") : v), z.array(z.string()))');
+  });
+
+  test('should switch the output to Hono', async ({ page }) => {
+    await page.getByLabel('OpenAPI input').fill(SPEC);
+    await page.getByLabel('Framework').selectOption('hono');
+    await page.getByRole('button', { name: 'Generate Hono Server' }).click();
+
+    const output = page.locator('pre code');
+    await expect(output).toContainText('export const petsRoutes = new Hono<Env>();');
+    await expect(output).toContainText('satisfies CreatePetResponse, 201');
+    await expect(output).toContainText('c.req.queries()');
+  });
+
+  test('should pass deepObject query keys through with a warning', async ({ page }) => {
+    const spec = JSON.parse(SPEC);
+    spec.paths['/pets'].get = {
+      tags: ['pets'],
+      operationId: 'listPets',
+      parameters: [
+        { in: 'query', name: 'limit', schema: { type: 'integer' } },
+        { in: 'query', name: 'filter', style: 'deepObject', schema: { type: 'object', properties: { q: { type: 'string' } } } },
+      ],
+      responses: { 200: { description: 'Pets' } },
+    };
+    await page.getByLabel('OpenAPI input').fill(JSON.stringify(spec));
+    await page.getByRole('button', { name: 'Generate Express Server' }).click();
+
+    await expect(page.locator('pre code')).toContainText(/limit: z\.coerce\.number\(\)\.int\(\)\.optional\(\),\s*\}\)\.passthrough\(\)/);
+    await expect(page.getByRole('status')).toContainText('deepObject parameter "filter" is not validated');
+  });
+});
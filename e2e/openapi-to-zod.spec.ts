@@ -130,4 +130,157 @@ test.describe('OpenAPI to Zod E2E', () => {
     const copyBtn = page.getByRole('button', { name: /copy/i });
     await expect(copyBtn).toBeVisible();
   });
+
+  test('should generate a typed fetch client when enabled', async ({ page }) => {
+    const output = page.locator('pre code');
+    await page.getByLabel('Generate API client').check();
+
+    await expect(output).toContainText('export async function getUser(params: GetUserParams', { timeout: 2000 });
+    await expect(output).toContainText('encodeURIComponent(String(p.id))');
+    await expect(output).toContainText('export const ListPostsResponseSchema = z.array(PostSchema);');
+    await expect(output).toContainText('query: { limit: p.limit }');
+    await expect(output).toContainText('Successfully converted 2 schemas and 2 operations');
+  });
+
+  test('should warn about operations without an operationId', async ({ page }) => {
+    const input = page.getByLabel('OpenAPI JSON input');
+    await page.getByLabel('Generate API client').check();
+
+    await input.fill(JSON.stringify({
+      openapi: '3.1.0',
+      paths: { '/health': { get: { responses: { '204': { description: 'ok' } } } } },
+    }));
+
+    await expect(page.locator('pre code')).toContainText('export async function getHealth(', { timeout: 2000 });
+    await expect(page.getByRole('status')).toContainText('no operationId');
+  });
+
+  test('should resolve refs into another file tab', async ({ page }) => {
+    const input = page.getByLabel('OpenAPI JSON input');
+    const output = page.locator('pre code');
+
+    await input.fill(JSON.stringify({
+      openapi: '3.1.0',
+      components: { schemas: { Owner: { type: 'object', properties: { pet: { $ref: './common.yaml#/Pet' } } } } },
+    }));
+    await page.getByRole('button', { name: 'Add spec file' }).click();
+    await expect(page.getByRole('tab', { name: 'common.yaml' })).toHaveAttribute('aria-selected', 'true');
+    await input.fill('Pet:\n  type: object\n  properties:\n    nickname: { type: string }\n');
+
+    await expect(output).toContainText('nickname: z.string().optional()', { timeout: 2000 });
+    await page.getByRole('tab', { name: 'openapi.json' }).click();
+    await expect(input).toHaveValue(/common\.yaml#\/Pet/);
+  });
+
+  test('should emit z.lazy for circular refs', async ({ page }) => {
+    const input = page.getByLabel('OpenAPI JSON input');
+    const output = page.locator('pre code');
+
+    await input.fill(JSON.stringify({
+      openapi: '3.1.0',
+      components: {
+        schemas: {
+          Category: {
+            type: 'object',
+            properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Category' } } },
+          },
+        },
+      },
+    }));
+
+    await expect(output).toContainText('z.array(z.lazy(() => CategorySchema))', { timeout: 2000 });
+    await expect(output).toContainText('children?: Category[];');
+    await expect(output).toContainText('export const CategorySchema: z.ZodType<Category> = z.object({');
+  });
+
+  test('should warn about refs to files that are not loaded', async ({ page }) => {
+    const input = page.getByLabel('OpenAPI JSON input');
+
+    await input.fill(JSON.stringify({
+      openapi: '3.1.0',
+      components: { schemas: { A: { $ref: './missing.yaml#/A' } } },
+    }));
+
+    await expect(page.getByRole('status')).toContainText('"missing.yaml" is not loaded', { timeout: 2000 });
+  });
+
+  test('should upgrade Swagger 2.0 definitions and body parameters', async ({ page }) => {
+    const input = page.getByLabel('OpenAPI JSON input');
+    const output = page.locator('pre code');
+
+    await page.getByLabel('Generate API client').check();
+    await input.fill(JSON.stringify({
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0' },
+      host: 'api.example.com',
+      basePath: '/v1',
+      paths: {
+        '/pets': {
+          post: {
+            operationId: 'createPet',
+            parameters: [{ in: 'body', name: 'pet', required: true, schema: { $ref: '#/definitions/Pet' } }],
+            responses: { 201: { description: 'Created', schema: { $ref: '#/definitions/Pet' } } },
+          },
+        },
+      },
+      definitions: {
+        Pet: { type: 'object', properties: { name: { type: 'string', 'x-nullable': true } } },
+      },
+    }));
+
+    await expect(output).toContainText('// Generated from Swagger 2.0', { timeout: 2000 });
+    await expect(output).toContainText('name: z.string().nullable().optional()');
+    await expect(output).toContainText('export const CreatePetBodySchema = PetSchema;');
+    await expect(output).toContainText('"https://api.example.com/v1"');
+  });
+
+  test('should upgrade refs in a Swagger 2.0 default response', async ({ page }) => {
+    const input = page.getByLabel('OpenAPI JSON input');
+    const output = page.locator('pre code');
+
+    await page.getByLabel('Generate API client').check();
+    await input.fill(JSON.stringify({
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0' },
+      paths: {
+        '/pets': {
+          delete: {
+            operationId: 'clearPets',
+            responses: { default: { description: 'Error', schema: { $ref: '#/definitions/Err' } } },
+          },
+        },
+      },
+      definitions: {
+        Err: { type: 'object', properties: { code: { type: 'integer' } } },
+      },
+    }));
+
+    await expect(output).toContainText('export const ClearPetsResponseSchema = ErrSchema;', { timeout: 2000 });
+    await expect(page.getByText('nothing at /definitions/Err')).toHaveCount(0);
+  });
+
+  test('should normalize OpenAPI 3.1 null types and const', async ({ page }) => {
+    const input = page.getByLabel('OpenAPI JSON input');
+    const output = page.locator('pre code');
+
+    await input.fill(JSON.stringify({
+      openapi: '3.1.0',
+      webhooks: { ping: {} },
+      components: {
+        schemas: {
+          User: {
+            type: 'object',
+            properties: {
+              nick: { type: ['string', 'null'] },
+              kind: { const: 'user' },
+            },
+          },
+        },
+      },
+    }));
+
+    await expect(output).toContainText('nick: z.string().nullable().optional()', { timeout: 2000 });
+    await expect(output).toContainText('kind: z.enum(["user"]).optional()');
+    await expect(page.getByRole('status')).toContainText('webhooks are ignored');
+  });
 });
@@ -0,0 +1,79 @@
+// e2e/regex-tester.spec.ts
+import { test, expect } from '@playwright/test';
+
+test.describe('Regex Tester E2E', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/tools/regex-tester');
+    await expect(page.getByText('2 Matches Found')).toBeVisible();
+  });
+
+  test('should flag lookahead as unsupported in Go (RE2)', async ({ page }) => {
+    await page.locator('#patternInput').fill(String.raw`\w+(?=@)`);
+    await page.getByLabel('Regex Flavor').selectOption('go');
+
+    const unsupported = page.getByRole('list', { name: 'Constructs not supported in Go (RE2)' });
+    await expect(unsupported).toContainText('lookahead');
+    await expect(page.getByText(/invalid or unsupported Perl syntax/)).toBeVisible();
+  });
+
+  test('should run possessive quantifiers on PCRE2', async ({ page }) => {
+    await page.locator('#patternInput').fill(String.raw`\d++\.`);
+    await page.locator('#testStringInput').fill('3.14 and 42.');
+    await page.getByLabel('Regex Flavor').selectOption('pcre');
+    await expect(page.getByText('2 Matches Found')).toBeVisible();
+  });
+
+  test('should skip an empty match right after a match in Go (RE2)', async ({ page }) => {
+    await page.locator('#patternInput').fill('a*');
+    await page.locator('#testStringInput').fill('baaac');
+    await page.getByLabel('Regex Flavor').selectOption('go');
+    await expect(page.getByText('3 Matches Found')).toBeVisible();
+
+    await page.locator('#replacementInput').fill('-');
+    await expect(page.getByTestId('replace-output')).toHaveText('-b-c-');
+  });
+
+  test('should compare a pattern across every flavor', async ({ page }) => {
+    await page.locator('#patternInput').fill(String.raw`(?P<user>\w+)@`);
+    await page.getByRole('button', { name: 'Compare Flavors' }).click();
+
+    const row = (flavor: string) =>
+      page.getByRole('table', { name: 'Flavor comparison' }).getByRole('row')
+        .filter({ has: page.getByRole('button', { name: flavor, exact: true }) });
+    await expect(row('Python')).toContainText('2 matches');
+    await expect(row('PCRE2')).toContainText('2 matches');
+    await expect(row('Go (RE2)')).toContainText('2 matches');
+    await expect(row('Java')).toContainText('Not valid Java syntax');
+  });
+
+  test('should preview a replacement and list numbered groups with their ranges', async ({ page }) => {
+    await page.locator('#patternInput').fill(String.raw`(\w+)@(?<domain>\w+)`);
+    await page.locator('#replacementInput').fill('$<domain>:$1');
+    await expect(page.getByTestId('replace-output')).toContainText('syntaxsnap:support.com');
+
+    const table = page.getByRole('table', { name: 'Capture groups' });
+    await expect(table.getByRole('columnheader', { name: 'Group 2 domain' })).toBeVisible();
+    await expect(table.getByRole('row').nth(1)).toContainText('"support" 14–21');
+  });
+
+  test('should export the pattern as a Python raw string', async ({ page }) => {
+    await page.locator('#patternInput').fill(String.raw`"(\d+)"`);
+    await page.getByRole('tab', { name: 'Export Code' }).click();
+    await page.getByRole('button', { name: 'Python' }).click();
+    await expect(page.getByTestId('code-output')).toContainText(String.raw`re.compile(r'"(\d+)"')`);
+  });
+
+  test('should warn about nested quantifiers and terminate a catastrophic run', async ({ page }) => {
+    await page.locator('#patternInput').fill('(a+)+$');
+    const warning = page.getByRole('alert', { name: 'Possible ReDoS' });
+    await expect(warning).toContainText('(a+)+ repeats a+');
+    await expect(warning.locator('mark').first()).toHaveText('(');
+
+    await page.locator('#testStringInput').fill(`${'a'.repeat(40)}!`);
+    await expect(page.getByText(/was terminated/)).toBeVisible({ timeout: 10_000 });
+
+    // The page is still responsive and the next run gets a fresh worker
+    await page.locator('#patternInput').fill('a+');
+    await expect(page.getByText('1 Matches Found')).toBeVisible();
+  });
+});
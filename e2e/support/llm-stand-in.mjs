@@ -0,0 +1,80 @@
+// e2e/support/llm-stand-in.mjs
+// A tiny OpenAI-compatible Chat Completions server for the e2e suite. The dev
+// server is started with AI_PROVIDER=openai-compatible pointing here, so the
+// AI routes run end to end without network access or API keys.
+//
+// Replies are deterministic: enrich requests get their records back with a
+// `standIn: true` marker, prompt requests get `Generate N records` numbered rows
+// (a prompt containing `[stand-in:invalid-first]` makes row 1's id a string),
+// and repair requests get their records back with integer ids. Streaming
+// requests receive the reply in small SSE chunks.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.LLM_STAND_IN_PORT ?? 4390);
+
+function completion(model, content) {
+  return {
+    id: 'chatcmpl-stand-in',
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
+
+function chunk(model, delta, finishReason = null) {
+  return {
+    id: 'chatcmpl-stand-in',
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+function mockData(prompt) {
+  const lines = prompt.split('\n');
+  const last = lines[lines.length - 1];
+  if (prompt.startsWith('Rewrite these') && last.startsWith('[')) {
+    return JSON.parse(last).map((record) => ({ ...record, standIn: true }));
+  }
+  if (prompt.startsWith('Fix these') && last.startsWith('[')) {
+    return JSON.parse(last).map((record, i) => ({ ...record, id: Number.isInteger(record.id) ? record.id : 1000 + i }));
+  }
+  const count = Number(/Generate (\d+) records/.exec(prompt)?.[1] ?? 1);
+  const rows = Array.from({ length: count }, (_, i) => ({ id: i + 1, name: `Stand-in ${i + 1}` }));
+  if (prompt.includes('[stand-in:invalid-first]')) rows[0].id = 'one';
+  return rows;
+}
+
+createServer((req, res) => {
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(req.method === 'GET' ? 200 : 404, { 'Content-Type': 'text/plain' });
+    res.end('llm stand-in');
+    return;
+  }
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    const request = JSON.parse(body);
+    const prompt = request.messages.filter((m) => m.role === 'user').map((m) =>
+      typeof m.content === 'string' ? m.content : m.content.map((part) => part.text ?? '').join(''),
+    ).join('\n');
+    const content = JSON.stringify({ mockData: mockData(prompt) });
+    if (!request.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(completion(request.model, content)));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write(`data: ${JSON.stringify(chunk(request.model, { role: 'assistant', content: '' }))}\n\n`);
+    for (let i = 0; i < content.length; i += 16) {
+      res.write(`data: ${JSON.stringify(chunk(request.model, { content: content.slice(i, i + 16) }))}\n\n`);
+    }
+    res.write(`data: ${JSON.stringify(chunk(request.model, {}, 'stop'))}\n\n`);
+    res.end('data: [DONE]\n\n');
+  });
+}).listen(PORT, '127.0.0.1', () => {
+  console.log(`LLM stand-in listening on http://127.0.0.1:${PORT}/v1`);
+});
@@ -46,7 +46,7 @@ test.describe('TypeScript to Zod E2E', () => {
 
   test('should handle Record type', async ({ page }) => {
     const output = page.locator('pre code');
-    await expect(output).toContainText('z.record(z.any())', { timeout: 2000 });
+    await expect(output).toContainText('z.record(z.string(), z.any())', { timeout: 2000 });
   });
 
   test('should handle nullable types (Date | null)', async ({ page }) => {
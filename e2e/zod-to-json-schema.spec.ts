@@ -0,0 +1,73 @@
+// e2e/zod-to-json-schema.spec.ts
+import { test, expect } from '@playwright/test';
+
+test.describe('Zod to JSON Schema E2E', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/tools/zod-to-json-schema');
+    await page.waitForSelector('[data-hydrated="true"]', { timeout: 15000 });
+  });
+
+  test('should render the page heading', async ({ page }) => {
+    await expect(page.getByRole('heading', { level: 1 })).toContainText('JSON Schema');
+  });
+
+  // ─── JSON SCHEMA 2020-12 ──────────────────────────────────────────────────
+
+  test('should generate a 2020-12 document from the default schema', async ({ page }) => {
+    const output = page.locator('pre code');
+    await expect(output).toContainText('https://json-schema.org/draft/2020-12/schema', { timeout: 5000 });
+    await expect(output).toContainText('"$defs"');
+    await expect(output).toContainText('"$ref": "#/$defs/Address"');
+    await expect(output).toContainText('"format": "email"');
+  });
+
+  test('should map nested objects, enums and nullable fields', async ({ page }) => {
+    const input = page.getByLabel('Zod schema input');
+    const output = page.locator('pre code');
+
+    await input.fill(`const S = z.object({
+  role: z.enum(["A", "B"]),
+  nick: z.string().nullable(),
+  profile: z.object({ bio: z.string().optional() }),
+});`);
+
+    await expect(output).toContainText('"enum": [', { timeout: 2000 });
+    await expect(output).toContainText('"null"');
+    await expect(output).toContainText('"bio"');
+  });
+
+  // ─── OPENAPI 3.1 ──────────────────────────────────────────────────────────
+
+  test('should emit components with a discriminator on the OpenAPI tab', async ({ page }) => {
+    await page.getByRole('tab', { name: 'OpenAPI 3.1' }).click();
+    const output = page.locator('pre code');
+    await expect(output).toContainText('"components"', { timeout: 2000 });
+    await expect(output).toContainText('"#/components/schemas/Card"');
+    await expect(output).toContainText('"propertyName": "type"');
+  });
+
+  // ─── TYPESCRIPT ───────────────────────────────────────────────────────────
+
+  test('should emit TypeScript types on the TypeScript tab', async ({ page }) => {
+    await page.getByRole('tab', { name: 'TypeScript' }).click();
+    const output = page.locator('pre code');
+    await expect(output).toContainText('export interface User {', { timeout: 2000 });
+    await expect(output).toContainText('address?: Address;');
+    await expect(output).toContainText('nickname: string | null;');
+    await expect(output).toContainText('role: "ADMIN" | "USER" | "GUEST";');
+  });
+
+  // ─── ERRORS ───────────────────────────────────────────────────────────────
+
+  test('should show an error when no schema is declared', async ({ page }) => {
+    const input = page.getByLabel('Zod schema input');
+    await input.fill('const x = 42;');
+    await expect(page.getByRole('alert')).toContainText('No Zod schema found', { timeout: 2000 });
+  });
+
+  test('should warn about refinements it cannot represent', async ({ page }) => {
+    const input = page.getByLabel('Zod schema input');
+    await input.fill('const S = z.object({ n: z.number().refine((v) => v % 2 === 0) });');
+    await expect(page.getByRole('status')).toContainText('.refine()', { timeout: 2000 });
+  });
+});
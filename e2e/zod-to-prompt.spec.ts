@@ -80,4 +80,54 @@ test.describe('Zod to LLM Prompt E2E', () => {
     const copyBtn = page.getByRole('button', { name: /copy prompt/i });
     await expect(copyBtn).toBeVisible();
   });
+
+  test('should resolve references between named schemas', async ({ page }) => {
+    const input = page.getByLabel('Zod Schema input');
+    const output = page.locator('pre code');
+
+    await input.fill(`const UserSchema = z.object({
+  name: z.string(),
+});
+
+const PostSchema = z.object({
+  title: z.string(),
+  author: UserSchema,
+  meta: z.object({ views: z.number().int() }),
+});`);
+
+    await expect(output).toContainText('"author": [object User]', { timeout: 2000 });
+    await expect(output).toContainText('    - "name": [string]');
+    await expect(output).toContainText('    - "views": [number]');
+    await expect(page.getByLabel('Root schema')).toHaveValue('PostSchema');
+  });
+
+  test('should show a generated example JSON instance', async ({ page }) => {
+    await page.getByRole('tab', { name: 'Example JSON' }).click();
+    const output = page.locator('pre code');
+    await expect(output).toContainText('"email": "user@example.com"', { timeout: 2000 });
+    await expect(output).not.toContainText('<system>');
+    await expect(page.getByRole('button', { name: /copy json/i })).toBeVisible();
+  });
+
+  test('should export an OpenAI strict-mode response_format', async ({ page }) => {
+    await page.getByRole('tab', { name: 'OpenAI' }).click();
+    const output = page.locator('pre code');
+    await expect(output).toContainText('"response_format"', { timeout: 2000 });
+    await expect(output).toContainText('"strict": true');
+    await expect(output).toContainText('"additionalProperties": false');
+    await expect(page.getByRole('status')).toContainText('maxLength 100 is not supported by OpenAI strict mode');
+  });
+
+  test('should export Anthropic tool use and Gemini responseSchema', async ({ page }) => {
+    const output = page.locator('pre code');
+
+    await page.getByRole('tab', { name: 'Anthropic' }).click();
+    await expect(output).toContainText('"input_schema"', { timeout: 2000 });
+    await expect(output).toContainText('"name": "record_user"');
+
+    await page.getByRole('tab', { name: 'Gemini' }).click();
+    await expect(output).toContainText('"responseSchema"', { timeout: 2000 });
+    await expect(output).toContainText('"type": "OBJECT"');
+    await expect(output).not.toContainText('$ref');
+  });
 });
@@ -39,10 +39,26 @@ export default defineConfig({
   ],
 
   /* Run your local dev server before starting the tests */
-  webServer: {
-    command: 'pnpm run dev', // Updated to use pnpm
-    url: 'http://localhost:4321', // Updated to match Astro dev port
-    reuseExistingServer: !process.env.CI,
-    timeout: 120 * 1000, // Added timeout to allow server to boot in CI
-  },
+  webServer: [
+    {
+      /* OpenAI-compatible stand-in so the AI routes run without network access or keys */
+      command: 'node e2e/support/llm-stand-in.mjs',
+      url: 'http://127.0.0.1:4390/v1',
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: 'pnpm run dev', // Updated to use pnpm
+      url: 'http://localhost:4321', // Updated to match Astro dev port
+      reuseExistingServer: !process.env.CI,
+      timeout: 120 * 1000, // Added timeout to allow server to boot in CI
+      env: {
+        AI_PROVIDER: 'openai-compatible',
+        AI_BASE_URL: 'http://127.0.0.1:4390/v1',
+        AI_MODEL: 'stand-in',
+        /* Roomy enough for the suite; the rate-limit test uses its own client IP */
+        RATE_LIMIT_CAPACITY: '50',
+        RATE_LIMIT_REFILL_SECONDS: '60',
+      },
+    },
+  ],
 });
\ No newline at end of file
@@ -0,0 +1,228 @@
+// src/cli/commands.ts
+// ─── CLI Command Registry ────────────────────────────────────────────────────
+// One subcommand per `TOOLS` entry that has a pure conversion core. Command
+// names mirror the tool ids so `syntaxsnap <id>` matches `/tools/<id>`.
+// The OpenAPI Mock tool runs the same generator as `openapi-to-express`, so
+// it has no command of its own.
+//
+// `TOOLS` itself can't be imported here — its icons are Astro components —
+// so titles are repeated. Keep this table in sync when adding a converter.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  convertGraphqlToTrpc,
+  convertGraphqlToZod,
+  convertJsonSchemaToTs,
+  convertJsonSchemaToZod,
+  convertJsonToZod,
+  convertOpenAPIToExpress,
+  convertOpenAPIToZod,
+  convertPrismaToZod,
+  convertPydanticToZod,
+  convertSqlToJson,
+  convertSqlToPrisma,
+  convertSvgToJsx,
+  convertTailwindToCss,
+  convertTrpcToOpenapi,
+  convertTsToJsonSchema,
+  convertZodToJsonSchema,
+  convertZodToPrompt,
+  convertZodToStructuredOutput,
+  convertZodToTs,
+  createErrorResult,
+  generateZodEnvSchema,
+  type ConversionResult,
+  type JsonSchemaNode,
+  type ServerFramework,
+} from '../lib/converters';
+import { convertTsToZodAst } from '../lib/converters/tsToZodAst';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** A command-specific flag, parsed with `node:util` `parseArgs` */
+export interface CommandOption {
+  type: 'string' | 'boolean';
+  description: string;
+  default?: string | boolean;
+}
+
+export type CommandOptionValues = Record<string, string | boolean | undefined>;
+
+export interface CliCommand {
+  /** Matches the tool id in `src/config/tools.ts` */
+  name: string;
+  title: string;
+  options?: Record<string, CommandOption>;
+  run: (input: string, options: CommandOptionValues) => ConversionResult;
+}
+
+// ─── REGISTRY ────────────────────────────────────────────────────────────────
+
+export const COMMANDS: CliCommand[] = [
+  {
+    name: 'openapi-to-express',
+    title: 'OpenAPI to Express',
+    options: {
+      framework: { type: 'string', description: 'Server framework: express, fastify or hono', default: 'express' },
+    },
+    run: (input, options) => convertOpenAPIToExpress(input, { framework: String(options.framework) as ServerFramework }),
+  },
+  {
+    name: 'pydantic-to-zod',
+    title: 'Pydantic to Zod',
+    run: (input) => {
+      let schema: JsonSchemaNode;
+      try {
+        schema = JSON.parse(input) as JsonSchemaNode;
+      } catch {
+        return createErrorResult('Invalid JSON — pass the exact output from Model.model_json_schema()');
+      }
+      return convertPydanticToZod(schema);
+    },
+  },
+  {
+    name: 'json-to-zod',
+    title: 'JSON to Zod',
+    run: (input) => convertJsonToZod(input),
+  },
+  {
+    name: 'svg-to-jsx',
+    title: 'SVG to JSX',
+    options: {
+      'wrap-component': { type: 'boolean', description: 'Wrap the markup in a React component' },
+      'add-props': { type: 'boolean', description: 'Spread {...props} onto the root <svg>' },
+    },
+    run: (input, options) =>
+      convertSvgToJsx(input, {
+        wrapComponent: options['wrap-component'] === true,
+        addProps: options['add-props'] === true,
+      }),
+  },
+  {
+    name: 'sql-to-json',
+    title: 'SQL to JSON Schema',
+    options: {
+      target: { type: 'string', description: 'Output flavour: json-schema | zod', default: 'json-schema' },
+    },
+    run: (input, options) => {
+      const target = options.target;
+      if (target !== 'json-schema' && target !== 'zod') {
+        return createErrorResult(`Unknown --target "${String(target)}". Use json-schema or zod.`);
+      }
+      return convertSqlToJson(input, { target });
+    },
+  },
+  {
+    name: 'graphql-to-trpc',
+    title: 'GraphQL to tRPC',
+    run: (input) => convertGraphqlToTrpc(input),
+  },
+  {
+    name: 'prisma-to-zod',
+    title: 'Prisma to Zod',
+    run: (input) => convertPrismaToZod(input),
+  },
+  {
+    name: 'json-schema-to-zod',
+    title: 'JSON Schema to Zod',
+    run: (input) => convertJsonSchemaToZod(input),
+  },
+  {
+    name: 'zod-to-prompt',
+    title: 'Zod to LLM Prompt',
+    options: {
+      root: { type: 'string', description: 'Schema to build the prompt for (default: the one nothing references)' },
+      target: { type: 'string', description: 'Output: prompt | example | openai | anthropic | gemini', default: 'prompt' },
+    },
+    run: (input, options) => {
+      const root = typeof options.root === 'string' ? options.root : undefined;
+      switch (options.target) {
+        case 'prompt': return convertZodToPrompt(input, { root });
+        case 'example': {
+          const result = convertZodToPrompt(input, { root });
+          return result.example ? { ...result, code: result.example } : result;
+        }
+        case 'openai':
+        case 'anthropic':
+        case 'gemini':
+          return convertZodToStructuredOutput(input, { provider: options.target, root });
+        default:
+          return createErrorResult(
+            `Unknown --target "${String(options.target)}". Use prompt, example, openai, anthropic or gemini.`,
+          );
+      }
+    },
+  },
+  {
+    name: 'trpc-to-openapi',
+    title: 'tRPC to OpenAPI',
+    run: (input) => convertTrpcToOpenapi(input),
+  },
+  {
+    name: 'openapi-to-zod',
+    title: 'OpenAPI to Zod',
+    options: {
+      client: { type: 'boolean', description: 'Also emit a fetch client with one function per operationId' },
+    },
+    run: (input, options) => convertOpenAPIToZod(input, { client: options.client === true }),
+  },
+  {
+    name: 'ts-to-zod',
+    title: 'TypeScript to Zod',
+    run: (input) => convertTsToZodAst(input),
+  },
+  {
+    name: 'env-to-zod',
+    title: 'Env to Zod',
+    run: (input) => generateZodEnvSchema(input),
+  },
+  {
+    name: 'tailwind-to-css',
+    title: 'Tailwind to CSS',
+    options: {
+      selector: { type: 'string', description: 'Class name the rules are emitted under', default: 'custom-card' },
+    },
+    run: (input, options) => convertTailwindToCss(input, { selector: String(options.selector) }),
+  },
+  {
+    name: 'ts-to-json-schema',
+    title: 'TypeScript to JSON Schema',
+    run: (input) => convertTsToJsonSchema(input),
+  },
+  {
+    name: 'json-schema-to-ts',
+    title: 'JSON Schema to TypeScript',
+    run: (input) => convertJsonSchemaToTs(input),
+  },
+  {
+    name: 'sql-to-prisma',
+    title: 'SQL to Prisma Schema',
+    run: (input) => convertSqlToPrisma(input),
+  },
+  {
+    name: 'graphql-to-zod',
+    title: 'GraphQL to Zod',
+    run: (input) => convertGraphqlToZod(input),
+  },
+  {
+    name: 'zod-to-json-schema',
+    title: 'Zod to JSON Schema',
+    options: {
+      target: { type: 'string', description: 'Output flavour: json-schema | openapi | typescript', default: 'json-schema' },
+    },
+    run: (input, options) => {
+      switch (options.target) {
+        case 'json-schema': return convertZodToJsonSchema(input, { dialect: '2020-12' });
+        case 'openapi': return convertZodToJsonSchema(input, { dialect: 'openapi-3.1' });
+        case 'typescript': return convertZodToTs(input);
+        default:
+          return createErrorResult(`Unknown --target "${String(options.target)}". Use json-schema, openapi or typescript.`);
+      }
+    },
+  },
+];
+
+/** Looks up a command by name; `undefined` when it doesn't exist */
+export function findCommand(name: string): CliCommand | undefined {
+  return COMMANDS.find((c) => c.name === name);
+}
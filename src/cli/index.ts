@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+// src/cli/index.ts
+// ─── SyntaxSnap CLI ──────────────────────────────────────────────────────────
+// Runs the browser tools' conversion cores offline, e.g. in CI:
+//
+//   syntaxsnap pydantic-to-zod schema.json -o schema.ts
+//   cat .env.example | syntaxsnap env-to-zod > env.ts
+//   syntaxsnap pydantic-to-zod schema.json -o schema.ts --check
+//
+// `--check` never writes: it exits 1 when the file passed to `-o` differs
+// from what the converter would generate, so stale output fails the build.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs, type ParseArgsConfig } from 'node:util';
+import { hasErrors } from '../lib/converters';
+import { COMMANDS, findCommand, type CliCommand, type CommandOptionValues } from './commands';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const GLOBAL_OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  check: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const satisfies ParseArgsConfig['options'];
+
+// ─── HELP TEXT ───────────────────────────────────────────────────────────────
+
+function renderUsage(): string {
+  const width = Math.max(...COMMANDS.map((c) => c.name.length));
+  const commands = COMMANDS.map((c) => `  ${c.name.padEnd(width)}  ${c.title}`).join('\n');
+
+  return `Usage: syntaxsnap <command> [input] [options]
+
+Reads [input] (or stdin when omitted or "-") and writes to stdout.
+
+Options:
+  -o, --output <file>  Write the result to <file> instead of stdout
+      --check          Exit 1 if <file> is not up to date (requires --output)
+  -h, --help           Show help for a command
+
+Commands:
+${commands}
+`;
+}
+
+function renderCommandUsage(command: CliCommand): string {
+  const lines = [`Usage: syntaxsnap ${command.name} [input] [-o <file>] [--check]`, '', command.title];
+  const options = Object.entries(command.options ?? {});
+  if (options.length > 0) {
+    lines.push('', 'Options:');
+    for (const [name, opt] of options) {
+      const flag = opt.type === 'string' ? `--${name} <value>` : `--${name}`;
+      const fallback = opt.default !== undefined ? ` (default: ${String(opt.default)})` : '';
+      lines.push(`  ${flag.padEnd(22)} ${opt.description}${fallback}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ─── I/O HELPERS ─────────────────────────────────────────────────────────────
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/** Reads the file at `path`, or `null` when it doesn't exist */
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+function withTrailingNewline(code: string): string {
+  return code.endsWith('\n') ? code : code + '\n';
+}
+
+// ─── MAIN ────────────────────────────────────────────────────────────────────
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (!name || name === '--help' || name === '-h' || name === 'help') {
+    process.stdout.write(renderUsage());
+    return EXIT_OK;
+  }
+
+  const command = findCommand(name);
+  if (!command) {
+    process.stderr.write(`error: unknown command "${name}"\n\n${renderUsage()}`);
+    return EXIT_USAGE;
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      options: { ...command.options, ...GLOBAL_OPTIONS },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (err) {
+    process.stderr.write(`error: ${(err as Error).message}\n\n${renderCommandUsage(command)}`);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    process.stdout.write(renderCommandUsage(command));
+    return EXIT_OK;
+  }
+  if (positionals.length > 1) {
+    process.stderr.write(`error: expected at most one input file, got ${positionals.length}\n`);
+    return EXIT_USAGE;
+  }
+  if (values.check && !values.output) {
+    process.stderr.write('error: --check needs --output <file> to compare against\n');
+    return EXIT_USAGE;
+  }
+
+  const inputPath = positionals[0];
+  const fromStdin = inputPath === undefined || inputPath === '-';
+  if (fromStdin && process.stdin.isTTY) {
+    process.stderr.write(`error: no input — pass a file or pipe it via stdin\n\n${renderCommandUsage(command)}`);
+    return EXIT_USAGE;
+  }
+
+  const input = fromStdin ? await readStdin() : await readFile(inputPath, 'utf8');
+  if (!input.trim()) {
+    process.stderr.write(`error: ${fromStdin ? 'stdin' : inputPath} is empty\n`);
+    return EXIT_FAILURE;
+  }
+
+  const result = command.run(input, values as CommandOptionValues);
+
+  for (const d of result.diagnostics) {
+    process.stderr.write(`${d.severity}: ${d.message}\n`);
+  }
+  if (hasErrors(result)) return EXIT_FAILURE;
+
+  const output = withTrailingNewline(result.code);
+
+  if (values.check) {
+    const existing = await readIfExists(values.output!);
+    if (existing !== output) {
+      const reason = existing === null ? 'does not exist' : 'is out of date';
+      process.stderr.write(`✗ ${values.output} ${reason} — re-run without --check to regenerate\n`);
+      return EXIT_FAILURE;
+    }
+    process.stderr.write(`✓ ${values.output} is up to date\n`);
+    return EXIT_OK;
+  }
+
+  if (values.output) {
+    await writeFile(values.output, output, 'utf8');
+  } else {
+    process.stdout.write(output);
+  }
+  return EXIT_OK;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    process.stderr.write(`error: ${err instanceof Error ? err.message : String(err)}\n`);
+    process.exitCode = EXIT_FAILURE;
+  },
+);
@@ -1,60 +1,224 @@
 // src/components/tools/AiMockGenerator.tsx
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useCopyToClipboard } from '../../hooks/useCopyToClipboard';
-import { parseOpenAPI } from '../../utils/openapiParser';
+import { useDebounce } from '../../hooks/useDebounce';
+import type { MockRowEvent } from '../../lib/ai/mockRows';
+import { getErrorMessage } from '../../lib/converters/types';
+import { convertZodToJsonSchema } from '../../lib/converters/zodToJsonSchema';
+import {
+  exportRecordSchema,
+  generateMockRecords,
+  loadMockSource,
+  MAX_MOCK_RECORDS,
+  type MockTarget,
+} from '../../utils/mockEngine';
+import {
+  exportMockRows,
+  MOCK_EXPORT_FORMATS,
+  SQL_DIALECTS,
+  toTypeName,
+  type MockExportFormat,
+  type SqlDialect,
+} from '../../utils/mockExport';
+
+const DEBOUNCE_MS = 300;
+
+interface Progress {
+  received: number;
+  total: number;
+  /** Set while invalid or missing rows are being regenerated */
+  repairAttempt?: number;
+}
+
+/** Row schema typed by the user: a JSON Schema object, or Zod source converted to one */
+function parseRowSchema(input: string): Record<string, unknown> | undefined {
+  const trimmed = input.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      throw new Error('Row schema is not valid JSON.');
+    }
+  }
+  const converted = convertZodToJsonSchema(trimmed, { dialect: '2020-12' });
+  const error = getErrorMessage(converted);
+  if (error) throw new Error(`Row schema: ${error}`);
+  return JSON.parse(converted.code);
+}
+
+/** Feed each NDJSON line of a streamed response to `onEvent` */
+async function readEvents(response: Response, onEvent: (event: MockRowEvent) => void): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) if (line.trim()) onEvent(JSON.parse(line));
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
 
 export default function AiMockGenerator() {
-  const [mode, setMode] = useState<'prompt' | 'openapi'>('prompt');
+  const [mode, setMode] = useState<'prompt' | 'schema'>('prompt');
   const [prompt, setPrompt] = useState('');
-  const [openApiInput, setOpenApiInput] = useState('');
+  const [rowSchema, setRowSchema] = useState('');
+  const [schemaInput, setSchemaInput] = useState('');
+  const [targetId, setTargetId] = useState('');
   const [rowCount, setRowCount] = useState(5);
-  const [result, setResult] = useState('');
+  const [seed, setSeed] = useState('1');
+  const [enrich, setEnrich] = useState(false);
+  const [rows, setRows] = useState<unknown[]>([]);
+  const [format, setFormat] = useState<MockExportFormat>('json');
+  const [dialect, setDialect] = useState<SqlDialect>('postgres');
+  const [tableName, setTableName] = useState('');
+  const [typeName, setTypeName] = useState('');
+  /** Row type suggested by the schema the rows came from */
+  const [schemaTypeName, setSchemaTypeName] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  
+  const [progress, setProgress] = useState<Progress | null>(null);
+  /** Seconds left before the API accepts another request after a 429 */
+  const [cooldown, setCooldown] = useState(0);
+
   const { copiedText, copy } = useCopyToClipboard();
+  const debouncedSchema = useDebounce(schemaInput, DEBOUNCE_MS);
+
+  const rootRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    rootRef.current?.setAttribute('data-hydrated', 'true');
+  }, []);
+
+  // Schemas on offer for the pasted document; parse errors surface on Generate
+  const targets = useMemo<MockTarget[]>(() => {
+    if (!debouncedSchema.trim()) return [];
+    try {
+      return loadMockSource(debouncedSchema).targets;
+    } catch {
+      return [];
+    }
+  }, [debouncedSchema]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((c) => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const exportFormat = MOCK_EXPORT_FORMATS.find((f) => f.id === format) ?? MOCK_EXPORT_FORMATS[0];
+  const result = useMemo(
+    () => (rows.length > 0 ? exportMockRows(rows, { format, dialect, tableName, typeName: typeName || schemaTypeName }) : ''),
+    [rows, format, dialect, tableName, typeName, schemaTypeName],
+  );
+
+  const handleDownload = () => {
+    const blob = new Blob([result], { type: exportFormat.mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mock-data.${exportFormat.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Only the prompt and the AI enrich step leave the browser
+  const sendsData = mode === 'prompt' || enrich;
+  const waiting = sendsData && cooldown > 0;
+
+  /** Stream rows from the API, showing each one as it arrives */
+  const requestMock = async (body: Record<string, unknown>): Promise<void> => {
+    const response = await fetch('/api/generate-mock', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/x-ndjson' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('Retry-After') ?? data.retryAfter);
+        setCooldown(Number.isFinite(retryAfter) && retryAfter > 0 ? Math.ceil(retryAfter) : 60);
+      }
+      throw new Error(data.error || 'Failed to generate data from API.');
+    }
+
+    const streamed: unknown[] = [];
+    let failure = '';
+    await readEvents(response, (event) => {
+      switch (event.type) {
+        case 'start':
+          setProgress({ received: 0, total: event.total });
+          break;
+        case 'row':
+          streamed.push(event.data);
+          setRows([...streamed]);
+          setProgress((p) => p && { ...p, received: streamed.length });
+          break;
+        case 'repair':
+          setProgress((p) => p && { ...p, repairAttempt: event.attempt });
+          break;
+        case 'error':
+          failure = event.error;
+          break;
+        case 'done': {
+          const notes: string[] = [];
+          if (event.repaired > 0) notes.push(`${event.repaired} row(s) failed validation and were repaired`);
+          if (event.dropped > 0) notes.push(`${event.dropped} row(s) were still invalid or missing after repair and were left out`);
+          setWarnings((w) => [...w, ...notes]);
+          break;
+        }
+      }
+    });
+    if (failure) throw new Error(failure);
+    if (streamed.length === 0) throw new Error('AI returned no valid records. Please try again.');
+  };
 
   const handleGenerate = async () => {
     setError('');
-    setResult('');
+    setRows([]);
+    setWarnings([]);
+    setProgress(null);
     setLoading(true);
 
     try {
-      let finalPrompt = prompt;
+      if (mode === 'schema') {
+        if (!schemaInput.trim()) throw new Error('Please paste an OpenAPI document or a JSON Schema.');
+        const source = loadMockSource(schemaInput);
+        const target = source.targets.find((t) => t.id === targetId) ?? source.targets[0];
+        if (!target) throw new Error('No schemas found — add components.schemas, $defs or a typed root schema.');
 
-      // Handle OpenAPI parsing if in OpenAPI mode
-      if (mode === 'openapi') {
-        if (!openApiInput.trim()) throw new Error('Please paste an OpenAPI schema.');
-        const parsedSchema = parseOpenAPI(openApiInput);
-        finalPrompt = `Based on this OpenAPI schema, generate strictly typed mock data: ${JSON.stringify(parsedSchema)}`;
+        const generated = generateMockRecords(source, target, { count: rowCount, seed });
+        setSchemaTypeName(toTypeName(target.label));
+        setWarnings([...source.warnings, ...generated.warnings]);
+        if (!enrich) {
+          setRows(generated.records);
+          return;
+        }
+        await requestMock({
+          records: generated.records,
+          prompt: `"${target.label}" schema`,
+          schema: exportRecordSchema(source, target),
+          schemaDialect: 'openapi-3.0',
+        });
       } else {
         if (!prompt.trim()) throw new Error('Please enter a description of the data you need.');
+        setSchemaTypeName('');
+        await requestMock({ prompt, rowCount, schema: parseRowSchema(rowSchema) });
       }
-
-      // Call your Astro Hybrid API Route
-      const response = await fetch('/api/generate-mock', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt: finalPrompt, rowCount })
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate data from API.');
-      }
-
-      // Format the successful JSON response
-      setResult(JSON.stringify(data, null, 2));
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
   return (
-    <div className="flex flex-col gap-6 w-full">
+    <div ref={rootRef} className="flex flex-col gap-6 w-full">
       {/* Mode Toggle */}
       <div className="flex bg-slate-900 p-1 rounded-lg w-fit border border-slate-800">
         <button
@@ -64,10 +228,10 @@ export default function AiMockGenerator() {
           Natural Language
         </button>
         <button
-          onClick={() => setMode('openapi')}
-          className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${mode === 'openapi' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+          onClick={() => setMode('schema')}
+          className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${mode === 'schema' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
         >
-          OpenAPI Schema
+          OpenAPI / JSON Schema
         </button>
       </div>
 
@@ -83,28 +247,81 @@ export default function AiMockGenerator() {
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
           />
+          <label htmlFor="rowSchemaTextarea" className="text-sm text-slate-400 mt-2">
+            Row schema (optional) — JSON Schema or Zod; every row is validated against it
+          </label>
+          <textarea
+            id="rowSchemaTextarea"
+            className="w-full p-4 bg-slate-900 border border-slate-700 rounded-lg font-mono text-sm text-slate-200 focus:ring-2 focus:ring-emerald-500 outline-none resize-y"
+            rows={4}
+            placeholder='const User = z.object({ id: z.number().int(), email: z.string().email() })'
+            value={rowSchema}
+            onChange={(e) => setRowSchema(e.target.value)}
+          />
         </div>
       ) : (
         <div className="flex flex-col gap-2">
-          <label htmlFor="openApiTextarea" className="text-sm text-slate-400">OpenAPI Schema</label>
+          <label htmlFor="schemaTextarea" className="text-sm text-slate-400">OpenAPI or JSON Schema</label>
           <textarea
-            id="openApiTextarea"
+            id="schemaTextarea"
             className="w-full p-4 bg-slate-900 border border-slate-700 rounded-lg font-mono text-sm text-slate-200 focus:ring-2 focus:ring-emerald-500 outline-none resize-y"
             rows={8}
-            placeholder="Paste your OpenAPI v3 JSON or YAML here..."
-            value={openApiInput}
-            onChange={(e) => setOpenApiInput(e.target.value)}
+            placeholder="Paste an OpenAPI / Swagger document or a JSON Schema (JSON or YAML)..."
+            value={schemaInput}
+            onChange={(e) => setSchemaInput(e.target.value)}
           />
+          <div className="flex flex-col sm:flex-row gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              Schema
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                disabled={targets.length === 0}
+                className="bg-slate-800 border border-slate-700 rounded px-2 py-2 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:text-slate-500"
+              >
+                {targets.length === 0 && <option value="">No schemas yet</option>}
+                {targets.map((target) => (
+                  <option key={target.id} value={target.id}>{target.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              Seed
+              <input
+                type="text"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                className="bg-slate-800 border border-slate-700 rounded px-2 py-2 w-28 text-slate-200 font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={enrich}
+                onChange={(e) => setEnrich(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Enrich with AI
+            </label>
+          </div>
         </div>
       )}
 
-      {/* Privacy notice — data is relayed to OpenAI */}
-      <p className="text-xs text-slate-400 border border-slate-800 rounded-lg px-3 py-2">
-        <strong className="text-slate-400">Privacy notice:</strong> Your prompt or schema is sent to{' '}
-        <strong className="text-slate-400">OpenAI</strong> to generate mock data. Do not include real
-        personal data, credentials, or proprietary schemas. See our{' '}
-        <a href="/privacy" className="text-indigo-400 hover:underline">Privacy Policy</a>.
-      </p>
+      {sendsData ? (
+        /* Privacy notice — data is relayed to OpenAI */
+        <p className="text-xs text-slate-400 border border-slate-800 rounded-lg px-3 py-2">
+          <strong className="text-slate-400">Privacy notice:</strong>{' '}
+          {mode === 'prompt' ? 'Your prompt is' : 'The generated records are'} sent to{' '}
+          <strong className="text-slate-400">OpenAI</strong> to generate mock data. Do not include real
+          personal data, credentials, or proprietary schemas. See our{' '}
+          <a href="/privacy" className="text-indigo-400 hover:underline">Privacy Policy</a>.
+        </p>
+      ) : (
+        <p className="text-xs text-slate-400 border border-slate-800 rounded-lg px-3 py-2">
+          Records are generated in your browser from the schema — nothing is sent to a server. The same seed
+          always produces the same data.
+        </p>
+      )}
 
       {/* Controls & Generate Button */}
       <div className="flex flex-col sm:flex-row gap-4 items-center">
@@ -114,7 +331,7 @@ export default function AiMockGenerator() {
             id="rowCountInput"
             type="number"
             min="1"
-            max="100"
+            max={MAX_MOCK_RECORDS}
             className="bg-transparent text-white w-16 outline-none font-mono"
             value={rowCount}
             onChange={(e) => setRowCount(Number(e.target.value))}
@@ -124,11 +341,17 @@ export default function AiMockGenerator() {
 
         <button
           onClick={handleGenerate}
-          disabled={loading}
+          disabled={loading || waiting}
           className="w-full sm:flex-1 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-bold py-3 px-6 rounded-lg transition-colors flex justify-center items-center gap-2"
         >
           {loading ? (
-            <span className="animate-pulse">Generating Data...</span>
+            <span className="animate-pulse">
+              {progress
+                ? `${progress.repairAttempt ? 'Repairing invalid rows' : 'Generating'}... ${progress.received} / ${progress.total} rows`
+                : 'Generating Data...'}
+            </span>
+          ) : waiting ? (
+            `Try again in ${cooldown}s`
           ) : (
             'Generate Data'
           )}
@@ -137,20 +360,86 @@ export default function AiMockGenerator() {
 
       {/* Error Message */}
       {error && (
-        <div className="p-4 bg-red-900/20 border border-red-800 rounded-lg text-red-400 text-sm">
+        <div className="p-4 bg-red-900/20 border border-red-800 rounded-lg text-red-400 text-sm" role="alert">
           {error}
         </div>
       )}
 
+      {warnings.length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-700/50 rounded-lg px-4 py-3 text-amber-300 text-sm" role="status">
+          <strong className="font-semibold">Warnings:</strong> {warnings.join(' • ')}
+        </div>
+      )}
+
       {/* Results Display */}
       {result && (
         <div className="relative group mt-4">
-          <button
-            onClick={() => copy(result)}
-            className="absolute top-4 right-4 bg-slate-800 hover:bg-slate-700 text-xs text-white px-3 py-1.5 rounded border border-slate-600 z-10 transition-colors"
-          >
-            {copiedText === result ? 'Copied!' : 'Copy JSON'}
-          </button>
+          <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-slate-300">
+            <label className="flex items-center gap-2">
+              Export as
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as MockExportFormat)}
+                className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {MOCK_EXPORT_FORMATS.map((f) => (
+                  <option key={f.id} value={f.id}>{f.label}</option>
+                ))}
+              </select>
+            </label>
+            {format === 'sql' && (
+              <>
+                <label className="flex items-center gap-2">
+                  Dialect
+                  <select
+                    value={dialect}
+                    onChange={(e) => setDialect(e.target.value as SqlDialect)}
+                    className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    {SQL_DIALECTS.map((d) => (
+                      <option key={d.id} value={d.id}>{d.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Table
+                  <input
+                    type="text"
+                    value={tableName}
+                    placeholder="mock_data"
+                    onChange={(e) => setTableName(e.target.value)}
+                    className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 w-36 text-slate-200 font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                </label>
+              </>
+            )}
+            {format === 'typescript' && (
+              <label className="flex items-center gap-2">
+                Type name
+                <input
+                  type="text"
+                  value={typeName}
+                  placeholder={schemaTypeName || 'MockRecord'}
+                  onChange={(e) => setTypeName(e.target.value)}
+                  className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 w-36 text-slate-200 font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+              </label>
+            )}
+          </div>
+          <div className="absolute top-16 right-4 flex gap-2 z-10">
+            <button
+              onClick={handleDownload}
+              className="bg-slate-800 hover:bg-slate-700 text-xs text-white px-3 py-1.5 rounded border border-slate-600 transition-colors"
+            >
+              Download .{exportFormat.extension}
+            </button>
+            <button
+              onClick={() => copy(result)}
+              className="bg-slate-800 hover:bg-slate-700 text-xs text-white px-3 py-1.5 rounded border border-slate-600 transition-colors"
+            >
+              {copiedText === result ? 'Copied!' : `Copy ${exportFormat.label}`}
+            </button>
+          </div>
           <pre className="p-6 pt-14 bg-slate-950 rounded-lg border border-slate-800 overflow-x-auto shadow-2xl max-h-125 overflow-y-auto">
             <code className="text-emerald-300 text-sm font-mono">{result}</code>
           </pre>
@@ -158,4 +447,4 @@ export default function AiMockGenerator() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
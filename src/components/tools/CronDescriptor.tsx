@@ -1,16 +1,56 @@
 'use client';
 import React, { useState, useMemo, useCallback, useId } from 'react';
-import cronstrue from 'cronstrue';
-import cronParser from 'cron-parser';
-import { Clock, CalendarDays, AlertTriangle, Copy, Check, Trash2 } from 'lucide-react';
+import { Clock, CalendarDays, AlertTriangle, Copy, Check, Trash2, Languages, Info, Globe, X, Sun, Wand2, ListChecks, BarChart3 } from 'lucide-react';
 import { useDebounce } from '../../hooks/useDebounce';
+import { STEP_OPTIONS, builderFields, fieldModes, fieldOptions, readField, rebuildExpression, type BuilderMode, type FieldChoice } from '../../lib/cron/builder';
+import { MAX_RUNS_PER_JOB, findCollisions, hourlyLoad, jobRuns } from '../../lib/cron/collisions';
+import { CRON_DIALECTS, CRON_FIELDS, dialectInfo, isCronDialect, type CronDialect, type CronFieldName } from '../../lib/cron/dialects';
+import { parseJobs, type CronJob, type JobFormat, type JobList } from '../../lib/cron/jobs';
+import { naturalToCron, type NaturalCron } from '../../lib/cron/natural';
+import { breakdownCronFields, parseCron, type CronField, type CronItem } from '../../lib/cron/parse';
+import { describeCron, nextCronRuns } from '../../lib/cron/schedule';
+import { calendarWeeks, dailyRunCounts, dstEffect, dstImpact, formatOffset, listTimezones, zonedDateKey, type DstImpact } from '../../lib/cron/timezones';
+import { translateCron } from '../../lib/cron/translate';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-interface CronField {
-  name: string;
+interface CronPreset {
+  label: string;
   value: string;
-  description: string;
+  /** Dialect the preset is written in; Unix unless it needs Quartz tokens */
+  dialect?: CronDialect;
+}
+
+type DialectTranslation =
+  | { dialect: CronDialect; expression: string; warnings: string[]; error?: undefined }
+  | { dialect: CronDialect; error: string };
+
+type PhraseResult = (NaturalCron & { error?: undefined }) | { error: string };
+
+type ToolMode = 'single' | 'jobs';
+
+type ParsedJobs = (JobList & { error?: undefined }) | { error: string };
+
+interface JobAnalyzerProps {
+  timezone: string;
+  timezones: string[];
+  onTimezoneChange: (timezone: string) => void;
+}
+
+interface DstBadgeProps {
+  run: Date;
+  impacts: DstImpact[];
+}
+
+interface DstOutcomesProps {
+  impact: DstImpact;
+}
+
+interface FieldPickerProps {
+  field: CronFieldName;
+  items: CronItem[];
+  dialect: CronDialect;
+  onChange: (choice: FieldChoice) => void;
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -19,30 +59,49 @@ function getUserTimezone(): string {
   return Intl.DateTimeFormat().resolvedOptions().timeZone;
 }
 
-function breakdownCronFields(cron: string): CronField[] {
-  const parts = cron.trim().split(/\s+/);
-  
-  if (parts.length < 5) return [];
-
-  const labels = ['Minute', 'Hour', 'Day of Month', 'Month', 'Day of Week'];
-  const descriptions = [
-    '0-59',
-    '0-23',
-    '1-31',
-    '1-12 or JAN-DEC',
-    '0-7 or SUN-SAT (0 or 7 is Sunday)'
-  ];
-
-  return parts.slice(0, 5).map((value, i) => ({
-    name: labels[i],
-    value,
-    description: descriptions[i]
-  }));
+/** A floating wall-clock time as `HH:MM` */
+function wallClock(date: Date): string {
+  return date.toISOString().slice(11, 16);
+}
+
+function formatRun(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', { dateStyle: 'full', timeStyle: 'long', timeZone });
+}
+
+function formatRunShort(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone });
+}
+
+/** The job's schedule in English, or null when cronstrue can't say it */
+function describeJob(job: CronJob): string | null {
+  if (!job.parsed) return null;
+  try {
+    return describeCron(job.parsed);
+  } catch {
+    return null;
+  }
+}
+
+/** Heatmap shade for a day's fire count, on a log scale up to the busiest day */
+function heatClass(count: number, max: number): string {
+  if (count === 0) return 'bg-slate-900 text-slate-600';
+  const level = Math.min(3, Math.floor((3 * Math.log(count + 1)) / Math.log(max + 1)));
+  return ['bg-sky-900 text-sky-200', 'bg-sky-700 text-sky-100', 'bg-sky-500 text-white', 'bg-sky-300 text-slate-900'][level];
+}
+
+/** `expression` rewritten from one dialect into another, or null when it can't be */
+function convertExpression(expression: string, from: CronDialect, to: CronDialect): string | null {
+  if (from === to) return expression;
+  try {
+    return translateCron(parseCron(expression, from), to).expression;
+  } catch {
+    return null;
+  }
 }
 
 // ─── Presets ──────────────────────────────────────────────────────────────────
 
-const CRON_PRESETS = [
+const CRON_PRESETS: CronPreset[] = [
   { label: 'Every minute', value: '* * * * *' },
   { label: 'Every 5 minutes', value: '*/5 * * * *' },
   { label: 'Every 15 minutes', value: '*/15 * * * *' },
@@ -54,75 +113,480 @@ const CRON_PRESETS = [
   { label: 'Every weekday at 9 AM', value: '0 9 * * 1-5' },
   { label: 'Every Monday at 9 AM', value: '0 9 * * 1' },
   { label: 'First day of month', value: '0 0 1 * *' },
-  { label: 'Last day of month', value: '0 0 L * *' }
+  { label: 'Last day of month', value: '0 0 0 L * ?', dialect: 'quartz' }
+];
+
+const CALENDAR_WEEK_OPTIONS = [4, 8, 12, 26, 52];
+const WEEKDAY_HEADERS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_MS = 86_400_000;
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact' });
+
+const TOOL_MODES: { id: ToolMode; label: string }[] = [
+  { id: 'single', label: 'Single Expression' },
+  { id: 'jobs', label: 'Multiple Jobs' }
 ];
 
+const SAMPLE_JOBS = `# m h dom mon dow command
+0 2 * * * /usr/local/bin/backup-db
+5 2 * * * /usr/local/bin/vacuum-analyze
+*/15 * * * * /usr/local/bin/sync-cache
+0 * * * * /usr/local/bin/rotate-logs
+0 9 * * 1-5 /usr/local/bin/send-digest
+@daily /usr/local/bin/purge-tmp`;
+
+const JOB_FORMAT_LABELS: Record<JobFormat, string> = {
+  crontab: 'crontab',
+  kubernetes: 'Kubernetes CronJob YAML',
+  github: 'GitHub Actions workflow'
+};
+
+/** Minutes apart that still count as a collision; 0 is the same minute */
+const OVERLAP_WINDOWS = [0, 1, 5, 15, 30, 60];
+
+const LOOK_AHEAD_OPTIONS = [
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' }
+];
+
+const MODE_LABELS: Record<BuilderMode, string> = {
+  every: 'Every',
+  step: 'Every nth',
+  values: 'Specific',
+  range: 'Range',
+  none: 'No specific value (?)',
+  last: 'Last day (L)',
+  custom: 'Custom'
+};
+
+/** Tailwind needs whole class names, so the breakdown grid picks from these */
+const FIELD_GRID_COLUMNS: Record<number, string> = {
+  2: 'grid-cols-2',
+  5: 'grid-cols-5',
+  6: 'grid-cols-3 md:grid-cols-6',
+  7: 'grid-cols-4 md:grid-cols-7'
+};
+
+// ─── DST ──────────────────────────────────────────────────────────────────────
+
+/** Marks a listed run that a DST change moved or that falls in a repeated stretch */
+function DstBadge({ run, impacts }: DstBadgeProps) {
+  const effect = dstEffect(run, impacts);
+  if (!effect) return null;
+  const text = effect.impact.kind === 'skipped'
+    ? `DST: moved from ${wallClock(effect.wall)}`
+    : `DST: repeated hour, runs ${effect.times === 1 ? 'once' : 'twice'}`;
+  return <span className="ml-2 text-amber-300 font-sans">{text}</span>;
+}
+
+/** What the listed runs do with each wall time a DST change skips or repeats */
+function DstOutcomes({ impact }: DstOutcomesProps) {
+  const skipped = impact.kind === 'skipped';
+  const groups = skipped
+    ? [
+        { label: 'Skipped runs', runs: impact.runs.filter((_, i) => impact.fired[i].length === 0), moved: false },
+        { label: 'Moved past the jump', runs: impact.runs.filter((_, i) => impact.fired[i].length > 0), moved: true },
+      ]
+    : [
+        { label: 'Runs twice', runs: impact.runs.filter((_, i) => impact.fired[i].length > 1), moved: false },
+        { label: 'Runs once', runs: impact.runs.filter((_, i) => impact.fired[i].length === 1), moved: false },
+      ];
+  const span = Math.abs(impact.offsetAfter - impact.offsetBefore) * 60_000;
+
+  return (
+    <div className={`text-xs mt-1 space-y-0.5 ${skipped ? 'text-red-300' : 'text-amber-300'}`}>
+      {groups.filter((group) => group.runs.length > 0).map((group) => (
+        <p key={group.label}>
+          {group.label}:{' '}
+          <span className="font-mono">
+            {group.runs.map((run) => (group.moved ? `${wallClock(run)} → ${wallClock(new Date(run.getTime() + span))}` : wallClock(run))).join(', ')}
+            {impact.truncated ? ', …' : ''}
+          </span>
+        </p>
+      ))}
+      <p className="text-slate-500">
+        {skipped
+          ? 'These local times never happen that day. The runs listed above fire them after the jump, unless the job already runs then or runs every hour.'
+          : 'These local times happen twice. The runs listed above fire once if the job names its hours, and twice if it runs every hour.'}
+      </p>
+    </div>
+  );
+}
+
+// ─── Field Picker ─────────────────────────────────────────────────────────────
+
+/** One field of the builder: a mode, then the step, range or values it needs */
+function FieldPicker({ field, items, dialect, onChange }: FieldPickerProps) {
+  const modeId = useId();
+  const { label } = CRON_FIELDS[field];
+  const choice = readField(items, field);
+  const modes = fieldModes(field, dialect);
+  const options = fieldOptions(field, choice.values);
+  const steps = STEP_OPTIONS[field].includes(choice.step) ? STEP_OPTIONS[field] : [choice.step, ...STEP_OPTIONS[field]];
+  const selectClass = 'bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-xs text-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none';
+
+  const toggle = (value: number) => {
+    const values = choice.values.includes(value) ? choice.values.filter((v) => v !== value) : [...choice.values, value];
+    onChange({ ...choice, values });
+  };
+
+  return (
+    <div className="bg-slate-950/60 border border-slate-800 rounded-lg p-3">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <label htmlFor={modeId} className="text-xs font-medium text-slate-400">{label}</label>
+        <select
+          id={modeId}
+          value={choice.mode}
+          onChange={(e) => onChange({ ...choice, mode: e.target.value as BuilderMode })}
+          className={selectClass}
+        >
+          {(modes.includes(choice.mode) ? modes : [choice.mode, ...modes]).map((mode) => (
+            <option key={mode} value={mode} disabled={mode === 'custom'}>{MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </div>
+
+      {choice.mode === 'step' && (
+        <select
+          aria-label={`${label} step`}
+          value={choice.step}
+          onChange={(e) => onChange({ ...choice, step: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {steps.map((step) => (
+            <option key={step} value={step}>Every {step}</option>
+          ))}
+        </select>
+      )}
+
+      {choice.mode === 'range' && (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <select aria-label={`${label} from`} value={choice.start} onChange={(e) => onChange({ ...choice, start: Number(e.target.value) })} className={selectClass}>
+            {options.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          to
+          <select aria-label={`${label} to`} value={choice.end} onChange={(e) => onChange({ ...choice, end: Number(e.target.value) })} className={selectClass}>
+            {options.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {choice.mode === 'values' && (
+        <div role="group" aria-label={`${label} values`} className="flex flex-wrap gap-1">
+          {options.map((option) => {
+            const on = choice.values.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                type="button"
+                aria-pressed={on}
+                onClick={() => toggle(option.value)}
+                className={`min-w-[2rem] px-1 py-0.5 rounded text-[11px] font-mono transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-indigo-500 ${on ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {choice.mode === 'custom' && (
+        <p className="text-xs text-slate-500">
+          <code className="font-mono text-indigo-300">{items.map((item) => item.text).join(',')}</code> is beyond the pickers; edit it in the expression or pick a mode.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ─── Job Analyzer ─────────────────────────────────────────────────────────────
+
+/** Multiple jobs at once: what's scheduled, which runs collide, and how busy each hour is */
+function JobAnalyzer({ timezone, timezones, onTimezoneChange }: JobAnalyzerProps) {
+  const [text, setText] = useState(SAMPLE_JOBS);
+  const [windowMinutes, setWindowMinutes] = useState(5);
+  const [lookAhead, setLookAhead] = useState(24);
+
+  const textId = useId();
+  const windowId = useId();
+  const lookAheadId = useId();
+  const zoneId = useId();
+
+  const debouncedText = useDebounce(text, 300);
+  const lookAheadLabel = LOOK_AHEAD_OPTIONS.find((option) => option.hours === lookAhead)?.label ?? `${lookAhead} hours`;
+  const windowLabel = windowMinutes === 0 ? 'the same minute' : `${windowMinutes} minute${windowMinutes === 1 ? '' : 's'}`;
+
+  const list = useMemo((): ParsedJobs => {
+    try {
+      return parseJobs(debouncedText);
+    } catch (err) {
+      return { error: (err as Error).message };
+    }
+  }, [debouncedText]);
+
+  // Iterating is the slow part, so the window and histogram reuse these runs
+  const runs = useMemo(() => {
+    if (list.error !== undefined) return [];
+    const from = new Date();
+    const to = new Date(from.getTime() + lookAhead * 3_600_000);
+    return list.jobs.map((job) => jobRuns(job, from, to, timezone));
+  }, [list, lookAhead, timezone]);
+
+  const collisions = useMemo(() => findCollisions(runs, windowMinutes), [runs, windowMinutes]);
+  const hourly = useMemo(() => hourlyLoad(runs, timezone), [runs, timezone]);
+  const totals = hourly.map((jobs) => jobs.reduce((sum, count) => sum + count, 0));
+  const peak = Math.max(...totals);
+  const busiestHour = totals.indexOf(peak);
+  const truncated = runs.filter((job) => job.truncated).map(({ job }) => job.name);
+  const selectClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none';
+
+  const hourLabel = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+  const hourJobs = (hour: number) =>
+    hourly[hour]
+      .map((count, job) => ({ count, name: runs[job].job.name }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) => b.count - a.count);
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 md:p-8 shadow-xl">
+        <div className="flex justify-between items-center mb-3">
+          <label htmlFor={textId} className="text-sm font-medium text-slate-400">Jobs</label>
+          {list.error === undefined && (
+            <span className="text-xs text-slate-500">
+              {JOB_FORMAT_LABELS[list.format]} · {list.jobs.length} job{list.jobs.length === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+        <textarea
+          id={textId}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={10}
+          spellCheck={false}
+          placeholder="Paste a crontab, Kubernetes CronJob YAML or a GitHub Actions workflow"
+          className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-sm font-mono text-indigo-300 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none transition-all"
+        />
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor={windowId} className="block text-xs text-slate-400 mb-2">Overlap Window</label>
+            <select id={windowId} value={windowMinutes} onChange={(e) => setWindowMinutes(Number(e.target.value))} className={selectClass}>
+              {OVERLAP_WINDOWS.map((minutes) => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? 'Same minute' : `Within ${minutes} min`}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor={lookAheadId} className="block text-xs text-slate-400 mb-2">Look Ahead</label>
+            <select id={lookAheadId} value={lookAhead} onChange={(e) => setLookAhead(Number(e.target.value))} className={selectClass}>
+              {LOOK_AHEAD_OPTIONS.map((option) => (
+                <option key={option.hours} value={option.hours}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor={zoneId} className="flex items-center gap-1.5 text-xs text-slate-400 mb-2">
+              <Globe className="w-3.5 h-3.5" aria-hidden /> Source Timezone
+            </label>
+            <select id={zoneId} value={timezone} onChange={(e) => onTimezoneChange(e.target.value)} className={selectClass}>
+              {timezones.map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {list.error !== undefined ? (
+        <div role="alert" className="flex items-start gap-2 text-amber-400 bg-amber-400/10 p-4 rounded-lg text-sm border border-amber-500/30">
+          <AlertTriangle className="w-5 h-5 shrink-0" aria-hidden />
+          <p>{list.error}</p>
+        </div>
+      ) : (
+        <>
+          {/* Jobs */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
+            <div className="flex items-center gap-2 text-slate-400 mb-4">
+              <ListChecks className="w-5 h-5 text-indigo-400" aria-hidden />
+              <h3 className="font-semibold">Scheduled Jobs</h3>
+            </div>
+            {list.jobs.length === 0 ? (
+              <p className="text-sm text-slate-600">No scheduled jobs found.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table aria-label="Scheduled jobs" className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-500">
+                    <tr>
+                      <th scope="col" className="font-medium pb-2 pr-4">Job</th>
+                      <th scope="col" className="font-medium pb-2 pr-4">Schedule</th>
+                      <th scope="col" className="font-medium pb-2 pr-4 text-right">Runs</th>
+                      <th scope="col" className="font-medium pb-2">Next Run</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {runs.map(({ job, runs: fires, truncated: capped }, index) => (
+                      <tr key={index} className="align-top">
+                        <td className="py-2 pr-4">
+                          <div className="text-slate-200 break-all">{job.name}</div>
+                          <div className="text-xs text-slate-600">{job.origin} · {job.timezone ?? timezone}</div>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <code className="font-mono text-indigo-300">{job.expression}</code>
+                          {job.error ? (
+                            <div className="text-xs text-red-300">{job.error}</div>
+                          ) : (
+                            <div className="text-xs text-slate-500">{describeJob(job)}</div>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-right font-mono text-slate-300">
+                          {job.error ? '—' : `${fires.length.toLocaleString('en-US')}${capped ? '+' : ''}`}
+                        </td>
+                        <td className="py-2 text-xs text-slate-400 whitespace-nowrap">
+                          {fires.length > 0 ? formatRunShort(fires[0], timezone) : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {list.skipped.map((reason) => (
+              <p key={reason} className="mt-2 text-xs text-slate-500">Skipped {reason}</p>
+            ))}
+          </div>
+
+          {/* Collisions */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
+            <div className="flex items-center gap-2 text-slate-400 mb-4">
+              <AlertTriangle className="w-5 h-5 text-amber-400" aria-hidden />
+              <h3 className="font-semibold">Collisions</h3>
+            </div>
+            {collisions.length === 0 ? (
+              <p className="text-sm text-slate-500">No jobs fire within {windowLabel} of each other in the next {lookAheadLabel}.</p>
+            ) : (
+              <ul aria-label="Collisions" className="space-y-2">
+                {collisions.map((collision) => (
+                  <li key={collision.jobs.join()} className="text-sm rounded-lg border border-amber-900/50 bg-amber-900/10 px-4 py-3">
+                    <p className="text-slate-200">{collision.jobs.map((job) => runs[job].job.name).join(' + ')}</p>
+                    <p className="text-xs text-amber-300/80 mt-1">
+                      {collision.count.toLocaleString('en-US')} time{collision.count === 1 ? '' : 's'} in the next {lookAheadLabel}, first {formatRunShort(collision.first, timezone)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {truncated.length > 0 && (
+              <p className="mt-3 text-xs text-slate-500">
+                Only the first {MAX_RUNS_PER_JOB.toLocaleString('en-US')} runs of {truncated.join(', ')} are compared; shorten the look-ahead to cover the rest.
+              </p>
+            )}
+          </div>
+
+          {/* Load by Hour */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
+            <div className="flex items-center gap-2 text-slate-400 mb-4">
+              <BarChart3 className="w-5 h-5 text-sky-400" aria-hidden />
+              <h3 className="font-semibold">Load by Hour</h3>
+            </div>
+            <ol aria-label="Runs per hour" className="flex items-end gap-1 h-40">
+              {totals.map((total, hour) => {
+                const label = `${hourLabel(hour)}: ${total.toLocaleString('en-US')} run${total === 1 ? '' : 's'}${total > 0 ? ` (${hourJobs(hour).map(({ name, count }) => `${name} ${count}`).join(', ')})` : ''}`;
+                return (
+                  <li key={hour} title={label} aria-label={label} className="flex-1 h-full flex flex-col justify-end items-center gap-1">
+                    <div
+                      className={`w-full rounded-t ${hour === busiestHour && peak > 0 ? 'bg-amber-400' : 'bg-sky-600'}`}
+                      style={{ height: peak > 0 ? `${(total / peak) * 100}%` : '0%', minHeight: total > 0 ? '2px' : undefined }}
+                    />
+                    <span className="text-[9px] text-slate-600 font-mono">{String(hour).padStart(2, '0')}</span>
+                  </li>
+                );
+              })}
+            </ol>
+            <p className="mt-3 text-xs text-slate-600">
+              {peak > 0
+                ? `Runs over the next ${lookAheadLabel} by hour of day in ${timezone}. Busiest: ${hourLabel(busiestHour)} with ${peak.toLocaleString('en-US')} runs.`
+                : `No runs in the next ${lookAheadLabel}.`}
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export default function CronDescriptor() {
+  const [mode, setMode] = useState<ToolMode>('single');
   const [cron, setCron] = useState('0 12 * * 1-5'); // Mon-Fri at 12:00 PM
+  const [dialect, setDialect] = useState<CronDialect>('unix');
   const [nextRunCount, setNextRunCount] = useState(5);
   const [copyState, setCopyState] = useState<'idle' | 'success' | 'error'>('idle');
+  const [sourceZone, setSourceZone] = useState(getUserTimezone);
+  const [displayZones, setDisplayZones] = useState(() => [...new Set([getUserTimezone(), 'UTC'])]);
+  const [calendarWeekCount, setCalendarWeekCount] = useState(8);
+  const [phrase, setPhrase] = useState('');
+  const [phraseResult, setPhraseResult] = useState<PhraseResult | null>(null);
+  const [builderError, setBuilderError] = useState<string | null>(null);
 
   const inputId = useId();
+  const dialectId = useId();
+  const sourceZoneId = useId();
+  const addZoneId = useId();
+  const weeksId = useId();
+  const phraseId = useId();
 
   // Debounce cron input to prevent excessive parsing on every keystroke
   const debouncedCron = useDebounce(cron, 300);
 
-  const timezone = useMemo(() => getUserTimezone(), []);
+  const timezones = useMemo(() => listTimezones(), []);
+  const selected = dialectInfo(dialect);
+  // EventBridge and GitHub evaluate schedules in UTC whatever zone is picked
+  const scheduleTimezone = selected.timezone ?? sourceZone;
 
-  const { translation, nextRuns, fields, error } = useMemo(() => {
+  const { parsed, translation, nextRuns, fields, notes, translations, error } = useMemo(() => {
+    const empty = {
+      parsed: null,
+      translation: '',
+      nextRuns: [] as Date[],
+      fields: [] as CronField[],
+      notes: [] as string[],
+      translations: [] as DialectTranslation[]
+    };
     if (!debouncedCron.trim()) {
-      return {
-        translation: '',
-        nextRuns: [],
-        fields: [],
-        error: null
-      };
+      return { ...empty, error: null };
     }
 
     try {
-      // Validate field count first
-      const parts = debouncedCron.trim().split(/\s+/);
-      if (parts.length < 5) {
-        return {
-          translation: '',
-          nextRuns: [],
-          fields: [],
-          error: 'Cron expression must have at least 5 fields (minute hour day month weekday).'
-        };
-      }
+      const parsed = parseCron(debouncedCron, dialect);
 
       // Get human-readable translation
-      const humanText = cronstrue.toString(debouncedCron, { 
-        throwExceptionOnParseError: true,
-        use24HourTimeFormat: false
-      });
-
-      // Parse for next run times
-      const interval = cronParser.parseExpression(debouncedCron, {
-        currentDate: new Date(),
-        tz: timezone
-      });
+      const humanText = describeCron(parsed);
 
-      const runs: string[] = [];
-      for (let i = 0; i < nextRunCount; i++) {
-        const next = interval.next();
-        const date = next.toDate();
-        runs.push(date.toLocaleString('en-US', {
-          dateStyle: 'full',
-          timeStyle: 'long',
-          timeZone: timezone
-        }));
-      }
+      // Next run times, evaluated on the source zone's wall clock
+      const runs = nextCronRuns(parsed, nextRunCount, new Date(), scheduleTimezone);
 
-      // Field breakdown
-      const fieldBreakdown = breakdownCronFields(debouncedCron);
+      // The same schedule in every other dialect, or why it can't be written there
+      const others = CRON_DIALECTS.filter((d) => d.id !== dialect).map((d): DialectTranslation => {
+        try {
+          return { dialect: d.id, ...translateCron(parsed, d.id) };
+        } catch (err) {
+          return { dialect: d.id, error: (err as Error).message };
+        }
+      });
 
       return {
+        parsed,
         translation: humanText,
         nextRuns: runs,
-        fields: fieldBreakdown,
+        fields: breakdownCronFields(parsed),
+        notes: parsed.notes,
+        translations: others,
         error: null
       };
     } catch (err) {
@@ -130,14 +594,69 @@ export default function CronDescriptor() {
         ? err.message 
         : 'Invalid cron expression. Please check your syntax.';
       
-      return {
-        translation: '',
-        nextRuns: [],
-        fields: [],
-        error: message
-      };
+      return { ...empty, error: message };
+    }
+  }, [debouncedCron, dialect, nextRunCount, scheduleTimezone]);
+
+  // DST changes and per-day fire counts over the calendar window
+  const calendar = useMemo(() => {
+    if (!parsed) return null;
+    const now = new Date();
+    const weeks = calendarWeeks(now, scheduleTimezone, calendarWeekCount);
+    const impacts = dstImpact(parsed, scheduleTimezone, now, new Date(now.getTime() + calendarWeekCount * 7 * DAY_MS));
+    const counts = dailyRunCounts(parsed, scheduleTimezone, weeks.flat(), now, impacts);
+    const dstDays = new Map(impacts.map((impact) => [impact.wallStart.toISOString().slice(0, 10), impact]));
+    return { weeks, impacts, counts, dstDays, max: Math.max(0, ...counts.values()), today: zonedDateKey(now, scheduleTimezone) };
+  }, [parsed, scheduleTimezone, calendarWeekCount]);
+  const impacts: DstImpact[] = calendar?.impacts ?? [];
+  const comparedZones = displayZones.filter((zone) => zone !== scheduleTimezone);
+
+  // The builder edits what's typed now, not the debounced copy, so quick clicks don't undo each other
+  const builderSchedule = useMemo(() => {
+    try {
+      return parseCron(cron, dialect);
+    } catch {
+      return null;
+    }
+  }, [cron, dialect]);
+
+  // Switching dialects carries the expression over when the new one can say it
+  const changeDialect = useCallback((next: string) => {
+    if (!isCronDialect(next)) return;
+    const converted = convertExpression(cron, dialect, next);
+    if (converted !== null) setCron(converted);
+    setDialect(next);
+    setPhraseResult(null);
+  }, [cron, dialect]);
+
+  const changeField = useCallback((field: CronFieldName, choice: FieldChoice) => {
+    if (builderSchedule?.kind !== 'cron') return;
+    try {
+      setCron(rebuildExpression(builderSchedule, field, choice));
+      setBuilderError(null);
+    } catch (err) {
+      setBuilderError((err as Error).message);
+    }
+  }, [builderSchedule]);
+
+  // A single expression goes straight into the input; several are listed to pick from
+  const convertPhrase = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const result = naturalToCron(phrase, dialect);
+      setPhraseResult(result);
+      if (result.expressions.length === 1) setCron(result.expressions[0]);
+    } catch (err) {
+      setPhraseResult({ error: (err as Error).message });
     }
-  }, [debouncedCron, nextRunCount, timezone]);
+  }, [phrase, dialect]);
+
+  const applyPreset = useCallback((preset: CronPreset) => {
+    const from = preset.dialect ?? 'unix';
+    const converted = convertExpression(preset.value, from, dialect);
+    if (converted === null) setDialect(from);
+    setCron(converted ?? preset.value);
+  }, [dialect]);
 
   const handleCopy = useCallback(async () => {
     if (!translation) return;
@@ -152,22 +671,61 @@ export default function CronDescriptor() {
     }
   }, [translation]);
 
+  const modeSwitch = (
+    <div role="group" aria-label="Mode" className="flex gap-1 p-1 bg-slate-900 border border-slate-800 rounded-xl w-fit">
+      {TOOL_MODES.map(({ id, label }) => (
+        <button
+          key={id}
+          type="button"
+          aria-pressed={mode === id}
+          onClick={() => setMode(id)}
+          className={`text-sm font-medium px-4 py-1.5 rounded-lg transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-indigo-500 ${mode === id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (mode === 'jobs') {
+    return (
+      <div className="space-y-8 max-w-5xl mx-auto">
+        {modeSwitch}
+        <JobAnalyzer timezone={sourceZone} timezones={timezones} onTimezoneChange={setSourceZone} />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-8 max-w-5xl mx-auto">
-      
+      {modeSwitch}
+
       {/* Input Section */}
       <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 md:p-8 shadow-xl">
         <div className="flex justify-between items-center mb-3">
           <label htmlFor={inputId} className="text-sm font-medium text-slate-400">
             Cron Expression
           </label>
-          <button
-            type="button"
-            onClick={() => setCron('')}
-            className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-red-400 transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-red-500 rounded px-2 py-1"
-          >
+          <div className="flex items-center gap-2">
+            <label htmlFor={dialectId} className="sr-only">Cron Dialect</label>
+            <select
+              id={dialectId}
+              value={dialect}
+              onChange={(e) => changeDialect(e.target.value)}
+              className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none"
+            >
+              {CRON_DIALECTS.map((d) => (
+                <option key={d.id} value={d.id}>{d.label}</option>
+              ))}
+            </select>
+              <button
+              type="button"
+              onClick={() => setCron('')}
+              className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-red-400 transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-red-500 rounded px-2 py-1"
+            >
             <Trash2 className="w-3.5 h-3.5" aria-hidden /> Clear
-          </button>
+            </button>
+          </div>
         </div>
 
         <div className="relative">
@@ -177,7 +735,7 @@ export default function CronDescriptor() {
             className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-4 text-2xl font-mono text-indigo-300 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none transition-all"
             value={cron}
             onChange={(e) => setCron(e.target.value)}
-            placeholder="* * * * *"
+            placeholder={selected.example}
             spellCheck={false}
             aria-describedby={error ? 'cron-error' : undefined}
             aria-invalid={!!error}
@@ -190,9 +748,9 @@ export default function CronDescriptor() {
           <div className="flex flex-wrap gap-2">
             {CRON_PRESETS.map((preset) => (
               <button
-                key={preset.value}
+                key={preset.label}
                 type="button"
-                onClick={() => setCron(preset.value)}
+                onClick={() => applyPreset(preset)}
                 className="text-xs font-medium px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-md transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-indigo-500"
               >
                 {preset.label}
@@ -200,6 +758,137 @@ export default function CronDescriptor() {
             ))}
           </div>
         </div>
+
+        {/* Time Zones */}
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor={sourceZoneId} className="flex items-center gap-1.5 text-xs text-slate-400 mb-2">
+              <Globe className="w-3.5 h-3.5" aria-hidden /> Source Timezone
+            </label>
+            <select
+              id={sourceZoneId}
+              value={scheduleTimezone}
+              onChange={(e) => setSourceZone(e.target.value)}
+              disabled={selected.timezone !== null}
+              title={selected.timezone !== null ? selected.timezoneNote : 'The zone the scheduler evaluates the expression in'}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none disabled:opacity-60"
+            >
+              {timezones.map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor={addZoneId} className="block text-xs text-slate-400 mb-2">Add Timezone</label>
+            <select
+              id={addZoneId}
+              value=""
+              onChange={(e) => {
+                const zone = e.target.value;
+                if (zone) setDisplayZones((zones) => (zones.includes(zone) ? zones : [...zones, zone]));
+              }}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none"
+            >
+              <option value="">Compare runs in another zone…</option>
+              {timezones.filter((zone) => !displayZones.includes(zone)).map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+            {displayZones.length > 0 && (
+              <ul aria-label="Compared timezones" className="mt-2 flex flex-wrap gap-1.5">
+                {displayZones.map((zone) => (
+                  <li key={zone} className="flex items-center gap-1 text-xs bg-slate-800 text-slate-300 rounded-md pl-2 pr-1 py-0.5">
+                    {zone}
+                    <button
+                      type="button"
+                      onClick={() => setDisplayZones((zones) => zones.filter((z) => z !== zone))}
+                      aria-label={`Remove ${zone}`}
+                      className="p-0.5 rounded hover:text-red-400 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-red-500"
+                    >
+                      <X className="w-3 h-3" aria-hidden />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Builder */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
+        <div className="flex items-center gap-2 text-slate-400 mb-4">
+          <Wand2 className="w-5 h-5 text-violet-400" aria-hidden />
+          <h3 className="font-semibold">Build an Expression</h3>
+        </div>
+
+        <form onSubmit={convertPhrase} className="flex flex-col sm:flex-row gap-2">
+          <label htmlFor={phraseId} className="sr-only">Describe a schedule</label>
+          <input
+            id={phraseId}
+            type="search"
+            value={phrase}
+            onChange={(e) => setPhrase(e.target.value)}
+            placeholder="e.g. every weekday at 9:30am and 5pm, first Monday of each month"
+            className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400"
+          >
+            To Cron
+          </button>
+        </form>
+
+        <div aria-live="polite" className="mt-3 empty:hidden">
+          {phraseResult?.error !== undefined ? (
+            <p className="text-sm text-red-300">{phraseResult.error}</p>
+          ) : phraseResult && (
+            <>
+              <ul aria-label="Expressions for the description" className="space-y-2">
+                {phraseResult.expressions.map((expression) => (
+                  <li key={expression} className="flex items-center justify-between gap-3 text-sm bg-slate-950/40 px-3 py-2.5 rounded-lg border border-slate-800/50">
+                    <code className="font-mono text-indigo-300 break-all">{expression}</code>
+                    {expression !== cron && (
+                      <button
+                        type="button"
+                        onClick={() => setCron(expression)}
+                        aria-label={`Use ${expression}`}
+                        className="shrink-0 text-xs font-medium px-2.5 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-md transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-indigo-500"
+                      >
+                        Use
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {phraseResult.warnings.map((warning) => (
+                <p key={warning} className="mt-2 text-xs text-amber-300/80">{warning}</p>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="mt-6">
+          {builderSchedule?.kind === 'cron' ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {builderFields(dialect).map((field) => (
+                <FieldPicker
+                  key={field}
+                  field={field}
+                  items={builderSchedule.fields[field]}
+                  dialect={dialect}
+                  onChange={(choice) => changeField(field, choice)}
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-600">
+              {builderSchedule ? 'A rate has no fields to pick; write a cron(…) expression to use the builder.' : 'Enter a valid expression to edit it field by field.'}
+            </p>
+          )}
+          {builderError && <p className="mt-2 text-xs text-red-300">{builderError}</p>}
+        </div>
       </div>
 
       {/* Field Breakdown */}
@@ -208,7 +897,7 @@ export default function CronDescriptor() {
           <h3 className="text-sm font-bold text-slate-400 mb-4 uppercase tracking-wider">
             Field Breakdown
           </h3>
-          <div className="grid grid-cols-5 gap-3">
+          <div className={`grid ${FIELD_GRID_COLUMNS[fields.length] ?? 'grid-cols-5'} gap-3`}>
             {fields.map((field) => (
               <div key={field.name} className="bg-slate-950 border border-slate-800 rounded-lg p-3">
                 <div className="text-xs text-slate-400 mb-1 uppercase tracking-wide">
@@ -220,9 +909,22 @@ export default function CronDescriptor() {
                 <div className="text-xs text-slate-600 leading-relaxed">
                   {field.description}
                 </div>
+                {field.notes.map((note) => (
+                  <p key={note} className="mt-2 text-xs text-sky-300/80 leading-relaxed">{note}</p>
+                ))}
               </div>
             ))}
           </div>
+          {notes.length > 0 && (
+            <ul aria-label={`${selected.label} notes`} className="mt-4 space-y-1">
+              {notes.map((note) => (
+                <li key={note} className="flex items-start gap-2 text-xs text-amber-300">
+                  <Info className="w-3.5 h-3.5 shrink-0 mt-0.5" aria-hidden />
+                  {note}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
 
@@ -300,30 +1002,188 @@ export default function CronDescriptor() {
           
           {nextRuns.length > 0 ? (
             <>
-              <ul className="space-y-2 mb-3 max-h-[400px] overflow-y-auto">
+              <ul aria-label="Next runs" className="space-y-2 mb-3 max-h-[400px] overflow-y-auto">
                 {nextRuns.map((run, index) => (
                   <li
                     key={index}
                     className="flex items-start gap-2 text-xs font-mono text-slate-300 bg-slate-950/50 px-3 py-2 rounded-lg border border-slate-800/50"
                   >
                     <span className="text-slate-600 text-xs shrink-0 mt-0.5">#{index + 1}</span>
-                    <span className="leading-relaxed">{run}</span>
+                    <div className="leading-relaxed min-w-0">
+                      <span>{formatRun(run, scheduleTimezone)}</span>
+                      <DstBadge run={run} impacts={impacts} />
+                      {comparedZones.map((zone) => (
+                        <div key={zone} className="text-slate-500">
+                          {zone}: {formatRunShort(run, zone)}
+                        </div>
+                      ))}
+                    </div>
                   </li>
                 ))}
               </ul>
               <p className="text-xs text-slate-600 flex items-center gap-1">
                 <Clock className="w-3 h-3" aria-hidden />
-                Timezone: {timezone}
+                Timezone: {scheduleTimezone}
               </p>
+              <p className="mt-1 text-xs text-slate-600">{selected.timezoneNote}</p>
             </>
           ) : (
             <p className="text-slate-600 text-sm">
-              {error ? 'Fix the error above to calculate future runs.' : 'Valid expression required.'}
+              {error ? 'Fix the error above to calculate future runs.' : parsed ? 'No runs found in range.' : 'Valid expression required.'}
             </p>
           )}
         </div>
 
       </div>
+
+      {/* DST Transitions */}
+      {calendar && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
+          <div className="flex items-center gap-2 text-slate-400 mb-4">
+            <Sun className="w-5 h-5 text-amber-400" aria-hidden />
+            <h3 className="font-semibold">DST Transitions</h3>
+          </div>
+          {calendar.impacts.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              No DST changes in {scheduleTimezone} in the next {calendarWeekCount} weeks.
+            </p>
+          ) : (
+            <ul aria-label="DST transitions" className="space-y-3">
+              {calendar.impacts.map((impact) => {
+                const skipped = impact.kind === 'skipped';
+                return (
+                  <li
+                    key={impact.at.toISOString()}
+                    className={`text-sm rounded-lg border px-4 py-3 ${skipped ? 'border-red-900/50 bg-red-900/10' : 'border-amber-900/50 bg-amber-900/10'}`}
+                  >
+                    <p className="text-slate-200">
+                      {impact.at.toLocaleDateString('en-US', { dateStyle: 'full', timeZone: scheduleTimezone })}:{' '}
+                      {skipped
+                        ? `clocks jump from ${wallClock(impact.wallStart)} to ${wallClock(impact.wallEnd)}`
+                        : `clocks fall back from ${wallClock(impact.wallEnd)} to ${wallClock(impact.wallStart)}`}
+                      <span className="text-slate-500"> ({formatOffset(impact.offsetBefore)} → {formatOffset(impact.offsetAfter)})</span>
+                    </p>
+                    {parsed?.kind === 'rate' ? (
+                      <p className="text-xs text-slate-500 mt-1">A rate counts elapsed time, so this change doesn't move it.</p>
+                    ) : impact.runs.length === 0 ? (
+                      <p className="text-xs text-slate-500 mt-1">No runs affected.</p>
+                    ) : (
+                      <DstOutcomes impact={impact} />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Fire Calendar */}
+      {calendar && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2 text-slate-400">
+              <CalendarDays className="w-5 h-5 text-sky-400" aria-hidden />
+              <h3 className="font-semibold">Fire Calendar</h3>
+            </div>
+            <label htmlFor={weeksId} className="flex items-center gap-2 text-xs text-slate-400">
+              Weeks:
+              <select
+                id={weeksId}
+                value={calendarWeekCount}
+                onChange={(e) => setCalendarWeekCount(Number(e.target.value))}
+                className="px-2 py-1 bg-slate-800 border border-slate-700 rounded text-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none"
+              >
+                {CALENDAR_WEEK_OPTIONS.map((weeks) => (
+                  <option key={weeks} value={weeks}>{weeks}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="overflow-x-auto">
+            <table aria-label="Fire calendar" className="w-full border-separate border-spacing-1 text-xs">
+              <thead>
+                <tr>
+                  {WEEKDAY_HEADERS.map((day) => (
+                    <th key={day} scope="col" className="font-medium text-slate-500 pb-1">{day}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {calendar.weeks.map((week) => (
+                  <tr key={week[0]}>
+                    {week.map((date) => {
+                      const count = calendar.counts.get(date) ?? 0;
+                      const dst = calendar.dstDays.get(date);
+                      const past = date < calendar.today;
+                      const label = `${date}: ${count.toLocaleString('en-US')} run${count === 1 ? '' : 's'}${dst ? `, DST change (${dst.kind === 'skipped' ? 'clocks forward' : 'clocks back'})` : ''}`;
+                      return (
+                        <td
+                          key={date}
+                          title={label}
+                          aria-label={label}
+                          className={`h-10 rounded text-center align-middle ${heatClass(count, calendar.max)} ${dst ? 'ring-2 ring-amber-400' : ''} ${past ? 'opacity-40' : ''}`}
+                        >
+                          <div className="text-[10px] opacity-70">{Number(date.slice(8))}</div>
+                          <div className="font-mono">{count > 0 ? compactNumber.format(count) : ''}</div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-3 text-xs text-slate-600">
+            Days in {scheduleTimezone}. Outlined days have a DST change; their counts follow the runs listed above, moved, dropped or repeated.
+          </p>
+        </div>
+      )}
+
+      {/* Other Dialects */}
+      {translations.length > 0 && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
+          <div className="flex items-center gap-2 text-slate-400 mb-4">
+            <Languages className="w-5 h-5 text-violet-400" aria-hidden />
+            <h3 className="font-semibold">In Other Dialects</h3>
+          </div>
+          <ul aria-label="Dialect translations" className="space-y-2">
+            {translations.map((t) => {
+              const info = dialectInfo(t.dialect);
+              return (
+                <li key={t.dialect} className="flex flex-wrap items-start gap-3 bg-slate-950/40 px-3 py-2.5 rounded-lg border border-slate-800/50">
+                  <span className="w-40 shrink-0 text-xs font-medium text-slate-400">{info.label}</span>
+                  <div className="flex-1 min-w-0">
+                    {t.error === undefined ? (
+                      <>
+                        <code className="font-mono text-sm text-indigo-300 break-all">{t.expression}</code>
+                        {t.warnings.map((warning) => (
+                          <p key={warning} className="text-xs text-amber-300/80">{warning}</p>
+                        ))}
+                      </>
+                    ) : (
+                      <p className="text-xs text-slate-500">{t.error}</p>
+                    )}
+                  </div>
+                  {t.error === undefined && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setDialect(t.dialect);
+                        setCron(t.expression);
+                      }}
+                      aria-label={`Use the ${info.label} expression`}
+                      className="text-xs font-medium px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-indigo-500"
+                    >
+                      Use
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -2,7 +2,7 @@ import { useState, useMemo, useEffect, useRef, useCallback, lazy, Suspense } fro
 import type { Monaco } from '@monaco-editor/react';
 import { CopyButton } from '../ui/CopyButton';
 import { useDebounce } from '../../hooks/useDebounce';
-import { generateZodEnvSchema, MAX_INPUT_CHARS, type EnvConversionResult } from '../../utils/envToZod';
+import { generateZodEnvSchema, MAX_INPUT_CHARS, type EnvConversionResult } from '../../lib/converters/envToZod';
 
 // ─── CONSTANTS ──────────────────────────────────────────────────────────────
 
@@ -75,7 +75,7 @@ export default function EnvToZod() {
   // Run conversion on debounced input
   const result: EnvConversionResult = useMemo(() => {
     if (!debouncedInput.trim()) {
-      return { code: '', count: 0, warnings: [] };
+      return { code: '', count: 0, warnings: [], diagnostics: [] };
     }
     return generateZodEnvSchema(debouncedInput);
   }, [debouncedInput]);
@@ -1,47 +1,95 @@
 // src/components/tools/ExpressGenerator.tsx
 import React, { useState } from 'react';
 import { useCopyToClipboard } from '../../hooks/useCopyToClipboard';
-import { generateMockServer } from '../../utils/openapiParser';
+import { convertOpenAPIToExpress, SERVER_FRAMEWORKS, type ServerFramework } from '../../lib/converters/openapiToExpress';
+import { hasErrors } from '../../lib/converters/types';
+import type { SpecFile } from '../../utils/openapiRefs';
+import SpecFileTabs from '../ui/SpecFileTabs';
+
+const FRAMEWORK_LABELS: Record<ServerFramework, string> = {
+  express: 'Express',
+  fastify: 'Fastify',
+  hono: 'Hono',
+};
 
 export default function ExpressGenerator() {
-  const [input, setInput] = useState('');
+  const [files, setFiles] = useState<SpecFile[]>([{ name: 'openapi.yaml', content: '' }]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [framework, setFramework] = useState<ServerFramework>('express');
   const [code, setCode] = useState('');
   const [error, setError] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
   const { copiedText, copy } = useCopyToClipboard();
 
   const handleConvert = () => {
     setError('');
-    if (!input.trim()) {
+    setWarnings([]);
+    const [entry, ...rest] = files;
+    if (!entry.content.trim()) {
       setError('Please paste an OpenAPI schema first.');
       return;
     }
-    const result = generateMockServer(input);
-    if (result.startsWith('// Error')) {
+    const result = convertOpenAPIToExpress(entry.content, { entryName: entry.name, files: rest, framework });
+    if (hasErrors(result)) {
       setError('Invalid Schema: Could not parse OpenAPI structure.');
     } else {
-      setCode(result);
+      setCode(result.code);
+      setWarnings(result.warnings);
     }
   };
 
   return (
     <div className="flex flex-col gap-6">
-      <textarea
-        className="w-full p-4 bg-slate-900 border border-slate-700 rounded-lg font-mono text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
-        rows={10}
-        placeholder="Paste OpenAPI JSON or YAML here..."
-        value={input}
-        onChange={(e) => setInput(e.target.value)}
-      />
-
-      <button
-        onClick={handleConvert}
-        className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 px-6 rounded-lg transition-colors"
-      >
-        Generate Express Server
-      </button>
+      <div className="flex flex-col bg-slate-900 border border-slate-700 rounded-lg overflow-hidden">
+        <SpecFileTabs
+          files={files}
+          activeIndex={activeIndex}
+          onFilesChange={setFiles}
+          onActiveIndexChange={setActiveIndex}
+        >
+          <textarea
+            className="w-full p-4 bg-transparent font-mono text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+            rows={10}
+            placeholder="Paste OpenAPI JSON or YAML here — or drop spec files to open them as tabs..."
+            value={files[activeIndex]?.content ?? ''}
+            onChange={(e) => {
+              const content = e.target.value;
+              setFiles((prev) => prev.map((f, i) => (i === activeIndex ? { ...f, content } : f)));
+            }}
+            aria-label="OpenAPI input"
+          />
+        </SpecFileTabs>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Framework
+          <select
+            value={framework}
+            onChange={(e) => setFramework(e.target.value as ServerFramework)}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-2 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            {SERVER_FRAMEWORKS.map((id) => (
+              <option key={id} value={id}>{FRAMEWORK_LABELS[id]}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleConvert}
+          className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+        >
+          Generate {FRAMEWORK_LABELS[framework]} Server
+        </button>
+      </div>
 
       {error && <p className="text-red-400 bg-red-900/20 p-3 rounded border border-red-800">{error}</p>}
 
+      {warnings.length > 0 && (
+        <p className="text-amber-300 bg-amber-900/20 p-3 rounded border border-amber-700/50 text-sm" role="status">
+          {warnings.join(' • ')}
+        </p>
+      )}
+
       {code && (
         <div className="relative group">
           <button
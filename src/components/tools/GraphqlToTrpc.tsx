@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { ArrowRight, Code2, Database } from 'lucide-react';
 import { useDebounce } from '../../hooks/useDebounce';
 import CopyButton from '../ui/CopyButton';
+import { convertGraphqlToTrpc } from '../../lib/converters/graphqlToTrpc';
 
 const DEFAULT_GRAPHQL = `type User {
   id: ID!
@@ -30,11 +31,7 @@ export default function GraphqlToTrpc() {
       setOutput('// Paste a GraphQL schema to get started.');
       return;
     }
-    try {
-      setOutput(generateTrpcRouter(debouncedInput));
-    } catch (err) {
-      setOutput('// Error parsing schema. Please ensure it is valid GraphQL.');
-    }
+    setOutput(convertGraphqlToTrpc(debouncedInput).code);
   }, [debouncedInput]);
 
   return (
@@ -79,64 +76,3 @@ export default function GraphqlToTrpc() {
     </div>
   );
 }
-
-// --- Zero-Dependency Parser Logic ---
-function mapTypeToZod(gqlType: string): string {
-  const isRequired = gqlType.endsWith('!');
-  const cleanType = gqlType.replace(/!/g, '').replace(/\[|\]/g, '');
-  
-  let zodType: string;
-  if (cleanType === 'String' || cleanType === 'ID') zodType = 'z.string()';
-  else if (cleanType === 'Int' || cleanType === 'Float') zodType = 'z.number()';
-  else if (cleanType === 'Boolean') zodType = 'z.boolean()';
-  else zodType = 'z.any()'; // Fallback for custom objects
-  
-  if (gqlType.includes('[')) zodType = `z.array(${zodType})`;
-  return isRequired ? zodType : `${zodType}.optional()`;
-}
-
-function parseArguments(argString: string): string {
-  if (!argString) return '';
-  const args = argString.split(',').map(a => a.trim());
-  const zodFields = args.map(arg => {
-    const [name, type] = arg.split(':').map(s => s.trim());
-    return `${name}: ${mapTypeToZod(type)}`;
-  });
-  return `z.object({ ${zodFields.join(', ')} })`;
-}
-
-function generateTrpcRouter(schema: string): string {
-  const routes: string[] = [];
-  
-  // Very basic regex to extract Query and Mutation blocks
-  const blockRegex = /type\s+(Query|Mutation)\s*{([^}]+)}/g;
-  let match;
-
-  while ((match = blockRegex.exec(schema)) !== null) {
-    const isMutation = match[1] === 'Mutation';
-    const methodType = isMutation ? 'mutation' : 'query';
-    const fieldsBlock = match[2];
-    
-    const fieldRegex = /(\w+)(?:\(([^)]+)\))?\s*:\s*([^ \n]+)/g;
-    let fieldMatch;
-
-    while ((fieldMatch = fieldRegex.exec(fieldsBlock)) !== null) {
-      const fieldName = fieldMatch[1];
-      const args = fieldMatch[2];
-      const returnType = fieldMatch[3];
-
-      let routeStr = `  ${fieldName}: publicProcedure\n`;
-      if (args) {
-        routeStr += `    .input(${parseArguments(args)})\n`;
-      }
-      routeStr += `    .${methodType}(async ({ input }) => {\n      // TODO: Return ${returnType}\n      return null as any;\n    }),`;
-      routes.push(routeStr);
-    }
-  }
-
-  if (routes.length === 0) {
-    return '// Waiting for type Query or type Mutation...';
-  }
-
-  return `import { z } from 'zod';\nimport { router, publicProcedure } from './trpc';\n\nexport const appRouter = router({\n${routes.join('\n\n')}\n});\n\nexport type AppRouter = typeof appRouter;`;
-}
\ No newline at end of file
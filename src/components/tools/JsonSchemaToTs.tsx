@@ -1,11 +1,11 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { CopyButton } from '../ui/CopyButton';
 import { useDebounce } from '../../hooks/useDebounce';
+import { convertJsonSchemaToTs, MAX_INPUT_LENGTH } from '../../lib/converters/jsonSchemaToTs';
+import { getErrorMessage } from '../../lib/converters/types';
 
 // ─── CONSTANTS ──────────────────────────────────────────────────────────────
 
-const MAX_INPUT_LENGTH = 500_000;
-const MAX_NESTING_DEPTH = 64;
 const DEBOUNCE_MS = 300;
 
 const DEFAULT_INPUT = `{
@@ -59,337 +59,6 @@ const DEFAULT_INPUT = `{
   }
 }`;
 
-// ─── HELPERS ────────────────────────────────────────────────────────────────
-
-/** Cheap iterative depth check to prevent stack overflow. */
-function measureDepth(obj: unknown, limit: number): boolean {
-  const stack: Array<{ value: unknown; depth: number }> = [{ value: obj, depth: 0 }];
-  while (stack.length > 0) {
-    const { value, depth } = stack.pop()!;
-    if (depth > limit) return false;
-    if (value !== null && typeof value === 'object') {
-      for (const v of Object.values(value as Record<string, unknown>)) {
-        stack.push({ value: v, depth: depth + 1 });
-      }
-    }
-  }
-  return true;
-}
-
-/** Does this look like a JSON Schema? */
-function looksLikeJsonSchema(obj: unknown): boolean {
-  if (typeof obj !== 'object' || obj === null) return false;
-  const o = obj as Record<string, unknown>;
-  return (
-    'type' in o ||
-    'properties' in o ||
-    'allOf' in o ||
-    'oneOf' in o ||
-    'anyOf' in o ||
-    '$ref' in o ||
-    '$schema' in o ||
-    'items' in o ||
-    'enum' in o
-  );
-}
-
-/** PascalCase a string for interface names */
-function toPascalCase(s: string): string {
-  return s
-    .replace(/[^a-zA-Z0-9]+(.)/g, (_, c: string) => c.toUpperCase())
-    .replace(/^[a-z]/, (c) => c.toUpperCase());
-}
-
-/** Check if a property key is a valid JS identifier */
-function isValidIdentifier(key: string): boolean {
-  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key);
-}
-
-/** Format a property key — quote if needed */
-function formatKey(key: string): string {
-  return isValidIdentifier(key) ? key : JSON.stringify(key);
-}
-
-// ─── JSON SCHEMA → TYPESCRIPT CONVERTER ─────────────────────────────────────
-
-interface SchemaNode {
-  type?: string | string[];
-  properties?: Record<string, SchemaNode>;
-  required?: string[];
-  items?: SchemaNode | SchemaNode[];
-  enum?: (string | number | boolean | null)[];
-  const?: string | number | boolean | null;
-  oneOf?: SchemaNode[];
-  anyOf?: SchemaNode[];
-  allOf?: SchemaNode[];
-  $ref?: string;
-  $defs?: Record<string, SchemaNode>;
-  definitions?: Record<string, SchemaNode>;
-  additionalProperties?: boolean | SchemaNode;
-  title?: string;
-  description?: string;
-  format?: string;
-  [key: string]: unknown;
-}
-
-/** Resolve a $ref path like "#/$defs/User" to a TypeScript name */
-function resolveRef(ref: string): string {
-  const parts = ref.split('/');
-  const last = parts[parts.length - 1];
-  return toPascalCase(last);
-}
-
-/** Convert a single schema node to a TypeScript type string */
-function schemaToType(node: SchemaNode, indent: number, knownRefs: Set<string>): string {
-  if (!node || typeof node !== 'object') return 'unknown';
-
-  // $ref
-  if (node.$ref) {
-    return resolveRef(node.$ref);
-  }
-
-  // const
-  if (node.const !== undefined) {
-    return typeof node.const === 'string' ? JSON.stringify(node.const) : String(node.const);
-  }
-
-  // enum
-  if (node.enum) {
-    return node.enum
-      .map((v) => (typeof v === 'string' ? JSON.stringify(v) : String(v)))
-      .join(' | ');
-  }
-
-  // oneOf / anyOf → union
-  if (node.oneOf && node.oneOf.length > 0) {
-    const parts = node.oneOf.map((s) => schemaToType(s, indent, knownRefs));
-    return parts.length === 1 ? parts[0] : parts.join(' | ');
-  }
-  if (node.anyOf && node.anyOf.length > 0) {
-    const parts = node.anyOf.map((s) => schemaToType(s, indent, knownRefs));
-    return parts.length === 1 ? parts[0] : parts.join(' | ');
-  }
-
-  // allOf → intersection
-  if (node.allOf && node.allOf.length > 0) {
-    const parts = node.allOf.map((s) => schemaToType(s, indent, knownRefs));
-    return parts.length === 1 ? parts[0] : parts.join(' & ');
-  }
-
-  // handle type as array: ["string", "null"] → string | null
-  if (Array.isArray(node.type)) {
-    const parts = node.type.map((t) => schemaToType({ ...node, type: t }, indent, knownRefs));
-    return parts.join(' | ');
-  }
-
-  const type = node.type;
-
-  switch (type) {
-    case 'string':
-      return 'string';
-    case 'number':
-    case 'integer':
-      return 'number';
-    case 'boolean':
-      return 'boolean';
-    case 'null':
-      return 'null';
-
-    case 'array': {
-      if (Array.isArray(node.items)) {
-        // Tuple
-        const tupleTypes = node.items.map((it) => schemaToType(it, indent, knownRefs));
-        return '[' + tupleTypes.join(', ') + ']';
-      }
-      if (node.items && typeof node.items === 'object') {
-        const itemType = schemaToType(node.items as SchemaNode, indent, knownRefs);
-        // Wrap union types in parens for array
-        if (itemType.includes(' | ') || itemType.includes(' & ')) {
-          return `(${itemType})[]`;
-        }
-        return itemType + '[]';
-      }
-      return 'unknown[]';
-    }
-
-    case 'object': {
-      // additionalProperties only (no named properties) → Record
-      if (!node.properties && node.additionalProperties) {
-        if (node.additionalProperties === true) {
-          return 'Record<string, unknown>';
-        }
-        const valType = schemaToType(node.additionalProperties as SchemaNode, indent, knownRefs);
-        return `Record<string, ${valType}>`;
-      }
-
-      // Named properties → inline object type
-      if (node.properties) {
-        const requiredSet = new Set(node.required ?? []);
-        const pad = '  '.repeat(indent + 1);
-        const closePad = '  '.repeat(indent);
-        const lines: string[] = [];
-
-        for (const [key, propSchema] of Object.entries(node.properties)) {
-          const tsType = schemaToType(propSchema, indent + 1, knownRefs);
-          const optional = requiredSet.has(key) ? '' : '?';
-          const comment = propSchema.description
-            ? ` /** ${propSchema.description} */\n${pad}`
-            : '';
-          lines.push(`${pad}${comment}${formatKey(key)}${optional}: ${tsType};`);
-        }
-
-        // If there are additionalProperties alongside named props
-        if (node.additionalProperties) {
-          const valType =
-            node.additionalProperties === true
-              ? 'unknown'
-              : schemaToType(node.additionalProperties as SchemaNode, indent + 1, knownRefs);
-          lines.push(`${pad}[key: string]: ${valType};`);
-        }
-
-        return '{\n' + lines.join('\n') + '\n' + closePad + '}';
-      }
-
-      // Empty object
-      return 'Record<string, unknown>';
-    }
-
-    default:
-      break;
-  }
-
-  // No type specified but has properties → treat as object
-  if (node.properties) {
-    return schemaToType({ ...node, type: 'object' }, indent, knownRefs);
-  }
-
-  return 'unknown';
-}
-
-/** Convert a full JSON Schema document to TypeScript interfaces */
-function convertJsonSchemaToTs(input: string): { code: string; error: string | null } {
-  try {
-    const trimmed = input.trim();
-    if (!trimmed) return { code: '', error: null };
-
-    if (trimmed.length > MAX_INPUT_LENGTH) {
-      return { code: '', error: `Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)} KB limit.` };
-    }
-
-    let schema: SchemaNode;
-    try {
-      schema = JSON.parse(trimmed);
-    } catch {
-      return { code: '', error: 'Invalid JSON — check for syntax errors.' };
-    }
-
-    if (!looksLikeJsonSchema(schema)) {
-      return {
-        code: '',
-        error: 'This does not appear to be a JSON Schema. Expected "type", "properties", "$ref", etc.',
-      };
-    }
-
-    if (!measureDepth(schema, MAX_NESTING_DEPTH)) {
-      return { code: '', error: `Schema exceeds maximum nesting depth of ${MAX_NESTING_DEPTH}.` };
-    }
-
-    const knownRefs = new Set<string>();
-    const lines: string[] = [];
-
-    // Collect $defs / definitions names
-    const defs = schema.$defs ?? schema.definitions ?? {};
-    for (const name of Object.keys(defs)) {
-      knownRefs.add(toPascalCase(name));
-    }
-    if (schema.title) {
-      knownRefs.add(toPascalCase(schema.title));
-    }
-
-    // Generate root interface
-    const rootName = schema.title ? toPascalCase(schema.title) : 'Root';
-
-    if (schema.type === 'object' || schema.properties) {
-      const requiredSet = new Set(schema.required ?? []);
-      const propLines: string[] = [];
-
-      if (schema.properties) {
-        for (const [key, propSchema] of Object.entries(schema.properties)) {
-          const tsType = schemaToType(propSchema, 1, knownRefs);
-          const optional = requiredSet.has(key) ? '' : '?';
-          const comment = propSchema.description
-            ? `  /** ${propSchema.description} */\n`
-            : '';
-          propLines.push(`${comment}  ${formatKey(key)}${optional}: ${tsType};`);
-        }
-      }
-
-      // additionalProperties on root
-      if (schema.additionalProperties) {
-        const valType =
-          schema.additionalProperties === true
-            ? 'unknown'
-            : schemaToType(schema.additionalProperties as SchemaNode, 1, knownRefs);
-        propLines.push(`  [key: string]: ${valType};`);
-      }
-
-      lines.push(`export interface ${rootName} {`);
-      lines.push(...propLines);
-      lines.push('}');
-    } else {
-      // Non-object root (e.g. enum, array)
-      const tsType = schemaToType(schema, 0, knownRefs);
-      lines.push(`export type ${rootName} = ${tsType};`);
-    }
-
-    // Generate $defs / definitions
-    if (Object.keys(defs).length > 0) {
-      for (const [name, defSchema] of Object.entries(defs)) {
-        const interfaceName = toPascalCase(name);
-        lines.push('');
-
-        if (
-          (defSchema.type === 'object' || defSchema.properties) &&
-          !defSchema.enum
-        ) {
-          const requiredSet = new Set(defSchema.required ?? []);
-          const propLines: string[] = [];
-
-          if (defSchema.properties) {
-            for (const [key, propSchema] of Object.entries(defSchema.properties)) {
-              const tsType = schemaToType(propSchema, 1, knownRefs);
-              const optional = requiredSet.has(key) ? '' : '?';
-              const comment = propSchema.description
-                ? `  /** ${propSchema.description} */\n`
-                : '';
-              propLines.push(`${comment}  ${formatKey(key)}${optional}: ${tsType};`);
-            }
-          }
-
-          if (defSchema.additionalProperties) {
-            const valType =
-              defSchema.additionalProperties === true
-                ? 'unknown'
-                : schemaToType(defSchema.additionalProperties as SchemaNode, 1, knownRefs);
-            propLines.push(`  [key: string]: ${valType};`);
-          }
-
-          lines.push(`export interface ${interfaceName} {`);
-          lines.push(...propLines);
-          lines.push('}');
-        } else {
-          const tsType = schemaToType(defSchema, 0, knownRefs);
-          lines.push(`export type ${interfaceName} = ${tsType};`);
-        }
-      }
-    }
-
-    return { code: lines.join('\n'), error: null };
-  } catch (err) {
-    return { code: '', error: `Conversion failed: ${(err as Error).message}` };
-  }
-}
-
 // ─── COMPONENT ──────────────────────────────────────────────────────────────
 
 export default function JsonSchemaToTs() {
@@ -406,7 +75,7 @@ export default function JsonSchemaToTs() {
 
   const tsOutput = useMemo(() => {
     const r = convertJsonSchemaToTs(debouncedInput);
-    queueMicrotask(() => setError(r.error));
+    queueMicrotask(() => setError(getErrorMessage(r)));
     return r.code;
   }, [debouncedInput]);
 
@@ -1,14 +1,10 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { jsonSchemaToZod } from 'json-schema-to-zod';
 import { CopyButton } from '../ui/CopyButton';
 import { useDebounce } from '../../hooks/useDebounce';
+import { convertJsonSchemaToZod, MAX_INPUT_LENGTH } from '../../lib/converters/jsonSchemaToZod';
 
 // ─── CONSTANTS ───────────────────────────────────────────────────────────────
 
-/** Maximum input size in characters to prevent browser tab DoS */
-const MAX_INPUT_LENGTH = 500_000; // ~500 KB
-/** Maximum JSON nesting depth to prevent stack overflow in the converter */
-const MAX_NESTING_DEPTH = 64;
 /** Debounce delay (ms) — balances responsiveness with conversion cost */
 const DEBOUNCE_MS = 300;
 
@@ -21,47 +17,6 @@ const DEFAULT_SCHEMA = `{
   "required": ["name"]
 }`;
 
-// ─── HELPERS ─────────────────────────────────────────────────────────────────
-
-/**
- * Cheap depth check — walks the parsed JSON tree iteratively to avoid
- * a recursive stack-overflow when measuring depth itself.
- */
-function measureDepth(obj: unknown, limit: number): boolean {
-  const stack: Array<{ value: unknown; depth: number }> = [{ value: obj, depth: 0 }];
-
-  while (stack.length > 0) {
-    const { value, depth } = stack.pop()!;
-    if (depth > limit) return false; // exceeds
-    if (value !== null && typeof value === 'object') {
-      for (const v of Object.values(value as Record<string, unknown>)) {
-        stack.push({ value: v, depth: depth + 1 });
-      }
-    }
-  }
-  return true; // within limit
-}
-
-/**
- * Lightweight heuristic: does this look like a JSON Schema?
- * Avoids confusing output when someone pastes a package.json.
- */
-function looksLikeJsonSchema(obj: unknown): boolean {
-  if (typeof obj !== 'object' || obj === null) return false;
-  const o = obj as Record<string, unknown>;
-  return (
-    'type' in o ||
-    'properties' in o ||
-    'allOf' in o ||
-    'oneOf' in o ||
-    'anyOf' in o ||
-    '$ref' in o ||
-    '$schema' in o ||
-    'items' in o ||
-    'enum' in o
-  );
-}
-
 // ─── COMPONENT ───────────────────────────────────────────────────────────────
 
 export default function JsonSchemaToZodTool() {
@@ -77,38 +32,8 @@ export default function JsonSchemaToZodTool() {
   // ── Conversion (runs on the debounced value only) ────────────────────────
 
   const zodCode = useMemo(() => {
-    const trimmed = debouncedInput.trim();
-    if (!trimmed) return '// Paste a JSON Schema to begin…';
-
-    // Guard: input size
-    if (trimmed.length > MAX_INPUT_LENGTH) {
-      return `// Error: Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)} KB limit. Please reduce the schema size.`;
-    }
-
-    let schema: unknown;
-    try {
-      schema = JSON.parse(trimmed);
-    } catch {
-      return '// Invalid JSON — check for syntax errors above.';
-    }
-
-    // Guard: schema shape
-    if (!looksLikeJsonSchema(schema)) {
-      return '// This doesn\u2019t appear to be a JSON Schema.\n// Expected top-level "type", "properties", "$ref", etc.';
-    }
-
-    // Guard: nesting depth
-    if (!measureDepth(schema, MAX_NESTING_DEPTH)) {
-      return `// Error: Schema nesting exceeds ${MAX_NESTING_DEPTH} levels.\n// Flatten or split your schema to convert it safely.`;
-    }
-
-    try {
-      return jsonSchemaToZod(schema as Record<string, unknown>);
-    } catch (err) {
-      // Intentionally vague — don't leak internal library stack traces
-      const brief = err instanceof Error ? err.message.slice(0, 120) : 'Unknown error';
-      return `// Conversion failed: ${brief}`;
-    }
+    if (!debouncedInput.trim()) return '// Paste a JSON Schema to begin…';
+    return convertJsonSchemaToZod(debouncedInput).code;
   }, [debouncedInput]);
 
   return (
@@ -3,64 +3,8 @@ import { useDebounce } from '../../hooks/useDebounce';
 import { Trash2, FileJson, AlertCircle, Braces, AlertTriangle } from 'lucide-react';
 // Import the new Viral Loop button instead of CopyButton
 import ShareButtonGroup from '../ui/ShareButtonGroup'; 
-
-// ─── Type Inference Engine ───────────────────────────────────────────────────
-
-function inferZodType(value: unknown, depth = 0): { typeString: string; hitDepthLimit: boolean } {
-  if (depth > 20) return { typeString: 'z.any()', hitDepthLimit: true }; // Prevent stack overflow
-
-  if (value === null) return { typeString: 'z.null()', hitDepthLimit: false };
-  if (value === undefined) return { typeString: 'z.undefined()', hitDepthLimit: false };
-
-  switch (typeof value) {
-    case 'string':  return { typeString: 'z.string()', hitDepthLimit: false };
-    case 'number':  
-      // Handle BigInt edge case implicitly by checking safe integer bounds
-      if (value > Number.MAX_SAFE_INTEGER || value < Number.MIN_SAFE_INTEGER) {
-        return { typeString: 'z.number({ message: "Unsafe integer range" })', hitDepthLimit: false };
-      }
-      return { typeString: Number.isInteger(value) ? 'z.number().int()' : 'z.number()', hitDepthLimit: false };
-    case 'boolean': return { typeString: 'z.boolean()', hitDepthLimit: false };
-    case 'bigint':  return { typeString: 'z.bigint()', hitDepthLimit: false };
-  }
-
-  let hitLimit = false;
-
-  if (Array.isArray(value)) {
-    if (value.length === 0) return { typeString: 'z.array(z.unknown())', hitDepthLimit: false };
-
-    const itemResults = value.map((item) => inferZodType(item, depth + 1));
-    hitLimit = itemResults.some(r => r.hitDepthLimit);
-    
-    // Get unique types from the array
-    const itemTypes = [...new Set(itemResults.map(r => r.typeString))];
-    
-    // If all items are the same type, return array of that type
-    if (itemTypes.length === 1) return { typeString: `z.array(${itemTypes[0]})`, hitDepthLimit: hitLimit };
-
-    // If mixed types, create a union
-    return { typeString: `z.array(z.union([${itemTypes.join(', ')}]))`, hitDepthLimit: hitLimit };
-  }
-
-  if (typeof value === 'object') {
-    const entries = Object.entries(value as Record<string, unknown>);
-    if (entries.length === 0) return { typeString: 'z.object({})', hitDepthLimit: false };
-
-    const indent = '  '.repeat(depth + 1);
-    const closing = '  '.repeat(depth);
-
-    const fields = entries.map(([key, val]) => {
-      const safeKey = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : `"${key}"`;
-      const result = inferZodType(val, depth + 1);
-      if (result.hitDepthLimit) hitLimit = true;
-      return `${indent}${safeKey}: ${result.typeString}`;
-    });
-
-    return { typeString: `z.object({\n${fields.join(',\n')}\n${closing}})`, hitDepthLimit: hitLimit };
-  }
-
-  return { typeString: 'z.any()', hitDepthLimit: false };
-}
+import { convertJsonToZod } from '../../lib/converters/jsonToZod';
+import { getErrorMessage } from '../../lib/converters/types';
 
 // ─── Main Component ──────────────────────────────────────────────────────────
 
@@ -106,29 +50,16 @@ export default function JsonToZod() {
       return;
     }
 
-    // Large File Warning (1MB = ~1,000,000 characters)
-    if (debouncedInput.length > 1000000) {
-      setWarning('File is over 1MB. Processing may slow down your device.');
+    const result = convertJsonToZod(debouncedInput);
+    const message = getErrorMessage(result);
+    if (message) {
+      setError(message);
+      return;
     }
 
-    try {
-      const parsed = JSON.parse(debouncedInput);
-      
-      // We pass the parsed object to the recursive engine. 
-      // It returns the inner string for the Zod schema.
-      const { typeString, hitDepthLimit } = inferZodType(parsed);
-      
-      if (hitDepthLimit) {
-        setWarning('JSON is nested over 20 levels deep. Deeper objects inferred as z.any().');
-      }
-
-      const fullSchema = `import { z } from "zod";\n\nconst Schema = ${typeString};\n\ntype Schema = z.infer<typeof Schema>;`;
-      
-      setOutput(fullSchema);
-      setError(null);
-    } catch (err) {
-      setError('Invalid JSON');
-    }
+    if (result.warnings.length > 0) setWarning(result.warnings.join(' '));
+    setOutput(result.code);
+    setError(null);
   }, [debouncedInput]);
 
   // Format Handler
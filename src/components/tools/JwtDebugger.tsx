@@ -1,31 +1,66 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   ShieldCheck, ShieldAlert, Clock, Key, Lock, 
-  Copy, Check, AlertTriangle, Download, ClipboardList 
+  Copy, Check, AlertTriangle, Download, ClipboardList, PenLine, Unlock 
 } from 'lucide-react';
 import CopyButton from '../ui/CopyButton';
+import { useDebounce } from '../../hooks/useDebounce';
+import {
+  auditJwt, buildAuditReport, DEFAULT_CLOCK_SKEW_SECONDS, DEFAULT_MAX_LIFETIME_SECONDS, type Severity,
+} from '../../lib/jwt/audit';
+import { decodeJwe, decryptJwe, isJweToken, type DecryptedJwe, type JweHeader } from '../../lib/jwt/jwe';
+import { decodeJws, signJws, verifyJws, type VerifyResult } from '../../lib/jwt/jws';
+import { generateSigningKey, JWS_ALGORITHMS, type JwsAlgorithm } from '../../lib/jwt/keys';
 
 // ─── TYPES & HELPERS ─────────────────────────────────────────────────────────
 
-interface JwtHeader { alg: string; typ?: string; [key: string]: unknown; }
 interface JwtPayload { sub?: string; exp?: number; nbf?: number; [key: string]: unknown; }
 
-function base64urlDecode(str: string): string {
-  const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
-  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
-  const binary = atob(padded);
-  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+type Verification =
+  | { state: 'idle' }
+  | { state: 'checking' }
+  | { state: 'done'; result: VerifyResult }
+  | { state: 'error'; message: string };
+
+type Decryption =
+  | { state: 'idle' }
+  | { state: 'checking' }
+  | { state: 'done'; result: DecryptedJwe }
+  | { state: 'error'; message: string };
+
+const EMPTY_DECODED = { header: null, payload: null, signature: null, token: null, isAlgNone: false, error: null };
+
+const VERIFY_DEBOUNCE_MS = 300;
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  critical: 'bg-red-500/15 text-red-400 border-red-500/30',
+  high: 'bg-orange-500/15 text-orange-400 border-orange-500/30',
+  medium: 'bg-amber-500/15 text-amber-300 border-amber-500/30',
+  low: 'bg-sky-500/15 text-sky-300 border-sky-500/30',
+  info: 'bg-slate-700/40 text-slate-300 border-slate-600',
+};
+
+const DEFAULT_SIGN_HEADER = '{\n  "alg": "HS256",\n  "typ": "JWT"\n}';
+
+function defaultSignPayload(): string {
+  return JSON.stringify({ sub: '1234567890', name: 'Jane Doe', iat: Math.floor(Date.now() / 1000) }, null, 2);
+}
+
+function isPayloadObject(payload: unknown): payload is JwtPayload {
+  return typeof payload === 'object' && payload !== null && !Array.isArray(payload);
 }
 
-function getTokenStatus(payload: JwtPayload) {
+/** `skewSeconds` of clock difference is tolerated on both nbf and exp, as verifiers do */
+function getTokenStatus(payload: JwtPayload, skewSeconds = 0) {
   const now = Date.now();
-  if (payload.nbf !== undefined && now < payload.nbf * 1000) {
+  const skewMs = skewSeconds * 1000;
+  if (payload.nbf !== undefined && now + skewMs < payload.nbf * 1000) {
     return { status: 'not-yet-valid', label: 'Not Yet Valid', detail: `Valid from: ${new Date(payload.nbf * 1000).toLocaleString()}` };
   }
   if (payload.exp === undefined) {
     return { status: 'no-expiry', label: 'No Expiry Set', detail: 'Security Risk: Token never expires.' };
   }
-  if (now >= payload.exp * 1000) {
+  if (now - skewMs >= payload.exp * 1000) {
     return { status: 'expired', label: 'Expired', detail: `Expired at: ${new Date(payload.exp * 1000).toLocaleString()}` };
   }
 
@@ -65,19 +100,116 @@ const ActionButton = ({ onClick, icon: Icon, label, success, primary, ariaLabel
 // ─── MAIN COMPONENT ──────────────────────────────────────────────────────────
 
 export default function JwtDebugger() {
+  const [mode, setMode] = useState<'decode' | 'sign'>('decode');
   const [token, setToken] = useState('');
-  const [decoded, setDecoded] = useState<any>({ header: null, payload: null, signature: null, isAlgNone: false, error: null });
+  const [decoded, setDecoded] = useState<any>(EMPTY_DECODED);
+
+  // Decryption of JWE tokens — the key stays in the browser too
+  const [decryptKey, setDecryptKey] = useState('');
+  const [decryption, setDecryption] = useState<Decryption>({ state: 'idle' });
+  const debouncedDecryptKey = useDebounce(decryptKey, VERIFY_DEBOUNCE_MS);
+
+  // Verification — the key never leaves the browser
+  const [verifyKey, setVerifyKey] = useState('');
+  const [verifyBase64, setVerifyBase64] = useState(false);
+  const [verification, setVerification] = useState<Verification>({ state: 'idle' });
+  const debouncedVerifyKey = useDebounce(verifyKey, VERIFY_DEBOUNCE_MS);
+
+  // Audit settings
+  const [clockSkew, setClockSkew] = useState(DEFAULT_CLOCK_SKEW_SECONDS);
+  const [maxLifetimeHours, setMaxLifetimeHours] = useState(DEFAULT_MAX_LIFETIME_SECONDS / 3600);
+
+  // Signing
+  const [signAlg, setSignAlg] = useState<JwsAlgorithm>('HS256');
+  const [signHeader, setSignHeader] = useState(DEFAULT_SIGN_HEADER);
+  const [signPayload, setSignPayload] = useState(defaultSignPayload);
+  const [signKey, setSignKey] = useState('');
+  const [signBase64, setSignBase64] = useState(false);
+  const [publicKey, setPublicKey] = useState('');
+  const [signed, setSigned] = useState('');
+  const [signError, setSignError] = useState('');
+
+  // Five-part tokens are JWEs: only the protected header is readable until decrypted
+  const jwe = useMemo<{ header: JweHeader | null; error: string | null } | null>(() => {
+    if (!isJweToken(token)) return null;
+    try { return { header: decodeJwe(token).header, error: null }; } catch (e) { return { header: null, error: (e as Error).message }; }
+  }, [token]);
 
   useEffect(() => {
-    if (!token.trim()) { setDecoded({ header: null, payload: null, signature: null, isAlgNone: false, error: null }); return; }
+    if (!jwe?.header || !debouncedDecryptKey.trim()) { setDecryption({ state: 'idle' }); return; }
+    let cancelled = false;
+    setDecryption({ state: 'checking' });
+    decryptJwe(token, debouncedDecryptKey)
+      .then((result) => { if (!cancelled) setDecryption({ state: 'done', result }); })
+      .catch((e: Error) => { if (!cancelled) setDecryption({ state: 'error', message: e.message }); });
+    return () => { cancelled = true; };
+  }, [token, jwe, debouncedDecryptKey]);
+
+  useEffect(() => {
+    if (!token.trim()) { setDecoded(EMPTY_DECODED); return; }
+    // The JWS on screen: the token itself, or the signed JWT nested in a decrypted JWE
+    let jws = token;
+    if (jwe) {
+      const decrypted = decryption.state === 'done' ? decryption.result : null;
+      if (!jwe.header || !decrypted) { setDecoded({ ...EMPTY_DECODED, error: jwe.error }); return; }
+      if (!decrypted.nestedToken) { setDecoded({ ...EMPTY_DECODED, header: decrypted.header, payload: decrypted.payload }); return; }
+      jws = decrypted.nestedToken;
+    }
     try {
-      const parts = token.trim().split('.');
-      if (parts.length !== 3) throw new Error('Invalid JWT format.');
-      const header = JSON.parse(base64urlDecode(parts[0]));
-      const payload = JSON.parse(base64urlDecode(parts[1]));
-      setDecoded({ header, payload, signature: parts[2], isAlgNone: (header.alg || '').toLowerCase() === 'none', error: null });
-    } catch (e: any) { setDecoded({ header: null, payload: null, signature: null, isAlgNone: false, error: e.message }); }
-  }, [token]);
+      const { header, payload, signature } = decodeJws(jws);
+      setDecoded({ header, payload, signature, token: jws, isAlgNone: String(header.alg || '').toLowerCase() === 'none', error: null });
+    } catch (e: any) { setDecoded({ ...EMPTY_DECODED, error: e.message }); }
+  }, [token, jwe, decryption]);
+
+  useEffect(() => {
+    if (!decoded.token || !debouncedVerifyKey.trim()) { setVerification({ state: 'idle' }); return; }
+    let cancelled = false;
+    setVerification({ state: 'checking' });
+    verifyJws(decoded.token, debouncedVerifyKey, { secretEncoding: verifyBase64 ? 'base64url' : 'utf8' })
+      .then((result) => { if (!cancelled) setVerification({ state: 'done', result }); })
+      .catch((e: Error) => { if (!cancelled) setVerification({ state: 'error', message: e.message }); });
+    return () => { cancelled = true; };
+  }, [decoded, debouncedVerifyKey, verifyBase64]);
+
+  const handleAlgChange = (alg: JwsAlgorithm) => {
+    setSignAlg(alg);
+    setPublicKey('');
+    // Keep the header's alg in step when it is valid JSON
+    try {
+      setSignHeader(JSON.stringify({ ...JSON.parse(signHeader), alg }, null, 2));
+    } catch { /* leave a half-edited header alone */ }
+  };
+
+  const handleGenerateKey = async () => {
+    setSignError('');
+    try {
+      const generated = await generateSigningKey(signAlg);
+      setSignKey(generated.signingKey);
+      setSignBase64(false);
+      setPublicKey(generated.publicKey ?? '');
+    } catch (e) { setSignError((e as Error).message); }
+  };
+
+  const handleSign = async () => {
+    setSignError('');
+    setSigned('');
+    try {
+      let header: Record<string, unknown>;
+      let payload: unknown;
+      try { header = JSON.parse(signHeader); } catch { throw new Error('Header is not valid JSON.'); }
+      try { payload = JSON.parse(signPayload); } catch { throw new Error('Payload is not valid JSON.'); }
+      if (typeof header !== 'object' || header === null || Array.isArray(header)) throw new Error('Header must be a JSON object.');
+      setSigned(await signJws({ ...header, alg: signAlg }, payload, signKey, { secretEncoding: signBase64 ? 'base64url' : 'utf8' }));
+    } catch (e) { setSignError((e as Error).message); }
+  };
+
+  const openInDebugger = () => {
+    setToken(signed);
+    // An HMAC secret verifies its own signature; asymmetric tokens need the public key
+    setVerifyKey(publicKey || (signAlg.startsWith('HS') ? signKey : ''));
+    setVerifyBase64(signAlg.startsWith('HS') && signBase64);
+    setMode('decode');
+  };
 
   // copy actions handled by shared CopyButton component
 
@@ -91,15 +223,47 @@ export default function JwtDebugger() {
     URL.revokeObjectURL(url);
   };
 
-  const status = decoded.payload ? getTokenStatus(decoded.payload) : null;
+  const status = isPayloadObject(decoded.payload) ? getTokenStatus(decoded.payload, clockSkew) : null;
+
+  const auditSettings = { clockSkewSeconds: clockSkew, maxLifetimeSeconds: Math.round(maxLifetimeHours * 3600) };
+  const findings = decoded.header ? auditJwt(decoded.header, decoded.payload, { ...auditSettings, encryption: jwe?.header ?? undefined }) : [];
+
+  const signatureLabel =
+    !decoded.token ? 'None (encrypted only)'
+    : verification.state === 'done'
+      ? verification.result.valid ? 'Verified' : 'Invalid signature'
+      : verification.state === 'error' ? 'Not verified' : 'Not checked';
+
+  const exportAudit = () =>
+    handleDownload(
+      buildAuditReport(decoded.header, decoded.payload, findings, { ...auditSettings, signature: signatureLabel }),
+      'jwt-audit.json',
+    );
 
   const makeReport = () => {
     if (!decoded.payload || !status) return '';
-    return `**JWT Security Report | SyntaxSnap**\n----------------------------------\n**Status:** ${status.status === 'active' ? '✅ Valid' : '🔴 ' + status.label}\n**Detail:** ${status.detail}\n**Algorithm:** ${decoded.header?.alg || 'Unknown'}\n${decoded.isAlgNone ? '**CRITICAL:** alg:none detected (Unsigned Token)\\n' : ''}\n**Key Claims:**\n${Object.entries(decoded.payload).slice(0, 5).map(([k, v]) => `- ${k}: ${v}`).join('\\n')}\n\n*Generated locally at: ${new Date().toLocaleString()}*`;
+    return `**JWT Security Report | SyntaxSnap**\n----------------------------------\n**Status:** ${status.status === 'active' ? '✅ Valid' : '🔴 ' + status.label}\n**Detail:** ${status.detail}\n**Algorithm:** ${decoded.header?.alg || 'Unknown'}\n${jwe?.header ? `**Encryption:** ${jwe.header.alg} / ${jwe.header.enc}\n` : ''}**Signature:** ${signatureLabel}\n${decoded.isAlgNone ? '**CRITICAL:** alg:none detected (Unsigned Token)\\n' : ''}\n**Key Claims:**\n${Object.entries(decoded.payload).slice(0, 5).map(([k, v]) => `- ${k}: ${v}`).join('\\n')}\n\n**Audit Findings:**\n${findings.map((f) => `- [${f.severity.toUpperCase()}] ${f.title}${f.location ? ` (${f.location})` : ''}`).join('\n') || '- None'}\n\n*Generated locally at: ${new Date().toLocaleString()}*`;
   };
 
+  const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-2xl p-4 font-mono text-xs text-slate-300 focus:outline-none resize-y';
+
   return (
     <div className="space-y-6">
+      {/* Mode Toggle */}
+      <div className="flex bg-slate-900 p-1 rounded-lg w-fit border border-slate-800">
+        {([['decode', 'Decode & Verify'], ['sign', 'Sign']] as const).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setMode(id)}
+            aria-pressed={mode === id}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${mode === id ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'decode' ? (<>
       {/* Input - FIX: Replaced div with label and added htmlFor/id connection */}
       <div className="bg-slate-900/50 p-6 rounded-3xl border border-slate-800">
         <div className="flex justify-between items-center mb-4">
@@ -116,8 +280,45 @@ export default function JwtDebugger() {
           placeholder="header.payload.signature" 
           className="w-full h-32 bg-slate-950 border border-slate-800 rounded-2xl p-4 font-mono text-sm text-indigo-300 focus:outline-none resize-none break-all" 
         />
+        {decoded.error && <p className="mt-3 text-xs text-red-400" role="alert">{decoded.error}</p>}
       </div>
 
+      {/* JWE Decryption */}
+      {jwe?.header && (
+        <div className="bg-slate-900/50 p-6 rounded-3xl border border-slate-800 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="flex items-center gap-2 text-amber-400">
+              <Lock className="w-4 h-4" />
+              <span className="text-xs font-bold uppercase">JWE Protected Header</span>
+            </h2>
+            <span className="text-xs font-mono text-slate-400">{jwe.header.alg} · {jwe.header.enc}{jwe.header.zip ? ` · zip ${jwe.header.zip}` : ''}</span>
+          </div>
+          <pre className="bg-slate-950 p-4 rounded-xl border border-slate-800 font-mono text-xs text-slate-300 overflow-auto whitespace-pre-wrap">{JSON.stringify(jwe.header, null, 2)}</pre>
+          <label htmlFor="jwt-decrypt-key" className="flex items-center gap-2 text-amber-400">
+            <Unlock className="w-4 h-4" />
+            <span className="text-xs font-bold uppercase">Decrypt</span>
+          </label>
+          <textarea
+            id="jwt-decrypt-key"
+            value={decryptKey}
+            onChange={(e) => setDecryptKey(e.target.value)}
+            placeholder={jwe.header.alg.startsWith('RSA') ? "Recipient's PEM private key or private JWK / JWKS" : 'Symmetric key (base64url or text) or oct JWK'}
+            spellCheck={false}
+            className={`${inputClass} h-28`}
+          />
+          <div role="status" className="text-sm">
+            {decryption.state === 'idle' && <span className="text-slate-500">Paste the key to decrypt the payload — it stays in your browser.</span>}
+            {decryption.state === 'checking' && <span className="text-slate-400">Decrypting…</span>}
+            {decryption.state === 'error' && <span className="flex items-center gap-1.5 text-amber-400"><AlertTriangle className="w-4 h-4" /> {decryption.message}</span>}
+            {decryption.state === 'done' && (
+              <span className="flex items-center gap-1.5 text-emerald-400 font-bold">
+                <Unlock className="w-4 h-4" /> Decrypted ({decryption.result.keyLabel}){decryption.result.nestedToken ? ' — contains a signed JWT' : ''}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Decoded Boxes */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-100">
         {['header', 'payload'].map((key) => (
@@ -141,6 +342,40 @@ export default function JwtDebugger() {
         ))}
       </div>
 
+      {/* Signature Verification */}
+      {decoded.token && (
+        <div className="bg-slate-900/50 p-6 rounded-3xl border border-slate-800 space-y-3">
+          <label htmlFor="jwt-verify-key" className="flex items-center gap-2 text-emerald-400">
+            <Key className="w-4 h-4" />
+            <span className="text-xs font-bold uppercase">Verify Signature</span>
+          </label>
+          <textarea
+            id="jwt-verify-key"
+            value={verifyKey}
+            onChange={(e) => setVerifyKey(e.target.value)}
+            placeholder="Shared secret, PEM public key / certificate, or JWK / JWKS JSON"
+            spellCheck={false}
+            className={`${inputClass} h-28`}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input type="checkbox" checked={verifyBase64} onChange={(e) => setVerifyBase64(e.target.checked)} className="accent-emerald-500" />
+              Secret is base64url-encoded
+            </label>
+            <div role="status" className="text-sm">
+              {verification.state === 'idle' && <span className="text-slate-500">Paste a key to check the signature — it stays in your browser.</span>}
+              {verification.state === 'checking' && <span className="text-slate-400">Verifying…</span>}
+              {verification.state === 'error' && <span className="flex items-center gap-1.5 text-amber-400"><AlertTriangle className="w-4 h-4" /> {verification.message}</span>}
+              {verification.state === 'done' && (verification.result.valid ? (
+                <span className="flex items-center gap-1.5 text-emerald-400 font-bold"><ShieldCheck className="w-4 h-4" /> Signature verified ({verification.result.alg}, {verification.result.keyLabel})</span>
+              ) : (
+                <span className="flex items-center gap-1.5 text-red-400 font-bold"><ShieldAlert className="w-4 h-4" /> Invalid signature</span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Security Analysis */}
       {decoded.payload && status && (
         <div className="bg-slate-900/30 border border-slate-800 rounded-2xl p-6 space-y-4">
@@ -168,13 +403,134 @@ export default function JwtDebugger() {
                <div className="flex justify-between items-start mb-1">
                  <span className="text-sm font-bold text-slate-400 flex items-center gap-1"><Lock className="w-3 h-3" /> Signature</span>
                  {/* FIX: Added ariaLabel="Copy Signature" to handle empty label text */}
-                   <CopyButton text={decoded.signature} label="Copy Signature" variant="ghost" />
+                 {decoded.token && <CopyButton text={decoded.signature} label="Copy Signature" variant="ghost" />}
                </div>
-               <p className="text-sm text-slate-400 font-mono break-all line-clamp-2">{decoded.signature}</p>
+               <p className="text-sm text-slate-400 font-mono break-all line-clamp-2">{decoded.token ? decoded.signature : 'Encrypted, not signed'}</p>
+               <p className={`text-xs mt-1 ${verification.state === 'done' && verification.result.valid ? 'text-emerald-400' : 'text-slate-500'}`}>{signatureLabel}</p>
+            </div>
+          </div>
+
+          {/* Audit Findings */}
+          <div className="space-y-3 pt-2">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-sm font-bold text-white flex items-center gap-2"><ClipboardList className="w-4 h-4 text-indigo-400" /> Audit Findings ({findings.length})</h3>
+              <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                <label className="flex items-center gap-1.5">
+                  Clock skew (s)
+                  <input type="number" min={0} value={clockSkew} onChange={(e) => setClockSkew(Math.max(0, Number(e.target.value) || 0))} className="w-16 bg-slate-950 border border-slate-800 rounded px-2 py-1 font-mono text-slate-200 focus:outline-none" />
+                </label>
+                <label className="flex items-center gap-1.5">
+                  Max lifetime (h)
+                  <input type="number" min={1} value={maxLifetimeHours} onChange={(e) => setMaxLifetimeHours(Math.max(1, Number(e.target.value) || 1))} className="w-16 bg-slate-950 border border-slate-800 rounded px-2 py-1 font-mono text-slate-200 focus:outline-none" />
+                </label>
+                <ActionButton onClick={exportAudit} icon={Download} label="Export JSON" ariaLabel="Export audit as JSON" />
+              </div>
             </div>
+            {findings.length === 0 ? (
+              <p className="text-xs text-emerald-400">No findings — the token passes every rule.</p>
+            ) : (
+              <ul className="space-y-2" aria-label="Audit findings">
+                {findings.map((finding, i) => (
+                  <li key={`${finding.rule}-${finding.location}-${i}`} className="flex items-start gap-3 bg-slate-950/60 border border-slate-800 rounded-xl p-3">
+                    <span className={`shrink-0 text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded border ${SEVERITY_STYLES[finding.severity]}`}>{finding.severity}</span>
+                    <div className="min-w-0">
+                      <p className="text-xs font-bold text-slate-200">
+                        {finding.title}
+                        {finding.location && <code className="ml-2 font-mono font-normal text-slate-500">{finding.location}</code>}
+                      </p>
+                      <p className="text-xs text-slate-400 mt-0.5">{finding.detail}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
       )}
+      </>) : (
+        /* Sign Mode */
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="flex flex-col gap-2">
+              <label htmlFor="jwt-sign-header" className="text-sm font-bold uppercase tracking-widest text-pink-500">Header</label>
+              <textarea id="jwt-sign-header" value={signHeader} onChange={(e) => setSignHeader(e.target.value)} spellCheck={false} className={`${inputClass} h-40`} />
+            </div>
+            <div className="flex flex-col gap-2">
+              <label htmlFor="jwt-sign-payload" className="text-sm font-bold uppercase tracking-widest text-indigo-400">Payload</label>
+              <textarea id="jwt-sign-payload" value={signPayload} onChange={(e) => setSignPayload(e.target.value)} spellCheck={false} className={`${inputClass} h-40`} />
+            </div>
+          </div>
+
+          <div className="bg-slate-900/50 p-6 rounded-3xl border border-slate-800 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <label htmlFor="jwt-sign-key" className="flex items-center gap-2 text-emerald-400">
+                <Key className="w-4 h-4" />
+                <span className="text-xs font-bold uppercase">Signing Key</span>
+              </label>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  Algorithm
+                  <select
+                    value={signAlg}
+                    onChange={(e) => handleAlgChange(e.target.value as JwsAlgorithm)}
+                    className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200 font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    {JWS_ALGORITHMS.map((alg) => <option key={alg} value={alg}>{alg}</option>)}
+                  </select>
+                </label>
+                <ActionButton onClick={handleGenerateKey} icon={Key} label="Generate Key" />
+              </div>
+            </div>
+            <textarea
+              id="jwt-sign-key"
+              value={signKey}
+              onChange={(e) => { setSignKey(e.target.value); setPublicKey(''); }}
+              placeholder={signAlg.startsWith('HS') ? 'Shared secret' : 'PEM private key (PKCS#8, PKCS#1 or SEC1) or private JWK'}
+              spellCheck={false}
+              className={`${inputClass} h-28`}
+            />
+            {signAlg.startsWith('HS') && (
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input type="checkbox" checked={signBase64} onChange={(e) => setSignBase64(e.target.checked)} className="accent-emerald-500" />
+                Secret is base64url-encoded
+              </label>
+            )}
+            {publicKey && (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-xs font-bold uppercase text-slate-400">Public Key (share this to verify)</span>
+                  <CopyButton text={publicKey} label="Copy Public Key" variant="ghost" />
+                </div>
+                <pre className="bg-slate-950 p-4 rounded-xl border border-slate-800 font-mono text-xs text-slate-400 whitespace-pre-wrap break-all">{publicKey}</pre>
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={handleSign}
+            className="w-full flex justify-center items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-6 rounded-xl transition-colors"
+          >
+            <PenLine className="w-4 h-4" /> Sign Token
+          </button>
+
+          {signError && (
+            <div className="p-4 bg-red-900/20 border border-red-800 rounded-xl text-red-400 text-sm" role="alert">{signError}</div>
+          )}
+
+          {signed && (
+            <div className="bg-slate-900/50 p-6 rounded-3xl border border-slate-800 space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-xs font-bold uppercase text-indigo-400">Signed Token</span>
+                <div className="flex gap-2">
+                  <ActionButton onClick={openInDebugger} icon={ShieldCheck} label="Verify in Debugger" />
+                  <CopyButton text={signed} label="Copy JWT" variant="ghost" />
+                </div>
+              </div>
+              <p data-testid="signed-token" className="font-mono text-sm text-indigo-300 break-all">{signed}</p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+// src/components/tools/OpenapiMock.tsx
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { CopyButton } from '../ui/CopyButton';
+import SpecFileTabs from '../ui/SpecFileTabs';
+import { useDebounce } from '../../hooks/useDebounce';
+import { convertOpenAPIToExpress } from '../../lib/converters/openapiToExpress';
+import { getErrorMessage } from '../../lib/converters/types';
+import type { SpecFile } from '../../utils/openapiRefs';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const DEBOUNCE_MS = 300;
+
+const ENTRY_NAME = 'openapi.json';
+
+const PLACEHOLDER = '// Your code will appear here...';
+
+// ─── COMPONENT ───────────────────────────────────────────────────────────────
+
+export default function OpenapiMockTool() {
+  const [files, setFiles] = useState<SpecFile[]>([{ name: ENTRY_NAME, content: '' }]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [formatError, setFormatError] = useState<string | null>(null);
+  const debouncedFiles = useDebounce(files, DEBOUNCE_MS);
+
+  const rootRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    rootRef.current?.setAttribute('data-hydrated', 'true');
+  }, []);
+
+  const result = useMemo(() => {
+    const [entry, ...rest] = debouncedFiles;
+    if (!entry.content.trim()) return null;
+    return convertOpenAPIToExpress(entry.content, { entryName: entry.name, files: rest });
+  }, [debouncedFiles]);
+
+  const output = result?.code || PLACEHOLDER;
+  const error = result ? getErrorMessage(result) : null;
+  const warnings = result?.warnings ?? [];
+  const input = files[activeIndex]?.content ?? '';
+
+  const setInput = useCallback(
+    (content: string) => setFiles((prev) => prev.map((f, i) => (i === activeIndex ? { ...f, content } : f))),
+    [activeIndex],
+  );
+
+  const handleFormat = useCallback(() => {
+    try {
+      setInput(JSON.stringify(JSON.parse(input), null, 2));
+      setFormatError(null);
+    } catch {
+      setFormatError('Invalid JSON format');
+    }
+  }, [input, setInput]);
+
+  return (
+    <div ref={rootRef} className="space-y-4 mb-16">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-150">
+        <div className="flex flex-col bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-lg">
+          <div className="bg-slate-800/50 px-4 py-3 border-b border-slate-700 flex justify-between items-center">
+            <span className="text-sm font-medium text-slate-300">OpenAPI spec</span>
+            <button
+              type="button"
+              onClick={handleFormat}
+              className="text-xs text-[#27b4f2] hover:text-white transition-colors"
+            >
+              Format JSON
+            </button>
+          </div>
+          <SpecFileTabs
+            files={files}
+            activeIndex={activeIndex}
+            onFilesChange={setFiles}
+            onActiveIndexChange={setActiveIndex}
+          >
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              className="flex-1 w-full bg-transparent text-slate-300 p-4 resize-none focus:outline-none focus:ring-1 focus:ring-[#27b4f2] font-mono text-sm"
+              placeholder='{"openapi": "3.0.0", "paths": { ... }}'
+              spellCheck={false}
+              aria-label="OpenAPI spec input"
+            />
+          </SpecFileTabs>
+        </div>
+
+        <div className="flex flex-col bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-lg">
+          <div className="bg-slate-800/50 px-4 py-3 border-b border-slate-700 flex justify-between items-center">
+            <span className="text-sm font-medium text-slate-300">server.ts</span>
+            <CopyButton
+              text={output}
+              label="Copy Code"
+              copiedLabel="Copied!"
+              size="sm"
+              disabled={!result || !!error}
+              className="bg-[#27b4f2] text-slate-900 hover:bg-cyan-400 font-semibold rounded"
+            />
+          </div>
+          <pre className="flex-1 overflow-auto p-4">
+            <code className="text-emerald-400 font-mono text-sm whitespace-pre-wrap">{output}</code>
+          </pre>
+        </div>
+      </div>
+
+      {!error && warnings.length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-700/50 rounded-lg px-4 py-3 text-amber-300 text-sm" role="status">
+          <strong className="font-semibold">Warnings:</strong> {warnings.join(' • ')}
+        </div>
+      )}
+
+      {(error || formatError) && (
+        <div className="bg-red-900/20 border border-red-700/50 rounded-lg px-4 py-3 text-red-300 text-sm" role="alert">
+          <strong className="font-semibold">Error:</strong> {error ?? formatError}
+        </div>
+      )}
+    </div>
+  );
+}
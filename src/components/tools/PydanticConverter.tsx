@@ -3,7 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { useDebounce } from '../../hooks/useDebounce';
 import { Braces, FileJson, Trash2, AlertCircle, AlertTriangle } from 'lucide-react';
 import CopyButton from '../ui/CopyButton';
-import { convertPydanticToZod, MAX_INPUT_CHARS, type JsonSchemaNode } from '../../utils/pydanticToZod';
+import { convertPydanticToZod, MAX_INPUT_CHARS, type JsonSchemaNode } from '../../lib/converters/pydanticToZod';
 
 // ─── Default example ─────────────────────────────────────────────────────────
 
@@ -1,15 +1,15 @@
 // src/components/tools/RegexTester.tsx
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useDebounce } from '../../hooks/useDebounce';
-import { Regex, Flag, Zap, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Regex, Flag, Zap, AlertTriangle, CheckCircle2, Columns3, Replace, Code2 } from 'lucide-react';
 import CopyButton from '../ui/CopyButton';
-
-// ─── Types ───────────────────────────────────────────────────────────────────
-interface MatchInfo {
-  value: string;
-  index: number;
-  groups: Record<string, string> | undefined;
-}
+import { REGEX_FLAVORS, flavorInfo, isRegexFlavor, type RegexFlavor } from '../../lib/regex/flavors';
+import type { RegexRun } from '../../lib/regex/engines';
+import { createRegexRunner, HARD_TIMEOUT_MS, type RegexRunner } from '../../lib/regex/runner';
+import { analyzeRedos, type RedosWarning } from '../../lib/regex/redos';
+import { parseReplacement, splitByMatches, substitute } from '../../lib/regex/replace';
+import { CODE_LANGUAGES, generateCode, type CodeLanguage } from '../../lib/regex/codegen';
+import type { RegexMatch } from '../../lib/regex/types';
 
 // ─── Constants & Presets ─────────────────────────────────────────────────────
 const PRESETS = [
@@ -19,6 +19,30 @@ const PRESETS = [
   { name: 'IPv4', pattern: String.raw`\b(?:\d{1,3}\.){3}\d{1,3}\b`, flags: 'g' },
 ];
 
+const OUTPUT_TABS = [
+  { id: 'replace', label: 'Replace' },
+  { id: 'split', label: 'Split' },
+  { id: 'matchAll', label: 'matchAll' },
+  { id: 'code', label: 'Export Code' },
+] as const;
+
+/** Replacement syntax per flavor, for the placeholder and the default template */
+const REPLACEMENT_SYNTAX: Record<RegexFlavor, { placeholder: string; wholeMatch: string }> = {
+  javascript: { placeholder: '$1, $<name>, $&, $$', wholeMatch: '$&' },
+  pcre: { placeholder: '$1, ${1}, ${name}, $$', wholeMatch: '$0' },
+  python: { placeholder: '\\1, \\g<1>, \\g<name>', wholeMatch: '\\g<0>' },
+  go: { placeholder: '$1, ${1}, ${name}, $$', wholeMatch: '${0}' },
+  java: { placeholder: '$1, ${name}, \\$', wholeMatch: '$0' },
+};
+
+const SPLIT_CALLS: Record<RegexFlavor, string> = {
+  javascript: 'text.split(regex)',
+  pcre: 'preg_split($pattern, $text)',
+  python: 're.split(pattern, text)',
+  go: 're.Split(text, -1)',
+  java: 'pattern.split(text)',
+};
+
 const DEFAULT_TEXT = `Contact us at support@syntaxsnap.com or admin@test.org for help.
 Visit https://syntaxsnap.com for more tools.
 Server IP: 192.168.1.1 connected on 2025-10-25.`;
@@ -34,45 +58,47 @@ function escapeHtml(s: string) {
       .replace(/\//g, '&#x2F;'); // FIX: Extra safety
 }
 
-// FIX: Prevent ReDoS (Regular Expression Denial of Service) browser freezes
-function executeRegexSafely(pattern: string, flags: string, text: string, timeoutMs = 1000): { matches: MatchInfo[]; timedOut: boolean } {
-  const regex = new RegExp(pattern, flags.includes('g') ? flags : flags + 'g'); // Ensure global for highlighting
-  const matches: MatchInfo[] = [];
-  const startTime = Date.now();
-  let match;
-  
-  while ((match = regex.exec(text)) !== null) {
-    if (Date.now() - startTime > timeoutMs) {
-      return { matches, timedOut: true }; // Circuit breaker
-    }
-    matches.push({ value: match[0], index: match.index, groups: match.groups });
-    if (match[0].length === 0) regex.lastIndex++; // Avoid infinite loops on empty matches
-  }
-  return { matches, timedOut: false };
-}
-
-function processRegex(pattern: string, flags: string, text: string) {
-  if (!pattern) return { html: escapeHtml(text), matches: [], error: null, timedOut: false };
+function highlightMatches(text: string, matches: RegexMatch[]): string {
+  let html = '';
+  let lastIndex = 0;
 
-  try {
-    const { matches, timedOut } = executeRegexSafely(pattern, flags, text);
+  // Only highlight up to what we found if it timed out, or everything if normal
+  matches.forEach((m) => {
+    if (m.index < lastIndex) return; // \K can report a match starting before the previous one ended
+    html += escapeHtml(text.slice(lastIndex, m.index));
+    html += `<mark class="bg-indigo-500/30 text-indigo-200 rounded px-0.5 border-b-2 border-indigo-500">${escapeHtml(m.value)}</mark>`;
+    lastIndex = m.index + m.value.length;
+  });
+  return html + escapeHtml(text.slice(lastIndex));
+}
 
-    // Build Highlighted HTML
-    let html = '';
-    let lastIndex = 0;
-    
-    // Only highlight up to what we found if it timed out, or everything if normal
-    matches.forEach((m) => {
-      html += escapeHtml(text.slice(lastIndex, m.index));
-      html += `<mark class="bg-indigo-500/30 text-indigo-200 rounded px-0.5 border-b-2 border-indigo-500">${escapeHtml(m.value)}</mark>`;
-      lastIndex = m.index + m.value.length;
-    });
-    html += escapeHtml(text.slice(lastIndex));
+/** Same matches at the same positions — what "agrees" means in the comparison */
+/** The pattern with the repeated sub-pattern marked and its competing parts underlined */
+function RedosPattern({ pattern, warning }: { pattern: string; warning: RedosWarning }) {
+  const cuts = [...new Set([warning.start, warning.end, ...warning.inner.flatMap((s) => [s.start, s.end]), pattern.length])].sort((a, b) => a - b);
+  let from = 0;
+  const pieces = cuts.map((to) => {
+    const piece = { text: pattern.slice(from, to), from };
+    from = to;
+    return piece;
+  }).filter((piece) => piece.text);
+  return (
+    <code className="block font-mono break-all text-slate-300">
+      {pieces.map(({ text, from: at }) => {
+        if (at < warning.start || at >= warning.end) return <span key={at}>{text}</span>;
+        const inner = warning.inner.some((s) => at >= s.start && at < s.end);
+        return (
+          <mark key={at} className={`bg-orange-500/30 text-orange-200 ${inner ? 'underline decoration-wavy decoration-red-400 underline-offset-4' : ''}`}>
+            {text}
+          </mark>
+        );
+      })}
+    </code>
+  );
+}
 
-    return { html, matches, error: null, timedOut };
-  } catch (e) {
-    return { html: escapeHtml(text), matches: [], error: (e as Error).message, timedOut: false };
-  }
+function sameMatches(a: RegexMatch[], b: RegexMatch[]): boolean {
+  return a.length === b.length && a.every((m, i) => m.index === b[i].index && m.value === b[i].value);
 }
 
 // ─── Main Component ──────────────────────────────────────────────────────────
@@ -80,6 +106,13 @@ export default function RegexTester() {
   const [pattern, setPattern] = useState(PRESETS[0].pattern);
   const [flags, setFlags] = useState('g');
   const [text, setText] = useState(DEFAULT_TEXT);
+  const [flavor, setFlavor] = useState<RegexFlavor>('javascript');
+  const [compare, setCompare] = useState(false);
+  const [run, setRun] = useState<RegexRun | null>(null);
+  const [comparison, setComparison] = useState<RegexRun[] | null>(null);
+  const [outputTab, setOutputTab] = useState<(typeof OUTPUT_TABS)[number]['id']>('replace');
+  const [replacement, setReplacement] = useState('<$&>');
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>('javascript');
 
   // Apply 300ms debounce to prevent freezing on large texts and complex patterns
   const debouncedPattern = useDebounce(pattern, 300);
@@ -97,12 +130,51 @@ export default function RegexTester() {
   }, []);
   // ───────────────────────────────────────────────────────────────────────────
 
-  // Process against debounced values for massive performance gains
-  const { html, matches, error, timedOut } = useMemo(
-    () => processRegex(debouncedPattern, flags, debouncedText), 
-    [debouncedPattern, flags, debouncedText]
+  // Matching runs in a worker that's killed if it outlives its deadline, so a
+  // catastrophic pattern can't freeze the tab. Superseded runs resolve to null.
+  const runnerRef = useRef<RegexRunner | null>(null);
+  useEffect(() => () => runnerRef.current?.dispose(), []);
+
+  useEffect(() => {
+    runnerRef.current ??= createRegexRunner();
+    const flavors = compare ? REGEX_FLAVORS.map((f) => f.id) : [flavor];
+    runnerRef.current.run(flavors, debouncedPattern, flags, debouncedText).then((results) => {
+      if (!results) return;
+      setRun(results.find((r) => r.flavor === flavor) ?? null);
+      setComparison(compare ? results : null);
+    });
+  }, [debouncedPattern, flags, debouncedText, flavor, compare]);
+
+  // Static analysis runs on the live pattern, ahead of execution
+  const redos = useMemo(() => analyzeRedos(pattern, flags, flavor), [pattern, flags, flavor]);
+
+  const matches = run?.matches ?? [];
+  const error = run?.error ?? null;
+  const timedOut = run?.timedOut ?? false;
+  const html = useMemo(() => highlightMatches(debouncedText, matches), [debouncedText, matches]);
+  const selected = flavorInfo(flavor);
+  const groupNames = run?.groupNames ?? [];
+
+  const replaced = useMemo(() => {
+    try {
+      const parts = parseReplacement(flavor, replacement, groupNames);
+      return { parts, ...substitute(debouncedText, matches, parts), error: null };
+    } catch (e) {
+      return { parts: null, output: '', replacements: [], error: (e as Error).message };
+    }
+  }, [flavor, replacement, groupNames, debouncedText, matches]);
+  const pieces = useMemo(() => splitByMatches(flavor, debouncedText, matches), [flavor, debouncedText, matches]);
+  const snippet = useMemo(
+    () => generateCode(codeLanguage, { pattern: debouncedPattern, flags, text: debouncedText, replacement: replaced.parts }),
+    [codeLanguage, debouncedPattern, flags, debouncedText, replaced.parts],
   );
 
+  const changeFlavor = (next: RegexFlavor) => {
+    // Keep the default "wrap each match" template meaningful in the new syntax
+    if (replacement === `<${REPLACEMENT_SYNTAX[flavor].wholeMatch}>`) setReplacement(`<${REPLACEMENT_SYNTAX[next].wholeMatch}>`);
+    setFlavor(next);
+  };
+
   return (
     <div className="space-y-8 min-h-150">
       
@@ -116,7 +188,25 @@ export default function RegexTester() {
             <h2 className="text-sm font-semibold uppercase tracking-wider">Pattern & Flags</h2>
           </div>
           
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
+            <label htmlFor="flavorSelect" className="sr-only">Regex Flavor</label>
+            <select
+              id="flavorSelect"
+              value={flavor}
+              onChange={(e) => { if (isRegexFlavor(e.target.value)) changeFlavor(e.target.value); }}
+              className="px-3 py-1.5 text-xs font-medium bg-slate-950 text-slate-200 rounded-lg border border-slate-700 focus:outline-none focus:border-indigo-500"
+            >
+              {REGEX_FLAVORS.map((f) => (
+                <option key={f.id} value={f.id}>{f.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setCompare((c) => !c)}
+              aria-pressed={compare}
+              className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors flex items-center gap-1.5 ${compare ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 border-slate-700'}`}
+            >
+              <Columns3 className="w-3 h-3" /> Compare Flavors
+            </button>
             {PRESETS.map((p) => (
               <button
                 key={p.name}
@@ -173,9 +263,49 @@ export default function RegexTester() {
         {timedOut && (
           <div className="mt-3 flex items-center gap-2 text-xs text-yellow-400 bg-yellow-900/20 px-4 py-2 rounded-lg border border-yellow-900/50">
             <AlertTriangle className="w-4 h-4" />
-            <span className="font-mono">Execution timed out. The regex pattern is too complex (Catastrophic Backtracking) and was stopped to prevent browser freezing.</span>
+            <span className="font-mono">
+              {run?.terminated
+                ? `Execution was still running after ${HARD_TIMEOUT_MS / 1000}s and was terminated. The regex pattern is too complex (Catastrophic Backtracking); the page stays responsive because matching runs in a background worker.`
+                : 'Execution timed out. The regex pattern is too complex (Catastrophic Backtracking) and was stopped to prevent browser freezing.'}
+            </span>
+          </div>
+        )}
+        {redos.length > 0 && (
+          <div role="alert" aria-label="Possible ReDoS" className="mt-3 text-xs text-orange-300 bg-orange-900/20 px-4 py-2 rounded-lg border border-orange-900/50 space-y-2">
+            <div className="flex items-center gap-2 font-semibold">
+              <AlertTriangle className="w-4 h-4" />
+              Possible ReDoS (catastrophic backtracking)
+            </div>
+            {redos.map((warning) => (
+              <div key={`${warning.kind}-${warning.start}`} className="ml-6 space-y-1">
+                <RedosPattern pattern={pattern} warning={warning} />
+                <p>{warning.message}</p>
+                <p className="text-orange-200/80">{warning.hint}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        {run && run.unsupported.length > 0 && (
+          <div className="mt-3 text-xs text-amber-300 bg-amber-900/20 px-4 py-2 rounded-lg border border-amber-900/50">
+            <div className="flex items-center gap-2 font-semibold">
+              <AlertTriangle className="w-4 h-4" />
+              Not supported in {selected.label}
+            </div>
+            <ul aria-label={`Constructs not supported in ${selected.label}`} className="mt-1 ml-6 space-y-0.5">
+              {run.unsupported.map((u) => (
+                <li key={u.construct}>
+                  <code className="font-mono text-amber-200">{u.text}</code> — {u.label}, at index {u.index}
+                  {u.count > 1 && ` (${u.count}×)`}
+                </li>
+              ))}
+            </ul>
           </div>
         )}
+        {run && run.ignoredFlags.length > 0 && (
+          <p className="mt-3 text-xs text-slate-400">
+            {selected.label} has no <span className="font-mono text-yellow-400">{run.ignoredFlags.join('')}</span> flag; accepted flags: <span className="font-mono text-yellow-400">{selected.flags}</span>.
+          </p>
+        )}
       </div>
 
       {/* ─── Testing Arena ───────────────────────────────────────────────── */}
@@ -214,6 +344,168 @@ export default function RegexTester() {
         </div>
       </div>
 
+      {/* ─── Flavor Comparison ───────────────────────────────────────────── */}
+      {comparison && run && (
+        <div className="bg-slate-900/20 border border-slate-800 rounded-2xl overflow-hidden">
+          <div className="px-6 py-3 border-b border-slate-800 bg-slate-900/40 flex items-center gap-2">
+            <Columns3 className="w-4 h-4 text-indigo-400" />
+            <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Flavor Comparison</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table aria-label="Flavor comparison" className="w-full text-left text-sm text-slate-400">
+              <thead className="text-xs uppercase bg-slate-900/50 text-slate-400 font-medium">
+                <tr>
+                  <th className="px-6 py-3">Flavor</th>
+                  <th className="px-6 py-3">Engine</th>
+                  <th className="px-6 py-3">Result</th>
+                  <th className="px-6 py-3">First Matches</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {comparison.map((r) => {
+                  const info = flavorInfo(r.flavor);
+                  const differs = !r.error && !run.error && !sameMatches(r.matches, run.matches);
+                  return (
+                    <tr key={r.flavor} className={r.flavor === flavor ? 'bg-indigo-500/5' : 'hover:bg-slate-800/30 transition-colors'}>
+                      <td className="px-6 py-3">
+                        <button onClick={() => changeFlavor(r.flavor)} className="font-medium text-slate-200 hover:text-indigo-400">
+                          {info.label}
+                        </button>
+                      </td>
+                      <td className="px-6 py-3 text-xs">{info.engine}</td>
+                      <td className="px-6 py-3 text-xs">
+                        {r.error ? (
+                          <span className="font-mono text-red-400">{r.error}</span>
+                        ) : (
+                          <span className="font-mono">
+                            {r.matches.length} {r.matches.length === 1 ? 'match' : 'matches'}
+                            {r.timedOut && <span className="text-yellow-400"> ({r.terminated ? 'terminated' : 'stopped'})</span>}
+                            {differs && <span className="text-amber-300"> · differs from {selected.label}</span>}
+                          </span>
+                        )}
+                        {r.unsupported.length > 0 && !r.error && (
+                          <div className="text-amber-300">{r.unsupported.length} unsupported construct{r.unsupported.length > 1 ? 's' : ''}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 font-mono text-xs text-indigo-300">
+                        {r.matches.slice(0, 5).map((m) => JSON.stringify(m.value)).join(', ') || <span className="text-slate-600">-</span>}
+                        {r.matches.length > 5 && <span className="text-slate-600"> …</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* ─── Replace / Split / matchAll / Code ──────────────────────────── */}
+      <div className="bg-slate-900/20 border border-slate-800 rounded-2xl overflow-hidden">
+        <div className="px-6 py-3 border-b border-slate-800 bg-slate-900/40 flex flex-wrap justify-between items-center gap-3">
+          <div role="tablist" aria-label="Regex output" className="flex gap-2">
+            {OUTPUT_TABS.map((t) => (
+              <button
+                key={t.id}
+                type="button"
+                role="tab"
+                aria-selected={outputTab === t.id}
+                onClick={() => setOutputTab(t.id)}
+                className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-colors ${outputTab === t.id ? 'bg-indigo-500 text-white' : 'text-slate-400 hover:text-slate-300'}`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+          {outputTab === 'replace' && !replaced.error && <CopyButton text={replaced.output} label="Copy Result" variant="ghost" />}
+          {outputTab === 'code' && <CopyButton text={snippet.code} label="Copy Code" variant="ghost" />}
+        </div>
+
+        <div role="tabpanel" className="p-6 space-y-4">
+          {outputTab === 'replace' && (
+            <>
+              <div className="relative">
+                <label htmlFor="replacementInput" className="sr-only">Replacement</label>
+                <div className="absolute left-3 top-3 text-slate-400">
+                  <Replace className="w-4 h-4" />
+                </div>
+                <input
+                  id="replacementInput"
+                  type="text"
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-xl py-2.5 pl-10 pr-4 font-mono text-sm text-emerald-300 focus:outline-none focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 transition-all"
+                  placeholder={`Replacement (${REPLACEMENT_SYNTAX[flavor].placeholder})`}
+                />
+              </div>
+              {replaced.error ? (
+                <div className="flex items-center gap-2 text-xs text-red-400 bg-red-900/20 px-4 py-2 rounded-lg border border-red-900/50">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span className="font-mono">{replaced.error}</span>
+                </div>
+              ) : (
+                <pre data-testid="replace-output" className="max-h-64 overflow-auto bg-slate-950 border border-slate-800 rounded-xl p-4 font-mono text-sm text-slate-300 whitespace-pre-wrap">{replaced.output}</pre>
+              )}
+              {replaced.replacements.length > 0 && (
+                <div>
+                  <p className="text-xs text-slate-400 mb-2">
+                    Per match — the arguments a replacer function receives, and what the template produces:
+                  </p>
+                  <ol aria-label="Replacement per match" className="space-y-1 font-mono text-xs max-h-64 overflow-auto">
+                    {matches.slice(0, 50).map((m, i) => (
+                      <li key={i} className="text-slate-400">
+                        <span className="text-slate-500">replacer(</span>
+                        {[m.value, ...m.captures].map((v) => (v === undefined ? 'undefined' : JSON.stringify(v))).join(', ')}, {m.index}
+                        <span className="text-slate-500">)</span> → <span className="text-emerald-300">{JSON.stringify(replaced.replacements[i])}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </>
+          )}
+
+          {outputTab === 'split' && (
+            <>
+              <p className="text-xs text-slate-400">
+                <span className="font-mono text-indigo-300">{SPLIT_CALLS[flavor]}</span> returns {pieces.length} {pieces.length === 1 ? 'piece' : 'pieces'}:
+              </p>
+              <pre data-testid="split-output" className="max-h-80 overflow-auto bg-slate-950 border border-slate-800 rounded-xl p-4 font-mono text-sm text-slate-300">{JSON.stringify(pieces, null, 2)}</pre>
+            </>
+          )}
+
+          {outputTab === 'matchAll' && (
+            <pre data-testid="match-all-output" className="max-h-80 overflow-auto bg-slate-950 border border-slate-800 rounded-xl p-4 font-mono text-sm text-slate-300">
+              {JSON.stringify(matches.slice(0, 100).map((m) => ({ match: m.value, index: m.index, captures: m.captures, groups: m.groups })), null, 2)}
+            </pre>
+          )}
+
+          {outputTab === 'code' && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {CODE_LANGUAGES.map((l) => (
+                  <button
+                    key={l.id}
+                    type="button"
+                    aria-pressed={codeLanguage === l.id}
+                    onClick={() => setCodeLanguage(l.id)}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors flex items-center gap-1.5 ${codeLanguage === l.id ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 border-slate-700'}`}
+                  >
+                    <Code2 className="w-3 h-3" /> {l.label}
+                  </button>
+                ))}
+              </div>
+              {snippet.warnings.length > 0 && (
+                <ul aria-label="Export warnings" className="text-xs text-amber-300 bg-amber-900/20 px-4 py-2 rounded-lg border border-amber-900/50 space-y-0.5">
+                  {snippet.warnings.map((w) => <li key={w}>{w}</li>)}
+                </ul>
+              )}
+              <pre data-testid="code-output" className="max-h-96 overflow-auto bg-slate-950 border border-slate-800 rounded-xl p-4 font-mono text-sm text-emerald-400 leading-relaxed">{snippet.code}</pre>
+            </>
+          )}
+        </div>
+      </div>
+
       {/* ─── Match Details Table ─────────────────────────────────────────── */}
       {matches.length > 0 && (
         <div className="bg-slate-900/20 border border-slate-800 rounded-2xl overflow-hidden">
@@ -222,13 +514,17 @@ export default function RegexTester() {
             <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Capture Groups</span>
           </div>
           <div className="overflow-x-auto">
-            <table className="w-full text-left text-sm text-slate-400">
+            <table aria-label="Capture groups" className="w-full text-left text-sm text-slate-400">
               <thead className="text-xs uppercase bg-slate-900/50 text-slate-400 font-medium">
                 <tr>
                   <th className="px-6 py-3">#</th>
                   <th className="px-6 py-3">Match</th>
-                  <th className="px-6 py-3">Index</th>
-                  <th className="px-6 py-3">Groups</th>
+                  <th className="px-6 py-3">Range</th>
+                  {groupNames.map((name, g) => (
+                    <th key={g} className="px-6 py-3 whitespace-nowrap">
+                      Group {g + 1}{name && <span className="normal-case text-indigo-400"> {name}</span>}
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-800/50">
@@ -236,10 +532,22 @@ export default function RegexTester() {
                   <tr key={i} className="hover:bg-slate-800/30 transition-colors">
                     <td className="px-6 py-3 font-mono text-slate-600">{i + 1}</td>
                     <td className="px-6 py-3 font-mono text-indigo-300">{m.value}</td>
-                    <td className="px-6 py-3 font-mono text-slate-400">{m.index}</td>
-                    <td className="px-6 py-3 font-mono text-slate-400">
-                      {m.groups ? JSON.stringify(m.groups) : <span className="text-slate-600">-</span>}
-                    </td>
+                    <td className="px-6 py-3 font-mono text-slate-400 whitespace-nowrap">{m.index}–{m.index + m.value.length}</td>
+                    {groupNames.map((_, g) => {
+                      const range = m.captureIndices[g];
+                      return (
+                        <td key={g} className="px-6 py-3 font-mono">
+                          {range ? (
+                            <>
+                              <span className="text-emerald-300">{JSON.stringify(m.captures[g])}</span>
+                              <span className="text-slate-600 text-xs"> {range[0]}–{range[1]}</span>
+                            </>
+                          ) : (
+                            <span className="text-slate-600">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
                   </tr>
                 ))}
               </tbody>
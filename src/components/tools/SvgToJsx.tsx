@@ -2,218 +2,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useDebounce } from '../../hooks/useDebounce';
 import { FileCode, Settings2, Trash2 } from 'lucide-react';
 import ShareButtonGroup from '../ui/ShareButtonGroup';
-
-// ─── Attribute rename map ─────────────────────────────────────────────────────
-const ATTR_RENAMES: Record<string, string> = {
-  class:           'className',
-  for:             'htmlFor',
-  tabindex:        'tabIndex',
-  accesskey:       'accessKey',
-  contenteditable: 'contentEditable',
-  crossorigin:     'crossOrigin',
-  enctype:         'encType',
-  spellcheck:      'spellCheck',
-  autofocus:       'autoFocus',
-  novalidate:      'noValidate',
-  readonly:        'readOnly',
-  maxlength:       'maxLength',
-  minlength:       'minLength',
-  colspan:         'colSpan',
-  rowspan:         'rowSpan',
-  cellpadding:     'cellPadding',
-  cellspacing:     'cellSpacing',
-  usemap:          'useMap',
-  frameborder:     'frameBorder',
-  'xml:lang':      'xmlLang',
-  'xml:space':     'xmlSpace',
-  'xlink:href':    'href',
-  'xlink:type':    'xlinkType',
-  'xlink:role':    'xlinkRole',
-  'xlink:arcrole': 'xlinkArcrole',
-  'xlink:title':   'xlinkTitle',
-  'xlink:show':    'xlinkShow',
-  'xlink:actuate': 'xlinkActuate',
-};
-
-function toJsxAttrName(attr: string): string {
-  const lower = attr.toLowerCase();
-  if (ATTR_RENAMES[lower]) return ATTR_RENAMES[lower];
-  return attr.replace(/-([a-z])/g, (_, ch: string) => ch.toUpperCase());
-}
-
-// ─── CSS string → React style object ─────────────────────────────────────────
-function parseCssToStyleObject(css: string): string {
-  const pairs: string[] = [];
-  let i = 0;
-
-  while (i < css.length) {
-    while (i < css.length && css[i] === ' ') i++;
-    if (i >= css.length) break;
-
-    const propStart = i;
-    let depth = 0;
-    while (i < css.length) {
-      if      (css[i] === '(') depth++;
-      else if (css[i] === ')') depth--;
-      else if (css[i] === ':' && depth === 0) break;
-      i++;
-    }
-    const prop = css.slice(propStart, i).trim();
-    if (!prop || i >= css.length) break;
-    i++; 
-
-    const valStart = i;
-    depth = 0;
-    let inQuote = false;
-    let quoteChar = '';
-    while (i < css.length) {
-      const ch = css[i];
-      if (!inQuote && (ch === '"' || ch === "'")) { inQuote = true;  quoteChar = ch; }
-      else if (inQuote && ch === quoteChar)        { inQuote = false; }
-      else if (!inQuote && ch === '(')             depth++;
-      else if (!inQuote && ch === ')')             depth--;
-      else if (!inQuote && ch === ';' && depth === 0) break;
-      i++;
-    }
-    const val = css.slice(valStart, i).trim();
-
-    if (prop && val) {
-      const camelProp = prop.startsWith('-')
-        ? prop
-            .replace(/^-([a-z])/, (_: string, c: string) => c.toUpperCase())
-            .replace(/-([a-z])/g,  (_: string, c: string) => c.toUpperCase())
-        : prop.replace(/-([a-z])/g, (_: string, c: string) => c.toUpperCase());
-
-      pairs.push(`${camelProp}: "${val}"`);
-    }
-    i++; 
-  }
-
-  return `{ ${pairs.join(', ')} }`;
-}
-
-// ─── Attribute tokenizer ──────────────────────────────────────────────────────
-interface AttrToken {
-  name:  string;
-  value: string | null; 
-}
-
-function tokenizeAttrs(attrs: string): AttrToken[] {
-  const tokens: AttrToken[] = [];
-  let i = 0;
-
-  while (i < attrs.length) {
-    while (i < attrs.length && /\s/.test(attrs[i])) i++;
-    if (i >= attrs.length) break;
-
-    const nameStart = i;
-    while (i < attrs.length && !/[\s=/>]/.test(attrs[i])) i++;
-    const name = attrs.slice(nameStart, i);
-    if (!name) { i++; continue; }
-
-    while (i < attrs.length && /\s/.test(attrs[i])) i++;
-
-    if (attrs[i] !== '=') {
-      tokens.push({ name, value: null });
-      continue;
-    }
-    i++; 
-
-    while (i < attrs.length && /\s/.test(attrs[i])) i++;
-
-    let value: string;
-    if (i < attrs.length && (attrs[i] === '"' || attrs[i] === "'")) {
-      const quote = attrs[i++];
-      const start = i;
-      while (i < attrs.length && attrs[i] !== quote) i++;
-      value = attrs.slice(start, i);
-      i++; 
-    } else {
-      const start = i;
-      while (i < attrs.length && !/\s/.test(attrs[i])) i++;
-      value = attrs.slice(start, i);
-    }
-
-    tokens.push({ name, value });
-  }
-
-  return tokens;
-}
-
-function renderAttrs(tokens: AttrToken[]): string {
-  if (tokens.length === 0) return '';
-  return (
-    ' ' +
-    tokens
-      .map(({ name, value }) => {
-        const jsxName = toJsxAttrName(name);
-        if (value === null) return jsxName;
-        if (name.toLowerCase() === 'style') return `style={${parseCssToStyleObject(value)}}`;
-        return `${jsxName}="${value}"`;
-      })
-      .join(' ')
-  );
-}
-
-// ─── Security Sanitizer ───────────────────────────────────────────────────────
-function sanitizeSvg(svg: string): string {
-  let sanitized = svg;
-  sanitized = sanitized.replace(/<script\b[^<]*(?:(?!<\/\s*script\s*>)<[^<]*)*<\/\s*script\s*>/gi, '');
-  sanitized = sanitized.replace(/<script\b[^>]*\/?>/gi, ''); 
-  sanitized = sanitized.replace(/\son\w+\s*=\s*(?:["'][^"']*["']|[^\s>]*)/gi, '');
-  sanitized = sanitized.replace(/\s(?:href|src)\s*=\s*["']javascript:[^"']*["']/gi, '');
-  
-  if (/<script/i.test(sanitized) || /\son\w+\s*=/i.test(sanitized)) {
-    sanitized = sanitizeSvg(sanitized);
-  }
-  return sanitized;
-}
-
-// ─── Main converter ───────────────────────────────────────────────────────────
-function svgToJsx(raw: string, wrapComponent: boolean, addProps: boolean): string {
-  const safeRaw = sanitizeSvg(raw);
-
-  const stripped = safeRaw
-    .replace(/<\?xml[^>]*\?>/gi, '')   
-    .replace(/<!DOCTYPE[^>]*>/gi, '')   
-    .replace(new RegExp('<!--[\\s\\S]*?-->', 'g'), '')
-    .trimStart();
-
-  let jsx = stripped
-    .replace(
-      /<(\/?)([a-zA-Z][a-zA-Z0-9:.-]*)([^>]*?)(\/?)>/gs,
-      (
-        _full:        string,
-        closingSlash: string,
-        tagName:      string,
-        attrs:        string,
-        selfClose:    string,
-      ) => {
-        if (closingSlash) return `</${tagName}>`; 
-
-        const tokens        = tokenizeAttrs(attrs);
-        const renderedAttrs = renderAttrs(tokens);
-
-        return selfClose
-          ? `<${tagName}${renderedAttrs} />`
-          : `<${tagName}${renderedAttrs}>`;
-      },
-    )
-    .trim();
-
-  // Inject {...props} into the root svg tag if requested
-  if (addProps && jsx.toLowerCase().startsWith('<svg')) {
-    jsx = jsx.replace(/<svg/i, '<svg {...props}');
-  }
-
-  // Wrap in a functional component if requested
-  if (wrapComponent) {
-    const indentedJsx = jsx.split('\n').join('\n    ');
-    return `export default function SvgIcon(${addProps ? 'props' : ''}) {\n  return (\n    ${indentedJsx}\n  );\n}`;
-  }
-
-  return jsx;
-}
+import { convertSvgToJsx } from '../../lib/converters/svgToJsx';
 
 // ─── Default sample ───────────────────────────────────────────────────────────
 const DEFAULT_SVG = `<svg width="100" height="100" viewBox="0 0 100 100" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -234,7 +23,7 @@ export default function SvgToJsx() {
   const outputRef = useRef<HTMLPreElement>(null);
 
   useEffect(() => {
-    setOutput(svgToJsx(debouncedInput, wrapComponent, addProps));
+    setOutput(convertSvgToJsx(debouncedInput, { wrapComponent, addProps }).code);
   }, [debouncedInput, wrapComponent, addProps]);
 
   // Fixes the "Dead Click" issue tracked in Clarity
@@ -1,127 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-
-// ─── PARSER CONFIGURATION ────────────────────────────────────────────────
-const BREAKPOINTS: Record<string, string> = {
-  sm: '640px', md: '768px', lg: '1024px', xl: '1280px', '2xl': '1536px',
-};
-
-const PSEUDO_MAP: Record<string, string> = {
-  hover: ':hover', focus: ':focus', active: ':active',
-  'focus-within': ':focus-within', 'focus-visible': ':focus-visible',
-  first: ':first-child', last: ':last-child', disabled: ':disabled',
-};
-
-const SPACING_MAP: Record<string, string[]> = {
-  p: ['padding'], px: ['padding-left', 'padding-right'], py: ['padding-top', 'padding-bottom'],
-  pt: ['padding-top'], pb: ['padding-bottom'], pl: ['padding-left'], pr: ['padding-right'],
-  m: ['margin'], mx: ['margin-left', 'margin-right'], my: ['margin-top', 'margin-bottom'],
-  mt: ['margin-top'], mb: ['margin-bottom'], ml: ['margin-left'], mr: ['margin-right'],
-  gap: ['gap'], 'gap-x': ['column-gap'], 'gap-y': ['row-gap']
-};
-
-const STANDALONE_COLORS: Record<string, string> = {
-  'text-white': 'color: #ffffff;', 'text-black': 'color: #000000;', 'text-transparent': 'color: transparent;',
-  'bg-white': 'background-color: #ffffff;', 'bg-black': 'background-color: #000000;', 'bg-transparent': 'background-color: transparent;',
-  'border-white': 'border-color: #ffffff;', 'border-black': 'border-color: #000000;', 'border-transparent': 'border-color: transparent;',
-};
-
-const STATIC_UTILITIES: Record<string, string> = {
-  // Layout & Position
-  relative: 'position: relative;', absolute: 'position: absolute;', fixed: 'position: fixed;',
-  sticky: 'position: sticky;', block: 'display: block;', inline: 'display: inline;',
-  flex: 'display: flex;', 'inline-flex': 'display: inline-flex;', grid: 'display: grid;', hidden: 'display: none;',
-  'flex-col': 'flex-direction: column;', 'flex-row': 'flex-direction: row;',
-  'items-center': 'align-items: center;', 'items-start': 'align-items: flex-start;',
-  'justify-center': 'justify-content: center;', 'justify-between': 'justify-content: space-between;',
-  // Sizing
-  'w-full': 'width: 100%;', 'w-screen': 'width: 100vw;', 'h-full': 'height: 100%;', 'h-screen': 'height: 100vh;', 'min-h-screen': 'min-height: 100vh;',
-  // Typography
-  'text-xs': 'font-size: 0.75rem; line-height: 1rem;', 'text-sm': 'font-size: 0.875rem; line-height: 1.25rem;',
-  'text-base': 'font-size: 1rem; line-height: 1.5rem;', 'text-lg': 'font-size: 1.125rem; line-height: 1.75rem;',
-  'text-xl': 'font-size: 1.25rem; line-height: 1.75rem;', 'text-2xl': 'font-size: 1.5rem; line-height: 2rem;',
-  'font-bold': 'font-weight: 700;', 'font-semibold': 'font-weight: 600;', 'text-center': 'text-align: center;',
-  // Borders & Effects
-  rounded: 'border-radius: 0.25rem;', 'rounded-md': 'border-radius: 0.375rem;', 'rounded-lg': 'border-radius: 0.5rem;',
-  'rounded-xl': 'border-radius: 0.75rem;', 'rounded-full': 'border-radius: 9999px;', border: 'border-width: 1px;',
-  shadow: 'box-shadow: 0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1);',
-  'shadow-md': 'box-shadow: 0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1);',
-  transition: 'transition-property: all; transition-timing-function: cubic-bezier(0.4, 0, 0.2, 1); transition-duration: 150ms;',
-  'cursor-pointer': 'cursor: pointer;'
-};
-
-// ─── CORE PARSER ─────────────────────────────────────────────────────────
-const parseTailwindClasses = (classString: string, selector: string) => {
-  const classes = classString.split(/\s+/).filter(Boolean);
-  const rulesMap = new Map<string, string[]>(); // Group by media query wrapper
-
-  classes.forEach(cls => {
-    // 1. Extract Modifiers (hover:, md:, etc)
-    const parts = cls.split(':');
-    const utility = parts.pop()!;
-    const modifiers = parts;
-
-    let mediaQuery = '';
-    let pseudo = '';
-
-    modifiers.forEach(mod => {
-      if (BREAKPOINTS[mod]) mediaQuery = `@media (min-width: ${BREAKPOINTS[mod]})`;
-      if (PSEUDO_MAP[mod]) pseudo += PSEUDO_MAP[mod];
-    });
-
-    const ruleWrapperKey = `${mediaQuery}|${pseudo}`;
-    if (!rulesMap.has(ruleWrapperKey)) rulesMap.set(ruleWrapperKey, []);
-    const pushRule = (rule: string) => rulesMap.get(ruleWrapperKey)!.push(rule);
-
-    // 2. Map Utilities
-    if (STATIC_UTILITIES[utility]) {
-      pushRule(STATIC_UTILITIES[utility]);
-    } else if (STANDALONE_COLORS[utility]) {
-      pushRule(STANDALONE_COLORS[utility]);
-    } else {
-      // Regex Parsers
-      const spacingMatch = utility.match(/^(-?)(p|px|py|pt|pb|pl|pr|m|mx|my|mt|mb|ml|mr|gap|gap-x|gap-y)-(\d+\.?\d*)$/);
-      const colorMatch = utility.match(/^(text|bg|border)-([a-z]+)-(\d+)(?:\/(\d+))?$/);
-      const arbitraryMatch = utility.match(/^(w|h|bg|text|border)-\[(.+)\]$/);
-
-      if (spacingMatch) {
-        const [, neg, prefix, value] = spacingMatch;
-        const rem = `${neg}${Number(value) * 0.25}rem`;
-        SPACING_MAP[prefix].forEach(p => pushRule(`${p}: ${rem};`));
-      } 
-      else if (colorMatch) {
-        const [, type, color, shade, opacity] = colorMatch;
-        const prop = type === 'bg' ? 'background-color' : type === 'text' ? 'color' : 'border-color';
-        let val = `var(--color-${color}-${shade})`;
-        // Simulate opacity handling for CSS vars
-        if (opacity) val = `rgb(var(--color-${color}-${shade}-rgb) / ${Number(opacity)/100})`;
-        pushRule(`${prop}: ${val};`);
-      } 
-      else if (arbitraryMatch) {
-        const [, type, rawValue] = arbitraryMatch;
-        const val = rawValue.replace(/_/g, ' '); // Convert Tailwind underscores to spaces
-        const prop = type === 'bg' ? 'background-color' : type === 'text' ? 'color' : type === 'w' ? 'width' : type === 'h' ? 'height' : 'border-color';
-        pushRule(`${prop}: ${val};`);
-      } 
-      else {
-        pushRule(`/* TODO: Unmapped utility '${utility}' */`);
-      }
-    }
-  });
-
-  // 3. Format Output
-  let finalCss = '';
-  rulesMap.forEach((rules, key) => {
-    if (rules.length === 0) return;
-    const [media, pseudo] = key.split('|');
-    let block = `.${selector}${pseudo} {\n  ${rules.join('\n  ')}\n}`;
-    if (media) {
-      block = `${media} {\n  ${block.split('\n').join('\n  ')}\n}`; // Indent nested block
-    }
-    finalCss += block + '\n\n';
-  });
-
-  return finalCss.trim();
-};
+import { convertTailwindToCss } from '../../lib/converters/tailwindToCss';
 
 // ─── REACT COMPONENT ─────────────────────────────────────────────────────
 export default function TailwindToCss() {
@@ -136,7 +14,7 @@ export default function TailwindToCss() {
     return () => clearTimeout(timer);
   }, [input]);
 
-  const cssOutput = useMemo(() => parseTailwindClasses(debouncedInput, selector), [debouncedInput, selector]);
+  const cssOutput = useMemo(() => convertTailwindToCss(debouncedInput, { selector }).code, [debouncedInput, selector]);
 
   const copyToClipboard = () => {
     navigator.clipboard.writeText(cssOutput);
@@ -1,10 +1,12 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import ShareButtonGroup from '../ui/ShareButtonGroup';
 import { useDebounce } from '../../hooks/useDebounce';
+import { convertTsToZod, MAX_INPUT_LENGTH } from '../../lib/converters/tsToZod';
+import { getErrorMessage, type ConversionResult } from '../../lib/converters/types';
+import type { TsToZodRequest, TsToZodResponse } from '../../workers/tsToZod.worker';
 
 // ─── CONSTANTS ──────────────────────────────────────────────────────────────
 
-const MAX_INPUT_LENGTH = 200_000;
 const DEBOUNCE_MS = 300;
 
 const DEFAULT_INPUT = `interface User {
@@ -41,390 +43,62 @@ interface Post {
   publishedAt: Date | null;
 }`;
 
-// ─── TYPES ──────────────────────────────────────────────────────────────────
-
-interface ParsedProperty {
-  key: string;
-  type: string;
-  optional: boolean;
-  readonly: boolean;
-}
-
-interface ParsedType {
-  name: string;
-  kind: 'interface' | 'type-object' | 'type-alias';
-  properties: ParsedProperty[];
-  aliasType?: string;
-}
-
-interface ConversionResult {
-  code: string;
-  error: string | null;
-}
-
-// ─── TOKENIZER HELPERS ──────────────────────────────────────────────────────
-
-const OPENERS = new Set(['{', '(', '[', '<']);
-const CLOSERS: Record<string, string> = { '{': '}', '(': ')', '[': ']', '<': '>' };
-
-/** Skip past a string literal starting at `i`. Returns index of the closing quote. */
-function skipString(src: string, i: number): number {
-  const q = src[i];
-  for (let j = i + 1; j < src.length; j++) {
-    if (src[j] === '\\') { j++; continue; }
-    if (src[j] === q) return j;
-  }
-  return src.length - 1;
-}
-
-/** Find the closing delimiter matching the opener at `start`, respecting nesting. */
-function findClosingDelimiter(src: string, start: number): number {
-  const opener = src[start];
-  const closer = CLOSERS[opener];
-  if (!closer) return -1;
-  let depth = 1;
-  for (let i = start + 1; i < src.length; i++) {
-    const ch = src[i];
-    if (ch === '"' || ch === "'" || ch === '`') { i = skipString(src, i); continue; }
-    if (ch === '>' && i > 0 && src[i - 1] === '=') continue; // skip => arrows
-    if (ch === opener) depth++;
-    else if (ch === closer) { depth--; if (depth === 0) return i; }
-  }
-  return -1;
-}
-
-/** Split `str` by a single-char `delim` at delimiter depth 0. */
-function smartSplit(str: string, delim: string): string[] {
-  const parts: string[] = [];
-  let cur = '';
-  let depth = 0;
-  for (let i = 0; i < str.length; i++) {
-    const ch = str[i];
-    if (ch === '"' || ch === "'" || ch === '`') {
-      const end = skipString(str, i);
-      cur += str.slice(i, end + 1);
-      i = end;
-      continue;
-    }
-    if (ch === '>' && i > 0 && str[i - 1] === '=') { cur += ch; continue; }
-    if (OPENERS.has(ch)) depth++;
-    if (ch === '}' || ch === ')' || ch === ']' || ch === '>') depth--;
-    if (ch === delim && depth === 0) { parts.push(cur.trim()); cur = ''; }
-    else cur += ch;
-  }
-  if (cur.trim()) parts.push(cur.trim());
-  return parts;
-}
-
-/** Split generic arguments at the top-level comma: "string, number" → ["string", "number"] */
-function splitGenericArgs(inner: string): [string, string] {
-  const parts = smartSplit(inner, ',');
-  return [parts[0] ?? '', parts.slice(1).join(', ').trim()];
-}
-
-function sanitizeId(n: string): string {
-  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(n)
-    ? n
-    : n.replace(/[^a-zA-Z0-9_$]/g, '_').replace(/^(\d)/, '_$1');
-}
-
-function sanitizeKey(k: string): string {
-  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(k) ? k : JSON.stringify(k);
-}
-
-// ─── TYPE MAPPER ────────────────────────────────────────────────────────────
-
-function mapTypeToZod(ts: string, known: Set<string>): string {
-  const t = ts.trim();
-
-  // Primitives & built-ins
-  if (t === 'null') return 'z.null()';
-  if (t === 'undefined') return 'z.undefined()';
-  if (t === 'any') return 'z.any()';
-  if (t === 'unknown') return 'z.unknown()';
-  if (t === 'never') return 'z.never()';
-  if (t === 'void') return 'z.void()';
-  if (t === 'Date') return 'z.date()';
-  if (t === 'string') return 'z.string()';
-  if (t === 'number') return 'z.number()';
-  if (t === 'boolean') return 'z.boolean()';
-  if (t === 'bigint') return 'z.bigint()';
-  if (t === 'symbol') return 'z.symbol()';
-
-  // Literals (single-value only; strict regex prevents matching "A" | "B" as one literal)
-  if (/^"[^"]*"$/.test(t) || /^'[^']*'$/.test(t)) return `z.literal(${t})`;
-  if (/^-?\d+(\.\d+)?$/.test(t)) return `z.literal(${t})`;
-  if (t === 'true' || t === 'false') return `z.literal(${t})`;
-
-  // Unwrap outer parens: (A | B) → A | B
-  if (t.startsWith('(') && t.endsWith(')')) {
-    const close = findClosingDelimiter(t, 0);
-    if (close === t.length - 1) return mapTypeToZod(t.slice(1, -1), known);
-  }
-
-  // Unions (depth-aware split)
-  const uParts = smartSplit(t, '|');
-  if (uParts.length > 1) {
-    const allLit = uParts.every(p => /^["'].*["']$/.test(p.trim()));
-    if (allLit) return `z.enum([${uParts.map(p => p.trim()).join(', ')}])`;
-    if (uParts.length === 2 && uParts.some(p => p.trim() === 'null')) {
-      const nonNull = uParts.find(p => p.trim() !== 'null')!;
-      return `${mapTypeToZod(nonNull, known)}.nullable()`;
-    }
-    const members = uParts.map(p => mapTypeToZod(p.trim(), known));
-    return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
-  }
-
-  // Intersections (depth-aware split, correct .and() chaining)
-  const iParts = smartSplit(t, '&');
-  if (iParts.length > 1) {
-    return iParts.map(p => mapTypeToZod(p.trim(), known)).reduce((a, b) => `${a}.and(${b})`);
-  }
-
-  // Array: T[]
-  if (t.endsWith('[]')) return `z.array(${mapTypeToZod(t.slice(0, -2), known)})`;
-
-  // Generic wrappers: Array<T>, Set<T>, Map<K,V>, Record<K,V>, Promise<T>, Partial<T>, etc.
-  const genMatch = t.match(/^([A-Za-z_$][A-Za-z0-9_$]*)<(.+)>$/);
-  if (genMatch) {
-    const [, wrapper, inner] = genMatch;
-    if (wrapper === 'Array') return `z.array(${mapTypeToZod(inner, known)})`;
-    if (wrapper === 'Set') return `z.set(${mapTypeToZod(inner, known)})`;
-    if (wrapper === 'Promise') return `z.promise(${mapTypeToZod(inner, known)})`;
-    if (wrapper === 'Map') {
-      const [k, v] = splitGenericArgs(inner);
-      return `z.map(${mapTypeToZod(k, known)}, ${mapTypeToZod(v, known)})`;
-    }
-    if (wrapper === 'Record') {
-      const [, v] = splitGenericArgs(inner);
-      return `z.record(${mapTypeToZod(v, known)})`;
-    }
-    if (wrapper === 'Partial' && known.has(inner.trim()))
-      return `${sanitizeId(inner.trim())}Schema.partial()`;
-    if (wrapper === 'Required' && known.has(inner.trim()))
-      return `${sanitizeId(inner.trim())}Schema.required()`;
-    if (wrapper === 'Pick') {
-      const [base, keys] = splitGenericArgs(inner);
-      if (known.has(base.trim())) {
-        const kl = smartSplit(keys, '|').map(k => k.trim().replace(/^["']|["']$/g, ''));
-        return `${sanitizeId(base.trim())}Schema.pick({ ${kl.map(k => `${k}: true`).join(', ')} })`;
-      }
-    }
-    if (wrapper === 'Omit') {
-      const [base, keys] = splitGenericArgs(inner);
-      if (known.has(base.trim())) {
-        const kl = smartSplit(keys, '|').map(k => k.trim().replace(/^["']|["']$/g, ''));
-        return `${sanitizeId(base.trim())}Schema.omit({ ${kl.map(k => `${k}: true`).join(', ')} })`;
-      }
-    }
-  }
-
-  // Tuple: [A, B, C]
-  if (t.startsWith('[') && t.endsWith(']')) {
-    const inner = t.slice(1, -1).trim();
-    if (!inner) return 'z.tuple([])';
-    return `z.tuple([${smartSplit(inner, ',').map(m => mapTypeToZod(m.trim(), known)).join(', ')}])`;
-  }
-
-  // Inline object: { key: Type; ... }
-  if (t.startsWith('{') && t.endsWith('}')) {
-    const inner = t.slice(1, -1).trim();
-    if (!inner) return 'z.object({})';
-    const ps = parseProperties(inner);
-    if (ps.length === 0) return 'z.object({})';
-    const fields = ps.map(p => {
-      let zod = mapTypeToZod(p.type, known);
-      if (p.optional) zod += '.optional()';
-      return `${sanitizeKey(p.key)}: ${zod}`;
-    });
-    return `z.object({ ${fields.join(', ')} })`;
-  }
-
-  // Known type reference
-  if (known.has(t)) return `${sanitizeId(t)}Schema`;
-
-  return 'z.unknown()';
-}
-
-// ─── MULTI-PASS PARSER ──────────────────────────────────────────────────────
-
-/**
- * Find the end of a type alias body (everything after `type X = `).
- * Terminates on `;` at depth 0, or a newline followed by a new declaration.
- */
-function findAliasEnd(src: string, start: number): number {
-  let depth = 0;
-  for (let i = start; i < src.length; i++) {
-    const ch = src[i];
-    if (ch === '"' || ch === "'" || ch === '`') { i = skipString(src, i); continue; }
-    if (ch === '>' && i > 0 && src[i - 1] === '=') continue;
-    if (OPENERS.has(ch)) depth++;
-    if (ch === '}' || ch === ')' || ch === ']' || ch === '>') depth--;
-    if (ch === ';' && depth === 0) return i;
-    if (ch === '\n' && depth === 0) {
-      const rest = src.slice(i + 1).trimStart();
-      if (/^(?:export\s+)?(?:interface|type|enum|const|class|function)\s/.test(rest)) return i;
-    }
-  }
-  return src.length;
-}
-
-/** Extract all interface / type declarations via multi-pass brace-depth tokenizer. */
-function parseTypeScriptCode(code: string): ParsedType[] {
-  const types: ParsedType[] = [];
-  const declRe = /(?:export\s+)?(?:(interface)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)(?:\s+extends\s+[a-zA-Z0-9_$,\s<>]+)?\s*\{|(type)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*=\s*)/g;
-
-  let m: RegExpExecArray | null;
-  while ((m = declRe.exec(code)) !== null) {
-    const isInterface = m[1] === 'interface';
-    const name = isInterface ? m[2] : m[4];
-    const matchEnd = m.index + m[0].length;
-
-    if (isInterface) {
-      const braceOpen = matchEnd - 1;
-      const braceClose = findClosingDelimiter(code, braceOpen);
-      if (braceClose === -1) continue;
-      types.push({ name, kind: 'interface', properties: parseProperties(code.slice(braceOpen + 1, braceClose)) });
-      declRe.lastIndex = braceClose + 1;
-    } else {
-      const rest = code.slice(matchEnd).trimStart();
-      if (rest.startsWith('{')) {
-        const braceOpen = code.indexOf('{', matchEnd);
-        const braceClose = findClosingDelimiter(code, braceOpen);
-        if (braceClose === -1) continue;
-        types.push({ name, kind: 'type-object', properties: parseProperties(code.slice(braceOpen + 1, braceClose)) });
-        declRe.lastIndex = braceClose + 1;
-      } else {
-        const aliasEnd = findAliasEnd(code, matchEnd);
-        const body = code.slice(matchEnd, aliasEnd).trim();
-        if (body) types.push({ name, kind: 'type-alias', properties: [], aliasType: body });
-        declRe.lastIndex = aliasEnd + 1;
-      }
-    }
-  }
-  return types;
-}
-
-/** Depth-aware property splitter: splits on `;` or `\n` only at depth 0. */
-function depthAwareSplit(body: string): string[] {
-  const parts: string[] = [];
-  let cur = '';
-  let depth = 0;
-  for (let i = 0; i < body.length; i++) {
-    const ch = body[i];
-    if (ch === '"' || ch === "'" || ch === '`') {
-      const end = skipString(body, i);
-      cur += body.slice(i, end + 1);
-      i = end;
-      continue;
-    }
-    if (ch === '>' && i > 0 && body[i - 1] === '=') { cur += ch; continue; }
-    if (OPENERS.has(ch)) depth++;
-    if (ch === '}' || ch === ')' || ch === ']' || ch === '>') depth--;
-    if (depth === 0 && (ch === ';' || ch === '\n')) {
-      if (cur.trim()) parts.push(cur.trim());
-      cur = '';
-    } else {
-      cur += ch;
-    }
-  }
-  if (cur.trim()) parts.push(cur.trim());
-  return parts;
-}
-
-function parseProperties(body: string): ParsedProperty[] {
-  const props: ParsedProperty[] = [];
-  for (const line of depthAwareSplit(body)) {
-    if (line.startsWith('//') || line.startsWith('/*')) continue;
-    const pm = line.match(/^(readonly\s+)?([a-zA-Z_$][a-zA-Z0-9_$]*)(\?)?:\s*(.+)$/s);
-    if (!pm) continue;
-    props.push({
-      key: pm[2],
-      type: pm[4].replace(/[,;]\s*$/, '').trim(),
-      optional: !!pm[3],
-      readonly: !!pm[1],
-    });
-  }
-  return props;
-}
-
-// ─── CONVERTER ──────────────────────────────────────────────────────────────
-
-function convertToZod(input: string): ConversionResult {
-  const trimmed = input.trim();
-  if (!trimmed) return { code: '// 📝 Paste your TypeScript interfaces or types here…', error: null };
-
-  if (trimmed.length > MAX_INPUT_LENGTH) {
-    return { code: '', error: `Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)}KB limit.` };
-  }
-
-  try {
-    const parsed = parseTypeScriptCode(trimmed);
-
-    if (parsed.length === 0) {
-      return {
-        code: '// ⚠️  No valid TypeScript interfaces or types detected.\n// Expected format:\n//   interface User { name: string; }\n//   type Product = { id: number; }\n//   type Status = "ACTIVE" | "INACTIVE";',
-        error: null,
-      };
-    }
-
-    const known = new Set(parsed.map(t => t.name));
-    const lines: string[] = [
-      'import { z } from "zod";',
-      '',
-      '// Generated from TypeScript definitions',
-      `// Total types converted: ${parsed.length}`,
-      '',
-    ];
-
-    for (const type of parsed) {
-      const safe = sanitizeId(type.name);
-
-      if (type.kind === 'type-alias' && type.aliasType) {
-        lines.push(`export const ${safe}Schema = ${mapTypeToZod(type.aliasType, known)};`);
-      } else {
-        const fields = type.properties.map(p => {
-          let zod = mapTypeToZod(p.type, known);
-          if (p.optional) zod += '.optional()';
-          return `  ${sanitizeKey(p.key)}: ${zod},`;
-        });
-        lines.push(
-          fields.length === 0
-            ? `export const ${safe}Schema = z.object({});`
-            : `export const ${safe}Schema = z.object({\n${fields.join('\n')}\n});`,
-        );
-      }
-      lines.push(`export type ${safe} = z.infer<typeof ${safe}Schema>;`);
-      lines.push('');
-    }
-
-    lines.push(`// ✅ Successfully converted ${parsed.length} type${parsed.length !== 1 ? 's' : ''}`);
-    return { code: lines.join('\n'), error: null };
-  } catch (err) {
-    return { code: '', error: `Conversion failed: ${(err as Error).message}` };
-  }
-}
-
 // ─── COMPONENT ──────────────────────────────────────────────────────────────
 
 export default function TsToZodTool() {
   const [input, setInput] = useState(DEFAULT_INPUT);
-  const [error, setError] = useState<string | null>(null);
+  const [astResult, setAstResult] = useState<{ source: string; result: ConversionResult } | null>(null);
   const debouncedInput = useDebounce(input, DEBOUNCE_MS);
 
   const rootRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<{ id: number; source: string } | null>(null);
 
   useEffect(() => {
     rootRef.current?.setAttribute('data-hydrated', 'true');
+    return () => workerRef.current?.terminate();
   }, []);
 
-  const zodCode = useMemo(() => {
-    const r = convertToZod(debouncedInput);
-    queueMicrotask(() => setError(r.error));
-    return r.code;
+  // ── Compiler-API conversion (lazy worker) ───────────────────────────────
+  // The string-scanning parser answers instantly; the worker's AST-based
+  // result replaces it once the compiler has loaded. If the worker can't
+  // start, the instant result simply stays.
+  useEffect(() => {
+    if (!debouncedInput.trim() || typeof Worker === 'undefined') return;
+
+    if (!workerRef.current) {
+      try {
+        const worker = new Worker(new URL('../../workers/tsToZod.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<TsToZodResponse>) => {
+          const pending = pendingRef.current;
+          if (pending && event.data.id === pending.id) {
+            setAstResult({ source: pending.source, result: event.data.result });
+          }
+        };
+        worker.onerror = () => {
+          worker.terminate();
+          workerRef.current = null;
+        };
+        workerRef.current = worker;
+      } catch {
+        return;
+      }
+    }
+
+    const request: TsToZodRequest = { id: (pendingRef.current?.id ?? 0) + 1, source: debouncedInput };
+    pendingRef.current = request;
+    workerRef.current.postMessage(request);
   }, [debouncedInput]);
 
+  const quickResult = useMemo(() => convertTsToZod(debouncedInput), [debouncedInput]);
+  const usingCompiler = astResult?.source === debouncedInput;
+  const result = usingCompiler ? astResult.result : quickResult;
+
+  const zodCode = result.code || '// 📝 Paste your TypeScript interfaces or types here…';
+  const error = getErrorMessage(result);
+  const warnings = result.warnings;
+
   const handleClear = useCallback(() => {
     setInput('');
     textareaRef.current?.focus();
@@ -499,6 +173,9 @@ export default function TsToZodTool() {
             <div className="flex items-center gap-2">
               <div className="w-2 h-2 rounded-full bg-emerald-400" />
               <span className="text-sm font-semibold text-slate-300">Zod Schema Output</span>
+              <span className="text-xs text-slate-500" title={usingCompiler ? 'Parsed with the TypeScript compiler API' : 'Quick parser — the TypeScript compiler is loading'}>
+                {usingCompiler ? 'TS compiler' : 'quick parse'}
+              </span>
             </div>
             <ShareButtonGroup text={zodCode} toolSlug="ts-to-zod" />
           </div>
@@ -510,6 +187,13 @@ export default function TsToZodTool() {
         </div>
       </div>
 
+      {/* Warnings */}
+      {!error && warnings.length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-700/50 rounded-lg px-4 py-3 text-amber-300 text-sm" role="status">
+          <strong className="font-semibold">Warnings:</strong> {warnings.join(' • ')}
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-900/20 border border-red-700/50 rounded-lg px-4 py-3 text-red-300 text-sm" role="alert">
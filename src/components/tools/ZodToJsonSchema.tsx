@@ -0,0 +1,178 @@
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import ShareButtonGroup from '../ui/ShareButtonGroup';
+import { useDebounce } from '../../hooks/useDebounce';
+import { convertZodToJsonSchema, MAX_INPUT_LENGTH } from '../../lib/converters/zodToJsonSchema';
+import { convertZodToTs } from '../../lib/converters/zodToTs';
+import { getErrorMessage } from '../../lib/converters/types';
+
+// ─── CONSTANTS ──────────────────────────────────────────────────────────────
+
+const DEBOUNCE_MS = 300;
+
+type OutputTab = 'json-schema' | 'openapi' | 'typescript';
+
+const TABS: { id: OutputTab; label: string }[] = [
+  { id: 'json-schema', label: 'JSON Schema 2020-12' },
+  { id: 'openapi', label: 'OpenAPI 3.1' },
+  { id: 'typescript', label: 'TypeScript' },
+];
+
+const DEFAULT_INPUT = `import { z } from "zod";
+
+const AddressSchema = z.object({
+  street: z.string().min(1),
+  city: z.string(),
+  zip: z.string().regex(/^\\d{5}$/).optional(),
+});
+
+const CardSchema = z.object({
+  type: z.literal("card"),
+  last4: z.string().length(4),
+});
+
+const InvoiceSchema = z.object({
+  type: z.literal("invoice"),
+  dueDays: z.number().int().positive().default(30),
+});
+
+export const UserSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email().describe("Primary contact address"),
+  role: z.enum(["ADMIN", "USER", "GUEST"]).default("USER"),
+  nickname: z.string().max(32).nullable(),
+  address: AddressSchema.optional(),
+  payment: z.discriminatedUnion("type", [CardSchema, InvoiceSchema]),
+  tags: z.array(z.string()),
+});`;
+
+// ─── COMPONENT ──────────────────────────────────────────────────────────────
+
+export default function ZodToJsonSchemaTool() {
+  const [input, setInput] = useState(DEFAULT_INPUT);
+  const [activeTab, setActiveTab] = useState<OutputTab>('json-schema');
+  const debouncedInput = useDebounce(input, DEBOUNCE_MS);
+
+  const rootRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    rootRef.current?.setAttribute('data-hydrated', 'true');
+  }, []);
+
+  const result = useMemo(() => {
+    if (activeTab === 'typescript') return convertZodToTs(debouncedInput);
+    return convertZodToJsonSchema(debouncedInput, { dialect: activeTab === 'openapi' ? 'openapi-3.1' : '2020-12' });
+  }, [debouncedInput, activeTab]);
+
+  const output = result.code || '// 📝 Paste your Zod schemas here…';
+  const error = getErrorMessage(result);
+  const warnings = result.warnings;
+
+  const handleClear = useCallback(() => {
+    setInput('');
+    textareaRef.current?.focus();
+  }, []);
+
+  const handleLoadExample = useCallback(() => {
+    setInput(DEFAULT_INPUT);
+  }, []);
+
+  const isNearLimit = input.length > MAX_INPUT_LENGTH * 0.8;
+
+  return (
+    <div ref={rootRef} className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-1">
+        <div className="flex gap-2">
+          <button
+            onClick={handleLoadExample}
+            className="px-3 py-1.5 text-xs font-medium text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+            aria-label="Load example Zod schema"
+          >
+            Load Example
+          </button>
+          <button
+            onClick={handleClear}
+            className="px-3 py-1.5 text-xs font-medium text-slate-400 hover:text-red-400 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+            aria-label="Clear input"
+          >
+            Clear
+          </button>
+        </div>
+
+        <div role="tablist" aria-label="Output format" className="flex gap-2">
+          {TABS.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${activeTab === tab.id ? 'bg-violet-500 text-white' : 'text-slate-400 hover:text-slate-300 bg-slate-800'}`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Main Grid */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-150">
+        {/* Input Panel */}
+        <div className="flex flex-col bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden shadow-2xl">
+          <div className="bg-slate-800/50 px-4 py-3 border-b border-slate-700 flex justify-between items-center">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full bg-blue-400" />
+              <span className="text-sm font-semibold text-slate-300">Zod Input</span>
+            </div>
+            <span className={`text-xs font-mono ${isNearLimit ? 'text-amber-400' : 'text-slate-500'}`}>
+              {(input.length / 1_000).toFixed(1)}KB
+            </span>
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="flex-1 w-full bg-transparent text-slate-300 p-4 resize-none font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:ring-inset"
+            placeholder="const User = z.object({ name: z.string() });"
+            spellCheck={false}
+            maxLength={MAX_INPUT_LENGTH + 10_000}
+            aria-label="Zod schema input"
+          />
+        </div>
+
+        {/* Output Panel */}
+        <div className="flex flex-col bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden shadow-2xl">
+          <div className="bg-slate-800/50 px-4 py-3 border-b border-slate-700 flex justify-between items-center">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full bg-violet-400" />
+              <span className="text-sm font-semibold text-slate-300">
+                {TABS.find((t) => t.id === activeTab)?.label} Output
+              </span>
+            </div>
+            <ShareButtonGroup text={output} toolSlug="zod-to-json-schema" />
+          </div>
+          <pre role="tabpanel" className="flex-1 overflow-auto p-4 bg-slate-950/30">
+            <code className="text-violet-300 font-mono text-sm whitespace-pre-wrap leading-relaxed">
+              {output}
+            </code>
+          </pre>
+        </div>
+      </div>
+
+      {/* Warnings */}
+      {!error && warnings.length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-700/50 rounded-lg px-4 py-3 text-amber-300 text-sm" role="status">
+          <strong className="font-semibold">Warnings:</strong> {warnings.join(' • ')}
+        </div>
+      )}
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-900/20 border border-red-700/50 rounded-lg px-4 py-3 text-red-300 text-sm" role="alert">
+          <strong className="font-semibold">Error:</strong> {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+// src/components/ui/SpecFileTabs.tsx
+import { useCallback, useState, type DragEvent, type ReactNode } from 'react';
+import type { SpecFile } from '../../utils/openapiRefs';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export interface SpecFileTabsProps {
+  /** First file is the main spec; the rest are what its `$ref`s point into */
+  files: SpecFile[];
+  activeIndex: number;
+  onFilesChange: (files: SpecFile[]) => void;
+  onActiveIndexChange: (index: number) => void;
+  /** Editor for `files[activeIndex]` */
+  children: ReactNode;
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function nextUntitled(files: SpecFile[]): string {
+  let n = files.length;
+  while (files.some((f) => f.name === `common${n > 1 ? n : ''}.yaml`)) n++;
+  return `common${n > 1 ? n : ''}.yaml`;
+}
+
+// ─── COMPONENT ───────────────────────────────────────────────────────────────
+
+/**
+ * Tab strip + drop zone for multi-file OpenAPI specs. Dropped files become
+ * tabs named after the file, so `./common.yaml#/Pet` resolves against them.
+ */
+export default function SpecFileTabs({
+  files,
+  activeIndex,
+  onFilesChange,
+  onActiveIndexChange,
+  children,
+}: SpecFileTabsProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const active = files[activeIndex] ?? files[0];
+
+  const handleAdd = useCallback(() => {
+    onFilesChange([...files, { name: nextUntitled(files), content: '' }]);
+    onActiveIndexChange(files.length);
+  }, [files, onFilesChange, onActiveIndexChange]);
+
+  const handleRemove = useCallback(
+    (index: number) => {
+      onFilesChange(files.filter((_, i) => i !== index));
+      if (activeIndex >= index) onActiveIndexChange(Math.max(0, activeIndex - 1));
+    },
+    [files, activeIndex, onFilesChange, onActiveIndexChange],
+  );
+
+  const handleRename = useCallback(
+    (name: string) => {
+      onFilesChange(files.map((f, i) => (i === activeIndex ? { ...f, name } : f)));
+    },
+    [files, activeIndex, onFilesChange],
+  );
+
+  const handleDrop = useCallback(
+    async (e: DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setIsDragging(false);
+      const dropped = await Promise.all(
+        Array.from(e.dataTransfer.files).map(async (file) => ({ name: file.name, content: await file.text() })),
+      );
+      if (dropped.length === 0) return;
+
+      let next = [...files];
+      // An empty main tab takes the first dropped file
+      if (!next[0].content.trim()) next[0] = dropped.shift()!;
+      for (const file of dropped) {
+        const existing = next.findIndex((f) => f.name === file.name);
+        if (existing > 0) next[existing] = file;
+        else next = [...next, file];
+      }
+      onFilesChange(next);
+    },
+    [files, onFilesChange],
+  );
+
+  return (
+    <div
+      className="relative flex-1 flex flex-col min-h-0"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center gap-1 px-2 pt-2 border-b border-slate-800 overflow-x-auto">
+        <div role="tablist" aria-label="Spec files" className="flex gap-1">
+          {files.map((file, index) => (
+            <div
+              key={index}
+              className={`flex items-center rounded-t-md text-xs font-mono ${index === activeIndex ? 'bg-slate-800 text-slate-100' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              <button
+                type="button"
+                role="tab"
+                aria-selected={index === activeIndex}
+                onClick={() => onActiveIndexChange(index)}
+                className="px-2.5 py-1.5"
+              >
+                {file.name || 'untitled'}
+              </button>
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => handleRemove(index)}
+                  className="pr-2 text-slate-500 hover:text-red-400"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="px-2 py-1 text-xs text-slate-400 hover:text-white"
+          aria-label="Add spec file"
+          title="Add a file that $refs can point to"
+        >
+          +
+        </button>
+      </div>
+
+      {activeIndex > 0 && (
+        <div className="flex items-center gap-2 px-4 py-1.5 border-b border-slate-800 text-xs text-slate-400">
+          <label htmlFor="spec-file-name">File name</label>
+          <input
+            id="spec-file-name"
+            value={active.name}
+            onChange={(e) => handleRename(e.target.value)}
+            className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-slate-500"
+            spellCheck={false}
+          />
+          <span className="text-slate-500">refs: ./{active.name || '…'}#/…</span>
+        </div>
+      )}
+
+      {children}
+
+      {isDragging && (
+        <div className="absolute inset-0 flex items-center justify-center bg-slate-900/80 border-2 border-dashed border-slate-500 rounded-b-2xl text-sm text-slate-300 pointer-events-none">
+          Drop spec files to open them as tabs
+        </div>
+      )}
+    </div>
+  );
+}
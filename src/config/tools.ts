@@ -47,6 +47,7 @@ import {
   Network,
   FileKey,
   Blend,  
+  FileOutput,
 } from 'lucide-astro';
 
 // ─── CATEGORY REGISTRY ───────────────────────────────────────────────────────
@@ -127,7 +128,7 @@ export const TOOLS: Tool[] = [
   {
     id: 'ai-mock-generator',
     title: 'AI Mock Generator',
-    desc: 'Generate realistic mock data from natural language prompts. Runs entirely in your browser — no API keys required, no data leaves your machine.',
+    desc: 'Generate seeded, reproducible mock records from OpenAPI or JSON Schema in your browser, or describe the data in plain English and let AI fill it in.',
     href: '/tools/ai-mock-generator',
     icon: Sparkles,
     status: 'New',
@@ -171,7 +172,7 @@ export const TOOLS: Tool[] = [
   {
     id: 'jwt-debugger',
     title: 'JWT Debugger',
-    desc: 'Decode, inspect, and validate JWT token headers and payloads without sending credentials to any server. Fully offline, privacy-first debugging.',
+    desc: 'Decode, verify, sign and decrypt JWTs and JWEs with secrets, PEM keys or JWKS using WebCrypto — without sending tokens or keys to any server.',
     href: '/tools/jwt-debugger',
     icon: ShieldCheck,
     status: 'Live',
@@ -193,7 +194,7 @@ export const TOOLS: Tool[] = [
   {
     id: 'regex-tester',
     title: 'Regex Tester',
-    desc: 'Write, test, and debug JavaScript regular expressions with real-time match highlighting and capture group inspection. Fully local execution.',
+    desc: 'Write, test, and debug regular expressions in JavaScript, PCRE2, Python, Go (RE2) and Java flavors, with match highlighting, replace previews, capture group tables, side-by-side comparison, code export and ReDoS warnings. Matching runs in a Web Worker with a hard timeout, fully local.',
     href: '/tools/regex-tester',
     icon: Search,
     status: 'Live',
@@ -248,7 +249,7 @@ export const TOOLS: Tool[] = [
   {
     id: 'cron-descriptor',
     title: 'Cron Descriptor',
-    desc: 'Translate cron expressions into plain English descriptions and preview upcoming scheduled run times. Offline-first processing with zero telemetry.',
+    desc: 'Translate cron expressions into plain English and plain English into cron, build them field by field, find colliding jobs across a whole crontab, preview upcoming run times across timezones with DST warnings, and convert between Unix, Quartz, AWS EventBridge, Kubernetes and GitHub Actions dialects. Offline-first processing with zero telemetry.',
     href: '/tools/cron-descriptor',
     icon: Clock,
     status: 'New',
@@ -454,4 +455,15 @@ export const TOOLS: Tool[] = [
     bg: 'bg-pink-500/10',
     category: 'dev',
   },
-];
\ No newline at end of file
+  {
+    id: 'zod-to-json-schema',
+    title: 'Zod to JSON Schema',
+    desc: 'Convert Zod schemas into JSON Schema 2020-12, OpenAPI 3.1 components, or plain TypeScript types. Nested objects, unions, and enums. 100% client-side.',
+    href: '/tools/zod-to-json-schema',
+    icon: FileOutput,
+    status: 'New',
+    color: 'text-violet-400',
+    bg: 'bg-violet-500/10',
+    category: 'json',
+  },
+];
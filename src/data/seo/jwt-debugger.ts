@@ -15,6 +15,22 @@ export const jwtDebuggerSeo: ToolSEOContent = {
       question: "Does this tool detect alg:none vulnerabilities?",
       answer: "Yes. Our debugger checks for common security pitfalls like the alg:none attack and analyzes Expiration (exp) and Not Before (nbf) claims to help you debug authentication flows."
     },
+    {
+      question: "Can I verify a JWT signature without uploading my key?",
+      answer: "Yes. Paste a shared secret, a PEM public key or certificate, or a JWK / JWKS and the signature is checked with the browser's WebCrypto API. HS256/384/512, RS256/384/512, PS256/384/512, ES256/384/512 and EdDSA are supported; JWKS keys are picked by the token's kid, and a public key is never accepted as an HMAC secret."
+    },
+    {
+      question: "Can I create and sign test tokens?",
+      answer: "Yes. Sign mode signs an edited header and payload with your secret, PEM private key or private JWK — or with a freshly generated key — entirely in your browser."
+    },
+    {
+      question: "Can it decrypt encrypted tokens (JWE)?",
+      answer: "Yes. Five-part JWE tokens show their protected header (alg, enc) right away. Paste the symmetric key for dir or A128KW/A192KW/A256KW, or the recipient's RSA private key (PEM or JWK) for RSA-OAEP and RSA-OAEP-256, and the content is decrypted locally with WebCrypto — A128/192/256GCM and A128CBC-HS256 through A256CBC-HS512 are supported. A signed JWT nested inside is decoded, verified and audited like any other token."
+    },
+    {
+      question: "What does the security audit check?",
+      answer: "Every decoded token is run through a rule set: alg:none and RS→HS algorithm-confusion risks, jku/x5u key URLs and embedded jwk/x5c keys, kid values that look like path traversal or injection, missing iat/iss/aud/exp/jti claims, excessive lifetimes, expiry and not-before times with a configurable clock-skew tolerance, and claims that look like personal data. Findings are ranked by severity and can be exported as JSON without the claim values."
+    },
     {
       question: "Can I decode expired tokens?",
       answer: "Yes. The debugger decodes any structurally valid JWT regardless of expiration. It also highlights expired and not-yet-valid tokens so you can inspect claims for debugging purposes."
@@ -31,6 +47,10 @@ export const jwtDebuggerSeo: ToolSEOContent = {
         name: "Inspect Header & Payload",
         text: "The tool instantly decodes the Base64Url string in real-time, revealing the signing algorithm, user claims, and timestamp data."
       },
+      {
+        name: "Verify the signature",
+        text: "Paste the shared secret, PEM public key, certificate or JWKS into Verify Signature to check the token was signed by the expected key."
+      },
       {
         name: "Review Security Analysis",
         text: "Check the built-in security panel to see if the token is expired, not yet valid, or vulnerable to 'alg: none' attacks."
@@ -0,0 +1,263 @@
+// src/lib/ai/mockRows.ts
+// ─── Mock Row Pipeline ───────────────────────────────────────────────────────
+// Drives the model behind /api/generate-mock: streams its `{ "mockData": [...] }`
+// reply, picks each record out of the array as soon as it is complete,
+// validates it against the caller's JSON Schema and hands it on. Rows that
+// fail validation go back to the model with their issues for repair, and
+// rows the model skipped are asked for again, for a bounded number of rounds.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { Output, streamText, type LanguageModel } from 'ai';
+import { z } from 'zod';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Repair / top-up rounds after the first pass */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/** Abort a single model call that takes longer than this */
+const CALL_TIMEOUT_MS = 30_000;
+
+/** Issues listed per invalid row in a repair request */
+const MAX_ISSUES_PER_ROW = 5;
+
+const SYSTEM_PROMPT = 'Generate mock data. Output ONLY JSON with a "mockData" array.';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** JSON Schema dialects `compileRowValidator` understands */
+export type RowSchemaDialect = 'draft-2020-12' | 'openapi-3.0';
+
+export type RowCheck = { ok: true; data: unknown } | { ok: false; issues: string[] };
+
+export type RowValidator = (row: unknown) => RowCheck;
+
+/** The `code` of every error /api/generate-mock returns, as JSON or as an NDJSON `error` event */
+export type MockErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'invalid_schema'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'not_configured'
+  | 'provider_error'
+  | 'timeout'
+  | 'generation_failed'
+  | 'no_valid_rows';
+
+/** One line of the NDJSON stream */
+export type MockRowEvent =
+  | { type: 'start'; total: number }
+  | { type: 'row'; index: number; data: unknown; repaired?: boolean }
+  | { type: 'repair'; attempt: number; invalid: number; missing: number }
+  | { type: 'error'; code: MockErrorCode; error: string }
+  | { type: 'done'; rows: number; repaired: number; dropped: number };
+
+export interface MockRowsRequest {
+  model: LanguageModel;
+  /** Sanitized prompt: what to generate, or context for enrichment */
+  prompt: string;
+  rowCount: number;
+  /** Records to enrich instead of generating new ones */
+  records?: unknown[];
+  /** JSON Schema each row must satisfy, repeated to the model */
+  schema?: Record<string, unknown>;
+  validate: RowValidator;
+  signal?: AbortSignal;
+}
+
+interface InvalidRow {
+  row: unknown;
+  issues: string[];
+}
+
+// ─── VALIDATION ──────────────────────────────────────────────────────────────
+
+/** Accepts every row; used when the caller sends no schema */
+export const acceptAnyRow: RowValidator = (row) => ({ ok: true, data: row });
+
+/**
+ * Compile `schema` into a row validator. Throws when the schema uses
+ * features Zod can't express (`not`, `if`/`then`, remote `$ref`s, …).
+ * Valid rows come back as parsed, so keys the schema doesn't declare are dropped.
+ */
+export function compileRowValidator(schema: Record<string, unknown>, dialect: RowSchemaDialect): RowValidator {
+  // A private registry: titles and descriptions would otherwise pile up in the global one
+  const zodSchema = z.fromJSONSchema(schema, { defaultTarget: dialect, registry: z.registry() });
+  return (row) => {
+    const result = zodSchema.safeParse(row);
+    if (result.success) return { ok: true, data: result.data };
+    const issues = result.error.issues
+      .slice(0, MAX_ISSUES_PER_ROW)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    return { ok: false, issues };
+  };
+}
+
+// ─── STREAM SCANNING ─────────────────────────────────────────────────────────
+
+/**
+ * Incremental scanner for the first JSON array in a text stream: feed it
+ * chunks and it returns the source of each element once the element is
+ * complete. Brackets inside strings are ignored, so it copes with any
+ * `{ "mockData": [ ... ] }` or bare `[ ... ]` reply.
+ */
+export function createArrayElementScanner(): (chunk: string) => string[] {
+  let depth = 0;
+  let arrayDepth = 0;
+  let inString = false;
+  let escaped = false;
+  let closed = false;
+  let current = '';
+
+  return (chunk) => {
+    const elements: string[] = [];
+    const flush = () => {
+      const text = current.trim();
+      if (text) elements.push(text);
+      current = '';
+    };
+
+    for (const char of chunk) {
+      if (closed) break;
+      const inArray = arrayDepth > 0 && depth >= arrayDepth;
+
+      if (inString) {
+        if (inArray) current += char;
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+        if (inArray) current += char;
+      } else if (char === '[' || char === '{') {
+        depth++;
+        if (!arrayDepth && char === '[') arrayDepth = depth;
+        else if (arrayDepth && depth > arrayDepth) current += char;
+      } else if (char === ']' || char === '}') {
+        if (arrayDepth && depth === arrayDepth) {
+          flush();
+          closed = true;
+        } else if (inArray) {
+          current += char;
+        }
+        depth--;
+      } else if (arrayDepth && depth === arrayDepth && char === ',') {
+        flush();
+      } else if (inArray) {
+        current += char;
+      }
+    }
+    return elements;
+  };
+}
+
+// ─── MODEL CALLS ─────────────────────────────────────────────────────────────
+
+function schemaLine(schema: Record<string, unknown> | undefined): string {
+  return schema ? `Every record must match this JSON Schema: ${JSON.stringify(schema)}` : '';
+}
+
+/**
+ * Ask the model to rewrite locally generated records with more realistic
+ * values. Keys, types and enum values are part of the schema, so they stay.
+ */
+function enrichMessage(records: unknown[], context: string, schema?: Record<string, unknown>): string {
+  return [
+    `Rewrite these ${records.length} records with realistic, varied values.`,
+    'Keep every key, every value type, null values and enum values exactly as they are; return them in the same order.',
+    context ? `Context: ${context}` : '',
+    schemaLine(schema),
+    JSON.stringify(records),
+  ].filter(Boolean).join('\n');
+}
+
+function generateMessage(count: number, prompt: string, schema?: Record<string, unknown>): string {
+  return [`Generate ${count} records: ${prompt}`, schemaLine(schema)].filter(Boolean).join('\n');
+}
+
+function repairMessage(invalid: InvalidRow[], schema?: Record<string, unknown>): string {
+  return [
+    `Fix these ${invalid.length} records so they pass validation. Return all of them, corrected, in the same order.`,
+    ...invalid.map(({ issues }, i) => `Record ${i + 1}: ${issues.join('; ')}`),
+    schemaLine(schema),
+    JSON.stringify(invalid.map(({ row }) => row)),
+  ].filter(Boolean).join('\n');
+}
+
+/** Stream one model reply and yield each array element as it completes; unparseable ones are skipped */
+async function* streamRows(model: LanguageModel, prompt: string, signal?: AbortSignal): AsyncGenerator<unknown> {
+  const timeout = AbortSignal.timeout(CALL_TIMEOUT_MS);
+  const result = streamText({
+    model,
+    output: Output.json(),
+    temperature: 0.8,
+    system: SYSTEM_PROMPT,
+    prompt,
+    abortSignal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+  });
+
+  const scan = createArrayElementScanner();
+  for await (const part of result.fullStream) {
+    if (part.type === 'error') throw part.error;
+    if (part.type !== 'text-delta') continue;
+    for (const element of scan(part.text)) {
+      try {
+        yield JSON.parse(element);
+      } catch {
+        // A malformed element counts as missing and is asked for again
+      }
+    }
+  }
+}
+
+// ─── PIPELINE ────────────────────────────────────────────────────────────────
+
+/**
+ * Generate (or enrich) `rowCount` rows, yielding each valid row as soon as
+ * it is known. Rows still invalid or missing after `MAX_REPAIR_ATTEMPTS`
+ * rounds are reported as `dropped`. Model errors are thrown.
+ */
+export async function* generateMockRows(request: MockRowsRequest): AsyncGenerator<MockRowEvent> {
+  const { model, prompt, records, schema, validate, signal } = request;
+  const total = records ? records.length : request.rowCount;
+  let emitted = 0;
+  let repaired = 0;
+  /** Records already sent back by the model (enrich mode asks for the rest) */
+  let received = 0;
+  let invalid: InvalidRow[] = [];
+
+  yield { type: 'start', total };
+
+  const collect = async function* (message: string, isRepair: boolean): AsyncGenerator<MockRowEvent> {
+    for await (const row of streamRows(model, message, signal)) {
+      if (!isRepair) received++;
+      if (emitted >= total) continue;
+      const check = validate(row);
+      if (!check.ok) {
+        invalid.push({ row, issues: check.issues });
+        continue;
+      }
+      if (isRepair) repaired++;
+      yield { type: 'row', index: emitted++, data: check.data, ...(isRepair && { repaired: true }) };
+    }
+  };
+
+  yield* collect(records ? enrichMessage(records, prompt, schema) : generateMessage(total, prompt, schema), false);
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && emitted < total; attempt++) {
+    const toRepair = invalid.slice(0, total - emitted);
+    const missing = Math.max(0, total - emitted - toRepair.length);
+    yield { type: 'repair', attempt, invalid: toRepair.length, missing };
+    invalid = [];
+
+    if (toRepair.length > 0) yield* collect(repairMessage(toRepair, schema), true);
+    const rest = records?.slice(received, received + missing);
+    if (rest && rest.length > 0) yield* collect(enrichMessage(rest, prompt, schema), false);
+    else if (!records && missing > 0) yield* collect(generateMessage(missing, prompt, schema), false);
+  }
+
+  yield { type: 'done', rows: emitted, repaired, dropped: total - emitted };
+}
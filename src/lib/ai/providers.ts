@@ -0,0 +1,99 @@
+// src/lib/ai/providers.ts
+// ─── LLM Providers ───────────────────────────────────────────────────────────
+// Picks the language model behind the AI endpoints from environment config,
+// so a deployment can use OpenAI, Anthropic or any OpenAI-compatible server
+// (Ollama, llama.cpp, vLLM, LM Studio, or a stand-in server in tests) without
+// code changes.
+//
+//   AI_PROVIDER   openai | anthropic | openai-compatible
+//                 (default: openai, or anthropic when only ANTHROPIC_API_KEY is set)
+//   AI_MODEL      model id (default per provider)
+//   AI_BASE_URL   API root; required for openai-compatible
+//   AI_API_KEY    key for any provider; falls back to OPENAI_API_KEY / ANTHROPIC_API_KEY
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const AI_PROVIDERS = ['openai', 'anthropic', 'openai-compatible'] as const;
+
+const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-5',
+  'openai-compatible': 'llama3.1',
+};
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type AIProviderName = (typeof AI_PROVIDERS)[number];
+
+/** The environment variables read by `resolveAIConfig` */
+export interface AIEnv {
+  AI_PROVIDER?: string;
+  AI_MODEL?: string;
+  AI_BASE_URL?: string;
+  AI_API_KEY?: string;
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+}
+
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+// ─── CONFIG ──────────────────────────────────────────────────────────────────
+
+/** Errors from here are named `AIConfigError` so routes can tell them from call failures */
+function configError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'AIConfigError';
+  return error;
+}
+
+function isProviderName(value: string): value is AIProviderName {
+  return (AI_PROVIDERS as readonly string[]).includes(value);
+}
+
+/** Read the provider settings from `env`; throws an `AIConfigError` when they are unusable */
+export function resolveAIConfig(env: AIEnv): AIProviderConfig {
+  const requested = env.AI_PROVIDER?.trim().toLowerCase();
+  const provider = requested || (env.ANTHROPIC_API_KEY && !env.OPENAI_API_KEY ? 'anthropic' : 'openai');
+  if (!isProviderName(provider)) {
+    throw configError(`Unknown AI_PROVIDER "${provider}" — expected one of ${AI_PROVIDERS.join(', ')}`);
+  }
+
+  const model = env.AI_MODEL?.trim() || DEFAULT_MODELS[provider];
+  const baseURL = env.AI_BASE_URL?.trim() || undefined;
+  const apiKey =
+    env.AI_API_KEY ||
+    (provider === 'openai' ? env.OPENAI_API_KEY : provider === 'anthropic' ? env.ANTHROPIC_API_KEY : undefined);
+
+  if (provider === 'openai-compatible' && !baseURL) {
+    throw configError('AI_BASE_URL is required for the openai-compatible provider');
+  }
+  if (provider !== 'openai-compatible' && !apiKey) {
+    throw configError(`No API key for ${provider} — set AI_API_KEY or ${provider === 'openai' ? 'OPENAI' : 'ANTHROPIC'}_API_KEY`);
+  }
+  return { provider, model, baseURL, apiKey };
+}
+
+// ─── MODELS ──────────────────────────────────────────────────────────────────
+
+export function createLanguageModel(config: AIProviderConfig): LanguageModel {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAI({ apiKey: config.apiKey, baseURL: config.baseURL })(config.model);
+    case 'anthropic':
+      return createAnthropic({ apiKey: config.apiKey, baseURL: config.baseURL })(config.model);
+    case 'openai-compatible':
+      // Local servers implement Chat Completions, not the Responses API.
+      // Most ignore the key, but the client refuses to send a request without one.
+      return createOpenAI({ apiKey: config.apiKey ?? 'not-needed', baseURL: config.baseURL, name: 'openai-compatible' }).chat(config.model);
+  }
+}
@@ -0,0 +1,170 @@
+// src/lib/ai/rateLimit.ts
+// ─── Rate Limiting ───────────────────────────────────────────────────────────
+// Per-client token buckets for the AI endpoints, so nobody can burn through
+// the provider quota. Each request takes one token; tokens refill at a steady
+// rate up to the bucket's capacity. Bucket state lives in a pluggable store:
+// in memory for `astro dev` and tests, Cloudflare KV in production when the
+// RATE_LIMIT binding from wrangler.jsonc is present.
+//
+//   RATE_LIMIT_CAPACITY         burst size (default 5)
+//   RATE_LIMIT_REFILL_SECONDS   seconds per refilled token (default 12, i.e. 5/min)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const DEFAULT_CAPACITY = 5;
+
+const DEFAULT_REFILL_SECONDS = 12;
+
+/** Buckets kept by the in-memory store before idle ones are evicted */
+const MAX_MEMORY_BUCKETS = 10_000;
+
+/** Cloudflare KV rejects expiration TTLs below a minute */
+const MIN_KV_TTL_SECONDS = 60;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** The environment variables read by `resolveRateLimit` */
+export interface RateLimitEnv {
+  RATE_LIMIT_CAPACITY?: string;
+  RATE_LIMIT_REFILL_SECONDS?: string;
+}
+
+export interface RateLimitConfig {
+  /** Tokens a full bucket holds — the largest burst allowed */
+  capacity: number;
+  /** Seconds until one spent token is back */
+  refillSeconds: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  /** Epoch milliseconds the token count was computed at */
+  updatedAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until the next token; 0 when the request was allowed */
+  retryAfter: number;
+}
+
+/** Where bucket state is kept; `take` spends one token from the bucket at `key` */
+export interface RateLimitStore {
+  take(key: string, config: RateLimitConfig, now: number): Promise<RateLimitDecision>;
+}
+
+/** The slice of a Cloudflare `KVNamespace` binding the KV store uses */
+export interface KVNamespaceLike {
+  get(key: string, type: 'json'): Promise<unknown>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+// ─── CONFIG ──────────────────────────────────────────────────────────────────
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Read the bucket settings from `env`; unset or invalid values fall back to the defaults */
+export function resolveRateLimit(env: RateLimitEnv): RateLimitConfig {
+  return {
+    capacity: Math.floor(positiveNumber(env.RATE_LIMIT_CAPACITY, DEFAULT_CAPACITY)) || 1,
+    refillSeconds: positiveNumber(env.RATE_LIMIT_REFILL_SECONDS, DEFAULT_REFILL_SECONDS),
+  };
+}
+
+// ─── TOKEN BUCKET ────────────────────────────────────────────────────────────
+
+/**
+ * Refill `state` up to `now` and try to spend one token. A missing state is
+ * a full bucket. Returns the decision and the state to store back.
+ */
+export function takeToken(
+  state: BucketState | null,
+  config: RateLimitConfig,
+  now: number,
+): { decision: RateLimitDecision; state: BucketState } {
+  const elapsed = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const tokens = state ? Math.min(config.capacity, state.tokens + elapsed / config.refillSeconds) : config.capacity;
+
+  if (tokens >= 1) {
+    return {
+      decision: { allowed: true, remaining: Math.floor(tokens - 1), retryAfter: 0 },
+      state: { tokens: tokens - 1, updatedAt: now },
+    };
+  }
+  return {
+    decision: { allowed: false, remaining: 0, retryAfter: Math.max(1, Math.ceil((1 - tokens) * config.refillSeconds)) },
+    state: { tokens, updatedAt: now },
+  };
+}
+
+/** Seconds until an untouched bucket is full again — after that its state can be forgotten */
+function fullAfterSeconds(config: RateLimitConfig): number {
+  return Math.ceil(config.capacity * config.refillSeconds);
+}
+
+// ─── STORES ──────────────────────────────────────────────────────────────────
+
+/**
+ * Buckets in a Map. Exact within one process, so right for `astro dev` and
+ * tests; on Workers every isolate has its own, which makes it a best-effort
+ * fallback only.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+
+  return {
+    async take(key, config, now) {
+      if (buckets.size >= MAX_MEMORY_BUCKETS && !buckets.has(key)) {
+        const idleBefore = now - fullAfterSeconds(config) * 1000;
+        for (const [k, bucket] of buckets) {
+          if (bucket.updatedAt < idleBefore) buckets.delete(k);
+        }
+        // Everyone is active: drop the oldest entries (Map keeps insertion order)
+        for (const k of buckets.keys()) {
+          if (buckets.size < MAX_MEMORY_BUCKETS) break;
+          buckets.delete(k);
+        }
+      }
+      const { decision, state } = takeToken(buckets.get(key) ?? null, config, now);
+      buckets.delete(key);
+      buckets.set(key, state);
+      return decision;
+    },
+  };
+}
+
+/**
+ * Buckets in Cloudflare KV, shared by every isolate. KV has no atomic
+ * read-modify-write and is eventually consistent across locations, so a
+ * burst of parallel requests can slip a few extra tokens through — fine for
+ * abuse protection, not for billing. Entries expire once the bucket would be full.
+ */
+export function createKVStore(kv: KVNamespaceLike, prefix = 'rate-limit:'): RateLimitStore {
+  return {
+    async take(key, config, now) {
+      const stored = (await kv.get(prefix + key, 'json')) as BucketState | null;
+      const valid = stored && typeof stored.tokens === 'number' && typeof stored.updatedAt === 'number' ? stored : null;
+      const { decision, state } = takeToken(valid, config, now);
+      await kv.put(prefix + key, JSON.stringify(state), {
+        expirationTtl: Math.max(MIN_KV_TTL_SECONDS, fullAfterSeconds(config)),
+      });
+      return decision;
+    },
+  };
+}
+
+/** Duck-type check for a KV binding on the Workers `env` */
+export function isKVNamespace(value: unknown): value is KVNamespaceLike {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as KVNamespaceLike).get === 'function' &&
+    typeof (value as KVNamespaceLike).put === 'function'
+  );
+}
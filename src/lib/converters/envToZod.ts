@@ -1,4 +1,4 @@
-// src/utils/envToZod.ts
+// src/lib/converters/envToZod.ts
 // ─── Env-to-Zod Converter ───────────────────────────────────────────────────
 // Converts raw .env file contents into a strict, type-safe Zod validation
 // schema. All processing is 100% client-side — no data ever leaves the browser.
@@ -11,6 +11,8 @@
 //   Step 3 — Generator:   Builds the final TypeScript + Zod source string.
 // ─────────────────────────────────────────────────────────────────────────────
 
+import { createResult, type ConversionResult } from './types';
+
 // ─── CONSTANTS ───────────────────────────────────────────────────────────────
 
 /** Maximum input size in characters (~500 KB) before we warn about perf */
@@ -33,13 +35,9 @@ interface EnvToken {
 }
 
 /** Result returned by the public `generateZodEnvSchema` API */
-export interface EnvConversionResult {
-  /** Full generated TypeScript + Zod code */
-  code: string;
+export interface EnvConversionResult extends ConversionResult {
   /** Number of parsed variables */
   count: number;
-  /** Non-fatal diagnostic messages */
-  warnings: string[];
 }
 
 // ─── HELPERS ─────────────────────────────────────────────────────────────────
@@ -244,9 +242,11 @@ export function generateZodEnvSchema(rawEnv: string): EnvConversionResult {
 
   if (tokens.length === 0) {
     return {
-      code: '// No valid environment variables found.\n// Paste your .env file contents on the left.',
+      ...createResult(
+        '// No valid environment variables found.\n// Paste your .env file contents on the left.',
+        warnings,
+      ),
       count: 0,
-      warnings,
     };
   }
 
@@ -290,5 +290,5 @@ export const env = envSchema.parse(process.env);
 // instead of using \`process.env\` directly.
 `;
 
-  return { code, count: tokens.length, warnings };
+  return { ...createResult(code, warnings), count: tokens.length };
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+// src/lib/converters/graphqlToTrpc.ts
+// ─── GraphQL-to-tRPC Converter ───────────────────────────────────────────────
+// Scaffolds a tRPC `appRouter` from the `Query` and `Mutation` blocks of a
+// GraphQL schema. Field arguments become Zod `.input()` validators.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+
+// ─── Zero-Dependency Parser Logic ────────────────────────────────────────────
+
+function mapTypeToZod(gqlType: string): string {
+  const isRequired = gqlType.endsWith('!');
+  const cleanType = gqlType.replace(/!/g, '').replace(/\[|\]/g, '');
+  
+  let zodType: string;
+  if (cleanType === 'String' || cleanType === 'ID') zodType = 'z.string()';
+  else if (cleanType === 'Int' || cleanType === 'Float') zodType = 'z.number()';
+  else if (cleanType === 'Boolean') zodType = 'z.boolean()';
+  else zodType = 'z.any()'; // Fallback for custom objects
+  
+  if (gqlType.includes('[')) zodType = `z.array(${zodType})`;
+  return isRequired ? zodType : `${zodType}.optional()`;
+}
+
+function parseArguments(argString: string): string {
+  if (!argString) return '';
+  const args = argString.split(',').map(a => a.trim());
+  const zodFields = args.map(arg => {
+    const [name, type] = arg.split(':').map(s => s.trim());
+    return `${name}: ${mapTypeToZod(type)}`;
+  });
+  return `z.object({ ${zodFields.join(', ')} })`;
+}
+
+function generateTrpcRouter(schema: string): string {
+  const routes: string[] = [];
+  
+  // Very basic regex to extract Query and Mutation blocks
+  const blockRegex = /type\s+(Query|Mutation)\s*{([^}]+)}/g;
+  let match;
+
+  while ((match = blockRegex.exec(schema)) !== null) {
+    const isMutation = match[1] === 'Mutation';
+    const methodType = isMutation ? 'mutation' : 'query';
+    const fieldsBlock = match[2];
+    
+    const fieldRegex = /(\w+)(?:\(([^)]+)\))?\s*:\s*([^ \n]+)/g;
+    let fieldMatch;
+
+    while ((fieldMatch = fieldRegex.exec(fieldsBlock)) !== null) {
+      const fieldName = fieldMatch[1];
+      const args = fieldMatch[2];
+      const returnType = fieldMatch[3];
+
+      let routeStr = `  ${fieldName}: publicProcedure\n`;
+      if (args) {
+        routeStr += `    .input(${parseArguments(args)})\n`;
+      }
+      routeStr += `    .${methodType}(async ({ input }) => {\n      // TODO: Return ${returnType}\n      return null as any;\n    }),`;
+      routes.push(routeStr);
+    }
+  }
+
+  if (routes.length === 0) {
+    return '// Waiting for type Query or type Mutation...';
+  }
+
+  return `import { z } from 'zod';\nimport { router, publicProcedure } from './trpc';\n\nexport const appRouter = router({\n${routes.join('\n\n')}\n});\n\nexport type AppRouter = typeof appRouter;`;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/** Generates a tRPC router with one procedure per `Query` / `Mutation` field. */
+export function convertGraphqlToTrpc(schema: string): ConversionResult {
+  if (!schema.trim()) return createResult('');
+  try {
+    return createResult(generateTrpcRouter(schema));
+  } catch (err) {
+    return createErrorResult(
+      err instanceof Error ? err.message : String(err),
+      '// Error parsing schema. Please ensure it is valid GraphQL.',
+    );
+  }
+}
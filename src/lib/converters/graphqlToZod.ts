@@ -0,0 +1,213 @@
+// src/lib/converters/graphqlToZod.ts
+// ─── GraphQL-to-Zod Converter ───────────────────────────────────────────────
+// Turns GraphQL SDL `type`, `input` and `enum` definitions into Zod schemas.
+// Enums are emitted first so object schemas can reference them.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+
+// ─── SCALAR MAP ─────────────────────────────────────────────────────────────
+
+const SCALAR_MAP: Record<string, string> = {
+  String: 'z.string()',
+  Int: 'z.number()',
+  Float: 'z.number()',
+  Boolean: 'z.boolean()',
+  ID: 'z.string()',
+};
+
+// ─── PARSER TYPES ───────────────────────────────────────────────────────────
+
+interface ParsedField {
+  name: string;
+  typeExpr: string;
+}
+
+interface ParsedTypeBlock {
+  kind: 'type' | 'input';
+  name: string;
+  fields: ParsedField[];
+}
+
+interface ParsedEnumBlock {
+  kind: 'enum';
+  name: string;
+  values: string[];
+}
+
+type ParsedBlock = ParsedTypeBlock | ParsedEnumBlock;
+
+// ─── COMMENT STRIPPING ─────────────────────────────────────────────────────
+
+function stripComments(gql: string): string {
+  // Remove triple-quoted docstrings, then single-line # comments
+  return gql
+    .replace(/"""[\s\S]*?"""/g, '')
+    .replace(/#[^\n]*/g, '');
+}
+
+// ─── RECURSIVE TYPE EXPRESSION PARSER ───────────────────────────────────────
+
+/**
+ * Recursively converts a GraphQL type expression to its Zod equivalent.
+ *
+ * Examples:
+ *   String!        → z.string()
+ *   String         → z.string().optional()
+ *   [String!]!     → z.array(z.string())
+ *   [String!]      → z.array(z.string()).optional()
+ *   [String]!      → z.array(z.string().optional())
+ *   Role!          → RoleSchema
+ *   Role           → RoleSchema.optional()
+ */
+function parseTypeExpr(typeStr: string, knownEnums: Set<string>): string {
+  typeStr = typeStr.trim();
+
+  // Check if the outermost level is non-null (required)
+  const isRequired = typeStr.endsWith('!');
+  if (isRequired) typeStr = typeStr.slice(0, -1);
+
+  let zodType: string;
+
+  if (typeStr.startsWith('[') && typeStr.endsWith(']')) {
+    // Array type — recurse on inner type
+    const inner = typeStr.slice(1, -1).trim();
+    zodType = `z.array(${parseTypeExpr(inner, knownEnums)})`;
+  } else if (SCALAR_MAP[typeStr]) {
+    // Built-in scalar
+    zodType = SCALAR_MAP[typeStr];
+  } else if (knownEnums.has(typeStr)) {
+    // Known enum reference
+    zodType = `${typeStr}Schema`;
+  } else {
+    // Custom object type reference
+    zodType = `${typeStr}Schema`;
+  }
+
+  return isRequired ? zodType : `${zodType}.optional()`;
+}
+
+// ─── BLOCK EXTRACTOR ────────────────────────────────────────────────────────
+
+/**
+ * Extracts top-level type, input, and enum blocks from GraphQL SDL using
+ * balanced-brace scanning (not regex-only) to handle nested braces safely.
+ */
+function extractBlocks(gql: string): ParsedBlock[] {
+  const stripped = stripComments(gql);
+  const blocks: ParsedBlock[] = [];
+
+  // Match the opening of each block (supports `implements` for types)
+  const blockPattern =
+    /\b(type|input|enum)\s+(\w+)(?:\s+implements\s+[\w&\s,]+)?\s*\{/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockPattern.exec(stripped)) !== null) {
+    const kind = match[1] as 'type' | 'input' | 'enum';
+    const name = match[2];
+    const openBraceIdx = match.index + match[0].length - 1;
+
+    // Balanced-brace scan to find the closing }
+    let depth = 1;
+    let pos = openBraceIdx + 1;
+    while (pos < stripped.length && depth > 0) {
+      if (stripped[pos] === '{') depth++;
+      else if (stripped[pos] === '}') depth--;
+      pos++;
+    }
+
+    const body = stripped.slice(openBraceIdx + 1, pos - 1).trim();
+
+    if (kind === 'enum') {
+      const values = body
+        .split(/[\n,]+/)
+        .map((v) => v.trim())
+        .filter((v) => v && !v.startsWith('#'));
+      blocks.push({ kind: 'enum', name, values });
+    } else {
+      // Parse fields for type / input blocks
+      const fields: ParsedField[] = [];
+      const lines = body.split('\n');
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+
+        // fieldName(args): ReturnType  — arguments discarded
+        const fieldMatch = trimmed.match(
+          /^(\w+)\s*(?:\([^)]*\)\s*)?:\s*(.+)$/,
+        );
+        if (fieldMatch) {
+          fields.push({
+            name: fieldMatch[1],
+            typeExpr: fieldMatch[2].trim(),
+          });
+        }
+      }
+
+      blocks.push({ kind, name, fields });
+    }
+  }
+
+  return blocks;
+}
+
+// ─── CODE GENERATOR ─────────────────────────────────────────────────────────
+
+export function convertGraphqlToZod(input: string): ConversionResult {
+  const trimmed = input.trim();
+  if (!trimmed) return createResult('');
+
+  // Quick validation — must contain at least one definition keyword
+  if (!/\b(type|input|enum)\s+\w+/i.test(trimmed)) {
+    return createErrorResult(
+      'No GraphQL type, input, or enum definitions found.',
+    );
+  }
+
+  try {
+    const blocks = extractBlocks(trimmed);
+    if (blocks.length === 0) {
+      return createErrorResult('Could not parse any GraphQL definitions.');
+    }
+
+    // Collect known enum names so parseTypeExpr can reference them
+    const knownEnums = new Set<string>();
+    for (const block of blocks) {
+      if (block.kind === 'enum') knownEnums.add(block.name);
+    }
+
+    const parts: string[] = ["import { z } from 'zod';"];
+
+    // Enums first (they're referenced by types / inputs)
+    for (const block of blocks) {
+      if (block.kind !== 'enum') continue;
+      const enumBlock = block as ParsedEnumBlock;
+      const values = enumBlock.values.map((v) => `"${v}"`).join(', ');
+      parts.push(
+        `\nexport const ${enumBlock.name}Schema = z.enum([${values}]);`,
+      );
+    }
+
+    // Types and inputs
+    for (const block of blocks) {
+      if (block.kind === 'enum') continue;
+      const typeBlock = block as ParsedTypeBlock;
+
+      const fields = typeBlock.fields.map((f) => {
+        const zodExpr = parseTypeExpr(f.typeExpr, knownEnums);
+        return `  ${f.name}: ${zodExpr},`;
+      });
+
+      parts.push(
+        `\nexport const ${typeBlock.name}Schema = z.object({\n${fields.join('\n')}\n});`,
+      );
+    }
+
+    return createResult(parts.join('\n'));
+  } catch (e) {
+    return createErrorResult(
+      `Parse error: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+}
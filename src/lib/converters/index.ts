@@ -0,0 +1,44 @@
+// src/lib/converters/index.ts
+// ─── Converter Cores ─────────────────────────────────────────────────────────
+// Headless entry point for every schema/code converter. Each module also
+// exports its own input limits; import those from the module directly since
+// several share a name (e.g. `MAX_INPUT_LENGTH`).
+//
+// `tsToZodAst` is deliberately not re-exported: it bundles the TypeScript
+// compiler and must only be imported from a worker or from Node.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type { ConversionResult, Diagnostic, DiagnosticSeverity } from './types';
+export { createResult, createErrorResult, getErrorMessage, hasErrors } from './types';
+
+export { generateZodEnvSchema, type EnvConversionResult } from './envToZod';
+export { convertGraphqlToTrpc } from './graphqlToTrpc';
+export { convertGraphqlToZod } from './graphqlToZod';
+export { convertJsonSchemaToTs } from './jsonSchemaToTs';
+export { convertJsonSchemaToZod } from './jsonSchemaToZod';
+export { convertJsonToZod } from './jsonToZod';
+export {
+  convertOpenAPIToExpress,
+  SERVER_FRAMEWORKS,
+  type OpenAPIToExpressOptions,
+  type ServerFramework,
+} from './openapiToExpress';
+export { convertOpenAPIToZod, type OpenAPIToZodOptions } from './openapiToZod';
+export { convertPrismaToZod } from './prismaToZod';
+export { convertPydanticToZod, type JsonSchemaNode } from './pydanticToZod';
+export { convertSqlToJson, type SqlOutputTarget, type SqlToJsonOptions } from './sqlToJson';
+export { convertSqlToPrisma } from './sqlToPrisma';
+export { convertSvgToJsx, type SvgToJsxOptions } from './svgToJsx';
+export { convertTailwindToCss, type TailwindToCssOptions } from './tailwindToCss';
+export { convertTrpcToOpenapi } from './trpcToOpenapi';
+export { convertTsToJsonSchema } from './tsToJsonSchema';
+export { convertTsToZod } from './tsToZod';
+export { convertZodToJsonSchema, type JsonSchemaDialect, type ZodToJsonSchemaOptions } from './zodToJsonSchema';
+export { convertZodToPrompt, type ZodPromptOptions, type ZodPromptResult } from './zodToPrompt';
+export {
+  convertZodToStructuredOutput,
+  type StructuredOutputOptions,
+  type StructuredOutputProvider,
+} from './zodToStructuredOutput';
+export { convertZodToTs } from './zodToTs';
+export { parseZodFields, parseZodSchemas, type ParsedField, type ZodNode } from './zodParser';
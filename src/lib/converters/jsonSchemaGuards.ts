@@ -0,0 +1,43 @@
+// src/lib/converters/jsonSchemaGuards.ts
+// ─── JSON Schema Input Guards ────────────────────────────────────────────────
+// Cheap pre-flight checks shared by the JSON Schema-input converters.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Cheap depth check — walks the parsed JSON tree iteratively to avoid
+ * a recursive stack-overflow when measuring depth itself.
+ */
+export function measureDepth(obj: unknown, limit: number): boolean {
+  const stack: Array<{ value: unknown; depth: number }> = [{ value: obj, depth: 0 }];
+
+  while (stack.length > 0) {
+    const { value, depth } = stack.pop()!;
+    if (depth > limit) return false; // exceeds
+    if (value !== null && typeof value === 'object') {
+      for (const v of Object.values(value as Record<string, unknown>)) {
+        stack.push({ value: v, depth: depth + 1 });
+      }
+    }
+  }
+  return true; // within limit
+}
+
+/**
+ * Lightweight heuristic: does this look like a JSON Schema?
+ * Avoids confusing output when someone pastes a package.json.
+ */
+export function looksLikeJsonSchema(obj: unknown): boolean {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const o = obj as Record<string, unknown>;
+  return (
+    'type' in o ||
+    'properties' in o ||
+    'allOf' in o ||
+    'oneOf' in o ||
+    'anyOf' in o ||
+    '$ref' in o ||
+    '$schema' in o ||
+    'items' in o ||
+    'enum' in o
+  );
+}
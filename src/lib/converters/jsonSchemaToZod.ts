@@ -0,0 +1,61 @@
+// src/lib/converters/jsonSchemaToZod.ts
+// ─── JSON Schema-to-Zod Converter ────────────────────────────────────────────
+// Thin, guarded wrapper around the `json-schema-to-zod` library: input size,
+// schema shape and nesting depth are all checked before the library runs.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { jsonSchemaToZod } from 'json-schema-to-zod';
+import { looksLikeJsonSchema, measureDepth } from './jsonSchemaGuards';
+import { createErrorResult, createResult, type ConversionResult } from './types';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Maximum input size in characters to prevent browser tab DoS */
+export const MAX_INPUT_LENGTH = 500_000; // ~500 KB
+/** Maximum JSON nesting depth to prevent stack overflow in the converter */
+const MAX_NESTING_DEPTH = 64;
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+/** Converts a JSON Schema document (as text) into a Zod schema expression. */
+export function convertJsonSchemaToZod(input: string): ConversionResult {
+  const trimmed = input.trim();
+  if (!trimmed) return createResult('');
+
+  // Guard: input size
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    const message = `Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)} KB limit. Please reduce the schema size.`;
+    return createErrorResult(message, `// Error: ${message}`);
+  }
+
+  let schema: unknown;
+  try {
+    schema = JSON.parse(trimmed);
+  } catch {
+    return createErrorResult('Invalid JSON', '// Invalid JSON — check for syntax errors above.');
+  }
+
+  // Guard: schema shape
+  if (!looksLikeJsonSchema(schema)) {
+    return createErrorResult(
+      'Input does not appear to be a JSON Schema.',
+      '// This doesn’t appear to be a JSON Schema.\n// Expected top-level "type", "properties", "$ref", etc.',
+    );
+  }
+
+  // Guard: nesting depth
+  if (!measureDepth(schema, MAX_NESTING_DEPTH)) {
+    return createErrorResult(
+      `Schema nesting exceeds ${MAX_NESTING_DEPTH} levels.`,
+      `// Error: Schema nesting exceeds ${MAX_NESTING_DEPTH} levels.\n// Flatten or split your schema to convert it safely.`,
+    );
+  }
+
+  try {
+    return createResult(jsonSchemaToZod(schema as Record<string, unknown>));
+  } catch (err) {
+    // Intentionally vague — don't leak internal library stack traces
+    const brief = err instanceof Error ? err.message.slice(0, 120) : 'Unknown error';
+    return createErrorResult(`Conversion failed: ${brief}`, `// Conversion failed: ${brief}`);
+  }
+}
@@ -0,0 +1,98 @@
+// src/lib/converters/jsonToZod.ts
+// ─── JSON-to-Zod Converter ───────────────────────────────────────────────────
+// Infers a Zod schema from a sample JSON value. Arrays with mixed item types
+// become unions; nesting beyond the depth limit degrades to z.any().
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Inputs above this size (~1MB) still convert, but with a warning */
+export const LARGE_INPUT_CHARS = 1_000_000;
+const DEPTH_LIMIT = 20;
+
+// ─── Type Inference Engine ───────────────────────────────────────────────────
+
+function inferZodType(value: unknown, depth = 0): { typeString: string; hitDepthLimit: boolean } {
+  if (depth > DEPTH_LIMIT) return { typeString: 'z.any()', hitDepthLimit: true }; // Prevent stack overflow
+
+  if (value === null) return { typeString: 'z.null()', hitDepthLimit: false };
+  if (value === undefined) return { typeString: 'z.undefined()', hitDepthLimit: false };
+
+  switch (typeof value) {
+    case 'string':  return { typeString: 'z.string()', hitDepthLimit: false };
+    case 'number':  
+      // Handle BigInt edge case implicitly by checking safe integer bounds
+      if (value > Number.MAX_SAFE_INTEGER || value < Number.MIN_SAFE_INTEGER) {
+        return { typeString: 'z.number({ message: "Unsafe integer range" })', hitDepthLimit: false };
+      }
+      return { typeString: Number.isInteger(value) ? 'z.number().int()' : 'z.number()', hitDepthLimit: false };
+    case 'boolean': return { typeString: 'z.boolean()', hitDepthLimit: false };
+    case 'bigint':  return { typeString: 'z.bigint()', hitDepthLimit: false };
+  }
+
+  let hitLimit = false;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return { typeString: 'z.array(z.unknown())', hitDepthLimit: false };
+
+    const itemResults = value.map((item) => inferZodType(item, depth + 1));
+    hitLimit = itemResults.some(r => r.hitDepthLimit);
+    
+    // Get unique types from the array
+    const itemTypes = [...new Set(itemResults.map(r => r.typeString))];
+    
+    // If all items are the same type, return array of that type
+    if (itemTypes.length === 1) return { typeString: `z.array(${itemTypes[0]})`, hitDepthLimit: hitLimit };
+
+    // If mixed types, create a union
+    return { typeString: `z.array(z.union([${itemTypes.join(', ')}]))`, hitDepthLimit: hitLimit };
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) return { typeString: 'z.object({})', hitDepthLimit: false };
+
+    const indent = '  '.repeat(depth + 1);
+    const closing = '  '.repeat(depth);
+
+    const fields = entries.map(([key, val]) => {
+      const safeKey = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : `"${key}"`;
+      const result = inferZodType(val, depth + 1);
+      if (result.hitDepthLimit) hitLimit = true;
+      return `${indent}${safeKey}: ${result.typeString}`;
+    });
+
+    return { typeString: `z.object({\n${fields.join(',\n')}\n${closing}})`, hitDepthLimit: hitLimit };
+  }
+
+  return { typeString: 'z.any()', hitDepthLimit: false };
+}
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+/** Parses `input` as JSON and emits a `Schema` constant plus its inferred type. */
+export function convertJsonToZod(input: string): ConversionResult {
+  if (!input.trim()) return createResult('');
+
+  const warnings: string[] = [];
+  if (input.length > LARGE_INPUT_CHARS) {
+    warnings.push('File is over 1MB. Processing may slow down your device.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch {
+    return createErrorResult('Invalid JSON');
+  }
+
+  const { typeString, hitDepthLimit } = inferZodType(parsed);
+  if (hitDepthLimit) {
+    warnings.push(`JSON is nested over ${DEPTH_LIMIT} levels deep. Deeper objects inferred as z.any().`);
+  }
+
+  const code = `import { z } from "zod";\n\nconst Schema = ${typeString};\n\ntype Schema = z.infer<typeof Schema>;`;
+  return createResult(code, warnings);
+}
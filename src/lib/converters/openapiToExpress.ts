@@ -0,0 +1,619 @@
+// src/lib/converters/openapiToExpress.ts
+// ─── OpenAPI-to-Server Converter ─────────────────────────────────────────────
+// Scaffolds a TypeScript server from an OpenAPI document (JSON or YAML, plus
+// any extra files its refs point into): one router per tag, Zod validation of
+// path / query / header parameters and JSON bodies, typed handler stubs, and
+// responses built from the spec's examples — or synthesized from the response
+// schema — sent with the documented status code.
+//
+// Component schemas are emitted once by the OpenAPI → Zod mapper and reused
+// by name. Express, Fastify and Hono share everything except the glue.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  HTTP_METHODS,
+  type HttpMethod,
+  type MediaTypeObject,
+  type ParameterObject,
+  type PathItemObject,
+  type ResponseObject,
+} from '../../utils/openapiParser';
+import { ENTRY_FILE, loadSpecBundle, resolveValue, type SpecBundle, type SpecFilesOptions } from '../../utils/openapiRefs';
+import { exampleForMedia } from '../../utils/openapiSample';
+import {
+  createSchemaContext,
+  declareComponentSchemas,
+  declareHoistedSchemas,
+  fallbackOperationId,
+  jsonContentSchema,
+  operationSchemaToZod,
+  sanitizePropertyKey,
+  toCamelCase,
+  type SchemaContext,
+} from './openapiToZod';
+import { createErrorResult, createResult, type ConversionResult } from './types';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const SERVER_FRAMEWORKS = ['express', 'fastify', 'hono'] as const;
+
+/** Request parts the generated middleware validates, in order */
+const REQUEST_PARTS = ['params', 'query', 'headers', 'body'] as const;
+
+const TYPE_SUFFIX: Record<RequestPart, string> = {
+  params: 'Params',
+  query: 'Query',
+  headers: 'Headers',
+  body: 'Body',
+};
+
+/** Request parts each framework's handler signature is typed with */
+const TYPED_PARTS: Record<ServerFramework, readonly RequestPart[]> = {
+  express: ['params', 'query', 'body'],
+  fastify: REQUEST_PARTS,
+  hono: [],
+};
+
+const REQUEST_SCHEMAS = `interface RequestSchemas {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  headers?: z.ZodType;
+  body?: z.ZodType;
+}`;
+
+/** Framework-specific imports, validation middleware and server bootstrap */
+const RUNTIME: Record<ServerFramework, { setup: string; validate: string }> = {
+  express: {
+    setup: `// npm install express zod && npm install -D @types/express tsx
+// npx tsx server.ts
+
+import express, { type NextFunction, type Request, type Response } from "express";
+import { z } from "zod";`,
+    validate: `${REQUEST_SCHEMAS}
+
+/** Parses each request part with its schema; responds 400 with the Zod issues on failure */
+function validate(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    for (const part of ["params", "query", "headers", "body"] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+      const result = schema.safeParse(req[part]);
+      if (!result.success) {
+        res.status(400).json({ error: \`Invalid request \${part}\`, issues: result.error.issues });
+        return;
+      }
+      // req.query is a getter in Express 5 — redefine rather than assign
+      Object.defineProperty(req, part, { value: result.data, writable: true, configurable: true, enumerable: true });
+    }
+    next();
+  };
+}`,
+  },
+  fastify: {
+    setup: `// npm install fastify zod && npm install -D tsx
+// npx tsx server.ts
+
+import Fastify, { type FastifyInstance, type FastifyReply, type FastifyRequest } from "fastify";
+import { z } from "zod";`,
+    validate: `${REQUEST_SCHEMAS}
+
+/** preHandler that parses each request part with its schema; replies 400 with the Zod issues on failure */
+function validate(schemas: RequestSchemas) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    for (const part of ["params", "query", "headers", "body"] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+      const result = schema.safeParse(request[part]);
+      if (!result.success) return reply.code(400).send({ error: \`Invalid request \${part}\`, issues: result.error.issues });
+      Object.assign(request, { [part]: result.data });
+    }
+  };
+}`,
+  },
+  hono: {
+    setup: `// npm install hono @hono/node-server zod && npm install -D tsx
+// npx tsx server.ts
+
+import { serve } from "@hono/node-server";
+import { Hono, type MiddlewareHandler } from "hono";
+import { cors } from "hono/cors";
+import { z } from "zod";`,
+    validate: `${REQUEST_SCHEMAS}
+
+/** The parsed request parts a route's schemas produce */
+type Validated<S> = { [K in keyof S & (typeof parts)[number]]: S[K] extends z.ZodType ? z.infer<S[K]> : never };
+
+type Env = { Variables: { valid: Record<string, unknown> } };
+
+const parts = ["params", "query", "headers", "body"] as const;
+
+/** Parses each request part with its schema into c.get("valid"); responds 400 with the Zod issues on failure */
+function validate(schemas: RequestSchemas): MiddlewareHandler<Env> {
+  return async (c, next) => {
+    const read = {
+      params: async () => c.req.param(),
+      // queries() keeps every value of a repeated key; single values are unwrapped as Express and Fastify do
+      query: async () => Object.fromEntries(Object.entries(c.req.queries()).map(([k, v]) => [k, v.length === 1 ? v[0] : v])),
+      headers: async () => c.req.header(),
+      body: () => c.req.json().catch(() => undefined),
+    };
+    const valid: Record<string, unknown> = {};
+    for (const part of parts) {
+      const schema = schemas[part];
+      if (!schema) continue;
+      const result = schema.safeParse(await read[part]());
+      if (!result.success) return c.json({ error: \`Invalid request \${part}\`, issues: result.error.issues }, 400);
+      valid[part] = result.data;
+    }
+    c.set("valid", valid);
+    await next();
+  };
+}`,
+  },
+};
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type ServerFramework = (typeof SERVER_FRAMEWORKS)[number];
+
+export interface OpenAPIToExpressOptions extends SpecFilesOptions {
+  /** Framework to scaffold for (default `express`) */
+  framework?: ServerFramework;
+}
+
+type RequestPart = (typeof REQUEST_PARTS)[number];
+
+/** Everything the emitters need to know about one operation */
+interface Route {
+  name: string;
+  typeBase: string;
+  method: HttpMethod;
+  /** Framework path with `:param` segments */
+  routePath: string;
+  doc: string[];
+  /** Zod expression per validated request part */
+  parts: Partial<Record<RequestPart, string>>;
+  status: number;
+  /** Zod expression of the JSON response; `null` when not JSON or empty */
+  responseZod: string | null;
+  /** `null` for responses without content */
+  contentType: string | null;
+  example: unknown;
+}
+
+interface RouteGroup {
+  tag: string;
+  ident: string;
+  routes: Route[];
+}
+
+interface RouteContext {
+  schemas: SchemaContext;
+  taken: Set<string>;
+  warnings: string[];
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function jsString(text: string): string {
+  return JSON.stringify(text);
+}
+
+/** What a non-exploded query array is joined with, as the generated client sends it; null when repeated */
+function queryDelimiter(param: ParameterObject): string | null {
+  if (param.in !== 'query') return null;
+  const style = param.style ?? 'form';
+  if (style === 'form') return param.explode === false ? ',' : null;
+  return style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : null;
+}
+
+/** Path, query and header values arrive as strings — coerce numbers, booleans and arrays, splitting on `delimiter` */
+function fromWire(zod: string, delimiter: string | null = null): string {
+  if (zod.startsWith('z.number()')) return zod.replace('z.number()', 'z.coerce.number()');
+  if (zod.startsWith('z.boolean()')) return zod.replace('z.boolean()', 'z.enum(["true", "false"]).transform((v) => v === "true")');
+  if (zod.startsWith('z.array(')) {
+    // Split `z.array(ITEMS)REST` at the paren that closes the call
+    let depth = 0;
+    let end = 'z.array'.length;
+    for (; end < zod.length; end++) {
+      if (zod[end] === '(') depth++;
+      else if (zod[end] === ')' && --depth === 0) break;
+    }
+    const items = fromWire(zod.slice('z.array('.length, end));
+    const wrap = delimiter === null ? '(v === undefined || Array.isArray(v) ? v : [v])' : `(typeof v === "string" ? v.split(${jsString(delimiter)}) : v)`;
+    return `z.preprocess((v) => ${wrap}, z.array(${items}))${zod.slice(end + 1)}`;
+  }
+  return zod;
+}
+
+/** `200`, `2XX` → 200, `default` → 200 */
+function statusCode(key: string): number {
+  if (/^\d{3}$/.test(key)) return Number(key);
+  if (/^[1-5]XX$/i.test(key)) return Number(key[0]) * 100;
+  return 200;
+}
+
+/** JSON media type when there is one, else the first declared type */
+function pickMedia(content: Record<string, MediaTypeObject> | undefined): { type: string; media: MediaTypeObject } | null {
+  const types = Object.keys(content ?? {});
+  if (types.length === 0) return null;
+  const type = types.find((t) => /^application\/(?:[\w.-]+\+)?json\b/.test(t) || t === '*/*') ?? types[0];
+  return { type, media: content![type] };
+}
+
+/** Base path of the first server, e.g. `https://api.example.com/v1` → `/v1` */
+function mountPath(bundle: SpecBundle): string {
+  const url = bundle.spec.servers?.[0]?.url;
+  if (!url || url.includes('{')) return '';
+  try {
+    const path = new URL(url, 'http://localhost').pathname.replace(/\/+$/, '');
+    return path === '' ? '' : path;
+  } catch {
+    return '';
+  }
+}
+
+/** `value` as a TS literal (bare keys where possible), continuation lines indented by `indent` */
+function literal(value: unknown, indent: string): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map((item) => `${indent}  ${literal(item, `${indent}  `)},`).join('\n')}\n${indent}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    const lines = entries.map(([key, item]) => `${indent}  ${sanitizePropertyKey(key)}: ${literal(item, `${indent}  `)},`);
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function zodObject(fields: string[], suffix = ''): string {
+  return `z.object({\n${fields.join('\n')}\n  })${suffix}`;
+}
+
+// ─── ROUTE EXTRACTION ────────────────────────────────────────────────────────
+
+function buildRoute(
+  method: HttpMethod,
+  path: string,
+  operation: NonNullable<PathItemObject[HttpMethod]>,
+  pathItem: { value: PathItemObject; file: string },
+  ctx: RouteContext,
+): Route {
+  const { bundle } = ctx.schemas;
+  const file = pathItem.file;
+  const label = `${method.toUpperCase()} ${path}`;
+  const warn = (message: string) => ctx.warnings.push(`${label}: ${message}`);
+
+  // ── Name ──
+  let name = operation.operationId ? toCamelCase(operation.operationId) : fallbackOperationId(method, path);
+  if (ctx.taken.has(name)) {
+    let n = 2;
+    while (ctx.taken.has(`${name}${n}`)) n++;
+    warn(`${name} already exists — renamed to ${name}${n}`);
+    name = `${name}${n}`;
+  }
+  ctx.taken.add(name);
+
+  // ── Parameters (operation-level overrides path-level by name + location) ──
+  const byKey = new Map<string, { value: ParameterObject; file: string }>();
+  for (const raw of [...(pathItem.value.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const resolved = resolveValue(bundle, raw, file, warn);
+    if (resolved?.value.name) byKey.set(`${resolved.value.in}:${resolved.value.name}`, resolved);
+  }
+
+  const fields: Record<'params' | 'query' | 'headers', string[]> = { params: [], query: [], headers: [] };
+  let routePath = path;
+  let rawQueryKeys = false;
+  for (const { value: param, file: paramFile } of byKey.values()) {
+    if (param.in === 'cookie') {
+      warn(`cookie parameter "${param.name}" is not validated`);
+      continue;
+    }
+    // No framework's default query parser nests `filter[q]=x` back into an object
+    if (param.in === 'query' && param.style === 'deepObject') {
+      warn(`deepObject parameter "${param.name}" is not validated — its ${param.name}[…] keys are passed through`);
+      rawQueryKeys = true;
+      continue;
+    }
+    let key = param.in === 'header' ? param.name.toLowerCase() : param.name;
+    if (param.in === 'path' && !/^\w+$/.test(key)) {
+      const safe = key.replace(/\W/g, '_');
+      warn(`path parameter "${key}" renamed to :${safe}`);
+      routePath = routePath.replace(`{${key}}`, `{${safe}}`);
+      key = safe;
+    }
+    let zod = fromWire(operationSchemaToZod(param.schema ?? { type: 'string' }, paramFile, ctx.schemas, '    '), queryDelimiter(param));
+    if (!param.required && param.in !== 'path') zod += '.optional()';
+    const part = param.in === 'path' ? 'params' : param.in === 'query' ? 'query' : 'headers';
+    fields[part].push(`    ${sanitizePropertyKey(key)}: ${zod},`);
+  }
+
+  const parts: Route['parts'] = {};
+  if (fields.params.length > 0) parts.params = zodObject(fields.params);
+  if (fields.query.length > 0) parts.query = zodObject(fields.query, rawQueryKeys ? '.passthrough()' : '');
+  // Clients send plenty of headers the spec doesn't mention
+  if (fields.headers.length > 0) parts.headers = zodObject(fields.headers, '.passthrough()');
+
+  // ── Request body ──
+  const body = resolveValue(bundle, operation.requestBody, file, warn);
+  const bodySchema = jsonContentSchema(body?.value);
+  if (bodySchema === null) {
+    warn(`only JSON request bodies are validated — ${Object.keys(body?.value.content ?? {}).join(', ')} body passed through`);
+  } else if (bodySchema !== undefined && body) {
+    const zod = operationSchemaToZod(bodySchema, body.file, ctx.schemas, '  ');
+    parts.body = body.value.required ? zod : `${zod}.optional()`;
+  }
+
+  // ── Success response ──
+  const responses = operation.responses ?? {};
+  const successKey =
+    Object.keys(responses).sort().find((code) => /^2(?:\d\d|XX)$/i.test(code)) ??
+    (responses.default ? 'default' : undefined);
+  if (!successKey) warn('no success response documented — replying 200 with no body');
+  const response = successKey ? resolveValue<ResponseObject>(bundle, responses[successKey], file, warn) : null;
+  const picked = pickMedia(response?.value.content);
+  const responseFile = response?.file ?? file;
+  const isJson = !!picked && jsonContentSchema(response?.value) != null;
+
+  const doc = [operation.summary, operation.description].filter((t): t is string => !!t?.trim());
+  const docLines = [...doc.flatMap((t) => [...t.trim().split('\n'), '']), `\`${label}\``];
+  if (operation.deprecated) docLines.push('@deprecated');
+
+  return {
+    name,
+    typeBase: name[0].toUpperCase() + name.slice(1),
+    method,
+    routePath: routePath.replace(/\{([^}]+)\}/g, ':$1'),
+    doc: docLines,
+    parts,
+    status: successKey ? statusCode(successKey) : 200,
+    responseZod: isJson ? operationSchemaToZod(picked.media.schema, responseFile, ctx.schemas, '  ') : null,
+    contentType: picked?.type ?? null,
+    example: picked ? exampleForMedia(bundle, picked.media, responseFile) : undefined,
+  };
+}
+
+/** Every operation in `paths`, grouped by its first tag */
+function collectRoutes(ctx: RouteContext): RouteGroup[] {
+  const { bundle } = ctx.schemas;
+  const groups = new Map<string, RouteGroup>();
+  const idents = new Set<string>();
+
+  for (const [path, raw] of Object.entries(bundle.spec.paths)) {
+    // Path items may themselves live in another file (`$ref: ./paths/pets.yaml`)
+    const pathItem = resolveValue<PathItemObject>(bundle, raw, bundle.entry, (m) => ctx.warnings.push(`${path}: ${m}`));
+    if (!pathItem || typeof pathItem.value !== 'object') continue;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem.value[method];
+      if (!operation) continue;
+      const tag = operation.tags?.[0] ?? 'default';
+      let group = groups.get(tag);
+      if (!group) {
+        let ident = toCamelCase(tag);
+        for (let n = 2; idents.has(ident); n++) ident = `${toCamelCase(tag)}${n}`;
+        idents.add(ident);
+        group = { tag, ident, routes: [] };
+        groups.set(tag, group);
+      }
+      group.routes.push(buildRoute(method, path, operation, pathItem, ctx));
+    }
+  }
+  return [...groups.values()];
+}
+
+// ─── EMITTERS ────────────────────────────────────────────────────────────────
+
+/** `const xSchemas = { … };` plus the inferred types the handler signature uses */
+function emitSchemas(route: Route, typedParts: readonly RequestPart[]): string[] {
+  const entries = REQUEST_PARTS.flatMap((part) => (route.parts[part] ? [`  ${part}: ${route.parts[part]},`] : []));
+  if (route.responseZod) entries.push(`  response: ${route.responseZod},`);
+  if (entries.length === 0) return [];
+
+  const lines = [`const ${route.name}Schemas = {`, ...entries, '};'];
+  for (const part of typedParts.filter((p) => route.parts[p])) {
+    lines.push(`type ${route.typeBase}${TYPE_SUFFIX[part]} = z.infer<typeof ${route.name}Schemas.${part}>;`);
+  }
+  if (route.responseZod) lines.push(`type ${route.typeBase}Response = z.infer<typeof ${route.name}Schemas.response>;`);
+  lines.push('');
+  return lines;
+}
+
+function emitDoc(route: Route, indent = ''): string[] {
+  return [
+    `${indent}/**`,
+    ...route.doc.map((l) => `${indent} *${l ? ` ${l.replace(/\*\//g, '*\\/')}` : ''}`),
+    `${indent} */`,
+  ];
+}
+
+function hasParts(route: Route): boolean {
+  return REQUEST_PARTS.some((part) => route.parts[part]);
+}
+
+function emitExpressRoute(route: Route, router: string): string[] {
+  const type = (part: RequestPart, fallback: string) =>
+    route.parts[part] ? `${route.typeBase}${TYPE_SUFFIX[part]}` : fallback;
+  const responseType = route.responseZod ? `${route.typeBase}Response` : 'unknown';
+  const generics = `<${type('params', 'Record<string, string>')}, ${responseType}, ${type('body', 'unknown')}, ${type('query', 'Record<string, unknown>')}>`;
+
+  let send: string;
+  if (!route.contentType) send = `res.status(${route.status}).end();`;
+  else if (route.responseZod) send = `res.status(${route.status}).json(${literal(route.example, '    ')});`;
+  else send = `res.status(${route.status}).type(${jsString(route.contentType)}).send(${literal(String(route.example ?? ''), '    ')});`;
+
+  return [
+    ...emitDoc(route),
+    `${router}.${route.method}(`,
+    `  ${jsString(route.routePath)},`,
+    ...(hasParts(route) ? [`  validate(${route.name}Schemas),`] : []),
+    `  (req: Request${generics}, res: Response<${responseType}>) => {`,
+    `    // TODO: implement ${route.name}`,
+    `    ${send}`,
+    '  },',
+    ');',
+    '',
+  ];
+}
+
+function emitFastifyRoute(route: Route): string[] {
+  const generic = REQUEST_PARTS.flatMap((part) => {
+    if (!route.parts[part]) return [];
+    const key = { params: 'Params', query: 'Querystring', headers: 'Headers', body: 'Body' }[part];
+    return [`${key}: ${route.typeBase}${TYPE_SUFFIX[part]}`];
+  });
+  if (route.responseZod) generic.push(`Reply: ${route.typeBase}Response`);
+
+  let send: string;
+  if (!route.contentType) send = `return reply.code(${route.status}).send();`;
+  else if (route.responseZod) send = `return reply.code(${route.status}).send(${literal(route.example, '      ')});`;
+  else send = `return reply.code(${route.status}).type(${jsString(route.contentType)}).send(${literal(String(route.example ?? ''), '      ')});`;
+
+  return [
+    ...emitDoc(route, '  '),
+    `  app.${route.method}${generic.length > 0 ? `<{ ${generic.join('; ')} }>` : ''}(`,
+    `    ${jsString(route.routePath)},`,
+    ...(hasParts(route) ? [`    { preHandler: validate(${route.name}Schemas) },`] : []),
+    '    async (request, reply) => {',
+    `      // TODO: implement ${route.name}`,
+    `      ${send}`,
+    '    },',
+    '  );',
+    '',
+  ];
+}
+
+function emitHonoRoute(route: Route, router: string): string[] {
+  const used = REQUEST_PARTS.filter((part) => route.parts[part]);
+
+  let send: string;
+  if (!route.contentType) send = `return c.body(null, ${route.status});`;
+  else if (route.responseZod) {
+    send = `return c.json(${literal(route.example, '  ')} satisfies ${route.typeBase}Response, ${route.status});`;
+  } else {
+    send = `return c.body(${literal(String(route.example ?? ''), '  ')}, ${route.status}, { "Content-Type": ${jsString(route.contentType)} });`;
+  }
+
+  return [
+    ...emitDoc(route),
+    `${router}.${route.method}(${jsString(route.routePath)}, ${used.length > 0 ? `validate(${route.name}Schemas), ` : ''}(c) => {`,
+    ...(used.length > 0 ? [`  const { ${used.join(', ')} } = c.get("valid") as Validated<typeof ${route.name}Schemas>;`] : []),
+    `  // TODO: implement ${route.name}`,
+    `  ${send}`,
+    '});',
+    '',
+  ];
+}
+
+function emitGroup(group: RouteGroup, framework: ServerFramework): string[] {
+  const lines = [`// ─── ${group.tag} ───`, ''];
+  const schemas = group.routes.flatMap((route) => emitSchemas(route, TYPED_PARTS[framework]));
+
+  if (framework === 'express') {
+    const router = `${group.ident}Router`;
+    lines.push(`export const ${router} = express.Router();`, '', ...schemas);
+    for (const route of group.routes) lines.push(...emitExpressRoute(route, router));
+  } else if (framework === 'fastify') {
+    lines.push(...schemas, `export async function ${group.ident}Routes(app: FastifyInstance) {`);
+    for (const route of group.routes) lines.push(...emitFastifyRoute(route));
+    if (lines[lines.length - 1] === '') lines.pop();
+    lines.push('}', '');
+  } else {
+    const router = `${group.ident}Routes`;
+    lines.push(`export const ${router} = new Hono<Env>();`, '', ...schemas);
+    for (const route of group.routes) lines.push(...emitHonoRoute(route, router));
+  }
+  return lines;
+}
+
+function emitServer(groups: RouteGroup[], framework: ServerFramework, mount: string): string[] {
+  const prefix = mount ? `${jsString(mount)}, ` : '';
+  const listening = 'console.log(`Mock server on http://localhost:${port}`)';
+  const lines = ['// ─── SERVER ───', ''];
+
+  if (framework === 'express') {
+    lines.push(
+      'const app = express();',
+      'app.use(express.json());',
+      'app.use((req, res, next) => {',
+      '  res.header("Access-Control-Allow-Origin", "*");',
+      '  res.header("Access-Control-Allow-Headers", "*");',
+      '  res.header("Access-Control-Allow-Methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");',
+      '  if (req.method === "OPTIONS") {',
+      '    res.sendStatus(204);',
+      '    return;',
+      '  }',
+      '  next();',
+      '});',
+      ...groups.map((g) => `app.use(${prefix}${g.ident}Router);`),
+      '',
+      'const port = Number(process.env.PORT ?? 3000);',
+      `app.listen(port, () => ${listening});`,
+    );
+  } else if (framework === 'fastify') {
+    lines.push(
+      'const app = Fastify({ logger: true });',
+      'app.addHook("onRequest", async (request, reply) => {',
+      '  reply.header("Access-Control-Allow-Origin", "*");',
+      '  reply.header("Access-Control-Allow-Headers", "*");',
+      '  reply.header("Access-Control-Allow-Methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");',
+      '  if (request.method === "OPTIONS") return reply.code(204).send();',
+      '});',
+      ...groups.map((g) => `app.register(${g.ident}Routes${mount ? `, { prefix: ${jsString(mount)} }` : ''});`),
+      '',
+      'const port = Number(process.env.PORT ?? 3000);',
+      `app.listen({ port }).then(() => ${listening});`,
+    );
+  } else {
+    lines.push(
+      'const app = new Hono<Env>();',
+      'app.use("*", cors());',
+      ...groups.map((g) => `app.route(${jsString(mount || '/')}, ${g.ident}Routes);`),
+      '',
+      'const port = Number(process.env.PORT ?? 3000);',
+      `serve({ fetch: app.fetch, port }, () => ${listening});`,
+    );
+  }
+  return lines;
+}
+
+// ─── CONVERSION FUNCTION ─────────────────────────────────────────────────────
+
+/**
+ * Generates a TypeScript server scaffold for Express (default), Fastify or
+ * Hono from an OpenAPI document.
+ */
+export function convertOpenAPIToExpress(input: string, options: OpenAPIToExpressOptions = {}): ConversionResult {
+  const framework = options.framework ?? 'express';
+  if (!SERVER_FRAMEWORKS.includes(framework)) {
+    return createErrorResult(
+      `Unknown framework "${framework}" — expected ${SERVER_FRAMEWORKS.join(', ')}`,
+      '// Unknown framework.',
+    );
+  }
+
+  try {
+    const bundle = loadSpecBundle([{ name: options.entryName ?? ENTRY_FILE, content: input }, ...(options.files ?? [])]);
+    const schemas = createSchemaContext(bundle);
+    const ctx: RouteContext = { schemas, taken: new Set(), warnings: schemas.warnings };
+
+    const source = bundle.version === '2.0' ? 'Swagger 2.0' : `OpenAPI ${bundle.spec.openapi}`;
+    const title = `${bundle.spec.info.title || 'API'} v${bundle.spec.info.version || '1.0.0'}`;
+    const componentCode = declareComponentSchemas(schemas);
+    const groups = collectRoutes(ctx);
+    const hoisted = declareHoistedSchemas(schemas);
+    if (groups.length === 0) ctx.warnings.push('No operations found in paths — the server has no routes');
+
+    const lines = [`// Generated from ${source} — ${title}`, RUNTIME[framework].setup, ''];
+    if (componentCode || hoisted) lines.push('// ─── SCHEMAS ───', '', (componentCode + hoisted).trimEnd(), '');
+    lines.push('// ─── VALIDATION ───', '', RUNTIME[framework].validate, '');
+    for (const group of groups) lines.push(...emitGroup(group, framework));
+    lines.push(...emitServer(groups, framework, mountPath(bundle)));
+
+    return createResult(lines.join('\n'), [...new Set(ctx.warnings)]);
+  } catch (err) {
+    const message = (err as Error).message;
+    return createErrorResult(message, `// Error generating server: ${message}`);
+  }
+}
@@ -0,0 +1,843 @@
+// src/lib/converters/openapiToZod.ts
+// ─── OpenAPI-to-Zod Converter ───────────────────────────────────────────────
+// Maps every `components.schemas` entry of a Swagger 2.0 or OpenAPI 3.x
+// document (normalized on load) onto an exported Zod schema plus its
+// inferred type. $refs are followed through the shared resolver — other
+// components, parameters, responses and extra files (`./common.yaml#/Pet`)
+// alike — and circular ones become z.lazy(). A z.lazy() target is declared
+// with a written-out TS type and `z.ZodType<T>`, as inference stops at cycles.
+//
+// With `client: true`, `paths` are also walked to emit a fetch-based client:
+// one async function per operation that validates its params, body and
+// response with the generated schemas.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  HTTP_METHODS,
+  type OpenAPIDocument,
+  type OperationObject,
+  type ParameterObject,
+  type PathItemObject,
+  type RequestBodyObject,
+  type ResponseObject,
+  type SchemaObject,
+} from '../../utils/openapiParser';
+import {
+  ENTRY_FILE,
+  loadSpecBundle,
+  refKey,
+  resolveRef,
+  resolveValue,
+  type SpecBundle,
+  type SpecFilesOptions,
+} from '../../utils/openapiRefs';
+import { createErrorResult, createResult, type ConversionResult } from './types';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Maximum input size in characters before conversion is refused */
+export const MAX_INPUT_LENGTH = 500_000;
+const MAX_SCHEMA_DEPTH = 64;
+
+/** Runtime shared by every generated operation (emitted once, verbatim) */
+const CLIENT_RUNTIME = `export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+  ) {
+    super(\`Request failed with status \${status}\`);
+    this.name = "ApiError";
+  }
+}
+
+export interface ClientConfig {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+type QueryStyle = "form" | "formNoExplode" | "spaceDelimited" | "pipeDelimited" | "deepObject";
+
+let config: ClientConfig = { baseUrl: __BASE_URL__ };
+
+/** Override the base URL, default headers or fetch implementation */
+export function configureClient(next: Partial<ClientConfig>): void {
+  config = { ...config, ...next };
+}
+
+function serializeQuery(query: Record<string, unknown>, styles: Record<string, QueryStyle> = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+    const style = styles[key] ?? "form";
+    if (Array.isArray(value)) {
+      const separators: Partial<Record<QueryStyle, string>> = { formNoExplode: ",", spaceDelimited: " ", pipeDelimited: "|" };
+      const separator = separators[style];
+      if (separator) params.append(key, value.map(String).join(separator));
+      else for (const item of value) params.append(key, String(item));
+    } else if (typeof value === "object") {
+      const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+      if (style === "deepObject") for (const [k, v] of entries) params.append(\`\${key}[\${k}]\`, String(v));
+      else if (style === "formNoExplode") params.append(key, entries.flat().map(String).join(","));
+      else for (const [k, v] of entries) params.append(k, String(v));
+    } else {
+      params.append(key, String(value));
+    }
+  }
+  const search = params.toString();
+  return search ? \`?\${search}\` : "";
+}
+
+function headerValues(values: Record<string, unknown>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) if (value !== undefined) headers[key] = String(value);
+  return headers;
+}
+
+async function request<T>(
+  method: string,
+  path: string,
+  responseSchema: z.ZodType<T>,
+  init: RequestOptions & { query?: Record<string, unknown>; queryStyles?: Record<string, QueryStyle>; body?: unknown } = {},
+): Promise<T> {
+  const { query, queryStyles, body, headers, signal } = init;
+  const fetchImpl = config.fetch ?? fetch;
+  const response = await fetchImpl(config.baseUrl + path + (query ? serializeQuery(query, queryStyles) : ""), {
+    method,
+    headers: {
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...config.headers,
+      ...headers,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal,
+  });
+
+  const text = await response.text();
+  let data: unknown = text || undefined;
+  if (text && response.headers.get("content-type")?.includes("json")) data = JSON.parse(text);
+
+  if (!response.ok) throw new ApiError(response.status, data);
+  return responseSchema.parse(data);
+}`;
+
+// ─── TYPES ──────────────────────────────────────────────────────────────────
+
+export interface OpenAPIToZodOptions extends SpecFilesOptions {
+  /** Also emit a fetch client with one function per operation in `paths` */
+  client?: boolean;
+}
+
+/** Shared state while mapping the schemas of one bundle */
+export interface SchemaContext {
+  bundle: SpecBundle;
+  /** `file#pointer` → exported identifier (without the `Schema` suffix) */
+  names: Map<string, string>;
+  /** Keys whose declaration has already been written */
+  emitted: Set<string>;
+  /** Cyclic targets outside `components.schemas` that need their own export */
+  hoisted: { key: string; name: string; value: SchemaObject; file: string }[];
+  /** Names some `z.lazy()` points at — declared with a TS type, as inference stops at cycles */
+  lazyTargets: Set<string>;
+  /** Number of `…Schema` exports declared so far */
+  declared: number;
+  warnings: string[];
+}
+
+
+// ─── HELPER FUNCTIONS ───────────────────────────────────────────────────────
+
+function sanitizeSchemaName(name: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name)
+    ? name
+    : name.replace(/[^a-zA-Z0-9_$]/g, '_').replace(/^(\d)/, '_$1');
+}
+
+export function sanitizePropertyKey(key: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** `~` and `/` escaped for use as one JSON Pointer segment */
+function pointerSegment(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/** `.min()` / `.max()`, or `.gt()` / `.lt()` for exclusive bounds */
+function numberBounds(schema: SchemaObject): string {
+  let bounds = '';
+  if (schema.minimum !== undefined) bounds += `.${schema.exclusiveMinimum ? 'gt' : 'min'}(${schema.minimum})`;
+  if (schema.maximum !== undefined) bounds += `.${schema.exclusiveMaximum ? 'lt' : 'max'}(${schema.maximum})`;
+  return bounds;
+}
+
+/**
+ * Export name for a `z.lazy()` target. Component schemas already have one;
+ * anything else (a schema in another file) is hoisted into its own export.
+ */
+function lazyTargetName(key: string, value: SchemaObject, file: string, ctx: SchemaContext): string {
+  const existing = ctx.names.get(key);
+  if (existing) {
+    ctx.lazyTargets.add(existing);
+    return existing;
+  }
+
+  const pointer = key.slice(key.indexOf('#') + 1);
+  const base = sanitizeSchemaName(
+    pointer.split('/').pop() || file.split('/').pop()!.replace(/\.[^.]+$/, '') || 'Recursive',
+  );
+  const taken = new Set(ctx.names.values());
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}${n}`;
+
+  ctx.names.set(key, name);
+  ctx.hoisted.push({ key, name, value, file });
+  ctx.lazyTargets.add(name);
+  return name;
+}
+
+// ─── RECURSIVE SCHEMA MAPPER ────────────────────────────────────────────────
+
+/**
+ * Recursively maps an OpenAPI schema node to a Zod expression string.
+ *
+ * Circular-reference safety:
+ * - `ancestorRefs` tracks resolved `file#pointer` keys on the recursion stack.
+ * - When we encounter a $ref we've already entered, emit `z.lazy(() => …Schema)`
+ *   instead of recursing, preventing infinite loops.
+ * - `depth` counter prevents runaway recursion on deeply nested schemas.
+ */
+function mapSchemaToZod(
+  schema: SchemaObject | undefined,
+  ctx: SchemaContext,
+  file: string,
+  indent = '',
+  ancestorRefs = new Set<string>(),
+  depth = 0,
+): string {
+  if (!schema) return 'z.unknown()';
+  if (depth > MAX_SCHEMA_DEPTH) return `z.unknown() /* max depth exceeded */`;
+
+  // ── Handle $ref ───────────────────────────────────────────────────────
+  if (schema.$ref) {
+    const target = resolveRef<SchemaObject>(ctx.bundle, schema.$ref, file, (m) => ctx.warnings.push(m));
+    if (!target) return 'z.unknown()';
+
+    // Circular reference detected — emit z.lazy()
+    if (ancestorRefs.has(target.key)) {
+      return `z.lazy(() => ${lazyTargetName(target.key, target.value, target.file, ctx)}Schema)`;
+    }
+
+    // Inline-resolve the target, tracking it as an ancestor while we're inside
+    const nextAncestors = new Set(ancestorRefs);
+    nextAncestors.add(target.key);
+    return mapSchemaToZod(target.value, ctx, target.file, indent, nextAncestors, depth + 1);
+  }
+
+  // ── Handle allOf (intersection) ───────────────────────────────────────
+  if (schema.allOf && schema.allOf.length > 0) {
+    const mapped = schema.allOf.map((s) =>
+      mapSchemaToZod(s, ctx, file, indent, ancestorRefs, depth + 1),
+    );
+    if (mapped.length === 1) return mapped[0];
+    // A.and(B).and(C) — chain correctly
+    return mapped.reduce((acc, cur) => `${acc}.and(${cur})`);
+  }
+
+  // ── Handle oneOf / anyOf (unions) ─────────────────────────────────────
+  if (schema.oneOf || schema.anyOf) {
+    const list = (schema.oneOf || schema.anyOf)!;
+    const mapped = list.map((s) =>
+      mapSchemaToZod(s, ctx, file, indent, ancestorRefs, depth + 1),
+    );
+    // z.union requires ≥ 2 members; unwrap if only 1
+    if (mapped.length === 0) return 'z.unknown()';
+    const union = mapped.length === 1 ? mapped[0] : `z.union([${mapped.join(', ')}])`;
+    // 3.1 `anyOf: [T, { type: 'null' }]` arrives here as `nullable`
+    return schema.nullable ? `${union}.nullable()` : union;
+  }
+
+  // ── Handle enums BEFORE type switch ───────────────────────────────────
+  // z.enum() only accepts string tuples. Numeric or mixed enums need z.union([z.literal(…)])
+  if (schema.enum && Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const allStrings = schema.enum.every((v) => typeof v === 'string');
+    if (allStrings) {
+      const vals = schema.enum.map((e) => JSON.stringify(e)).join(', ');
+      let zodStr = `z.enum([${vals}])`;
+      if (schema.nullable) zodStr += '.nullable()';
+      return zodStr;
+    }
+    // Numeric or mixed enums → z.union([z.literal(…), …])
+    const literals = schema.enum.map((e) => `z.literal(${JSON.stringify(e)})`);
+    let zodStr =
+      literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+    if (schema.nullable) zodStr += '.nullable()';
+    return zodStr;
+  }
+
+  const type = schema.type || (schema.properties ? 'object' : undefined);
+  let zodStr = 'z.unknown()';
+
+  switch (type) {
+    case 'string': {
+      zodStr = 'z.string()';
+      if (schema.format === 'email') zodStr += '.email()';
+      else if (schema.format === 'uuid') zodStr += '.uuid()';
+      else if (schema.format === 'date-time') zodStr += '.datetime()';
+      else if (schema.format === 'uri' || schema.format === 'url') zodStr += '.url()';
+      else if (schema.format === 'ipv4' || schema.format === 'ipv6') zodStr += '.ip()';
+      if (schema.minLength !== undefined) zodStr += `.min(${schema.minLength})`;
+      if (schema.maxLength !== undefined) zodStr += `.max(${schema.maxLength})`;
+      if (schema.pattern) {
+        const escaped = schema.pattern.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+        zodStr += `.regex(/${escaped}/)`;
+      }
+      break;
+    }
+
+    case 'integer':
+      zodStr = 'z.number().int()' + numberBounds(schema);
+      break;
+
+    case 'number':
+      zodStr = 'z.number()' + numberBounds(schema);
+      break;
+
+    case 'boolean':
+      zodStr = 'z.boolean()';
+      break;
+
+    case 'array': {
+      const items = mapSchemaToZod(schema.items, ctx, file, indent, ancestorRefs, depth + 1);
+      zodStr = `z.array(${items})`;
+      break;
+    }
+
+    case 'object': {
+      const props = schema.properties || {};
+      const requiredKeys = schema.required || [];
+      const lines: string[] = [];
+
+      for (const [key, val] of Object.entries(props)) {
+        let fieldZod = mapSchemaToZod(val, ctx, file, indent + '  ', ancestorRefs, depth + 1);
+        const isRequired = requiredKeys.includes(key);
+
+        if (val.nullable && !fieldZod.endsWith('.nullable()')) fieldZod += '.nullable()';
+        if (!isRequired) fieldZod += '.optional()';
+        if (val.description) {
+          const escaped = val.description.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+          fieldZod += `.describe("${escaped}")`;
+        }
+
+        lines.push(`${indent}  ${sanitizePropertyKey(key)}: ${fieldZod},`);
+      }
+
+      zodStr =
+        lines.length === 0
+          ? 'z.object({})'
+          : `z.object({\n${lines.join('\n')}\n${indent}})`;
+
+      if (schema.additionalProperties === true) {
+        zodStr += '.passthrough()';
+      } else if (
+        schema.additionalProperties &&
+        typeof schema.additionalProperties === 'object'
+      ) {
+        const addSchema = mapSchemaToZod(
+          schema.additionalProperties,
+          ctx,
+          file,
+          indent,
+          ancestorRefs,
+          depth + 1,
+        );
+        zodStr += `.catchall(${addSchema})`;
+      } else {
+        zodStr += '.strict()';
+      }
+      break;
+    }
+  }
+
+  if (schema.nullable) zodStr += '.nullable()';
+
+  return zodStr;
+}
+
+// ─── RECURSIVE TYPE MAPPER ──────────────────────────────────────────────────
+
+/** Parenthesized when it is a union, so it can sit inside `&` */
+function groupType(type: string): string {
+  let depth = 0;
+  for (let i = 0; i < type.length; i++) {
+    if ('{(<['.includes(type[i])) depth++;
+    else if ('})>]'.includes(type[i])) depth--;
+    else if (depth === 0 && type.startsWith(' | ', i)) return `(${type})`;
+  }
+  return type;
+}
+
+/**
+ * The TS type `mapSchemaToZod` infers for the same node, written out for
+ * schemas declared as `z.ZodType<T>`. Refs are inlined the same way, so the
+ * only names used are the `z.lazy()` targets the Zod pass registered.
+ */
+function mapSchemaToTs(
+  schema: SchemaObject | undefined,
+  ctx: SchemaContext,
+  file: string,
+  indent = '',
+  ancestorRefs = new Set<string>(),
+  depth = 0,
+): string {
+  if (!schema || depth > MAX_SCHEMA_DEPTH) return 'unknown';
+
+  if (schema.$ref) {
+    // Unresolvable refs were already reported by the Zod pass
+    const target = resolveRef<SchemaObject>(ctx.bundle, schema.$ref, file, () => {});
+    if (!target) return 'unknown';
+    if (ancestorRefs.has(target.key)) return ctx.names.get(target.key) ?? 'unknown';
+    const nextAncestors = new Set(ancestorRefs);
+    nextAncestors.add(target.key);
+    return mapSchemaToTs(target.value, ctx, target.file, indent, nextAncestors, depth + 1);
+  }
+
+  const map = (s: SchemaObject | undefined, nested = indent) => mapSchemaToTs(s, ctx, file, nested, ancestorRefs, depth + 1);
+  const nullable = (type: string) => (schema.nullable ? `${type} | null` : type);
+
+  if (schema.allOf && schema.allOf.length > 0) return schema.allOf.map((s) => groupType(map(s))).join(' & ');
+
+  if (schema.oneOf || schema.anyOf) {
+    const list = (schema.oneOf || schema.anyOf)!;
+    return list.length === 0 ? 'unknown' : nullable(list.map((s) => map(s)).join(' | '));
+  }
+
+  if (schema.enum && Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return nullable(schema.enum.map((e) => JSON.stringify(e)).join(' | '));
+  }
+
+  const type = schema.type || (schema.properties ? 'object' : undefined);
+  let tsType = 'unknown';
+
+  switch (type) {
+    case 'string':
+    case 'boolean':
+      tsType = type;
+      break;
+
+    case 'integer':
+    case 'number':
+      tsType = 'number';
+      break;
+
+    case 'array': {
+      const items = map(schema.items);
+      tsType = /^[\w.]+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+      break;
+    }
+
+    case 'object': {
+      const requiredKeys = schema.required || [];
+      const lines = Object.entries(schema.properties || {}).map(([key, val]) => {
+        let fieldType = map(val, indent + '  ');
+        if (val.nullable && !fieldType.endsWith(' | null')) fieldType += ' | null';
+        const optional = requiredKeys.includes(key) ? '' : '?';
+        return `${indent}  ${sanitizePropertyKey(key)}${optional}: ${fieldType};`;
+      });
+      const extra = schema.additionalProperties;
+      if (lines.length === 0) {
+        tsType = typeof extra === 'object' ? `Record<string, ${map(extra)}>` : 'Record<string, unknown>';
+        break;
+      }
+      // Declared properties needn't match the .catchall() schema, so extras stay unknown
+      if (extra) lines.push(`${indent}  [key: string]: unknown;`);
+      tsType = `{\n${lines.join('\n')}\n${indent}}`;
+      break;
+    }
+  }
+
+  return nullable(tsType);
+}
+
+// ─── CLIENT GENERATOR ───────────────────────────────────────────────────────
+
+/** `list-users_v2` → `listUsersV2` */
+export function toCamelCase(text: string): string {
+  const words = text.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const id = words
+    .map((w, i) => (i === 0 ? w[0].toLowerCase() : w[0].toUpperCase()) + w.slice(1))
+    .join('');
+  if (!id) return 'operation';
+  return /^\d/.test(id) ? `_${id}` : id;
+}
+
+/** `GET /users/{id}` → `getUsersById`, for operations without an operationId */
+export function fallbackOperationId(method: string, path: string): string {
+  const segments = path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => segment.replace(/^\{(.+)\}$/, 'by $1'));
+  return toCamelCase(`${method} ${segments.join(' ')}`);
+}
+
+/** Zod expression for an operation schema; refs to emitted schemas reuse the export */
+export function operationSchemaToZod(
+  schema: SchemaObject | undefined,
+  file: string,
+  ctx: SchemaContext,
+  indent = '',
+): string {
+  if (schema?.$ref) {
+    const key = resolveValue(ctx.bundle, schema, file)?.key;
+    const name = key && ctx.emitted.has(key) ? ctx.names.get(key) : undefined;
+    if (name) return `${name}Schema`;
+  }
+  if (schema?.type === 'array' && schema.items?.$ref) {
+    return `z.array(${operationSchemaToZod(schema.items, file, ctx, indent)})`;
+  }
+  return mapSchemaToZod(schema, ctx, file, indent);
+}
+
+/** Schema of the JSON media type; `null` when content exists but none of it is JSON */
+export function jsonContentSchema(media: RequestBodyObject | ResponseObject | undefined): SchemaObject | null | undefined {
+  const content = media?.content;
+  if (!content || Object.keys(content).length === 0) return undefined;
+  const type = Object.keys(content).find((t) => /^application\/(?:[\w.-]+\+)?json\b/.test(t) || t === '*/*');
+  return type ? (content[type].schema ?? {}) : null;
+}
+
+/** Serialization style name understood by the emitted `serializeQuery` */
+function queryStyle(param: ParameterObject): string | null {
+  const style = param.style ?? 'form';
+  if (style === 'form') return param.explode === false ? 'formNoExplode' : null;
+  return ['spaceDelimited', 'pipeDelimited', 'deepObject'].includes(style) ? style : null;
+}
+
+function jsString(text: string): string {
+  return JSON.stringify(text);
+}
+
+/** Property access on the parsed params object (`p.id`, `p["X-Trace"]`) */
+function paramAccess(name: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? `p.${name}` : `p[${jsString(name)}]`;
+}
+
+interface ClientContext {
+  schemas: SchemaContext;
+  taken: Set<string>;
+  warnings: string[];
+}
+
+/** A resolved OpenAPI object and the file its own refs are relative to */
+interface Located<T> {
+  value: T;
+  file: string;
+}
+
+/** Emits the schemas and function for one operation */
+function emitOperation(
+  method: string,
+  path: string,
+  operation: OperationObject,
+  pathItem: Located<PathItemObject>,
+  ctx: ClientContext,
+): string {
+  const { bundle } = ctx.schemas;
+  const file = pathItem.file;
+  const warn = (message: string) => ctx.warnings.push(`${label}: ${message}`);
+  const label = `${method.toUpperCase()} ${path}`;
+
+  // ── Name ──
+  let fnName = operation.operationId ? toCamelCase(operation.operationId) : fallbackOperationId(method, path);
+  if (!operation.operationId) ctx.warnings.push(`${label}: no operationId — generated ${fnName}()`);
+  if (ctx.taken.has(fnName)) {
+    let n = 2;
+    while (ctx.taken.has(`${fnName}${n}`)) n++;
+    ctx.warnings.push(`${label}: ${fnName}() already exists — renamed to ${fnName}${n}()`);
+    fnName = `${fnName}${n}`;
+  }
+  ctx.taken.add(fnName);
+  const typeBase = fnName[0].toUpperCase() + fnName.slice(1);
+
+  // ── Parameters (operation-level overrides path-level by name + location) ──
+  const byKey = new Map<string, Located<ParameterObject>>();
+  for (const raw of [...(pathItem.value.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const resolved = resolveValue(bundle, raw, file, warn);
+    if (!resolved?.value.name) {
+      if (resolved) warn('parameter without a name skipped');
+      continue;
+    }
+    byKey.set(`${resolved.value.in}:${resolved.value.name}`, resolved);
+  }
+
+  const params: Located<ParameterObject>[] = [];
+  for (const located of byKey.values()) {
+    const param = located.value;
+    if (param.in === 'cookie') {
+      ctx.warnings.push(`${label}: cookie parameter "${param.name}" is not sent by the generated client`);
+      continue;
+    }
+    if (params.some((p) => p.value.name === param.name)) {
+      ctx.warnings.push(`${label}: duplicate parameter name "${param.name}" (${param.in}) skipped`);
+      continue;
+    }
+    params.push(located);
+  }
+
+  // ── Request body ──
+  const body = resolveValue(bundle, operation.requestBody, file, warn);
+  const requestBody = body?.value;
+  let bodySchema = jsonContentSchema(requestBody);
+  if (bodySchema === null) {
+    const types = Object.keys(requestBody?.content ?? {}).join(', ');
+    ctx.warnings.push(`${label}: only JSON request bodies are supported — ${types} body skipped`);
+    bodySchema = undefined;
+  }
+
+  // ── Success response ──
+  const responses = operation.responses ?? {};
+  const successKey =
+    Object.keys(responses).sort().find((code) => /^2(?:\d\d|XX)$/i.test(code)) ??
+    (responses.default ? 'default' : undefined);
+  const response = successKey ? resolveValue(bundle, responses[successKey], file, warn) : null;
+  const responseSchema = jsonContentSchema(response?.value);
+  let responseZod = 'z.unknown()';
+  if (responseSchema && response) responseZod = operationSchemaToZod(responseSchema, response.file, ctx.schemas);
+  else if (responseSchema === undefined && successKey && successKey !== 'default') responseZod = 'z.void()';
+  else if (responseSchema === null) {
+    ctx.warnings.push(`${label}: ${successKey} response is not JSON — returned without validation`);
+  }
+
+  // ── Declarations ──
+  const lines: string[] = [`// ─── ${fnName}: ${label} ───`, ''];
+  const args: string[] = [];
+
+  if (params.length > 0) {
+    const fields = params.map(({ value: param, file: paramFile }) => {
+      let fieldZod = operationSchemaToZod(param.schema ?? { type: 'string' }, paramFile, ctx.schemas, '  ');
+      if (!param.required && param.in !== 'path') fieldZod += '.optional()';
+      if (param.description) fieldZod += `.describe(${jsString(param.description)})`;
+      return `  ${sanitizePropertyKey(param.name)}: ${fieldZod},`;
+    });
+    lines.push(`export const ${typeBase}ParamsSchema = z.object({\n${fields.join('\n')}\n});`);
+    lines.push(`export type ${typeBase}Params = z.infer<typeof ${typeBase}ParamsSchema>;`);
+    const allOptional = params.every(({ value: p }) => !p.required && p.in !== 'path');
+    args.push(allOptional ? `params: ${typeBase}Params = {}` : `params: ${typeBase}Params`);
+  }
+
+  const bodyRequired = requestBody?.required === true;
+  if (bodySchema !== undefined && body) {
+    lines.push(`export const ${typeBase}BodySchema = ${operationSchemaToZod(bodySchema, body.file, ctx.schemas)};`);
+    lines.push(`export type ${typeBase}Body = z.infer<typeof ${typeBase}BodySchema>;`);
+    args.push(bodyRequired ? `body: ${typeBase}Body` : `body?: ${typeBase}Body`);
+  }
+
+  lines.push(`export const ${typeBase}ResponseSchema = ${responseZod};`);
+  lines.push(`export type ${typeBase}Response = z.infer<typeof ${typeBase}ResponseSchema>;`);
+  args.push('options: RequestOptions = {}');
+
+  // ── JSDoc ──
+  const doc = [operation.summary, operation.description].filter((t): t is string => !!t?.trim());
+  const docLines = [...doc.flatMap((t) => [...t.trim().split('\n'), '']), `\`${label}\``];
+  if (operation.deprecated) docLines.push('@deprecated');
+  lines.push('', '/**', ...docLines.map((l) => ` *${l ? ` ${l.replace(/\*\//g, '*\\/')}` : ''}`), ' */');
+
+  // ── Function ──
+  const urlPath = path.replace(/\{([^}]+)\}/g, (_, name: string) => `\${encodeURIComponent(String(${paramAccess(name)}))}`);
+  const query = params.map((p) => p.value).filter((p) => p.in === 'query');
+  const headers = params.map((p) => p.value).filter((p) => p.in === 'header');
+  const styles = query.flatMap((p) => {
+    const style = queryStyle(p);
+    return style ? [`${sanitizePropertyKey(p.name)}: ${jsString(style)}`] : [];
+  });
+
+  const init: string[] = [];
+  if (query.length > 0) {
+    init.push(`query: { ${query.map((p) => `${sanitizePropertyKey(p.name)}: ${paramAccess(p.name)}`).join(', ')} },`);
+    if (styles.length > 0) init.push(`queryStyles: { ${styles.join(', ')} },`);
+  }
+  if (bodySchema !== undefined) {
+    init.push(
+      bodyRequired
+        ? `body: ${typeBase}BodySchema.parse(body),`
+        : `body: body === undefined ? undefined : ${typeBase}BodySchema.parse(body),`,
+    );
+  }
+  if (headers.length > 0) {
+    const entries = headers.map((p) => `${jsString(p.name)}: ${paramAccess(p.name)}`).join(', ');
+    init.push(`headers: { ...headerValues({ ${entries} }), ...options.headers },`);
+    init.push('signal: options.signal,');
+  }
+
+  lines.push(`export async function ${fnName}(${args.join(', ')}): Promise<${typeBase}Response> {`);
+  if (params.length > 0) lines.push(`  const p = ${typeBase}ParamsSchema.parse(params);`);
+  const call = `request(${jsString(method.toUpperCase())}, \`${urlPath}\`, ${typeBase}ResponseSchema, `;
+  if (init.length === 0) lines.push(`  return ${call}options);`, '}');
+  else {
+    if (headers.length === 0) init.push('...options,');
+    lines.push(`  return ${call}{`, ...init.map((l) => `    ${l}`), '  });', '}');
+  }
+
+  return lines.join('\n');
+}
+
+/** Emits the client runtime plus one function per operation in `paths` */
+function generateClient(spec: OpenAPIDocument, schemas: SchemaContext): { code: string; operationCount: number } {
+  const ctx: ClientContext = {
+    schemas,
+    taken: new Set(['request', 'serializeQuery', 'headerValues', 'configureClient']),
+    warnings: schemas.warnings,
+  };
+
+  const operations: string[] = [];
+  for (const [path, raw] of Object.entries(spec.paths ?? {})) {
+    // Path items may themselves live in another file (`$ref: ./paths/pets.yaml`)
+    const pathItem = resolveValue(schemas.bundle, raw, schemas.bundle.entry, (m) => ctx.warnings.push(`${path}: ${m}`));
+    if (!pathItem || typeof pathItem.value !== 'object') continue;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem.value[method];
+      if (operation) operations.push(emitOperation(method, path, operation, pathItem, ctx));
+    }
+  }
+
+  if (operations.length === 0) {
+    ctx.warnings.push('No operations found in paths — API client skipped');
+    return { code: '', operationCount: 0 };
+  }
+
+  const baseUrl = jsString(spec.servers?.[0]?.url?.replace(/\/$/, '') ?? '');
+  const runtime = CLIENT_RUNTIME.replace('__BASE_URL__', baseUrl);
+  const code = ['// ─── API CLIENT ───', '', runtime, '', ...operations.flatMap((op) => [op, '']), ''].join('\n');
+  return { code, operationCount: operations.length };
+}
+
+// ─── SCHEMA DECLARATIONS ────────────────────────────────────────────────────
+
+/** Registers the export name of every `components.schemas` entry of a bundle */
+export function createSchemaContext(bundle: SpecBundle): SchemaContext {
+  const ctx: SchemaContext = {
+    bundle,
+    names: new Map(),
+    emitted: new Set(),
+    hoisted: [],
+    lazyTargets: new Set(),
+    declared: 0,
+    warnings: [...bundle.warnings],
+  };
+  for (const [name, definition] of Object.entries(bundle.spec.components.schemas ?? {})) {
+    ctx.names.set(componentKey(bundle, name), sanitizeSchemaName(name));
+    // `Pet: { $ref: ./common.yaml#/Pet }` — the target is exported under the alias
+    const aliased = definition.$ref ? resolveValue(bundle, definition, bundle.entry)?.key : null;
+    if (aliased && !ctx.names.has(aliased)) ctx.names.set(aliased, sanitizeSchemaName(name));
+  }
+  return ctx;
+}
+
+function componentKey(bundle: SpecBundle, name: string): string {
+  return refKey(bundle.entry, `/components/schemas/${pointerSegment(name)}`);
+}
+
+function declareSchema(ctx: SchemaContext, key: string, name: string, definition: SchemaObject, file: string): string {
+  const zodDefinition = mapSchemaToZod(definition, ctx, file, '', new Set([key]));
+  for (const [named, n] of ctx.names) if (n === name) ctx.emitted.add(named);
+  ctx.declared++;
+  if (ctx.lazyTargets.has(name)) {
+    const tsType = mapSchemaToTs(definition, ctx, file, '', new Set([key]));
+    // One top-level object literal (closing braces at column 0 end it) can be an interface
+    const isShape = tsType.startsWith('{') && tsType.endsWith('\n}') && !tsType.includes('\n} ');
+    const declaration = isShape ? `export interface ${name} ${tsType}` : `export type ${name} = ${tsType};`;
+    return `${declaration}\n` + `export const ${name}Schema: z.ZodType<${name}> = ${zodDefinition};\n\n`;
+  }
+  return `export const ${name}Schema = ${zodDefinition};\n` + `export type ${name} = z.infer<typeof ${name}Schema>;\n\n`;
+}
+
+/** Cyclic refs into other files are hoisted into exports of their own */
+export function declareHoistedSchemas(ctx: SchemaContext): string {
+  let code = '';
+  for (let next = ctx.hoisted.shift(); next; next = ctx.hoisted.shift()) {
+    code += declareSchema(ctx, next.key, next.name, next.value, next.file);
+  }
+  return code;
+}
+
+/** `export const PetSchema = …` + `export type Pet = …` for every component schema */
+export function declareComponentSchemas(ctx: SchemaContext): string {
+  let code = '';
+  for (const [name, definition] of Object.entries(ctx.bundle.spec.components.schemas ?? {})) {
+    code += declareSchema(ctx, componentKey(ctx.bundle, name), sanitizeSchemaName(name), definition, ctx.bundle.entry);
+  }
+  return code + declareHoistedSchemas(ctx);
+}
+
+// ─── CONVERSION FUNCTION ────────────────────────────────────────────────────
+
+/**
+ * Converts a Swagger 2.0 / OpenAPI 3.x document (JSON or YAML, plus any extra files its
+ * refs point into) into Zod schemas, optionally followed
+ * by a typed fetch client. Failures keep a placeholder comment in `code` so
+ * the output panel never goes blank.
+ */
+export function convertOpenAPIToZod(input: string, options: OpenAPIToZodOptions = {}): ConversionResult {
+  const trimmed = input.trim();
+  if (!trimmed) return createResult('');
+
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    return createErrorResult(
+      `Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)} KB limit.`,
+      '// Input too large — please reduce the size.',
+    );
+  }
+
+  let bundle: SpecBundle;
+  try {
+    bundle = loadSpecBundle([{ name: options.entryName ?? ENTRY_FILE, content: trimmed }, ...(options.files ?? [])]);
+  } catch (err) {
+    const message = (err as Error).message;
+    // Parsed fine but isn't a usable document (a bare string, Swagger 1.x)
+    if (message !== 'Invalid JSON or YAML') return createErrorResult(`${message}.`, `// ${message}.`);
+    return createErrorResult(
+      `${message} — check the syntax and try again.`,
+      '// Invalid JSON or YAML — check the syntax and try again.',
+    );
+  }
+
+  const parsedSpec: OpenAPIDocument = bundle.spec;
+
+  const hasPaths = !!parsedSpec.paths && Object.keys(parsedSpec.paths).length > 0;
+  if (!parsedSpec.components?.schemas && !(options.client && hasPaths)) {
+    return createErrorResult(
+      'No components.schemas block found in the provided OpenAPI document.',
+      '// No components.schemas found.\n// Expected: { "components": { "schemas": { ... } } }',
+    );
+  }
+
+  try {
+    const ctx = createSchemaContext(bundle);
+
+    let output = `import { z } from "zod";\n\n`;
+    output += `// Generated from ${bundle.version === '2.0' ? 'Swagger 2.0' : `OpenAPI ${parsedSpec.openapi}`}\n`;
+    output += `// ${parsedSpec.info?.title || 'API'} v${parsedSpec.info?.version || '1.0.0'}\n\n`;
+    output += declareComponentSchemas(ctx);
+
+    let operations = '';
+    if (options.client) {
+      const client = generateClient(parsedSpec, ctx);
+      output += client.code;
+      operations = ` and ${client.operationCount} operation${client.operationCount !== 1 ? 's' : ''}`;
+    }
+    output += declareHoistedSchemas(ctx);
+
+    const schemaCount = ctx.declared;
+    output += `// Successfully converted ${schemaCount} schema${schemaCount !== 1 ? 's' : ''}${operations}`;
+    return createResult(output.trim(), [...new Set(ctx.warnings)]);
+  } catch (err) {
+    return createErrorResult(
+      `Conversion failed: ${(err as Error).message}`,
+      '// Conversion failed — see error below.',
+    );
+  }
+}
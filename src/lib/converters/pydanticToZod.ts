@@ -1,3 +1,6 @@
+// src/lib/converters/pydanticToZod.ts
+import { createResult, type ConversionResult } from './types';
+
 // ─── CONSTANTS ───────────────────────────────────────────────────────────────
 
 /** Maximum recursion depth to prevent stack overflow on deeply nested schemas */
@@ -45,14 +48,6 @@ export type JsonSchemaNode = {
   maxItems?: number;
 };
 
-/** Result returned by the public `convertPydanticToZod` API */
-export interface ConversionResult {
-  /** Full generated TypeScript + Zod code */
-  code: string;
-  /** Non-fatal diagnostic messages (depth limit hit, unsupported keywords, etc.) */
-  warnings: string[];
-}
-
 // ─── INTERNAL CONTEXT ────────────────────────────────────────────────────────
 
 interface ConversionContext {
@@ -308,5 +303,5 @@ export function convertPydanticToZod(schema: JsonSchemaNode): ConversionResult {
   lines.push(`const ${rootName} = ${nodeToZod(schema, ctx)};`);
   lines.push(`export type ${rootName}Type = z.infer<typeof ${rootName}>;`);
 
-  return { code: lines.join('\n'), warnings: [...warnings] };
+  return createResult(lines.join('\n'), [...warnings]);
 }
\ No newline at end of file
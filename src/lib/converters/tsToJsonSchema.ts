@@ -0,0 +1,395 @@
+// src/lib/converters/tsToJsonSchema.ts
+// ─── TypeScript-to-JSON-Schema Converter ────────────────────────────────────
+// Parses `interface` / `type` declarations with a delimiter-aware scanner and
+// maps each TypeScript type expression onto its JSON Schema equivalent.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+import { findClosingDelimiter, skipString, smartSplit, splitGenericArgs } from './tsTokenizer';
+
+// ─── TYPES ──────────────────────────────────────────────────────────────────
+
+interface ParsedProperty {
+  key: string;
+  type: string;
+  optional: boolean;
+}
+
+interface ParsedType {
+  name: string;
+  kind: 'interface' | 'type-object' | 'type-alias';
+  properties: ParsedProperty[];
+  aliasType?: string;
+}
+
+interface JsonSchema {
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number | boolean)[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  const?: string | number | boolean;
+  additionalProperties?: JsonSchema | boolean;
+  $ref?: string;
+  $schema?: string;
+  $defs?: Record<string, JsonSchema>;
+  description?: string;
+  [key: string]: unknown;
+}
+
+
+// ─── PARSER ─────────────────────────────────────────────────────────────────
+
+/** Strip single-line and multi-line comments from source. */
+function stripComments(src: string): string {
+  let out = '';
+  let i = 0;
+  while (i < src.length) {
+    if (src[i] === '"' || src[i] === "'" || src[i] === '`') {
+      const end = skipString(src, i);
+      out += src.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    if (src[i] === '/' && src[i + 1] === '/') {
+      while (i < src.length && src[i] !== '\n') i++;
+      continue;
+    }
+    if (src[i] === '/' && src[i + 1] === '*') {
+      i += 2;
+      while (i < src.length && !(src[i] === '*' && src[i + 1] === '/')) i++;
+      i += 2;
+      continue;
+    }
+    out += src[i];
+    i++;
+  }
+  return out;
+}
+
+/** Parse a property line like `key?: type` */
+function parseProperty(line: string): ParsedProperty | null {
+  const trimmed = line.replace(/^readonly\s+/, '').trim();
+  if (!trimmed || trimmed.startsWith('//') || trimmed.startsWith('/*')) return null;
+
+  const colonIdx = trimmed.indexOf(':');
+  if (colonIdx === -1) return null;
+
+  let key = trimmed.slice(0, colonIdx).trim();
+  const typeStr = trimmed.slice(colonIdx + 1).trim().replace(/;$/, '').trim();
+
+  const optional = key.endsWith('?');
+  if (optional) key = key.slice(0, -1).trim();
+
+  // Strip surrounding quotes from key
+  if ((key.startsWith('"') && key.endsWith('"')) || (key.startsWith("'") && key.endsWith("'"))) {
+    key = key.slice(1, -1);
+  }
+
+  if (!key) return null;
+
+  return { key, type: typeStr, optional };
+}
+
+/** Extract the body between the first { and its matching } after `start` */
+function extractBody(src: string, start: number): { body: string; end: number } | null {
+  const braceStart = src.indexOf('{', start);
+  if (braceStart === -1) return null;
+  const braceEnd = findClosingDelimiter(src, braceStart);
+  if (braceEnd === -1) return null;
+  return { body: src.slice(braceStart + 1, braceEnd), end: braceEnd };
+}
+
+/** Parse properties from a body string into ParsedProperty[] */
+function parseProperties(body: string): ParsedProperty[] {
+  const props: ParsedProperty[] = [];
+  const lines = smartSplit(body, ';');
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    // Handle nested inline object: key: { ... }
+    if (line.includes('{')) {
+      const colonIdx = line.indexOf(':');
+      if (colonIdx > -1) {
+        let key = line.slice(0, colonIdx).trim().replace(/^readonly\s+/, '');
+        const optional = key.endsWith('?');
+        if (optional) key = key.slice(0, -1).trim();
+        const typeStr = line.slice(colonIdx + 1).trim();
+        if (key) {
+          props.push({ key, type: typeStr, optional });
+          continue;
+        }
+      }
+    }
+
+    const prop = parseProperty(line);
+    if (prop) props.push(prop);
+  }
+
+  return props;
+}
+
+/** Parse all interfaces and type aliases from source */
+function parseTypes(src: string): ParsedType[] {
+  const clean = stripComments(src);
+  const types: ParsedType[] = [];
+
+  // Parse interfaces: interface Name { ... }
+  const ifaceRe = /\binterface\s+([A-Za-z_$][A-Za-z0-9_$]*)\s*(?:<[^>]*>)?\s*(?:extends\s+[^{]+)?\{/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = ifaceRe.exec(clean)) !== null) {
+    const name = match[1];
+    const bodyResult = extractBody(clean, match.index);
+    if (!bodyResult) continue;
+    types.push({
+      name,
+      kind: 'interface',
+      properties: parseProperties(bodyResult.body),
+    });
+  }
+
+  // Parse type aliases: type Name = { ... } or type Name = ...
+  const typeRe = /\btype\s+([A-Za-z_$][A-Za-z0-9_$]*)\s*(?:<[^>]*>)?\s*=\s*/g;
+
+  while ((match = typeRe.exec(clean)) !== null) {
+    const name = match[1];
+    const afterEquals = clean.slice(match.index + match[0].length).trim();
+
+    if (afterEquals.startsWith('{')) {
+      const bodyResult = extractBody(clean, match.index + match[0].length);
+      if (!bodyResult) continue;
+      types.push({
+        name,
+        kind: 'type-object',
+        properties: parseProperties(bodyResult.body),
+      });
+    } else {
+      // Simple alias: type Status = "a" | "b"
+      let end = clean.indexOf(';', match.index + match[0].length);
+      if (end === -1) end = clean.length;
+      const aliasType = clean.slice(match.index + match[0].length, end).trim();
+      types.push({
+        name,
+        kind: 'type-alias',
+        properties: [],
+        aliasType,
+      });
+    }
+  }
+
+  return types;
+}
+
+// ─── TYPE → JSON SCHEMA MAPPER ──────────────────────────────────────────────
+
+function mapTypeToSchema(ts: string, knownTypes: Set<string>): JsonSchema {
+  const t = ts.trim();
+
+  // Primitives
+  if (t === 'string') return { type: 'string' };
+  if (t === 'number') return { type: 'number' };
+  if (t === 'boolean') return { type: 'boolean' };
+  if (t === 'null') return { type: 'null' };
+  if (t === 'any' || t === 'unknown') return {};
+  if (t === 'never') return { not: {} };
+  if (t === 'void' || t === 'undefined') return { type: 'null' };
+  if (t === 'Date') return { type: 'string', format: 'date-time' };
+  if (t === 'bigint') return { type: 'integer' };
+
+  // String literals
+  if (/^"[^"]*"$/.test(t) || /^'[^']*'$/.test(t)) {
+    return { const: t.slice(1, -1) };
+  }
+  // Number literals
+  if (/^-?\d+(\.\d+)?$/.test(t)) {
+    return { const: Number(t) };
+  }
+  // Boolean literals
+  if (t === 'true') return { const: true };
+  if (t === 'false') return { const: false };
+
+  // Unwrap outer parens
+  if (t.startsWith('(') && t.endsWith(')')) {
+    const close = findClosingDelimiter(t, 0);
+    if (close === t.length - 1) return mapTypeToSchema(t.slice(1, -1), knownTypes);
+  }
+
+  // Union types (split on | at depth 0)
+  const unionParts = smartSplit(t, '|');
+  if (unionParts.length > 1) {
+    // Check if all parts are string literals → use enum
+    const allStringLiterals = unionParts.every(p => /^["'][^"']*["']$/.test(p.trim()));
+    if (allStringLiterals) {
+      return { type: 'string', enum: unionParts.map(p => p.trim().slice(1, -1)) };
+    }
+    // Check if all parts are number literals → use enum
+    const allNumberLiterals = unionParts.every(p => /^-?\d+(\.\d+)?$/.test(p.trim()));
+    if (allNumberLiterals) {
+      return { type: 'number', enum: unionParts.map(p => Number(p.trim())) };
+    }
+    // Nullable shorthand: T | null
+    if (unionParts.length === 2) {
+      const nullIdx = unionParts.findIndex(p => p.trim() === 'null');
+      if (nullIdx !== -1) {
+        const other = unionParts[1 - nullIdx].trim();
+        const schema = mapTypeToSchema(other, knownTypes);
+        return { anyOf: [schema, { type: 'null' }] };
+      }
+    }
+    return { oneOf: unionParts.map(p => mapTypeToSchema(p.trim(), knownTypes)) };
+  }
+
+  // Intersection types (split on & at depth 0)
+  const interParts = smartSplit(t, '&');
+  if (interParts.length > 1) {
+    return { allOf: interParts.map(p => mapTypeToSchema(p.trim(), knownTypes)) };
+  }
+
+  // Array shorthand: Type[]
+  if (t.endsWith('[]')) {
+    const inner = t.slice(0, -2).trim();
+    return { type: 'array', items: mapTypeToSchema(inner, knownTypes) };
+  }
+
+  // Array<Type> generic
+  const arrayMatch = t.match(/^Array<(.+)>$/);
+  if (arrayMatch) {
+    return { type: 'array', items: mapTypeToSchema(arrayMatch[1], knownTypes) };
+  }
+
+  // Record<K, V> → object with additionalProperties
+  const recordMatch = t.match(/^Record<(.+)>$/);
+  if (recordMatch) {
+    const [, valueType] = splitGenericArgs(recordMatch[1]);
+    return { type: 'object', additionalProperties: mapTypeToSchema(valueType, knownTypes) };
+  }
+
+  // Partial<Type> → $ref (we note it but keep the ref)
+  const partialMatch = t.match(/^Partial<(.+)>$/);
+  if (partialMatch) {
+    const inner = partialMatch[1].trim();
+    if (knownTypes.has(inner)) {
+      return { $ref: `#/$defs/${inner}`, description: `Partial<${inner}> — all properties optional` };
+    }
+    return mapTypeToSchema(inner, knownTypes);
+  }
+
+  // Required<Type>
+  const requiredMatch = t.match(/^Required<(.+)>$/);
+  if (requiredMatch) {
+    const inner = requiredMatch[1].trim();
+    if (knownTypes.has(inner)) {
+      return { $ref: `#/$defs/${inner}`, description: `Required<${inner}> — all properties required` };
+    }
+    return mapTypeToSchema(inner, knownTypes);
+  }
+
+  // Inline object type: { key: Type; ... }
+  if (t.startsWith('{') && t.endsWith('}')) {
+    const body = t.slice(1, -1).trim();
+    const props = parseProperties(body);
+    return buildObjectSchema(props, knownTypes);
+  }
+
+  // Tuple: [Type, Type]
+  if (t.startsWith('[') && t.endsWith(']')) {
+    const inner = t.slice(1, -1).trim();
+    const parts = smartSplit(inner, ',');
+    return {
+      type: 'array',
+      items: parts.map(p => mapTypeToSchema(p.trim(), knownTypes)),
+      minItems: parts.length,
+      maxItems: parts.length,
+    } as unknown as JsonSchema;
+  }
+
+  // Reference to known type
+  if (knownTypes.has(t)) {
+    return { $ref: `#/$defs/${t}` };
+  }
+
+  // Fallback — treat as opaque
+  return { description: `Unsupported TypeScript type: ${t}` };
+}
+
+/** Build a JSON Schema object node from parsed properties */
+function buildObjectSchema(props: ParsedProperty[], knownTypes: Set<string>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const prop of props) {
+    properties[prop.key] = mapTypeToSchema(prop.type, knownTypes);
+    if (!prop.optional) {
+      required.push(prop.key);
+    }
+  }
+
+  const schema: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) schema.required = required;
+  return schema;
+}
+
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+/**
+ * Converts TypeScript interfaces and type aliases into a draft-07 JSON Schema.
+ * The first declaration becomes the root; the rest are emitted under `$defs`.
+ */
+export function convertTsToJsonSchema(input: string): ConversionResult {
+  try {
+    if (!input.trim()) return createResult('');
+
+    const parsed = parseTypes(input);
+    if (parsed.length === 0) {
+      return createErrorResult('No TypeScript interfaces or type aliases found. Paste an interface or type declaration.');
+    }
+
+    const knownTypes = new Set(parsed.map(p => p.name));
+    const defs: Record<string, JsonSchema> = {};
+
+    for (const t of parsed) {
+      if (t.kind === 'type-alias' && t.aliasType) {
+        defs[t.name] = mapTypeToSchema(t.aliasType, knownTypes);
+      } else {
+        defs[t.name] = buildObjectSchema(t.properties, knownTypes);
+      }
+    }
+
+    // If there's only one type, make it the root schema; otherwise use $defs
+    let schema: JsonSchema;
+
+    if (parsed.length === 1) {
+      const rootDef = defs[parsed[0].name];
+      schema = {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        title: parsed[0].name,
+        ...rootDef,
+      };
+    } else {
+      // Use the first interface/object type as root, others as $defs
+      const rootType = parsed[0];
+      const rootDef = defs[rootType.name];
+      const otherDefs: Record<string, JsonSchema> = {};
+      for (const t of parsed.slice(1)) {
+        otherDefs[t.name] = defs[t.name];
+      }
+      schema = {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        title: rootType.name,
+        ...rootDef,
+        $defs: otherDefs,
+      };
+    }
+
+    return createResult(JSON.stringify(schema, null, 2));
+  } catch (err) {
+    return createErrorResult(`Conversion failed: ${(err as Error).message}`);
+  }
+}
+
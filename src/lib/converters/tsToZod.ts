@@ -0,0 +1,317 @@
+// src/lib/converters/tsToZod.ts
+// ─── TypeScript-to-Zod Converter ────────────────────────────────────────────
+// Extracts `interface` / `type` declarations with a multi-pass, brace-depth
+// tokenizer and maps every TypeScript type expression onto a Zod builder.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+import { OPENERS, findClosingDelimiter, skipString, smartSplit, splitGenericArgs } from './tsTokenizer';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Maximum input size in characters before conversion is refused */
+export const MAX_INPUT_LENGTH = 200_000;
+
+// ─── TYPES ──────────────────────────────────────────────────────────────────
+
+interface ParsedProperty {
+  key: string;
+  type: string;
+  optional: boolean;
+  readonly: boolean;
+}
+
+interface ParsedType {
+  name: string;
+  kind: 'interface' | 'type-object' | 'type-alias';
+  properties: ParsedProperty[];
+  aliasType?: string;
+}
+
+// ─── HELPERS ────────────────────────────────────────────────────────────────
+
+function sanitizeId(n: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(n)
+    ? n
+    : n.replace(/[^a-zA-Z0-9_$]/g, '_').replace(/^(\d)/, '_$1');
+}
+
+function sanitizeKey(k: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(k) ? k : JSON.stringify(k);
+}
+
+// ─── TYPE MAPPER ────────────────────────────────────────────────────────────
+
+function mapTypeToZod(ts: string, known: Set<string>): string {
+  const t = ts.trim();
+
+  // Primitives & built-ins
+  if (t === 'null') return 'z.null()';
+  if (t === 'undefined') return 'z.undefined()';
+  if (t === 'any') return 'z.any()';
+  if (t === 'unknown') return 'z.unknown()';
+  if (t === 'never') return 'z.never()';
+  if (t === 'void') return 'z.void()';
+  if (t === 'Date') return 'z.date()';
+  if (t === 'string') return 'z.string()';
+  if (t === 'number') return 'z.number()';
+  if (t === 'boolean') return 'z.boolean()';
+  if (t === 'bigint') return 'z.bigint()';
+  if (t === 'symbol') return 'z.symbol()';
+
+  // Literals (single-value only; strict regex prevents matching "A" | "B" as one literal)
+  if (/^"[^"]*"$/.test(t) || /^'[^']*'$/.test(t)) return `z.literal(${t})`;
+  if (/^-?\d+(\.\d+)?$/.test(t)) return `z.literal(${t})`;
+  if (t === 'true' || t === 'false') return `z.literal(${t})`;
+
+  // Unwrap outer parens: (A | B) → A | B
+  if (t.startsWith('(') && t.endsWith(')')) {
+    const close = findClosingDelimiter(t, 0);
+    if (close === t.length - 1) return mapTypeToZod(t.slice(1, -1), known);
+  }
+
+  // Unions (depth-aware split)
+  const uParts = smartSplit(t, '|');
+  if (uParts.length > 1) {
+    const allLit = uParts.every(p => /^["'].*["']$/.test(p.trim()));
+    if (allLit) return `z.enum([${uParts.map(p => p.trim()).join(', ')}])`;
+    if (uParts.length === 2 && uParts.some(p => p.trim() === 'null')) {
+      const nonNull = uParts.find(p => p.trim() !== 'null')!;
+      return `${mapTypeToZod(nonNull, known)}.nullable()`;
+    }
+    const members = uParts.map(p => mapTypeToZod(p.trim(), known));
+    return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
+  }
+
+  // Intersections (depth-aware split, correct .and() chaining)
+  const iParts = smartSplit(t, '&');
+  if (iParts.length > 1) {
+    return iParts.map(p => mapTypeToZod(p.trim(), known)).reduce((a, b) => `${a}.and(${b})`);
+  }
+
+  // Array: T[]
+  if (t.endsWith('[]')) return `z.array(${mapTypeToZod(t.slice(0, -2), known)})`;
+
+  // Generic wrappers: Array<T>, Set<T>, Map<K,V>, Record<K,V>, Promise<T>, Partial<T>, etc.
+  const genMatch = t.match(/^([A-Za-z_$][A-Za-z0-9_$]*)<(.+)>$/);
+  if (genMatch) {
+    const [, wrapper, inner] = genMatch;
+    if (wrapper === 'Array') return `z.array(${mapTypeToZod(inner, known)})`;
+    if (wrapper === 'Set') return `z.set(${mapTypeToZod(inner, known)})`;
+    if (wrapper === 'Promise') return `z.promise(${mapTypeToZod(inner, known)})`;
+    if (wrapper === 'Map') {
+      const [k, v] = splitGenericArgs(inner);
+      return `z.map(${mapTypeToZod(k, known)}, ${mapTypeToZod(v, known)})`;
+    }
+    if (wrapper === 'Record') {
+      const [k, v] = splitGenericArgs(inner);
+      return `z.record(${mapTypeToZod(k, known)}, ${mapTypeToZod(v, known)})`;
+    }
+    if (wrapper === 'Partial' && known.has(inner.trim()))
+      return `${sanitizeId(inner.trim())}Schema.partial()`;
+    if (wrapper === 'Required' && known.has(inner.trim()))
+      return `${sanitizeId(inner.trim())}Schema.required()`;
+    if (wrapper === 'Pick') {
+      const [base, keys] = splitGenericArgs(inner);
+      if (known.has(base.trim())) {
+        const kl = smartSplit(keys, '|').map(k => k.trim().replace(/^["']|["']$/g, ''));
+        return `${sanitizeId(base.trim())}Schema.pick({ ${kl.map(k => `${k}: true`).join(', ')} })`;
+      }
+    }
+    if (wrapper === 'Omit') {
+      const [base, keys] = splitGenericArgs(inner);
+      if (known.has(base.trim())) {
+        const kl = smartSplit(keys, '|').map(k => k.trim().replace(/^["']|["']$/g, ''));
+        return `${sanitizeId(base.trim())}Schema.omit({ ${kl.map(k => `${k}: true`).join(', ')} })`;
+      }
+    }
+  }
+
+  // Tuple: [A, B, C]
+  if (t.startsWith('[') && t.endsWith(']')) {
+    const inner = t.slice(1, -1).trim();
+    if (!inner) return 'z.tuple([])';
+    return `z.tuple([${smartSplit(inner, ',').map(m => mapTypeToZod(m.trim(), known)).join(', ')}])`;
+  }
+
+  // Inline object: { key: Type; ... }
+  if (t.startsWith('{') && t.endsWith('}')) {
+    const inner = t.slice(1, -1).trim();
+    if (!inner) return 'z.object({})';
+    const ps = parseProperties(inner);
+    if (ps.length === 0) return 'z.object({})';
+    const fields = ps.map(p => {
+      let zod = mapTypeToZod(p.type, known);
+      if (p.optional) zod += '.optional()';
+      return `${sanitizeKey(p.key)}: ${zod}`;
+    });
+    return `z.object({ ${fields.join(', ')} })`;
+  }
+
+  // Known type reference
+  if (known.has(t)) return `${sanitizeId(t)}Schema`;
+
+  return 'z.unknown()';
+}
+
+// ─── MULTI-PASS PARSER ──────────────────────────────────────────────────────
+
+/**
+ * Find the end of a type alias body (everything after `type X = `).
+ * Terminates on `;` at depth 0, or a newline followed by a new declaration.
+ */
+function findAliasEnd(src: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"' || ch === "'" || ch === '`') { i = skipString(src, i); continue; }
+    if (ch === '>' && i > 0 && src[i - 1] === '=') continue;
+    if (OPENERS.has(ch)) depth++;
+    if (ch === '}' || ch === ')' || ch === ']' || ch === '>') depth--;
+    if (ch === ';' && depth === 0) return i;
+    if (ch === '\n' && depth === 0) {
+      const rest = src.slice(i + 1).trimStart();
+      if (/^(?:export\s+)?(?:interface|type|enum|const|class|function)\s/.test(rest)) return i;
+    }
+  }
+  return src.length;
+}
+
+/** Extract all interface / type declarations via multi-pass brace-depth tokenizer. */
+function parseTypeScriptCode(code: string): ParsedType[] {
+  const types: ParsedType[] = [];
+  const declRe = /(?:export\s+)?(?:(interface)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)(?:\s+extends\s+[a-zA-Z0-9_$,\s<>]+)?\s*\{|(type)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*=\s*)/g;
+
+  let m: RegExpExecArray | null;
+  while ((m = declRe.exec(code)) !== null) {
+    const isInterface = m[1] === 'interface';
+    const name = isInterface ? m[2] : m[4];
+    const matchEnd = m.index + m[0].length;
+
+    if (isInterface) {
+      const braceOpen = matchEnd - 1;
+      const braceClose = findClosingDelimiter(code, braceOpen);
+      if (braceClose === -1) continue;
+      types.push({ name, kind: 'interface', properties: parseProperties(code.slice(braceOpen + 1, braceClose)) });
+      declRe.lastIndex = braceClose + 1;
+    } else {
+      const rest = code.slice(matchEnd).trimStart();
+      if (rest.startsWith('{')) {
+        const braceOpen = code.indexOf('{', matchEnd);
+        const braceClose = findClosingDelimiter(code, braceOpen);
+        if (braceClose === -1) continue;
+        types.push({ name, kind: 'type-object', properties: parseProperties(code.slice(braceOpen + 1, braceClose)) });
+        declRe.lastIndex = braceClose + 1;
+      } else {
+        const aliasEnd = findAliasEnd(code, matchEnd);
+        const body = code.slice(matchEnd, aliasEnd).trim();
+        if (body) types.push({ name, kind: 'type-alias', properties: [], aliasType: body });
+        declRe.lastIndex = aliasEnd + 1;
+      }
+    }
+  }
+  return types;
+}
+
+/** Depth-aware property splitter: splits on `;` or `\n` only at depth 0. */
+function depthAwareSplit(body: string): string[] {
+  const parts: string[] = [];
+  let cur = '';
+  let depth = 0;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const end = skipString(body, i);
+      cur += body.slice(i, end + 1);
+      i = end;
+      continue;
+    }
+    if (ch === '>' && i > 0 && body[i - 1] === '=') { cur += ch; continue; }
+    if (OPENERS.has(ch)) depth++;
+    if (ch === '}' || ch === ')' || ch === ']' || ch === '>') depth--;
+    if (depth === 0 && (ch === ';' || ch === '\n')) {
+      if (cur.trim()) parts.push(cur.trim());
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  if (cur.trim()) parts.push(cur.trim());
+  return parts;
+}
+
+function parseProperties(body: string): ParsedProperty[] {
+  const props: ParsedProperty[] = [];
+  for (const line of depthAwareSplit(body)) {
+    if (line.startsWith('//') || line.startsWith('/*')) continue;
+    const pm = line.match(/^(readonly\s+)?([a-zA-Z_$][a-zA-Z0-9_$]*)(\?)?:\s*(.+)$/s);
+    if (!pm) continue;
+    props.push({
+      key: pm[2],
+      type: pm[4].replace(/[,;]\s*$/, '').trim(),
+      optional: !!pm[3],
+      readonly: !!pm[1],
+    });
+  }
+  return props;
+}
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+/**
+ * Converts TypeScript interfaces and type aliases into Zod schemas plus
+ * `z.infer` type exports, one pair per declaration.
+ */
+export function convertTsToZod(input: string): ConversionResult {
+  const trimmed = input.trim();
+  if (!trimmed) return createResult('');
+
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    return createErrorResult(`Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)}KB limit.`);
+  }
+
+  try {
+    const parsed = parseTypeScriptCode(trimmed);
+
+    if (parsed.length === 0) {
+      return createResult(
+        '// ⚠️  No valid TypeScript interfaces or types detected.\n// Expected format:\n//   interface User { name: string; }\n//   type Product = { id: number; }\n//   type Status = "ACTIVE" | "INACTIVE";',
+      );
+    }
+
+    const known = new Set(parsed.map(t => t.name));
+    const lines: string[] = [
+      'import { z } from "zod";',
+      '',
+      '// Generated from TypeScript definitions',
+      `// Total types converted: ${parsed.length}`,
+      '',
+    ];
+
+    for (const type of parsed) {
+      const safe = sanitizeId(type.name);
+
+      if (type.kind === 'type-alias' && type.aliasType) {
+        lines.push(`export const ${safe}Schema = ${mapTypeToZod(type.aliasType, known)};`);
+      } else {
+        const fields = type.properties.map(p => {
+          let zod = mapTypeToZod(p.type, known);
+          if (p.optional) zod += '.optional()';
+          return `  ${sanitizeKey(p.key)}: ${zod},`;
+        });
+        lines.push(
+          fields.length === 0
+            ? `export const ${safe}Schema = z.object({});`
+            : `export const ${safe}Schema = z.object({\n${fields.join('\n')}\n});`,
+        );
+      }
+      lines.push(`export type ${safe} = z.infer<typeof ${safe}Schema>;`);
+      lines.push('');
+    }
+
+    lines.push(`// ✅ Successfully converted ${parsed.length} type${parsed.length !== 1 ? 's' : ''}`);
+    return createResult(lines.join('\n'));
+  } catch (err) {
+    return createErrorResult(`Conversion failed: ${(err as Error).message}`);
+  }
+}
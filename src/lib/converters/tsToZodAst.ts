@@ -0,0 +1,718 @@
+// src/lib/converters/tsToZodAst.ts
+// ─── TypeScript-to-Zod Converter (Compiler API) ──────────────────────────────
+// Walks the real TypeScript AST instead of scanning strings, so `extends`,
+// generics, utility types, template literals, tuples and discriminated unions
+// all map onto the matching Zod builder.
+//
+// Architecture:
+//   Step 1 — Collect:  Interfaces (merged by name), type aliases and enums.
+//   Step 2 — Order:    Tarjan's SCC over the reference graph emits every
+//                      dependency before its dependents; members of a cycle
+//                      reference each other through `z.lazy()`.
+//   Step 3 — Emit:     One `XSchema` const per declaration. Recursive ones
+//                      keep their TS declaration and a `z.ZodType<X>`
+//                      annotation because `z.infer` can't see through cycles.
+//
+// The compiler is several MB — only import this module from a Web Worker or
+// from Node (the CLI). `tsToZod.ts` remains the instant, dependency-free path.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import ts from 'typescript';
+import { MAX_INPUT_LENGTH } from './tsToZod';
+import { createErrorResult, createResult, type ConversionResult } from './types';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+type DeclarationNode = ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration;
+
+interface Declaration {
+  name: string;
+  /** Interfaces can be declared several times; the parts are merged */
+  nodes: DeclarationNode[];
+  typeParams: string[];
+}
+
+interface EmitContext {
+  source: ts.SourceFile;
+  decls: Map<string, Declaration>;
+  /** Declarations whose schema const already exists in the output */
+  emitted: Set<string>;
+  /** Generic parameters in scope — they become schema-valued function args */
+  typeParams: Set<string>;
+  warnings: Set<string>;
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+const IDENTIFIER_RE = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
+
+function sanitizeId(n: string): string {
+  return IDENTIFIER_RE.test(n) ? n : n.replace(/[^a-zA-Z0-9_$]/g, '_').replace(/^(\d)/, '_$1');
+}
+
+function sanitizeKey(k: string): string {
+  return IDENTIFIER_RE.test(k) ? k : JSON.stringify(k);
+}
+
+function schemaName(name: string): string {
+  return `${sanitizeId(name)}Schema`;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === kind);
+}
+
+/** Text of a property name, or `null` for computed keys we can't evaluate */
+function propertyNameText(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  if (ts.isPrivateIdentifier(name)) return null;
+  if (ts.isComputedPropertyName(name) && ts.isStringLiteralLike(name.expression)) return name.expression.text;
+  return null;
+}
+
+function entityNameText(name: ts.EntityName | ts.Expression): string {
+  if (ts.isIdentifier(name)) return name.text;
+  if (ts.isQualifiedName(name)) return `${entityNameText(name.left)}.${name.right.text}`;
+  if (ts.isPropertyAccessExpression(name)) return `${entityNameText(name.expression)}.${name.name.text}`;
+  return name.getText();
+}
+
+/** First JSDoc comment attached to `node`, flattened to a single line */
+function jsDocText(node: ts.Node): string | null {
+  const doc = ts.getJSDocCommentsAndTags(node).find(ts.isJSDoc);
+  const text = doc ? ts.getTextOfJSDocComment(doc.comment) : undefined;
+  return text ? text.replace(/\s+/g, ' ').trim() : null;
+}
+
+/** String-literal members of a `'a' | 'b'` type, or `null` if any member isn't one */
+function stringLiteralKeys(node: ts.TypeNode): string[] | null {
+  const members = ts.isUnionTypeNode(node) ? node.types : [node];
+  const keys: string[] = [];
+  for (const m of members) {
+    if (!ts.isLiteralTypeNode(m) || !ts.isStringLiteral(m.literal)) return null;
+    keys.push(m.literal.text);
+  }
+  return keys;
+}
+
+function unwrapParens(node: ts.TypeNode): ts.TypeNode {
+  return ts.isParenthesizedTypeNode(node) ? unwrapParens(node.type) : node;
+}
+
+// ─── STEP 1: COLLECT ─────────────────────────────────────────────────────────
+
+function collectDeclarations(source: ts.SourceFile): Map<string, Declaration> {
+  const decls = new Map<string, Declaration>();
+
+  const visit = (statement: ts.Statement) => {
+    if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+      statement.body.statements.forEach(visit);
+      return;
+    }
+    if (!ts.isInterfaceDeclaration(statement) && !ts.isTypeAliasDeclaration(statement) && !ts.isEnumDeclaration(statement)) {
+      return;
+    }
+
+    const name = statement.name.text;
+    const existing = decls.get(name);
+    if (existing) {
+      if (ts.isInterfaceDeclaration(statement) && existing.nodes.every(ts.isInterfaceDeclaration)) {
+        existing.nodes.push(statement);
+      }
+      return; // duplicate alias/enum — first one wins, like a redeclaration error would
+    }
+
+    const typeParams = ts.isEnumDeclaration(statement)
+      ? []
+      : (statement.typeParameters ?? []).map((p) => p.name.text);
+    decls.set(name, { name, nodes: [statement], typeParams });
+  };
+
+  source.statements.forEach(visit);
+  return decls;
+}
+
+// ─── STEP 2: ORDER ───────────────────────────────────────────────────────────
+
+/** Names of local declarations referenced anywhere inside `decl` */
+function dependenciesOf(decl: Declaration, decls: Map<string, Declaration>): Set<string> {
+  const deps = new Set<string>();
+  const shadowed = new Set(decl.typeParams);
+
+  const walk = (node: ts.Node) => {
+    let name: string | null = null;
+    if (ts.isTypeReferenceNode(node)) name = entityNameText(node.typeName);
+    else if (ts.isExpressionWithTypeArguments(node)) name = entityNameText(node.expression);
+    if (name && decls.has(name) && !shadowed.has(name)) deps.add(name);
+    ts.forEachChild(node, walk);
+  };
+
+  decl.nodes.forEach(walk);
+  return deps;
+}
+
+/**
+ * Tarjan's strongly-connected-components algorithm. Components come out
+ * dependencies-first, which is exactly the order the schemas must be emitted.
+ */
+function orderDeclarations(decls: Map<string, Declaration>): { order: string[][]; recursive: Set<string> } {
+  const graph = new Map([...decls.values()].map((d) => [d.name, dependenciesOf(d, decls)]));
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const order: string[][] = [];
+  const recursive = new Set<string>();
+  let counter = 0;
+
+  const strongConnect = (v: string) => {
+    index.set(v, counter);
+    low.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+
+    for (const w of graph.get(v)!) {
+      if (!index.has(w)) {
+        strongConnect(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+
+    if (low.get(v) === index.get(v)) {
+      const component: string[] = [];
+      let w: string;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.push(w);
+      } while (w !== v);
+
+      // Keep source order inside a cycle so the output reads naturally
+      component.reverse();
+      if (component.length > 1 || graph.get(v)!.has(v)) component.forEach((n) => recursive.add(n));
+      order.push(component);
+    }
+  };
+
+  for (const name of decls.keys()) {
+    if (!index.has(name)) strongConnect(name);
+  }
+  return { order, recursive };
+}
+
+// ─── STEP 3: TYPE MAPPER ─────────────────────────────────────────────────────
+
+function unsupported(ctx: EmitContext, node: ts.Node, what: string): string {
+  ctx.warnings.add(`${what} are not supported — \`${node.getText(ctx.source)}\` mapped to z.unknown().`);
+  return 'z.unknown()';
+}
+
+function mapType(node: ts.TypeNode, ctx: EmitContext): string {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword: return 'z.string()';
+    case ts.SyntaxKind.NumberKeyword: return 'z.number()';
+    case ts.SyntaxKind.BooleanKeyword: return 'z.boolean()';
+    case ts.SyntaxKind.BigIntKeyword: return 'z.bigint()';
+    case ts.SyntaxKind.SymbolKeyword: return 'z.symbol()';
+    case ts.SyntaxKind.AnyKeyword: return 'z.any()';
+    case ts.SyntaxKind.UnknownKeyword: return 'z.unknown()';
+    case ts.SyntaxKind.NeverKeyword: return 'z.never()';
+    case ts.SyntaxKind.VoidKeyword: return 'z.void()';
+    case ts.SyntaxKind.UndefinedKeyword: return 'z.undefined()';
+    case ts.SyntaxKind.ObjectKeyword: return 'z.record(z.string(), z.unknown())';
+  }
+
+  if (ts.isParenthesizedTypeNode(node)) return mapType(node.type, ctx);
+  if (ts.isLiteralTypeNode(node)) return mapLiteral(node, ctx);
+  if (ts.isArrayTypeNode(node)) return `z.array(${mapType(node.elementType, ctx)})`;
+  if (ts.isTupleTypeNode(node)) return mapTuple(node, ctx);
+  if (ts.isUnionTypeNode(node)) return mapUnion(node.types, ctx);
+  if (ts.isIntersectionTypeNode(node)) return mapIntersection(node.types, ctx);
+  if (ts.isTypeLiteralNode(node)) return renderObject(node.members, ctx, false);
+  if (ts.isTypeReferenceNode(node)) return mapReference(entityNameText(node.typeName), node.typeArguments, node, ctx);
+  if (ts.isTemplateLiteralTypeNode(node)) return mapTemplateLiteral(node, ctx);
+  if (ts.isMappedTypeNode(node)) return mapMappedType(node, ctx);
+  if (ts.isFunctionTypeNode(node)) return mapFunction(node.parameters, node.type, ctx);
+
+  if (ts.isTypeOperatorNode(node)) {
+    if (node.operator === ts.SyntaxKind.ReadonlyKeyword) return `${mapType(node.type, ctx)}.readonly()`;
+    if (node.operator === ts.SyntaxKind.UniqueKeyword) return 'z.symbol()';
+    if (isObjectLike(node.type, ctx)) return `${mapType(node.type, ctx)}.keyof()`;
+    return unsupported(ctx, node, '`keyof` on non-object types');
+  }
+
+  if (ts.isIndexedAccessTypeNode(node)) {
+    const keys = stringLiteralKeys(unwrapParens(node.indexType));
+    if (keys?.length === 1 && isObjectLike(node.objectType, ctx)) {
+      const key = keys[0];
+      const access = IDENTIFIER_RE.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+      return `${mapType(node.objectType, ctx)}.shape${access}`;
+    }
+    return unsupported(ctx, node, 'Indexed access types other than `T["key"]`');
+  }
+
+  if (ts.isConditionalTypeNode(node)) return unsupported(ctx, node, 'Conditional types');
+  if (ts.isTypeQueryNode(node)) return unsupported(ctx, node, '`typeof` queries');
+  if (ts.isImportTypeNode(node)) return unsupported(ctx, node, 'Import types');
+  return unsupported(ctx, node, 'These types');
+}
+
+function mapLiteral(node: ts.LiteralTypeNode, ctx: EmitContext): string {
+  const lit = node.literal;
+  if (lit.kind === ts.SyntaxKind.NullKeyword) return 'z.null()';
+  if (lit.kind === ts.SyntaxKind.TrueKeyword) return 'z.literal(true)';
+  if (lit.kind === ts.SyntaxKind.FalseKeyword) return 'z.literal(false)';
+  if (ts.isStringLiteral(lit) || ts.isNoSubstitutionTemplateLiteral(lit)) return `z.literal(${JSON.stringify(lit.text)})`;
+  return `z.literal(${lit.getText(ctx.source)})`; // numeric, negative numeric, bigint
+}
+
+function mapTuple(node: ts.TupleTypeNode, ctx: EmitContext): string {
+  const items: string[] = [];
+  let rest: string | null = null;
+
+  for (const el of node.elements) {
+    let type: ts.TypeNode = el;
+    let optional = false;
+    let isRest = false;
+
+    if (ts.isNamedTupleMember(el)) {
+      type = el.type;
+      optional = !!el.questionToken;
+      isRest = !!el.dotDotDotToken;
+    }
+    if (ts.isOptionalTypeNode(type)) {
+      optional = true;
+      type = type.type;
+    }
+    if (ts.isRestTypeNode(type)) {
+      isRest = true;
+      type = type.type;
+    }
+
+    if (isRest) {
+      const inner = unwrapParens(type);
+      rest = ts.isArrayTypeNode(inner) ? mapType(inner.elementType, ctx) : mapType(type, ctx);
+    } else {
+      items.push(mapType(type, ctx) + (optional ? '.optional()' : ''));
+    }
+  }
+
+  const tuple = `z.tuple([${items.join(', ')}])`;
+  return rest ? `${tuple}.rest(${rest})` : tuple;
+}
+
+function mapTemplateLiteral(node: ts.TemplateLiteralTypeNode, ctx: EmitContext): string {
+  const parts: string[] = [];
+  if (node.head.text) parts.push(JSON.stringify(node.head.text));
+  for (const span of node.templateSpans) {
+    parts.push(mapType(span.type, ctx));
+    if (span.literal.text) parts.push(JSON.stringify(span.literal.text));
+  }
+  return `z.templateLiteral([${parts.join(', ')}])`;
+}
+
+function mapMappedType(node: ts.MappedTypeNode, ctx: EmitContext): string {
+  const keyType = node.typeParameter.constraint ? mapType(node.typeParameter.constraint, ctx) : 'z.string()';
+  const keyName = node.typeParameter.name.text;
+
+  // The value may depend on the key (`T[K]`) — that can't be expressed as a record
+  let dependsOnKey = false;
+  const walk = (n: ts.Node) => {
+    if (ts.isTypeReferenceNode(n) && entityNameText(n.typeName) === keyName) dependsOnKey = true;
+    ts.forEachChild(n, walk);
+  };
+  if (node.type) walk(node.type);
+  if (dependsOnKey) return unsupported(ctx, node, 'Mapped types whose value depends on the key');
+
+  const valueType = node.type ? mapType(node.type, ctx) : 'z.unknown()';
+  const optional = node.questionToken && node.questionToken.kind !== ts.SyntaxKind.MinusToken;
+  return `z.${optional ? 'partialRecord' : 'record'}(${keyType}, ${valueType})`;
+}
+
+function mapFunction(
+  params: ts.NodeArray<ts.ParameterDeclaration>,
+  returnType: ts.TypeNode | undefined,
+  ctx: EmitContext,
+): string {
+  const input = params
+    .filter((p) => !p.dotDotDotToken)
+    .map((p) => (p.type ? mapType(p.type, ctx) : 'z.any()') + (p.questionToken ? '.optional()' : ''));
+  const output = returnType ? mapType(returnType, ctx) : 'z.void()';
+  return `z.function({ input: [${input.join(', ')}], output: ${output} })`;
+}
+
+// ─── UNIONS & INTERSECTIONS ──────────────────────────────────────────────────
+
+function flattenUnion(types: readonly ts.TypeNode[]): ts.TypeNode[] {
+  return types.flatMap((t) => {
+    const inner = unwrapParens(t);
+    return ts.isUnionTypeNode(inner) ? flattenUnion(inner.types) : [inner];
+  });
+}
+
+function isNullLiteral(t: ts.TypeNode): boolean {
+  return ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword;
+}
+
+function mapUnion(types: readonly ts.TypeNode[], ctx: EmitContext): string {
+  const all = flattenUnion(types);
+  const nullable = all.some(isNullLiteral);
+  const optional = all.some((t) => t.kind === ts.SyntaxKind.UndefinedKeyword);
+  let members = all.filter((t) => !isNullLiteral(t) && t.kind !== ts.SyntaxKind.UndefinedKeyword);
+
+  // `true | false` is just `boolean`
+  const bools = members.filter((t) => ts.isLiteralTypeNode(t) && (t.literal.kind === ts.SyntaxKind.TrueKeyword || t.literal.kind === ts.SyntaxKind.FalseKeyword));
+  if (bools.length === 2) {
+    members = members.filter((t) => !bools.includes(t));
+    members.push(ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword));
+  }
+
+  let schema: string;
+  const literalKeys = members.length > 0 ? stringLiteralKeys(ts.factory.createUnionTypeNode(members)) : null;
+
+  if (members.length === 0) {
+    schema = nullable ? 'z.null()' : 'z.undefined()';
+    return schema;
+  } else if (literalKeys && literalKeys.length > 1) {
+    schema = `z.enum([${literalKeys.map((k) => JSON.stringify(k)).join(', ')}])`;
+  } else if (members.length === 1) {
+    schema = mapType(members[0], ctx);
+  } else {
+    const mapped = members.map((m) => mapType(m, ctx));
+    const discriminator = findDiscriminator(members, ctx);
+    schema = discriminator && !mapped.some((m) => m.startsWith('z.lazy('))
+      ? `z.discriminatedUnion(${JSON.stringify(discriminator)}, [${mapped.join(', ')}])`
+      : `z.union([${mapped.join(', ')}])`;
+  }
+
+  if (nullable) schema += '.nullable()';
+  if (optional) schema += '.optional()';
+  return schema;
+}
+
+/**
+ * A union is discriminated when every member is an object type and they all
+ * share a property whose type is a literal — `{ kind: 'a' } | { kind: 'b' }`.
+ */
+function findDiscriminator(members: ts.TypeNode[], ctx: EmitContext): string | null {
+  const shapes = members.map((m) => objectMembers(m, ctx, new Set()));
+  if (shapes.some((s) => s === null)) return null;
+
+  const literalProps = shapes.map((members) => {
+    const props = new Set<string>();
+    for (const m of members!) {
+      if (!ts.isPropertySignature(m) || !m.type || m.questionToken) continue;
+      const key = propertyNameText(m.name);
+      if (key !== null && ts.isLiteralTypeNode(unwrapParens(m.type))) props.add(key);
+    }
+    return props;
+  });
+
+  return [...literalProps[0]].find((key) => literalProps.every((p) => p.has(key))) ?? null;
+}
+
+/** Members of an object-shaped type node, following local references */
+function objectMembers(node: ts.TypeNode, ctx: EmitContext, seen: Set<string>): ts.TypeElement[] | null {
+  const inner = unwrapParens(node);
+  if (ts.isTypeLiteralNode(inner)) return [...inner.members];
+  if (!ts.isTypeReferenceNode(inner) || inner.typeArguments) return null;
+
+  const name = entityNameText(inner.typeName);
+  const decl = ctx.decls.get(name);
+  if (!decl || seen.has(name) || decl.typeParams.length > 0) return null;
+  seen.add(name);
+
+  const [first] = decl.nodes;
+  if (ts.isTypeAliasDeclaration(first)) return objectMembers(first.type, ctx, seen);
+  if (ts.isInterfaceDeclaration(first)) {
+    return (decl.nodes as ts.InterfaceDeclaration[]).flatMap((n) => [...n.members]);
+  }
+  return null;
+}
+
+/** Whether the schema for `node` is a `z.object` (so `.extend`, `.pick`, … apply) */
+function isObjectLike(node: ts.TypeNode, ctx: EmitContext, seen = new Set<string>()): boolean {
+  const inner = unwrapParens(node);
+  if (ts.isTypeLiteralNode(inner)) return true;
+  if (ts.isIntersectionTypeNode(inner)) return inner.types.every((t) => isObjectLike(t, ctx, seen));
+  if (!ts.isTypeReferenceNode(inner)) return false;
+
+  const name = entityNameText(inner.typeName);
+  const args = inner.typeArguments ?? [];
+  if (['Partial', 'Required', 'Readonly', 'Pick', 'Omit'].includes(name) && args[0]) {
+    return isObjectLike(args[0], ctx, seen);
+  }
+
+  const decl = ctx.decls.get(name);
+  if (!decl || seen.has(name) || !ctx.emitted.has(name)) return false; // lazy refs aren't objects
+  seen.add(name);
+  const [first] = decl.nodes;
+  if (ts.isInterfaceDeclaration(first)) return true;
+  return ts.isTypeAliasDeclaration(first) && isObjectLike(first.type, ctx, seen);
+}
+
+function mapIntersection(types: readonly ts.TypeNode[], ctx: EmitContext): string {
+  if (types.every((t) => isObjectLike(t, ctx))) {
+    const [first, ...rest] = types;
+    return rest.reduce((acc, t) => `${acc}.extend(${shapeOf(t, ctx)})`, mapType(first, ctx));
+  }
+  return types.map((t) => mapType(t, ctx)).reduce((a, b) => `${a}.and(${b})`);
+}
+
+/** The argument `.extend()` needs: an inline shape, or `XSchema.shape` */
+function shapeOf(node: ts.TypeNode, ctx: EmitContext): string {
+  const inner = unwrapParens(node);
+  if (ts.isTypeLiteralNode(inner)) return renderShape(inner.members, ctx, false);
+  return `${mapType(inner, ctx)}.shape`;
+}
+
+// ─── REFERENCES ──────────────────────────────────────────────────────────────
+
+function mapReference(
+  name: string,
+  typeArgs: ts.NodeArray<ts.TypeNode> | undefined,
+  node: ts.Node,
+  ctx: EmitContext,
+): string {
+  const args = typeArgs ?? ts.factory.createNodeArray<ts.TypeNode>();
+  const arg = (i: number) => (args[i] ? mapType(args[i], ctx) : 'z.unknown()');
+
+  if (ctx.typeParams.has(name)) return name;
+
+  const decl = ctx.decls.get(name);
+  if (decl) {
+    const generic = decl.typeParams.length > 0
+      ? `${schemaName(name)}(${decl.typeParams.map((_, i) => arg(i)).join(', ')})`
+      : schemaName(name);
+    return ctx.emitted.has(name) ? generic : `z.lazy(() => ${generic})`;
+  }
+
+  switch (name) {
+    case 'Date': return 'z.date()';
+    case 'Array':
+    case 'ReadonlyArray': return `z.array(${arg(0)})`;
+    case 'Set':
+    case 'ReadonlySet': return `z.set(${arg(0)})`;
+    case 'Map':
+    case 'ReadonlyMap': return `z.map(${arg(0)}, ${arg(1)})`;
+    case 'Record': return `z.record(${arg(0)}, ${arg(1)})`;
+    case 'Promise': return `z.promise(${arg(0)})`;
+    case 'Partial': return `${arg(0)}.partial()`;
+    case 'Required': return `${arg(0)}.required()`;
+    case 'Readonly': return `${arg(0)}.readonly()`;
+    case 'NonNullable': return args[0] ? mapNonNullable(args[0], ctx) : 'z.unknown()';
+    case 'Pick':
+    case 'Omit': {
+      const keys = args[1] ? stringLiteralKeys(unwrapParens(args[1])) : null;
+      if (!keys) return unsupported(ctx, node, `${name} with non-literal keys`);
+      const mask = keys.map((k) => `${sanitizeKey(k)}: true`).join(', ');
+      return `${arg(0)}.${name === 'Pick' ? 'pick' : 'omit'}({ ${mask} })`;
+    }
+    case 'Exclude':
+    case 'Extract': {
+      const keys = args[1] ? stringLiteralKeys(unwrapParens(args[1])) : null;
+      if (!keys) return unsupported(ctx, node, `${name} with non-literal members`);
+      return `${arg(0)}.${name === 'Exclude' ? 'exclude' : 'extract'}([${keys.map((k) => JSON.stringify(k)).join(', ')}])`;
+    }
+  }
+
+  ctx.warnings.add(`Unknown type "${name}" — mapped to z.unknown(). Paste its declaration too.`);
+  return 'z.unknown()';
+}
+
+function mapNonNullable(node: ts.TypeNode, ctx: EmitContext): string {
+  const inner = unwrapParens(node);
+  if (!ts.isUnionTypeNode(inner)) return mapType(inner, ctx);
+  const kept = flattenUnion(inner.types).filter((t) => !isNullLiteral(t) && t.kind !== ts.SyntaxKind.UndefinedKeyword);
+  return mapUnion(kept, ctx);
+}
+
+// ─── OBJECTS ─────────────────────────────────────────────────────────────────
+
+/** Renders the `{ key: schema, … }` shape literal for a set of members */
+function renderShape(members: readonly ts.TypeElement[], ctx: EmitContext, multiline: boolean): string {
+  const fields: string[] = [];
+
+  for (const member of members) {
+    if (ts.isIndexSignatureDeclaration(member)) continue; // handled by renderObject
+    if (!ts.isPropertySignature(member) && !ts.isMethodSignature(member)) {
+      ctx.warnings.add('Call and construct signatures are not supported and were skipped.');
+      continue;
+    }
+
+    const key = propertyNameText(member.name);
+    if (key === null) {
+      ctx.warnings.add(`Computed key \`${member.name.getText(ctx.source)}\` was skipped.`);
+      continue;
+    }
+
+    let schema = ts.isMethodSignature(member)
+      ? mapFunction(member.parameters, member.type, ctx)
+      : member.type ? mapType(member.type, ctx) : 'z.any()';
+    if (member.questionToken && !schema.endsWith('.optional()')) schema += '.optional()';
+
+    const doc = jsDocText(member);
+    if (doc) schema += `.describe(${JSON.stringify(doc)})`;
+
+    fields.push(`${sanitizeKey(key)}: ${schema}`);
+  }
+
+  if (fields.length === 0) return '{}';
+  return multiline
+    ? `{\n${fields.map((f) => `  ${f},`).join('\n')}\n}`
+    : `{ ${fields.join(', ')} }`;
+}
+
+function renderObject(members: readonly ts.TypeElement[], ctx: EmitContext, multiline: boolean): string {
+  const index = members.find(ts.isIndexSignatureDeclaration);
+  const named = members.filter((m) => !ts.isIndexSignatureDeclaration(m));
+  const valueType = index ? mapType(index.type, ctx) : null;
+
+  if (index && named.length === 0) {
+    const keyType = index.parameters[0]?.type ? mapType(index.parameters[0].type, ctx) : 'z.string()';
+    return `z.record(${keyType}, ${valueType})`;
+  }
+
+  const object = `z.object(${renderShape(named, ctx, multiline)})`;
+  return valueType ? `${object}.catchall(${valueType})` : object;
+}
+
+function renderInterface(decl: Declaration, ctx: EmitContext): string {
+  const nodes = decl.nodes as ts.InterfaceDeclaration[];
+  const members = nodes.flatMap((n) => [...n.members]);
+  const bases = nodes
+    .flatMap((n) => n.heritageClauses ?? [])
+    .filter((h) => h.token === ts.SyntaxKind.ExtendsKeyword)
+    .flatMap((h) => [...h.types]);
+
+  if (bases.length === 0) return renderObject(members, ctx, true);
+
+  const baseRefs = bases.map((b) =>
+    ts.factory.createTypeReferenceNode(entityNameText(b.expression), b.typeArguments),
+  );
+  const mapped = bases.map((b) => mapReference(entityNameText(b.expression), b.typeArguments, b, ctx));
+
+  if (!baseRefs.every((r) => isObjectLike(r, ctx))) {
+    ctx.warnings.add(`"${decl.name}" extends a type that isn't a plain object schema — combined with .and().`);
+    return [...mapped, renderObject(members, ctx, true)].reduce((a, b) => `${a}.and(${b})`);
+  }
+
+  let schema = mapped[0];
+  for (const base of mapped.slice(1)) schema += `.extend(${base}.shape)`;
+  if (members.some((m) => !ts.isIndexSignatureDeclaration(m))) {
+    schema += `.extend(${renderShape(members, ctx, true)})`;
+  }
+  const index = members.find(ts.isIndexSignatureDeclaration);
+  if (index) schema += `.catchall(${mapType(index.type, ctx)})`;
+  return schema;
+}
+
+// ─── EMITTER ─────────────────────────────────────────────────────────────────
+
+/** Source text of a declaration, exported so the generated module can use it */
+function declarationText(node: DeclarationNode, source: ts.SourceFile): string {
+  const text = node.getText(source);
+  return hasModifier(node, ts.SyntaxKind.ExportKeyword) ? text : `export ${text.replace(/^declare\s+/, '')}`;
+}
+
+function emitDeclaration(decl: Declaration, recursive: boolean, ctx: EmitContext): string[] {
+  const [first] = decl.nodes;
+  const safe = sanitizeId(decl.name);
+
+  if (ts.isEnumDeclaration(first)) {
+    ctx.emitted.add(decl.name);
+    return [
+      declarationText(first, ctx.source),
+      `export const ${safe}Schema = z.enum(${safe});`,
+    ];
+  }
+
+  ctx.typeParams = new Set(decl.typeParams);
+  const body = ts.isInterfaceDeclaration(first)
+    ? renderInterface(decl, ctx)
+    : ts.isTypeLiteralNode(first.type)
+      ? renderObject(first.type.members, ctx, true)
+      : mapType(first.type, ctx);
+  ctx.typeParams = new Set();
+  ctx.emitted.add(decl.name);
+
+  if (decl.typeParams.length > 0) {
+    const params = decl.typeParams.map((p) => `${p} extends z.ZodType`).join(', ');
+    const args = decl.typeParams.map((p) => `${p}: ${p}`).join(', ');
+    return [
+      ...decl.nodes.map((n) => declarationText(n, ctx.source)),
+      `export const ${safe}Schema = <${params}>(${args}) => ${body};`,
+    ];
+  }
+
+  if (recursive) {
+    return [
+      ...decl.nodes.map((n) => declarationText(n, ctx.source)),
+      `export const ${safe}Schema: z.ZodType<${safe}> = ${body};`,
+    ];
+  }
+
+  return [
+    `export const ${safe}Schema = ${body};`,
+    `export type ${safe} = z.infer<typeof ${safe}Schema>;`,
+  ];
+}
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+/**
+ * Converts TypeScript declarations into Zod schemas using the TypeScript
+ * compiler's parser. Output matches `convertTsToZod` where both agree.
+ */
+export function convertTsToZodAst(input: string): ConversionResult {
+  const trimmed = input.trim();
+  if (!trimmed) return createResult('');
+
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    return createErrorResult(`Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)}KB limit.`);
+  }
+
+  try {
+    const source = ts.createSourceFile('input.ts', trimmed, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const syntaxErrors = (source as ts.SourceFile & { parseDiagnostics?: ts.DiagnosticWithLocation[] }).parseDiagnostics ?? [];
+    if (syntaxErrors.length > 0) {
+      const d = syntaxErrors[0];
+      const { line, character } = source.getLineAndCharacterOfPosition(d.start);
+      return createErrorResult(
+        `Syntax error (${line + 1}:${character + 1}): ${ts.flattenDiagnosticMessageText(d.messageText, ' ')}`,
+      );
+    }
+
+    const decls = collectDeclarations(source);
+    if (decls.size === 0) {
+      return createResult(
+        '// ⚠️  No valid TypeScript interfaces or types detected.\n// Expected format:\n//   interface User { name: string; }\n//   type Product = { id: number; }\n//   type Status = "ACTIVE" | "INACTIVE";',
+      );
+    }
+
+    const ctx: EmitContext = { source, decls, emitted: new Set(), typeParams: new Set(), warnings: new Set() };
+    const { order, recursive } = orderDeclarations(decls);
+
+    const lines: string[] = [
+      'import { z } from "zod";',
+      '',
+      '// Generated from TypeScript definitions',
+      `// Total types converted: ${decls.size}`,
+      '',
+    ];
+
+    for (const component of order) {
+      for (const name of component) {
+        lines.push(...emitDeclaration(decls.get(name)!, recursive.has(name), ctx), '');
+      }
+    }
+
+    lines.push(`// ✅ Successfully converted ${decls.size} type${decls.size !== 1 ? 's' : ''}`);
+    return createResult(lines.join('\n'), [...ctx.warnings]);
+  } catch (err) {
+    return createErrorResult(`Conversion failed: ${(err as Error).message}`);
+  }
+}
@@ -0,0 +1,64 @@
+// src/lib/converters/tsTokenizer.ts
+// ─── TypeScript Source Tokenizer Helpers ─────────────────────────────────────
+// Delimiter-aware scanning primitives shared by the TypeScript-input
+// converters (TS → Zod, TS → JSON Schema). String literals are skipped and
+// `=>` arrows never count as a closing `>`.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const OPENERS = new Set(['{', '(', '[', '<']);
+export const CLOSERS: Record<string, string> = { '{': '}', '(': ')', '[': ']', '<': '>' };
+
+/** Skip past a string literal starting at `i`. Returns index of the closing quote. */
+export function skipString(src: string, i: number): number {
+  const q = src[i];
+  for (let j = i + 1; j < src.length; j++) {
+    if (src[j] === '\\') { j++; continue; }
+    if (src[j] === q) return j;
+  }
+  return src.length - 1;
+}
+
+/** Find the closing delimiter matching the opener at `start`, respecting nesting. */
+export function findClosingDelimiter(src: string, start: number): number {
+  const opener = src[start];
+  const closer = CLOSERS[opener];
+  if (!closer) return -1;
+  let depth = 1;
+  for (let i = start + 1; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"' || ch === "'" || ch === '`') { i = skipString(src, i); continue; }
+    if (ch === '>' && i > 0 && src[i - 1] === '=') continue; // skip => arrows
+    if (ch === opener) depth++;
+    else if (ch === closer) { depth--; if (depth === 0) return i; }
+  }
+  return -1;
+}
+
+/** Split `str` by a single-char `delim` at delimiter depth 0. */
+export function smartSplit(str: string, delim: string): string[] {
+  const parts: string[] = [];
+  let cur = '';
+  let depth = 0;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const end = skipString(str, i);
+      cur += str.slice(i, end + 1);
+      i = end;
+      continue;
+    }
+    if (ch === '>' && i > 0 && str[i - 1] === '=') { cur += ch; continue; }
+    if (OPENERS.has(ch)) depth++;
+    if (ch === '}' || ch === ')' || ch === ']' || ch === '>') depth--;
+    if (ch === delim && depth === 0) { parts.push(cur.trim()); cur = ''; }
+    else cur += ch;
+  }
+  if (cur.trim()) parts.push(cur.trim());
+  return parts;
+}
+
+/** Split generic arguments at the top-level comma: "string, number" → ["string", "number"] */
+export function splitGenericArgs(inner: string): [string, string] {
+  const parts = smartSplit(inner, ',');
+  return [parts[0] ?? '', parts.slice(1).join(', ').trim()];
+}
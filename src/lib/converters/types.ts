@@ -0,0 +1,61 @@
+// src/lib/converters/types.ts
+// ─── Shared Converter Contract ───────────────────────────────────────────────
+// Every converter in `src/lib/converters` is a pure function: source text (or
+// an already-parsed document) in, a `ConversionResult` out. No React, no DOM,
+// no globals — so the same cores back the tool UIs, Node scripts and the CLI.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/** A single structured message produced during conversion */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+/** Result returned by every public converter */
+export interface ConversionResult {
+  /** Generated source code (a placeholder comment when conversion failed) */
+  code: string;
+  /** Non-fatal, human-readable messages — the same text as the warning diagnostics */
+  warnings: string[];
+  /** Every error, warning and note raised while converting */
+  diagnostics: Diagnostic[];
+}
+
+// ─── BUILDERS ────────────────────────────────────────────────────────────────
+
+/** Successful conversion, optionally carrying non-fatal warnings */
+export function createResult(code: string, warnings: string[] = []): ConversionResult {
+  return {
+    code,
+    warnings,
+    diagnostics: warnings.map((message) => ({ severity: 'warning', message })),
+  };
+}
+
+/**
+ * Failed conversion. `code` lets UIs keep showing a helpful placeholder in
+ * the output panel while the error itself is surfaced separately.
+ */
+export function createErrorResult(message: string, code = ''): ConversionResult {
+  return {
+    code,
+    warnings: [],
+    diagnostics: [{ severity: 'error', message }],
+  };
+}
+
+// ─── ACCESSORS ───────────────────────────────────────────────────────────────
+
+/** First error message in the result, or `null` when conversion succeeded */
+export function getErrorMessage(result: ConversionResult): string | null {
+  return result.diagnostics.find((d) => d.severity === 'error')?.message ?? null;
+}
+
+/** True when the result carries at least one error diagnostic */
+export function hasErrors(result: ConversionResult): boolean {
+  return result.diagnostics.some((d) => d.severity === 'error');
+}
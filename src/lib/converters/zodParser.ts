@@ -0,0 +1,878 @@
+// src/lib/converters/zodParser.ts
+// ─── Zod Source Parser ───────────────────────────────────────────────────────
+// Reads Zod schema source without evaluating it. `parseZodFields` is the
+// multi-pass field parser behind Zod → Prompt; `parseZodSchemas` builds on it
+// to turn every `const X = z.…` declaration into a `ZodNode` tree that the
+// reverse converters (Zod → JSON Schema, Zod → TypeScript) emit from.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { findClosingDelimiter, skipString, smartSplit } from './tsTokenizer';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** JSON-compatible value read from a literal in the source */
+export type LiteralValue = string | number | boolean | null | LiteralValue[] | { [key: string]: LiteralValue };
+
+/**
+ * A refinement read from the chain. `min`/`max` are inclusive, `gt`/`lt`
+ * exclusive; the emitter decides whether they bound a length, a count or a
+ * value from the node kind.
+ */
+export type ZodCheck =
+  | { kind: 'min' | 'max' | 'length' | 'gt' | 'lt' | 'multipleOf'; value: number }
+  | { kind: 'int' }
+  | { kind: 'format'; format: string }
+  | { kind: 'pattern'; source: string; flags: string }
+  | { kind: 'startsWith' | 'endsWith' | 'includes'; value: string };
+
+interface ZodNodeBase {
+  optional: boolean;
+  nullable: boolean;
+  /** `.default()` argument when it's a plain literal */
+  defaultValue?: LiteralValue;
+  /** Raw `.default()` argument, kept even when it isn't a literal */
+  defaultSource?: string;
+  description?: string;
+  checks: ZodCheck[];
+}
+
+export type PrimitiveKind =
+  | 'string' | 'number' | 'boolean' | 'bigint' | 'date' | 'null' | 'undefined' | 'any' | 'unknown' | 'never';
+
+export type ZodNode = ZodNodeBase & (
+  | { kind: PrimitiveKind }
+  | { kind: 'literal'; value: LiteralValue }
+  | { kind: 'enum'; values: (string | number)[] }
+  | { kind: 'object'; fields: ParsedField[]; unknownKeys: 'strip' | 'strict' | 'passthrough'; catchall?: ZodNode }
+  | { kind: 'array'; element: ZodNode; unique?: boolean }
+  | { kind: 'tuple'; items: ZodNode[]; rest?: ZodNode }
+  | { kind: 'record'; key: ZodNode; value: ZodNode; partial?: boolean }
+  | { kind: 'union'; options: ZodNode[] }
+  | { kind: 'discriminatedUnion'; discriminator: string; options: ZodNode[] }
+  | { kind: 'intersection'; parts: ZodNode[] }
+  /** Another declared schema, referenced by its variable name */
+  | { kind: 'ref'; name: string }
+);
+
+export type ZodNodeKind = ZodNode['kind'];
+
+export interface ParsedField {
+  key: string;
+  type: string;
+  constraints: string[];
+  description: string;
+  required: boolean;
+  /** Full parse of the field's value, for converters that need more than the prompt summary */
+  schema: ZodNode;
+}
+
+/** A top-level `const Name = z.…` declaration */
+export interface ZodSchemaDeclaration {
+  name: string;
+  schema: ZodNode;
+}
+
+export interface ParsedZodSource {
+  schemas: ZodSchemaDeclaration[];
+  warnings: string[];
+}
+
+// ─── FIELD PARSER ────────────────────────────────────────────────────────────
+
+/** Split the inside of an object literal on top-level commas */
+function splitObjectEntries(innerBlock: string): string[] {
+  const fieldChunks: string[] = [];
+  let current = '';
+  let parenDepth = 0;
+  let braceDepth = 0;
+  let bracketDepth = 0;
+  let inString: string | null = null;
+
+  for (let i = 0; i < innerBlock.length; i++) {
+    const ch = innerBlock[i];
+    const prev = i > 0 ? innerBlock[i - 1] : '';
+
+    // Track string boundaries (skip escaped quotes)
+    if ((ch === '"' || ch === "'" || ch === '`') && prev !== '\\') {
+      if (inString === ch) inString = null;
+      else if (!inString) inString = ch;
+    }
+
+    if (!inString) {
+      if (ch === '(') parenDepth++;
+      else if (ch === ')') parenDepth--;
+      else if (ch === '{') braceDepth++;
+      else if (ch === '}') braceDepth--;
+      else if (ch === '[') bracketDepth++;
+      else if (ch === ']') bracketDepth--;
+      else if (ch === ',' && parenDepth === 0 && braceDepth === 0 && bracketDepth === 0) {
+        fieldChunks.push(current.trim());
+        current = '';
+        continue;
+      }
+    }
+    current += ch;
+  }
+  if (current.trim()) fieldChunks.push(current.trim());
+  return fieldChunks;
+}
+
+const CONSTRAINT_PATTERNS: Array<[RegExp, (m: RegExpMatchArray) => string]> = [
+  [/\.min\((\d+)\)/, (m) => `min: ${m[1]}`],
+  [/\.max\((\d+)\)/, (m) => `max: ${m[1]}`],
+  [/\.length\((\d+)\)/, (m) => `exact length: ${m[1]}`],
+  [/\.email\(\)/, () => 'must be a valid email'],
+  [/\.url\(\)/, () => 'must be a valid URL'],
+  [/\.uuid\(\)/, () => 'must be a valid UUID'],
+  [/\.cuid\(\)/, () => 'must be a valid CUID'],
+  [/\.regex\(([^)]+)\)/, (m) => `pattern: ${m[1]}`],
+  [/\.int\(\)/, () => 'must be an integer'],
+  [/\.positive\(\)/, () => 'must be positive'],
+  [/\.negative\(\)/, () => 'must be negative'],
+  [/\.nonnegative\(\)/, () => 'must be non-negative'],
+  [/\.finite\(\)/, () => 'must be finite'],
+  [/\.nonempty\(\)/, () => 'must not be empty'],
+  [/\.trim\(\)/, () => 'whitespace trimmed'],
+  [/\.toLowerCase\(\)/, () => 'lowercase'],
+  [/\.toUpperCase\(\)/, () => 'uppercase'],
+  [/\.startsWith\(['"]([^'"]+)['"]\)/, (m) => `starts with "${m[1]}"`],
+  [/\.endsWith\(['"]([^'"]+)['"]\)/, (m) => `ends with "${m[1]}"`],
+  [/\.includes\(['"]([^'"]+)['"]\)/, (m) => `contains "${m[1]}"`],
+  [/\.datetime\(\)/, () => 'ISO 8601 datetime'],
+  [/\.ip\(\)/, () => 'must be a valid IP address'],
+  [/\.default\(([^)]+)\)/, (m) => `default: ${m[1]}`],
+  [/\.nullable\(\)/, () => 'nullable'],
+];
+
+/** Pass 2 for a single `key: value` chunk; `null` when it isn't a field */
+function parseFieldChunk(chunk: string, warnings: string[]): ParsedField | null {
+  // Extract key — bare identifier or quoted string
+  const keyMatch = chunk.match(/^(?:(['"])(.+?)\1|([a-zA-Z_$][a-zA-Z0-9_$]*))\s*:\s*/);
+  if (!keyMatch) return null;
+
+  const key = keyMatch[2] ?? keyMatch[3];
+  const chain = chunk.slice(keyMatch[0].length);
+
+  // Extract base type: z.string, z.number, … or a reference to another schema
+  const typeMatch = chain.match(/^z\.([a-zA-Z]+)/);
+  const refMatch = typeMatch ? null : chain.match(/^([a-zA-Z_$][a-zA-Z0-9_$]*)/);
+  if (!typeMatch && !refMatch) return null;
+  const baseType = typeMatch ? typeMatch[1] : refMatch![1];
+
+  // Special handling: z.enum(["A", "B"]) — extract values
+  let typeDisplay = baseType;
+  if (baseType === 'enum') {
+    const enumMatch = chain.match(/z\.enum\(\[([^\]]*)\]\)/);
+    if (enumMatch) {
+      typeDisplay = `enum [${enumMatch[1].replace(/"/g, '').replace(/'/g, '')}]`;
+    }
+  } else if (baseType === 'literal') {
+    const litMatch = chain.match(/z\.literal\(([^)]+)\)/);
+    if (litMatch) typeDisplay = `literal ${litMatch[1]}`;
+  } else if (baseType === 'array') {
+    const innerTypeMatch = chain.match(/z\.array\(z\.([a-zA-Z]+)/);
+    if (innerTypeMatch) typeDisplay = `array of ${innerTypeMatch[1]}`;
+    else typeDisplay = 'array';
+  } else if (baseType === 'object') {
+    typeDisplay = 'nested object';
+  } else if (baseType === 'union') {
+    typeDisplay = 'union';
+  } else if (baseType === 'record') {
+    typeDisplay = 'record (key-value map)';
+  }
+
+  // Extract constraints from chained methods
+  const constraints: string[] = [];
+  for (const [pattern, formatter] of CONSTRAINT_PATTERNS) {
+    const m = chain.match(pattern);
+    if (m) constraints.push(formatter(m));
+  }
+
+  // Extract .describe() — supports single quotes, double quotes, and backticks
+  let description = 'No description provided.';
+  const descMatch = chain.match(/\.describe\((['"`])([\s\S]*?)\1\)/);
+  if (descMatch) description = descMatch[2];
+
+  // Check optional
+  const isOptional = /\.optional\(\)/.test(chain) || /\.nullable\(\)/.test(chain);
+
+  return {
+    key,
+    type: typeDisplay,
+    constraints,
+    description,
+    required: !isOptional,
+    schema: parseZodExpression(chain, warnings),
+  };
+}
+
+/** Split an object literal's body into fields (pass 1 + pass 2) */
+function parseShape(innerBlock: string, warnings: string[]): ParsedField[] {
+  const fields: ParsedField[] = [];
+  for (const chunk of splitObjectEntries(innerBlock)) {
+    if (chunk.startsWith('...')) {
+      warnings.push(`Spread "${chunk}" was ignored — use .extend() instead`);
+      continue;
+    }
+    const field = parseFieldChunk(chunk, warnings);
+    if (field) fields.push(field);
+  }
+  return fields;
+}
+
+/**
+ * Multi-pass field parser.
+ * Pass 1: Extract top-level key-value pairs from the z.object({ ... }) block
+ *         using brace-depth tracking (not regex on braces).
+ * Pass 2: For each field's chain, extract type, constraints, and .describe(),
+ *         plus the full `ZodNode` parse (nested objects recurse through here).
+ *
+ * This avoids the single-regex fragility of the original approach while
+ * staying 100% client-side with zero AST dependencies.
+ */
+export function parseZodFields(source: string, warnings: string[] = []): ParsedField[] {
+  // ── Pass 1: Find the z.object({ ... }) block and split into field chunks ──
+  const objectStart = source.indexOf('z.object({');
+  if (objectStart === -1) return [];
+
+  // Walk from the opening `{` after z.object(, tracking brace depth
+  const braceStart = source.indexOf('{', objectStart + 'z.object('.length);
+  if (braceStart === -1) return [];
+
+  let depth = 0;
+  let braceEnd = -1;
+  for (let i = braceStart; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    else if (source[i] === '}') {
+      depth--;
+      if (depth === 0) { braceEnd = i; break; }
+    }
+  }
+  if (braceEnd === -1) return [];
+
+  // ── Pass 2: Parse each field chunk ──────────────────────────────────────
+  return parseShape(source.slice(braceStart + 1, braceEnd), warnings);
+}
+
+// ─── LITERALS ────────────────────────────────────────────────────────────────
+
+/** Read a JSON-compatible literal; `undefined` when `text` is an expression */
+export function parseLiteral(text: string): LiteralValue | undefined {
+  const s = text.trim();
+  if (s === 'null') return null;
+  if (s === 'true') return true;
+  if (s === 'false') return false;
+  if (/^-?(\d[\d_]*\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(s)) return Number(s.replace(/_/g, ''));
+
+  const q = s[0];
+  if ((q === '"' || q === "'" || q === '`') && skipString(s, 0) === s.length - 1) {
+    const body = s.slice(1, -1);
+    if (q === '`' && body.includes('${')) return undefined;
+    if (q === '"') {
+      try {
+        return JSON.parse(s) as string;
+      } catch {
+        return undefined;
+      }
+    }
+    return body.replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c === 't' ? '\t' : c));
+  }
+
+  if (s[0] === '[' && findClosingDelimiter(s, 0) === s.length - 1) {
+    const items: LiteralValue[] = [];
+    for (const part of smartSplit(s.slice(1, -1), ',')) {
+      const value = parseLiteral(part);
+      if (value === undefined) return undefined;
+      items.push(value);
+    }
+    return items;
+  }
+
+  if (s[0] === '{' && findClosingDelimiter(s, 0) === s.length - 1) {
+    const obj: Record<string, LiteralValue> = {};
+    for (const entry of smartSplit(s.slice(1, -1), ',')) {
+      const m = entry.match(/^(?:(['"])(.+?)\1|([a-zA-Z_$][\w$]*))\s*:\s*([\s\S]+)$/);
+      if (!m) return undefined;
+      const value = parseLiteral(m[4]);
+      if (value === undefined) return undefined;
+      obj[m[2] ?? m[3]] = value;
+    }
+    return obj;
+  }
+
+  return undefined;
+}
+
+/** Read a string literal argument; `undefined` for anything else */
+function parseStringArg(text: string): string | undefined {
+  const value = parseLiteral(text);
+  return typeof value === 'string' ? value : undefined;
+}
+
+// ─── EXPRESSION PARSER ───────────────────────────────────────────────────────
+
+interface ChainSegment {
+  name: string;
+  /** Raw text between the call's parentheses; `undefined` for property access */
+  args?: string;
+}
+
+/** `z.string().min(1)` → [z] [string()] [min(1)] */
+function splitChain(expr: string): ChainSegment[] | null {
+  const segments: ChainSegment[] = [];
+  for (const part of smartSplit(expr, '.')) {
+    const m = part.match(/^([a-zA-Z_$][\w$]*)\s*(?:\(([\s\S]*)\))?$/);
+    if (!m) return null;
+    segments.push({ name: m[1], args: m[2] });
+  }
+  return segments;
+}
+
+/** A node minus its modifiers, distributed over every kind */
+type NodeShape<N = ZodNode> = N extends ZodNode ? Omit<N, keyof ZodNodeBase> : never;
+
+function makeNode(shape: NodeShape): ZodNode {
+  return { optional: false, nullable: false, checks: [], ...shape } as ZodNode;
+}
+
+const PRIMITIVES: Record<string, PrimitiveKind> = {
+  string: 'string',
+  number: 'number',
+  nan: 'number',
+  boolean: 'boolean',
+  bigint: 'bigint',
+  date: 'date',
+  null: 'null',
+  undefined: 'undefined',
+  void: 'undefined',
+  any: 'any',
+  unknown: 'unknown',
+  never: 'never',
+};
+
+/** String formats available both as `z.email()` and `z.string().email()` */
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'url',
+  httpUrl: 'url',
+  uuid: 'uuid',
+  uuidv4: 'uuid',
+  uuidv7: 'uuid',
+  guid: 'uuid',
+  cuid: 'cuid',
+  cuid2: 'cuid2',
+  ulid: 'ulid',
+  nanoid: 'nanoid',
+  emoji: 'emoji',
+  base64: 'base64',
+  base64url: 'base64url',
+  jwt: 'jwt',
+  e164: 'e164',
+  ip: 'ip',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+  cidr: 'cidr',
+  cidrv4: 'cidr',
+  cidrv6: 'cidr',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  duration: 'duration',
+};
+
+/** Integer formats — `z.int()`, `z.int32()`, … */
+const INT_CONSTRUCTORS = new Set(['int', 'int32', 'uint32', 'int64', 'uint64', 'safeint']);
+
+/** Methods that change runtime behaviour but not the static shape */
+const IGNORED_METHODS = new Set([
+  'brand', 'readonly', 'trim', 'toLowerCase', 'toUpperCase', 'normalize',
+  'finite', 'safe', 'lowercase', 'uppercase', 'strip', 'meta', 'register',
+]);
+
+/** Methods whose logic can't be represented statically — dropped with a warning */
+const DROPPED_METHODS = new Set([
+  'refine', 'superRefine', 'check', 'transform', 'pipe', 'catch', 'overwrite', 'preprocess',
+]);
+
+/** `[a, b]` → ['a', 'b'] (the raw element sources) */
+function splitArrayLiteral(text: string): string[] | null {
+  const s = text.trim();
+  if (s[0] !== '[' || findClosingDelimiter(s, 0) !== s.length - 1) return null;
+  return smartSplit(s.slice(1, -1), ',');
+}
+
+/** `{ a: …, b: … }` → the text between the braces */
+function objectLiteralBody(text: string): string | null {
+  const s = text.trim();
+  if (s[0] !== '{' || findClosingDelimiter(s, 0) !== s.length - 1) return null;
+  return s.slice(1, -1);
+}
+
+/** `/ab+c/gi` → { source, flags } */
+function parseRegexLiteral(text: string): { source: string; flags: string } | null {
+  const m = text.trim().match(/^\/([\s\S]+)\/([a-z]*)$/);
+  return m ? { source: m[1], flags: m[2] } : null;
+}
+
+function unsupported(what: string, warnings: string[]): ZodNode {
+  warnings.push(`${what} is not supported — emitted as "unknown"`);
+  return makeNode({ kind: 'unknown' });
+}
+
+/** Build the node for `z.<name>(<args>)` */
+function parseConstructor(name: string, args: string | undefined, warnings: string[]): ZodNode {
+  const argList = args !== undefined && args.trim() ? smartSplit(args, ',') : [];
+
+  if (PRIMITIVES[name]) {
+    return makeNode({ kind: PRIMITIVES[name] });
+  }
+  if (INT_CONSTRUCTORS.has(name)) {
+    const node = makeNode({ kind: 'number' });
+    node.checks.push({ kind: 'int' });
+    return node;
+  }
+  if (name === 'float32' || name === 'float64') return makeNode({ kind: 'number' });
+  if (STRING_FORMATS[name]) {
+    const node = makeNode({ kind: 'string' });
+    node.checks.push({ kind: 'format', format: STRING_FORMATS[name] });
+    return node;
+  }
+
+  switch (name) {
+    case 'literal': {
+      const value = argList[0] !== undefined ? parseLiteral(argList[0]) : undefined;
+      if (value === undefined) return unsupported(`z.literal(${args ?? ''})`, warnings);
+      if (Array.isArray(value)) {
+        return makeNode({ kind: 'enum', values: value.filter((v) => typeof v === 'string' || typeof v === 'number') });
+      }
+      return makeNode({ kind: 'literal', value });
+    }
+
+    case 'enum': {
+      const value = argList[0] !== undefined ? parseLiteral(argList[0]) : undefined;
+      if (!Array.isArray(value)) return unsupported(`z.enum(${args ?? ''}) with a TypeScript enum`, warnings);
+      return makeNode({ kind: 'enum', values: value.filter((v) => typeof v === 'string' || typeof v === 'number') });
+    }
+
+    case 'nativeEnum':
+      return unsupported('z.nativeEnum()', warnings);
+
+    case 'object':
+    case 'strictObject':
+    case 'looseObject': {
+      const body = argList[0] !== undefined ? objectLiteralBody(argList[0]) : '';
+      if (body === null) return unsupported(`z.${name}() with a non-literal shape`, warnings);
+      const unknownKeys = name === 'strictObject' ? 'strict' : name === 'looseObject' ? 'passthrough' : 'strip';
+      return makeNode({ kind: 'object', fields: parseShape(body, warnings), unknownKeys });
+    }
+
+    case 'array':
+    case 'set': {
+      const element = argList[0] !== undefined ? parseZodExpression(argList[0], warnings) : makeNode({ kind: 'unknown' });
+      return makeNode({ kind: 'array', element, unique: name === 'set' || undefined });
+    }
+
+    case 'tuple': {
+      const items = argList[0] !== undefined ? splitArrayLiteral(argList[0]) : [];
+      if (!items) return unsupported('z.tuple() with a non-literal item list', warnings);
+      return makeNode({
+        kind: 'tuple',
+        items: items.map((item) => parseZodExpression(item, warnings)),
+        rest: argList[1] !== undefined ? parseZodExpression(argList[1], warnings) : undefined,
+      });
+    }
+
+    case 'record':
+    case 'partialRecord': {
+      const [keyArg, valueArg] = argList.length === 1 ? ['z.string()', argList[0]] : argList;
+      return makeNode({
+        kind: 'record',
+        key: parseZodExpression(keyArg ?? 'z.string()', warnings),
+        value: parseZodExpression(valueArg ?? 'z.unknown()', warnings),
+        partial: name === 'partialRecord' || undefined,
+      });
+    }
+
+    case 'union':
+    case 'xor': {
+      const options = argList[0] !== undefined ? splitArrayLiteral(argList[0]) : null;
+      if (!options) return unsupported(`z.${name}() with a non-literal option list`, warnings);
+      return makeNode({ kind: 'union', options: options.map((o) => parseZodExpression(o, warnings)) });
+    }
+
+    case 'discriminatedUnion': {
+      const discriminator = argList[0] !== undefined ? parseStringArg(argList[0]) : undefined;
+      const options = argList[1] !== undefined ? splitArrayLiteral(argList[1]) : null;
+      if (discriminator === undefined || !options) {
+        return unsupported('z.discriminatedUnion() without a literal discriminator and option list', warnings);
+      }
+      return makeNode({
+        kind: 'discriminatedUnion',
+        discriminator,
+        options: options.map((o) => parseZodExpression(o, warnings)),
+      });
+    }
+
+    case 'intersection':
+      return makeNode({
+        kind: 'intersection',
+        parts: argList.map((a) => parseZodExpression(a, warnings)),
+      });
+
+    case 'optional':
+    case 'nullable':
+    case 'nullish': {
+      const inner = parseZodExpression(argList[0] ?? 'z.unknown()', warnings);
+      if (name !== 'nullable') inner.optional = true;
+      if (name !== 'optional') inner.nullable = true;
+      return inner;
+    }
+
+    case 'lazy': {
+      const body = (args ?? '').replace(/^\s*\(\s*\)\s*=>\s*/, '');
+      return parseZodExpression(body, warnings);
+    }
+
+    default:
+      return unsupported(`z.${name}()`, warnings);
+  }
+}
+
+/** Apply a chained `.method(args)` to `node`, returning the (possibly new) node */
+function applyMethod(node: ZodNode, seg: ChainSegment, warnings: string[]): ZodNode {
+  const { name, args = '' } = seg;
+  const num = Number(args.trim());
+
+  switch (name) {
+    case 'optional': node.optional = true; return node;
+    case 'nullable': node.nullable = true; return node;
+    case 'nullish': node.optional = true; node.nullable = true; return node;
+    case 'default':
+    case 'prefault': {
+      node.defaultSource = args.trim();
+      node.defaultValue = parseLiteral(args);
+      return node;
+    }
+    case 'describe': {
+      const description = parseStringArg(args);
+      if (description !== undefined) node.description = description;
+      return node;
+    }
+
+    case 'min':
+    case 'gte':
+    case 'max':
+    case 'lte':
+    case 'length':
+    case 'gt':
+    case 'lt':
+    case 'multipleOf':
+    case 'step': {
+      if (!Number.isFinite(num) || !args.trim()) {
+        warnings.push(`.${name}(${args}) has a non-literal bound and was dropped`);
+        return node;
+      }
+      const kind = name === 'gte' ? 'min' : name === 'lte' ? 'max' : name === 'step' ? 'multipleOf' : name;
+      node.checks.push({ kind, value: num } as ZodCheck);
+      return node;
+    }
+    case 'nonempty': node.checks.push({ kind: 'min', value: 1 }); return node;
+    case 'positive': node.checks.push({ kind: 'gt', value: 0 }); return node;
+    case 'negative': node.checks.push({ kind: 'lt', value: 0 }); return node;
+    case 'nonnegative': node.checks.push({ kind: 'min', value: 0 }); return node;
+    case 'nonpositive': node.checks.push({ kind: 'max', value: 0 }); return node;
+    case 'int': node.checks.push({ kind: 'int' }); return node;
+
+    case 'regex': {
+      const regex = parseRegexLiteral(args.split(',')[0] ?? '');
+      if (regex) node.checks.push({ kind: 'pattern', ...regex });
+      else warnings.push(`.regex(${args}) is not a regex literal and was dropped`);
+      return node;
+    }
+    case 'startsWith':
+    case 'endsWith':
+    case 'includes': {
+      const value = parseStringArg(args.split(',')[0] ?? '');
+      if (value !== undefined) node.checks.push({ kind: name, value });
+      return node;
+    }
+
+    case 'array':
+      return makeNode({ kind: 'array', element: node });
+    case 'or': {
+      const other = parseZodExpression(args, warnings);
+      return makeNode({ kind: 'union', options: [node, other] });
+    }
+    case 'and': {
+      const other = parseZodExpression(args, warnings);
+      return makeNode({ kind: 'intersection', parts: [node, other] });
+    }
+    case 'element':
+      return node.kind === 'array' ? node.element : node;
+    case 'unwrap':
+      return { ...node, optional: false, nullable: false };
+  }
+
+  if (node.kind === 'object') {
+    switch (name) {
+      case 'strict': node.unknownKeys = 'strict'; return node;
+      case 'passthrough':
+      case 'loose': node.unknownKeys = 'passthrough'; return node;
+      case 'catchall': node.catchall = parseZodExpression(args, warnings); return node;
+      case 'partial':
+      case 'required': {
+        const optional = name === 'partial';
+        node.fields = node.fields.map((f) => ({ ...f, required: !optional, schema: { ...f.schema, optional } }));
+        return node;
+      }
+      case 'pick':
+      case 'omit': {
+        const keys = parseLiteral(args);
+        if (!keys || typeof keys !== 'object' || Array.isArray(keys)) {
+          warnings.push(`.${name}() with a non-literal key mask was ignored`);
+          return node;
+        }
+        const picked = new Set(Object.keys(keys));
+        node.fields = node.fields.filter((f) => picked.has(f.key) === (name === 'pick'));
+        return node;
+      }
+      case 'extend':
+      case 'merge':
+      case 'safeExtend': {
+        const body = objectLiteralBody(args);
+        const extra = body !== null ? parseShape(body, warnings) : null;
+        if (!extra) {
+          const other = parseZodExpression(args, warnings);
+          if (other.kind === 'object') return applyExtension(node, other.fields);
+          return makeNode({ kind: 'intersection', parts: [node, other] });
+        }
+        return applyExtension(node, extra);
+      }
+    }
+  }
+
+  if (IGNORED_METHODS.has(name)) return node;
+  if (STRING_FORMATS[name]) {
+    node.checks.push({ kind: 'format', format: STRING_FORMATS[name] });
+    return node;
+  }
+  if (DROPPED_METHODS.has(name)) {
+    warnings.push(`.${name}() can't be represented statically and was dropped`);
+    return node;
+  }
+
+  warnings.push(`Unknown method .${name}() was ignored`);
+  return node;
+}
+
+/** Later keys win, mirroring `.extend()` */
+function applyExtension(node: ZodNode & { kind: 'object' }, extra: ParsedField[]): ZodNode {
+  const overridden = new Set(extra.map((f) => f.key));
+  node.fields = [...node.fields.filter((f) => !overridden.has(f.key)), ...extra];
+  return node;
+}
+
+/**
+ * Parses one Zod expression — `z.string().email().optional()`,
+ * `z.array(Item)`, `UserSchema.extend({ … })` — into a `ZodNode`.
+ * Anything that can't be read statically becomes `unknown` plus a warning.
+ */
+export function parseZodExpression(expr: string, warnings: string[] = []): ZodNode {
+  const text = expr.trim().replace(/\s+(?:as|satisfies)\s+[\w$.<>[\], ]+$/, '');
+  const segments = splitChain(text);
+  if (!segments || segments.length === 0) return unsupported(`Expression "${text.slice(0, 40)}"`, warnings);
+
+  let node: ZodNode;
+  let rest: ChainSegment[];
+
+  if (segments[0].name === 'z' && segments[0].args === undefined) {
+    // z.iso.datetime(), z.coerce.number(), z.string.format? — skip namespaces
+    let i = 1;
+    while (i < segments.length && segments[i].args === undefined) i++;
+    if (i >= segments.length) return unsupported(`Expression "${text.slice(0, 40)}"`, warnings);
+    node = parseConstructor(segments[i].name, segments[i].args, warnings);
+    rest = segments.slice(i + 1);
+  } else {
+    // Reference to another schema: `Address`, `Address.optional()`
+    let i = 0;
+    while (i < segments.length && segments[i].args === undefined) i++;
+    if (i === 0) return unsupported(`Call "${segments[0].name}()"`, warnings);
+    const path = segments.slice(0, i).map((s) => s.name);
+    if (path.length > 1) return unsupported(`"${path.join('.')}"`, warnings);
+    node = makeNode({ kind: 'ref', name: path[0] });
+    rest = segments.slice(i);
+  }
+
+  for (const seg of rest) {
+    if (seg.args === undefined) {
+      warnings.push(`Property access .${seg.name} was ignored`);
+      continue;
+    }
+    node = applyMethod(node, seg, warnings);
+  }
+  return node;
+}
+
+// ─── DECLARATIONS ────────────────────────────────────────────────────────────
+
+/** Index just past the end of the statement starting at `start` */
+function findStatementEnd(source: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'" || ch === '`') { i = skipString(source, i); continue; }
+    if (ch === '/' && source[i + 1] === '/') {
+      const eol = source.indexOf('\n', i);
+      if (eol === -1) return source.length;
+      i = eol - 1;
+      continue;
+    }
+    if (ch === '(' || ch === '{' || ch === '[') depth++;
+    else if (ch === ')' || ch === '}' || ch === ']') depth--;
+    else if (depth === 0 && ch === ';') return i;
+    else if (depth === 0 && ch === '\n') {
+      // No semicolon: the statement ends unless the next line continues the chain
+      const next = source.slice(i + 1).match(/^\s*(\S)/);
+      if (!next || next[1] !== '.') return i;
+    }
+  }
+  return source.length;
+}
+
+/** Strip `//` and `/* *\/` comments so they don't end up in expressions */
+function stripComments(source: string): string {
+  let out = '';
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const end = skipString(source, i);
+      out += source.slice(i, end + 1);
+      i = end;
+    } else if (ch === '/' && source[i + 1] === '/') {
+      const eol = source.indexOf('\n', i);
+      i = (eol === -1 ? source.length : eol) - 1;
+    } else if (ch === '/' && source[i + 1] === '*') {
+      const close = source.indexOf('*/', i + 2);
+      i = close === -1 ? source.length : close + 1;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+/**
+ * Parses every `const Name = z.…` (or `= OtherSchema.…`) declaration, in
+ * source order. A bare expression with no declaration becomes `Schema`.
+ */
+export function parseZodSchemas(source: string): ParsedZodSource {
+  const warnings: string[] = [];
+  const schemas: ZodSchemaDeclaration[] = [];
+  const clean = stripComments(source);
+
+  const declRe = /(?:^|[\n;])\s*(?:export\s+)?(?:const|let|var)\s+([a-zA-Z_$][\w$]*)\s*(?::[^=\n]+)?=\s*/g;
+  let match: RegExpExecArray | null;
+  while ((match = declRe.exec(clean)) !== null) {
+    const start = match.index + match[0].length;
+    const end = findStatementEnd(clean, start);
+    const expr = clean.slice(start, end).trim();
+    declRe.lastIndex = end;
+
+    const declared = new Set(schemas.map((s) => s.name));
+    const head = expr.match(/^([a-zA-Z_$][\w$]*)/)?.[1];
+    if (!head || (head !== 'z' && !declared.has(head))) continue;
+
+    const local: string[] = [];
+    const schema = parseZodExpression(expr, local);
+    warnings.push(...local.map((w) => `${match![1]}: ${w}`));
+    schemas.push({ name: match[1], schema });
+  }
+
+  if (schemas.length === 0 && /^z\s*\./.test(clean.trim())) {
+    const expr = clean.trim().replace(/;\s*$/, '');
+    schemas.push({ name: 'Schema', schema: parseZodExpression(expr, warnings) });
+  }
+
+  return { schemas, warnings };
+}
+
+/** Names of every declaration `node` references */
+export function collectRefs(node: ZodNode, out: Set<string>): Set<string> {
+  switch (node.kind) {
+    case 'ref': out.add(node.name); break;
+    case 'object':
+      node.fields.forEach((f) => collectRefs(f.schema, out));
+      if (node.catchall) collectRefs(node.catchall, out);
+      break;
+    case 'array': collectRefs(node.element, out); break;
+    case 'tuple':
+      node.items.forEach((n) => collectRefs(n, out));
+      if (node.rest) collectRefs(node.rest, out);
+      break;
+    case 'record': collectRefs(node.key, out); collectRefs(node.value, out); break;
+    case 'union':
+    case 'discriminatedUnion': node.options.forEach((n) => collectRefs(n, out)); break;
+    case 'intersection': node.parts.forEach((n) => collectRefs(n, out)); break;
+  }
+  return out;
+}
+
+/**
+ * The last declaration nobody else references — what the input is "about".
+ * `isCandidate` narrows the choice (e.g. to objects) without ignoring the
+ * references made by the other declarations.
+ */
+export function findRootSchema(
+  schemas: ZodSchemaDeclaration[],
+  isCandidate: (decl: ZodSchemaDeclaration) => boolean = () => true,
+): ZodSchemaDeclaration {
+  const referenced = new Set<string>();
+  for (const { name, schema } of schemas) {
+    for (const ref of collectRefs(schema, new Set())) if (ref !== name) referenced.add(ref);
+  }
+  const candidates = schemas.filter(isCandidate);
+  const roots = candidates.filter((s) => !referenced.has(s.name));
+  return roots.length > 0 ? roots[roots.length - 1] : candidates[candidates.length - 1];
+}
+
+/** `UserSchema` → `User`; the name a reverse converter emits for a declaration */
+export function toTypeName(schemaName: string): string {
+  const base = schemaName.replace(/Schema$/, '') || schemaName;
+  return base[0].toUpperCase() + base.slice(1);
+}
+
+// ─── OBJECT ROOTS ────────────────────────────────────────────────────────────
+
+export interface ObjectRoot extends ParsedZodSource {
+  /** Declarations whose value is an object — the choices for `preferred` */
+  objectNames: string[];
+  /** Object schema to build from (its `fields` may be empty) */
+  root: ZodSchemaDeclaration & { schema: ZodNode & { kind: 'object' } };
+  /** True when `root` is the first inline `z.object({ ... })`, not a declaration */
+  inline: boolean;
+}
+
+/**
+ * Picks the object schema that LLM-facing outputs (prompt, structured output)
+ * are built for: `preferred` when it names an object declaration, else the
+ * object nothing references. Input with no readable declaration — e.g. a
+ * `z.object()` inline in a router call — falls back to the first `z.object({`.
+ */
+export function parseObjectRoot(source: string, preferred?: string): ObjectRoot {
+  const { schemas, warnings } = parseZodSchemas(source);
+  const isObject = (s: ZodSchemaDeclaration): s is ObjectRoot['root'] => s.schema.kind === 'object';
+  const objects = schemas.filter(isObject);
+
+  if (objects.length > 0) {
+    const root = objects.find((s) => s.name === preferred)
+      ?? (findRootSchema(schemas, isObject) as ObjectRoot['root']);
+    return { schemas, warnings, objectNames: objects.map((s) => s.name), root, inline: false };
+  }
+
+  const fields = parseZodFields(source, warnings);
+  const root = {
+    name: 'Schema',
+    schema: { kind: 'object', fields, unknownKeys: 'strip', optional: false, nullable: false, checks: [] },
+  } satisfies ObjectRoot['root'];
+  return { schemas: [...schemas, root], warnings, objectNames: [], root, inline: true };
+}
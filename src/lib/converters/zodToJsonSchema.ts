@@ -0,0 +1,331 @@
+// src/lib/converters/zodToJsonSchema.ts
+// ─── Zod-to-JSON Schema Converter ────────────────────────────────────────────
+// Emits JSON Schema (draft 2020-12) or OpenAPI 3.1 `components.schemas` from
+// Zod source read by `parseZodSchemas`. Like `z.toJSONSchema()`, it
+// describes the parsed *output*: fields with a `.default()` are required and
+// plain objects reject unknown keys.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+import {
+  collectRefs,
+  findRootSchema,
+  parseZodSchemas,
+  toTypeName,
+  type ZodNode,
+  type ZodSchemaDeclaration,
+} from './zodParser';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Maximum input size to prevent main-thread lockup */
+export const MAX_INPUT_LENGTH = 200_000;
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+/** Zod string formats with a standard JSON Schema `format` */
+const JSON_SCHEMA_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  'date-time': 'date-time',
+  date: 'date',
+  time: 'time',
+  duration: 'duration',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+};
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type JsonSchemaDialect = '2020-12' | 'openapi-3.1';
+
+export interface ZodToJsonSchemaOptions {
+  dialect: JsonSchemaDialect;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+interface EmitContext {
+  dialect: JsonSchemaDialect;
+  declarations: Map<string, ZodNode>;
+  /** Declaration emitted as the document root (2020-12 only) */
+  rootName: string | null;
+  warnings: Set<string>;
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function refPath(name: string, ctx: EmitContext): string {
+  if (ctx.dialect === 'openapi-3.1') return `#/components/schemas/${toTypeName(name)}`;
+  return name === ctx.rootName ? '#' : `#/$defs/${toTypeName(name)}`;
+}
+
+/** Value of a literal discriminator field on an object (or ref to one) */
+function discriminatorValue(node: ZodNode, key: string, ctx: EmitContext): string | null {
+  const target = node.kind === 'ref' ? ctx.declarations.get(node.name) : node;
+  if (target?.kind !== 'object') return null;
+  const field = target.fields.find((f) => f.key === key);
+  return field?.schema.kind === 'literal' && typeof field.schema.value === 'string' ? field.schema.value : null;
+}
+
+// ─── EMITTER ─────────────────────────────────────────────────────────────────
+
+function applyChecks(schema: JsonSchema, node: ZodNode, ctx: EmitContext): void {
+  const isString = node.kind === 'string';
+  const isArray = node.kind === 'array' || node.kind === 'tuple';
+  const patterns: string[] = [];
+
+  for (const check of node.checks) {
+    switch (check.kind) {
+      case 'min':
+        if (isString) schema.minLength = check.value;
+        else if (isArray) schema.minItems = check.value;
+        else schema.minimum = check.value;
+        break;
+      case 'max':
+        if (isString) schema.maxLength = check.value;
+        else if (isArray) schema.maxItems = check.value;
+        else schema.maximum = check.value;
+        break;
+      case 'length':
+        if (isString) { schema.minLength = check.value; schema.maxLength = check.value; }
+        else if (isArray) { schema.minItems = check.value; schema.maxItems = check.value; }
+        break;
+      case 'gt': schema.exclusiveMinimum = check.value; break;
+      case 'lt': schema.exclusiveMaximum = check.value; break;
+      case 'multipleOf': schema.multipleOf = check.value; break;
+      case 'int': schema.type = 'integer'; break;
+      case 'format': {
+        const format = JSON_SCHEMA_FORMATS[check.format];
+        if (format) schema.format = format;
+        else if (check.format === 'base64') schema.contentEncoding = 'base64';
+        else ctx.warnings.add(`Format "${check.format}" has no JSON Schema equivalent and was dropped`);
+        break;
+      }
+      case 'pattern':
+        if (/[^guy]/.test(check.flags)) {
+          ctx.warnings.add(`Regex flags "${check.flags}" on /${check.source}/ can't be expressed in JSON Schema`);
+        }
+        patterns.push(check.source);
+        break;
+      case 'startsWith': patterns.push(`^${escapeRegex(check.value)}`); break;
+      case 'endsWith': patterns.push(`${escapeRegex(check.value)}$`); break;
+      case 'includes': patterns.push(escapeRegex(check.value)); break;
+    }
+  }
+
+  if (patterns.length > 0) schema.pattern = patterns[0];
+  if (patterns.length > 1) schema.allOf = patterns.slice(1).map((pattern) => ({ pattern }));
+}
+
+function emitObject(node: ZodNode & { kind: 'object' }, ctx: EmitContext): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const field of node.fields) {
+    properties[field.key] = emitNode(field.schema, ctx);
+    if (!field.schema.optional && field.schema.kind !== 'undefined') required.push(field.key);
+  }
+
+  const schema: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) schema.required = required;
+  if (node.catchall) schema.additionalProperties = emitNode(node.catchall, ctx);
+  else if (node.unknownKeys !== 'passthrough') schema.additionalProperties = false;
+  return schema;
+}
+
+function emitBase(node: ZodNode, ctx: EmitContext): JsonSchema {
+  switch (node.kind) {
+    case 'string': return { type: 'string' };
+    case 'number': return { type: 'number' };
+    case 'boolean': return { type: 'boolean' };
+    case 'null': return { type: 'null' };
+    case 'bigint':
+      return ctx.dialect === 'openapi-3.1' ? { type: 'integer', format: 'int64' } : { type: 'integer' };
+    case 'date': return { type: 'string', format: 'date-time' };
+    case 'any':
+    case 'unknown': return {};
+    case 'never': return { not: {} };
+    case 'undefined':
+      ctx.warnings.add('z.undefined() has no JSON Schema equivalent — the property is left unconstrained and optional');
+      return {};
+
+    case 'literal': {
+      const { value } = node;
+      if (value === null) return { type: 'null' };
+      const type = typeof value === 'string' ? 'string' : typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : undefined;
+      return type ? { type, const: value } : { const: value };
+    }
+
+    case 'enum': {
+      const types = new Set(node.values.map((v) => typeof v));
+      const schema: JsonSchema = { enum: node.values };
+      if (types.size === 1) return { type: types.has('string') ? 'string' : 'number', ...schema };
+      return schema;
+    }
+
+    case 'object': return emitObject(node, ctx);
+
+    case 'array': {
+      const schema: JsonSchema = { type: 'array', items: emitNode(node.element, ctx) };
+      if (node.unique) schema.uniqueItems = true;
+      return schema;
+    }
+
+    case 'tuple': {
+      const schema: JsonSchema = { type: 'array', prefixItems: node.items.map((n) => emitNode(n, ctx)) };
+      if (node.rest) schema.items = emitNode(node.rest, ctx);
+      else {
+        schema.items = false;
+        schema.minItems = node.items.filter((n) => !n.optional).length;
+        schema.maxItems = node.items.length;
+      }
+      return schema;
+    }
+
+    case 'record': {
+      const schema: JsonSchema = { type: 'object' };
+      const keySchema = emitNode(node.key, ctx);
+      const isPlainString = node.key.kind === 'string' && node.key.checks.length === 0;
+      if (!isPlainString) schema.propertyNames = keySchema;
+      schema.additionalProperties = emitNode(node.value, ctx);
+      // z.record(z.enum([...]), …) is exhaustive unless it's a partialRecord
+      if (node.key.kind === 'enum' && !node.partial) schema.required = node.key.values.map(String);
+      return schema;
+    }
+
+    case 'union': return { anyOf: node.options.map((n) => emitNode(n, ctx)) };
+
+    case 'discriminatedUnion': {
+      const schema: JsonSchema = { oneOf: node.options.map((n) => emitNode(n, ctx)) };
+      if (ctx.dialect === 'openapi-3.1') {
+        const discriminator: JsonSchema = { propertyName: node.discriminator };
+        // A mapping is only meaningful when every option is a named component
+        if (node.options.every((n) => n.kind === 'ref')) {
+          const mapping: Record<string, string> = {};
+          for (const option of node.options) {
+            const value = discriminatorValue(option, node.discriminator, ctx);
+            if (value !== null && option.kind === 'ref') mapping[value] = refPath(option.name, ctx);
+          }
+          if (Object.keys(mapping).length === node.options.length) discriminator.mapping = mapping;
+        }
+        schema.discriminator = discriminator;
+      }
+      return schema;
+    }
+
+    case 'intersection': return { allOf: node.parts.map((n) => emitNode(n, ctx)) };
+
+    case 'ref': {
+      if (!ctx.declarations.has(node.name)) {
+        ctx.warnings.add(`"${node.name}" is not declared in the input — left unconstrained`);
+        return {};
+      }
+      return { $ref: refPath(node.name, ctx) };
+    }
+  }
+}
+
+function emitNode(node: ZodNode, ctx: EmitContext): JsonSchema {
+  let schema = emitBase(node, ctx);
+  applyChecks(schema, node, ctx);
+
+  if (node.nullable) {
+    const { type } = schema;
+    if (typeof type === 'string' && !('const' in schema)) {
+      schema.type = [type, 'null'];
+      if (Array.isArray(schema.enum)) schema.enum = [...schema.enum, null];
+    } else {
+      schema = { anyOf: [schema, { type: 'null' }] };
+    }
+  }
+
+  if (node.description !== undefined) schema.description = node.description;
+  if (node.defaultValue !== undefined) schema.default = node.defaultValue;
+  else if (node.defaultSource !== undefined) {
+    ctx.warnings.add(`Default value \`${node.defaultSource}\` isn't a literal and was left out`);
+  }
+  return schema;
+}
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+export interface JsonSchemaDocumentOptions {
+  /** Declaration placed at the root (2020-12 only); defaults to the one nothing references */
+  rootName?: string;
+  /** Leave out `$defs` the root never reaches */
+  reachableOnly?: boolean;
+}
+
+/** Declarations reachable from `rootName`, including itself */
+function reachableFrom(rootName: string, declarations: Map<string, ZodNode>): Set<string> {
+  const seen = new Set<string>();
+  const queue = [rootName];
+  while (queue.length > 0) {
+    const name = queue.pop()!;
+    const node = declarations.get(name);
+    if (seen.has(name) || !node) continue;
+    seen.add(name);
+    queue.push(...collectRefs(node, new Set()));
+  }
+  return seen;
+}
+
+/** Builds the JSON Schema / OpenAPI document object for parsed declarations. */
+export function buildJsonSchemaDocument(
+  schemas: ZodSchemaDeclaration[],
+  dialect: JsonSchemaDialect,
+  options: JsonSchemaDocumentOptions = {},
+): { document: JsonSchema; warnings: string[] } {
+  const ctx: EmitContext = {
+    dialect,
+    declarations: new Map(schemas.map((s) => [s.name, s.schema])),
+    rootName: dialect === '2020-12' ? options.rootName ?? findRootSchema(schemas).name : null,
+    warnings: new Set(),
+  };
+
+  let document: JsonSchema;
+  if (dialect === 'openapi-3.1') {
+    const components: Record<string, JsonSchema> = {};
+    for (const { name, schema } of schemas) components[toTypeName(name)] = emitNode(schema, ctx);
+    document = { components: { schemas: components } };
+  } else {
+    const root = ctx.declarations.get(ctx.rootName!)!;
+    const reachable = options.reachableOnly ? reachableFrom(ctx.rootName!, ctx.declarations) : null;
+    document = { $schema: DRAFT_2020_12, ...emitNode(root, ctx) };
+    const defs: Record<string, JsonSchema> = {};
+    for (const { name, schema } of schemas) {
+      if (name === ctx.rootName || (reachable && !reachable.has(name))) continue;
+      defs[toTypeName(name)] = emitNode(schema, ctx);
+    }
+    if (Object.keys(defs).length > 0) document.$defs = defs;
+  }
+
+  return { document, warnings: [...ctx.warnings] };
+}
+
+/** Converts Zod schema source into a JSON Schema or OpenAPI 3.1 document. */
+export function convertZodToJsonSchema(input: string, options: ZodToJsonSchemaOptions): ConversionResult {
+  const trimmed = input.trim();
+  if (!trimmed) return createResult('');
+
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    const message = `Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)} KB. Please reduce the schema size.`;
+    return createErrorResult(message, `// Error: ${message}`);
+  }
+
+  const { schemas, warnings } = parseZodSchemas(trimmed);
+  if (schemas.length === 0) {
+    return createErrorResult(
+      'No Zod schema found.',
+      '// No Zod schema found. Declare one like: const User = z.object({ name: z.string() })',
+    );
+  }
+
+  const { document, warnings: emitWarnings } = buildJsonSchemaDocument(schemas, options.dialect);
+  return createResult(JSON.stringify(document, null, 2), [...new Set([...warnings, ...emitWarnings])]);
+}
@@ -0,0 +1,344 @@
+// src/lib/converters/zodToPrompt.ts
+// ─── Zod-to-Prompt Converter ─────────────────────────────────────────────────
+// Reads a file of Zod schemas without evaluating it and renders an XML-tagged
+// system prompt for structured LLM output. References between named schemas
+// (`author: UserSchema`) are resolved inline, nested objects are rendered as
+// indented field lists, and the example output is generated from the schema.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+import {
+  parseObjectRoot,
+  parseZodFields,
+  toTypeName,
+  type LiteralValue,
+  type ParsedField,
+  type ZodNode,
+} from './zodParser';
+
+export { parseZodFields, type ParsedField };
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Maximum input size to prevent main-thread lockup */
+export const MAX_INPUT_LENGTH = 200_000;
+
+/** Nesting depth past which fields are summarised instead of listed */
+const MAX_RENDER_DEPTH = 8;
+
+const NO_DESCRIPTION = 'No description provided.';
+
+/** Plausible sample values for string formats in the example output */
+const FORMAT_EXAMPLES: Record<string, string> = {
+  email: 'user@example.com',
+  url: 'https://example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  'date-time': '2026-01-01T00:00:00Z',
+  date: '2026-01-01',
+  time: '12:00:00',
+  ipv4: '192.168.0.1',
+  ipv6: '::1',
+};
+
+/** Human wording for string formats in the constraint list */
+const FORMAT_CONSTRAINTS: Record<string, string> = {
+  email: 'must be a valid email',
+  url: 'must be a valid URL',
+  uuid: 'must be a valid UUID',
+  cuid: 'must be a valid CUID',
+  'date-time': 'ISO 8601 datetime',
+  date: 'ISO 8601 date (YYYY-MM-DD)',
+  time: 'ISO 8601 time',
+  ip: 'must be a valid IP address',
+};
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export interface ZodPromptOptions {
+  /** Declaration to build the prompt for; defaults to the one nothing else references */
+  root?: string;
+}
+
+export interface ZodPromptResult extends ConversionResult {
+  /** Names of the object schemas that can be chosen as `root` */
+  schemas: string[];
+  /** Declaration the prompt was built for (`null` for a bare `z.object()`) */
+  root: string | null;
+  /** Example JSON instance, also embedded in the prompt */
+  example: string;
+}
+
+/** Named declarations, for resolving `ref` nodes */
+type SchemaTable = Map<string, ZodNode>;
+
+// ─── SCHEMA RENDERING ────────────────────────────────────────────────────────
+
+/** Follow refs to the declaration they name; `null` when it isn't declared */
+function resolve(node: ZodNode, table: SchemaTable): ZodNode | null {
+  return node.kind === 'ref' ? table.get(node.name) ?? null : node;
+}
+
+function formatValue(value: LiteralValue): string {
+  return JSON.stringify(value);
+}
+
+/** Short type label shown in brackets, e.g. `array of string` */
+function describeType(node: ZodNode, table: SchemaTable): string {
+  switch (node.kind) {
+    case 'enum': return `enum [${node.values.join(', ')}]`;
+    case 'literal': return `literal ${formatValue(node.value)}`;
+    case 'object': return 'object';
+    case 'array': return `array of ${describeType(node.element, table)}`;
+    case 'tuple': return `tuple [${node.items.map((n) => describeType(n, table)).join(', ')}]`;
+    case 'record': return `record (key-value map of ${describeType(node.value, table)})`;
+    case 'union': return `one of: ${node.options.map((n) => describeType(n, table)).join(' | ')}`;
+    case 'discriminatedUnion':
+      return `one of (by "${node.discriminator}"): ${node.options.map((n) => describeType(n, table)).join(' | ')}`;
+    case 'intersection': return node.parts.map((n) => describeType(n, table)).join(' & ');
+    case 'ref': {
+      const target = table.get(node.name);
+      return target?.kind === 'object' ? `object ${toTypeName(node.name)}` : toTypeName(node.name);
+    }
+    default: return node.kind;
+  }
+}
+
+function describeConstraints(node: ZodNode): string[] {
+  const constraints: string[] = [];
+  for (const check of node.checks) {
+    switch (check.kind) {
+      case 'min': constraints.push(`min: ${check.value}`); break;
+      case 'max': constraints.push(`max: ${check.value}`); break;
+      case 'length': constraints.push(`exact length: ${check.value}`); break;
+      case 'gt': constraints.push(check.value === 0 ? 'must be positive' : `greater than ${check.value}`); break;
+      case 'lt': constraints.push(check.value === 0 ? 'must be negative' : `less than ${check.value}`); break;
+      case 'multipleOf': constraints.push(`multiple of ${check.value}`); break;
+      case 'int': constraints.push('must be an integer'); break;
+      case 'format': constraints.push(FORMAT_CONSTRAINTS[check.format] ?? `format: ${check.format}`); break;
+      case 'pattern': constraints.push(`pattern: /${check.source}/${check.flags}`); break;
+      case 'startsWith': constraints.push(`starts with "${check.value}"`); break;
+      case 'endsWith': constraints.push(`ends with "${check.value}"`); break;
+      case 'includes': constraints.push(`contains "${check.value}"`); break;
+    }
+  }
+  if (node.defaultSource !== undefined) constraints.push(`default: ${node.defaultSource}`);
+  if (node.nullable) constraints.push('nullable');
+  return constraints;
+}
+
+/** The object a field's children are listed from — through arrays, refs and nullability */
+function childObject(node: ZodNode, table: SchemaTable): { object: ZodNode & { kind: 'object' }; refName?: string } | null {
+  if (node.kind === 'array') return childObject(node.element, table);
+  const target = resolve(node, table);
+  if (target?.kind !== 'object') return null;
+  return { object: target, refName: node.kind === 'ref' ? node.name : undefined };
+}
+
+function renderFields(
+  fields: ParsedField[],
+  table: SchemaTable,
+  indent: string,
+  visiting: Set<string>,
+): string[] {
+  const lines: string[] = [];
+  for (const field of fields) {
+    const node = field.schema;
+    const req = !node.optional && !node.nullable ? 'REQUIRED' : 'OPTIONAL';
+    const constraints = describeConstraints(node);
+    const constraintStr = constraints.length > 0 ? ` | Constraints: ${constraints.join(', ')}` : '';
+    lines.push(
+      `${indent}- "${field.key}": [${describeType(node, table)}] (${req}) — ${node.description ?? NO_DESCRIPTION}${constraintStr}`,
+    );
+    lines.push(...renderChildren(node, table, indent + '  ', visiting));
+  }
+  return lines;
+}
+
+/** Nested field lines for objects, arrays of objects, refs and union options */
+function renderChildren(node: ZodNode, table: SchemaTable, indent: string, visiting: Set<string>): string[] {
+  if (indent.length / 2 > MAX_RENDER_DEPTH) return [`${indent}(nested further — follow the same conventions)`];
+
+  if (node.kind === 'union' || node.kind === 'discriminatedUnion') {
+    const discriminator = node.kind === 'discriminatedUnion' ? node.discriminator : null;
+    const lines: string[] = [];
+    for (const option of node.options) {
+      const child = childObject(option, table);
+      if (!child) continue;
+      const discriminant = child.object.fields.find((f) => f.key === discriminator)?.schema;
+      const label = discriminant?.kind === 'literal'
+        ? `when "${discriminator}" is ${formatValue(discriminant.value)}`
+        : `option ${describeType(option, table)}`;
+      lines.push(`${indent}• ${label}:`);
+      lines.push(...renderObject(child.object, child.refName, table, indent + '  ', visiting));
+    }
+    return lines;
+  }
+
+  const child = childObject(node, table);
+  return child ? renderObject(child.object, child.refName, table, indent, visiting) : [];
+}
+
+function renderObject(
+  object: ZodNode & { kind: 'object' },
+  refName: string | undefined,
+  table: SchemaTable,
+  indent: string,
+  visiting: Set<string>,
+): string[] {
+  if (refName && visiting.has(refName)) return [`${indent}(recursive — same shape as ${toTypeName(refName)})`];
+  if (refName) visiting.add(refName);
+  const lines = renderFields(object.fields, table, indent, visiting);
+  if (refName) visiting.delete(refName);
+  return lines;
+}
+
+// ─── EXAMPLE OUTPUT ──────────────────────────────────────────────────────────
+
+/** A concrete value matching `node`, for the example output */
+function exampleValue(node: ZodNode, key: string, table: SchemaTable, visiting: Set<string>): unknown {
+  if (node.defaultValue !== undefined) return node.defaultValue;
+
+  switch (node.kind) {
+    case 'string': {
+      const format = node.checks.find((c) => c.kind === 'format');
+      return (format?.kind === 'format' && FORMAT_EXAMPLES[format.format]) || `<${key}>`;
+    }
+    case 'number':
+    case 'bigint': {
+      const min = node.checks.find((c) => c.kind === 'min' || c.kind === 'gt');
+      if (min?.kind === 'min') return min.value;
+      if (min?.kind === 'gt') return min.value + 1;
+      return 0;
+    }
+    case 'boolean': return false;
+    case 'date': return FORMAT_EXAMPLES['date-time'];
+    case 'null': return null;
+    case 'literal': return node.value;
+    case 'enum': return node.values[0] ?? 'VALUE';
+    case 'object': {
+      const obj: Record<string, unknown> = {};
+      for (const field of node.fields) obj[field.key] = exampleValue(field.schema, field.key, table, visiting);
+      return obj;
+    }
+    case 'array': {
+      // A recursive item would never end — an empty list still shows the shape
+      if (node.element.kind === 'ref' && visiting.has(node.element.name)) return [];
+      return [exampleValue(node.element, key, table, visiting)];
+    }
+    case 'tuple': return node.items.map((n) => exampleValue(n, key, table, visiting));
+    case 'record': return { [`<${key}_key>`]: exampleValue(node.value, key, table, visiting) };
+    case 'union':
+    case 'discriminatedUnion':
+      return node.options.length > 0 ? exampleValue(node.options[0], key, table, visiting) : null;
+    case 'intersection': {
+      const parts = node.parts.map((n) => exampleValue(n, key, table, visiting));
+      return parts.every((p) => typeof p === 'object' && p !== null && !Array.isArray(p))
+        ? Object.assign({}, ...parts)
+        : parts[0];
+    }
+    case 'ref': {
+      const target = table.get(node.name);
+      if (!target) return `<${key}>`;
+      // Stop at recursion; `undefined` drops the key from the stringified example
+      if (visiting.has(node.name)) return node.nullable ? null : undefined;
+      visiting.add(node.name);
+      const value = exampleValue(target, key, table, visiting);
+      visiting.delete(node.name);
+      return value;
+    }
+    default: return `<${key}>`;
+  }
+}
+
+/** Example JSON instance of an object with `fields`, references resolved */
+export function generateExample(fields: ParsedField[], table: SchemaTable = new Map(), rootName?: string): string {
+  const visiting = new Set(rootName ? [rootName] : []);
+  const obj: Record<string, unknown> = {};
+  for (const field of fields) obj[field.key] = exampleValue(field.schema, field.key, table, visiting);
+  return JSON.stringify(obj, null, 2);
+}
+
+// ─── PROMPT ──────────────────────────────────────────────────────────────────
+
+/**
+ * Generate a 2026-standard XML-tagged system prompt.
+ * Models (Claude 3.5+, Gemini 2.0+, GPT-4o) achieve measurably higher
+ * instruction-following rates with XML section markers vs flat markdown.
+ */
+export function generatePrompt(fields: ParsedField[], table: SchemaTable = new Map(), rootName?: string): string {
+  const schemaLines = renderFields(fields, table, '  ', new Set(rootName ? [rootName] : []));
+  const example = generateExample(fields, table, rootName);
+
+  return `<system>
+<role>
+You are a structured data extraction system. Your sole purpose is to analyze the user's input and return a single, valid JSON object that conforms exactly to the schema below.
+</role>
+
+<instructions>
+1. Return ONLY raw JSON. No markdown code fences, no commentary, no explanations.
+2. Every field marked REQUIRED must be present. Omit OPTIONAL fields only if the data is genuinely absent.
+3. Data types must match exactly: strings as strings, numbers as numbers, booleans as true/false.
+4. Do NOT invent, hallucinate, or assume values not present in the user's input. Use null for missing optional fields.
+5. Respect all constraints (min, max, format, enum values) listed in the schema.
+</instructions>
+
+<json_schema>
+${schemaLines.join('\n')}
+</json_schema>
+
+<example_output>
+${example}
+</example_output>
+
+<constraints>
+- Output must be parseable by JSON.parse() with zero modifications.
+- Do not wrap in markdown. Do not add trailing commas.
+- If a field is an enum, use ONLY the listed values.
+- If the user's input is ambiguous for a field, prefer null over guessing.
+</constraints>
+</system>`;
+}
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+function withSchemas(result: ConversionResult, extra: Partial<ZodPromptResult> = {}): ZodPromptResult {
+  return { schemas: [], root: null, example: '', ...result, ...extra };
+}
+
+/** Converts Zod schema source into a ready-to-paste system prompt. */
+export function convertZodToPrompt(input: string, options: ZodPromptOptions = {}): ZodPromptResult {
+  const trimmed = input.trim();
+  if (!trimmed) return withSchemas(createResult(''));
+
+  // Guard: input size
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    const message = `Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)} KB. Please reduce the schema size.`;
+    return withSchemas(createErrorResult(message, `// Error: ${message}`));
+  }
+
+  // Guard: must contain z.object
+  if (!/z\.(?:object|strictObject|looseObject)\(/.test(trimmed)) {
+    return withSchemas(createErrorResult(
+      'No z.object() found.',
+      '// No z.object() found. Paste a Zod schema containing z.object({ ... }) to generate a prompt.',
+    ));
+  }
+
+  const { schemas, warnings, objectNames, root, inline } = parseObjectRoot(trimmed, options.root);
+  const table: SchemaTable = new Map(schemas.map((s) => [s.name, s.schema]));
+  const fields = root.schema.fields;
+  const rootName = inline ? null : root.name;
+
+  if (fields.length === 0) {
+    return withSchemas(createErrorResult(
+      'Could not detect any fields inside z.object({ ... }).',
+      '// Could not detect any fields inside z.object({ ... }).\n// Ensure your schema uses standard Zod field syntax like: name: z.string()',
+    ));
+  }
+
+  return withSchemas(createResult(generatePrompt(fields, table, rootName ?? undefined), warnings), {
+    schemas: objectNames,
+    root: rootName,
+    example: generateExample(fields, table, rootName ?? undefined),
+  });
+}
@@ -0,0 +1,354 @@
+// src/lib/converters/zodToStructuredOutput.ts
+// ─── Zod-to-Structured-Output Converter ──────────────────────────────────────
+// Exports the schema behind a Zod → Prompt conversion in the shape each LLM
+// API takes for structured output. Starts from the draft 2020-12 document and
+// narrows it to the provider's JSON Schema subset; every keyword the provider
+// would silently ignore or reject becomes a warning instead of vanishing.
+//
+//   OpenAI    → response_format json_schema, strict mode
+//   Anthropic → tool definition with input_schema, forced via tool_choice
+//   Gemini    → generationConfig.responseSchema (OpenAPI 3.0 subset)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+import { buildJsonSchemaDocument, MAX_INPUT_LENGTH, type JsonSchema } from './zodToJsonSchema';
+import { parseObjectRoot, toTypeName } from './zodParser';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** OpenAI strict mode: formats it enforces */
+const OPENAI_FORMATS = new Set(['date-time', 'time', 'date', 'duration', 'email', 'hostname', 'ipv4', 'ipv6', 'uuid']);
+
+/** OpenAI strict mode: keywords it rejects or ignores */
+const OPENAI_UNSUPPORTED = [
+  'minLength', 'maxLength', 'uniqueItems', 'propertyNames', 'minProperties', 'maxProperties',
+  'contentEncoding', 'default', 'not', 'allOf',
+];
+
+/** OpenAI strict mode: maximum object nesting */
+const OPENAI_MAX_DEPTH = 10;
+
+/** Gemini `Schema` keywords passed through unchanged */
+const GEMINI_KEEP = new Set([
+  'description', 'title', 'minLength', 'maxLength', 'pattern', 'minimum', 'maximum',
+  'minItems', 'maxItems', 'minProperties', 'maxProperties', 'default', 'example',
+]);
+
+/** Gemini string formats (numbers take int32/int64/float/double) */
+const GEMINI_STRING_FORMATS = new Set(['date-time', 'enum']);
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type StructuredOutputProvider = 'openai' | 'anthropic' | 'gemini';
+
+export interface StructuredOutputOptions {
+  provider: StructuredOutputProvider;
+  /** Declaration to export; defaults to the object nothing references */
+  root?: string;
+}
+
+const PROVIDER_LABELS: Record<StructuredOutputProvider, string> = {
+  openai: 'OpenAI strict mode',
+  anthropic: 'Anthropic tool use',
+  gemini: 'Gemini responseSchema',
+};
+
+interface NarrowContext {
+  label: string;
+  warnings: Set<string>;
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function drop(schema: JsonSchema, key: string, path: string, ctx: NarrowContext): void {
+  if (!(key in schema)) return;
+  ctx.warnings.add(`${path}: ${key} ${JSON.stringify(schema[key])} is not supported by ${ctx.label} and was dropped`);
+  delete schema[key];
+}
+
+/** `UserSchema` → `user_schema`-style names some APIs require */
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^a-zA-Z0-9_-]+/g, '_').toLowerCase();
+}
+
+/** Add `null` to a schema's accepted values, preferring a type array over `anyOf` */
+function makeNullable(schema: JsonSchema): JsonSchema {
+  const { type } = schema;
+  if (Array.isArray(type)) return type.includes('null') ? schema : { ...schema, type: [...type, 'null'] };
+  if (typeof type === 'string' && !('const' in schema)) {
+    const nullable: JsonSchema = { ...schema, type: [type, 'null'] };
+    if (Array.isArray(schema.enum)) nullable.enum = [...schema.enum, null];
+    return nullable;
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const hasNull = schema.anyOf.some((s) => isSchema(s) && s.type === 'null');
+    return hasNull ? schema : { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] };
+  }
+  const { description, ...rest } = schema;
+  const wrapped: JsonSchema = { anyOf: [rest, { type: 'null' }] };
+  if (description !== undefined) wrapped.description = description;
+  return wrapped;
+}
+
+// ─── OPENAI ──────────────────────────────────────────────────────────────────
+
+/**
+ * Strict mode wants every object closed and every property required; an
+ * optional field becomes a required one that accepts `null`.
+ */
+function narrowOpenAI(schema: JsonSchema, path: string, depth: number, ctx: NarrowContext): JsonSchema {
+  const out: JsonSchema = { ...schema };
+  for (const key of OPENAI_UNSUPPORTED) drop(out, key, path, ctx);
+
+  if (typeof out.format === 'string' && !OPENAI_FORMATS.has(out.format)) drop(out, 'format', path, ctx);
+
+  if (Array.isArray(out.oneOf)) {
+    out.anyOf = out.oneOf;
+    delete out.oneOf;
+  }
+  if (Array.isArray(out.anyOf)) {
+    out.anyOf = out.anyOf.map((s, i) => (isSchema(s) ? narrowOpenAI(s, `${path}|${i}`, depth, ctx) : s));
+  }
+
+  if ('prefixItems' in out) {
+    ctx.warnings.add(`${path}: tuples are not supported by ${ctx.label} — exported as an array of any listed item type`);
+    const items = (out.prefixItems as JsonSchema[]).map((s, i) => narrowOpenAI(s, `${path}[${i}]`, depth, ctx));
+    out.items = items.length === 1 ? items[0] : { anyOf: items };
+    delete out.prefixItems;
+  } else if (isSchema(out.items)) {
+    out.items = narrowOpenAI(out.items, `${path}[]`, depth, ctx);
+  }
+
+  const isObject = out.type === 'object' || (Array.isArray(out.type) && out.type.includes('object'));
+  if (isObject) {
+    if (depth > OPENAI_MAX_DEPTH) {
+      ctx.warnings.add(`${path}: nested ${depth} objects deep — ${ctx.label} allows at most ${OPENAI_MAX_DEPTH}`);
+    }
+    if (isSchema(out.additionalProperties)) {
+      ctx.warnings.add(`${path}: records with arbitrary keys are not supported by ${ctx.label} — only listed properties are kept`);
+    }
+    out.additionalProperties = false;
+
+    const properties = isSchema(out.properties) ? out.properties : {};
+    const required = new Set(Array.isArray(out.required) ? (out.required as string[]) : []);
+    const narrowed: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(properties)) {
+      if (!isSchema(value)) continue;
+      const child = narrowOpenAI(value, `${path}.${key}`, depth + 1, ctx);
+      narrowed[key] = required.has(key) ? child : makeNullable(child);
+    }
+    out.properties = narrowed;
+    out.required = Object.keys(narrowed);
+  }
+
+  if (isSchema(out.$defs)) {
+    const defs: Record<string, JsonSchema> = {};
+    for (const [name, def] of Object.entries(out.$defs)) {
+      if (isSchema(def)) defs[name] = narrowOpenAI(def, name, 1, ctx);
+    }
+    out.$defs = defs;
+  }
+  return out;
+}
+
+function exportOpenAI(document: JsonSchema, rootName: string, ctx: NarrowContext): JsonSchema {
+  const { $schema: _, ...schema } = document;
+  return {
+    response_format: {
+      type: 'json_schema',
+      json_schema: {
+        name: toSnakeCase(toTypeName(rootName)).slice(0, 64),
+        strict: true,
+        schema: narrowOpenAI(schema, toTypeName(rootName), 1, ctx),
+      },
+    },
+  };
+}
+
+// ─── ANTHROPIC ───────────────────────────────────────────────────────────────
+
+/**
+ * Tool input schemas accept full JSON Schema, so nothing is narrowed; the
+ * tool is forced with `tool_choice` so the reply is always its input.
+ */
+function exportAnthropic(document: JsonSchema, rootName: string): JsonSchema {
+  const { $schema: _, description, ...inputSchema } = document;
+  const typeName = toTypeName(rootName);
+  const name = `record_${toSnakeCase(typeName)}`.slice(0, 64);
+  return {
+    tools: [
+      {
+        name,
+        description: typeof description === 'string' ? description : `Record a ${typeName} extracted from the input.`,
+        input_schema: inputSchema,
+      },
+    ],
+    tool_choice: { type: 'tool', name },
+  };
+}
+
+// ─── GEMINI ──────────────────────────────────────────────────────────────────
+
+/** Resolve a local `$ref` against the document */
+function resolveRef(ref: string, document: JsonSchema): { name: string; schema: JsonSchema } | null {
+  if (ref === '#') return { name: '#', schema: document };
+  const m = ref.match(/^#\/\$defs\/(.+)$/);
+  const defs = isSchema(document.$defs) ? document.$defs : {};
+  return m && isSchema(defs[m[1]]) ? { name: m[1], schema: defs[m[1]] as JsonSchema } : null;
+}
+
+/**
+ * Gemini's `Schema` is an OpenAPI 3.0 subset: no `$ref`, upper-case types,
+ * `nullable` instead of `"null"`, and string-only enums. References are
+ * inlined; recursion is cut off at the second visit.
+ */
+function narrowGemini(
+  schema: JsonSchema,
+  path: string,
+  document: JsonSchema,
+  visiting: Set<string>,
+  ctx: NarrowContext,
+): JsonSchema {
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(schema.$ref, document);
+    if (!target) return {};
+    if (visiting.has(target.name)) {
+      ctx.warnings.add(`${path}: recursive reference to ${target.name === '#' ? 'the root' : target.name} can't be expressed in ${ctx.label} — cut off as an empty object`);
+      return { type: 'OBJECT', nullable: true };
+    }
+    visiting.add(target.name);
+    const inlined = narrowGemini({ ...target.schema, ...schema, $ref: undefined }, path, document, visiting, ctx);
+    visiting.delete(target.name);
+    return inlined;
+  }
+
+  const out: JsonSchema = {};
+  let nullable = false;
+
+  // ── Types ──
+  const types = (Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []) as string[];
+  if (types.includes('null')) nullable = true;
+  const nonNull = types.filter((t) => t !== 'null');
+  if (nonNull.length === 1) out.type = nonNull[0].toUpperCase();
+  else if (nonNull.length > 1) {
+    out.anyOf = nonNull.map((t) => ({ type: t.toUpperCase() }));
+  }
+
+  // ── Unions ──
+  const options = (schema.anyOf ?? schema.oneOf) as unknown[] | undefined;
+  if (Array.isArray(options)) {
+    const nonNullOptions = options.filter((s) => !(isSchema(s) && s.type === 'null'));
+    if (nonNullOptions.length < options.length) nullable = true;
+    const narrowed = nonNullOptions.map((s, i) => narrowGemini(s as JsonSchema, `${path}|${i}`, document, visiting, ctx));
+    if (narrowed.length === 1) Object.assign(out, narrowed[0]);
+    else out.anyOf = narrowed;
+  }
+
+  // ── Values ──
+  if ('const' in schema) {
+    if (typeof schema.const === 'string') {
+      out.type = 'STRING';
+      out.format = 'enum';
+      out.enum = [schema.const];
+    } else drop({ const: schema.const }, 'const', path, ctx);
+  }
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter((v) => v !== null);
+    if (values.length < schema.enum.length) nullable = true;
+    if (values.every((v) => typeof v === 'string')) {
+      out.type = 'STRING';
+      out.format = 'enum';
+      out.enum = values;
+    } else {
+      drop({ enum: values }, 'enum', path, ctx);
+    }
+  }
+  if (typeof schema.format === 'string') {
+    const isString = out.type === 'STRING';
+    if (!isString || GEMINI_STRING_FORMATS.has(schema.format)) out.format = schema.format;
+    else drop({ format: schema.format }, 'format', path, ctx);
+  }
+
+  // ── Containers ──
+  if (isSchema(schema.properties)) {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(schema.properties)) {
+      if (isSchema(value)) properties[key] = narrowGemini(value, `${path}.${key}`, document, visiting, ctx);
+    }
+    out.properties = properties;
+    out.propertyOrdering = Object.keys(properties);
+    if (Array.isArray(schema.required) && schema.required.length > 0) out.required = schema.required;
+  }
+  if (isSchema(schema.additionalProperties)) {
+    drop({ additionalProperties: schema.additionalProperties }, 'additionalProperties', path, ctx);
+  }
+  if (isSchema(schema.items)) out.items = narrowGemini(schema.items, `${path}[]`, document, visiting, ctx);
+  if (Array.isArray(schema.prefixItems)) {
+    ctx.warnings.add(`${path}: tuples are not supported by ${ctx.label} — exported as an array of any listed item type`);
+    const items = schema.prefixItems.map((s, i) => narrowGemini(s as JsonSchema, `${path}[${i}]`, document, visiting, ctx));
+    out.items = items.length === 1 ? items[0] : { anyOf: items };
+  }
+
+  // ── Everything else ──
+  const handled = new Set([
+    'type', 'anyOf', 'oneOf', 'const', 'enum', 'format', 'properties', 'required', 'additionalProperties',
+    'items', 'prefixItems', '$ref', '$defs', '$schema',
+  ]);
+  for (const [key, value] of Object.entries(schema)) {
+    if (handled.has(key) || value === undefined) continue;
+    if (GEMINI_KEEP.has(key)) out[key] = value;
+    else drop({ [key]: value }, key, path, ctx);
+  }
+
+  if (nullable) out.nullable = true;
+  return out;
+}
+
+function exportGemini(document: JsonSchema, rootName: string, ctx: NarrowContext): JsonSchema {
+  return {
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: narrowGemini(document, toTypeName(rootName), document, new Set(['#']), ctx),
+    },
+  };
+}
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+/** Converts Zod schema source into a provider's structured-output request fragment. */
+export function convertZodToStructuredOutput(input: string, options: StructuredOutputOptions): ConversionResult {
+  const trimmed = input.trim();
+  if (!trimmed) return createResult('');
+
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    const message = `Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)} KB. Please reduce the schema size.`;
+    return createErrorResult(message, `// Error: ${message}`);
+  }
+
+  const { schemas, warnings, root } = parseObjectRoot(trimmed, options.root);
+  if (root.schema.fields.length === 0) {
+    return createErrorResult(
+      'Could not detect any fields inside z.object({ ... }).',
+      '// Could not detect any fields inside z.object({ ... }).',
+    );
+  }
+
+  const { document, warnings: emitWarnings } = buildJsonSchemaDocument(schemas, '2020-12', {
+    rootName: root.name,
+    reachableOnly: true,
+  });
+  const ctx: NarrowContext = { label: PROVIDER_LABELS[options.provider], warnings: new Set([...warnings, ...emitWarnings]) };
+
+  let output: JsonSchema;
+  switch (options.provider) {
+    case 'openai': output = exportOpenAI(document, root.name, ctx); break;
+    case 'anthropic': output = exportAnthropic(document, root.name); break;
+    case 'gemini': output = exportGemini(document, root.name, ctx); break;
+  }
+
+  return createResult(JSON.stringify(output, null, 2), [...ctx.warnings]);
+}
@@ -0,0 +1,174 @@
+// src/lib/converters/zodToTs.ts
+// ─── Zod-to-TypeScript Converter ─────────────────────────────────────────────
+// Emits the `z.infer` type of every declaration read by `parseZodSchemas`,
+// so the types can live without a runtime Zod dependency. Plain objects
+// become interfaces; `.describe()` text and defaults become JSDoc.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createErrorResult, createResult, type ConversionResult } from './types';
+import { parseZodSchemas, toTypeName, type LiteralValue, type ZodNode } from './zodParser';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Maximum input size to prevent main-thread lockup */
+export const MAX_INPUT_LENGTH = 200_000;
+
+const INDENT = '  ';
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+/** Check if a property key is a valid JS identifier */
+function isValidIdentifier(key: string): boolean {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key);
+}
+
+function formatKey(key: string): string {
+  return isValidIdentifier(key) ? key : JSON.stringify(key);
+}
+
+function formatLiteral(value: LiteralValue): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : JSON.stringify(value) ?? 'undefined';
+}
+
+/** JSDoc lines for a node's description and default, or none */
+function jsDoc(node: ZodNode, indent: string): string[] {
+  const tags: string[] = [];
+  if (node.description) tags.push(...node.description.split('\n'));
+  if (node.defaultSource !== undefined) tags.push(`@default ${node.defaultSource}`);
+  if (tags.length === 0) return [];
+  if (tags.length === 1) return [`${indent}/** ${tags[0].replace(/\*\//g, '*\\/')} */`];
+  return [`${indent}/**`, ...tags.map((t) => `${indent} * ${t.replace(/\*\//g, '*\\/')}`), `${indent} */`];
+}
+
+/** Wrap unions/intersections in parens where precedence needs it (`(A | B)[]`) */
+function group(type: string): string {
+  return /^[\w$.<>[\]'" ,]+$/.test(type) || /^\{[\s\S]*\}$/.test(type) ? type : `(${type})`;
+}
+
+// ─── EMITTER ─────────────────────────────────────────────────────────────────
+
+interface EmitContext {
+  declared: Set<string>;
+  warnings: Set<string>;
+}
+
+function emitObjectBody(node: ZodNode & { kind: 'object' }, indent: string, ctx: EmitContext): string[] {
+  const inner = indent + INDENT;
+  const lines: string[] = [];
+  for (const field of node.fields) {
+    // z.infer's output: a `.default()` fills the value in, so it's never absent
+    const optional = field.schema.optional && field.schema.defaultSource === undefined;
+    lines.push(...jsDoc(field.schema, inner));
+    lines.push(`${inner}${formatKey(field.key)}${optional ? '?' : ''}: ${emitType(field.schema, inner, ctx, false)};`);
+  }
+  if (node.unknownKeys === 'passthrough' && !node.catchall) lines.push(`${inner}[key: string]: unknown;`);
+  return lines;
+}
+
+/** TypeScript for a node; `standalone` adds `| undefined` for optionality outside a property */
+function emitType(node: ZodNode, indent: string, ctx: EmitContext, standalone = true): string {
+  let type = emitBase(node, indent, ctx);
+  if (node.nullable) type = `${type} | null`;
+  if (standalone && node.optional && node.defaultSource === undefined) type = `${type} | undefined`;
+  return type;
+}
+
+function emitBase(node: ZodNode, indent: string, ctx: EmitContext): string {
+  switch (node.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'bigint':
+    case 'null':
+    case 'undefined':
+    case 'any':
+    case 'unknown':
+    case 'never':
+      return node.kind;
+    case 'date': return 'Date';
+
+    case 'literal': return formatLiteral(node.value);
+    case 'enum': return node.values.map((v) => JSON.stringify(v)).join(' | ') || 'never';
+
+    case 'object': {
+      const body = emitObjectBody(node, indent, ctx);
+      const literal = body.length > 0 ? `{\n${body.join('\n')}\n${indent}}` : '{}';
+      if (!node.catchall) return literal;
+      return `${literal} & { [key: string]: ${emitType(node.catchall, indent, ctx)} }`;
+    }
+
+    case 'array': return `${group(emitType(node.element, indent, ctx))}[]`;
+
+    case 'tuple': {
+      const items = node.items.map((n) => {
+        const t = emitType(n, indent, ctx, false);
+        return n.optional ? `${group(t)}?` : t;
+      });
+      if (node.rest) items.push(`...${group(emitType(node.rest, indent, ctx))}[]`);
+      return `[${items.join(', ')}]`;
+    }
+
+    case 'record': {
+      const record = `Record<${emitType(node.key, indent, ctx)}, ${emitType(node.value, indent, ctx)}>`;
+      return node.partial ? `Partial<${record}>` : record;
+    }
+
+    case 'union':
+    case 'discriminatedUnion':
+      return node.options.map((n) => group(emitType(n, indent, ctx))).join(' | ');
+
+    case 'intersection':
+      return node.parts.map((n) => group(emitType(n, indent, ctx))).join(' & ');
+
+    case 'ref':
+      if (!ctx.declared.has(node.name)) {
+        ctx.warnings.add(`"${node.name}" is not declared in the input — typed as unknown`);
+        return 'unknown';
+      }
+      return toTypeName(node.name);
+  }
+}
+
+function emitDeclaration(name: string, node: ZodNode, ctx: EmitContext): string[] {
+  const typeName = toTypeName(name);
+  const lines = jsDoc({ ...node, defaultSource: undefined }, '');
+
+  const isPlainObject = node.kind === 'object' && !node.nullable && !node.optional && !node.catchall;
+  if (isPlainObject) {
+    const body = emitObjectBody(node, '', ctx);
+    lines.push(body.length > 0 ? `export interface ${typeName} {\n${body.join('\n')}\n}` : `export interface ${typeName} {}`);
+  } else {
+    lines.push(`export type ${typeName} = ${emitType(node, '', ctx)};`);
+  }
+  return lines;
+}
+
+// ─── PUBLIC API ──────────────────────────────────────────────────────────────
+
+/** Converts Zod schema source into standalone TypeScript types. */
+export function convertZodToTs(input: string): ConversionResult {
+  const trimmed = input.trim();
+  if (!trimmed) return createResult('');
+
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    const message = `Input exceeds ${(MAX_INPUT_LENGTH / 1_000).toFixed(0)} KB. Please reduce the schema size.`;
+    return createErrorResult(message, `// Error: ${message}`);
+  }
+
+  const { schemas, warnings } = parseZodSchemas(trimmed);
+  if (schemas.length === 0) {
+    return createErrorResult(
+      'No Zod schema found.',
+      '// No Zod schema found. Declare one like: const User = z.object({ name: z.string() })',
+    );
+  }
+
+  const ctx: EmitContext = { declared: new Set(schemas.map((s) => s.name)), warnings: new Set(warnings) };
+  const lines = ['// Generated from Zod schemas', ''];
+  for (const { name, schema } of schemas) {
+    lines.push(...emitDeclaration(name, schema, ctx), '');
+  }
+  lines.push(`// ✅ Converted ${schemas.length} schema${schemas.length !== 1 ? 's' : ''}`);
+
+  return createResult(lines.join('\n'), [...ctx.warnings]);
+}
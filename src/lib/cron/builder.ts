@@ -0,0 +1,130 @@
+// src/lib/cron/builder.ts
+// ─── Cron Builder ────────────────────────────────────────────────────────────
+// The field-by-field builder's model. Each field is read as one simple
+// shape — every value, every nth, a set of values, a range — and edits go
+// back through the translator, so the expression stays in the dialect's own
+// syntax and Quartz's `?` moves to whichever day field isn't in use.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { CRON_FIELDS, DIALECT_SYNTAX, MONTH_NAMES, WEEKDAY_NAMES, type CronDialect, type CronFieldName } from './dialects';
+import { ANY_ITEM, NONE_ITEM, expandField, isAny, isNone, rangeItem, stepItem, valueItem, type CronItem, type CronSchedule } from './parse';
+import { translateCron } from './translate';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Steps that divide each field evenly, or nearly */
+export const STEP_OPTIONS: Record<CronFieldName, number[]> = {
+  second: [2, 3, 4, 5, 6, 10, 12, 15, 20, 30],
+  minute: [2, 3, 4, 5, 6, 10, 12, 15, 20, 30],
+  hour: [2, 3, 4, 6, 8, 12],
+  dayOfMonth: [2, 3, 5, 7, 10, 14, 15],
+  month: [2, 3, 4, 6],
+  dayOfWeek: [2, 3],
+  year: [2, 5, 10],
+};
+
+/** Years the year picker offers beyond the ones already in the expression */
+const YEARS_AHEAD = 10;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** `custom` is anything the pickers can't show, like `L-3` or `1-5/2,20` */
+export type BuilderMode = 'every' | 'step' | 'values' | 'range' | 'none' | 'last' | 'custom';
+
+export interface FieldChoice {
+  mode: BuilderMode;
+  step: number;
+  values: number[];
+  start: number;
+  end: number;
+}
+
+export interface FieldOption {
+  value: number;
+  label: string;
+}
+
+// ─── FIELDS ──────────────────────────────────────────────────────────────────
+
+/** The fields the builder shows for `dialect`, Quartz's optional year included */
+export function builderFields(dialect: CronDialect): CronFieldName[] {
+  const syntax = DIALECT_SYNTAX[dialect];
+  return syntax.optionalYear ? [...syntax.fields, 'year'] : syntax.fields;
+}
+
+/** The modes a field offers in `dialect` */
+export function fieldModes(field: CronFieldName, dialect: CronDialect): BuilderMode[] {
+  const syntax = DIALECT_SYNTAX[dialect];
+  const modes: BuilderMode[] = ['every', 'step', 'values', 'range'];
+  if (syntax.requireQuestion && (field === 'dayOfMonth' || field === 'dayOfWeek')) modes.push('none');
+  if (syntax.quartzDays && field === 'dayOfMonth') modes.push('last');
+  return modes;
+}
+
+/** Every value a picker offers, labelled; years run from now plus any the field already has */
+export function fieldOptions(field: CronFieldName, current: number[] = [], now = new Date()): FieldOption[] {
+  if (field === 'year') {
+    const years = new Set(current);
+    for (let year = now.getFullYear(); year < now.getFullYear() + YEARS_AHEAD; year++) years.add(year);
+    return [...years].sort((a, b) => a - b).map((year) => ({ value: year, label: String(year) }));
+  }
+  const { min } = CRON_FIELDS[field];
+  const max = field === 'dayOfWeek' ? 6 : CRON_FIELDS[field].max;
+  return Array.from({ length: max - min + 1 }, (_, index) => {
+    const value = min + index;
+    if (field === 'month') return { value, label: MONTH_NAMES[value - 1] };
+    if (field === 'dayOfWeek') return { value, label: WEEKDAY_NAMES[value] };
+    if (field === 'second' || field === 'minute' || field === 'hour') return { value, label: String(value).padStart(2, '0') };
+    return { value, label: String(value) };
+  });
+}
+
+/** How the builder shows a parsed field */
+export function readField(items: CronItem[], field: CronFieldName): FieldChoice {
+  const options = fieldOptions(field);
+  const choice: FieldChoice = { mode: 'custom', step: STEP_OPTIONS[field][0], values: [options[0].value], start: options[0].value, end: options[options.length - 1].value };
+  const [first] = items;
+  if (isAny(items)) return { ...choice, mode: 'every' };
+  if (isNone(items)) return { ...choice, mode: 'none' };
+  if (items.length === 1 && first.kind === 'last' && first.offset === 0) return { ...choice, mode: 'last' };
+  if (items.length === 1 && first.kind === 'range' && first.wildcard) return { ...choice, mode: 'step', step: first.step };
+  if (items.length === 1 && first.kind === 'range' && first.step === 1 && first.start < first.end && first.end <= options[options.length - 1].value) {
+    return { ...choice, mode: 'range', start: first.start, end: first.end };
+  }
+  const values = items.every((item) => item.kind === 'range') ? expandField(items, field) : null;
+  return values ? { ...choice, mode: 'values', values } : choice;
+}
+
+function choiceItems(choice: FieldChoice, field: CronFieldName): CronItem[] {
+  switch (choice.mode) {
+    case 'every':
+      return [ANY_ITEM];
+    case 'none':
+      return [NONE_ITEM];
+    case 'step':
+      return [stepItem(choice.step, field)];
+    case 'last':
+      return [{ kind: 'last', text: 'L', offset: 0 }];
+    case 'range':
+      return [rangeItem(Math.min(choice.start, choice.end), Math.max(choice.start, choice.end))];
+    case 'values':
+      return choice.values.length > 0 ? [...choice.values].sort((a, b) => a - b).map(valueItem) : [ANY_ITEM];
+    case 'custom':
+      throw new Error('A custom field can only be edited in the expression.');
+  }
+}
+
+/**
+ * The schedule's expression with one field changed. Where one day field
+ * must be `?`, using one frees the other, and clearing one restores the
+ * other to every day.
+ */
+export function rebuildExpression(schedule: CronSchedule, field: CronFieldName, choice: FieldChoice): string {
+  const fields = { ...schedule.fields, [field]: choiceItems(choice, field) };
+  if (DIALECT_SYNTAX[schedule.dialect].requireQuestion && (field === 'dayOfMonth' || field === 'dayOfWeek')) {
+    const other = field === 'dayOfMonth' ? 'dayOfWeek' : 'dayOfMonth';
+    if (choice.mode !== 'none') fields[other] = [NONE_ITEM];
+    else if (isNone(fields[other])) fields[other] = [ANY_ITEM];
+  }
+  return translateCron({ ...schedule, fields }, schedule.dialect).expression;
+}
@@ -0,0 +1,84 @@
+// src/lib/cron/collisions.ts
+// ─── Job Collisions & Load ───────────────────────────────────────────────────
+// Runs each job forward with the same iteration the single-expression view
+// uses, then finds runs of different jobs that land within a window of each
+// other and counts how all the runs spread over the hours of the day.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { CronJob } from './jobs';
+import { cronRuns } from './schedule';
+import { floatingTime } from './timezones';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Runs followed per job; cron-parser takes about a millisecond each, and an every-second job never ends */
+export const MAX_RUNS_PER_JOB = 1500;
+
+const MINUTE_MS = 60_000;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export interface JobRuns {
+  job: CronJob;
+  runs: Date[];
+  /** Stopped at MAX_RUNS_PER_JOB before the window ended */
+  truncated: boolean;
+}
+
+export interface Collision {
+  /** Indexes of the jobs involved, ascending */
+  jobs: number[];
+  /** Times these jobs fire together in the window */
+  count: number;
+  first: Date;
+}
+
+// ─── ANALYSIS ────────────────────────────────────────────────────────────────
+
+/** A job's runs from `from` to `to`; jobs without their own zone run in `timezone` */
+export function jobRuns(job: CronJob, from: Date, to: Date, timezone: string): JobRuns {
+  const runs: Date[] = [];
+  if (!job.parsed) return { job, runs, truncated: false };
+  for (const run of cronRuns(job.parsed, from, job.timezone ?? timezone)) {
+    if (run > to) break;
+    if (runs.length === MAX_RUNS_PER_JOB) return { job, runs, truncated: true };
+    runs.push(run);
+  }
+  return { job, runs, truncated: false };
+}
+
+/**
+ * Groups of jobs that fire within `windowMinutes` of each other, most
+ * frequent first. Each group is counted once per time it happens, from
+ * the first run in it; 0 means the same instant.
+ */
+export function findCollisions(jobs: JobRuns[], windowMinutes: number): Collision[] {
+  const fires = jobs.flatMap(({ runs }, job) => runs.map((run) => ({ at: run.getTime(), job }))).sort((a, b) => a.at - b.at);
+  const windowMs = windowMinutes * MINUTE_MS;
+  const collisions = new Map<string, Collision>();
+
+  for (let i = 0; i < fires.length; ) {
+    const together = new Set<number>();
+    let j = i;
+    while (j < fires.length && fires[j].at - fires[i].at <= windowMs) together.add(fires[j++].job);
+    if (together.size < 2) {
+      i++;
+      continue;
+    }
+    const ids = [...together].sort((a, b) => a - b);
+    const collision = collisions.get(ids.join());
+    if (collision) collision.count++;
+    else collisions.set(ids.join(), { jobs: ids, count: 1, first: new Date(fires[i].at) });
+    i = j;
+  }
+  return [...collisions.values()].sort((a, b) => b.count - a.count || a.first.getTime() - b.first.getTime());
+}
+
+/** Runs per hour of the day on the wall clock in `timezone`, split by job: `[hour][job]` */
+export function hourlyLoad(jobs: JobRuns[], timezone: string): number[][] {
+  const hours = Array.from({ length: 24 }, () => new Array<number>(jobs.length).fill(0));
+  jobs.forEach(({ runs }, job) => {
+    for (const run of runs) hours[floatingTime(run, timezone).getUTCHours()][job]++;
+  });
+  return hours;
+}
@@ -0,0 +1,107 @@
+// src/lib/cron/dialects.ts
+// ─── Cron Dialects ───────────────────────────────────────────────────────────
+// The schedulers the Cron Descriptor understands and how their syntax
+// differs: which fields they have, how days of the week are numbered, and
+// whether they take Quartz's `?`, `L`, `W` and `#` day tokens or `@daily`
+// style macros. Everything else — parsing, translation — reads from here.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const CRON_DIALECTS = [
+  { id: 'unix', label: 'Unix cron', example: '0 12 * * 1-5', timezone: null, timezoneNote: 'Runs in the server’s local time zone.' },
+  { id: 'quartz', label: 'Quartz', example: '0 0 12 ? * MON-FRI', timezone: null, timezoneNote: 'Runs in the scheduler’s JVM time zone unless the trigger sets one.' },
+  { id: 'aws', label: 'AWS EventBridge', example: 'cron(0 12 ? * MON-FRI *)', timezone: 'UTC', timezoneNote: 'EventBridge rules are evaluated in UTC.' },
+  { id: 'kubernetes', label: 'Kubernetes CronJob', example: '0 12 * * 1-5', timezone: null, timezoneNote: 'Runs in the kube-controller-manager’s time zone unless spec.timeZone is set.' },
+  { id: 'github', label: 'GitHub Actions', example: '0 12 * * 1-5', timezone: 'UTC', timezoneNote: 'GitHub Actions schedules are evaluated in UTC.' },
+] as const;
+
+export const CRON_FIELDS = {
+  second: { label: 'Second', min: 0, max: 59 },
+  minute: { label: 'Minute', min: 0, max: 59 },
+  hour: { label: 'Hour', min: 0, max: 23 },
+  dayOfMonth: { label: 'Day of Month', min: 1, max: 31 },
+  month: { label: 'Month', min: 1, max: 12 },
+  dayOfWeek: { label: 'Day of Week', min: 0, max: 7 },
+  year: { label: 'Year', min: 1970, max: 2199 },
+} as const;
+
+export const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+export const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** robfig/cron and Vixie cron share these; Quartz and EventBridge have none */
+export const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type CronDialect = (typeof CRON_DIALECTS)[number]['id'];
+export type CronFieldName = keyof typeof CRON_FIELDS;
+
+export interface DialectSyntax {
+  /** Fields in the order they're written */
+  fields: CronFieldName[];
+  /** Quartz takes a seventh, optional year field */
+  optionalYear: boolean;
+  /** Days of the week run 1–7 from Sunday instead of 0–6 */
+  sundayIsOne: boolean;
+  /** Vixie cron also accepts 7 for Sunday */
+  sundaySeven: boolean;
+  /** `?`, `L`, `W` and `#` in the day fields */
+  quartzDays: boolean;
+  /** Exactly one of day of month and day of week must be `?` */
+  requireQuestion: boolean;
+  /** robfig/cron reads `?` as `*` */
+  questionAsAny: boolean;
+  macros: boolean;
+  /** Years the scheduler accepts */
+  yearMax: number;
+}
+
+// ─── SYNTAX ──────────────────────────────────────────────────────────────────
+
+const FIVE_FIELDS: CronFieldName[] = ['minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek'];
+
+const BASE: DialectSyntax = {
+  fields: FIVE_FIELDS,
+  optionalYear: false,
+  sundayIsOne: false,
+  sundaySeven: false,
+  quartzDays: false,
+  requireQuestion: false,
+  questionAsAny: false,
+  macros: false,
+  yearMax: 2099,
+};
+
+export const DIALECT_SYNTAX: Record<CronDialect, DialectSyntax> = {
+  unix: { ...BASE, sundaySeven: true, macros: true },
+  quartz: {
+    ...BASE,
+    fields: ['second', ...FIVE_FIELDS],
+    optionalYear: true,
+    sundayIsOne: true,
+    quartzDays: true,
+    requireQuestion: true,
+  },
+  aws: { ...BASE, fields: [...FIVE_FIELDS, 'year'], sundayIsOne: true, quartzDays: true, requireQuestion: true, yearMax: 2199 },
+  kubernetes: { ...BASE, questionAsAny: true, macros: true },
+  github: BASE,
+};
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+export function isCronDialect(value: unknown): value is CronDialect {
+  return CRON_DIALECTS.some((dialect) => dialect.id === value);
+}
+
+export function dialectInfo(dialect: CronDialect): (typeof CRON_DIALECTS)[number] {
+  return CRON_DIALECTS.find((d) => d.id === dialect)!;
+}
@@ -0,0 +1,196 @@
+// src/lib/cron/jobs.ts
+// ─── Cron Job Lists ──────────────────────────────────────────────────────────
+// Pulls every scheduled job out of a pasted crontab, Kubernetes CronJob
+// manifests or a GitHub Actions workflow, each parsed in its scheduler's
+// dialect. A job that doesn't parse is kept with its error so the list
+// still matches what was pasted.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import yaml from 'js-yaml';
+import type { CronDialect } from './dialects';
+import { parseCron, type ParsedCron } from './parse';
+import { isValidTimezone } from './timezones';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const MAX_NAME_LENGTH = 60;
+
+/** `NAME=value` lines set the environment for the lines after them */
+const CRONTAB_VARIABLE = /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/;
+
+/** A `CRON_TZ=` prefix pins one crontab line; Kubernetes rejects it in favour of `spec.timeZone` */
+const ZONE_PREFIX = /^(CRON_TZ|TZ)=(\S+)\s+(.+)$/;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type JobFormat = 'crontab' | 'kubernetes' | 'github';
+
+export interface CronJob {
+  name: string;
+  expression: string;
+  dialect: CronDialect;
+  /** The zone the job's own config pins it to; null runs it in the source zone */
+  timezone: string | null;
+  /** Where it was found, e.g. "line 4" or "CronJob nightly-backup" */
+  origin: string;
+  parsed: ParsedCron | null;
+  error: string | null;
+}
+
+export interface JobList {
+  format: JobFormat;
+  jobs: CronJob[];
+  /** Lines and documents that were skipped, and why */
+  skipped: string[];
+}
+
+type YamlObject = Record<string, unknown>;
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is YamlObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_NAME_LENGTH ? `${text.slice(0, MAX_NAME_LENGTH - 1)}…` : text;
+}
+
+function createJob(name: string, expression: string, dialect: CronDialect, timezone: string | null, origin: string): CronJob {
+  const job: CronJob = { name, expression, dialect, timezone, origin, parsed: null, error: null };
+  if (job.timezone !== null && !isValidTimezone(job.timezone)) {
+    job.error = `Unknown time zone "${job.timezone}".`;
+    return job;
+  }
+  try {
+    job.parsed = parseCron(job.expression, dialect);
+  } catch (err) {
+    job.error = (err as Error).message;
+  }
+  return job;
+}
+
+/** Which format `text` is in; anything that isn't recognisable YAML is read as a crontab */
+export function detectJobFormat(text: string): JobFormat {
+  if (/^\s*kind:\s*["']?CronJob\b/m.test(text)) return 'kubernetes';
+  if (/^\s*(?:["']?on["']?:|schedule:)/m.test(text) && /-\s*cron:/.test(text)) return 'github';
+  return 'crontab';
+}
+
+// ─── FORMATS ─────────────────────────────────────────────────────────────────
+
+/** Vixie/cronie crontab: five fields or a macro, then the command */
+function crontabJobs(text: string): JobList {
+  const jobs: CronJob[] = [];
+  const skipped: string[] = [];
+  let timezone: string | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    let line = raw.trim();
+    const origin = `line ${index + 1}`;
+    if (!line || line.startsWith('#')) return;
+
+    // `CRON_TZ=zone` ahead of the fields pins this line; on a line of its own it sets the lines after.
+    // cronie hands `TZ` to the command's environment only, so it is reported rather than applied.
+    const noteTz = (zone: string) =>
+      skipped.push(`${origin}'s TZ=${zone}: TZ only sets the environment the command runs in, not when it runs — use CRON_TZ for that.`);
+    let lineTimezone = timezone;
+    const prefixed = ZONE_PREFIX.exec(line);
+    if (prefixed && /^[@*\d]/.test(prefixed[3])) {
+      if (prefixed[1] === 'CRON_TZ') lineTimezone = prefixed[2];
+      else noteTz(prefixed[2]);
+      line = prefixed[3];
+    }
+    const variable = CRONTAB_VARIABLE.exec(line);
+    if (variable) {
+      const value = variable[2].replace(/^["']|["']$/g, '');
+      if (variable[1] === 'CRON_TZ') timezone = value || null;
+      else if (variable[1] === 'TZ') noteTz(value);
+      return;
+    }
+    if (line.startsWith('@')) {
+      const [macro, ...command] = line.split(/\s+/);
+      if (macro.toLowerCase() === '@reboot') {
+        skipped.push(`${origin}: @reboot runs once at startup, not on a schedule.`);
+        return;
+      }
+      jobs.push(createJob(truncate(command.join(' ') || macro), macro, 'unix', lineTimezone, origin));
+      return;
+    }
+    const parts = line.split(/\s+/);
+    const command = parts.slice(5).join(' ');
+    jobs.push(createJob(truncate(command || origin), parts.slice(0, 5).join(' '), 'unix', lineTimezone, origin));
+  });
+  return { format: 'crontab', jobs, skipped };
+}
+
+function yamlDocuments(text: string): unknown[] {
+  try {
+    return yaml.loadAll(text);
+  } catch (err) {
+    throw new Error(`Couldn't read the YAML: ${(err as Error).message.split('\n')[0]}`, { cause: err });
+  }
+}
+
+/** CronJob manifests, on their own, in `---` separated files or in a `kind: List` */
+function kubernetesJobs(text: string): JobList {
+  const jobs: CronJob[] = [];
+  const skipped: string[] = [];
+  const documents = yamlDocuments(text).flatMap((doc) => (isObject(doc) && Array.isArray(doc.items) ? doc.items : [doc]));
+
+  documents.forEach((doc, index) => {
+    if (!isObject(doc)) return;
+    const name = isObject(doc.metadata) && typeof doc.metadata.name === 'string' ? doc.metadata.name : `CronJob ${index + 1}`;
+    if (doc.kind !== 'CronJob') {
+      skipped.push(`${typeof doc.kind === 'string' ? doc.kind : 'Document'} ${name}: not a CronJob.`);
+      return;
+    }
+    const spec = isObject(doc.spec) ? doc.spec : {};
+    if (typeof spec.schedule !== 'string') {
+      skipped.push(`CronJob ${name}: no spec.schedule.`);
+      return;
+    }
+    const timezone = typeof spec.timeZone === 'string' ? spec.timeZone : null;
+    const job = createJob(name, spec.schedule, 'kubernetes', timezone, `CronJob ${name}`);
+    jobs.push(spec.suspend === true ? { ...job, name: `${name} (suspended)` } : job);
+  });
+  return { format: 'kubernetes', jobs, skipped };
+}
+
+/** Workflows' `on.schedule` lists, or a bare `on:` or `schedule:` block */
+function githubJobs(text: string): JobList {
+  const jobs: CronJob[] = [];
+  const skipped: string[] = [];
+
+  yamlDocuments(text).forEach((doc, docIndex) => {
+    if (!isObject(doc)) return;
+    const workflow = typeof doc.name === 'string' ? doc.name : `Workflow ${docIndex + 1}`;
+    const { schedule } = isObject(doc.on) ? doc.on : doc;
+    if (!Array.isArray(schedule)) {
+      skipped.push(`${workflow}: no on.schedule.`);
+      return;
+    }
+    schedule.forEach((entry: unknown, index: number) => {
+      const origin = `${workflow}, schedule ${index + 1}`;
+      if (!isObject(entry) || typeof entry.cron !== 'string') {
+        skipped.push(`${origin}: expected a "- cron: '…'" entry.`);
+        return;
+      }
+      const name = schedule.length > 1 ? `${workflow} #${index + 1}` : workflow;
+      jobs.push(createJob(name, entry.cron, 'github', 'UTC', origin));
+    });
+  });
+  return { format: 'github', jobs, skipped };
+}
+
+/** Every job in `text`, in the format it's written in */
+export function parseJobs(text: string): JobList {
+  switch (detectJobFormat(text)) {
+    case 'kubernetes':
+      return kubernetesJobs(text);
+    case 'github':
+      return githubJobs(text);
+    case 'crontab':
+      return crontabJobs(text);
+  }
+}
@@ -0,0 +1,567 @@
+// src/lib/cron/natural.ts
+// ─── Natural Language to Cron ────────────────────────────────────────────────
+// Reads phrases like "every weekday at 9:30am and 5pm" or "first Monday of
+// each month" into cron fields, offline and clause by clause. The fields
+// are written out by the translator, so whatever the selected dialect can't
+// say is refused with the same reason a translation would give.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { CronDialect, CronFieldName } from './dialects';
+import { ANY_ITEM, ordinal, rangeItem, stepItem, valueItem, type CronItem, type CronSchedule } from './parse';
+import { translateCron } from './translate';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const NTH_WORDS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+/** Ordinals that can pick a weekday of the month; -1 is "last" */
+const NTH = new Map([
+  ['first', 1], ['1st', 1], ['second', 2], ['2nd', 2], ['third', 3], ['3rd', 3],
+  ['fourth', 4], ['4th', 4], ['fifth', 5], ['5th', 5], ['last', -1],
+]);
+
+const UNITS = new Map<string, Unit>([
+  ['second', 'second'], ['seconds', 'second'], ['sec', 'second'], ['secs', 'second'],
+  ['minute', 'minute'], ['minutes', 'minute'], ['min', 'minute'], ['mins', 'minute'],
+  ['hour', 'hour'], ['hours', 'hour'], ['hr', 'hour'], ['hrs', 'hour'],
+  ['day', 'day'], ['days', 'day'], ['week', 'week'], ['weeks', 'week'],
+  ['month', 'month'], ['months', 'month'], ['year', 'year'], ['years', 'year'],
+]);
+
+/** `hourly` and friends, as an interval */
+const FREQUENCIES = new Map<string, [Unit, number]>([
+  ['hourly', ['hour', 1]], ['daily', ['day', 1]], ['nightly', ['day', 1]], ['weekly', ['week', 1]],
+  ['monthly', ['month', 1]], ['quarterly', ['month', 3]], ['yearly', ['year', 1]], ['annually', ['year', 1]],
+]);
+
+/** How far each unit's steps count before starting over, and what they start over with */
+const STEP_SPANS: Partial<Record<Unit, [number, string]>> = { second: [60, 'minute'], minute: [60, 'hour'], hour: [24, 'day'], day: [31, 'month'], month: [12, 'year'] };
+
+const NAMED_TIMES = new Map([['midnight', 0], ['noon', 12], ['midday', 12]]);
+
+/** Words that only join clauses */
+const FILLER = new Set(['and', 'on', 'the', 'in', 'of', 'at', 'a', 'an', 'run', 'runs', 'it', 'job', 'please', 'also', 'every', 'each']);
+
+const RANGE_WORDS = ['to', 'through', 'thru', 'until', 'till'];
+const EXAMPLE = 'Try something like "every weekday at 9:30am and 5pm" or "first Monday of each month".';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+type Unit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+type Fields = Record<CronFieldName, CronItem[]>;
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+/** What a phrase asks for, before it's laid out as cron fields */
+interface Phrase {
+  interval: { unit: Unit; every: number; text: string } | null;
+  times: TimeOfDay[];
+  /** Minutes past every hour */
+  minutes: number[];
+  /** The hours a repeating schedule is limited to, from "between 9am and 5pm" */
+  window: [TimeOfDay, TimeOfDay] | null;
+  dayOfMonth: CronItem[];
+  dayOfWeek: CronItem[];
+  month: CronItem[];
+}
+
+export interface NaturalCron {
+  /** One expression per set of times that share minutes; "9:30am and 5pm" needs two */
+  expressions: string[];
+  warnings: string[];
+}
+
+// ─── WORDS ───────────────────────────────────────────────────────────────────
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/** A day name, abbreviated or plural, as 0–6 from Sunday */
+function weekdayOf(token: string | undefined): number | null {
+  if (!token) return null;
+  const word = token.length > 3 ? token.replace(/s$/, '') : token;
+  if (word.length < 3) return null;
+  const index = WEEKDAYS.findIndex((day) => day.startsWith(word));
+  return index === -1 ? null : index;
+}
+
+/** A month name or abbreviation as 1–12 */
+function monthOf(token: string | undefined): number | null {
+  if (!token || token.length < 3) return null;
+  const index = MONTHS.findIndex((month) => month.startsWith(token));
+  return index === -1 ? null : index + 1;
+}
+
+/** `15th` as a day of the month; a bare `15` only where `bare` allows it */
+function dayOf(token: string | undefined, bare = false): number | null {
+  const match = /^(\d{1,2})(st|nd|rd|th)?$/.exec(token ?? '');
+  if (!match || (!bare && !match[2])) return null;
+  const day = Number(match[1]);
+  if (day < 1 || day > 31) throw new Error(`There's no ${token} day in a month.`);
+  return day;
+}
+
+/** `9:30am`, `17:00`, `noon`; a bare `9` only where `bare` allows it */
+function timeOf(token: string | undefined, bare: boolean): TimeOfDay | null {
+  if (!token) return null;
+  const named = NAMED_TIMES.get(token);
+  if (named !== undefined) return { hour: named, minute: 0 };
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(token);
+  if (!match || (!bare && !match[2] && !match[3])) return null;
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hour < 1 || hour > 12) throw new Error(`"${token}" isn't a time: with am or pm the hour runs 1-12.`);
+    hour = (hour % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) throw new Error(`"${token}" isn't a time of day.`);
+  return { hour, minute };
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\b([ap])\.m\.?/g, '$1m')
+    .replace(/o['’]clock/g, '')
+    .replace(/(\d)\s+(am|pm)\b/g, '$1$2')
+    .replace(/(\w)\s*[-–]\s*(\w)/g, '$1 to $2')
+    .replace(/[,;&]/g, ' and ')
+    .replace(/[.!?]+(\s|$)/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// ─── READING ─────────────────────────────────────────────────────────────────
+
+/** Reads the tokens clause by clause; throws at the first words no clause accepts */
+function readPhrase(tokens: string[]): Phrase {
+  const phrase: Phrase = { interval: null, times: [], minutes: [], window: null, dayOfMonth: [], dayOfWeek: [], month: [] };
+  let i = 0;
+
+  const accept = (...words: string[]) => {
+    if (!words.includes(tokens[i])) return false;
+    i++;
+    return true;
+  };
+
+  /** `a`, `a and b`, `a, b or c` — as long as each part reads */
+  const list = <T>(read: (token: string | undefined) => T | null): T[] => {
+    const items: T[] = [];
+    for (let item = read(tokens[i]); item !== null; item = read(tokens[i])) {
+      items.push(item);
+      i++;
+      if (!['and', 'or'].includes(tokens[i]) || read(tokens[i + 1]) === null) break;
+      i++;
+    }
+    return items;
+  };
+
+  /** Optional `of the month` / `of every month` after a day */
+  const ofTheMonth = () => {
+    const start = i;
+    if (accept('of')) {
+      accept('the', 'each', 'every');
+      if (accept('month')) return;
+    }
+    i = start;
+  };
+
+  const acceptBusinessDays = () => {
+    if (tokens[i] !== 'business' || !/^days?$/.test(tokens[i + 1] ?? '')) return false;
+    i += 2;
+    return true;
+  };
+
+  const setFrequency = (unit: Unit, every: number, text: string) => {
+    if (every < 1) throw new Error(`"${text}" needs a positive number.`);
+    if (unit === 'day' && every === 1) return;
+    if (phrase.interval) throw new Error(`"${phrase.interval.text}" and "${text}" are two different frequencies; pick one.`);
+    phrase.interval = { unit, every, text };
+  };
+
+  // "first Monday", "first and third Friday", "last day", "last weekday"
+  const readNth = (): boolean => {
+    const start = i;
+    const nths = list((token) => (token !== undefined ? (NTH.get(token) ?? null) : null));
+    if (nths.length === 0) return false;
+    const words = tokens.slice(start, i).join(' ');
+    const weekdays = list(weekdayOf);
+    if (weekdays.length > 0) {
+      for (const weekday of weekdays) {
+        for (const nth of nths) {
+          const text = `${nth === -1 ? 'last' : NTH_WORDS[nth - 1]} ${capitalize(WEEKDAYS[weekday])}`;
+          phrase.dayOfWeek.push(nth === -1 ? { kind: 'lastOf', text, weekday } : { kind: 'nth', text, weekday, nth });
+        }
+      }
+    } else if (accept('day')) {
+      for (const nth of nths) phrase.dayOfMonth.push(nth === -1 ? { kind: 'last', text: 'last day', offset: 0 } : valueItem(nth));
+    } else if (accept('weekday', 'workday') || acceptBusinessDays()) {
+      for (const nth of nths) {
+        if (nth === -1) phrase.dayOfMonth.push({ kind: 'lastWeekday', text: 'last weekday' });
+        else if (nth === 1) phrase.dayOfMonth.push({ kind: 'nearestWeekday', text: 'first weekday', day: 1 });
+        else throw new Error(`Cron can pick the first or last weekday of a month, but not "${words} weekday".`);
+      }
+    } else {
+      i = start;
+      return false;
+    }
+    ofTheMonth();
+    return true;
+  };
+
+  // "Monday", "Mon to Fri", "weekdays", "weekends", "business days"
+  const readWeekdays = (): boolean => {
+    const start = i;
+    accept('every', 'each', 'from');
+    const items: CronItem[] = [];
+    for (;;) {
+      const first = weekdayOf(tokens[i]);
+      if (first !== null) {
+        i++;
+        const end = RANGE_WORDS.includes(tokens[i]) ? weekdayOf(tokens[i + 1]) : null;
+        if (end === null) items.push(valueItem(first));
+        else {
+          i += 2;
+          items.push(...(first <= end ? [rangeItem(first, end)] : [rangeItem(first, 6), rangeItem(0, end)]));
+        }
+      } else if (accept('weekday', 'weekdays', 'workday', 'workdays') || acceptBusinessDays()) {
+        items.push(rangeItem(1, 5));
+      } else if (accept('weekend', 'weekends')) {
+        accept('day', 'days');
+        items.push(valueItem(0), valueItem(6));
+      } else {
+        break;
+      }
+      const next = tokens[i + 1];
+      if (!['and', 'or'].includes(tokens[i]) || (weekdayOf(next) === null && !/^(weekdays?|weekends?|workdays?|business)$/.test(next ?? ''))) break;
+      i++;
+    }
+    if (items.length === 0) {
+      i = start;
+      return false;
+    }
+    phrase.dayOfWeek.push(...items);
+    return true;
+  };
+
+  // "every 15 minutes", "every other day", "every half hour", "hourly"
+  const readInterval = (): boolean => {
+    const start = i;
+    const frequency = FREQUENCIES.get(tokens[i]);
+    if (frequency) {
+      i++;
+      setFrequency(frequency[0], frequency[1], tokens[start]);
+      return true;
+    }
+    if (!accept('every', 'each')) return false;
+    let every = 1;
+    if (accept('other')) every = 2;
+    else if (/^\d+$/.test(tokens[i] ?? '')) every = Number(tokens[i++]);
+    else if (['half', 'quarter'].includes(tokens[i])) {
+      const minutes = tokens[i] === 'half' ? 30 : 15;
+      i++;
+      accept('an', 'of');
+      accept('an');
+      if (!accept('hour')) {
+        i = start;
+        return false;
+      }
+      setFrequency('minute', minutes, tokens.slice(start, i).join(' '));
+      return true;
+    }
+    const unit = UNITS.get(tokens[i]);
+    if (!unit) {
+      i = start;
+      return false;
+    }
+    i++;
+    setFrequency(unit, every, tokens.slice(start, i).join(' '));
+    return true;
+  };
+
+  // "between 9am and 5pm", "from 9 to 17", "9am to 5pm"
+  const readWindow = (): boolean => {
+    const start = i;
+    const introduced = accept('between', 'from');
+    const from = timeOf(tokens[i], introduced);
+    if (!from || !(introduced ? ['and', ...RANGE_WORDS] : RANGE_WORDS).includes(tokens[i + 1])) {
+      i = start;
+      return false;
+    }
+    const to = timeOf(tokens[i + 2], true);
+    if (!to) {
+      i = start;
+      return false;
+    }
+    i += 3;
+    // "between 9 and 5" means until 5pm
+    if (to.hour < from.hour && to.hour < 12 && /^\d+$/.test(tokens[i - 1])) to.hour += 12;
+    if (phrase.window) throw new Error('The phrase limits the hours twice; give one "between … and …".');
+    phrase.window = [from, to];
+    return true;
+  };
+
+  // "at 9:30am and 5pm", "at noon", "17:00"
+  const readTimes = (): boolean => {
+    const start = i;
+    const at = accept('at');
+    const times = list((token) => timeOf(token, at));
+    if (times.length === 0) {
+      i = start;
+      return false;
+    }
+    phrase.times.push(...times);
+    return true;
+  };
+
+  // "at minute 15", "at :30", "15 minutes past the hour", "on the hour"
+  const readMinutes = (): boolean => {
+    const start = i;
+    if (accept('on') && accept('the') && accept('hour')) {
+      phrase.minutes.push(0);
+      return true;
+    }
+    i = start;
+    accept('at');
+    const minuteOf = (token: string | undefined) => {
+      const match = /^:?(\d{1,2})$/.exec(token ?? '');
+      if (!match) return null;
+      const minute = Number(match[1]);
+      if (minute > 59) throw new Error(`There's no minute ${minute} in an hour.`);
+      return minute;
+    };
+    let minutes: number[];
+    if (accept('minute', 'minutes')) minutes = list(minuteOf);
+    else if (/^:\d{2}$/.test(tokens[i] ?? '')) minutes = list(minuteOf);
+    else if (['half', 'quarter'].includes(tokens[i]) && tokens[i + 1] === 'past') minutes = [tokens[i++] === 'half' ? 30 : 15];
+    else {
+      minutes = list(minuteOf);
+      accept('minutes', 'minute', 'mins', 'min');
+      if (tokens[i] !== 'past') minutes = [];
+    }
+    if (minutes.length > 0 && accept('past')) {
+      accept('the', 'each', 'every');
+      if (!accept('hour')) minutes = [];
+    }
+    if (minutes.length === 0) {
+      i = start;
+      return false;
+    }
+    phrase.minutes.push(...minutes);
+    return true;
+  };
+
+  // "weekday nearest the 15th", "nearest weekday to the 15th"
+  const readNearest = (): boolean => {
+    const start = i;
+    if (!(accept('nearest') ? accept('weekday') : accept('weekday') && accept('nearest'))) {
+      i = start;
+      return false;
+    }
+    accept('to');
+    accept('the');
+    const day = dayOf(tokens[i], true);
+    if (day === null) throw new Error('Say which day the weekday should be nearest, e.g. "weekday nearest the 15th".');
+    i++;
+    phrase.dayOfMonth.push({ kind: 'nearestWeekday', text: `weekday nearest the ${ordinal(day)}`, day });
+    ofTheMonth();
+    return true;
+  };
+
+  // "on the 1st and 15th", "day 1", "1st to 7th"
+  const readDaysOfMonth = (): boolean => {
+    const start = i;
+    const bare = accept('day', 'days');
+    const read = (token: string | undefined) => dayOf(token, bare);
+    const items: CronItem[] = [];
+    for (;;) {
+      const day = read(tokens[i]);
+      if (day === null) break;
+      i++;
+      const end = RANGE_WORDS.includes(tokens[i]) ? read(tokens[i + 1]) : null;
+      if (end !== null) {
+        if (end < day) throw new Error(`Day ranges can't wrap into the next month ("${day} to ${end}").`);
+        i += 2;
+      }
+      items.push(rangeItem(day, end ?? day));
+      if (!['and', 'or'].includes(tokens[i]) || read(tokens[i + 1]) === null) break;
+      i++;
+    }
+    if (items.length === 0) {
+      i = start;
+      return false;
+    }
+    accept('day');
+    ofTheMonth();
+    phrase.dayOfMonth.push(...items);
+    return true;
+  };
+
+  // "in January and July", "every March", "Jan to Mar", "January 1st"
+  const readMonths = (): boolean => {
+    const start = i;
+    accept('every', 'each', 'in');
+    const items: CronItem[] = [];
+    for (;;) {
+      const month = monthOf(tokens[i]);
+      if (month === null) break;
+      i++;
+      const end = RANGE_WORDS.includes(tokens[i]) ? monthOf(tokens[i + 1]) : null;
+      if (end !== null) i += 2;
+      items.push(...(end === null ? [valueItem(month)] : month <= end ? [rangeItem(month, end)] : [rangeItem(month, 12), rangeItem(1, end)]));
+      if (!['and', 'or'].includes(tokens[i]) || monthOf(tokens[i + 1]) === null) break;
+      i++;
+    }
+    if (items.length === 0) {
+      i = start;
+      return false;
+    }
+    phrase.month.push(...items);
+    // "January 1st", "Jan 1"
+    const day = dayOf(tokens[i], items.length === 1);
+    if (day !== null) {
+      i++;
+      phrase.dayOfMonth.push(valueItem(day));
+    }
+    return true;
+  };
+
+  const readers = [readNth, readNearest, readWeekdays, readInterval, readWindow, readMinutes, readTimes, readDaysOfMonth, readMonths];
+  while (i < tokens.length) {
+    if (readers.some((read) => read())) continue;
+    if (FILLER.has(tokens[i])) {
+      i++;
+      continue;
+    }
+    throw new Error(`Couldn't read "${tokens.slice(i).join(' ')}". ${EXAMPLE}`);
+  }
+  return phrase;
+}
+
+// ─── FIELDS ──────────────────────────────────────────────────────────────────
+
+/** Hours from `from` to `to`, through midnight if need be */
+function hourItems(from: number, to: number, step: number): CronItem[] {
+  if (from <= to) return [rangeItem(from, to, step)];
+  return to < 0 ? [rangeItem(from, 23, step)] : [rangeItem(from, 23, step), rangeItem(0, to, step)];
+}
+
+/** Times grouped so each group is one minute × hour grid, i.e. one expression */
+function groupTimes(times: TimeOfDay[]): { minutes: number[]; hours: number[] }[] {
+  const hoursByMinute = new Map<number, Set<number>>();
+  for (const { hour, minute } of times) hoursByMinute.set(minute, (hoursByMinute.get(minute) ?? new Set()).add(hour));
+  const groups = new Map<string, { minutes: number[]; hours: number[] }>();
+  for (const minute of [...hoursByMinute.keys()].sort((a, b) => a - b)) {
+    const hours = [...hoursByMinute.get(minute)!].sort((a, b) => a - b);
+    const group = groups.get(hours.join());
+    if (group) group.minutes.push(minute);
+    else groups.set(hours.join(), { minutes: [minute], hours });
+  }
+  // Earliest first, so "9:30am and 5pm" reads in order
+  return [...groups.values()].sort((a, b) => a.hours[0] * 60 + a.minutes[0] - (b.hours[0] * 60 + b.minutes[0]));
+}
+
+/**
+ * The phrase as one or more sets of fields. Without a time it runs at
+ * midnight; a window keeps sub-hourly runs before its end and includes the
+ * end hour for hourly ones, so "every hour from 9am to 5pm" runs at 5pm.
+ */
+function phraseFields(phrase: Phrase): Fields[] {
+  const { interval, times, minutes, window } = phrase;
+  const fields: Fields = {
+    second: [valueItem(0)],
+    minute: [valueItem(0)],
+    hour: [valueItem(0)],
+    dayOfMonth: phrase.dayOfMonth.length > 0 ? phrase.dayOfMonth : [ANY_ITEM],
+    month: phrase.month.length > 0 ? phrase.month : [ANY_ITEM],
+    dayOfWeek: phrase.dayOfWeek.length > 0 ? phrase.dayOfWeek : [ANY_ITEM],
+    year: [ANY_ITEM],
+  };
+  const hasDays = phrase.dayOfMonth.length > 0 || phrase.dayOfWeek.length > 0;
+  const unit = interval?.unit;
+  const every = interval?.every ?? 1;
+
+  if (window) {
+    const partial = window.find(({ minute }) => minute !== 0);
+    if (partial) throw new Error(`Cron can only limit runs to whole hours, and ${partial.hour}:${String(partial.minute).padStart(2, '0')} isn't on the hour.`);
+    if (times.length > 0) throw new Error('Give either times of day or a "between … and …" window, not both.');
+  }
+  if (interval && (unit === 'second' || unit === 'minute' || unit === 'hour') && times.length > 0) {
+    throw new Error(`"${interval.text}" and a time of day don't go together; use "between … and …" to limit the hours instead.`);
+  }
+  if (minutes.length > 0 && (unit === 'second' || unit === 'minute')) throw new Error(`"${interval!.text}" already sets the minutes.`);
+
+  const span = unit ? STEP_SPANS[unit] : undefined;
+  if (span && every >= span[0]) throw new Error(`Cron steps start over every ${span[1]}, so "${interval!.text}" has no cron equivalent.`);
+
+  const windowHours = (step: number, inclusive: boolean) =>
+    window ? hourItems(window[0].hour, inclusive ? window[1].hour : window[1].hour - 1, step) : [stepItem(step, 'hour')];
+
+  switch (unit) {
+    case 'second':
+      return [{ ...fields, second: [stepItem(every, 'second')], minute: [ANY_ITEM], hour: windowHours(1, false) }];
+    case 'minute':
+      return [{ ...fields, minute: [stepItem(every, 'minute')], hour: windowHours(1, false) }];
+    case 'hour':
+      return [{ ...fields, minute: minutes.length > 0 ? minutes.map(valueItem) : [valueItem(0)], hour: windowHours(every, true) }];
+    case 'day':
+      if (hasDays) throw new Error(`"${interval!.text}" can't be combined with particular days.`);
+      fields.dayOfMonth = [stepItem(every, 'dayOfMonth')];
+      break;
+    case 'week':
+      if (every > 1) throw new Error(`Cron can't count weeks: day of week starts over every week, so "${interval!.text}" has no cron equivalent.`);
+      if (!hasDays) fields.dayOfWeek = [valueItem(0)];
+      break;
+    case 'month':
+      if (every > 1 && phrase.month.length > 0) throw new Error(`"${interval!.text}" can't be combined with particular months.`);
+      if (every > 1) fields.month = [stepItem(every, 'month')];
+      if (!hasDays) fields.dayOfMonth = [valueItem(1)];
+      break;
+    case 'year':
+      if (every > 1) throw new Error(`Cron can't count years, so "${interval!.text}" has no cron equivalent.`);
+      if (phrase.month.length === 0) fields.month = [valueItem(1)];
+      if (!hasDays) fields.dayOfMonth = [valueItem(1)];
+      break;
+  }
+
+  if (times.length > 0) {
+    return groupTimes(times).map((group) => ({ ...fields, minute: group.minutes.map(valueItem), hour: group.hours.map(valueItem) }));
+  }
+  if (minutes.length > 0 || window) {
+    return [{ ...fields, minute: minutes.length > 0 ? minutes.map(valueItem) : [valueItem(0)], hour: windowHours(1, true) }];
+  }
+  return [fields];
+}
+
+// ─── CONVERSION ──────────────────────────────────────────────────────────────
+
+/** Cron for a plain-English schedule in `dialect`; throws when it can't be read or written there */
+export function naturalToCron(text: string, dialect: CronDialect): NaturalCron {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) throw new Error(`Describe a schedule first. ${EXAMPLE}`);
+  const phrase = readPhrase(tokens);
+  const warnings = new Set<string>();
+  const expressions = phraseFields(phrase).map((fields) => {
+    const schedule: CronSchedule = { kind: 'cron', dialect, source: text, macro: null, written: [], fields, notes: [] };
+    const translation = translateCron(schedule, dialect);
+    translation.warnings.forEach((warning) => warnings.add(warning));
+    return translation.expression;
+  });
+  const { interval } = phrase;
+  const span = interval ? STEP_SPANS[interval.unit] : undefined;
+  // Months differ in length, so day steps never divide evenly
+  if (interval && span && interval.every > 1 && (interval.unit === 'day' || span[0] % interval.every !== 0)) {
+    warnings.add(`Cron steps start over every ${span[1]}, so "${interval.text}" leaves an uneven gap at each new ${span[1]}.`);
+  }
+  if (expressions.length > 1) {
+    warnings.add(`These times don't share their minutes, so cron needs ${expressions.length} expressions — one job each.`);
+  }
+  return { expressions, warnings: [...warnings] };
+}
@@ -0,0 +1,396 @@
+// src/lib/cron/parse.ts
+// ─── Cron Parsing ────────────────────────────────────────────────────────────
+// Reads an expression the way the selected dialect would and rejects what
+// that scheduler would reject. Fields come out as items in one shared form
+// with Sunday as day 0, so Quartz's 1-based `6#3` and Unix's `5#3` end up
+// the same, and scheduling and translation never need to know the source.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  CRON_FIELDS,
+  CRON_MACROS,
+  DIALECT_SYNTAX,
+  MONTH_NAMES,
+  WEEKDAY_NAMES,
+  dialectInfo,
+  type CronDialect,
+  type CronFieldName,
+  type DialectSyntax,
+} from './dialects';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+const RATE = /^(\d+)\s+(minutes?|hours?|days?)$/i;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** One comma-separated part of a field; weekdays are 0–6 from Sunday (7 is Sunday too) */
+export type CronItem =
+  | { kind: 'any'; text: string }
+  /** Quartz's `?` — no specific value, the other day field decides */
+  | { kind: 'none'; text: string }
+  | { kind: 'range'; text: string; start: number; end: number; step: number; wildcard: boolean }
+  /** `L` or `L-3` in day of month */
+  | { kind: 'last'; text: string; offset: number }
+  | { kind: 'lastWeekday'; text: string }
+  | { kind: 'nearestWeekday'; text: string; day: number }
+  /** `5L` — the last given weekday of the month */
+  | { kind: 'lastOf'; text: string; weekday: number }
+  /** `5#3` — the nth given weekday of the month */
+  | { kind: 'nth'; text: string; weekday: number; nth: number };
+
+export interface CronSchedule {
+  kind: 'cron';
+  dialect: CronDialect;
+  source: string;
+  /** The `@daily`-style macro the expression was written as */
+  macro: string | null;
+  /** The fields as typed, in the dialect's order */
+  written: { field: CronFieldName; text: string }[];
+  /** Every field, with the ones the dialect lacks filled in (second 0, any year) */
+  fields: Record<CronFieldName, CronItem[]>;
+  /** Dialect behaviour worth knowing about this expression */
+  notes: string[];
+}
+
+export type RateUnit = 'minute' | 'hour' | 'day';
+
+/** EventBridge's `rate(5 minutes)` */
+export interface RateSchedule {
+  kind: 'rate';
+  dialect: 'aws';
+  source: string;
+  value: number;
+  unit: RateUnit;
+  notes: string[];
+}
+
+export type ParsedCron = CronSchedule | RateSchedule;
+
+export interface CronField {
+  name: string;
+  value: string;
+  /** What the field accepts in this dialect */
+  description: string;
+  /** What each dialect-specific token in the field means */
+  notes: string[];
+}
+
+// ─── ITEMS ───────────────────────────────────────────────────────────────────
+
+export const ANY_ITEM: CronItem = { kind: 'any', text: '*' };
+export const NONE_ITEM: CronItem = { kind: 'none', text: '?' };
+
+export function rangeItem(start: number, end: number, step = 1): CronItem {
+  const text = start === end ? String(start) : `${start}-${end}${step > 1 ? `/${step}` : ''}`;
+  return { kind: 'range', text, start, end, step, wildcard: false };
+}
+
+export function valueItem(value: number): CronItem {
+  return rangeItem(value, value);
+}
+
+/** `*\/step` over the field's whole range; every value when the step is 1 */
+export function stepItem(step: number, field: CronFieldName): CronItem {
+  return step === 1 ? ANY_ITEM : { kind: 'range', text: `*/${step}`, start: CRON_FIELDS[field].min, end: CRON_FIELDS[field].max, step, wildcard: true };
+}
+
+// ─── VALUES ──────────────────────────────────────────────────────────────────
+
+/** The range a field's numbers are written in, in the dialect's own numbering */
+function bounds(field: CronFieldName, syntax: DialectSyntax): [number, number] {
+  if (field === 'dayOfWeek') return syntax.sundayIsOne ? [1, 7] : [0, syntax.sundaySeven ? 7 : 6];
+  if (field === 'year') return [CRON_FIELDS.year.min, syntax.yearMax];
+  return [CRON_FIELDS[field].min, CRON_FIELDS[field].max];
+}
+
+export function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+function fieldError(field: CronFieldName, text: string, why: string): Error {
+  return new Error(`Invalid ${CRON_FIELDS[field].label} "${text}": ${why}.`);
+}
+
+/** A number or name, checked against the dialect's bounds and shifted so Sunday is 0 */
+function parseValue(field: CronFieldName, text: string, syntax: DialectSyntax): number {
+  const upper = text.toUpperCase();
+  const [min, max] = bounds(field, syntax);
+  let value: number;
+  if (/^\d+$/.test(text)) value = Number(text);
+  else if (field === 'month' && MONTH_NAMES.includes(upper)) value = MONTH_NAMES.indexOf(upper) + 1;
+  else if (field === 'dayOfWeek' && WEEKDAY_NAMES.includes(upper)) value = WEEKDAY_NAMES.indexOf(upper) + min;
+  else throw fieldError(field, text, field === 'month' || field === 'dayOfWeek' ? 'not a number or a three-letter name' : 'not a number');
+  if (value < min || value > max) throw fieldError(field, text, `must be ${min}-${max}`);
+  return field === 'dayOfWeek' && syntax.sundayIsOne ? value - 1 : value;
+}
+
+// ─── FIELDS ──────────────────────────────────────────────────────────────────
+
+/** The Quartz day tokens, or null when `text` isn't one */
+function parseDayToken(field: CronFieldName, text: string, syntax: DialectSyntax): CronItem | null {
+  const upper = text.toUpperCase();
+  let match: RegExpExecArray | null;
+  if (field === 'dayOfMonth') {
+    if (upper === 'L') return { kind: 'last', text, offset: 0 };
+    if ((match = /^L-(\d+)$/.exec(upper))) {
+      const offset = Number(match[1]);
+      if (offset > 30) throw fieldError(field, text, 'the offset from the last day must be 0-30');
+      return { kind: 'last', text, offset };
+    }
+    if (upper === 'LW') return { kind: 'lastWeekday', text };
+    if ((match = /^(\d+)W$/.exec(upper))) return { kind: 'nearestWeekday', text, day: parseValue(field, match[1], syntax) };
+  }
+  if (field === 'dayOfWeek') {
+    // Quartz reads a bare L as the last day of the week
+    if (upper === 'L') return { kind: 'range', text, start: 6, end: 6, step: 1, wildcard: false };
+    if ((match = /^(\d|[A-Z]{3})L$/.exec(upper))) return { kind: 'lastOf', text, weekday: parseValue(field, match[1], syntax) };
+    if ((match = /^(\d|[A-Z]{3})#(\d+)$/.exec(upper))) {
+      const nth = Number(match[2]);
+      if (nth < 1 || nth > 5) throw fieldError(field, text, 'the week number after # must be 1-5');
+      return { kind: 'nth', text, weekday: parseValue(field, match[1], syntax), nth };
+    }
+  }
+  return null;
+}
+
+function parseItem(field: CronFieldName, text: string, syntax: DialectSyntax, label: string): CronItem {
+  const isDay = field === 'dayOfMonth' || field === 'dayOfWeek';
+  if (!text) throw fieldError(field, text, 'empty list entry');
+  if (text === '?') {
+    if (syntax.questionAsAny) return { kind: 'any', text };
+    if (!syntax.quartzDays) throw fieldError(field, text, `${label} doesn't support ? (no specific value)`);
+    if (!isDay) throw fieldError(field, text, '? is only allowed in the day-of-month and day-of-week fields');
+    return { kind: 'none', text };
+  }
+
+  const token = isDay ? parseDayToken(field, text, syntax) : null;
+  if (token) {
+    if (!syntax.quartzDays) throw fieldError(field, text, `${label} doesn't support L, W or # day tokens`);
+    return token;
+  }
+
+  const match = /^(\*|([^-/]+)(?:-([^-/]+))?)(?:\/(\d+))?$/.exec(text);
+  if (!match) throw fieldError(field, text, 'expected a value, a range like 1-5, a step like */15, or a list of those');
+  const [, , from, to, stepText] = match;
+  const step = stepText === undefined ? 1 : Number(stepText);
+  if (step < 1) throw fieldError(field, text, 'the step must be at least 1');
+  if (match[1] === '*') {
+    if (step === 1) return { kind: 'any', text };
+    const [min, max] = field === 'dayOfWeek' ? [0, 6] : bounds(field, syntax);
+    return { kind: 'range', text, start: min, end: max, step, wildcard: true };
+  }
+
+  const start = parseValue(field, from, syntax);
+  // Quartz's `5/15` runs from 5 to the end of the field
+  const end = to !== undefined ? parseValue(field, to, syntax) : stepText !== undefined ? parseValue(field, String(bounds(field, syntax)[1]), syntax) : start;
+  if (end < start) throw fieldError(field, text, 'the range runs backwards');
+  return { kind: 'range', text, start, end, step, wildcard: false };
+}
+
+function parseField(field: CronFieldName, text: string, syntax: DialectSyntax, label: string): CronItem[] {
+  const items = text.split(',').map((part) => parseItem(field, part, syntax, label));
+  if (items.length > 1 && items.some((item) => item.kind === 'none')) throw fieldError(field, text, '? has to stand alone');
+  return items;
+}
+
+/** A field that's just `*` */
+export function isAny(items: CronItem[]): boolean {
+  return items.length === 1 && items[0].kind === 'any';
+}
+
+/** A day field that's just `?` */
+export function isNone(items: CronItem[]): boolean {
+  return items.length === 1 && items[0].kind === 'none';
+}
+
+/** Every value a field of plain values and ranges takes, or null when it has day tokens */
+export function expandField(items: CronItem[], field: CronFieldName): number[] | null {
+  const values = new Set<number>();
+  for (const item of items) {
+    if (item.kind === 'any' || item.kind === 'none') {
+      const [min, max] = field === 'dayOfWeek' ? [0, 6] : [CRON_FIELDS[field].min, CRON_FIELDS[field].max];
+      for (let v = min; v <= max; v++) values.add(v);
+    } else if (item.kind === 'range') {
+      for (let v = item.start; v <= item.end; v += item.step) values.add(field === 'dayOfWeek' ? v % 7 : v);
+    } else {
+      return null;
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+// ─── PARSING ─────────────────────────────────────────────────────────────────
+
+function parseRate(source: string, body: string): RateSchedule {
+  const match = RATE.exec(body.trim());
+  if (!match) throw new Error('A rate is written as rate(value unit), with a unit of minute(s), hour(s) or day(s) — e.g. rate(5 minutes).');
+  const value = Number(match[1]);
+  const unit = match[2].toLowerCase().replace(/s$/, '') as RateUnit;
+  if (value < 1) throw new Error('The rate value must be a positive whole number.');
+  // EventBridge rejects `rate(1 minutes)` and `rate(5 minute)`
+  if ((value === 1) !== !match[2].toLowerCase().endsWith('s')) {
+    throw new Error(`Use ${value === 1 ? `the singular unit: rate(1 ${unit})` : `the plural unit: rate(${value} ${unit}s)`}.`);
+  }
+  return { kind: 'rate', dialect: 'aws', source, value, unit, notes: ['A rate counts from when the rule is created, not from the top of the hour.'] };
+}
+
+function fieldCountError(dialect: CronDialect, syntax: DialectSyntax, found: number): Error {
+  if (syntax.fields.length === 5 && found < 5) return new Error('Cron expression must have at least 5 fields (minute hour day month weekday).');
+  const names = syntax.fields.map((field) => CRON_FIELDS[field].label.toLowerCase()).join(' ');
+  const counts = syntax.optionalYear ? `${syntax.fields.length} or ${syntax.fields.length + 1}` : `${syntax.fields.length}`;
+  const hint = syntax.fields.length === 5 && found > 5 ? ' For seconds or years, switch to the Quartz or AWS EventBridge dialect.' : '';
+  return new Error(`${dialectInfo(dialect).label} expressions have ${counts} fields (${names}${syntax.optionalYear ? ' [year]' : ''}); found ${found}.${hint}`);
+}
+
+/** Notes on how the dialect will treat this expression */
+function scheduleNotes(schedule: CronSchedule, syntax: DialectSyntax): string[] {
+  const notes: string[] = [];
+  const { dayOfMonth, dayOfWeek, minute } = schedule.fields;
+  if (schedule.macro) notes.push(`${schedule.macro} is shorthand for ${CRON_MACROS[schedule.macro]}.`);
+  if (!syntax.quartzDays && !isAny(dayOfMonth) && !isAny(dayOfWeek)) {
+    notes.push('Day of month and day of week are both set, so it runs on days that match either one.');
+  }
+  if (schedule.dialect === 'github') {
+    const minutes = expandField(minute, 'minute')!;
+    const gaps = minutes.map((m, i) => (minutes[i + 1] ?? minutes[0] + 60) - m);
+    if (Math.min(...gaps) < 5) notes.push('GitHub Actions runs scheduled workflows at most once every 5 minutes, so some of these runs will be skipped.');
+  }
+  return notes;
+}
+
+/** Parse `expression` as `dialect` would; throws with the reason when it would be rejected */
+export function parseCron(expression: string, dialect: CronDialect): ParsedCron {
+  const source = expression.trim();
+  const syntax = DIALECT_SYNTAX[dialect];
+  const { label } = dialectInfo(dialect);
+  if (!source) throw new Error('Enter a cron expression.');
+
+  let body = source;
+  if (dialect === 'aws') {
+    const wrapped = /^(cron|rate)\s*\((.*)\)$/is.exec(source);
+    if (!wrapped) throw new Error('EventBridge schedules are written as cron(minute hour day-of-month month day-of-week year) or rate(value unit).');
+    if (wrapped[1].toLowerCase() === 'rate') return parseRate(source, wrapped[2]);
+    body = wrapped[2].trim();
+  } else if (/^(cron|rate)\s*\(/i.test(source)) {
+    throw new Error(`cron(…) and rate(…) are EventBridge syntax; switch the dialect to AWS EventBridge or write the bare fields.`);
+  }
+
+  if (/^(CRON_)?TZ=/i.test(body)) {
+    throw new Error(dialect === 'kubernetes'
+      ? 'Kubernetes rejects CRON_TZ and TZ in the schedule; set spec.timeZone on the CronJob instead.'
+      : `${label} doesn't take a time zone prefix in the expression.`);
+  }
+
+  let macro: string | null = null;
+  if (body.startsWith('@')) {
+    const key = body.toLowerCase();
+    if (!syntax.macros) throw new Error(`${label} doesn't support ${body}; write the fields out instead.`);
+    if (key === '@reboot') throw new Error('@reboot runs once when cron starts, so it has no schedule to describe.');
+    if (!CRON_MACROS[key]) throw new Error(`Unknown macro ${body}. Use one of ${Object.keys(CRON_MACROS).join(', ')}.`);
+    macro = key;
+    body = CRON_MACROS[key];
+  }
+
+  const parts = body.split(/\s+/);
+  const count = syntax.fields.length;
+  if (parts.length !== count && !(syntax.optionalYear && parts.length === count + 1)) throw fieldCountError(dialect, syntax, parts.length);
+
+  const layout: CronFieldName[] = parts.length > count ? [...syntax.fields, 'year'] : syntax.fields;
+  const written = layout.map((field, i) => ({ field, text: parts[i] }));
+  const fields: Record<CronFieldName, CronItem[]> = {
+    second: [{ kind: 'range', text: '0', start: 0, end: 0, step: 1, wildcard: false }],
+    minute: [],
+    hour: [],
+    dayOfMonth: [],
+    month: [],
+    dayOfWeek: [],
+    year: [{ kind: 'any', text: '*' }],
+  };
+  for (const { field, text } of written) fields[field] = parseField(field, text, syntax, label);
+
+  if (syntax.requireQuestion && isNone(fields.dayOfMonth) === isNone(fields.dayOfWeek)) {
+    throw new Error(isNone(fields.dayOfMonth)
+      ? 'Only one of day-of-month and day-of-week can be ?.'
+      : `${label} needs ? in either day-of-month or day-of-week; it can't restrict both.`);
+  }
+
+  const schedule: CronSchedule = { kind: 'cron', dialect, source, macro, written, fields, notes: [] };
+  schedule.notes = scheduleNotes(schedule, syntax);
+  return schedule;
+}
+
+// ─── BREAKDOWN ───────────────────────────────────────────────────────────────
+
+function fieldDescription(field: CronFieldName, syntax: DialectSyntax): string {
+  switch (field) {
+    case 'second':
+    case 'minute':
+      return '0-59';
+    case 'hour':
+      return '0-23';
+    case 'dayOfMonth':
+      return syntax.quartzDays ? '1-31, ?, L, L-n, nW or LW' : '1-31';
+    case 'month':
+      return '1-12 or JAN-DEC';
+    case 'dayOfWeek':
+      if (syntax.sundayIsOne) return '1-7 or SUN-SAT (1 is Sunday), ?, nL or n#m';
+      if (syntax.sundaySeven) return '0-7 or SUN-SAT (0 or 7 is Sunday)';
+      return `0-6 or SUN-SAT (0 is Sunday)${syntax.questionAsAny ? '; ? means *' : ''}`;
+    case 'year':
+      return `1970-${syntax.yearMax}${syntax.optionalYear ? ' (optional)' : ''}`;
+  }
+}
+
+function weekdayRange(item: Extract<CronItem, { kind: 'range' }>): string {
+  const name = (day: number) => WEEKDAYS[day % 7];
+  if (item.start === item.end) return name(item.start);
+  const every = item.step > 1 ? `every ${ordinal(item.step)} day from ` : '';
+  return `${every}${name(item.start)} through ${name(item.end)}`;
+}
+
+/** What a token means, when the dialect gives it a meaning worth spelling out */
+function explainItem(item: CronItem, field: CronFieldName, syntax: DialectSyntax): string | null {
+  switch (item.kind) {
+    case 'none':
+      return `? — no specific value; ${field === 'dayOfMonth' ? 'day of week' : 'day of month'} decides`;
+    case 'any':
+      return item.text === '?' ? '? — same as * here' : null;
+    case 'last':
+      return item.offset ? `${item.text} — ${item.offset} day${item.offset > 1 ? 's' : ''} before the last day of the month` : 'L — the last day of the month';
+    case 'lastWeekday':
+      return `${item.text} — the last weekday (Mon–Fri) of the month`;
+    case 'nearestWeekday':
+      return `${item.text} — the weekday (Mon–Fri) nearest the ${ordinal(item.day)}, without leaving the month`;
+    case 'lastOf':
+      return `${item.text} — the last ${WEEKDAYS[item.weekday]} of the month`;
+    case 'nth':
+      return `${item.text} — the ${ORDINALS[item.nth - 1]} ${WEEKDAYS[item.weekday]} of the month`;
+    case 'range':
+      if (field !== 'dayOfWeek' || item.wildcard) return null;
+      if (item.text.toUpperCase() === 'L') return 'L — Saturday, the last day of the week';
+      if (!/\d/.test(item.text)) return null;
+      if (syntax.sundayIsOne) return `${item.text} — ${weekdayRange(item)} (1 is Sunday here)`;
+      return item.end === 7 ? `${item.text} — ${weekdayRange(item)} (7 is Sunday too)` : null;
+  }
+}
+
+/** Each field as typed, with what the dialect accepts there and what its special tokens mean */
+export function breakdownCronFields(parsed: ParsedCron): CronField[] {
+  if (parsed.kind === 'rate') {
+    return [
+      { name: 'Rate', value: String(parsed.value), description: 'A positive whole number', notes: [] },
+      { name: 'Unit', value: parsed.unit + (parsed.value === 1 ? '' : 's'), description: 'minute(s), hour(s) or day(s)', notes: [] },
+    ];
+  }
+  const syntax = DIALECT_SYNTAX[parsed.dialect];
+  return parsed.written.map(({ field, text }) => ({
+    name: CRON_FIELDS[field].label,
+    value: text,
+    description: fieldDescription(field, syntax),
+    notes: parsed.fields[field].flatMap((item) => explainItem(item, field, syntax) ?? []),
+  }));
+}
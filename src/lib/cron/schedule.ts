@@ -0,0 +1,224 @@
+// src/lib/cron/schedule.ts
+// ─── Cron Scheduling ─────────────────────────────────────────────────────────
+// When a parsed expression fires, and what it says in English. Iteration is
+// cron-parser's; the Quartz tokens it lacks (`15W`, `LW`, `L-3`) and the
+// year field are handled by resolving each month's days up front and
+// running cron-parser one month at a time.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import cronParser from 'cron-parser';
+import cronstrue from 'cronstrue';
+import { expandField, isNone, type CronItem, type CronSchedule, type ParsedCron, type RateUnit } from './parse';
+import type { CronFieldName } from './dialects';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const RATE_MS: Record<RateUnit, number> = { minute: 60_000, hour: 3_600_000, day: 86_400_000 };
+
+/** How far ahead to look for a month that fires before giving up */
+const MAX_MONTHS = 12 * 200;
+
+// ─── EXPRESSIONS ─────────────────────────────────────────────────────────────
+
+/** One item in cron-parser and cronstrue syntax */
+function itemText(item: CronItem): string {
+  switch (item.kind) {
+    case 'any':
+      return '*';
+    case 'none':
+      return '?';
+    case 'range':
+      if (item.wildcard) return `*/${item.step}`;
+      if (item.start === item.end && item.step === 1) return `${item.start}`;
+      return `${item.start}-${item.end}${item.step > 1 ? `/${item.step}` : ''}`;
+    case 'last':
+      return item.offset ? `L-${item.offset}` : 'L';
+    case 'lastWeekday':
+      return 'LW';
+    case 'nearestWeekday':
+      return `${item.day}W`;
+    case 'lastOf':
+      return `${item.weekday}L`;
+    case 'nth':
+      return `${item.weekday}#${item.nth}`;
+  }
+}
+
+function fieldText(items: CronItem[]): string {
+  return items.map(itemText).join(',');
+}
+
+/** Day-of-month tokens cron-parser can't evaluate itself */
+function needsDayResolution(items: CronItem[]): boolean {
+  return items.some((item) => item.kind === 'nearestWeekday' || item.kind === 'lastWeekday' || (item.kind === 'last' && item.offset > 0));
+}
+
+// ─── CALENDAR ────────────────────────────────────────────────────────────────
+
+/** Year and month (1–12) of `date` on the wall clock in `timezone` */
+function zonedYearMonth(date: Date, timezone: string): [number, number] {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, year: 'numeric', month: 'numeric' }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+  return [get('year'), get('month')];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Quartz's `15W`: the weekday nearest the 15th, never crossing into another month */
+function nearestWeekday(year: number, month: number, day: number): number {
+  const last = daysInMonth(year, month);
+  const target = Math.min(day, last);
+  const dow = weekday(year, month, target);
+  if (dow === 6) return target === 1 ? 3 : target - 1;
+  if (dow === 0) return target === last ? target - 2 : target + 1;
+  return target;
+}
+
+/** The concrete days a day-of-month field picks out in one month */
+function resolveDays(items: CronItem[], year: number, month: number): number[] {
+  const last = daysInMonth(year, month);
+  const days = new Set<number>();
+  for (const item of items) {
+    if (item.kind === 'any') for (let d = 1; d <= last; d++) days.add(d);
+    else if (item.kind === 'range') for (let d = item.start; d <= Math.min(item.end, last); d += item.step) days.add(d);
+    else if (item.kind === 'last' && last - item.offset >= 1) days.add(last - item.offset);
+    else if (item.kind === 'lastWeekday') days.add(nearestWeekday(year, month, last));
+    else if (item.kind === 'nearestWeekday' && item.day <= last) days.add(nearestWeekday(year, month, item.day));
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+/** Whether the day fields pick out this date, with the same OR rule as cron-parser */
+export function matchesDay(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  const { dayOfMonth, dayOfWeek } = schedule.fields;
+  if (!expandField(schedule.fields.month, 'month')!.includes(month)) return false;
+  if (!expandField(schedule.fields.year, 'year')!.includes(year)) return false;
+
+  const dow = weekday(year, month, day);
+  const last = daysInMonth(year, month);
+  const domMatch = resolveDays(dayOfMonth, year, month).includes(day);
+  const dowMatch = dayOfWeek.some((item) => {
+    switch (item.kind) {
+      case 'any':
+      case 'none':
+        return true;
+      case 'range':
+        for (let d = item.start; d <= item.end; d += item.step) if (d % 7 === dow) return true;
+        return false;
+      case 'lastOf':
+        return item.weekday === dow && day + 7 > last;
+      case 'nth':
+        return item.weekday === dow && Math.ceil(day / 7) === item.nth;
+      default:
+        return false;
+    }
+  });
+  if (isNone(dayOfMonth)) return dowMatch;
+  if (isNone(dayOfWeek)) return domMatch;
+  // Both restricted: either may match; otherwise the restricted one decides
+  const anyDom = dayOfMonth.length === 1 && dayOfMonth[0].kind === 'any';
+  const anyDow = dayOfWeek.length === 1 && dayOfWeek[0].kind === 'any';
+  return anyDom || anyDow ? domMatch && dowMatch : domMatch || dowMatch;
+}
+
+/** How many of the schedule's times of day fall in [from, to), in minutes since midnight */
+export function timesBetween(schedule: CronSchedule, from = 0, to = 24 * 60): number {
+  const { second, minute, hour } = schedule.fields;
+  const minutes = expandField(minute, 'minute')!;
+  let count = 0;
+  for (const h of expandField(hour, 'hour')!) {
+    for (const m of minutes) if (h * 60 + m >= from && h * 60 + m < to) count++;
+  }
+  return count * expandField(second, 'second')!.length;
+}
+
+// ─── RUNS ────────────────────────────────────────────────────────────────────
+
+function* parserRuns(expression: string, from: Date, timezone: string): Generator<Date> {
+  let interval;
+  try {
+    interval = cronParser.parseExpression(expression, { currentDate: from, tz: timezone });
+  } catch {
+    // The dialect already accepted it; cron-parser refuses days no month has, like `30 2`
+    return;
+  }
+  for (;;) {
+    let next;
+    try {
+      next = interval.next();
+    } catch {
+      // No run within cron-parser's search, e.g. a fifth Monday in February
+      return;
+    }
+    yield next.toDate();
+  }
+}
+
+/** Month by month, for day tokens and years cron-parser doesn't know */
+function* monthlyRuns(schedule: CronSchedule, from: Date, timezone: string): Generator<Date> {
+  const { second, minute, hour, dayOfMonth, month, dayOfWeek, year } = schedule.fields;
+  const months = expandField(month, 'month')!;
+  const years = expandField(year, 'year')!;
+  const time = `${fieldText(second)} ${fieldText(minute)} ${fieldText(hour)}`;
+  const days = isNone(dayOfMonth) ? '*' : null;
+  const weekdays = isNone(dayOfWeek) ? '*' : fieldText(dayOfWeek);
+
+  let [y, m] = zonedYearMonth(from, timezone);
+  let cursor = from;
+  for (let i = 0; i < MAX_MONTHS && y <= years[years.length - 1]; i++, m = (m % 12) + 1, y += m === 1 ? 1 : 0) {
+    if (!years.includes(y) || !months.includes(m)) continue;
+    const monthDays = days ?? resolveDays(dayOfMonth, y, m).join(',');
+    if (!monthDays) continue;
+    // Restricted to this month, the first run past the cursor is either in it or a year later
+    for (const run of parserRuns(`${time} ${monthDays} ${m} ${weekdays}`, cursor, timezone)) {
+      const [runYear] = zonedYearMonth(run, timezone);
+      if (runYear !== y) break;
+      cursor = run;
+      yield run;
+    }
+  }
+}
+
+/** Every run after `from`, evaluated on the wall clock in `timezone`; ends when no more can be found */
+export function* cronRuns(parsed: ParsedCron, from: Date, timezone: string): Generator<Date> {
+  if (parsed.kind === 'rate') {
+    for (let at = from.getTime() + RATE_MS[parsed.unit] * parsed.value; ; at += RATE_MS[parsed.unit] * parsed.value) yield new Date(at);
+  }
+  const { fields } = parsed;
+  if (needsDayResolution(fields.dayOfMonth) || fields.year.some((item) => item.kind !== 'any')) {
+    yield* monthlyRuns(parsed, from, timezone);
+    return;
+  }
+  const names: CronFieldName[] = ['second', 'minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek'];
+  yield* parserRuns(names.map((name) => fieldText(fields[name]).replace('?', '*')).join(' '), from, timezone);
+}
+
+/** The next `count` runs, fewer if the schedule ends */
+export function nextCronRuns(parsed: ParsedCron, count: number, from: Date, timezone: string): Date[] {
+  const runs: Date[] = [];
+  for (const run of cronRuns(parsed, from, timezone)) {
+    runs.push(run);
+    if (runs.length >= count) break;
+  }
+  return runs;
+}
+
+// ─── DESCRIPTION ─────────────────────────────────────────────────────────────
+
+/** The schedule in plain English */
+export function describeCron(parsed: ParsedCron): string {
+  if (parsed.kind === 'rate') return `Every ${parsed.value === 1 ? parsed.unit : `${parsed.value} ${parsed.unit}s`}`;
+  const { fields } = parsed;
+  const parts = [fields.minute, fields.hour, fields.dayOfMonth, fields.month, fields.dayOfWeek].map(fieldText);
+  const hasSeconds = parsed.written.some(({ field }) => field === 'second');
+  const hasYear = parsed.written.some(({ field }) => field === 'year');
+  if (hasSeconds || hasYear) parts.unshift(fieldText(fields.second));
+  if (hasYear) parts.push(fieldText(fields.year));
+  return cronstrue.toString(parts.join(' '), { throwExceptionOnParseError: true, use24HourTimeFormat: false });
+}
@@ -0,0 +1,297 @@
+// src/lib/cron/timezones.ts
+// ─── Time Zones & DST ────────────────────────────────────────────────────────
+// Wall-clock math on top of Intl: UTC offsets, the instants where a zone's
+// offset changes, and which runs of a schedule those changes swallow or
+// repeat. Schedules are matched against the wall clock, so a schedule run
+// "in UTC" gives the wall times it targets in any zone; a DST gap or
+// overlap is then just a range of wall times.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { cronRuns, matchesDay, timesBetween } from './schedule';
+import { expandField, type CronSchedule, type ParsedCron } from './parse';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const RATE_MS = { minute: MINUTE_MS, hour: HOUR_MS, day: DAY_MS };
+
+/** Runs listed per DST change; an every-minute job would otherwise list 60 */
+const MAX_AFFECTED_RUNS = 100;
+
+/** Simulated runs followed across one DST change; every second through a repeated hour is 7,200 */
+const MAX_SIMULATED_RUNS = 10_000;
+
+/** Offered when the browser can't list its zones */
+const FALLBACK_TIMEZONES = [
+  'UTC', 'America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York', 'America/Sao_Paulo',
+  'Europe/London', 'Europe/Berlin', 'Europe/Kyiv', 'Asia/Kolkata', 'Asia/Singapore', 'Asia/Tokyo', 'Australia/Sydney', 'Pacific/Auckland',
+];
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export interface DstTransition {
+  /** The instant the offset changes */
+  at: Date;
+  /** UTC offsets in minutes before and after */
+  offsetBefore: number;
+  offsetAfter: number;
+}
+
+export interface DstImpact extends DstTransition {
+  /** Clocks jump forward over a gap, or fall back and repeat a stretch */
+  kind: 'skipped' | 'repeated';
+  /** The wall-clock range that's missing or happens twice, as UTC-based floating times */
+  wallStart: Date;
+  wallEnd: Date;
+  /** Scheduled wall times inside that range, as floating times */
+  runs: Date[];
+  /** When the simulated schedule fires for each of `runs`: never, once, or twice */
+  fired: Date[][];
+  /** More runs fell in the range than are listed or were simulated */
+  truncated: boolean;
+  /** Runs the day gains or loses against its schedule */
+  countChange: number;
+}
+
+/** How a DST change touched one run of the simulated schedule */
+export interface DstEffect {
+  impact: DstImpact;
+  /** The scheduled wall time, as a floating time */
+  wall: Date;
+  /** How many times that wall time fires */
+  times: number;
+}
+
+// ─── WALL CLOCK ──────────────────────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, format);
+  }
+  return format;
+}
+
+/** The wall-clock time `date` shows in `timezone`, as a Date whose UTC fields hold it */
+export function floatingTime(date: Date, timezone: string): Date {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timezone).formatToParts(date)) parts[part.type] = Number(part.value);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+/** Minutes `timezone` is ahead of UTC at `date` */
+export function zoneOffset(date: Date, timezone: string): number {
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((floatingTime(date, timezone).getTime() - wholeSeconds) / MINUTE_MS);
+}
+
+/** `UTC+05:30` style */
+export function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/** `YYYY-MM-DD` of `date` on the wall clock in `timezone` */
+export function zonedDateKey(date: Date, timezone: string): string {
+  return floatingTime(date, timezone).toISOString().slice(0, 10);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Every IANA zone the browser knows, UTC first */
+export function listTimezones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : FALLBACK_TIMEZONES;
+  return ['UTC', ...zones.filter((zone) => zone !== 'UTC')];
+}
+
+// ─── DST ─────────────────────────────────────────────────────────────────────
+
+/** Offset changes in `timezone` between `from` and `to`, to the minute */
+export function dstTransitions(timezone: string, from: Date, to: Date): DstTransition[] {
+  const transitions: DstTransition[] = [];
+  let previous = from.getTime();
+  let previousOffset = zoneOffset(from, timezone);
+  for (let t = previous + HOUR_MS; t <= to.getTime(); previous = t, t += HOUR_MS) {
+    const offset = zoneOffset(new Date(t), timezone);
+    if (offset === previousOffset) continue;
+    // Narrow the hour down to the minute the offset flips
+    let [low, high] = [previous, t];
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (zoneOffset(new Date(mid), timezone) === previousOffset) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: new Date(high), offsetBefore: previousOffset, offsetAfter: offset });
+    previousOffset = offset;
+  }
+  return transitions;
+}
+
+/** Whether the schedule names this floating wall time */
+function isWallTime(schedule: CronSchedule, floating: Date): boolean {
+  const { second, minute, hour } = schedule.fields;
+  return expandField(hour, 'hour')!.includes(floating.getUTCHours())
+    && expandField(minute, 'minute')!.includes(floating.getUTCMinutes())
+    && expandField(second, 'second')!.includes(floating.getUTCSeconds())
+    && matchesDay(schedule, floating.getUTCFullYear(), floating.getUTCMonth() + 1, floating.getUTCDate());
+}
+
+/** How many wall times the schedule names in [start, end), a stretch of floating time within one day */
+function wallTimeCount(schedule: CronSchedule, start: Date, end: Date): number {
+  if (!matchesDay(schedule, start.getUTCFullYear(), start.getUTCMonth() + 1, start.getUTCDate())) return 0;
+  const startMinute = start.getUTCHours() * 60 + start.getUTCMinutes();
+  const endMinute = end.toISOString().slice(0, 10) === start.toISOString().slice(0, 10) ? end.getUTCHours() * 60 + end.getUTCMinutes() : 24 * 60;
+  return timesBetween(schedule, startMinute, endMinute);
+}
+
+/**
+ * Each DST change in the window, with the scheduled wall times it skips or
+ * repeats and what the simulated runs — the ones listed as next runs — do
+ * with them. cron-parser moves a fixed-hour run out of a gap and fires it
+ * once in an overlap, but drops or repeats it when every hour is scheduled.
+ */
+export function dstImpact(parsed: ParsedCron, timezone: string, from: Date, to: Date): DstImpact[] {
+  return dstTransitions(timezone, from, to).map((transition) => {
+    const { at, offsetBefore, offsetAfter } = transition;
+    const kind = offsetAfter > offsetBefore ? 'skipped' : 'repeated';
+    // The wall clock reads `at + before` just before the change and `at + after` just after
+    const span = Math.abs(offsetAfter - offsetBefore) * MINUTE_MS;
+    const early = at.getTime() + Math.min(offsetBefore, offsetAfter) * MINUTE_MS;
+    const impact: DstImpact = {
+      ...transition,
+      kind,
+      wallStart: new Date(early),
+      wallEnd: new Date(early + span),
+      runs: [],
+      fired: [],
+      truncated: false,
+      countChange: 0,
+    };
+    // A rate counts elapsed time, so the wall clock never enters into it
+    if (parsed.kind !== 'cron') return impact;
+
+    for (const run of cronRuns(parsed, new Date(early - 1000), 'UTC')) {
+      if (run.getTime() >= early + span) break;
+      if (run.getTime() < early) continue;
+      if (impact.runs.length === MAX_AFFECTED_RUNS) {
+        impact.truncated = true;
+        break;
+      }
+      impact.runs.push(run);
+    }
+
+    // A gap's moved runs land in the hour after it; an overlap's runs anywhere in the stretch it repeats
+    const simulated: Date[] = [];
+    const windowStart = kind === 'skipped' ? at.getTime() : at.getTime() - span;
+    for (const run of cronRuns(parsed, new Date(windowStart - 1000), timezone)) {
+      if (run.getTime() >= at.getTime() + span) break;
+      if (simulated.length === MAX_SIMULATED_RUNS) {
+        impact.truncated = true;
+        break;
+      }
+      simulated.push(run);
+    }
+
+    // Each simulated run keyed by the scheduled wall time it stands for
+    const standsFor = (run: Date): number | null => {
+      const wall = floatingTime(run, timezone);
+      if (kind === 'repeated') return wall.getTime();
+      // After a gap, a run at a wall time the schedule doesn't name was moved there from the gap
+      return isWallTime(parsed, wall) ? null : wall.getTime() - span;
+    };
+    const fired = new Map<number, Date[]>();
+    let firings = 0;
+    for (const run of simulated) {
+      const wall = standsFor(run);
+      if (wall === null) continue;
+      firings++;
+      fired.set(wall, [...(fired.get(wall) ?? []), run]);
+    }
+    impact.fired = impact.runs.map((run) => fired.get(run.getTime()) ?? []);
+    impact.countChange = firings - wallTimeCount(parsed, impact.wallStart, impact.wallEnd);
+    return impact;
+  });
+}
+
+/** How a DST change touched `run`: moved out of a gap, or fired in a repeated stretch */
+export function dstEffect(run: Date, impacts: DstImpact[]): DstEffect | null {
+  for (const impact of impacts) {
+    const index = impact.fired.findIndex((times) => times.some((time) => time.getTime() === run.getTime()));
+    if (index !== -1) return { impact, wall: impact.runs[index], times: impact.fired[index].length };
+  }
+  return null;
+}
+
+// ─── CALENDAR ────────────────────────────────────────────────────────────────
+
+/** The instant the wall clock in `timezone` reads midnight on `YYYY-MM-DD` */
+function zonedMidnight(dateKey: string, timezone: string): number {
+  const floating = Date.parse(`${dateKey}T00:00:00Z`);
+  const guess = floating - zoneOffset(new Date(floating), timezone) * MINUTE_MS;
+  return floating - zoneOffset(new Date(guess), timezone) * MINUTE_MS;
+}
+
+/** Monday-first weeks of `YYYY-MM-DD` keys, starting with the week `from` falls in */
+export function calendarWeeks(from: Date, timezone: string, weeks: number): string[][] {
+  const today = floatingTime(from, timezone);
+  const monday = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()) - ((today.getUTCDay() + 6) % 7) * DAY_MS;
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => new Date(monday + (week * 7 + day) * DAY_MS).toISOString().slice(0, 10)));
+}
+
+/**
+ * How many times the schedule fires on each day, worked out from its fields
+ * rather than by iterating — an every-second job fires 86,400 times a day.
+ * DST days then take each change's `countChange` from `impacts`, so they
+ * agree with the simulated runs; a rate counts from `from`.
+ */
+export function dailyRunCounts(parsed: ParsedCron, timezone: string, dates: string[], from: Date, impacts: DstImpact[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  if (dates.length === 0) return counts;
+
+  if (parsed.kind === 'rate') {
+    const interval = RATE_MS[parsed.unit] * parsed.value;
+    for (const date of dates) {
+      const start = zonedMidnight(date, timezone);
+      const end = zonedMidnight(new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10), timezone);
+      const first = Math.max(1, Math.ceil((start - from.getTime()) / interval));
+      const last = Math.ceil((end - from.getTime()) / interval) - 1;
+      counts.set(date, Math.max(0, last - first + 1));
+    }
+    return counts;
+  }
+
+  const perDay = timesBetween(parsed);
+  for (const date of dates) {
+    const [y, m, d] = date.split('-').map(Number);
+    counts.set(date, matchesDay(parsed, y, m, d) ? perDay : 0);
+  }
+  for (const { wallStart, countChange } of impacts) {
+    const date = wallStart.toISOString().slice(0, 10);
+    const count = counts.get(date);
+    if (count !== undefined) counts.set(date, Math.max(0, count + countChange));
+  }
+  return counts;
+}
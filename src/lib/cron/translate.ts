@@ -0,0 +1,132 @@
+// src/lib/cron/translate.ts
+// ─── Cron Translation ────────────────────────────────────────────────────────
+// Rewrites a parsed schedule in another dialect's syntax: seconds and years
+// added or dropped, weekdays renumbered, `?` placed where Quartz and
+// EventBridge demand it. What the target can't say — L/W/# outside Quartz,
+// both day fields at once in Quartz, uneven rates — is refused with why.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { CRON_FIELDS, DIALECT_SYNTAX, WEEKDAY_NAMES, dialectInfo, type CronDialect, type CronFieldName, type DialectSyntax } from './dialects';
+import { ANY_ITEM, NONE_ITEM, isAny, isNone, parseCron, stepItem, valueItem, type CronItem, type ParsedCron, type RateSchedule } from './parse';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export interface CronTranslation {
+  expression: string;
+  /** How the translated schedule will behave differently, or needs care */
+  warnings: string[];
+}
+
+type Fields = Record<CronFieldName, CronItem[]>;
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+/** The cron fields that fire on the same clock boundaries as a rate */
+function rateFields(rate: RateSchedule): Fields {
+  const { value, unit } = rate;
+  const base: Fields = { second: [valueItem(0)], minute: [ANY_ITEM], hour: [ANY_ITEM], dayOfMonth: [ANY_ITEM], month: [ANY_ITEM], dayOfWeek: [ANY_ITEM], year: [ANY_ITEM] };
+  const uneven = (span: string) => new Error(`rate(${value} ${unit}s) doesn't divide evenly into ${span}, so no cron expression repeats it exactly.`);
+  switch (unit) {
+    case 'minute':
+      if (60 % value !== 0) throw uneven('an hour');
+      return { ...base, minute: [stepItem(value, 'minute')] };
+    case 'hour':
+      if (24 % value !== 0) throw uneven('a day');
+      return { ...base, minute: [valueItem(0)], hour: [stepItem(value, 'hour')] };
+    case 'day':
+      if (value !== 1) throw new Error(`rate(${value} days) can't be written as cron: day-of-month steps restart every month.`);
+      return { ...base, minute: [valueItem(0)], hour: [valueItem(0)] };
+  }
+}
+
+// ─── RENDERING ───────────────────────────────────────────────────────────────
+
+/** A weekday in the target's numbering; names where numbering is 1-based, to avoid off-by-one reads */
+function weekdayText(day: number, syntax: DialectSyntax): string {
+  return syntax.sundayIsOne ? WEEKDAY_NAMES[day % 7] : String(syntax.sundaySeven ? day : day % 7);
+}
+
+function renderWeekdays(item: Extract<CronItem, { kind: 'range' }>, syntax: DialectSyntax): string {
+  if (item.wildcard) return `*/${item.step}`;
+  const { start, step } = item;
+  // 7 is Sunday only in Vixie cron; elsewhere a range ending on it wraps
+  const end = item.end === 7 && start === 0 && step === 1 ? 6 : item.end;
+  if (end < 7 || syntax.sundaySeven) {
+    if (start === end) return weekdayText(start, syntax);
+    return `${weekdayText(start, syntax)}-${weekdayText(end, syntax)}${step > 1 ? `/${step}` : ''}`;
+  }
+  const days = new Set<number>();
+  for (let day = start; day <= end; day += step) days.add(day % 7);
+  return [...days].sort((a, b) => a - b).map((day) => weekdayText(day, syntax)).join(',');
+}
+
+function renderItem(item: CronItem, field: CronFieldName, syntax: DialectSyntax): string {
+  const weekdayNumber = (day: number) => (syntax.sundayIsOne ? day + 1 : day);
+  switch (item.kind) {
+    case 'any':
+      return '*';
+    case 'none':
+      return '?';
+    case 'range':
+      if (field === 'dayOfWeek') return renderWeekdays(item, syntax);
+      if (item.wildcard) return `*/${item.step}`;
+      if (item.start === item.end && item.step === 1) return String(item.start);
+      return `${item.start}-${item.end}${item.step > 1 ? `/${item.step}` : ''}`;
+    case 'last':
+      return item.offset ? `L-${item.offset}` : 'L';
+    case 'lastWeekday':
+      return 'LW';
+    case 'nearestWeekday':
+      return `${item.day}W`;
+    case 'lastOf':
+      return `${weekdayNumber(item.weekday)}L`;
+    case 'nth':
+      return `${weekdayNumber(item.weekday)}#${item.nth}`;
+  }
+}
+
+// ─── TRANSLATION ─────────────────────────────────────────────────────────────
+
+/** The same schedule in `target`'s syntax; throws when `target` can't express it */
+export function translateCron(parsed: ParsedCron, target: CronDialect): CronTranslation {
+  const info = dialectInfo(target);
+  const syntax = DIALECT_SYNTAX[target];
+  const warnings: string[] = [];
+  if (dialectInfo(parsed.dialect).timezone !== info.timezone) warnings.push(info.timezoneNote);
+
+  let fields: Fields;
+  if (parsed.kind === 'rate') {
+    fields = rateFields(parsed);
+    warnings.push(`${parsed.source} counts from when the rule was created; the cron version fires on the clock instead.`);
+  } else {
+    fields = { ...parsed.fields };
+  }
+
+  const onTheMinute = fields.second.length === 1 && renderItem(fields.second[0], 'second', syntax) === '0';
+  if (!syntax.fields.includes('second') && !onTheMinute) {
+    throw new Error(`${info.label} has no seconds field, and this schedule fires at second ${fields.second.map((item) => item.text).join(',')}.`);
+  }
+  const hasYear = syntax.fields.includes('year') || syntax.optionalYear;
+  if (!hasYear && !isAny(fields.year)) throw new Error(`${info.label} has no year field, and this schedule is limited to ${fields.year.map((item) => item.text).join(',')}.`);
+
+  if (!syntax.quartzDays) {
+    for (const field of ['dayOfMonth', 'dayOfWeek'] as const) {
+      const token = fields[field].find((item) => item.kind !== 'any' && item.kind !== 'none' && item.kind !== 'range');
+      if (token) throw new Error(`${info.label} has no equivalent for ${token.text} in ${CRON_FIELDS[field].label.toLowerCase()}; only Quartz and AWS EventBridge support L, W and #.`);
+    }
+    if (isNone(fields.dayOfMonth)) fields.dayOfMonth = [ANY_ITEM];
+    if (isNone(fields.dayOfWeek)) fields.dayOfWeek = [ANY_ITEM];
+  } else if (!isNone(fields.dayOfMonth) && !isNone(fields.dayOfWeek)) {
+    if (isAny(fields.dayOfWeek)) fields.dayOfWeek = [NONE_ITEM];
+    else if (isAny(fields.dayOfMonth)) fields.dayOfMonth = [NONE_ITEM];
+    else throw new Error(`${info.label} can't restrict both day of month and day of week; this schedule runs on days matching either one.`);
+  }
+
+  const layout = syntax.optionalYear && !isAny(fields.year) ? [...syntax.fields, 'year' as const] : syntax.fields;
+  const body = layout.map((field) => fields[field].map((item) => renderItem(item, field, syntax)).join(',')).join(' ');
+  const expression = target === 'aws' ? `cron(${body})` : body;
+
+  // The result must read back as the same dialect; its notes apply to the translation too
+  warnings.push(...parseCron(expression, target).notes);
+  return { expression, warnings };
+}
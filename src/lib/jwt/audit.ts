@@ -0,0 +1,395 @@
+// src/lib/jwt/audit.ts
+// ─── JWT Security Audit ──────────────────────────────────────────────────────
+// A rule set run over a decoded token's header and payload: unsafe or
+// confusable algorithms, headers that make a verifier fetch or trust a key
+// named by the token itself, suspicious `kid` values, missing registered
+// claims, lifetimes and time claims (with clock-skew tolerance), claims
+// that look like personal data, and how a JWE wrapping the claims was
+// encrypted. Findings come back ranked by severity.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { JWS_ALGORITHMS } from './keys';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'] as const;
+
+/** Leeway most JWT libraries allow between issuer and verifier clocks */
+export const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+/** Access tokens living longer than a day are usually a mistake */
+export const DEFAULT_MAX_LIFETIME_SECONDS = 24 * 60 * 60;
+
+/** NumericDates above this are almost certainly milliseconds (year 5138 in seconds) */
+const MILLISECONDS_THRESHOLD = 1e11;
+
+const MAX_KID_LENGTH = 256;
+
+/** Claim names that suggest personal or secret data, with the severity of finding one */
+const SENSITIVE_CLAIM_NAMES: { pattern: RegExp; label: string; severity: Severity }[] = [
+  { pattern: /pass(word|wd)?$|secret|api_?key|private_?key|credential/i, label: 'a credential', severity: 'high' },
+  { pattern: /ssn|social_?security|national_?id|passport|tax_?id/i, label: 'a government ID', severity: 'high' },
+  { pattern: /card_?(number|no)|credit_?card|\bpan\b|cvv|iban/i, label: 'payment data', severity: 'high' },
+  { pattern: /e_?mail/i, label: 'an email address', severity: 'medium' },
+  { pattern: /phone|mobile|msisdn/i, label: 'a phone number', severity: 'medium' },
+  { pattern: /address|street|postal_?code|zip_?code/i, label: 'a postal address', severity: 'medium' },
+  { pattern: /birth|dob\b/i, label: 'a date of birth', severity: 'medium' },
+];
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type Severity = (typeof SEVERITIES)[number];
+
+export interface AuditFinding {
+  /** Stable rule id, e.g. `alg-none` */
+  rule: string;
+  severity: Severity;
+  title: string;
+  detail: string;
+  /** Header parameter or claim the finding is about, e.g. `header.kid` or `payload.user.email` */
+  location?: string;
+}
+
+export interface AuditOptions {
+  /** Current time in epoch milliseconds (default Date.now()) */
+  now?: number;
+  clockSkewSeconds?: number;
+  maxLifetimeSeconds?: number;
+  /**
+   * Protected header of the JWE the claims were decrypted from. `header` is
+   * then the nested JWS header, or this same JWE header when nothing was signed.
+   */
+  encryption?: unknown;
+}
+
+export interface AuditReport {
+  generatedAt: string;
+  settings: { clockSkewSeconds: number; maxLifetimeSeconds: number };
+  token: { alg: unknown; enc?: unknown; typ?: unknown; kid?: unknown; claims: string[] };
+  signature: string;
+  summary: Record<Severity, number>;
+  findings: AuditFinding[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatDuration(seconds: number): string {
+  const abs = Math.abs(seconds);
+  if (abs >= 86_400) return `${Math.round(abs / 86_400)}d`;
+  if (abs >= 3_600) return `${Math.round(abs / 3_600)}h`;
+  if (abs >= 60) return `${Math.round(abs / 60)}m`;
+  return `${Math.round(abs)}s`;
+}
+
+/** Luhn checksum, to tell card numbers from other long digit runs */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** What a string value looks like, when it looks like personal data */
+function sensitiveValue(value: string): { label: string; severity: Severity } | null {
+  if (/^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(value)) return { label: 'an email address', severity: 'medium' };
+  if (/^\d{3}-\d{2}-\d{4}$/.test(value)) return { label: 'a US Social Security number', severity: 'high' };
+  const digits = value.replace(/[\s-]/g, '');
+  if (/^\d{13,19}$/.test(digits) && passesLuhn(digits)) return { label: 'a payment card number', severity: 'high' };
+  if (/^\+?[\d\s().-]{10,}$/.test(value) && /^\+|\(|\d{3}[\s.-]\d{3}/.test(value)) return { label: 'a phone number', severity: 'medium' };
+  return null;
+}
+
+// ─── RULES ───────────────────────────────────────────────────────────────────
+
+function auditAlgorithm(header: JsonObject, findings: AuditFinding[]): void {
+  const alg = header.alg;
+  if (typeof alg !== 'string' || !alg) {
+    findings.push({ rule: 'alg-missing', severity: 'high', title: 'No algorithm', detail: 'The header has no "alg", so a verifier has to guess how the token was signed.', location: 'header.alg' });
+    return;
+  }
+  if (alg.toLowerCase() === 'none') {
+    findings.push({ rule: 'alg-none', severity: 'critical', title: 'Unsigned token (alg: none)', detail: 'Anyone can forge this token. Verifiers must reject "none" outright.', location: 'header.alg' });
+    return;
+  }
+  if (!(JWS_ALGORITHMS as readonly string[]).includes(alg)) {
+    findings.push({ rule: 'alg-unknown', severity: 'medium', title: `Unusual algorithm ${alg}`, detail: 'Not a common JWS algorithm; make sure your verifier accepts only the algorithms you issue.', location: 'header.alg' });
+  }
+
+  const hasKeyHints = ['jwk', 'x5c', 'x5t', 'x5t#S256'].some((name) => header[name] !== undefined);
+  if (alg.startsWith('HS') && hasKeyHints) {
+    findings.push({
+      rule: 'alg-confusion',
+      severity: 'high',
+      title: 'HMAC token carrying public-key material',
+      detail: 'An HS* token that names an asymmetric key is the signature of an RS→HS confusion attack: the attacker signs with the public key as the HMAC secret. Pin the expected algorithm per key.',
+      location: 'header.alg',
+    });
+  } else if (/^(RS|PS|ES|Ed)/.test(alg)) {
+    findings.push({
+      rule: 'alg-pinning',
+      severity: 'info',
+      title: 'Pin the algorithm on the verifier',
+      detail: `Verify ${alg} tokens with an allow-list of algorithms per key. A verifier that trusts "alg" from the header can be tricked into HMAC verification with the public key as the secret (RS→HS confusion).`,
+      location: 'header.alg',
+    });
+  } else if (alg.startsWith('HS')) {
+    findings.push({
+      rule: 'alg-symmetric',
+      severity: 'info',
+      title: 'Shared-secret signature',
+      detail: 'Every service that can verify an HMAC token can also mint one. Prefer an asymmetric algorithm when verifiers are not fully trusted.',
+      location: 'header.alg',
+    });
+  }
+}
+
+function auditEncryption(jweHeader: JsonObject, signed: boolean, findings: AuditFinding[]): void {
+  const alg = typeof jweHeader.alg === 'string' ? jweHeader.alg : '';
+  if (alg === 'RSA1_5') {
+    findings.push({ rule: 'jwe-rsa1_5', severity: 'high', title: 'RSA1_5 key encryption', detail: 'RSAES-PKCS1-v1_5 is open to Bleichenbacher padding-oracle attacks. Use RSA-OAEP-256 or ECDH-ES.', location: 'jwe.alg' });
+  } else if (alg === 'RSA-OAEP') {
+    findings.push({ rule: 'jwe-oaep-sha1', severity: 'low', title: 'RSA-OAEP with SHA-1', detail: 'Still secure for OAEP, but RSA-OAEP-256 is the modern choice.', location: 'jwe.alg' });
+  }
+  if (jweHeader.zip !== undefined) {
+    findings.push({ rule: 'jwe-zip', severity: 'low', title: 'Compressed before encryption', detail: 'Compression makes the ciphertext length depend on the content, which can leak secrets when attacker-controlled data shares the payload (CRIME-style).', location: 'jwe.zip' });
+  }
+  if (signed) return;
+  if (/^(RSA|ECDH)/.test(alg)) {
+    findings.push({
+      rule: 'jwe-unsigned',
+      severity: 'medium',
+      title: 'Encrypted but not signed',
+      detail: "Anyone with the recipient's public key can create this token, so the claims prove nothing about who issued them. Sign the claims, then encrypt the signed JWT (a nested JWT).",
+      location: 'jwe.alg',
+    });
+  } else {
+    findings.push({
+      rule: 'jwe-symmetric',
+      severity: 'info',
+      title: 'Authenticated by a shared key only',
+      detail: 'The shared key both encrypts and authenticates the token, so every service holding it can also mint tokens.',
+      location: 'jwe.alg',
+    });
+  }
+}
+
+function auditKeyHeaders(header: JsonObject, findings: AuditFinding[]): void {
+  for (const name of ['jku', 'x5u'] as const) {
+    const url = header[name];
+    if (url === undefined) continue;
+    const insecure = typeof url !== 'string' || !url.startsWith('https://');
+    findings.push({
+      rule: `header-${name}`,
+      severity: insecure ? 'critical' : 'high',
+      title: `Key URL in the header (${name})`,
+      detail: `The token tells the verifier where to download its key${insecure ? ', over a non-HTTPS URL' : ''}. Only fetch keys from an allow-listed URL, never from "${name}" as given — otherwise an attacker points it at their own key set.`,
+      location: `header.${name}`,
+    });
+  }
+  for (const name of ['jwk', 'x5c'] as const) {
+    if (header[name] === undefined) continue;
+    findings.push({
+      rule: `header-${name}`,
+      severity: 'high',
+      title: `Embedded key in the header (${name})`,
+      detail: 'The token carries the key it should be verified with. Trusting it lets anyone sign a token with their own key; verify against your configured keys instead.',
+      location: `header.${name}`,
+    });
+  }
+  if (header.crit !== undefined) {
+    findings.push({ rule: 'header-crit', severity: 'low', title: 'Critical header extensions', detail: `Verifiers must reject tokens whose "crit" names extensions they don't implement: ${JSON.stringify(header.crit)}.`, location: 'header.crit' });
+  }
+}
+
+function auditKid(header: JsonObject, findings: AuditFinding[]): void {
+  const kid = header.kid;
+  if (kid === undefined) return;
+  if (typeof kid !== 'string') {
+    findings.push({ rule: 'kid-type', severity: 'medium', title: 'Non-string kid', detail: '"kid" should be a string; other types can break key lookups.', location: 'header.kid' });
+    return;
+  }
+  const checks: [RegExp, string][] = [
+    [/\.\.[\\/]|^[\\/]|^[a-z]:\\|%2e%2e|\0/i, 'path traversal (../, absolute paths or NUL bytes)'],
+    [/['"`]|--|;|\/\*|\bunion\b.*\bselect\b|\bor\b\s+\S+\s*=/i, 'SQL injection'],
+    [/\$\(|\||&&|[<>]/, 'command or markup injection'],
+  ];
+  for (const [pattern, attack] of checks) {
+    if (!pattern.test(kid)) continue;
+    findings.push({
+      rule: 'kid-injection',
+      severity: 'high',
+      title: 'Suspicious kid',
+      detail: `"kid" looks like an attempt at ${attack}. Look keys up in a fixed map — never use "kid" in a file path, query or shell command.`,
+      location: 'header.kid',
+    });
+    return;
+  }
+  if (kid.length > MAX_KID_LENGTH) {
+    findings.push({ rule: 'kid-length', severity: 'low', title: 'Very long kid', detail: `"kid" is ${kid.length} characters long; key ids are normally short.`, location: 'header.kid' });
+  }
+}
+
+function auditRegisteredClaims(payload: JsonObject, findings: AuditFinding[]): void {
+  const missing: [string, Severity, string][] = [
+    ['exp', 'high', 'The token never expires; a leaked copy works forever.'],
+    ['iss', 'medium', 'Without an issuer, a verifier that trusts several issuers can mix their tokens up.'],
+    ['aud', 'medium', 'Without an audience, a token minted for one service is accepted by every other service sharing the key.'],
+    ['iat', 'low', 'Without an issue time, token age and key rotation are hard to reason about.'],
+    ['jti', 'info', 'Without a token id, replayed tokens can\'t be detected or revoked individually.'],
+  ];
+  for (const [claim, severity, detail] of missing) {
+    if (payload[claim] === undefined) {
+      findings.push({ rule: `missing-${claim}`, severity, title: `Missing "${claim}" claim`, detail, location: `payload.${claim}` });
+    }
+  }
+  if (payload.aud !== undefined && !(typeof payload.aud === 'string' || (Array.isArray(payload.aud) && payload.aud.every((a) => typeof a === 'string')))) {
+    findings.push({ rule: 'aud-type', severity: 'medium', title: 'Malformed "aud" claim', detail: '"aud" must be a string or an array of strings.', location: 'payload.aud' });
+  }
+}
+
+function auditTimes(payload: JsonObject, options: Required<Omit<AuditOptions, 'encryption'>>, findings: AuditFinding[]): void {
+  const now = options.now / 1000;
+  const skew = options.clockSkewSeconds;
+  const times: Record<'exp' | 'nbf' | 'iat', number | undefined> = { exp: undefined, nbf: undefined, iat: undefined };
+
+  for (const claim of ['exp', 'nbf', 'iat'] as const) {
+    const value = payload[claim];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      findings.push({ rule: 'time-type', severity: 'medium', title: `"${claim}" is not a NumericDate`, detail: `"${claim}" must be a number of seconds since the epoch; many libraries ignore or reject other types.`, location: `payload.${claim}` });
+      continue;
+    }
+    if (value > MILLISECONDS_THRESHOLD) {
+      findings.push({ rule: 'time-milliseconds', severity: 'medium', title: `"${claim}" looks like milliseconds`, detail: `NumericDates are in seconds; ${value} puts "${claim}" thousands of years in the future.`, location: `payload.${claim}` });
+      continue;
+    }
+    times[claim] = value;
+  }
+
+  const { exp, nbf, iat } = times;
+  if (exp !== undefined && now >= exp) {
+    const late = now - exp;
+    findings.push(
+      late <= skew
+        ? { rule: 'expired-within-skew', severity: 'low', title: 'Expired, within clock-skew tolerance', detail: `Expired ${formatDuration(late)} ago; verifiers allowing ${skew}s of skew still accept it.`, location: 'payload.exp' }
+        : { rule: 'expired', severity: 'high', title: 'Token expired', detail: `Expired ${formatDuration(late)} ago, beyond the ${skew}s clock-skew tolerance.`, location: 'payload.exp' },
+    );
+  }
+  if (nbf !== undefined && nbf - now > skew) {
+    findings.push({ rule: 'not-yet-valid', severity: 'medium', title: 'Not yet valid', detail: `"nbf" is ${formatDuration(nbf - now)} in the future, beyond the ${skew}s clock-skew tolerance.`, location: 'payload.nbf' });
+  }
+  if (iat !== undefined && iat - now > skew) {
+    findings.push({ rule: 'issued-in-future', severity: 'medium', title: 'Issued in the future', detail: `"iat" is ${formatDuration(iat - now)} ahead of this clock — the issuer's clock is off, or the token was forged.`, location: 'payload.iat' });
+  }
+  if (exp !== undefined && iat !== undefined && exp <= iat) {
+    findings.push({ rule: 'exp-before-iat', severity: 'medium', title: 'Expires before it was issued', detail: '"exp" is not after "iat", so the token was never valid.', location: 'payload.exp' });
+  }
+
+  if (exp !== undefined) {
+    const start = iat ?? nbf ?? now;
+    const lifetime = exp - start;
+    if (lifetime > options.maxLifetimeSeconds) {
+      findings.push({
+        rule: 'long-lifetime',
+        severity: 'medium',
+        title: 'Excessive lifetime',
+        detail: `${iat !== undefined ? 'Lifetime' : 'Remaining lifetime'} is ${formatDuration(lifetime)}, above the ${formatDuration(options.maxLifetimeSeconds)} limit. Use short-lived tokens and refresh them.`,
+        location: 'payload.exp',
+      });
+    }
+  }
+}
+
+function auditPersonalData(value: unknown, path: string, findings: AuditFinding[], encrypted: boolean, depth = 0): void {
+  if (depth > 8) return;
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => auditPersonalData(item, `${path}[${i}]`, findings, encrypted, depth + 1));
+    return;
+  }
+  if (!isObject(value)) return;
+  for (const [key, child] of Object.entries(value)) {
+    const location = `${path}.${key}`;
+    const byName = SENSITIVE_CLAIM_NAMES.find(({ pattern }) => pattern.test(key));
+    const byValue = typeof child === 'string' ? sensitiveValue(child) : null;
+    const match = byName ?? byValue;
+    if (match && child !== null && child !== '') {
+      findings.push({
+        rule: 'pii-claim',
+        severity: encrypted ? 'info' : match.severity,
+        title: `Claim looks like ${match.label}`,
+        detail: encrypted
+          ? 'The token is encrypted, so only holders of the decryption key can read this claim — but every one of them can. Include it only if each recipient needs it.'
+          : 'JWT payloads are only base64url-encoded — anyone holding the token can read them. Keep personal and secret data out, or use an encrypted token (JWE).',
+        location,
+      });
+      continue;
+    }
+    auditPersonalData(child, location, findings, encrypted, depth + 1);
+  }
+}
+
+// ─── AUDIT ───────────────────────────────────────────────────────────────────
+
+/** Run every rule over the decoded token; findings are sorted most severe first */
+export function auditJwt(header: unknown, payload: unknown, options: AuditOptions = {}): AuditFinding[] {
+  const settings: Required<Omit<AuditOptions, 'encryption'>> = {
+    now: options.now ?? Date.now(),
+    clockSkewSeconds: Math.max(0, options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS),
+    maxLifetimeSeconds: options.maxLifetimeSeconds ?? DEFAULT_MAX_LIFETIME_SECONDS,
+  };
+  const findings: AuditFinding[] = [];
+  const head = isObject(header) ? header : {};
+  const jweHeader = isObject(options.encryption) ? options.encryption : null;
+  // A JWE header carries `enc`; a nested JWS header never does
+  const signed = typeof head.enc !== 'string';
+
+  if (jweHeader) auditEncryption(jweHeader, signed, findings);
+  if (signed) auditAlgorithm(head, findings);
+  auditKeyHeaders(head, findings);
+  auditKid(head, findings);
+
+  if (isObject(payload)) {
+    auditRegisteredClaims(payload, findings);
+    auditTimes(payload, settings, findings);
+    auditPersonalData(payload, 'payload', findings, jweHeader !== null);
+  } else {
+    findings.push({ rule: 'payload-not-object', severity: 'low', title: 'Payload is not a claims object', detail: 'A JWT payload should be a JSON object of claims.', location: 'payload' });
+  }
+
+  // Array.prototype.sort is stable, so rules keep their order within a severity
+  return findings.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+}
+
+/**
+ * Exportable JSON report. Holds claim names and findings but no claim
+ * values, so it can be attached to a ticket without leaking the token.
+ */
+export function buildAuditReport(
+  header: unknown,
+  payload: unknown,
+  findings: AuditFinding[],
+  settings: { clockSkewSeconds: number; maxLifetimeSeconds: number; signature: string },
+): AuditReport {
+  const head = isObject(header) ? header : {};
+  const summary = Object.fromEntries(SEVERITIES.map((s) => [s, findings.filter((f) => f.severity === s).length])) as Record<Severity, number>;
+  return {
+    generatedAt: new Date().toISOString(),
+    settings: { clockSkewSeconds: settings.clockSkewSeconds, maxLifetimeSeconds: settings.maxLifetimeSeconds },
+    token: { alg: head.alg, enc: head.enc, typ: head.typ, kid: head.kid, claims: isObject(payload) ? Object.keys(payload) : [] },
+    signature: settings.signature,
+    summary,
+    findings,
+  };
+}
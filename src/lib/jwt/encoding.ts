@@ -0,0 +1,62 @@
+// src/lib/jwt/encoding.ts
+// ─── JOSE Encoding Helpers ───────────────────────────────────────────────────
+// base64url and base64 over bytes and UTF-8 text, shared by the JWT
+// modules. Uses atob/btoa, so it runs in browsers, Workers and Node alike.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─── BYTES ───────────────────────────────────────────────────────────────────
+
+export function utf8Encode(text: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(text);
+}
+
+/** Strict UTF-8 decode: invalid sequences throw instead of becoming U+FFFD */
+export function utf8Decode(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// ─── BASE64 ──────────────────────────────────────────────────────────────────
+
+/** Decode standard base64; whitespace is ignored, anything else invalid throws */
+export function base64Decode(input: string): Uint8Array<ArrayBuffer> {
+  const clean = input.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(clean)) throw new Error('Invalid base64 data.');
+  const binary = atob(clean);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+export function base64Encode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Decode base64url (padding optional) to bytes */
+export function base64urlDecodeBytes(input: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*={0,2}$/.test(input)) throw new Error('Invalid base64url data.');
+  const base64 = input.replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/');
+  return base64Decode(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+/** Decode base64url to UTF-8 text */
+export function base64urlDecode(input: string): string {
+  return utf8Decode(base64urlDecodeBytes(input));
+}
+
+/** Unpadded base64url, as JOSE uses everywhere */
+export function base64urlEncode(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? utf8Encode(input) : input;
+  return base64Encode(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,249 @@
+// src/lib/jwt/jwe.ts
+// ─── JWE Compact Serialization ───────────────────────────────────────────────
+// Decode and decrypt `header.encryptedKey.iv.ciphertext.tag` tokens with
+// WebCrypto. Covers direct keys, AES key wrap and RSA-OAEP for the content
+// key, and AES-GCM or AES-CBC-HMAC for the content. A signed JWT nested
+// inside is handed back so the JWS side can decode and verify it.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { base64urlDecode, base64urlDecodeBytes, concatBytes, utf8Decode, utf8Encode } from './encoding';
+import { importDecryptionKey, symmetricKeyBytes } from './keys';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const JWE_KEY_ALGORITHMS = ['dir', 'A128KW', 'A192KW', 'A256KW', 'RSA-OAEP', 'RSA-OAEP-256'] as const;
+
+export const JWE_CONTENT_ENCRYPTIONS = [
+  'A128GCM', 'A192GCM', 'A256GCM',
+  'A128CBC-HS256', 'A192CBC-HS384', 'A256CBC-HS512',
+] as const;
+
+/** Three base64url segments — a compact JWS (the signature may be empty) */
+const COMPACT_JWS = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type JweKeyAlgorithm = (typeof JWE_KEY_ALGORITHMS)[number];
+export type JweContentEncryption = (typeof JWE_CONTENT_ENCRYPTIONS)[number];
+
+export interface JweHeader {
+  alg: string;
+  enc: string;
+  kid?: string;
+  cty?: string;
+  zip?: string;
+  crit?: string[];
+  [key: string]: unknown;
+}
+
+export interface DecodedJwe {
+  header: JweHeader;
+  /** The protected header segment exactly as it appears — the AAD */
+  protectedHeader: string;
+  encryptedKey: Uint8Array<ArrayBuffer>;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+  tag: Uint8Array<ArrayBuffer>;
+}
+
+export interface DecryptedJwe {
+  header: JweHeader;
+  plaintext: string;
+  /** The plaintext parsed as JSON, or the raw text when it isn't JSON */
+  payload: unknown;
+  /** The signed JWT inside, when the JWE wraps one */
+  nestedToken?: string;
+  /** Where the decryption key came from, for display */
+  keyLabel: string;
+}
+
+// ─── DECODING ────────────────────────────────────────────────────────────────
+
+export function isJweToken(token: string): boolean {
+  return token.trim().split('.').length === 5;
+}
+
+/** Split and decode a compact JWE; throws with a readable message when it is malformed */
+export function decodeJwe(token: string): DecodedJwe {
+  const parts = token.trim().split('.');
+  if (parts.length !== 5) throw new Error('Invalid JWE format: expected five dot-separated parts.');
+
+  let header: JweHeader;
+  try {
+    header = JSON.parse(base64urlDecode(parts[0]));
+  } catch {
+    throw new Error('The protected header is not base64url-encoded JSON.');
+  }
+  if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+    throw new Error('The protected header must be a JSON object.');
+  }
+  if (typeof header.alg !== 'string' || typeof header.enc !== 'string') {
+    throw new Error('A JWE header needs both "alg" and "enc".');
+  }
+
+  const segment = (index: number, name: string) => {
+    try {
+      return base64urlDecodeBytes(parts[index]);
+    } catch {
+      throw new Error(`The ${name} is not valid base64url.`);
+    }
+  };
+  return {
+    header,
+    protectedHeader: parts[0],
+    encryptedKey: segment(1, 'encrypted key'),
+    iv: segment(2, 'initialization vector'),
+    ciphertext: segment(3, 'ciphertext'),
+    tag: segment(4, 'authentication tag'),
+  };
+}
+
+function isKeyAlgorithm(value: string): value is JweKeyAlgorithm {
+  return (JWE_KEY_ALGORITHMS as readonly string[]).includes(value);
+}
+
+function isContentEncryption(value: string): value is JweContentEncryption {
+  return (JWE_CONTENT_ENCRYPTIONS as readonly string[]).includes(value);
+}
+
+/** Content key size in bytes; CBC-HMAC keys hold the MAC key and the AES key back to back */
+function contentKeyLength(enc: JweContentEncryption): number {
+  const bytes = Number(enc.slice(1, 4)) / 8;
+  return enc.endsWith('GCM') ? bytes : bytes * 2;
+}
+
+// ─── KEY MANAGEMENT ──────────────────────────────────────────────────────────
+
+async function unwrapContentKey(
+  { header, encryptedKey }: DecodedJwe,
+  alg: JweKeyAlgorithm,
+  enc: JweContentEncryption,
+  keyText: string,
+): Promise<{ cek: Uint8Array<ArrayBuffer>; keyLabel: string }> {
+  const kid = typeof header.kid === 'string' ? header.kid : undefined;
+  const length = contentKeyLength(enc);
+
+  if (alg === 'dir') {
+    if (encryptedKey.length > 0) throw new Error('With alg "dir" the encrypted key segment must be empty.');
+    return { cek: symmetricKeyBytes(enc, keyText, length, { kid }), keyLabel: 'direct key' };
+  }
+
+  if (alg === 'RSA-OAEP' || alg === 'RSA-OAEP-256') {
+    const { key, label } = await importDecryptionKey(alg, keyText, { kid });
+    let cek: Uint8Array<ArrayBuffer>;
+    try {
+      cek = new Uint8Array(await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, key, encryptedKey));
+    } catch (error) {
+      throw new Error('The content key could not be decrypted — this private key is not the recipient’s.', { cause: error });
+    }
+    if (cek.length !== length) throw new Error(`The decrypted content key is ${cek.length * 8} bits; ${enc} needs ${length * 8}.`);
+    return { cek, keyLabel: label };
+  }
+
+  // AES-KW: unwrap into an HMAC key, the one raw-exportable type that takes any length
+  const kekBytes = symmetricKeyBytes(alg, keyText, Number(alg.slice(1, 4)) / 8, { kid });
+  const kek = await crypto.subtle.importKey('raw', kekBytes, 'AES-KW', false, ['unwrapKey']);
+  try {
+    const unwrapped = await crypto.subtle.unwrapKey('raw', encryptedKey, kek, 'AES-KW', { name: 'HMAC', hash: 'SHA-256' }, true, ['sign']);
+    const cek = new Uint8Array(await crypto.subtle.exportKey('raw', unwrapped));
+    if (cek.length !== length) throw new Error(`The unwrapped content key is ${cek.length * 8} bits; ${enc} needs ${length * 8}.`);
+    return { cek, keyLabel: 'key encryption key' };
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('The unwrapped')) throw error;
+    throw new Error('The content key could not be unwrapped — wrong key encryption key?', { cause: error });
+  }
+}
+
+// ─── CONTENT DECRYPTION ──────────────────────────────────────────────────────
+
+const TAG_MISMATCH = 'The authentication tag does not match — wrong key, or the token was modified.';
+
+async function decryptGcm(jwe: DecodedJwe, cek: Uint8Array<ArrayBuffer>, aad: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  if (jwe.iv.length !== 12) throw new Error('AES-GCM needs a 96-bit initialization vector.');
+  if (jwe.tag.length !== 16) throw new Error('AES-GCM needs a 128-bit authentication tag.');
+  const key = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['decrypt']);
+  try {
+    const params = { name: 'AES-GCM', iv: jwe.iv, additionalData: aad, tagLength: 128 };
+    return new Uint8Array(await crypto.subtle.decrypt(params, key, concatBytes(jwe.ciphertext, jwe.tag)));
+  } catch (error) {
+    throw new Error(TAG_MISMATCH, { cause: error });
+  }
+}
+
+/** RFC 7518 §5.2: HMAC over AAD ‖ IV ‖ ciphertext ‖ AAD bit length, truncated to half */
+async function decryptCbcHmac(
+  jwe: DecodedJwe,
+  enc: JweContentEncryption,
+  cek: Uint8Array<ArrayBuffer>,
+  aad: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (jwe.iv.length !== 16) throw new Error('AES-CBC needs a 128-bit initialization vector.');
+  const half = cek.length / 2;
+  const macKey = await crypto.subtle.importKey('raw', cek.slice(0, half), { name: 'HMAC', hash: `SHA-${enc.slice(-3)}` }, false, ['sign']);
+  const aadBits = new Uint8Array(8);
+  new DataView(aadBits.buffer).setBigUint64(0, BigInt(aad.length * 8));
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, concatBytes(aad, jwe.iv, jwe.ciphertext, aadBits)));
+
+  let difference = jwe.tag.length ^ half;
+  for (let i = 0; i < half; i++) difference |= mac[i] ^ (jwe.tag[i] ?? 0);
+  if (difference !== 0) throw new Error(TAG_MISMATCH);
+
+  const key = await crypto.subtle.importKey('raw', cek.slice(half), 'AES-CBC', false, ['decrypt']);
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: jwe.iv }, key, jwe.ciphertext));
+  } catch (error) {
+    throw new Error('The ciphertext padding is invalid.', { cause: error });
+  }
+}
+
+/** `zip: "DEF"` payloads are raw DEFLATE (RFC 1951) */
+async function inflateRaw(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (error) {
+    throw new Error('The payload is marked zip "DEF" but does not inflate.', { cause: error });
+  }
+}
+
+// ─── DECRYPTION ──────────────────────────────────────────────────────────────
+
+/**
+ * Decrypt the token with the pasted key — a shared key (base64url, text or
+ * an oct JWK) for dir / AES-KW, or the recipient's RSA private key for
+ * RSA-OAEP. Throws with a readable message when it can't be decrypted.
+ */
+export async function decryptJwe(token: string, keyText: string): Promise<DecryptedJwe> {
+  const jwe = decodeJwe(token);
+  const { header } = jwe;
+  if (!isKeyAlgorithm(header.alg)) throw new Error(`Unsupported key management alg "${header.alg}".`);
+  if (!isContentEncryption(header.enc)) throw new Error(`Unsupported content encryption "${header.enc}".`);
+  if (header.crit !== undefined) {
+    const crit = Array.isArray(header.crit) ? header.crit : [];
+    throw new Error(`Unsupported critical header parameters: ${crit.join(', ') || '(malformed crit)'}.`);
+  }
+  if (header.zip !== undefined && header.zip !== 'DEF') throw new Error(`Unsupported compression zip "${String(header.zip)}".`);
+
+  const { cek, keyLabel } = await unwrapContentKey(jwe, header.alg, header.enc, keyText);
+  // The AAD is the ASCII of the protected header segment, not its decoded JSON
+  const aad = utf8Encode(jwe.protectedHeader);
+  let bytes = header.enc.endsWith('GCM') ? await decryptGcm(jwe, cek, aad) : await decryptCbcHmac(jwe, header.enc, cek, aad);
+  if (header.zip === 'DEF') bytes = await inflateRaw(bytes);
+
+  let plaintext: string;
+  try {
+    plaintext = utf8Decode(bytes);
+  } catch {
+    throw new Error('The decrypted payload is not UTF-8 text.');
+  }
+  let payload: unknown = plaintext;
+  try {
+    payload = JSON.parse(plaintext);
+  } catch {
+    // JWE plaintext may be anything; keep the text
+  }
+
+  // `cty: "JWT"` should mark a nested token, but plenty of issuers leave it out
+  const trimmed = plaintext.trim();
+  return { header, plaintext, payload, nestedToken: COMPACT_JWS.test(trimmed) ? trimmed : undefined, keyLabel };
+}
@@ -0,0 +1,133 @@
+// src/lib/jwt/jws.ts
+// ─── JWS Compact Serialization ───────────────────────────────────────────────
+// Decode, verify and sign `header.payload.signature` tokens with WebCrypto,
+// entirely in the browser. Keys come from `./keys`; the algorithm always
+// comes from the header, and the key must fit it.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { base64urlDecode, base64urlDecodeBytes, base64urlEncode, utf8Encode } from './encoding';
+import { algorithmSpec, importSigningKey, importVerifyKeys, isJwsAlgorithm, type JwsAlgorithm, type KeyOptions } from './keys';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export interface JwsHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  crit?: string[];
+  [key: string]: unknown;
+}
+
+export interface DecodedJws {
+  header: JwsHeader;
+  /** The payload parsed as JSON, or the raw text when it isn't JSON */
+  payload: unknown;
+  /** base64url signature as it appears in the token */
+  signature: string;
+  /** `header.payload` exactly as signed */
+  signingInput: string;
+}
+
+export interface VerifyResult {
+  valid: boolean;
+  alg: JwsAlgorithm;
+  /** The key that verified the signature, or the only key tried */
+  keyLabel: string;
+  kid?: string;
+}
+
+// ─── DECODING ────────────────────────────────────────────────────────────────
+
+/** Split and decode a compact JWS; throws with a readable message when it is malformed */
+export function decodeJws(token: string): DecodedJws {
+  const parts = token.trim().split('.');
+  if (parts.length === 5) throw new Error('This is an encrypted token (JWE), not a signed JWT.');
+  if (parts.length !== 3) throw new Error('Invalid JWT format: expected header.payload.signature.');
+
+  let header: JwsHeader;
+  try {
+    header = JSON.parse(base64urlDecode(parts[0]));
+  } catch {
+    throw new Error('The header is not base64url-encoded JSON.');
+  }
+  if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+    throw new Error('The header must be a JSON object.');
+  }
+
+  let payloadText: string;
+  try {
+    payloadText = base64urlDecode(parts[1]);
+  } catch {
+    throw new Error('The payload is not base64url-encoded UTF-8.');
+  }
+  let payload: unknown = payloadText;
+  try {
+    payload = JSON.parse(payloadText);
+  } catch {
+    // JWS payloads may be any bytes; keep the text
+  }
+
+  return { header, payload, signature: parts[2], signingInput: `${parts[0]}.${parts[1]}` };
+}
+
+/** The header's `alg`, checked to be one we can verify or sign with */
+function headerAlgorithm(header: JwsHeader): JwsAlgorithm {
+  const { alg } = header;
+  if (typeof alg === 'string' && alg.toLowerCase() === 'none') {
+    throw new Error('alg "none" means the token is unsigned — there is no signature to verify.');
+  }
+  if (!isJwsAlgorithm(alg)) throw new Error(`Unsupported alg "${String(alg)}".`);
+  // RFC 7515 §4.1.11: unknown critical extensions must be rejected
+  if (header.crit !== undefined) {
+    const crit = Array.isArray(header.crit) ? header.crit : [];
+    throw new Error(`Unsupported critical header parameters: ${crit.join(', ') || '(malformed crit)'}.`);
+  }
+  return alg;
+}
+
+// ─── VERIFICATION ────────────────────────────────────────────────────────────
+
+/**
+ * Verify the token's signature with the pasted key. Throws when it can't be
+ * checked at all (bad key, wrong key type, alg none); a wrong signature
+ * resolves to `valid: false`.
+ */
+export async function verifyJws(token: string, keyText: string, options: KeyOptions = {}): Promise<VerifyResult> {
+  const { header, signature, signingInput } = decodeJws(token);
+  const alg = headerAlgorithm(header);
+  const kid = typeof header.kid === 'string' ? header.kid : undefined;
+  const keys = await importVerifyKeys(alg, keyText, { ...options, kid });
+
+  const { signParams } = algorithmSpec(alg);
+  const signatureBytes = base64urlDecodeBytes(signature);
+  const data = utf8Encode(signingInput);
+  for (const candidate of keys) {
+    if (await crypto.subtle.verify(signParams, candidate.key, signatureBytes, data)) {
+      return { valid: true, alg, keyLabel: candidate.label, kid: candidate.kid };
+    }
+  }
+  return { valid: false, alg, keyLabel: keys.length === 1 ? keys[0].label : `${keys.length} candidate keys` };
+}
+
+// ─── SIGNING ─────────────────────────────────────────────────────────────────
+
+/**
+ * Sign `payload` (serialized as compact JSON unless it is already a string)
+ * with the algorithm named in `header.alg`. A JWK's `kid` is added to the
+ * header when the header has none.
+ */
+export async function signJws(
+  header: Record<string, unknown>,
+  payload: unknown,
+  keyText: string,
+  options: KeyOptions = {},
+): Promise<string> {
+  const alg = headerAlgorithm(header as JwsHeader);
+  const signingKey = await importSigningKey(alg, keyText, options);
+  const finalHeader = signingKey.kid && header.kid === undefined ? { ...header, kid: signingKey.kid } : header;
+
+  const encodedPayload = base64urlEncode(typeof payload === 'string' ? payload : JSON.stringify(payload));
+  const signingInput = `${base64urlEncode(JSON.stringify(finalHeader))}.${encodedPayload}`;
+  const signature = await crypto.subtle.sign(algorithmSpec(alg).signParams, signingKey.key, utf8Encode(signingInput));
+  return `${signingInput}.${base64urlEncode(new Uint8Array(signature))}`;
+}
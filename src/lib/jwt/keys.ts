@@ -0,0 +1,552 @@
+// src/lib/jwt/keys.ts
+// ─── JOSE Keys ───────────────────────────────────────────────────────────────
+// Turns whatever the user pasted — a shared secret, a PEM block (SPKI,
+// PKCS#1, PKCS#8, SEC1 or an X.509 certificate) or a JWK / JWKS — into
+// WebCrypto keys for one JWS algorithm, or for decrypting a JWE. The key
+// type must match the algorithm family, so an RSA public key can never be
+// used as an HMAC secret (the classic algorithm-confusion attack).
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { base64Decode, base64Encode, base64urlDecodeBytes, base64urlEncode, concatBytes, utf8Encode } from './encoding';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const JWS_ALGORITHMS = [
+  'HS256', 'HS384', 'HS512',
+  'RS256', 'RS384', 'RS512',
+  'PS256', 'PS384', 'PS512',
+  'ES256', 'ES384', 'ES512',
+  'EdDSA',
+] as const;
+
+/** DER-encoded OID contents, as hex */
+const OIDS = {
+  rsaEncryption: '2a864886f70d010101',
+  rsassaPss: '2a864886f70d01010a',
+  ecPublicKey: '2a8648ce3d0201',
+  ed25519: '2b6570',
+  ed448: '2b6571',
+  'P-256': '2a8648ce3d030107',
+  'P-384': '2b81040022',
+  'P-521': '2b81040023',
+} as const;
+
+const DER = { INTEGER: 0x02, BIT_STRING: 0x03, OCTET_STRING: 0x04, NULL: 0x05, OID: 0x06, SEQUENCE: 0x30 } as const;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type JwsAlgorithm = (typeof JWS_ALGORITHMS)[number];
+
+/** JWK `kty` values */
+export type KeyFamily = 'oct' | 'RSA' | 'EC' | 'OKP';
+
+/** The key an algorithm needs, and how WebCrypto imports it */
+interface KeySpec {
+  family: KeyFamily;
+  /** EC / OKP curve the key must be on */
+  curve?: string;
+  importParams: AlgorithmIdentifier | RsaHashedImportParams | EcKeyImportParams | HmacImportParams;
+}
+
+interface AlgorithmSpec extends KeySpec {
+  signParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+export interface KeyOptions {
+  /** How a shared secret is written: plain text (default) or base64url */
+  secretEncoding?: 'utf8' | 'base64url';
+  /** `kid` from the token header, used to pick a key out of a JWKS */
+  kid?: string;
+}
+
+export interface ImportedKey {
+  key: CryptoKey;
+  /** Where the key came from, for display ("JWKS key kid=abc", "PEM public key", …) */
+  label: string;
+  kid?: string;
+}
+
+export interface GeneratedKey {
+  /** Secret text or PKCS#8 PEM — what the signer needs */
+  signingKey: string;
+  /** SPKI PEM for asymmetric algorithms */
+  publicKey?: string;
+}
+
+interface DerElement {
+  tag: number;
+  /** Offset of the tag byte */
+  offset: number;
+  /** Offset of the first content byte */
+  start: number;
+  end: number;
+}
+
+interface PemBlock {
+  label: string;
+  der: Uint8Array<ArrayBuffer>;
+}
+
+// ─── ALGORITHMS ──────────────────────────────────────────────────────────────
+
+export function isJwsAlgorithm(value: unknown): value is JwsAlgorithm {
+  return (JWS_ALGORITHMS as readonly unknown[]).includes(value);
+}
+
+export function algorithmSpec(alg: JwsAlgorithm): AlgorithmSpec {
+  if (alg === 'EdDSA') {
+    return { family: 'OKP', curve: 'Ed25519', importParams: { name: 'Ed25519' }, signParams: { name: 'Ed25519' } };
+  }
+  const bits = Number(alg.slice(2));
+  const hash = `SHA-${bits}`;
+  switch (alg.slice(0, 2)) {
+    case 'HS':
+      return { family: 'oct', importParams: { name: 'HMAC', hash }, signParams: { name: 'HMAC' } };
+    case 'RS':
+      return { family: 'RSA', importParams: { name: 'RSASSA-PKCS1-v1_5', hash }, signParams: { name: 'RSASSA-PKCS1-v1_5' } };
+    case 'PS':
+      // RFC 7518 §3.5: the salt is as long as the hash output
+      return { family: 'RSA', importParams: { name: 'RSA-PSS', hash }, signParams: { name: 'RSA-PSS', saltLength: bits / 8 } };
+    default: {
+      const curve = bits === 512 ? 'P-521' : `P-${bits}`;
+      return { family: 'EC', curve, importParams: { name: 'ECDSA', namedCurve: curve }, signParams: { name: 'ECDSA', hash } };
+    }
+  }
+}
+
+function describeFamily(family: KeyFamily, curve?: string): string {
+  if (family === 'oct') return 'a shared secret';
+  if (family === 'OKP') return `an ${curve ?? 'OKP'} key`;
+  return `an ${family}${curve ? ` ${curve}` : ''} key`;
+}
+
+// ─── DER / PEM ───────────────────────────────────────────────────────────────
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function readElement(bytes: Uint8Array, offset: number): DerElement {
+  if (offset + 2 > bytes.length) throw new Error('Truncated DER data.');
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new Error('Unsupported DER length.');
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[start + i];
+    start += count;
+  }
+  const end = start + length;
+  if (end > bytes.length) throw new Error('Truncated DER data.');
+  return { tag, offset, start, end };
+}
+
+function childElements(bytes: Uint8Array, parent: DerElement): DerElement[] {
+  const children: DerElement[] = [];
+  for (let offset = parent.start; offset < parent.end; ) {
+    const child = readElement(bytes, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+function encodeElement(tag: number, content: Uint8Array): Uint8Array<ArrayBuffer> {
+  const length = content.length;
+  let header: number[];
+  if (length < 0x80) header = [tag, length];
+  else {
+    const lengthBytes: number[] = [];
+    for (let n = length; n > 0; n = Math.floor(n / 256)) lengthBytes.unshift(n % 256);
+    header = [tag, 0x80 | lengthBytes.length, ...lengthBytes];
+  }
+  return concatBytes(Uint8Array.from(header), content);
+}
+
+function encodeOid(hex: string): Uint8Array<ArrayBuffer> {
+  return encodeElement(DER.OID, Uint8Array.from(hex.match(/../g) ?? [], (h) => parseInt(h, 16)));
+}
+
+function algorithmIdentifier(oid: string, params: Uint8Array): Uint8Array<ArrayBuffer> {
+  return encodeElement(DER.SEQUENCE, concatBytes(encodeOid(oid), params));
+}
+
+/** Every `-----BEGIN …-----` block in the text */
+function parsePem(text: string): PemBlock[] {
+  const blocks: PemBlock[] = [];
+  const pattern = /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    // Skip RFC 1421 headers such as Proc-Type / DEK-Info
+    const body = match[2].split(/\r?\n/).filter((line) => !line.includes(':')).join('');
+    blocks.push({ label: match[1], der: base64Decode(body) });
+  }
+  return blocks;
+}
+
+function toPem(label: string, der: Uint8Array): string {
+  const lines = base64Encode(der).match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
+
+/** Key family and curve named by an SPKI / PKCS#8 AlgorithmIdentifier */
+function describeAlgorithmIdentifier(der: Uint8Array, element: DerElement): { family: KeyFamily | null; curve?: string } {
+  const [oidElement, params] = childElements(der, element);
+  const oid = toHex(der.subarray(oidElement.start, oidElement.end));
+  if (oid === OIDS.rsaEncryption || oid === OIDS.rsassaPss) return { family: 'RSA' };
+  if (oid === OIDS.ed25519) return { family: 'OKP', curve: 'Ed25519' };
+  if (oid === OIDS.ed448) return { family: 'OKP', curve: 'Ed448' };
+  if (oid === OIDS.ecPublicKey) {
+    const curveOid = params?.tag === DER.OID ? toHex(der.subarray(params.start, params.end)) : '';
+    const curve = (['P-256', 'P-384', 'P-521'] as const).find((name) => OIDS[name] === curveOid);
+    return { family: 'EC', curve: curve ?? 'an unsupported curve' };
+  }
+  return { family: null };
+}
+
+/** SubjectPublicKeyInfo DER from a PUBLIC KEY, RSA PUBLIC KEY or CERTIFICATE block */
+function spkiFromPem(block: PemBlock): Uint8Array<ArrayBuffer> {
+  const { der } = block;
+  switch (block.label) {
+    case 'PUBLIC KEY':
+      return der;
+    case 'RSA PUBLIC KEY':
+      // PKCS#1 → SPKI: wrap in an rsaEncryption AlgorithmIdentifier and a BIT STRING
+      return encodeElement(
+        DER.SEQUENCE,
+        concatBytes(
+          algorithmIdentifier(OIDS.rsaEncryption, Uint8Array.of(DER.NULL, 0)),
+          encodeElement(DER.BIT_STRING, concatBytes(Uint8Array.of(0), der)),
+        ),
+      );
+    case 'CERTIFICATE': {
+      // Certificate → tbsCertificate → [version], serial, signature, issuer, validity, subject, SPKI
+      const tbs = childElements(der, childElements(der, readElement(der, 0))[0]);
+      const spki = tbs[tbs[0].tag === 0xa0 ? 6 : 5];
+      if (!spki) throw new Error('Could not find the public key in the certificate.');
+      return der.slice(spki.offset, spki.end);
+    }
+    default:
+      throw new Error(`A "${block.label}" PEM block is not a public key.`);
+  }
+}
+
+/** PKCS#8 DER from a PRIVATE KEY, RSA PRIVATE KEY or EC PRIVATE KEY block */
+function pkcs8FromPem(block: PemBlock, curve?: string): Uint8Array<ArrayBuffer> {
+  const { der } = block;
+  const wrap = (algorithm: Uint8Array) =>
+    encodeElement(
+      DER.SEQUENCE,
+      concatBytes(Uint8Array.of(DER.INTEGER, 1, 0), algorithm, encodeElement(DER.OCTET_STRING, der)),
+    );
+  switch (block.label) {
+    case 'PRIVATE KEY':
+      return der;
+    case 'RSA PRIVATE KEY':
+      return wrap(algorithmIdentifier(OIDS.rsaEncryption, Uint8Array.of(DER.NULL, 0)));
+    case 'EC PRIVATE KEY': {
+      // SEC1 names its curve in an optional [0] field; fall back to the algorithm's curve
+      const fields = childElements(der, readElement(der, 0));
+      const params = fields.find((field) => field.tag === 0xa0);
+      const oid = params ? childElements(der, params)[0] : undefined;
+      const curveOid = oid ? toHex(der.subarray(oid.start, oid.end)) : OIDS[curve as 'P-256'];
+      if (!curveOid) throw new Error('The EC private key does not name its curve.');
+      return wrap(algorithmIdentifier(OIDS.ecPublicKey, encodeOid(curveOid)));
+    }
+    case 'ENCRYPTED PRIVATE KEY':
+      throw new Error('Encrypted private keys are not supported — decrypt it first (openssl pkcs8 -in key.pem -nocrypt).');
+    default:
+      throw new Error(`A "${block.label}" PEM block is not a private key.`);
+  }
+}
+
+function isPrivatePem(label: string): boolean {
+  return label.endsWith('PRIVATE KEY');
+}
+
+/** Check the DER key's family and curve against the algorithm before WebCrypto sees it */
+function assertKeyMatches(alg: string, spec: KeySpec, der: Uint8Array, isPrivate: boolean): void {
+  const top = childElements(der, readElement(der, 0));
+  const identifier = isPrivate ? top[1] : top[0];
+  if (!identifier || identifier.tag !== DER.SEQUENCE) throw new Error('The PEM key is malformed.');
+  const { family, curve } = describeAlgorithmIdentifier(der, identifier);
+  if (family === null) throw new Error(`The PEM key uses an algorithm that ${alg} can't use.`);
+  if (family !== spec.family || (spec.curve && curve !== spec.curve)) {
+    throw new Error(`${alg} needs ${describeFamily(spec.family, spec.curve)}, but this is ${describeFamily(family, curve)}.`);
+  }
+}
+
+// ─── JWK ─────────────────────────────────────────────────────────────────────
+
+const PUBLIC_JWK_FIELDS: Record<KeyFamily, string[]> = {
+  oct: ['kty', 'k'],
+  RSA: ['kty', 'n', 'e'],
+  EC: ['kty', 'crv', 'x', 'y'],
+  OKP: ['kty', 'crv', 'x'],
+};
+
+const PRIVATE_JWK_FIELDS: Record<KeyFamily, string[]> = {
+  oct: ['kty', 'k'],
+  RSA: ['kty', 'n', 'e', 'd', 'p', 'q', 'dp', 'dq', 'qi'],
+  EC: ['kty', 'crv', 'x', 'y', 'd'],
+  OKP: ['kty', 'crv', 'x', 'd'],
+};
+
+/**
+ * Keep only the key material. `alg`, `use` and `key_ops` are checked here
+ * instead, so WebCrypto doesn't reject a key over metadata alone.
+ */
+function pickFields(jwk: JsonWebKey, fields: string[]): JsonWebKey {
+  const source = jwk as Record<string, unknown>;
+  return Object.fromEntries(fields.filter((f) => source[f] !== undefined).map((f) => [f, source[f]])) as JsonWebKey;
+}
+
+function jwkMismatch(alg: string, spec: KeySpec, jwk: JsonWebKey, use: 'sig' | 'enc' = 'sig'): string | null {
+  if (jwk.kty !== spec.family || (spec.curve && jwk.crv !== spec.curve)) {
+    const family = (['oct', 'RSA', 'EC', 'OKP'] as const).find((f) => f === jwk.kty);
+    return `${alg} needs ${describeFamily(spec.family, spec.curve)}, but the JWK is ${family ? describeFamily(family, jwk.crv) : `kty "${String(jwk.kty)}"`}.`;
+  }
+  // RFC 9864 names EdDSA over Ed25519 "Ed25519"; newer exporters write that
+  if (jwk.alg && jwk.alg !== alg && !(alg === 'EdDSA' && jwk.alg === 'Ed25519')) {
+    return `The JWK is restricted to ${jwk.alg}.`;
+  }
+  if (jwk.use && jwk.use !== use) return `The JWK is for use "${jwk.use}", not ${use === 'sig' ? 'signatures' : 'encryption'}.`;
+  return null;
+}
+
+function jwkLabel(jwk: JsonWebKey & { kid?: string }, source: string): string {
+  return jwk.kid ? `${source} kid="${jwk.kid}"` : source;
+}
+
+/** JSON text holding a JWK or a JWKS, or null when the text isn't one */
+function parseJwkText(text: string): (JsonWebKey & { kid?: string })[] | null {
+  if (!text.startsWith('{')) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The key looks like JSON but does not parse — paste a JWK or a JWKS.');
+  }
+  const set = parsed as { keys?: unknown; kty?: unknown };
+  if (Array.isArray(set.keys)) return set.keys.filter((k): k is JsonWebKey => typeof k === 'object' && k !== null);
+  if (typeof set.kty === 'string') return [parsed as JsonWebKey];
+  throw new Error('JSON keys must be a JWK (with "kty") or a JWKS (with "keys").');
+}
+
+// ─── IMPORT ──────────────────────────────────────────────────────────────────
+
+async function importOrExplain(
+  format: 'raw' | 'spki' | 'pkcs8' | 'jwk',
+  data: BufferSource | JsonWebKey,
+  alg: string,
+  { importParams }: KeySpec,
+  usage: KeyUsage,
+  extractable = false,
+): Promise<CryptoKey> {
+  try {
+    return format === 'jwk'
+      ? await crypto.subtle.importKey('jwk', data as JsonWebKey, importParams, extractable, [usage])
+      : await crypto.subtle.importKey(format, data as BufferSource, importParams, extractable, [usage]);
+  } catch (error) {
+    if (alg === 'EdDSA' && error instanceof Error && error.name === 'NotSupportedError') {
+      throw new Error('This browser does not support Ed25519 in WebCrypto yet.', { cause: error });
+    }
+    throw new Error(`The key could not be imported for ${alg}: ${error instanceof Error ? error.message : String(error)}`, {
+      cause: error,
+    });
+  }
+}
+
+function secretBytes(text: string, options: KeyOptions): Uint8Array<ArrayBuffer> {
+  if (!text) throw new Error('Enter the shared secret.');
+  if (options.secretEncoding !== 'base64url') return utf8Encode(text);
+  try {
+    return base64urlDecodeBytes(text);
+  } catch {
+    throw new Error('The secret is not valid base64url.');
+  }
+}
+
+/** Public half of a private key — WebCrypto only gets there through a JWK export */
+async function publicFromPrivate(privateKey: CryptoKey, alg: JwsAlgorithm): Promise<CryptoKey> {
+  const spec = algorithmSpec(alg);
+  const jwk = await crypto.subtle.exportKey('jwk', privateKey);
+  return importOrExplain('jwk', pickFields(jwk, PUBLIC_JWK_FIELDS[spec.family]), alg, spec, 'verify');
+}
+
+/**
+ * Every key in `keyText` that can verify `alg`. A JWKS is narrowed by the
+ * token's `kid` when it has one; private keys are reduced to their public half.
+ */
+export async function importVerifyKeys(alg: JwsAlgorithm, keyText: string, options: KeyOptions = {}): Promise<ImportedKey[]> {
+  const text = keyText.trim();
+  const spec = algorithmSpec(alg);
+
+  const jwks = parseJwkText(text);
+  if (jwks) {
+    let candidates = jwks;
+    if (options.kid !== undefined && jwks.length > 1) {
+      candidates = jwks.filter((jwk) => jwk.kid === options.kid);
+      if (candidates.length === 0) throw new Error(`No key with kid "${options.kid}" in the JWKS.`);
+    }
+    const usable = candidates.filter((jwk) => jwkMismatch(alg, spec, jwk) === null);
+    if (usable.length === 0) {
+      throw new Error(candidates.length === 1 ? jwkMismatch(alg, spec, candidates[0])! : `No key in the JWKS can verify ${alg}.`);
+    }
+    return Promise.all(
+      usable.map(async (jwk) => ({
+        key: await importOrExplain('jwk', pickFields(jwk, PUBLIC_JWK_FIELDS[spec.family]), alg, spec, 'verify'),
+        label: jwkLabel(jwk, jwks.length > 1 ? 'JWKS key' : 'JWK'),
+        kid: jwk.kid,
+      })),
+    );
+  }
+
+  const blocks = parsePem(text);
+  if (spec.family === 'oct') {
+    if (blocks.length > 0 || text.includes('-----BEGIN')) {
+      throw new Error(`${alg} is verified with a shared secret, not a PEM key — refusing to use a public key as an HMAC secret.`);
+    }
+    return [{ key: await importOrExplain('raw', secretBytes(text, options), alg, spec, 'verify'), label: 'shared secret' }];
+  }
+
+  const block = blocks.find((b) => b.label !== 'EC PARAMETERS');
+  if (!block) throw new Error(`${alg} needs a PEM public key, certificate or JWK.`);
+  if (isPrivatePem(block.label)) {
+    const der = pkcs8FromPem(block, spec.curve);
+    assertKeyMatches(alg, spec, der, true);
+    const privateKey = await importOrExplain('pkcs8', der, alg, spec, 'sign', true);
+    return [{ key: await publicFromPrivate(privateKey, alg), label: 'public half of the PEM private key' }];
+  }
+  const der = spkiFromPem(block);
+  assertKeyMatches(alg, spec, der, false);
+  return [{ key: await importOrExplain('spki', der, alg, spec, 'verify'), label: block.label === 'CERTIFICATE' ? 'certificate public key' : 'PEM public key' }];
+}
+
+/** The key that signs `alg`: a secret, a PEM private key or a private JWK (the first usable one of a JWKS) */
+export async function importSigningKey(alg: JwsAlgorithm, keyText: string, options: KeyOptions = {}): Promise<ImportedKey> {
+  const text = keyText.trim();
+  const spec = algorithmSpec(alg);
+
+  const jwks = parseJwkText(text);
+  if (jwks) {
+    const usable = jwks.filter((jwk) => jwkMismatch(alg, spec, jwk) === null && (spec.family === 'oct' ? jwk.k : jwk.d));
+    if (usable.length === 0) {
+      const mismatch = jwks.length === 1 ? jwkMismatch(alg, spec, jwks[0]) : null;
+      throw new Error(mismatch ?? `Signing with ${alg} needs a private JWK (with "${spec.family === 'oct' ? 'k' : 'd'}").`);
+    }
+    const jwk = usable[0];
+    return {
+      key: await importOrExplain('jwk', pickFields(jwk, PRIVATE_JWK_FIELDS[spec.family]), alg, spec, 'sign'),
+      label: jwkLabel(jwk, 'JWK'),
+      kid: jwk.kid,
+    };
+  }
+
+  const blocks = parsePem(text);
+  if (spec.family === 'oct') {
+    if (blocks.length > 0) throw new Error(`${alg} signs with a shared secret, not a PEM key.`);
+    return { key: await importOrExplain('raw', secretBytes(text, options), alg, spec, 'sign'), label: 'shared secret' };
+  }
+
+  const block = blocks.find((b) => isPrivatePem(b.label));
+  if (!block) throw new Error(`Signing with ${alg} needs a PEM private key or a private JWK.`);
+  const der = pkcs8FromPem(block, spec.curve);
+  assertKeyMatches(alg, spec, der, true);
+  return { key: await importOrExplain('pkcs8', der, alg, spec, 'sign'), label: 'PEM private key' };
+}
+
+// ─── GENERATION ──────────────────────────────────────────────────────────────
+
+/** A fresh key for `alg`: a random secret for HMAC, otherwise a PEM key pair */
+export async function generateSigningKey(alg: JwsAlgorithm): Promise<GeneratedKey> {
+  const spec = algorithmSpec(alg);
+  if (spec.family === 'oct') {
+    // As many random bytes as the hash output, the RFC 7518 minimum, written as text
+    return { signingKey: base64urlEncode(crypto.getRandomValues(new Uint8Array(Number(alg.slice(2)) / 8))) };
+  }
+  const params =
+    spec.family === 'RSA'
+      ? { ...(spec.importParams as RsaHashedImportParams), modulusLength: 2048, publicExponent: Uint8Array.of(1, 0, 1) }
+      : spec.importParams;
+  const pair = (await crypto.subtle.generateKey(params, true, ['sign', 'verify'])) as CryptoKeyPair;
+  const [pkcs8, spki] = await Promise.all([
+    crypto.subtle.exportKey('pkcs8', pair.privateKey),
+    crypto.subtle.exportKey('spki', pair.publicKey),
+  ]);
+  return { signingKey: toPem('PRIVATE KEY', new Uint8Array(pkcs8)), publicKey: toPem('PUBLIC KEY', new Uint8Array(spki)) };
+}
+
+// ─── ENCRYPTION KEYS ─────────────────────────────────────────────────────────
+
+/**
+ * Raw bytes of a JWE symmetric key — the content key for `dir`, the key
+ * encryption key for AES-KW. Accepts an oct JWK or a bare key, read as
+ * base64url or text, whichever gives exactly `length` bytes.
+ */
+export function symmetricKeyBytes(alg: string, keyText: string, length: number, options: KeyOptions = {}): Uint8Array<ArrayBuffer> {
+  const text = keyText.trim();
+  if (!text) throw new Error(`Enter the ${length * 8}-bit key for ${alg}.`);
+  const spec: KeySpec = { family: 'oct', importParams: { name: 'AES-KW' } };
+
+  const jwks = parseJwkText(text);
+  if (jwks) {
+    const candidates = options.kid !== undefined && jwks.length > 1 ? jwks.filter((jwk) => jwk.kid === options.kid) : jwks;
+    const jwk = candidates.find((k) => jwkMismatch(alg, spec, k, 'enc') === null && k.k);
+    if (!jwk) {
+      const mismatch = candidates.length === 1 ? jwkMismatch(alg, spec, candidates[0], 'enc') : null;
+      throw new Error(mismatch ?? `${alg} needs a symmetric JWK (kty "oct" with "k").`);
+    }
+    const bytes = base64urlDecodeBytes(jwk.k!);
+    if (bytes.length !== length) throw new Error(`${alg} needs a ${length * 8}-bit key, but the JWK holds ${bytes.length * 8} bits.`);
+    return bytes;
+  }
+  if (text.includes('-----BEGIN')) throw new Error(`${alg} uses a shared symmetric key, not a PEM key.`);
+
+  let decoded: Uint8Array<ArrayBuffer> | null = null;
+  try {
+    decoded = base64urlDecodeBytes(text);
+  } catch {
+    // not base64url; try it as text
+  }
+  if (decoded?.length === length) return decoded;
+  const raw = utf8Encode(text);
+  if (raw.length === length) return raw;
+  throw new Error(`${alg} needs a ${length * 8}-bit key (${length} bytes), as base64url or text.`);
+}
+
+/** The RSA private key that unwraps a JWE content key: a PEM private key or a private JWK / JWKS */
+export async function importDecryptionKey(
+  alg: 'RSA-OAEP' | 'RSA-OAEP-256',
+  keyText: string,
+  options: KeyOptions = {},
+): Promise<ImportedKey> {
+  const text = keyText.trim();
+  const spec: KeySpec = { family: 'RSA', importParams: { name: 'RSA-OAEP', hash: alg === 'RSA-OAEP' ? 'SHA-1' : 'SHA-256' } };
+
+  const jwks = parseJwkText(text);
+  if (jwks) {
+    let candidates = jwks;
+    if (options.kid !== undefined && jwks.length > 1) {
+      candidates = jwks.filter((jwk) => jwk.kid === options.kid);
+      if (candidates.length === 0) throw new Error(`No key with kid "${options.kid}" in the JWKS.`);
+    }
+    const jwk = candidates.find((k) => jwkMismatch(alg, spec, k, 'enc') === null && k.d);
+    if (!jwk) {
+      const mismatch = candidates.length === 1 ? jwkMismatch(alg, spec, candidates[0], 'enc') : null;
+      throw new Error(mismatch ?? `Decrypting ${alg} needs a private RSA JWK (with "d").`);
+    }
+    return {
+      key: await importOrExplain('jwk', pickFields(jwk, PRIVATE_JWK_FIELDS.RSA), alg, spec, 'decrypt'),
+      label: jwkLabel(jwk, jwks.length > 1 ? 'JWKS key' : 'JWK'),
+      kid: jwk.kid,
+    };
+  }
+
+  const block = parsePem(text).find((b) => isPrivatePem(b.label));
+  if (!block) throw new Error(`Decrypting ${alg} needs the recipient's PEM private key or private JWK.`);
+  const der = pkcs8FromPem(block);
+  assertKeyMatches(alg, spec, der, true);
+  return { key: await importOrExplain('pkcs8', der, alg, spec, 'decrypt'), label: 'PEM private key' };
+}
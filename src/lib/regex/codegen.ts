@@ -0,0 +1,275 @@
+// src/lib/regex/codegen.ts
+// ─── Regex → Code ────────────────────────────────────────────────────────────
+// Ready-to-paste snippets that compile the pattern, iterate the matches and
+// run the replacement in JavaScript, Python, Go, Rust and Java. The pattern
+// goes into each language's safest literal — a regex literal, a raw string
+// with the right quote or hash count, or an escaped string — and the
+// replacement is re-emitted in that language's template syntax.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { unsupportedConstructs } from './constructs';
+import type { RegexFlavor } from './flavors';
+import type { ReplacementPart } from './replace';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const CODE_LANGUAGES = [
+  // Rust's regex crate is RE2-style, so Go's construct support applies
+  { id: 'javascript', label: 'JavaScript', flavor: 'javascript' },
+  { id: 'python', label: 'Python', flavor: 'python' },
+  { id: 'go', label: 'Go', flavor: 'go' },
+  { id: 'rust', label: 'Rust', flavor: 'go' },
+  { id: 'java', label: 'Java', flavor: 'java' },
+] as const satisfies readonly { id: string; label: string; flavor: RegexFlavor }[];
+
+const PYTHON_FLAGS: Record<string, string> = { i: 're.IGNORECASE', m: 're.MULTILINE', s: 're.DOTALL', x: 're.VERBOSE', a: 're.ASCII' };
+const JAVA_FLAGS: Record<string, string> = {
+  i: 'Pattern.CASE_INSENSITIVE', m: 'Pattern.MULTILINE', s: 'Pattern.DOTALL', x: 'Pattern.COMMENTS', U: 'Pattern.UNICODE_CHARACTER_CLASS',
+};
+/** Flags that go inline as `(?…)` */
+const INLINE_FLAGS: Record<'go' | 'rust', string> = { go: 'imsU', rust: 'imsxU' };
+const JS_FLAGS = 'dimsuvy';
+const RUST_ESCAPES: Record<string, string> = { '\\': '\\\\', '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type CodeLanguage = (typeof CODE_LANGUAGES)[number]['id'];
+
+export interface CodeSnippetInput {
+  pattern: string;
+  /** Flags as typed for the selected flavor */
+  flags: string;
+  text: string;
+  /** The parsed replacement, or null for no replace step */
+  replacement: ReplacementPart[] | null;
+}
+
+export interface CodeSnippet {
+  code: string;
+  /** Things that won't carry over to this language */
+  warnings: string[];
+}
+
+// ─── LITERALS ────────────────────────────────────────────────────────────────
+
+/** A double-quoted string valid in JavaScript, Python, Go and Java */
+function quoted(value: string): string {
+  return JSON.stringify(value);
+}
+
+/** `/pattern/flags`, escaping bare slashes and line terminators */
+function jsRegexLiteral(pattern: string, flags: string): string {
+  let body = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      const next = pattern[++i];
+      body += next === '\n' ? '\\n' : next === '\r' ? '\\r' : `\\${next}`;
+    } else if (char === '/') body += '\\/';
+    else if (char === '\n') body += '\\n';
+    else if (char === '\r') body += '\\r';
+    else if (char === '\u2028' || char === '\u2029') body += `\\u${char.charCodeAt(0).toString(16)}`;
+    else body += char;
+  }
+  return `/${body || '(?:)'}/${flags}`;
+}
+
+/** A raw string when one can hold the pattern as-is, otherwise an escaped one */
+function pythonString(value: string): string {
+  const trailingBackslashes = /\\*$/.exec(value)![0].length;
+  if (!/[\n\r]/.test(value) && trailingBackslashes % 2 === 0) {
+    if (!value.includes('"')) return `r"${value}"`;
+    if (!value.includes("'")) return `r'${value}'`;
+  }
+  return quoted(value);
+}
+
+function goString(value: string): string {
+  return value.includes('`') || value.includes('\r') ? quoted(value) : `\`${value}\``;
+}
+
+/** `r"…"` with as many `#` as it takes to not end early */
+function rustRawString(value: string): string {
+  let hashes = '';
+  while (value.includes(`"${hashes}`)) hashes += '#';
+  return `r${hashes}"${value}"${hashes}`;
+}
+
+/** A raw string for single-line text, otherwise an escaped one */
+function rustString(value: string): string {
+  if (!/[\n\r]/.test(value)) return rustRawString(value);
+  const escaped = [...value].map((char) => {
+    const code = char.codePointAt(0)!;
+    return RUST_ESCAPES[char] ?? (code < 0x20 || code === 0x7f ? `\\u{${code.toString(16)}}` : char);
+  });
+  return `"${escaped.join('')}"`;
+}
+
+// ─── REPLACEMENTS ────────────────────────────────────────────────────────────
+
+/** Re-emit the replacement in the language's template syntax, or null when it can't be */
+function formatReplacement(parts: ReplacementPart[], language: CodeLanguage): string | null {
+  let out = '';
+  for (const [i, part] of parts.entries()) {
+    const next = parts[i + 1];
+    const digitFollows = next?.kind === 'text' && /^\d/.test(next.text);
+    switch (part.kind) {
+      case 'text':
+        if (language === 'python') out += part.text.replace(/\\/g, '\\\\');
+        else if (language === 'java') out += part.text.replace(/[\\$]/g, '\\$&');
+        else out += part.text.replace(/\$/g, '$$$$');
+        break;
+      case 'before':
+      case 'after':
+        if (language !== 'javascript') return null;
+        out += part.kind === 'before' ? '$`' : "$'";
+        break;
+      case 'group': {
+        const { group } = part;
+        if (language === 'javascript') {
+          out += group === 0 ? '$&' : typeof group === 'number' ? (group < 10 && digitFollows ? `$0${group}` : `$${group}`) : `$<${group}>`;
+        } else if (language === 'python') {
+          out += `\\g<${group}>`;
+        } else if (language === 'java') {
+          out += typeof group === 'number' ? `$${group}` : `\${${group}}`;
+          // Java reads further digits greedily; escape the first literal one
+          if (typeof group === 'number' && digitFollows) out += '\\';
+        } else {
+          out += `\${${group}}`;
+        }
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+// ─── SNIPPETS ────────────────────────────────────────────────────────────────
+
+function indent(lines: string[], depth: number): string {
+  return lines.map((line) => (line ? '    '.repeat(depth) + line : line)).join('\n');
+}
+
+/** Build the snippet for `language`, with warnings for anything that won't carry over */
+export function generateCode(language: CodeLanguage, { pattern, flags, text, replacement }: CodeSnippetInput): CodeSnippet {
+  const info = CODE_LANGUAGES.find((l) => l.id === language)!;
+  const warnings = unsupportedConstructs(pattern, info.flavor, flags).map((u) => `${info.label} does not support ${u.label}; found ${u.text}`);
+  const flagSet = [...new Set(flags)].filter((flag) => flag !== 'g');
+  const accepted =
+    language === 'javascript' ? JS_FLAGS
+      : language === 'python' ? Object.keys(PYTHON_FLAGS).join('')
+        : language === 'java' ? Object.keys(JAVA_FLAGS).join('')
+          : INLINE_FLAGS[language];
+  const dropped = flagSet.filter((flag) => !accepted.includes(flag));
+  if (dropped.length > 0) warnings.push(`${info.label} has no equivalent for the ${dropped.join('')} flag${dropped.length > 1 ? 's' : ''}; left out.`);
+  const kept = flagSet.filter((flag) => accepted.includes(flag));
+
+  const template = replacement && formatReplacement(replacement, language);
+  if (replacement && template === null) warnings.push(`${info.label} replacements can't refer to the text before or after the match; the replace step is left out.`);
+  const inlineFlags = kept.length > 0 ? `(?${kept.join('')})` : '';
+
+  switch (language) {
+    case 'javascript': {
+      const lines = [
+        `const regex = ${jsRegexLiteral(pattern, ['g', ...kept].join(''))};`,
+        `const text = ${quoted(text)};`,
+        '',
+        'for (const match of text.matchAll(regex)) {',
+        '  console.log(match.index, match[0], match.groups);',
+        '}',
+      ];
+      if (typeof template === 'string') {
+        lines.push('', `const replaced = text.replace(regex, ${quoted(template)});`, 'console.log(replaced);');
+      }
+      return { code: lines.join('\n'), warnings };
+    }
+
+    case 'python': {
+      const flagArg = kept.length > 0 ? `, ${kept.map((flag) => PYTHON_FLAGS[flag]).join(' | ')}` : '';
+      const lines = [
+        'import re',
+        '',
+        `pattern = re.compile(${pythonString(pattern)}${flagArg})`,
+        `text = ${quoted(text)}`,
+        '',
+        'for match in pattern.finditer(text):',
+        '    print(match.start(), match.group(0), match.groupdict())',
+      ];
+      if (typeof template === 'string') {
+        lines.push('', `replaced = pattern.sub(${pythonString(template)}, text)`, 'print(replaced)');
+      }
+      return { code: lines.join('\n'), warnings };
+    }
+
+    case 'go': {
+      const body = [
+        `re := regexp.MustCompile(${goString(inlineFlags + pattern)})`,
+        `text := ${quoted(text)}`,
+        '',
+        '// Offsets are byte positions in the UTF-8 string',
+        'for _, m := range re.FindAllStringSubmatchIndex(text, -1) {',
+        '\tfmt.Println(m[0], text[m[0]:m[1]])',
+        '}',
+      ];
+      if (typeof template === 'string') {
+        body.push('', `replaced := re.ReplaceAllString(text, ${goString(template)})`, 'fmt.Println(replaced)');
+      }
+      const code = [
+        'package main',
+        '',
+        'import (',
+        '\t"fmt"',
+        '\t"regexp"',
+        ')',
+        '',
+        'func main() {',
+        ...body.map((line) => (line ? `\t${line}` : line)),
+        '}',
+      ];
+      return { code: code.join('\n'), warnings };
+    }
+
+    case 'rust': {
+      const body = [
+        `let re = Regex::new(${rustRawString(inlineFlags + pattern)}).unwrap();`,
+        `let text = ${rustString(text)};`,
+        '',
+        '// Offsets are byte positions in the UTF-8 string',
+        'for m in re.find_iter(text) {',
+        '    println!("{} {}", m.start(), m.as_str());',
+        '}',
+      ];
+      if (typeof template === 'string') {
+        body.push('', `let replaced = re.replace_all(text, ${rustRawString(template)});`, 'println!("{}", replaced);');
+      }
+      return { code: ['use regex::Regex;', '', 'fn main() {', indent(body, 1), '}'].join('\n'), warnings };
+    }
+
+    case 'java': {
+      const flagArg = kept.length > 0 ? `, ${kept.map((flag) => JAVA_FLAGS[flag]).join(' | ')}` : '';
+      const body = [
+        `Pattern pattern = Pattern.compile(${quoted(pattern)}${flagArg});`,
+        `String text = ${quoted(text)};`,
+        '',
+        'Matcher matcher = pattern.matcher(text);',
+        'while (matcher.find()) {',
+        '    System.out.println(matcher.start() + " " + matcher.group());',
+        '}',
+      ];
+      if (typeof template === 'string') {
+        body.push('', `String replaced = pattern.matcher(text).replaceAll(${quoted(template)});`, 'System.out.println(replaced);');
+      }
+      const code = [
+        'import java.util.regex.Matcher;',
+        'import java.util.regex.Pattern;',
+        '',
+        'public class RegexExample {',
+        '    public static void main(String[] args) {',
+        indent(body, 2),
+        '    }',
+        '}',
+      ];
+      return { code: code.join('\n'), warnings };
+    }
+  }
+}
@@ -0,0 +1,244 @@
+// src/lib/regex/constructs.ts
+// ─── Regex Constructs ────────────────────────────────────────────────────────
+// A flavor-neutral tokenizer that picks out the syntax whose support differs
+// between regex dialects — lookaround, the three named-group spellings,
+// possessive quantifiers, \A / \Z / \z, \p{…}, \x{…} and friends — and a
+// table of which flavors accept each one. The Regex Tester lists what the
+// selected flavor would reject, and the translators rewrite token by token.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { RegexFlavor } from './flavors';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type ConstructId =
+  | 'lookahead' | 'lookbehind'
+  | 'named-group' | 'python-named-group' | 'quoted-named-group'
+  | 'backreference' | 'named-backreference' | 'python-backreference' | 'pcre-backreference'
+  | 'atomic-group' | 'possessive' | 'recursion' | 'conditional' | 'branch-reset' | 'verb'
+  | 'inline-flags' | 'comment-group'
+  | 'keep-out' | 'match-start' | 'start-anchor' | 'end-anchor' | 'absolute-end'
+  | 'quoting' | 'unicode-property' | 'horizontal-space' | 'linebreak' | 'grapheme'
+  | 'hex-brace' | 'unicode-escape' | 'unicode-brace' | 'python-unicode-escape' | 'named-character'
+  | 'posix-class' | 'class-intersection' | 'omitted-minimum';
+
+interface ConstructSupport {
+  label: string;
+  flavors: readonly RegexFlavor[];
+  /** JavaScript only understands the construct with this flag (`u` also accepts `v`) */
+  jsFlag?: 'u' | 'v';
+}
+
+export interface PatternToken {
+  text: string;
+  index: number;
+  construct?: ConstructId;
+}
+
+export interface UnsupportedConstruct {
+  construct: ConstructId;
+  label: string;
+  /** First occurrence, as written */
+  text: string;
+  index: number;
+  count: number;
+}
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const CONSTRUCTS: Record<ConstructId, ConstructSupport> = {
+  'lookahead': { label: 'lookahead (?= (?!', flavors: ['javascript', 'pcre', 'python', 'java'] },
+  'lookbehind': { label: 'lookbehind (?<= (?<!', flavors: ['javascript', 'pcre', 'python', 'java'] },
+  'named-group': { label: 'named group (?<name>…)', flavors: ['javascript', 'pcre', 'java', 'go'] },
+  'python-named-group': { label: 'named group (?P<name>…)', flavors: ['pcre', 'python', 'go'] },
+  'quoted-named-group': { label: "named group (?'name'…)", flavors: ['pcre'] },
+  'backreference': { label: 'backreference \\1', flavors: ['javascript', 'pcre', 'python', 'java'] },
+  'named-backreference': { label: 'named backreference \\k<name>', flavors: ['javascript', 'pcre', 'java'] },
+  'python-backreference': { label: 'named backreference (?P=name)', flavors: ['pcre', 'python'] },
+  'pcre-backreference': { label: 'backreference \\g{…} / \\k{…}', flavors: ['pcre'] },
+  'atomic-group': { label: 'atomic group (?>…)', flavors: ['pcre', 'python', 'java'] },
+  'possessive': { label: 'possessive quantifier *+ ++ ?+', flavors: ['pcre', 'python', 'java'] },
+  'recursion': { label: 'recursion / subroutine call', flavors: ['pcre'] },
+  'conditional': { label: 'conditional (?(…)…)', flavors: ['pcre', 'python'] },
+  'branch-reset': { label: 'branch reset (?|…)', flavors: ['pcre'] },
+  'verb': { label: 'control verb (*…)', flavors: ['pcre'] },
+  'inline-flags': { label: 'inline flags (?i) (?i:…)', flavors: ['pcre', 'python', 'java', 'go'] },
+  'comment-group': { label: 'comment (?#…)', flavors: ['pcre', 'python'] },
+  'keep-out': { label: 'match reset \\K', flavors: ['pcre'] },
+  'match-start': { label: 'end of previous match \\G', flavors: ['pcre', 'java'] },
+  'start-anchor': { label: 'start of input \\A', flavors: ['pcre', 'python', 'java', 'go'] },
+  'end-anchor': { label: 'end of input \\Z', flavors: ['pcre', 'python', 'java'] },
+  'absolute-end': { label: 'absolute end \\z', flavors: ['pcre', 'java', 'go'] },
+  'quoting': { label: 'literal quoting \\Q…\\E', flavors: ['pcre', 'java', 'go'] },
+  'unicode-property': { label: 'Unicode property \\p{…}', flavors: ['javascript', 'pcre', 'java', 'go'], jsFlag: 'u' },
+  'horizontal-space': { label: 'horizontal whitespace \\h', flavors: ['pcre', 'java'] },
+  'linebreak': { label: 'line break \\R', flavors: ['pcre', 'java'] },
+  'grapheme': { label: 'grapheme cluster \\X', flavors: ['pcre', 'java'] },
+  'hex-brace': { label: 'code point \\x{…}', flavors: ['pcre', 'java', 'go'] },
+  'unicode-escape': { label: 'escape \\uXXXX', flavors: ['javascript', 'python', 'java'] },
+  'unicode-brace': { label: 'code point \\u{…}', flavors: ['javascript'], jsFlag: 'u' },
+  'python-unicode-escape': { label: 'escape \\UXXXXXXXX', flavors: ['python'] },
+  'named-character': { label: 'named character \\N{…}', flavors: ['python'] },
+  'posix-class': { label: 'POSIX class [[:alpha:]]', flavors: ['pcre', 'go'] },
+  'class-intersection': { label: 'class intersection &&', flavors: ['javascript', 'java'], jsFlag: 'v' },
+  'omitted-minimum': { label: 'quantifier {,n}', flavors: ['python'] },
+};
+
+/** `(?…` openers, tried in order */
+const GROUP_OPENERS: [RegExp, ConstructId | undefined][] = [
+  [/^\(\?#[^)]*\)?/, 'comment-group'],
+  [/^\(\?<[=!]/, 'lookbehind'],
+  [/^\(\?[=!]/, 'lookahead'],
+  [/^\(\?P<[A-Za-z_]\w*>/, 'python-named-group'],
+  [/^\(\?P=[A-Za-z_]\w*\)/, 'python-backreference'],
+  [/^\(\?P>[A-Za-z_]\w*\)/, 'recursion'],
+  [/^\(\?<[A-Za-z_]\w*>/, 'named-group'],
+  [/^\(\?'[A-Za-z_]\w*'/, 'quoted-named-group'],
+  [/^\(\?>/, 'atomic-group'],
+  [/^\(\?\|/, 'branch-reset'],
+  [/^\(\?\(/, 'conditional'],
+  [/^\(\?(?:R|[+-]?\d+|&[A-Za-z_]\w*)\)/, 'recursion'],
+  [/^\(\?\^?[a-zA-Z]*(?:-[a-zA-Z]*)?\)/, 'inline-flags'],
+  [/^\(\?(?:\^?[a-zA-Z]+(?:-[a-zA-Z]*)?|\^?-[a-zA-Z]+):/, 'inline-flags'],
+  [/^\(\?:/, undefined],
+];
+
+/** Escapes whose meaning depends on the flavor, with the construct each is */
+const ESCAPES: [RegExp, ConstructId | undefined][] = [
+  [/^\\x\{[0-9a-fA-F]*\}/, 'hex-brace'],
+  [/^\\u\{[0-9a-fA-F]*\}/, 'unicode-brace'],
+  [/^\\u[0-9a-fA-F]{4}/, 'unicode-escape'],
+  [/^\\U[0-9a-fA-F]{8}/, 'python-unicode-escape'],
+  [/^\\N\{[^}]*\}/, 'named-character'],
+  [/^\\[pP](?:\{[^}]*\}|[A-Za-z])/, 'unicode-property'],
+  [/^\\k<[^>]*>/, 'named-backreference'],
+  [/^\\k(?:\{[^}]*\}|'[^']*')/, 'pcre-backreference'],
+  [/^\\g(?:<[^>]*>|'[^']*')/, 'recursion'],
+  [/^\\g(?:\{[^}]*\}|-?\d+)/, 'pcre-backreference'],
+  [/^\\[hH]/, 'horizontal-space'],
+  [/^\\x[0-9a-fA-F]{0,2}/, undefined],
+  [/^\\c[A-Za-z]/, undefined],
+];
+
+/** Escapes that only mean something outside a character class */
+const ANCHOR_ESCAPES: Record<string, ConstructId> = {
+  A: 'start-anchor', Z: 'end-anchor', z: 'absolute-end', G: 'match-start', K: 'keep-out', R: 'linebreak', X: 'grapheme',
+};
+
+// ─── TOKENIZER ───────────────────────────────────────────────────────────────
+
+/**
+ * Split a pattern into tokens that concatenate back to it. Tokens that are
+ * one of the tracked constructs carry its id; everything else is plain text.
+ */
+export function tokenizePattern(pattern: string): PatternToken[] {
+  const tokens: PatternToken[] = [];
+  let i = 0;
+  let inClass = false;
+  const take = (length: number, construct?: ConstructId) => {
+    tokens.push({ text: pattern.slice(i, i + length), index: i, construct });
+    i += length;
+  };
+  const takeMatch = (rest: string, table: [RegExp, ConstructId | undefined][]): boolean => {
+    for (const [regex, construct] of table) {
+      const match = regex.exec(rest);
+      if (match) { take(match[0].length, construct); return true; }
+    }
+    return false;
+  };
+
+  while (i < pattern.length) {
+    const rest = pattern.slice(i);
+    const char = pattern[i];
+
+    if (char === '\\') {
+      const next = rest[1];
+      if (next === 'Q') {
+        const end = rest.indexOf('\\E', 2);
+        take(end === -1 ? rest.length : end + 2, 'quoting');
+      } else if (takeMatch(rest, ESCAPES)) {
+        // consumed
+      } else if (!inClass && next !== undefined && ANCHOR_ESCAPES[next]) {
+        take(2, ANCHOR_ESCAPES[next]);
+      } else if (!inClass && /^\\[1-9]/.test(rest)) {
+        take(/^\\\d+/.exec(rest)![0].length, 'backreference');
+      } else {
+        take(Math.min(2, rest.length));
+      }
+      continue;
+    }
+
+    if (inClass) {
+      const posix = /^\[:\^?[a-z]+:\]/.exec(rest);
+      if (posix) take(posix[0].length, 'posix-class');
+      else if (rest.startsWith('&&')) take(2, 'class-intersection');
+      else {
+        if (char === ']') inClass = false;
+        take(1);
+      }
+      continue;
+    }
+
+    if (char === '[') {
+      // A `]` straight after `[` or `[^` is a literal
+      inClass = true;
+      take(/^\[\^?\]?/.exec(rest)![0].length);
+      continue;
+    }
+    if (rest.startsWith('(?')) {
+      if (!takeMatch(rest, GROUP_OPENERS)) take(2);
+      continue;
+    }
+    if (rest.startsWith('(*')) {
+      const end = rest.indexOf(')');
+      take(end === -1 ? rest.length : end + 1, 'verb');
+      continue;
+    }
+
+    const quantifier = /^(?:[*+?]|\{(?:\d+,?\d*|,\d+)\})/.exec(rest);
+    if (quantifier) {
+      const possessive = rest[quantifier[0].length] === '+';
+      const construct = quantifier[0].startsWith('{,') ? 'omitted-minimum' : possessive ? 'possessive' : undefined;
+      take(quantifier[0].length + (possessive ? 1 : 0), construct);
+      continue;
+    }
+    take(1);
+  }
+  return tokens;
+}
+
+// ─── SUPPORT ─────────────────────────────────────────────────────────────────
+
+export function supportsConstruct(flavor: RegexFlavor, construct: ConstructId, flags = ''): boolean {
+  const support = CONSTRUCTS[construct];
+  if (!support.flavors.includes(flavor)) return false;
+  if (flavor !== 'javascript' || !support.jsFlag) return true;
+  return flags.includes(support.jsFlag) || (support.jsFlag === 'u' && flags.includes('v'));
+}
+
+/** Constructs in `pattern` that `flavor` rejects or reads differently, one entry per kind */
+export function unsupportedConstructs(pattern: string, flavor: RegexFlavor, flags = ''): UnsupportedConstruct[] {
+  const found = new Map<ConstructId, UnsupportedConstruct>();
+  for (const token of tokenizePattern(pattern)) {
+    if (!token.construct || supportsConstruct(flavor, token.construct, flags)) continue;
+    const existing = found.get(token.construct);
+    if (existing) existing.count++;
+    else found.set(token.construct, { construct: token.construct, label: CONSTRUCTS[token.construct].label, text: token.text, index: token.index, count: 1 });
+  }
+  return [...found.values()];
+}
+
+/**
+ * Name of each capturing group in pattern order (undefined for unnamed ones),
+ * for engines that don't report it. Ignores branch-reset renumbering.
+ */
+export function captureGroupNames(pattern: string): (string | undefined)[] {
+  const names: (string | undefined)[] = [];
+  for (const token of tokenizePattern(pattern)) {
+    if (token.text === '(') names.push(undefined);
+    else if (token.construct === 'named-group' || token.construct === 'python-named-group' || token.construct === 'quoted-named-group') {
+      names.push(/^\(\?P?[<'](\w+)/.exec(token.text)![1]);
+    }
+  }
+  return names;
+}
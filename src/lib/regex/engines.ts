@@ -0,0 +1,158 @@
+// src/lib/regex/engines.ts
+// ─── Regex Engines ───────────────────────────────────────────────────────────
+// One entry point that evaluates a pattern the way each flavor would:
+// JavaScript on the browser's RegExp, PCRE2 compiled to WebAssembly (loaded
+// on first use), Python and Java translated onto PCRE2, and Go on re2js, a
+// port of RE2. Each run also reports the constructs and flags the flavor
+// doesn't support, so a pattern can be checked before it's shipped.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import pcre2WasmUrl from '@stephen-riley/pcre2-wasm/dist/libpcre2.wasm?url';
+import { RE2JS } from 're2js';
+import { flavorFlags, type RegexFlavor } from './flavors';
+import { captureGroupNames, unsupportedConstructs, type UnsupportedConstruct } from './constructs';
+import { instantiatePcre2, type Pcre2 } from './pcre2';
+import { translateToPcre2 } from './translate';
+import type { RegexMatch } from './types';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Matches beyond this are not collected; the UI only shows the first few anyway */
+export const MAX_MATCHES = 10_000;
+
+const JS_TIMEOUT_MS = 1000;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export interface RegexRun {
+  flavor: RegexFlavor;
+  matches: RegexMatch[];
+  error: string | null;
+  /** The run was cut short — JS's time breaker or PCRE2's backtracking limit */
+  timedOut: boolean;
+  /** Still running at the hard timeout, so the worker was killed; nothing was returned */
+  terminated: boolean;
+  unsupported: UnsupportedConstruct[];
+  ignoredFlags: string[];
+  /** Name of each numbered group, or undefined when it has none */
+  groupNames: (string | undefined)[];
+}
+
+// ─── ENGINES ─────────────────────────────────────────────────────────────────
+
+// FIX: Prevent ReDoS (Regular Expression Denial of Service) browser freezes
+function executeRegexSafely(pattern: string, flags: string, text: string, timeoutMs = JS_TIMEOUT_MS): { matches: RegexMatch[]; timedOut: boolean } {
+  // Ensure global for highlighting, and `d` for capture positions
+  const regex = new RegExp(pattern, [...new Set(flags + 'gd')].join(''));
+  const matches: RegexMatch[] = [];
+  const startTime = Date.now();
+  let match;
+
+  while ((match = regex.exec(text)) !== null && matches.length < MAX_MATCHES) {
+    if (Date.now() - startTime > timeoutMs) {
+      return { matches, timedOut: true }; // Circuit breaker
+    }
+    matches.push({ value: match[0], index: match.index, captures: match.slice(1), captureIndices: match.indices!.slice(1), groups: match.groups });
+    if (match[0].length === 0) regex.lastIndex++; // Avoid infinite loops on empty matches
+  }
+  return { matches, timedOut: false };
+}
+
+let pcre2: Promise<Pcre2> | undefined;
+
+/** Fetch and instantiate the PCRE2 module once; a failed load is retried on the next run */
+function loadPcre2(): Promise<Pcre2> {
+  pcre2 ??= fetch(pcre2WasmUrl)
+    .then((response) => {
+      if (!response.ok) throw new Error(`Could not load the PCRE2 engine (HTTP ${response.status}).`);
+      return response.arrayBuffer();
+    })
+    .then(instantiatePcre2);
+  pcre2.catch(() => { pcre2 = undefined; });
+  return pcre2;
+}
+
+function executeRe2(pattern: string, flags: string, text: string): { matches: RegexMatch[]; groupNames: (string | undefined)[] } {
+  const regex = RE2JS.compile(flags ? `(?${flags})${pattern}` : pattern);
+  const groupNames: (string | undefined)[] = Array.from({ length: regex.groupCount() });
+  for (const [name, number] of Object.entries(regex.namedGroups())) groupNames[number - 1] = name;
+
+  const matches: RegexMatch[] = [];
+  const matcher = regex.matcher(text);
+  let previousEnd = -1;
+  while (matches.length < MAX_MATCHES && matcher.find()) {
+    // Go's FindAll drops an empty match that touches the one before it; Java's find() doesn't
+    const touchesPrevious = matcher.start() === matcher.end() && matcher.start() === previousEnd;
+    previousEnd = matcher.end();
+    if (touchesPrevious) continue;
+    const captureIndices = groupNames.map((_, i): [number, number] | undefined =>
+      matcher.start(i + 1) === -1 ? undefined : [matcher.start(i + 1), matcher.end(i + 1)]);
+    const captures = captureIndices.map((range) => (range ? text.slice(range[0], range[1]) : undefined));
+    const named = groupNames.flatMap((name, i) => (name ? [[name, captures[i]] as const] : []));
+    matches.push({
+      value: text.slice(matcher.start(), matcher.end()),
+      index: matcher.start(),
+      captures,
+      captureIndices,
+      groups: named.length > 0 ? Object.fromEntries(named) : undefined,
+    });
+  }
+  return { matches, groupNames };
+}
+
+// ─── RUNNING ─────────────────────────────────────────────────────────────────
+
+/** A run with no matches yet, carrying what can be known without executing */
+export function emptyRun(flavor: RegexFlavor, pattern: string, flags: string): RegexRun {
+  const { flags: accepted, ignored } = flavorFlags(flavor, flags);
+  return {
+    flavor,
+    matches: [],
+    error: null,
+    timedOut: false,
+    terminated: false,
+    unsupported: unsupportedConstructs(pattern, flavor, accepted),
+    ignoredFlags: ignored,
+    groupNames: [],
+  };
+}
+
+/** Evaluate `pattern` against `text` as `flavor` would; never throws. Blocks until done — see runner.ts */
+export async function runRegex(flavor: RegexFlavor, pattern: string, flags: string, text: string): Promise<RegexRun> {
+  const accepted = flavorFlags(flavor, flags).flags;
+  const run = emptyRun(flavor, pattern, flags);
+  const { unsupported } = run;
+  if (!pattern) return run;
+
+  try {
+    switch (flavor) {
+      case 'javascript':
+        Object.assign(run, executeRegexSafely(pattern, accepted, text), { groupNames: captureGroupNames(pattern) });
+        break;
+      case 'go':
+        Object.assign(run, executeRe2(pattern, accepted, text));
+        break;
+      case 'pcre': {
+        const { matches, limit, groupNames } = (await loadPcre2()).matchAll(pattern, accepted, text, MAX_MATCHES);
+        Object.assign(run, { matches, groupNames, timedOut: limit !== undefined });
+        break;
+      }
+      case 'python':
+      case 'java': {
+        // The translation would hand these to PCRE2, which accepts far more than the flavor
+        if (unsupported.length > 0) {
+          run.error = `Not valid ${flavor === 'python' ? 'Python' : 'Java'} syntax: ${unsupported.map((u) => u.label).join(', ')}.`;
+          break;
+        }
+        const translated = translateToPcre2(flavor, pattern, accepted);
+        const { matches, limit, groupNames } = (await loadPcre2()).matchAll(translated.pattern, translated.flags, text, MAX_MATCHES);
+        Object.assign(run, { matches, groupNames, timedOut: limit !== undefined });
+        break;
+      }
+    }
+  } catch (e) {
+    run.error = (e as Error).message;
+  }
+  return run;
+}
+
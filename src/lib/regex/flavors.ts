@@ -0,0 +1,57 @@
+// src/lib/regex/flavors.ts
+// ─── Regex Flavors ───────────────────────────────────────────────────────────
+// The dialects the Regex Tester can evaluate, the engine behind each one and
+// the flags each accepts. Every flavor except JavaScript always finds all
+// matches, so `g` is accepted everywhere and means nothing outside JS.
+//
+// Go runs on re2js rather than a WebAssembly RE2. The WASM build on npm
+// (re2-wasm) is the C++ library behind a RegExp-style API: about 1 MB
+// unminified against re2js's 60 KB gzipped, with C++ RE2's syntax and JS
+// iteration instead of Go's. re2js is ported from Go's regexp package, so it
+// parses patterns the way Go does; only FindAll's empty-match rule has to be
+// applied on top (see engines.ts). Java has no engine outside the JDK, so it
+// is translated onto PCRE2, whose backtracking semantics are closest.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const REGEX_FLAVORS = [
+  { id: 'javascript', label: 'JavaScript', engine: 'Browser RegExp', flags: 'dgimsuvy' },
+  { id: 'pcre', label: 'PCRE2', engine: 'PCRE2 10.34 (WebAssembly)', flags: 'imsx' },
+  { id: 'python', label: 'Python', engine: 're (3.11+) on PCRE2', flags: 'aimsx' },
+  { id: 'go', label: 'Go (RE2)', engine: 'RE2 (re2js)', flags: 'imsU' },
+  { id: 'java', label: 'Java', engine: 'java.util.regex on PCRE2', flags: 'imsxU' },
+] as const;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type RegexFlavor = (typeof REGEX_FLAVORS)[number]['id'];
+
+export interface FlavorFlags {
+  /** Flags the flavor understands, in input order, without `g` */
+  flags: string;
+  /** Flags the flavor has no equivalent for */
+  ignored: string[];
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+export function isRegexFlavor(value: unknown): value is RegexFlavor {
+  return REGEX_FLAVORS.some((flavor) => flavor.id === value);
+}
+
+export function flavorInfo(flavor: RegexFlavor): (typeof REGEX_FLAVORS)[number] {
+  return REGEX_FLAVORS.find((f) => f.id === flavor)!;
+}
+
+/** Split the typed flags into those `flavor` accepts and those it would ignore */
+export function flavorFlags(flavor: RegexFlavor, flags: string): FlavorFlags {
+  const accepted = flavorInfo(flavor).flags;
+  const kept: string[] = [];
+  const ignored: string[] = [];
+  for (const flag of new Set(flags)) {
+    if (flag === 'g' && flavor !== 'javascript') continue;
+    (accepted.includes(flag) ? kept : ignored).push(flag);
+  }
+  return { flags: kept.join(''), ignored };
+}
@@ -0,0 +1,193 @@
+// src/lib/regex/pcre2.ts
+// ─── PCRE2 (WebAssembly) ─────────────────────────────────────────────────────
+// Minimal bindings to the PCRE2 build shipped in @stephen-riley/pcre2-wasm
+// (16-bit code units, UTF mode — offsets line up with JavaScript strings).
+// The package's own wrapper only runs under Node (Buffer, util, path), so
+// the .wasm is instantiated here with the six imports it asks for. The
+// memory layout below is copied from that build's Emscripten glue
+// (dist/libpcre2.js), which is why the dependency is pinned exactly.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { RegexMatch } from './types';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** 16 MiB; the build was compiled without memory growth */
+const MEMORY_PAGES = 256;
+const TABLE_SIZE = 4;
+/** Where sbrk keeps the heap top, and where the heap starts */
+const DYNAMICTOP_PTR = 117184;
+const DYNAMIC_BASE = 5360256;
+
+const PCRE2_ERROR_NOMATCH = -1;
+const PCRE2_UNSET = 0xffffffff;
+
+/** pcre2_match results that mean "gave up", not "no match" */
+const LIMIT_ERRORS: Record<number, string> = {
+  [-47]: 'match limit',
+  [-53]: 'depth limit',
+  [-63]: 'heap limit',
+};
+
+/** Compile options the build accepts; anything else is PCRE2_ERROR_BAD_OPTIONS */
+export const PCRE2_FLAGS = ['i', 'm', 's', 'x'] as const;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+interface Pcre2Exports {
+  _malloc(bytes: number): number;
+  _free(ptr: number): void;
+  _version(buffer: number): number;
+  _compile(pattern: number, length: number, flags: number): number;
+  _destroyCode(code: number): void;
+  _lastErrorMessage(buffer: number, length: number): number;
+  _lastErrorOffset(): number;
+  _createMatchData(code: number): number;
+  _destroyMatchData(data: number): void;
+  _match(code: number, subject: number, length: number, offset: number, data: number): number;
+  _getOvectorPointer(data: number): number;
+  _getCaptureCount(code: number): number;
+  _getMatchNameCount(code: number): number;
+  _getMatchNameTableEntrySize(code: number): number;
+  _getMatchNameTable(code: number): number;
+}
+
+export interface Pcre2MatchResult {
+  matches: RegexMatch[];
+  /** Set when PCRE2 hit its backtracking limit, with the limit's name */
+  limit?: string;
+  /** Name of each numbered group, or undefined when it has none */
+  groupNames: (string | undefined)[];
+}
+
+export interface Pcre2 {
+  version: string;
+  /** Every match of `pattern` in `subject`; throws on compile errors with the PCRE2 message and offset */
+  matchAll(pattern: string, flags: string, subject: string, maxMatches: number): Pcre2MatchResult;
+}
+
+// ─── LOADING ─────────────────────────────────────────────────────────────────
+
+export async function instantiatePcre2(wasm: BufferSource): Promise<Pcre2> {
+  const memory = new WebAssembly.Memory({ initial: MEMORY_PAGES, maximum: MEMORY_PAGES });
+  const heapU8 = new Uint8Array(memory.buffer);
+  const heapU16 = new Uint16Array(memory.buffer);
+  const heapU32 = new Uint32Array(memory.buffer);
+  heapU32[DYNAMICTOP_PTR >> 2] = DYNAMIC_BASE;
+
+  const fail = (what: string) => () => { throw new Error(`PCRE2 aborted: ${what}.`); };
+  const { instance } = await WebAssembly.instantiate(wasm, {
+    env: {
+      memory,
+      table: new WebAssembly.Table({ initial: TABLE_SIZE, maximum: TABLE_SIZE, element: 'anyfunc' }),
+      __table_base: 0,
+      abortStackOverflow: fail('stack overflow'),
+      nullFunc_iii: fail('null function pointer'),
+      nullFunc_vii: fail('null function pointer'),
+      _emscripten_resize_heap: fail('out of memory'),
+      _emscripten_get_heap_size: () => heapU8.length,
+      _emscripten_memcpy_big: (dest: number, src: number, count: number) => {
+        heapU8.copyWithin(dest, src, src + count);
+        return dest;
+      },
+    },
+  });
+  const lib = instance.exports as unknown as Pcre2Exports;
+
+  const writeUtf16 = (text: string): number => {
+    const ptr = lib._malloc(Math.max(text.length, 1) * 2);
+    for (let i = 0; i < text.length; i++) heapU16[(ptr >> 1) + i] = text.charCodeAt(i);
+    return ptr;
+  };
+  const writeAscii = (text: string): number => {
+    const ptr = lib._malloc(text.length + 1);
+    for (let i = 0; i < text.length; i++) heapU8[ptr + i] = text.charCodeAt(i) & 0x7f;
+    heapU8[ptr + text.length] = 0;
+    return ptr;
+  };
+  const readUtf16 = (ptr: number, length: number): string => {
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      const unit = heapU16[(ptr >> 1) + i];
+      if (unit === 0) break;
+      text += String.fromCharCode(unit);
+    }
+    return text;
+  };
+
+  const version = (() => {
+    const buffer = lib._malloc(128);
+    lib._version(buffer);
+    const text = readUtf16(buffer, 64);
+    lib._free(buffer);
+    return text;
+  })();
+
+  /** Group number → name, from PCRE2's name table */
+  const groupNames = (code: number): Map<number, string> => {
+    const names = new Map<number, string>();
+    const count = lib._getMatchNameCount(code);
+    const entrySize = lib._getMatchNameTableEntrySize(code);
+    const table = lib._getMatchNameTable(code);
+    for (let i = 0; i < count; i++) {
+      const entry = table + i * entrySize * 2;
+      names.set(heapU16[entry >> 1], readUtf16(entry + 2, entrySize - 1));
+    }
+    return names;
+  };
+
+  const matchAll = (pattern: string, flags: string, subject: string, maxMatches: number): Pcre2MatchResult => {
+    const patternPtr = writeUtf16(pattern);
+    const flagsPtr = writeAscii(flags);
+    const code = lib._compile(patternPtr, pattern.length, flagsPtr);
+    lib._free(patternPtr);
+    lib._free(flagsPtr);
+    if (code === 0) {
+      const buffer = lib._malloc(512);
+      const length = lib._lastErrorMessage(buffer, 256);
+      const message = readUtf16(buffer, length);
+      lib._free(buffer);
+      throw Object.assign(new Error(`${message} at offset ${lib._lastErrorOffset()}`), { offset: lib._lastErrorOffset() });
+    }
+
+    const subjectPtr = writeUtf16(subject);
+    const data = lib._createMatchData(code);
+    const names = groupNames(code);
+    const groupCount = lib._getCaptureCount(code);
+    const matches: RegexMatch[] = [];
+    let limit: string | undefined;
+    try {
+      for (let start = 0; start <= subject.length && matches.length < maxMatches; ) {
+        const rc = lib._match(code, subjectPtr, subject.length, start, data);
+        if (rc === PCRE2_ERROR_NOMATCH) break;
+        if (rc < 0) {
+          if (LIMIT_ERRORS[rc]) { limit = LIMIT_ERRORS[rc]; break; }
+          throw new Error(`PCRE2 match error ${rc}.`);
+        }
+        const ovector = lib._getOvectorPointer(data) >> 2;
+        const span = (group: number): [number, number] | null => {
+          if (group >= rc) return null;
+          const from = heapU32[ovector + group * 2];
+          return from === PCRE2_UNSET ? null : [from, heapU32[ovector + group * 2 + 1]];
+        };
+        const [from, to] = span(0)!;
+        const captureIndices = Array.from({ length: groupCount }, (_, i) => span(i + 1) ?? undefined);
+        const captures = captureIndices.map((range) => (range ? subject.slice(range[0], range[1]) : undefined));
+        const groups = names.size > 0
+          ? Object.fromEntries([...names].map(([number, name]) => [name, captures[number - 1]]))
+          : undefined;
+        matches.push({ value: subject.slice(from, to), index: from, captures, captureIndices, groups });
+
+        // Step past empty matches, keeping surrogate pairs whole
+        start = to > from ? to : to + (/[\uD800-\uDBFF]/.test(subject[to] ?? '') ? 2 : 1);
+      }
+    } finally {
+      lib._destroyMatchData(data);
+      lib._destroyCode(code);
+      lib._free(subjectPtr);
+    }
+    return { matches, limit, groupNames: Array.from({ length: groupCount }, (_, i) => names.get(i + 1)) };
+  };
+
+  return { version, matchAll };
+}
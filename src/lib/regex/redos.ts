@@ -0,0 +1,497 @@
+// src/lib/regex/redos.ts
+// ─── ReDoS Analysis ──────────────────────────────────────────────────────────
+// Static checks for the two shapes behind nearly every catastrophic-
+// backtracking report: an unbounded quantifier repeated by another one with
+// nothing to tell their iterations apart — `(a+)+`, `(\w+\s?)*` — and a
+// repeated alternation whose branches can match the same text — `(a|a)*`,
+// `(\w+|\d+)+`. Characters are tracked as code point ranges, so `(\d+\.)+`
+// (where the dot separates the digits) is not flagged. It is a heuristic:
+// backreferences and Unicode properties are treated as matching anything.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { supportsConstruct, tokenizePattern, type PatternToken } from './constructs';
+import type { RegexFlavor } from './flavors';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+type CharSet = [number, number][];
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+type Node =
+  | (Span & { kind: 'atom'; set: CharSet })
+  /** Anchors, lookaround and flags: match without consuming; lookaround keeps its body */
+  | (Span & { kind: 'zero'; body?: Node })
+  /** Backreferences and recursion: could be anything, including nothing */
+  | (Span & { kind: 'unknown' })
+  | (Span & { kind: 'seq'; items: Node[] })
+  | (Span & { kind: 'alt'; options: Node[] })
+  | (Span & { kind: 'group'; body: Node; atomic: boolean })
+  | (Span & { kind: 'repeat'; body: Node; min: number; max: number; possessive: boolean });
+
+type RepeatNode = Extract<Node, { kind: 'repeat' }>;
+
+export interface RedosWarning {
+  kind: 'nested-quantifier' | 'overlapping-alternation';
+  /** The repeated sub-pattern at fault */
+  start: number;
+  end: number;
+  /** The parts inside it that compete for the same characters */
+  inner: Span[];
+  message: string;
+  hint: string;
+}
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const MAX_CODE_POINT = 0x10ffff;
+const ANY: CharSet = [[0, MAX_CODE_POINT]];
+const NEWLINES: CharSet = [[10, 10], [13, 13]];
+
+const CLASS_ESCAPES: Record<string, CharSet> = {
+  d: [[48, 57]],
+  w: [[48, 57], [65, 90], [95, 95], [97, 122]],
+  s: [[9, 13], [32, 32], [160, 160], [0x2028, 0x2029]],
+  h: [[9, 9], [32, 32], [160, 160]],
+};
+
+const CHAR_ESCAPES: Record<string, number> = { n: 10, t: 9, r: 13, f: 12, v: 11, '0': 0, e: 27, a: 7 };
+
+const ZERO_WIDTH_ESCAPES = new Set(['b', 'B']);
+
+/** Quantifier tokens, including the possessive `+` suffix */
+const QUANTIFIER = /^(?:([*+?])|\{(\d*)(,?)(\d*)\})(\+?)$/;
+
+// ─── CHARACTER SETS ──────────────────────────────────────────────────────────
+
+function normalize(ranges: CharSet): CharSet {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: CharSet = [];
+  for (const [lo, hi] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && lo <= last[1] + 1) last[1] = Math.max(last[1], hi);
+    else merged.push([lo, hi]);
+  }
+  return merged;
+}
+
+function union(...sets: CharSet[]): CharSet {
+  return normalize(sets.flat().map(([lo, hi]) => [lo, hi]));
+}
+
+function complement(set: CharSet): CharSet {
+  const out: CharSet = [];
+  let next = 0;
+  for (const [lo, hi] of normalize(set)) {
+    if (lo > next) out.push([next, lo - 1]);
+    next = hi + 1;
+  }
+  if (next <= MAX_CODE_POINT) out.push([next, MAX_CODE_POINT]);
+  return out;
+}
+
+function intersects(a: CharSet, b: CharSet): boolean {
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i][1] < b[j][0]) i++;
+    else if (b[j][1] < a[i][0]) j++;
+    else return true;
+  }
+  return false;
+}
+
+/** Add the other ASCII case of every letter in the set */
+function foldCase(set: CharSet): CharSet {
+  const extra: CharSet = [];
+  for (const [lo, hi] of set) {
+    const upperLo = Math.max(lo, 65), upperHi = Math.min(hi, 90);
+    if (upperLo <= upperHi) extra.push([upperLo + 32, upperHi + 32]);
+    const lowerLo = Math.max(lo, 97), lowerHi = Math.min(hi, 122);
+    if (lowerLo <= lowerHi) extra.push([lowerLo - 32, lowerHi - 32]);
+  }
+  return union(set, extra);
+}
+
+// ─── PARSING ─────────────────────────────────────────────────────────────────
+
+/** The code point a single-character token stands for, or null when it is a set or not a character */
+function tokenCodePoint(token: PatternToken): number | null {
+  const { text, construct } = token;
+  if (!text.startsWith('\\')) return text.length === 1 ? text.charCodeAt(0) : null;
+  if (construct === 'hex-brace' || construct === 'unicode-brace') return parseInt(text.slice(3, -1), 16);
+  if (construct === 'unicode-escape' || construct === 'python-unicode-escape') return parseInt(text.slice(2), 16);
+  if (construct) return null;
+  const escaped = text.slice(1);
+  if (/^x[0-9a-fA-F]{1,2}$/.test(escaped)) return parseInt(escaped.slice(1), 16);
+  if (/^c[A-Za-z]$/.test(escaped)) return escaped.charCodeAt(1) & 31;
+  if (escaped in CHAR_ESCAPES) return CHAR_ESCAPES[escaped];
+  if (escaped.length === 1 && !/[A-Za-z0-9]/.test(escaped)) return escaped.charCodeAt(0);
+  return null;
+}
+
+/** `\d`, `\W` and friends, or null */
+function escapeSet(token: PatternToken): CharSet | null {
+  if (token.construct === 'horizontal-space') return token.text === '\\h' ? CLASS_ESCAPES.h : complement(CLASS_ESCAPES.h);
+  if (token.construct === 'unicode-property' || token.construct === 'grapheme' || token.construct === 'named-character') return ANY;
+  if (token.construct === 'linebreak') return [[10, 13], [0x85, 0x85], [0x2028, 0x2029]];
+  const letter = /^\\([dwsDWS])$/.exec(token.text)?.[1];
+  if (!letter) return null;
+  const base = CLASS_ESCAPES[letter.toLowerCase()];
+  return letter === letter.toLowerCase() ? base : complement(base);
+}
+
+interface ParseState {
+  tokens: PatternToken[];
+  pos: number;
+  ignoreCase: boolean;
+  dotAll: boolean;
+  extended: boolean;
+}
+
+function peek(state: ParseState): PatternToken | undefined {
+  return state.tokens[state.pos];
+}
+
+/** Offset of the next token, or the pattern length once all are consumed */
+function offset(state: ParseState): number {
+  const next = peek(state);
+  if (next) return next.index;
+  const last = state.tokens[state.tokens.length - 1];
+  return last ? last.index + last.text.length : 0;
+}
+
+function literal(code: number, ignoreCase: boolean): CharSet {
+  return ignoreCase ? foldCase([[code, code]]) : [[code, code]];
+}
+
+function parseClass(state: ParseState, open: PatternToken): Node {
+  const parts: CharSet[] = [];
+  let pending: number | null = null;
+  let unknown = false;
+  if (open.text.endsWith(']')) parts.push([[93, 93]]);
+
+  while (peek(state) && peek(state)!.text !== ']') {
+    const token = state.tokens[state.pos++];
+    const next = peek(state);
+    if (token.text === '-' && pending !== null && next && next.text !== ']') {
+      const to = tokenCodePoint(next);
+      state.pos++;
+      if (to === null) unknown = true;
+      else parts.push([[Math.min(pending, to), Math.max(pending, to)]]);
+      pending = null;
+      continue;
+    }
+    if (token.construct === 'posix-class' || token.construct === 'class-intersection') unknown = true;
+    const set = escapeSet(token);
+    const code = tokenCodePoint(token);
+    if (set) parts.push(set);
+    else if (code !== null) parts.push([[code, code]]);
+    pending = code;
+  }
+  const close = peek(state);
+  if (close) state.pos++;
+
+  let set = unknown ? ANY : union(...parts);
+  if (state.ignoreCase) set = foldCase(set);
+  if (open.text.startsWith('[^') && !unknown) set = complement(set);
+  return { kind: 'atom', set, start: open.index, end: close ? close.index + 1 : offset(state) };
+}
+
+function parseGroup(state: ParseState, open: PatternToken): Node {
+  const { construct, text, index } = open;
+  const closeAfter = () => {
+    const close = peek(state);
+    if (close?.text === ')') state.pos++;
+    return close?.text === ')' ? close.index + 1 : offset(state);
+  };
+
+  if (construct === 'comment-group' || construct === 'verb' || (construct === 'inline-flags' && text.endsWith(')'))) {
+    return { kind: 'zero', start: index, end: index + text.length };
+  }
+  if (construct === 'python-backreference' || (construct === 'recursion' && text.endsWith(')'))) {
+    return { kind: 'unknown', start: index, end: index + text.length };
+  }
+  if (construct === 'conditional') {
+    // Skip the condition, up to and including its `)`
+    while (peek(state) && peek(state)!.text !== ')') state.pos++;
+    if (peek(state)) state.pos++;
+  }
+
+  const body = parseAlternation(state);
+  const end = closeAfter();
+  if (construct === 'lookahead' || construct === 'lookbehind') return { kind: 'zero', body, start: index, end };
+  return { kind: 'group', body, atomic: construct === 'atomic-group', start: index, end };
+}
+
+function parseAtom(state: ParseState): Node | null {
+  const token = state.tokens[state.pos++];
+  const { text, construct, index } = token;
+  const span = { start: index, end: index + text.length };
+
+  if (state.extended && /^\s$/.test(text)) return null;
+  if (state.extended && text === '#') {
+    while (peek(state) && peek(state)!.text !== '\n') state.pos++;
+    return null;
+  }
+  if (text.startsWith('(')) return parseGroup(state, token);
+  if (text.startsWith('[')) return parseClass(state, token);
+  if (text === '.') return { kind: 'atom', set: state.dotAll ? ANY : complement(NEWLINES), ...span };
+  if (text === '^' || text === '$') return { kind: 'zero', ...span };
+
+  if (text.startsWith('\\')) {
+    if (construct === 'quoting') {
+      const quoted = text.slice(2).replace(/\\E$/, '');
+      const items: Node[] = [...quoted].map((char, i) => ({ kind: 'atom', set: literal(char.charCodeAt(0), state.ignoreCase), start: index + 2 + i, end: index + 3 + i }));
+      return { kind: 'seq', items, ...span };
+    }
+    if (construct === 'start-anchor' || construct === 'end-anchor' || construct === 'absolute-end' || construct === 'match-start' || construct === 'keep-out' || ZERO_WIDTH_ESCAPES.has(text.slice(1))) {
+      return { kind: 'zero', ...span };
+    }
+    if (construct === 'backreference' || construct === 'named-backreference' || construct === 'pcre-backreference' || construct === 'recursion') {
+      return { kind: 'unknown', ...span };
+    }
+    const set = escapeSet(token);
+    if (set) return { kind: 'atom', set, ...span };
+  }
+
+  // A quantifier with nothing to repeat is a syntax error the engine reports
+  if (QUANTIFIER.test(text)) return { kind: 'zero', ...span };
+  return { kind: 'atom', set: literal(tokenCodePoint(token) ?? text.charCodeAt(0), state.ignoreCase), ...span };
+}
+
+function parseSequence(state: ParseState): Node {
+  const items: Node[] = [];
+  const start = peek(state)?.index ?? offset(state);
+  while (peek(state) && peek(state)!.text !== '|' && peek(state)!.text !== ')') {
+    let node = parseAtom(state);
+    if (!node) continue;
+    for (let quantifier = QUANTIFIER.exec(peek(state)?.text ?? ''); quantifier; quantifier = QUANTIFIER.exec(peek(state)?.text ?? '')) {
+      const token = state.tokens[state.pos++];
+      const [, symbol, min, comma, max, plus] = quantifier;
+      const bounds: [number, number] = symbol === '*' ? [0, Infinity]
+        : symbol === '+' ? [1, Infinity]
+          : symbol === '?' ? [0, 1]
+            : [Number(min || 0), comma ? (max ? Number(max) : Infinity) : Number(min)];
+      node = { kind: 'repeat', body: node, min: bounds[0], max: bounds[1], possessive: plus === '+', start: node.start, end: token.index + token.text.length };
+      // A lazy `?` straight after changes the order, not the ambiguity
+      if (peek(state)?.text === '?') { node.end++; state.pos++; }
+    }
+    items.push(node);
+  }
+  return items.length === 1 ? items[0] : { kind: 'seq', items, start, end: offset(state) };
+}
+
+function parseAlternation(state: ParseState): Node {
+  const start = peek(state)?.index ?? offset(state);
+  const options = [parseSequence(state)];
+  while (peek(state)?.text === '|') {
+    state.pos++;
+    options.push(parseSequence(state));
+  }
+  return options.length === 1 ? options[0] : { kind: 'alt', options, start, end: offset(state) };
+}
+
+function parsePattern(pattern: string, flags: string): Node {
+  const tokens = tokenizePattern(pattern);
+  // Inline flags are applied to the whole pattern — close enough for a warning
+  const inline = tokens.filter((t) => t.construct === 'inline-flags').map((t) => t.text.split('-')[0]).join('');
+  const has = (flag: string) => flags.includes(flag) || inline.includes(flag);
+  const state: ParseState = { tokens, pos: 0, ignoreCase: has('i'), dotAll: has('s'), extended: has('x') };
+
+  const options: Node[] = [];
+  while (state.pos < tokens.length) {
+    options.push(parseAlternation(state));
+    if (peek(state)?.text === ')') state.pos++; // unbalanced; the engine reports it
+  }
+  return options.length === 1 ? options[0] : { kind: 'seq', items: options, start: 0, end: pattern.length };
+}
+
+// ─── NODE PROPERTIES ─────────────────────────────────────────────────────────
+
+function nullable(node: Node): boolean {
+  switch (node.kind) {
+    case 'atom': return false;
+    case 'zero': case 'unknown': return true;
+    case 'seq': return node.items.every(nullable);
+    case 'alt': return node.options.some(nullable);
+    case 'group': return nullable(node.body);
+    case 'repeat': return node.min === 0 || nullable(node.body);
+  }
+}
+
+/** Characters the node can start with */
+function firstChars(node: Node): CharSet {
+  switch (node.kind) {
+    case 'atom': return node.set;
+    case 'zero': return [];
+    case 'unknown': return ANY;
+    case 'seq': {
+      const sets: CharSet[] = [];
+      for (const item of node.items) {
+        sets.push(firstChars(item));
+        if (!nullable(item)) break;
+      }
+      return union(...sets);
+    }
+    case 'alt': return union(...node.options.map(firstChars));
+    case 'group': case 'repeat': return firstChars(node.body);
+  }
+}
+
+/** Every character the node can consume */
+function allChars(node: Node): CharSet {
+  switch (node.kind) {
+    case 'atom': return node.set;
+    case 'zero': return [];
+    case 'unknown': return ANY;
+    case 'seq': return union(...node.items.map(allChars));
+    case 'alt': return union(...node.options.map(allChars));
+    case 'group': case 'repeat': return allChars(node.body);
+  }
+}
+
+/** One character set per position for fixed-length, quantifier-free nodes; null otherwise */
+function fixedChars(node: Node): CharSet[] | null {
+  switch (node.kind) {
+    case 'atom': return [node.set];
+    case 'zero': return [];
+    case 'unknown': return null;
+    case 'seq': {
+      const out: CharSet[] = [];
+      for (const item of node.items) {
+        const fixed = fixedChars(item);
+        if (!fixed) return null;
+        out.push(...fixed);
+      }
+      return out;
+    }
+    case 'alt': return node.options.length === 1 ? fixedChars(node.options[0]) : null;
+    case 'group': return node.atomic ? null : fixedChars(node.body);
+    case 'repeat': {
+      const fixed = node.min === node.max && node.max <= 16 ? fixedChars(node.body) : null;
+      return fixed && Array.from({ length: node.max }, () => fixed).flat();
+    }
+  }
+}
+
+function children(node: Node): Node[] {
+  switch (node.kind) {
+    case 'seq': return node.items;
+    case 'alt': return node.options;
+    case 'group': case 'repeat': return [node.body];
+    case 'zero': return node.body ? [node.body] : [];
+    default: return [];
+  }
+}
+
+// ─── CHECKS ──────────────────────────────────────────────────────────────────
+
+/**
+ * Unbounded, backtracking quantifiers inside `node`, each with the characters
+ * that can come straight after it. A quantifier that can also consume what
+ * follows it has more than one way to hand characters over.
+ */
+function innerRepeats(node: Node, follow: CharSet = []): { repeat: RepeatNode; follow: CharSet }[] {
+  switch (node.kind) {
+    case 'seq':
+      return node.items.flatMap((item, i) => {
+        const sets: CharSet[] = [];
+        let rest = true;
+        for (const next of node.items.slice(i + 1)) {
+          sets.push(firstChars(next));
+          if (!nullable(next)) { rest = false; break; }
+        }
+        return innerRepeats(item, union(...sets, rest ? follow : []));
+      });
+    case 'alt':
+      return node.options.flatMap((option) => innerRepeats(option, follow));
+    case 'group':
+      return node.atomic ? [] : innerRepeats(node.body, follow);
+    case 'repeat': {
+      if (node.possessive) return [];
+      const own = node.max === Infinity ? [{ repeat: node, follow }] : [];
+      return [...own, ...innerRepeats(node.body, node.max > 1 ? union(follow, firstChars(node.body)) : follow)];
+    }
+    default:
+      return [];
+  }
+}
+
+/** Alternations reachable inside `node` without crossing atomic or possessive boundaries */
+function innerAlternations(node: Node): Extract<Node, { kind: 'alt' }>[] {
+  if (node.kind === 'group' && node.atomic) return [];
+  if (node.kind === 'repeat' && node.possessive) return [];
+  if (node.kind === 'zero') return [];
+  const own = node.kind === 'alt' ? [node] : [];
+  return [...own, ...children(node).flatMap(innerAlternations)];
+}
+
+/** Could the two branches match the same text? */
+function ambiguousOptions(a: Node, b: Node): boolean {
+  const fixedA = fixedChars(a);
+  const fixedB = fixedChars(b);
+  if (fixedA && fixedB) {
+    return fixedA.length === fixedB.length && fixedA.length > 0 && fixedA.every((set, i) => intersects(set, fixedB[i]));
+  }
+  if (!intersects(firstChars(a), firstChars(b))) return false;
+  const swallows = (node: Node, other: Node) =>
+    innerRepeats(node).some(({ repeat }) => intersects(allChars(repeat.body), firstChars(other)));
+  return swallows(a, b) || swallows(b, a);
+}
+
+// ─── ANALYSIS ────────────────────────────────────────────────────────────────
+
+/**
+ * Flag sub-patterns that can backtrack catastrophically in `flavor`. Go's
+ * RE2 matches in linear time and never gets a warning.
+ */
+export function analyzeRedos(pattern: string, flags: string, flavor: RegexFlavor): RedosWarning[] {
+  if (flavor === 'go' || !pattern) return [];
+  const root = parsePattern(pattern, flags);
+  const text = (span: Span) => pattern.slice(span.start, span.end);
+  const hint = supportsConstruct(flavor, 'possessive')
+    ? 'Make the inner quantifier possessive (a++) or the group atomic (?>…), or rewrite it so each character has only one way to match.'
+    : 'Rewrite it so each character has only one way to match — e.g. make the repeated parts mutually exclusive or require a separator between them.';
+  const warnings: RedosWarning[] = [];
+
+  const visit = (node: Node) => {
+    if (node.kind === 'repeat' && node.max === Infinity && !node.possessive) {
+      // What follows the body is the next iteration
+      const nested = innerRepeats(node.body, firstChars(node.body))
+        .find(({ repeat, follow }) => intersects(allChars(repeat.body), follow));
+      if (nested) {
+        warnings.push({
+          kind: 'nested-quantifier',
+          start: node.start,
+          end: node.end,
+          inner: [{ start: nested.repeat.start, end: nested.repeat.end }],
+          message: `${text(node)} repeats ${text(nested.repeat)}, which can also consume what comes after it, so a failing match tries exponentially many ways to split the input.`,
+          hint,
+        });
+      }
+
+      for (const alt of innerAlternations(node.body)) {
+        const pair = alt.options.flatMap((a, i) => alt.options.slice(i + 1).map((b) => [a, b] as const))
+          .find(([a, b]) => ambiguousOptions(a, b));
+        if (pair) {
+          warnings.push({
+            kind: 'overlapping-alternation',
+            start: node.start,
+            end: node.end,
+            inner: pair.map((option) => ({ start: option.start, end: option.end })),
+            message: `The alternatives ${text(pair[0]) || '(empty)'} and ${text(pair[1]) || '(empty)'} can match the same text, and ${text(node)} repeats them, so every repetition multiplies the paths to try.`,
+            hint,
+          });
+          break;
+        }
+      }
+    }
+    children(node).forEach(visit);
+  };
+  visit(root);
+  return warnings;
+}
@@ -0,0 +1,268 @@
+// src/lib/regex/replace.ts
+// ─── Substitution & Split ────────────────────────────────────────────────────
+// Replacement templates in each flavor's own syntax — `$1` / `$<name>` in
+// JavaScript, `\g<name>` in Python, `${name}` in Go and PCRE2, `$1` / `${name}`
+// with `\` escapes in Java — parsed into one neutral form so the same
+// template can be previewed against any engine's matches and re-emitted for
+// another language. Split follows each language's own rules for captures and
+// empty pieces.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { RegexFlavor } from './flavors';
+import type { RegexMatch } from './types';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type ReplacementPart =
+  | { kind: 'text'; text: string }
+  /** Group 0 is the whole match */
+  | { kind: 'group'; group: number | string }
+  | { kind: 'before' }
+  | { kind: 'after' };
+
+export interface Substitution {
+  output: string;
+  /** What each match was replaced with, parallel to the matches */
+  replacements: string[];
+}
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Python template escapes that stand for a character */
+const PYTHON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', f: '\f', v: '\v', a: '\x07', b: '\b', '\\': '\\' };
+
+const NAME = /^[A-Za-z_]\w*/;
+
+// ─── PARSING ─────────────────────────────────────────────────────────────────
+
+/** `$`-style templates: JavaScript (GetSubstitution) */
+function parseJavaScript(template: string, groupNames: (string | undefined)[]): ReplacementPart[] {
+  const parts: ReplacementPart[] = [];
+  const groupCount = groupNames.length;
+  const hasNames = groupNames.some(Boolean);
+  let i = 0;
+  while (i < template.length) {
+    const next = template[i + 1];
+    if (template[i] !== '$' || next === undefined) { parts.push({ kind: 'text', text: template[i++] }); continue; }
+    if (next === '$') { parts.push({ kind: 'text', text: '$' }); i += 2; continue; }
+    if (next === '&') { parts.push({ kind: 'group', group: 0 }); i += 2; continue; }
+    if (next === '`') { parts.push({ kind: 'before' }); i += 2; continue; }
+    if (next === "'") { parts.push({ kind: 'after' }); i += 2; continue; }
+    const digits = /^\d\d?/.exec(template.slice(i + 1))?.[0];
+    if (digits) {
+      // `$12` means group 12 only when it exists, otherwise group 1 followed by "2"
+      const two = Number(digits);
+      const one = Number(digits[0]);
+      if (digits.length === 2 && two >= 1 && two <= groupCount) { parts.push({ kind: 'group', group: two }); i += 3; continue; }
+      if (one >= 1 && one <= groupCount) { parts.push({ kind: 'group', group: one }); i += 2; continue; }
+    }
+    if (next === '<' && hasNames) {
+      const end = template.indexOf('>', i);
+      if (end !== -1) { parts.push({ kind: 'group', group: template.slice(i + 2, end) }); i = end + 1; continue; }
+    }
+    parts.push({ kind: 'text', text: '$' });
+    i++;
+  }
+  return parts;
+}
+
+/** `$n`, `${n}` and `$name` / `${name}`: PCRE2's pcre2_substitute, strict about unknown groups */
+function parsePcre2(template: string, groupNames: (string | undefined)[]): ReplacementPart[] {
+  const parts: ReplacementPart[] = [];
+  let i = 0;
+  while (i < template.length) {
+    if (template[i] !== '$') { parts.push({ kind: 'text', text: template[i++] }); continue; }
+    if (template[i + 1] === '$') { parts.push({ kind: 'text', text: '$' }); i += 2; continue; }
+    const braced = template[i + 1] === '{';
+    const rest = template.slice(i + (braced ? 2 : 1));
+    const ref = /^\d+/.exec(rest)?.[0] ?? NAME.exec(rest)?.[0];
+    if (!ref || (braced && rest[ref.length] !== '}')) throw new Error(`Invalid replacement string at offset ${i}.`);
+    const group = /^\d/.test(ref) ? Number(ref) : ref;
+    if (typeof group === 'number' ? group > groupNames.length : !groupNames.includes(group)) {
+      throw new Error(`Unknown group "${ref}" in the replacement at offset ${i}.`);
+    }
+    parts.push({ kind: 'group', group });
+    i += ref.length + (braced ? 3 : 1);
+  }
+  return parts;
+}
+
+/** `\1`, `\g<1>`, `\g<name>` and character escapes: Python's re.sub */
+function parsePython(template: string, groupNames: (string | undefined)[]): ReplacementPart[] {
+  const parts: ReplacementPart[] = [];
+  const check = (group: number | string, at: number) => {
+    if (typeof group === 'number' ? group > groupNames.length : !groupNames.includes(group)) {
+      throw new Error(typeof group === 'number' ? `invalid group reference ${group} at position ${at + 1}` : `unknown group name '${group}'`);
+    }
+    return group;
+  };
+  let i = 0;
+  while (i < template.length) {
+    if (template[i] !== '\\') { parts.push({ kind: 'text', text: template[i++] }); continue; }
+    const next = template[i + 1];
+    if (next === undefined) throw new Error(`bad escape (end of pattern) at position ${i}`);
+    if (next === 'g') {
+      const ref = /^<([^>]*)>/.exec(template.slice(i + 2));
+      if (!ref) throw new Error(`missing < at position ${i + 2}`);
+      const group = /^\d+$/.test(ref[1]) ? Number(ref[1]) : ref[1];
+      if (typeof group === 'string' && !NAME.test(group)) throw new Error(`bad character in group name '${group}' at position ${i + 3}`);
+      parts.push({ kind: 'group', group: check(group, i) });
+      i += ref[0].length + 2;
+      continue;
+    }
+    const digits = /^[1-9]\d?/.exec(template.slice(i + 1))?.[0];
+    if (digits) { parts.push({ kind: 'group', group: check(Number(digits), i) }); i += digits.length + 1; continue; }
+    if (PYTHON_ESCAPES[next]) { parts.push({ kind: 'text', text: PYTHON_ESCAPES[next] }); i += 2; continue; }
+    if (/[A-Za-z]/.test(next)) throw new Error(`bad escape \\${next} at position ${i}`);
+    // Unknown non-letter escapes are kept as written
+    parts.push({ kind: 'text', text: template.slice(i, i + 2) });
+    i += 2;
+  }
+  return parts;
+}
+
+/** `$1`, `${1}`, `$name`, `${name}`: Go's Regexp.Expand, lenient about unknown groups */
+function parseGo(template: string): ReplacementPart[] {
+  const parts: ReplacementPart[] = [];
+  let i = 0;
+  while (i < template.length) {
+    if (template[i] !== '$') { parts.push({ kind: 'text', text: template[i++] }); continue; }
+    if (template[i + 1] === '$') { parts.push({ kind: 'text', text: '$' }); i += 2; continue; }
+    const ref = /^\{(\w+)\}/.exec(template.slice(i + 1)) ?? /^(\w+)/.exec(template.slice(i + 1));
+    if (!ref) { parts.push({ kind: 'text', text: '$' }); i++; continue; }
+    // `$1x` is the group named "1x", not group 1 followed by "x"
+    parts.push({ kind: 'group', group: /^\d+$/.test(ref[1]) ? Number(ref[1]) : ref[1] });
+    i += ref[0].length + 1;
+  }
+  return parts;
+}
+
+/** `$n`, `${name}` and `\` escapes: Java's Matcher.appendReplacement */
+function parseJava(template: string, groupNames: (string | undefined)[]): ReplacementPart[] {
+  const parts: ReplacementPart[] = [];
+  let i = 0;
+  while (i < template.length) {
+    const char = template[i];
+    if (char === '\\') {
+      if (i + 1 >= template.length) throw new Error('character to be escaped is missing');
+      parts.push({ kind: 'text', text: template[i + 1] });
+      i += 2;
+      continue;
+    }
+    if (char !== '$') { parts.push({ kind: 'text', text: char }); i++; continue; }
+    if (i + 1 >= template.length) throw new Error('Illegal group reference: group index is missing');
+    if (template[i + 1] === '{') {
+      const ref = /^\{([A-Za-z][A-Za-z0-9]*)\}/.exec(template.slice(i + 1));
+      if (!ref) throw new Error("named capturing group is missing trailing '}'");
+      if (!groupNames.includes(ref[1])) throw new Error(`No group with name {${ref[1]}}`);
+      parts.push({ kind: 'group', group: ref[1] });
+      i += ref[0].length + 1;
+      continue;
+    }
+    if (!/\d/.test(template[i + 1])) throw new Error('Illegal group reference');
+    // The first digit is always read; later ones only while the group exists
+    let group = Number(template[i + 1]);
+    if (group > groupNames.length) throw new Error(`No group ${group}`);
+    let end = i + 2;
+    while (end < template.length && /\d/.test(template[end]) && group * 10 + Number(template[end]) <= groupNames.length) {
+      group = group * 10 + Number(template[end++]);
+    }
+    parts.push({ kind: 'group', group });
+    i = end;
+  }
+  return parts;
+}
+
+/**
+ * Parse a replacement template in `flavor`'s syntax. `groupNames` has one
+ * entry per capturing group. Throws with the flavor's own complaint when the
+ * template would be rejected.
+ */
+export function parseReplacement(flavor: RegexFlavor, template: string, groupNames: (string | undefined)[]): ReplacementPart[] {
+  const parts = (() => {
+    switch (flavor) {
+      case 'javascript': return parseJavaScript(template, groupNames);
+      case 'pcre': return parsePcre2(template, groupNames);
+      case 'python': return parsePython(template, groupNames);
+      case 'go': return parseGo(template);
+      case 'java': return parseJava(template, groupNames);
+    }
+  })();
+  // Merge runs of text so callers see one part per literal
+  return parts.reduce<ReplacementPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (part.kind === 'text' && last?.kind === 'text') last.text += part.text;
+    else merged.push(part.kind === 'text' ? { ...part } : part);
+    return merged;
+  }, []);
+}
+
+// ─── SUBSTITUTION ────────────────────────────────────────────────────────────
+
+export function expandReplacement(parts: ReplacementPart[], match: RegexMatch, text: string): string {
+  return parts.map((part) => {
+    switch (part.kind) {
+      case 'text': return part.text;
+      case 'before': return text.slice(0, match.index);
+      case 'after': return text.slice(match.index + match.value.length);
+      case 'group':
+        if (part.group === 0) return match.value;
+        // Groups that did not take part, or that the pattern doesn't have, become empty
+        return (typeof part.group === 'number' ? match.captures[part.group - 1] : match.groups?.[part.group]) ?? '';
+    }
+  }).join('');
+}
+
+/** Replace every match, keeping what each one became for the per-match preview */
+export function substitute(text: string, matches: RegexMatch[], parts: ReplacementPart[]): Substitution {
+  let output = '';
+  let lastIndex = 0;
+  const replacements: string[] = [];
+  for (const match of matches) {
+    const replacement = expandReplacement(parts, match, text);
+    replacements.push(replacement);
+    if (match.index < lastIndex) continue;
+    output += text.slice(lastIndex, match.index) + replacement;
+    lastIndex = match.index + match.value.length;
+  }
+  return { output: output + text.slice(lastIndex), replacements };
+}
+
+// ─── SPLIT ───────────────────────────────────────────────────────────────────
+
+/**
+ * Split `text` at the matches the way the flavor's split function does:
+ * String.prototype.split, re.split, regexp.Split, String.split (limit 0) and
+ * preg_split for PCRE. JavaScript and Python also return the captures.
+ */
+export function splitByMatches(flavor: RegexFlavor, text: string, matches: RegexMatch[]): (string | undefined)[] {
+  const pieces: (string | undefined)[] = [];
+  let start = 0;
+  for (const match of matches) {
+    const end = match.index + match.value.length;
+    if (match.index < start) continue;
+    // JS never splits at the very end, nor on an empty match right after the last split
+    if (flavor === 'javascript' && (match.index >= text.length || end === start)) continue;
+    // Go drops an empty match at the start; Java a zero-width one there
+    if ((flavor === 'go' || flavor === 'java') && end === 0) continue;
+    pieces.push(text.slice(start, match.index));
+    if (flavor === 'javascript' || flavor === 'python') pieces.push(...match.captures);
+    start = end;
+  }
+  if (flavor === 'javascript' && text.length === 0) return matches.length > 0 ? [] : [''];
+  if (flavor === 'go') {
+    // regexp.Split leaves out the tail when the last match ends the string
+    const last = matches[matches.length - 1];
+    if (!(last && last.index === text.length && text.length > 0)) pieces.push(text.slice(start));
+    return text.length === 0 ? [''] : pieces;
+  }
+  if (flavor === 'java') {
+    // Without a single split the input comes back whole; otherwise trailing empties go
+    if (start === 0) return [text];
+    pieces.push(text.slice(start));
+    while (pieces.length > 0 && pieces[pieces.length - 1] === '') pieces.pop();
+    return pieces;
+  }
+  pieces.push(text.slice(start));
+  return pieces;
+}
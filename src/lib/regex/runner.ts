@@ -0,0 +1,99 @@
+// src/lib/regex/runner.ts
+// ─── Regex Runner ────────────────────────────────────────────────────────────
+// Sends runs to the regex worker with a hard deadline. A run that's still
+// going when the deadline passes is killed along with its worker, and the
+// next run gets a fresh one — the page never waits on a backtracking engine.
+// A newer request supersedes any run still in flight.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { emptyRun, runRegex, type RegexRun } from './engines';
+import type { RegexFlavor } from './flavors';
+import type { RegexWorkerRequest, RegexWorkerResponse } from '../../workers/regex.worker';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Covers the first PCRE2 load, which happens inside the worker */
+export const HARD_TIMEOUT_MS = 3000;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export interface RegexRunner {
+  /** Run each flavor in turn; resolves to null when a newer call superseded it */
+  run(flavors: readonly RegexFlavor[], pattern: string, flags: string, text: string): Promise<RegexRun[] | null>;
+  dispose(): void;
+}
+
+interface Pending {
+  id: number;
+  request: Omit<RegexWorkerRequest, 'id'>;
+  resolve: (run: RegexRun | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// ─── RUNNER ──────────────────────────────────────────────────────────────────
+
+export function createRegexRunner(timeoutMs = HARD_TIMEOUT_MS): RegexRunner {
+  let worker: Worker | null = null;
+  let pending: Pending | null = null;
+  let nextId = 0;
+  let generation = 0;
+
+  /** Drop the worker and settle its run with `outcome`; the next run spawns a new one */
+  const kill = (outcome: (request: Pending['request']) => RegexRun | null) => {
+    worker?.terminate();
+    worker = null;
+    if (pending) {
+      clearTimeout(pending.timer);
+      pending.resolve(outcome(pending.request));
+      pending = null;
+    }
+  };
+
+  const spawn = (): Worker => {
+    const w = new Worker(new URL('../../workers/regex.worker.ts', import.meta.url), { type: 'module' });
+    w.onmessage = (event: MessageEvent<RegexWorkerResponse>) => {
+      if (event.data.id !== pending?.id) return;
+      clearTimeout(pending.timer);
+      pending.resolve(event.data.run);
+      pending = null;
+    };
+    w.onerror = (event) => {
+      event.preventDefault();
+      kill(({ flavor, pattern, flags }) => ({ ...emptyRun(flavor, pattern, flags), error: `The regex worker failed: ${event.message}` }));
+    };
+    return w;
+  };
+
+  const runOne = (request: Omit<RegexWorkerRequest, 'id'>): Promise<RegexRun | null> =>
+    new Promise((resolve) => {
+      worker ??= spawn();
+      const id = ++nextId;
+      const timer = setTimeout(() => {
+        kill(({ flavor, pattern, flags }) => ({ ...emptyRun(flavor, pattern, flags), timedOut: true, terminated: true }));
+      }, timeoutMs);
+      pending = { id, request, resolve, timer };
+      worker.postMessage({ id, ...request } satisfies RegexWorkerRequest);
+    });
+
+  return {
+    async run(flavors, pattern, flags, text) {
+      const current = ++generation;
+      // Whatever is still running belongs to an older request
+      if (pending) kill(() => null);
+
+      const runs: RegexRun[] = [];
+      for (const flavor of flavors) {
+        const run = typeof Worker === 'undefined'
+          ? await runRegex(flavor, pattern, flags, text)
+          : await runOne({ flavor, pattern, flags, text });
+        if (current !== generation || !run) return null;
+        runs.push(run);
+      }
+      return runs;
+    },
+    dispose() {
+      generation++;
+      kill(() => null);
+    },
+  };
+}
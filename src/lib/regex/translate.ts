@@ -0,0 +1,91 @@
+// src/lib/regex/translate.ts
+// ─── Flavor → PCRE2 Translation ──────────────────────────────────────────────
+// Python's `re` and Java's java.util.regex are close enough to PCRE2 that the
+// tester runs them on the PCRE2 engine after rewriting the few spellings that
+// differ: \Z, \uXXXX / \UXXXXXXXX, {,n}, Unicode-by-default matching and the
+// inline flags PCRE2 lacks. Patterns are rewritten token by token, so escapes
+// inside classes and \Q…\E stay untouched.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { tokenizePattern, type ConstructId } from './constructs';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type TranslatedFlavor = 'python' | 'java';
+
+export interface Translation {
+  pattern: string;
+  /** PCRE2 flags (a subset of `imsx`) */
+  flags: string;
+}
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Constructs the flavor supports but PCRE2 10.34 can't reproduce */
+const NOT_EMULATED: Record<TranslatedFlavor, Partial<Record<ConstructId, string>>> = {
+  python: { 'named-character': 'PCRE2 has no Unicode character names, so \\N{…} can\'t be evaluated here.' },
+  java: { 'class-intersection': 'PCRE2 has no class intersection, so && can\'t be evaluated here.' },
+};
+
+/** Inline flags the flavor accepts that PCRE2 would reject; `a` and `U` are applied globally instead */
+const FOREIGN_INLINE_FLAGS: Record<TranslatedFlavor, RegExp> = {
+  python: /[aLu]/g,
+  java: /[dUu]/g,
+};
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function hexEscape(token: string): string {
+  return `\\x{${token.slice(2).replace(/^0+(?=.)/, '')}}`;
+}
+
+/** Drop inline flags PCRE2 doesn't know; a group left with no flags disappears */
+function stripInlineFlags(text: string, foreign: RegExp): string {
+  const stripped = text.replace(foreign, '');
+  return /^\(\?\^?-?\)$/.test(stripped) ? '' : stripped;
+}
+
+// ─── TRANSLATION ─────────────────────────────────────────────────────────────
+
+/**
+ * Rewrite a Python or Java pattern for PCRE2. `flags` are the flavor's own
+ * flags; the result holds the PCRE2 ones. Throws for constructs PCRE2 can't
+ * reproduce — callers check the flavor's unsupported constructs first.
+ */
+export function translateToPcre2(flavor: TranslatedFlavor, pattern: string, flags: string): Translation {
+  // Python 3 str patterns match Unicode by default unless ASCII is asked for;
+  // Java only does with UNICODE_CHARACTER_CLASS
+  let unicode = flavor === 'python' ? !flags.includes('a') : flags.includes('U');
+  let output = '';
+
+  for (const token of tokenizePattern(pattern)) {
+    const problem = token.construct && NOT_EMULATED[flavor][token.construct];
+    if (problem) throw new Error(problem);
+
+    switch (token.construct) {
+      case 'unicode-escape':
+      case 'python-unicode-escape':
+        output += hexEscape(token.text);
+        break;
+      case 'end-anchor':
+        // Python's \Z is the absolute end; Java's matches before a final newline like PCRE's
+        output += flavor === 'python' ? '\\z' : token.text;
+        break;
+      case 'omitted-minimum':
+        output += token.text.replace('{,', '{0,');
+        break;
+      case 'inline-flags':
+        if (flavor === 'python' && token.text.includes('a')) unicode = false;
+        if (flavor === 'java' && /U/.test(token.text.split('-')[0])) unicode = true;
+        output += stripInlineFlags(token.text, FOREIGN_INLINE_FLAGS[flavor]);
+        break;
+      default:
+        output += token.text;
+    }
+  }
+
+  return {
+    pattern: unicode ? `(*UCP)${output}` : output,
+    flags: [...flags].filter((flag) => 'imsx'.includes(flag)).join(''),
+  };
+}
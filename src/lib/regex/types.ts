@@ -0,0 +1,12 @@
+// src/lib/regex/types.ts
+// Shared shapes for the regex engines and the Regex Tester.
+
+export interface RegexMatch {
+  value: string;
+  index: number;
+  /** Numbered groups 1…n; undefined when a group did not take part */
+  captures: (string | undefined)[];
+  /** `[start, end)` of each numbered group, parallel to `captures` */
+  captureIndices: ([number, number] | undefined)[];
+  groups?: Record<string, string | undefined>;
+}
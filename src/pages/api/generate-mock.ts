@@ -1,13 +1,56 @@
 // src/pages/api/generate-mock.ts
 import type { APIRoute } from 'astro';
+import { APICallError, RetryError } from 'ai';
+import {
+  acceptAnyRow,
+  compileRowValidator,
+  generateMockRows,
+  type MockErrorCode,
+  type MockRowEvent,
+  type RowSchemaDialect,
+  type RowValidator,
+} from '../../lib/ai/mockRows';
+import { createLanguageModel, resolveAIConfig, type AIEnv } from '../../lib/ai/providers';
+import { createKVStore, createMemoryStore, isKVNamespace, resolveRateLimit, type RateLimitStore } from '../../lib/ai/rateLimit';
 
 export const prerender = false;
 
+/** Maximum request body size, checked before any of it is parsed */
+const MAX_BODY_BYTES = 64 * 1024;
+
 /** Maximum character length accepted for the user prompt */
 const MAX_PROMPT_LENGTH = 4000;
 
-/** Abort OpenAI requests that take longer than this */
-const REQUEST_TIMEOUT_MS = 30_000;
+/** Maximum serialized size of the records sent for enrichment */
+const MAX_RECORDS_LENGTH = 32_000;
+
+/** Maximum serialized size of the row schema */
+const MAX_SCHEMA_LENGTH = 16_000;
+
+const SCHEMA_DIALECTS: readonly RowSchemaDialect[] = ['draft-2020-12', 'openapi-3.0'];
+
+const NDJSON = 'application/x-ndjson';
+
+/** Provider selection — see `src/lib/ai/providers.ts` */
+const AI_ENV: AIEnv = {
+  AI_PROVIDER: import.meta.env.AI_PROVIDER,
+  AI_MODEL: import.meta.env.AI_MODEL,
+  AI_BASE_URL: import.meta.env.AI_BASE_URL,
+  AI_API_KEY: import.meta.env.AI_API_KEY,
+  OPENAI_API_KEY: import.meta.env.OPENAI_API_KEY,
+  ANTHROPIC_API_KEY: import.meta.env.ANTHROPIC_API_KEY,
+};
+
+/** Per-client request budget — see `src/lib/ai/rateLimit.ts` */
+const RATE_LIMIT = resolveRateLimit({
+  RATE_LIMIT_CAPACITY: import.meta.env.RATE_LIMIT_CAPACITY,
+  RATE_LIMIT_REFILL_SECONDS: import.meta.env.RATE_LIMIT_REFILL_SECONDS,
+});
+
+/** Used when no RATE_LIMIT KV namespace is bound (dev, tests) */
+const memoryStore = createMemoryStore();
+
+type ErrorBody = { error: string; code: MockErrorCode; retryAfter?: number };
 
 /**
  * Strip control characters and truncate prompt to prevent:
@@ -23,75 +66,203 @@ function sanitizePrompt(raw: string): string {
     .trim();
 }
 
-export const POST: APIRoute = async ({ request }) => {
+function jsonError(code: MockErrorCode, error: string, status: number, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify({ error, code } satisfies ErrorBody), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function rateLimitStore(locals: App.Locals): RateLimitStore {
+  // Cloudflare bindings from wrangler.jsonc, exposed by the adapter
+  const binding = (locals as { runtime?: { env?: Record<string, unknown> } }).runtime?.env?.RATE_LIMIT;
+  return isKVNamespace(binding) ? createKVStore(binding) : memoryStore;
+}
+
+/** Cloudflare sets CF-Connecting-IP on every request, replacing any value the client sent */
+function clientKey(request: Request, clientAddress: () => string): string {
+  const forwarded = request.headers.get('CF-Connecting-IP')?.trim();
+  if (forwarded) return forwarded;
   try {
-    const body = await request.json();
-    const rawPrompt: string = typeof body.prompt === 'string' ? body.prompt : '';
-    const rowCount: unknown = body.rowCount ?? 5;
+    return clientAddress();
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Read the body as text, giving up as soon as it passes `limit` bytes so an
+ * oversized upload is never buffered. Returns null when the body is too large.
+ */
+async function readBodyText(request: Request, limit: number): Promise<string | null> {
+  if (Number(request.headers.get('Content-Length')) > limit) return null;
+  if (!request.body) return '';
 
-    if (!rawPrompt) {
-      return new Response(JSON.stringify({ error: 'Prompt is required.' }), { status: 400 });
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
     }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
 
-    const prompt = sanitizePrompt(rawPrompt);
-    if (!prompt) {
-      return new Response(JSON.stringify({ error: 'Prompt is empty after sanitization.' }), { status: 400 });
+/**
+ * Map a failure to a status and a message safe to show. Logs only error
+ * classes and status codes — never messages, which might echo user input.
+ */
+function describeFailure(thrown: unknown): { status: number; code: MockErrorCode; message: string } {
+  // Failed calls are retried; report the last attempt
+  const error = RetryError.isInstance(thrown) ? thrown.lastError : thrown;
+  if (error instanceof Error && error.name === 'AIConfigError') {
+    // Config messages name env vars only, never user input
+    console.error('AI provider misconfigured:', error.message);
+    return { status: 503, code: 'not_configured', message: 'AI generation is not configured on this server.' };
+  }
+  if (APICallError.isInstance(error)) {
+    console.error('AI provider error status:', error.statusCode ?? 'unknown');
+    return { status: 502, code: 'provider_error', message: 'AI service returned an error. Please try again.' };
+  }
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return { status: 504, code: 'timeout', message: 'Request timed out. Please try again.' };
+  }
+  console.error('Backend Error class:', error instanceof Error ? error.constructor.name : 'UnknownError');
+  return { status: 500, code: 'generation_failed', message: 'Generation failed. Please try again.' };
+}
+
+/** Stream pipeline events as NDJSON; failures after the first byte become an `error` event */
+function ndjsonResponse(events: AsyncGenerator<MockRowEvent>): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: MockRowEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      try {
+        for await (const event of events) send(event);
+      } catch (error) {
+        const { code, message } = describeFailure(error);
+        send({ type: 'error', code, error: message });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+  return new Response(stream, {
+    status: 200,
+    headers: { 'Content-Type': `${NDJSON}; charset=utf-8`, 'Cache-Control': 'no-store' },
+  });
+}
+
+export const POST: APIRoute = async (context) => {
+  const { request } = context;
+  try {
+    // `clientAddress` is a getter that throws where the adapter can't tell
+    const limit = await rateLimitStore(context.locals)
+      .take(`generate-mock:${clientKey(request, () => context.clientAddress)}`, RATE_LIMIT, Date.now())
+      .catch((error: unknown) => {
+        // A store outage shouldn't take the endpoint down with it
+        console.error('Rate limit store error class:', error instanceof Error ? error.constructor.name : 'UnknownError');
+        return null;
+      });
+    if (limit && !limit.allowed) {
+      return new Response(
+        JSON.stringify({
+          error: `Too many requests. Try again in ${limit.retryAfter} seconds.`,
+          code: 'rate_limited',
+          retryAfter: limit.retryAfter,
+        } satisfies ErrorBody),
+        {
+          status: 429,
+          headers: { 'Content-Type': 'application/json', 'Retry-After': String(limit.retryAfter) },
+        },
+      );
     }
 
-    if (typeof rowCount !== 'number' || !Number.isInteger(rowCount) || rowCount < 1 || rowCount > 100) {
-      return new Response(JSON.stringify({ error: 'Row count must be an integer between 1 and 100.' }), { status: 400 });
+    const text = await readBodyText(request, MAX_BODY_BYTES);
+    if (text === null) {
+      return jsonError('payload_too_large', `Request body must be under ${MAX_BODY_BYTES / 1024} KB.`, 413);
+    }
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return jsonError('invalid_json', 'Request body must be valid JSON.', 400);
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return jsonError('invalid_json', 'Request body must be a JSON object.', 400);
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const rawPrompt: string = typeof body.prompt === 'string' ? body.prompt : '';
+    const records: unknown = body.records;
+    const rowCount: unknown = Array.isArray(records) ? records.length : body.rowCount ?? 5;
+    const schema: unknown = body.schema;
+    const dialect: unknown = body.schemaDialect ?? 'draft-2020-12';
 
-    let response: Response;
-    try {
-      response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          response_format: { type: 'json_object' },
-          temperature: 0.8,
-          messages: [
-            { role: 'system', content: 'Generate mock data. Output ONLY JSON with a "mockData" array.' },
-            { role: 'user', content: `Generate ${rowCount} records: ${prompt}` },
-          ],
-        }),
-        signal: controller.signal,
-      });
-    } finally {
-      clearTimeout(timeoutId);
+    if (records !== undefined) {
+      if (!Array.isArray(records) || records.length === 0) {
+        return jsonError('invalid_request', 'Records must be a non-empty array.', 400);
+      }
+      if (JSON.stringify(records).length > MAX_RECORDS_LENGTH) {
+        return jsonError('payload_too_large', 'Records are too large to enrich — generate fewer rows.', 413);
+      }
+    } else if (!rawPrompt) {
+      return jsonError('invalid_request', 'Prompt is required.', 400);
     }
 
-    const data = await response.json();
+    const prompt = sanitizePrompt(rawPrompt);
+    if (!prompt && !Array.isArray(records)) {
+      return jsonError('invalid_request', 'Prompt is empty after sanitization.', 400);
+    }
 
-    if (data.error) {
-      // Log only the error type/code, never the user prompt, to avoid data leakage in logs
-      console.error('OpenAI API Error type:', data.error.type ?? 'unknown');
-      return new Response(
-        JSON.stringify({ error: 'AI service returned an error. Please try again.' }),
-        { status: 502 },
-      );
+    if (typeof rowCount !== 'number' || !Number.isInteger(rowCount) || rowCount < 1 || rowCount > 100) {
+      return jsonError('invalid_request', 'Row count must be an integer between 1 and 100.', 400);
     }
 
-    const content = JSON.parse(data.choices[0].message.content);
-    if (!content.mockData) throw new Error('AI returned invalid format');
+    let validate: RowValidator = acceptAnyRow;
+    if (schema !== undefined) {
+      if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+        return jsonError('invalid_schema', 'Schema must be a JSON Schema object.', 400);
+      }
+      if (JSON.stringify(schema).length > MAX_SCHEMA_LENGTH) {
+        return jsonError('payload_too_large', 'Schema is too large.', 413);
+      }
+      if (!SCHEMA_DIALECTS.includes(dialect as RowSchemaDialect)) {
+        return jsonError('invalid_schema', `Schema dialect must be one of ${SCHEMA_DIALECTS.join(', ')}.`, 400);
+      }
+      try {
+        validate = compileRowValidator(schema as Record<string, unknown>, dialect as RowSchemaDialect);
+      } catch (error) {
+        return jsonError('invalid_schema', `Schema can't be used for validation: ${(error as Error).message}`, 400);
+      }
+    }
 
-    return new Response(JSON.stringify(content.mockData), { status: 200 });
-  } catch (error: unknown) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      return new Response(
-        JSON.stringify({ error: 'Request timed out. Please try again.' }),
-        { status: 504 },
-      );
+    const events = generateMockRows({
+      model: createLanguageModel(resolveAIConfig(AI_ENV)),
+      prompt,
+      rowCount,
+      records: Array.isArray(records) ? records : undefined,
+      schema: schema as Record<string, unknown> | undefined,
+      validate,
+      signal: request.signal,
+    });
+
+    if (request.headers.get('Accept')?.includes(NDJSON)) return ndjsonResponse(events);
+
+    const rows: unknown[] = [];
+    for await (const event of events) {
+      if (event.type === 'row') rows.push(event.data);
     }
-    // Log only the error class name — never the message, which might echo user input
-    console.error('Backend Error class:', error instanceof Error ? error.constructor.name : 'UnknownError');
-    return new Response(JSON.stringify({ error: 'Generation failed. Please try again.' }), { status: 500 });
+    if (rows.length === 0) return jsonError('no_valid_rows', 'AI returned no valid records. Please try again.', 502);
+    return new Response(JSON.stringify(rows), { status: 200 });
+  } catch (error: unknown) {
+    const { status, code, message } = describeFailure(error);
+    return jsonError(code, message, status);
   }
-};
\ No newline at end of file
+};
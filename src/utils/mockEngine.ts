@@ -0,0 +1,812 @@
+// src/utils/mockEngine.ts
+// ─── Mock Data Engine ────────────────────────────────────────────────────────
+// Generates mock records from an OpenAPI document or a standalone JSON Schema
+// without leaving the browser. Every value honours its schema — formats,
+// enums, min/max (exclusive too) and multipleOf, string lengths, `pattern`,
+// array sizes and uniqueness, required properties, allOf / oneOf / anyOf and
+// `$ref`s across the document — and property names pick realistic values
+// (`email`, `firstName`, `price`, `createdAt`, …) where the schema allows it.
+//
+// Output is seeded: record N depends only on the seed and N, so the same seed
+// always reproduces the same data, and asking for more rows keeps the first
+// ones unchanged.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  HTTP_METHODS,
+  normalizeSpecFragment,
+  parseSpecText,
+  type PathItemObject,
+  type ResponseObject,
+  type SchemaObject,
+} from './openapiParser';
+import { ENTRY_FILE, loadSpecBundle, resolveRef, resolveValue, type SpecBundle } from './openapiRefs';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const MAX_MOCK_RECORDS = 100;
+
+const MAX_DEPTH = 16;
+
+/** Longest array generated when `maxItems` is missing or huge */
+const MAX_ARRAY_ITEMS = 20;
+
+/** Chance an optional property is present */
+const OPTIONAL_RATE = 0.75;
+
+/** Chance a nullable value is `null` */
+const NULL_RATE = 0.1;
+
+/** Extra repetitions allowed for `*`, `+` and `{n,}` in patterns */
+const MAX_PATTERN_REPEAT = 4;
+
+const FIRST_NAMES = ['Ada', 'Alan', 'Grace', 'Linus', 'Margaret', 'Ken', 'Barbara', 'Dennis', 'Radia', 'Tim', 'Frances', 'Guido', 'Katherine', 'Brendan', 'Hedy', 'James'];
+const LAST_NAMES = ['Lovelace', 'Turing', 'Hopper', 'Torvalds', 'Hamilton', 'Thompson', 'Liskov', 'Ritchie', 'Perlman', 'Berners-Lee', 'Allen', 'van Rossum', 'Johnson', 'Eich', 'Lamarr', 'Gosling'];
+const CITIES = ['Lisbon', 'Toronto', 'Nairobi', 'Osaka', 'Berlin', 'Austin', 'Melbourne', 'Bogotá', 'Oslo', 'Seoul'];
+const COUNTRIES = ['Portugal', 'Canada', 'Kenya', 'Japan', 'Germany', 'United States', 'Australia', 'Colombia', 'Norway', 'South Korea'];
+const COUNTRY_CODES = ['PT', 'CA', 'KE', 'JP', 'DE', 'US', 'AU', 'CO', 'NO', 'KR'];
+const STREETS = ['Maple Avenue', 'Harbor Road', 'Station Street', 'Elm Lane', 'Market Square', 'Hillside Drive'];
+const COMPANIES = ['Acme Corp', 'Globex', 'Initech', 'Umbrella Labs', 'Stark Industries', 'Hooli', 'Vandelay Industries'];
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD'];
+const LOCALES = ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP', 'pt-BR'];
+const WORDS = ['alpha', 'bright', 'cloud', 'delta', 'ember', 'forest', 'glacier', 'harbor', 'island', 'jade', 'kernel', 'lumen', 'meadow', 'nova', 'orbit', 'pixel', 'quartz', 'river', 'summit', 'timber', 'violet', 'willow'];
+const EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net'];
+
+/** Keywords whose values are data, not schemas — their `$ref` keys are left alone */
+const DATA_KEYWORDS = new Set(['enum', 'default', 'example', 'examples', 'const']);
+
+const DIGITS = '0123456789';
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const UPPER = LOWER.toUpperCase();
+const WORD_CHARS = `${LOWER}${UPPER}${DIGITS}_`;
+const HEX = '0123456789abcdef';
+
+/** Characters `.` and negated classes draw from */
+const PRINTABLE = Array.from({ length: 94 }, (_, i) => String.fromCharCode(33 + i)).join('');
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** Seeded pseudo-random source; the same seed always yields the same sequence */
+export interface Random {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] */
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  chance(probability: number): boolean;
+}
+
+/** A schema records can be generated for */
+export interface MockTarget {
+  /** Stable identifier (JSON Pointer or `METHOD path status`) */
+  id: string;
+  label: string;
+  schema: SchemaObject;
+  file: string;
+}
+
+/** Parsed input ready for generation: documents to resolve refs in, plus the schemas on offer */
+export interface MockSchemaSource {
+  kind: 'openapi' | 'json-schema';
+  documents: SpecBundle['documents'];
+  targets: MockTarget[];
+  warnings: string[];
+}
+
+export interface MockOptions {
+  count: number;
+  seed: string;
+}
+
+export interface MockResult {
+  records: unknown[];
+  warnings: string[];
+}
+
+interface MockContext {
+  documents: SpecBundle['documents'];
+  random: Random;
+  /** 1-based position of the record being generated */
+  index: number;
+  warn: (message: string) => void;
+}
+
+interface NumberHint {
+  min: number;
+  max: number;
+  decimals?: number;
+}
+
+type PatternNode =
+  | { kind: 'chars'; chars: string }
+  | { kind: 'seq'; items: PatternNode[] }
+  | { kind: 'alt'; options: PatternNode[] }
+  | { kind: 'repeat'; node: PatternNode; min: number; max: number };
+
+// ─── RANDOM ──────────────────────────────────────────────────────────────────
+
+/** FNV-1a hash of the seed text, so any string works as a seed */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 — small, fast and good enough for test data */
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    chance: (probability) => next() < probability,
+  };
+}
+
+// ─── SOURCES ─────────────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasSchemaKeywords(node: Record<string, unknown>): boolean {
+  return ['type', 'properties', 'items', '$ref', 'allOf', 'oneOf', 'anyOf', 'enum'].some((key) => key in node);
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/** 2xx JSON response bodies that aren't just a component `$ref` (those are listed already) */
+function responseTargets(bundle: SpecBundle): MockTarget[] {
+  const targets: MockTarget[] = [];
+  for (const [path, raw] of Object.entries(bundle.spec.paths ?? {})) {
+    const item = resolveValue<PathItemObject>(bundle, raw, bundle.entry);
+    for (const method of HTTP_METHODS) {
+      const operation = item?.value[method];
+      if (!item || !operation) continue;
+      for (const [status, rawResponse] of Object.entries(operation.responses ?? {})) {
+        if (!/^2/.test(status)) continue;
+        const response = resolveValue<ResponseObject>(bundle, rawResponse, item.file);
+        const json = Object.entries(response?.value.content ?? {}).find(([type]) => /json/i.test(type));
+        const schema = json?.[1].schema;
+        if (!response || !schema || schema.$ref?.includes('/components/schemas/')) continue;
+        const label = `${method.toUpperCase()} ${path} → ${status}`;
+        targets.push({ id: label, label, schema, file: response.file });
+      }
+    }
+  }
+  return targets;
+}
+
+function openAPISource(input: string): MockSchemaSource {
+  const bundle = loadSpecBundle([{ name: ENTRY_FILE, content: input }]);
+  const components = Object.keys(bundle.spec.components?.schemas ?? {}).map((name) => {
+    const pointer = `#/components/schemas/${escapePointer(name)}`;
+    return { id: pointer, label: name, schema: { $ref: pointer }, file: bundle.entry };
+  });
+  return {
+    kind: 'openapi',
+    documents: bundle.documents,
+    targets: [...components, ...responseTargets(bundle)],
+    warnings: bundle.warnings,
+  };
+}
+
+function jsonSchemaSource(raw: Record<string, unknown>): MockSchemaSource {
+  const { document, warnings } = normalizeSpecFragment(raw, '3.1');
+  const root = document as Record<string, unknown>;
+  const targets: MockTarget[] = [];
+  if (hasSchemaKeywords(root)) {
+    const label = typeof root.title === 'string' && root.title ? root.title : 'Root schema';
+    targets.push({ id: '#', label, schema: { $ref: '#' }, file: ENTRY_FILE });
+  }
+  for (const section of ['$defs', 'definitions']) {
+    const defs = root[section];
+    if (!isObject(defs)) continue;
+    for (const name of Object.keys(defs)) {
+      const pointer = `#/${section}/${escapePointer(name)}`;
+      targets.push({ id: pointer, label: name, schema: { $ref: pointer }, file: ENTRY_FILE });
+    }
+  }
+  return { kind: 'json-schema', documents: new Map([[ENTRY_FILE, document]]), targets, warnings };
+}
+
+/**
+ * Parse an OpenAPI / Swagger document or a JSON Schema (JSON or YAML).
+ * Throws on unreadable input, like `parseOpenAPI`.
+ */
+export function loadMockSource(input: string): MockSchemaSource {
+  const raw = parseSpecText(input);
+  if (!isObject(raw)) throw new Error('Expected an OpenAPI document or a JSON Schema object');
+  if ('openapi' in raw || 'swagger' in raw || 'paths' in raw) return openAPISource(input);
+  return jsonSchemaSource(raw);
+}
+
+// ─── PATTERNS ────────────────────────────────────────────────────────────────
+
+function classEscape(char: string): string | null {
+  switch (char) {
+    case 'd': return DIGITS;
+    case 'w': return WORD_CHARS;
+    case 's': return ' ';
+    case 'D': return LOWER + UPPER;
+    case 'W': return '-.!@#';
+    case 'S': return LOWER + UPPER + DIGITS;
+    case 'n': return '\n';
+    case 't': return '\t';
+    default: return null;
+  }
+}
+
+/**
+ * Parse the subset of ECMAScript regex syntax that can be sampled: literals,
+ * classes, escapes, groups, alternation and quantifiers. Lookarounds and
+ * backreferences throw.
+ */
+function parsePattern(pattern: string): PatternNode {
+  let i = 0;
+
+  const readHex = (length: number) => {
+    const code = parseInt(pattern.slice(i, i + length), 16);
+    i += length;
+    return String.fromCharCode(code);
+  };
+
+  const readEscape = (): string => {
+    const char = pattern[i++];
+    if (char === undefined) throw new Error('trailing backslash');
+    if (/[1-9k]/.test(char)) throw new Error('backreferences are not supported');
+    if (char === 'x') return readHex(2);
+    if (char === 'u' && pattern[i] === '{') {
+      const end = pattern.indexOf('}', i);
+      const code = parseInt(pattern.slice(i + 1, end), 16);
+      i = end + 1;
+      return String.fromCodePoint(code);
+    }
+    if (char === 'u') return readHex(4);
+    return classEscape(char) ?? char;
+  };
+
+  const parseClass = (): PatternNode => {
+    const negate = pattern[i] === '^';
+    if (negate) i++;
+    let chars = '';
+    while (i < pattern.length && pattern[i] !== ']') {
+      let start = pattern[i++];
+      if (start === '\\') {
+        const escaped = readEscape();
+        if (escaped.length > 1) {
+          chars += escaped;
+          continue;
+        }
+        start = escaped;
+      }
+      if (pattern[i] === '-' && pattern[i + 1] !== undefined && pattern[i + 1] !== ']') {
+        i++;
+        let end = pattern[i++];
+        if (end === '\\') end = readEscape();
+        for (let code = start.charCodeAt(0); code <= end.charCodeAt(0); code++) chars += String.fromCharCode(code);
+      } else {
+        chars += start;
+      }
+    }
+    if (pattern[i] !== ']') throw new Error('unterminated character class');
+    i++;
+    if (!negate && !chars) throw new Error('empty character class');
+    if (!negate) return { kind: 'chars', chars };
+    const allowed = [...PRINTABLE].filter((char) => !chars.includes(char)).join('');
+    if (!allowed) throw new Error('negated class excludes every printable character');
+    return { kind: 'chars', chars: allowed };
+  };
+
+  const parseQuantifier = (node: PatternNode): PatternNode => {
+    const char = pattern[i];
+    let min: number;
+    let max: number;
+    if (char === '*' || char === '+' || char === '?') {
+      i++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : min + MAX_PATTERN_REPEAT;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+      if (!match) return node;
+      i += match[0].length;
+      min = Number(match[1]);
+      max = match[2] === undefined ? min : match[3] ? Number(match[3]) : min + MAX_PATTERN_REPEAT;
+    } else {
+      return node;
+    }
+    if (pattern[i] === '?' || pattern[i] === '+') i++;
+    return { kind: 'repeat', node, min, max };
+  };
+
+  const parseAtom = (): PatternNode | null => {
+    const char = pattern[i++];
+    switch (char) {
+      case '^':
+      case '$':
+        return null;
+      case '.':
+        return { kind: 'chars', chars: LOWER + UPPER + DIGITS };
+      case '[':
+        return parseClass();
+      case '\\': {
+        if (pattern[i] === 'b' || pattern[i] === 'B') {
+          i++;
+          return null;
+        }
+        return { kind: 'chars', chars: readEscape() };
+      }
+      case '(': {
+        if (pattern[i] === '?') {
+          if (pattern[i + 1] === ':') i += 2;
+          else if (pattern[i + 1] === '<' && /[A-Za-z]/.test(pattern[i + 2] ?? '')) i = pattern.indexOf('>', i) + 1;
+          else throw new Error('lookarounds are not supported');
+        }
+        const inner = parseAlternation();
+        if (pattern[i] !== ')') throw new Error('unbalanced parenthesis');
+        i++;
+        return inner;
+      }
+      default:
+        return { kind: 'chars', chars: char };
+    }
+  };
+
+  const parseSequence = (): PatternNode => {
+    const items: PatternNode[] = [];
+    while (i < pattern.length && pattern[i] !== '|' && pattern[i] !== ')') {
+      const atom = parseAtom();
+      if (atom) items.push(parseQuantifier(atom));
+    }
+    return { kind: 'seq', items };
+  };
+
+  function parseAlternation(): PatternNode {
+    const options = [parseSequence()];
+    while (pattern[i] === '|') {
+      i++;
+      options.push(parseSequence());
+    }
+    return options.length === 1 ? options[0] : { kind: 'alt', options };
+  }
+
+  const tree = parseAlternation();
+  if (i < pattern.length) throw new Error('unbalanced parenthesis');
+  return tree;
+}
+
+function renderPattern(node: PatternNode, random: Random): string {
+  switch (node.kind) {
+    case 'chars':
+      return random.pick([...node.chars]);
+    case 'seq':
+      return node.items.map((item) => renderPattern(item, random)).join('');
+    case 'alt':
+      return renderPattern(random.pick(node.options), random);
+    case 'repeat': {
+      const times = random.int(node.min, node.max);
+      return Array.from({ length: times }, () => renderPattern(node.node, random)).join('');
+    }
+  }
+}
+
+/** A string matching `pattern`, or `null` (with a warning) when it can't be sampled */
+function sampleFromPattern(ctx: MockContext, pattern: string): string | null {
+  try {
+    const value = renderPattern(parsePattern(pattern), ctx.random);
+    if (new RegExp(pattern).test(value)) return value;
+    ctx.warn(`Pattern /${pattern}/ could not be sampled reliably — values may not match it`);
+  } catch (err) {
+    ctx.warn(`Pattern /${pattern}/: ${(err as Error).message} — values ignore it`);
+  }
+  return null;
+}
+
+// ─── STRINGS ─────────────────────────────────────────────────────────────────
+
+/** Property name split into lower-case words: `createdAt` → `['created', 'at']` */
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function randomDate(random: Random): Date {
+  const start = Date.UTC(2020, 0, 1);
+  const end = Date.UTC(2026, 0, 1);
+  return new Date(start + Math.floor(random.next() * (end - start) / 1000) * 1000);
+}
+
+function hexString(random: Random, length: number): string {
+  return Array.from({ length }, () => random.pick([...HEX])).join('');
+}
+
+function sentence(random: Random, words: number): string {
+  const text = Array.from({ length: words }, () => random.pick(WORDS)).join(' ');
+  return `${text[0].toUpperCase()}${text.slice(1)}.`;
+}
+
+function emailAddress(random: Random): string {
+  const local = `${random.pick(FIRST_NAMES)}.${random.pick(LAST_NAMES)}`.toLowerCase().replace(/[^a-z.]/g, '');
+  return `${local}${random.int(1, 99)}@${random.pick(EMAIL_DOMAINS)}`;
+}
+
+function formatValue(format: string, random: Random): string | undefined {
+  switch (format) {
+    case 'email':
+    case 'idn-email':
+      return emailAddress(random);
+    case 'uuid': {
+      const hex = hexString(random, 32);
+      const variant = random.pick(['8', '9', 'a', 'b']);
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20)}`;
+    }
+    case 'date-time':
+      return randomDate(random).toISOString();
+    case 'date':
+      return randomDate(random).toISOString().slice(0, 10);
+    case 'time':
+      return `${pad(random.int(0, 23))}:${pad(random.int(0, 59))}:${pad(random.int(0, 59))}`;
+    case 'uri':
+    case 'url':
+    case 'iri':
+    case 'uri-reference':
+      return `https://${random.pick(EMAIL_DOMAINS)}/${random.pick(WORDS)}/${random.int(1, 999)}`;
+    case 'hostname':
+    case 'idn-hostname':
+      return `${random.pick(WORDS)}.${random.pick(EMAIL_DOMAINS)}`;
+    case 'ipv4':
+      return Array.from({ length: 4 }, () => random.int(1, 254)).join('.');
+    case 'ipv6':
+      return `2001:db8:${Array.from({ length: 6 }, () => hexString(random, 4)).join(':')}`;
+    case 'byte':
+      return btoa(`${random.pick(WORDS)} ${random.pick(WORDS)}`);
+    case 'binary':
+      return hexString(random, 16);
+    case 'password':
+      return Array.from({ length: 12 }, () => random.pick([...WORD_CHARS])).join('');
+    case 'phone':
+      return `+1-555-01${pad(random.int(0, 99))}`;
+    default:
+      return undefined;
+  }
+}
+
+/** A realistic value for a string property, judged by its name */
+function stringFromName(name: string, random: Random): string | undefined {
+  const words = nameWords(name);
+  const joined = words.join('');
+  const last = words[words.length - 1];
+  const first = random.pick(FIRST_NAMES);
+  const surname = random.pick(LAST_NAMES);
+
+  if (['firstname', 'givenname', 'forename'].includes(joined)) return first;
+  if (['lastname', 'surname', 'familyname'].includes(joined)) return surname;
+  if (['name', 'fullname', 'displayname', 'author', 'owner', 'contactname', 'customername'].includes(joined)) return `${first} ${surname}`;
+  if (['username', 'login', 'handle', 'nickname'].includes(joined)) return `${first.toLowerCase()}${random.int(1, 999)}`;
+  if (last === 'email') return emailAddress(random);
+  if (['phone', 'mobile', 'telephone', 'tel'].includes(last)) return formatValue('phone', random);
+  if (last === 'city') return random.pick(CITIES);
+  if (joined === 'countrycode') return random.pick(COUNTRY_CODES);
+  if (last === 'country') return random.pick(COUNTRIES);
+  if (['street', 'address', 'address1', 'addressline1', 'streetaddress'].includes(joined)) return `${random.int(1, 999)} ${random.pick(STREETS)}`;
+  if (['zip', 'zipcode', 'postcode', 'postalcode'].includes(joined)) return pad(random.int(10000, 99999), 5);
+  if (['company', 'organization', 'organisation', 'companyname', 'employer'].includes(joined)) return random.pick(COMPANIES);
+  if (['title', 'subject', 'headline', 'label'].includes(last)) return sentence(random, random.int(2, 4)).slice(0, -1);
+  if (['description', 'bio', 'summary', 'comment', 'body', 'content', 'notes', 'note', 'message', 'text'].includes(last)) return sentence(random, random.int(6, 12));
+  if (['avatar', 'image', 'photo', 'picture', 'thumbnail', 'logo', 'icon'].includes(last)) return `https://${random.pick(EMAIL_DOMAINS)}/images/${random.int(1, 999)}.png`;
+  if (['url', 'website', 'homepage', 'link', 'href', 'uri'].includes(last)) return formatValue('uri', random);
+  if (['color', 'colour'].includes(last)) return `#${hexString(random, 6)}`;
+  if (last === 'currency') return random.pick(CURRENCIES);
+  if (['locale', 'language', 'lang'].includes(last)) return random.pick(LOCALES);
+  if (last === 'slug') return `${random.pick(WORDS)}-${random.pick(WORDS)}`;
+  if (last === 'password') return formatValue('password', random);
+  if (['birthday', 'birthdate', 'dob', 'dateofbirth'].includes(joined)) return formatValue('date', random);
+  if (['at', 'timestamp'].includes(last) && words.length > 1) return formatValue('date-time', random);
+  if (last === 'date') return formatValue('date', random);
+  if (last === 'id' || last === 'uuid' || last === 'guid') return formatValue('uuid', random);
+  return undefined;
+}
+
+function fitLength(value: string, schema: SchemaObject, random: Random): string {
+  let out = value;
+  const min = schema.minLength ?? 0;
+  while (out.length < min) out += ` ${random.pick(WORDS)}`;
+  if (schema.maxLength !== undefined && out.length > schema.maxLength) out = out.slice(0, schema.maxLength).trimEnd();
+  return out.length < min ? out.padEnd(min, 'x') : out;
+}
+
+function stringValue(ctx: MockContext, schema: SchemaObject, name: string | undefined): string {
+  const { random } = ctx;
+  const formatted = schema.format ? formatValue(schema.format, random) : undefined;
+  if (formatted !== undefined) return formatted;
+  if (schema.pattern) {
+    const sampled = sampleFromPattern(ctx, schema.pattern);
+    if (sampled !== null) return sampled;
+  }
+  const named = name ? stringFromName(name, random) : undefined;
+  return fitLength(named ?? `${random.pick(WORDS)} ${random.pick(WORDS)}`, schema, random);
+}
+
+// ─── NUMBERS ─────────────────────────────────────────────────────────────────
+
+/** Typical range for a numeric property, judged by its name */
+function numberHint(name: string | undefined): NumberHint | undefined {
+  if (!name) return undefined;
+  const words = nameWords(name);
+  const last = words[words.length - 1];
+  if (last === 'age') return { min: 18, max: 90 };
+  if (['price', 'amount', 'cost', 'total', 'balance', 'salary', 'fee', 'subtotal'].includes(last)) return { min: 1, max: 1000, decimals: 2 };
+  if (['quantity', 'qty', 'count', 'stock'].includes(last)) return { min: 0, max: 100 };
+  if (['rating', 'stars'].includes(last)) return { min: 1, max: 5, decimals: 1 };
+  if (['percent', 'percentage', 'score'].includes(last)) return { min: 0, max: 100 };
+  if (last === 'year') return { min: 1990, max: 2025 };
+  if (['lat', 'latitude'].includes(last)) return { min: -90, max: 90, decimals: 6 };
+  if (['lng', 'lon', 'long', 'longitude'].includes(last)) return { min: -180, max: 180, decimals: 6 };
+  return undefined;
+}
+
+function decimalPlaces(value: number): number {
+  const text = String(value);
+  const exponent = /e-(\d+)$/.exec(text);
+  if (exponent) return Number(exponent[1]);
+  return text.includes('.') ? text.length - text.indexOf('.') - 1 : 0;
+}
+
+function numberValue(ctx: MockContext, schema: SchemaObject, name: string | undefined): number {
+  const integer = schema.type === 'integer';
+  const hint = numberHint(name) ?? { min: integer ? 1 : 0, max: 1000 };
+  const decimals = integer ? 0 : hint.decimals ?? 2;
+  const step = schema.multipleOf ?? (integer ? 1 : 10 ** -decimals);
+
+  let min = schema.minimum;
+  let max = schema.maximum;
+  if (min !== undefined && schema.exclusiveMinimum) min = integer ? Math.floor(min) + 1 : min + step;
+  if (max !== undefined && schema.exclusiveMaximum) max = integer ? Math.ceil(max) - 1 : max - step;
+
+  let lo = Math.max(hint.min, min ?? -Infinity);
+  let hi = Math.min(hint.max, max ?? Infinity);
+  if (lo > hi) {
+    // The name's usual range lies outside the schema's bounds
+    const span = hint.max - hint.min;
+    lo = min ?? ((max as number) > 0 ? 0 : (max as number) - span);
+    hi = max ?? lo + span;
+  }
+  if (lo > hi) return min ?? 0;
+
+  if (schema.multipleOf) {
+    const first = Math.ceil(lo / schema.multipleOf);
+    const last = Math.floor(hi / schema.multipleOf);
+    if (first > last) return lo;
+    const value = ctx.random.int(first, last) * schema.multipleOf;
+    return Number(value.toFixed(decimalPlaces(schema.multipleOf)));
+  }
+  if (integer) return ctx.random.int(Math.ceil(lo), Math.floor(hi));
+  return Number((lo + ctx.random.next() * (hi - lo)).toFixed(decimals));
+}
+
+// ─── VALUES ──────────────────────────────────────────────────────────────────
+
+function schemaType(schema: SchemaObject): SchemaObject['type'] {
+  if (schema.type) return schema.type;
+  if (schema.properties || schema.additionalProperties) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+/** Name a discriminated member is known by: its mapping key, else its schema name */
+function discriminatorValue(schema: SchemaObject, member: SchemaObject): string | undefined {
+  if (!schema.discriminator || !member.$ref) return undefined;
+  const mapped = Object.entries(schema.discriminator.mapping ?? {}).find(([, ref]) => ref === member.$ref);
+  return mapped ? mapped[0] : member.$ref.split('/').pop();
+}
+
+function arrayValue(ctx: MockContext, schema: SchemaObject, file: string, stack: Set<string>, depth: number): unknown[] {
+  const min = schema.minItems ?? 1;
+  const max = Math.min(schema.maxItems ?? Math.max(min, 3), min + MAX_ARRAY_ITEMS);
+  const length = ctx.random.int(min, Math.max(min, max));
+  const items: unknown[] = [];
+  const seen = new Set<string>();
+
+  for (let attempt = 0; items.length < length && attempt < length * 10; attempt++) {
+    const item = valueFromSchema(ctx, schema.items, file, stack, depth + 1);
+    if (item === undefined) break;
+    if (schema.uniqueItems) {
+      const key = JSON.stringify(item);
+      if (seen.has(key)) continue;
+      seen.add(key);
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+function objectValue(
+  ctx: MockContext,
+  schema: SchemaObject,
+  file: string,
+  stack: Set<string>,
+  depth: number,
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  const required = new Set(schema.required ?? []);
+
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    if (property.writeOnly) continue;
+    if (!required.has(key) && !ctx.random.chance(OPTIONAL_RATE)) continue;
+    // A record's own integer `id` counts up instead of being random
+    if (depth === 0 && key === 'id' && property.type === 'integer' && property.minimum === undefined) {
+      out[key] = ctx.index;
+      continue;
+    }
+    const value = valueFromSchema(ctx, property, file, stack, depth + 1, key);
+    if (value !== undefined) out[key] = value;
+  }
+
+  if (!schema.properties && isObject(schema.additionalProperties)) {
+    for (let i = ctx.random.int(1, 3); i > 0; i--) {
+      const value = valueFromSchema(ctx, schema.additionalProperties, file, stack, depth + 1);
+      if (value !== undefined) out[ctx.random.pick(WORDS)] = value;
+    }
+  }
+  return out;
+}
+
+/**
+ * A value matching `schema` (refs resolved relative to `file`). A ref back
+ * into one being expanded yields `undefined`, which objects and arrays leave
+ * out — recursive schemas end after one level.
+ */
+function valueFromSchema(
+  ctx: MockContext,
+  schema: SchemaObject | undefined,
+  file: string,
+  stack: Set<string>,
+  depth: number,
+  name?: string,
+): unknown {
+  if (!schema || depth > MAX_DEPTH) return undefined;
+
+  if (schema.$ref) {
+    const target = resolveRef<SchemaObject>({ documents: ctx.documents }, schema.$ref, file, ctx.warn);
+    if (!target || stack.has(target.key)) return undefined;
+    return valueFromSchema(ctx, target.value, target.file, new Set(stack).add(target.key), depth, name);
+  }
+
+  if (schema.nullable && ctx.random.chance(NULL_RATE)) return null;
+  if (schema.enum && schema.enum.length > 0) return ctx.random.pick(schema.enum);
+
+  const next = (child: SchemaObject) => valueFromSchema(ctx, child, file, stack, depth, name);
+
+  if (schema.allOf && schema.allOf.length > 0) {
+    const parts = schema.allOf.map(next);
+    const own = schema.properties ? objectValue(ctx, schema, file, stack, depth) : undefined;
+    if (parts.every((part) => isObject(part) || part === undefined)) return Object.assign({}, ...parts, own);
+    return parts.find((part) => part !== undefined);
+  }
+
+  const union = schema.oneOf ?? schema.anyOf;
+  if (union && union.length > 0) {
+    const member = ctx.random.pick(union);
+    const value = next(member);
+    const tag = discriminatorValue(schema, member);
+    if (tag !== undefined && isObject(value)) value[schema.discriminator!.propertyName] = tag;
+    return value;
+  }
+
+  switch (schemaType(schema)) {
+    case 'string':
+      return stringValue(ctx, schema, name);
+    case 'integer':
+    case 'number':
+      return numberValue(ctx, schema, name);
+    case 'boolean':
+      return ctx.random.chance(0.5);
+    case 'array':
+      return arrayValue(ctx, schema, file, stack, depth);
+    case 'object':
+      return objectValue(ctx, schema, file, stack, depth);
+    default:
+      return schema.example ?? schema.default ?? (schema.nullable ? null : undefined);
+  }
+}
+
+// ─── RECORDS ─────────────────────────────────────────────────────────────────
+
+/** The schema each record of `target` follows: list responses yield their item schema */
+function recordSchema(
+  source: MockSchemaSource,
+  target: MockTarget,
+  warn: (message: string) => void,
+): { schema: SchemaObject; file: string } {
+  const resolved = resolveValue<SchemaObject>({ documents: source.documents }, target.schema, target.file, warn);
+  if (resolved && schemaType(resolved.value) === 'array' && resolved.value.items) {
+    return { schema: resolved.value.items, file: resolved.file };
+  }
+  return { schema: target.schema, file: target.file };
+}
+
+/**
+ * Generate `count` records for `target`. A target whose schema is an array
+ * (a list response) yields records of its item schema.
+ */
+export function generateMockRecords(source: MockSchemaSource, target: MockTarget, options: MockOptions): MockResult {
+  const warnings = new Set<string>();
+  const warn = (message: string) => warnings.add(message);
+  const { schema, file } = recordSchema(source, target, warn);
+  const stack = new Set<string>();
+
+  const count = Math.max(1, Math.min(MAX_MOCK_RECORDS, Math.floor(options.count)));
+  const records: unknown[] = [];
+  for (let index = 1; index <= count; index++) {
+    const ctx: MockContext = {
+      documents: source.documents,
+      random: createRandom(`${options.seed}:${index}`),
+      index,
+      warn,
+    };
+    const record = valueFromSchema(ctx, schema, file, stack, 0);
+    if (record !== undefined) records.push(record);
+  }
+  if (records.length === 0) warn(`"${target.label}" has no type, properties or items to generate values from`);
+  return { records, warnings: [...warnings] };
+}
+
+/**
+ * A self-contained schema for one record of `target`, in the normalized
+ * OpenAPI 3.0 shape (`nullable`, boolean `exclusiveMinimum`). Every `$ref` —
+ * in any file — becomes `#/definitions/<Name>`, so a server can validate
+ * rows without the original documents.
+ */
+export function exportRecordSchema(source: MockSchemaSource, target: MockTarget): Record<string, unknown> {
+  const definitions: Record<string, unknown> = {};
+  const names = new Map<string, string>();
+  const { schema, file } = recordSchema(source, target, () => {});
+
+  const walk = (node: unknown, from: string): unknown => {
+    if (Array.isArray(node)) return node.map((item) => walk(item, from));
+    if (!isObject(node)) return node;
+    if (typeof node.$ref === 'string') {
+      const resolved = resolveRef({ documents: source.documents }, node.$ref, from);
+      if (!resolved) return {};
+      let name = names.get(resolved.key);
+      if (!name) {
+        const base = (resolved.pointer.split('/').pop() || 'Root').replace(/[^\w.-]/g, '_');
+        name = base;
+        for (let n = 2; name in definitions; n++) name = `${base}${n}`;
+        names.set(resolved.key, name);
+        definitions[name] = {};
+        definitions[name] = walk(resolved.value, resolved.file);
+      }
+      return { $ref: `#/definitions/${name}` };
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      // The discriminator picks the member, so overlapping members aren't an error
+      const name = key === 'oneOf' && node.discriminator ? 'anyOf' : key;
+      out[name] = DATA_KEYWORDS.has(key) ? value : walk(value, from);
+    }
+    return out;
+  };
+
+  const root = walk(schema, file) as Record<string, unknown>;
+  return Object.keys(definitions).length > 0 ? { ...root, definitions } : root;
+}
@@ -0,0 +1,240 @@
+// src/utils/mockExport.ts
+// ─── Mock Data Export ────────────────────────────────────────────────────────
+// Turns generated mock rows into files teams seed databases and tests with:
+// pretty JSON, NDJSON, CSV with nested objects flattened into dotted columns,
+// multi-row SQL INSERT statements for Postgres, MySQL or SQLite, and a
+// TypeScript module whose row type is inferred from the data.
+// Pure functions — no DOM, so the same exporters work in Node.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+export const MOCK_EXPORT_FORMATS = [
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'sql', label: 'SQL INSERT', extension: 'sql', mimeType: 'application/sql' },
+  { id: 'ndjson', label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  { id: 'typescript', label: 'TypeScript', extension: 'ts', mimeType: 'text/typescript' },
+] as const;
+
+export const SQL_DIALECTS = [
+  { id: 'postgres', label: 'PostgreSQL' },
+  { id: 'mysql', label: 'MySQL' },
+  { id: 'sqlite', label: 'SQLite' },
+] as const;
+
+/** Column used for rows that aren't objects */
+const VALUE_COLUMN = 'value';
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+export type MockExportFormat = (typeof MOCK_EXPORT_FORMATS)[number]['id'];
+
+export type SqlDialect = (typeof SQL_DIALECTS)[number]['id'];
+
+export interface MockExportOptions {
+  format: MockExportFormat;
+  /** SQL flavour for `sql` (default postgres) */
+  dialect?: SqlDialect;
+  /** Table for `sql` (default mock_data) */
+  tableName?: string;
+  /** Row type for `typescript` (default MockRecord) */
+  typeName?: string;
+}
+
+type PlainObject = Record<string, unknown>;
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Keys of every object row, in first-seen order */
+function collectKeys(rows: readonly unknown[], keysOf: (row: PlainObject) => string[]): string[] {
+  const keys = new Set<string>();
+  for (const row of rows) {
+    for (const key of isPlainObject(row) ? keysOf(row) : [VALUE_COLUMN]) keys.add(key);
+  }
+  return [...keys];
+}
+
+// ─── JSON / NDJSON ───────────────────────────────────────────────────────────
+
+export function toJson(rows: readonly unknown[]): string {
+  return JSON.stringify(rows, null, 2);
+}
+
+/** One compact JSON document per line, newline-terminated */
+export function toNdjson(rows: readonly unknown[]): string {
+  return rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+}
+
+// ─── CSV ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Flatten nested objects into `parent.child` keys. Arrays stay whole (as
+ * JSON in one cell) — splitting them into columns would make the header
+ * depend on the longest array.
+ */
+export function flattenRecord(record: PlainObject, prefix = ''): PlainObject {
+  const flat: PlainObject = {};
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) Object.assign(flat, flattenRecord(value, path));
+    else flat[path] = value;
+  }
+  return flat;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // RFC 4180: quote fields holding separators, quotes or line breaks; double inner quotes
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Header row of the union of flattened keys, then one line per row; missing values are empty */
+export function toCsv(rows: readonly unknown[]): string {
+  const flat = rows.map((row) => (isPlainObject(row) ? flattenRecord(row) : { [VALUE_COLUMN]: row }));
+  const columns = collectKeys(flat, Object.keys);
+  if (columns.length === 0) return '';
+  const lines = [columns.map(csvCell).join(',')];
+  for (const row of flat) lines.push(columns.map((column) => csvCell(row[column])).join(','));
+  return `${lines.join('\n')}\n`;
+}
+
+// ─── SQL ─────────────────────────────────────────────────────────────────────
+
+/** Quote an identifier: backticks for MySQL, double quotes elsewhere; the quote char is doubled */
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  const quote = dialect === 'mysql' ? '`' : '"';
+  return `${quote}${name.split(quote).join(quote + quote)}${quote}`;
+}
+
+/** Table names may be schema-qualified (`app.users`); each part is quoted on its own */
+function quoteTableName(name: string, dialect: SqlDialect): string {
+  return name.split('.').map((part) => quoteIdentifier(part, dialect)).join('.');
+}
+
+/**
+ * A string literal. Quotes are doubled everywhere; MySQL also treats
+ * backslash as an escape character by default, so it is doubled there too.
+ */
+export function quoteString(text: string, dialect: SqlDialect): string {
+  let escaped = text.replace(/'/g, "''");
+  if (dialect === 'mysql') escaped = escaped.replace(/\\/g, '\\\\').replace(/\0/g, '\\0');
+  // Postgres text can't hold NUL bytes at all
+  else if (dialect === 'postgres') escaped = escaped.replace(/\0/g, '');
+  return `'${escaped}'`;
+}
+
+function sqlValue(value: unknown, present: boolean, dialect: SqlDialect): string {
+  // SQLite has no DEFAULT keyword in VALUES lists
+  if (!present) return dialect === 'sqlite' ? 'NULL' : 'DEFAULT';
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'bigint') return String(value);
+  if (typeof value === 'boolean') {
+    if (dialect === 'sqlite') return value ? '1' : '0';
+    return value ? 'TRUE' : 'FALSE';
+  }
+  // Objects and arrays go in as JSON text, which json/jsonb columns accept
+  return quoteString(typeof value === 'object' ? JSON.stringify(value) : String(value), dialect);
+}
+
+/**
+ * One multi-row INSERT over the union of top-level keys. A key a row lacks
+ * becomes DEFAULT (NULL on SQLite), so column defaults still apply.
+ */
+export function toSqlInserts(rows: readonly unknown[], tableName = 'mock_data', dialect: SqlDialect = 'postgres'): string {
+  if (rows.length === 0) return '';
+  const records = rows.map((row) => (isPlainObject(row) ? row : { [VALUE_COLUMN]: row }));
+  const columns = collectKeys(records, Object.keys);
+  const header = `INSERT INTO ${quoteTableName(tableName.trim() || 'mock_data', dialect)} (${columns.map((c) => quoteIdentifier(c, dialect)).join(', ')}) VALUES`;
+  const values = records.map(
+    (record) => `  (${columns.map((column) => sqlValue(record[column], Object.hasOwn(record, column), dialect)).join(', ')})`,
+  );
+  return `${header}\n${values.join(',\n')};\n`;
+}
+
+// ─── TYPESCRIPT ──────────────────────────────────────────────────────────────
+
+/** PascalCase identifier for the row type; falls back to MockRecord */
+export function toTypeName(name: string): string {
+  const pascal = name
+    .replace(/[^a-zA-Z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
+    .replace(/^[a-z]/, (c) => c.toUpperCase());
+  if (!pascal) return 'MockRecord';
+  return /^\d/.test(pascal) ? `_${pascal}` : pascal;
+}
+
+function formatKey(key: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * The narrowest type covering every sample: object shapes merge (a key
+ * missing from some samples is optional), arrays union their elements.
+ */
+function inferType(samples: readonly unknown[], indent: string): string {
+  const members: string[] = [];
+  const add = (type: string) => {
+    if (!members.includes(type)) members.push(type);
+  };
+  const objects: PlainObject[] = [];
+  const elements: unknown[] = [];
+  let sawArray = false;
+
+  for (const sample of samples) {
+    if (sample === null) add('null');
+    else if (Array.isArray(sample)) {
+      sawArray = true;
+      elements.push(...sample);
+    } else if (isPlainObject(sample)) objects.push(sample);
+    else if (typeof sample === 'string' || typeof sample === 'number' || typeof sample === 'boolean') add(typeof sample);
+  }
+
+  if (objects.length > 0) {
+    const inner = `${indent}  `;
+    const keys = collectKeys(objects, Object.keys);
+    const fields = keys.map((key) => {
+      const values = objects.filter((o) => Object.hasOwn(o, key)).map((o) => o[key]);
+      const optional = values.length < objects.length ? '?' : '';
+      return `${inner}${formatKey(key)}${optional}: ${inferType(values, inner)};`;
+    });
+    members.unshift(keys.length ? `{\n${fields.join('\n')}\n${indent}}` : 'Record<string, never>');
+  }
+  if (sawArray) {
+    const element = elements.length > 0 ? inferType(elements, indent) : 'unknown';
+    members.unshift(element.includes(' | ') ? `(${element})[]` : `${element}[]`);
+  }
+  return members.length > 0 ? members.join(' | ') : 'unknown';
+}
+
+/** `export interface Name { … }` (a type alias for non-object rows) plus `export const fixtures: Name[]` */
+export function toTypeScriptFixtures(rows: readonly unknown[], typeName = 'MockRecord'): string {
+  const name = toTypeName(typeName);
+  const type = inferType(rows, '');
+  const declaration = rows.length > 0 && rows.every(isPlainObject)
+    ? `export interface ${name} ${type}`
+    : `export type ${name} = ${type};`;
+  return `${declaration}\n\nexport const fixtures: ${name}[] = ${JSON.stringify(rows, null, 2)};\n`;
+}
+
+// ─── DISPATCH ────────────────────────────────────────────────────────────────
+
+export function exportMockRows(rows: readonly unknown[], options: MockExportOptions): string {
+  switch (options.format) {
+    case 'json':
+      return toJson(rows);
+    case 'csv':
+      return toCsv(rows);
+    case 'sql':
+      return toSqlInserts(rows, options.tableName, options.dialect);
+    case 'ndjson':
+      return toNdjson(rows);
+    case 'typescript':
+      return toTypeScriptFixtures(rows, options.typeName);
+  }
+}
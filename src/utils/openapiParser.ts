@@ -1,13 +1,281 @@
 // src/utils/openapiParser.ts
+// ─── OpenAPI Parser & Normalizer ─────────────────────────────────────────────
+// Parses a spec (JSON or YAML) and normalizes Swagger 2.0, OpenAPI 3.0 and
+// OpenAPI 3.1 into one internal model shaped like OpenAPI 3.0, so the tools
+// downstream only ever read `components.schemas`, `requestBody.content` and
+// `nullable`.
+//
+// - Swagger 2.0: `definitions`, body / formData parameters, `produces` /
+//   `consumes`, `host` + `basePath` and `securityDefinitions` are upgraded,
+//   and `#/definitions/…` style refs are rewritten to their new location.
+// - OpenAPI 3.1: `type: [T, "null"]`, `const`, schema `examples` and numeric
+//   `exclusiveMinimum` are folded into their 3.0 equivalents.
+//
+// Anything that can't be carried over is reported as a warning, not an error.
+// ─────────────────────────────────────────────────────────────────────────────
+
 import yaml from 'js-yaml';
 
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
 // Prevent processing of extremely large inputs that could block the main thread
 const MAX_INPUT_SIZE = 512 * 1024; // 512 KB
 
-export function parseOpenAPI(input: string): any {
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/** Version string given to upgraded Swagger 2.0 and unversioned documents */
+const NORMALIZED_VERSION = '3.0.3';
+
+/** Schema keywords whose values are data, not schemas — never rewritten */
+const DATA_KEYWORDS = new Set(['example', 'examples', 'default', 'enum', 'const']);
+
+/**
+ * Keys whose children are name → object maps rather than schemas, so a child
+ * named `default` or `enum` (a default response, say) is still walked
+ */
+const MAP_KEYWORDS = new Set(['properties', 'patternProperties', '$defs', 'definitions', 'schemas', 'responses']);
+
+/** JSON Schema 2020-12 keywords the 3.0-shaped model has no place for */
+const UNSUPPORTED_KEYWORDS = [
+  'prefixItems',
+  'if',
+  'then',
+  'else',
+  'patternProperties',
+  'unevaluatedProperties',
+  'unevaluatedItems',
+  'dependentSchemas',
+  'dependentRequired',
+  'contains',
+  'propertyNames',
+  '$dynamicRef',
+];
+
+/** Schema keywords that stay on the outer schema when `type: [A, B]` is split into `anyOf` */
+const ANNOTATION_KEYWORDS = new Set(['title', 'description', 'default', 'example', 'nullable', 'deprecated', 'readOnly', 'writeOnly']);
+
+/** Swagger 2.0 parameter keywords that move into the OpenAPI 3 `schema` */
+const SWAGGER_SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+];
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** The dialect a document was written in — the model itself is always 3.0-shaped */
+export type OpenAPIVersion = '2.0' | '3.0' | '3.1';
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+export interface ReferenceObject {
+  $ref: string;
+  summary?: string;
+  description?: string;
+}
+
+export interface SchemaObject {
+  $ref?: string;
+  type?: SchemaType;
+  format?: string;
+  title?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: unknown[];
+  default?: unknown;
+  example?: unknown;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  not?: SchemaObject;
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean;
+  exclusiveMaximum?: boolean;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minProperties?: number;
+  maxProperties?: number;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  deprecated?: boolean;
+  [extension: `x-${string}`]: unknown;
+}
+
+export interface ExampleObject {
+  summary?: string;
+  description?: string;
+  value?: unknown;
+  externalValue?: string;
+}
+
+export interface MediaTypeObject {
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, ExampleObject | ReferenceObject>;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  allowEmptyValue?: boolean;
+  style?: string;
+  explode?: boolean;
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, ExampleObject | ReferenceObject>;
+}
+
+export interface HeaderObject {
+  description?: string;
+  required?: boolean;
+  schema?: SchemaObject;
+}
+
+export interface RequestBodyObject {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export interface ResponseObject {
+  description?: string;
+  headers?: Record<string, HeaderObject | ReferenceObject>;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: (ParameterObject | ReferenceObject)[];
+  requestBody?: RequestBodyObject | ReferenceObject;
+  responses?: Record<string, ResponseObject | ReferenceObject>;
+  security?: Record<string, string[]>[];
+}
+
+export type PathItemObject = Partial<Record<HttpMethod, OperationObject>> & {
+  $ref?: string;
+  summary?: string;
+  description?: string;
+  parameters?: (ParameterObject | ReferenceObject)[];
+};
+
+export interface ServerObject {
+  url: string;
+  description?: string;
+}
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info: { title?: string; version?: string; description?: string };
+  servers?: ServerObject[];
+  paths: Record<string, PathItemObject | ReferenceObject>;
+  components: {
+    schemas?: Record<string, SchemaObject>;
+    parameters?: Record<string, ParameterObject>;
+    requestBodies?: Record<string, RequestBodyObject>;
+    responses?: Record<string, ResponseObject>;
+    headers?: Record<string, HeaderObject>;
+    examples?: Record<string, ExampleObject>;
+    securitySchemes?: Record<string, Record<string, unknown>>;
+  };
+  security?: Record<string, string[]>[];
+  tags?: { name: string; description?: string }[];
+}
+
+export interface ParsedOpenAPI {
+  document: OpenAPIDocument;
+  /** Dialect of the input, before normalization */
+  version: OpenAPIVersion;
+  warnings: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** Swagger 2.0 parameter: OpenAPI 3 parameter fields plus inline schema keywords */
+interface SwaggerParameter extends JsonObject {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'body' | 'formData';
+  description?: string;
+  required?: boolean;
+  schema?: SchemaObject;
+  type?: string;
+  collectionFormat?: string;
+}
+
+/** Collects one warning per message, remembering where it first occurred */
+interface Reporter {
+  (where: string, message: string): void;
+  flush(): string[];
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asObject(value: unknown): JsonObject {
+  return isObject(value) ? value : {};
+}
+
+/** `~` and `/` escaped for use as one JSON Pointer segment */
+function pointerSegment(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function createReporter(): Reporter {
+  const seen = new Map<string, { where: string; count: number }>();
+  const report = ((where: string, message: string) => {
+    const entry = seen.get(message);
+    if (entry) entry.count++;
+    else seen.set(message, { where, count: 1 });
+  }) as Reporter;
+  report.flush = () =>
+    [...seen].map(([message, { where, count }]) =>
+      `${where ? `${where}: ` : ''}${message}${count > 1 ? ` (+${count - 1} more)` : ''}`,
+    );
+  return report;
+}
+
+// ─── PARSING ─────────────────────────────────────────────────────────────────
+
+/** Parses JSON or YAML text without interpreting it — used for extra spec files */
+export function parseSpecText(input: string): unknown {
   if (!input) throw new Error('Input is empty');
   if (input.length > MAX_INPUT_SIZE) throw new Error('Input exceeds maximum allowed size (512 KB)');
-  
+
   try {
     return JSON.parse(input);
   } catch {
@@ -20,26 +288,460 @@ export function parseOpenAPI(input: string): any {
   }
 }
 
-export function generateMockServer(input: string): string {
-  try {
-    const schema = parseOpenAPI(input);
-    const paths = schema.paths || {};
-    
-    let code = `import express from 'express';\nconst app = express();\napp.use(express.json());\n\n`;
-    
-    Object.entries(paths).forEach(([path, methods]: [string, any]) => {
-      Object.keys(methods).forEach((method) => {
-        const expressPath = path.replace(/{([^}]+)}/g, ':$1');
-        code += `// ${method.toUpperCase()} ${path}\n`;
-        code += `app.${method.toLowerCase()}('${expressPath}', (req, res) => {\n`;
-        code += `  res.json({ message: "Mock response for ${path}", timestamp: new Date() });\n`;
-        code += `});\n\n`;
-      });
-    });
-
-    code += `app.listen(3000, () => console.log('Mock server on port 3000'));`;
-    return code;
-  } catch (err: any) {
-    return `// Error generating server: ${err.message}`;
-  }
-}
\ No newline at end of file
+/** Parses and normalizes a Swagger 2.0 / OpenAPI 3.0 / 3.1 document */
+export function parseOpenAPI(input: string): ParsedOpenAPI {
+  return normalizeOpenAPI(parseSpecText(input));
+}
+
+// ─── VERSION DETECTION ───────────────────────────────────────────────────────
+
+function detectVersion(doc: JsonObject, warnings: string[]): OpenAPIVersion {
+  if (doc.swagger !== undefined) {
+    const swagger = String(doc.swagger);
+    if (!swagger.startsWith('2.')) throw new Error(`Swagger ${swagger} is not supported — convert it to Swagger 2.0 or OpenAPI 3 first`);
+    return '2.0';
+  }
+  if (doc.openapi !== undefined) {
+    const openapi = String(doc.openapi);
+    if (/^3\.0(\.|$)/.test(openapi)) return '3.0';
+    if (/^3\.1(\.|$)/.test(openapi)) return '3.1';
+    warnings.push(`OpenAPI ${openapi} is not a recognized version — read as OpenAPI 3.1`);
+    return '3.1';
+  }
+  if (doc.definitions !== undefined) {
+    warnings.push('No "swagger" or "openapi" version field — read as Swagger 2.0 because of "definitions"');
+    return '2.0';
+  }
+  warnings.push('No "openapi" version field — read as OpenAPI 3.0');
+  return '3.0';
+}
+
+// ─── SCHEMA KEYWORDS ─────────────────────────────────────────────────────────
+
+interface KeywordOptions {
+  version: OpenAPIVersion;
+  report: Reporter;
+  /** Rewrites every `$ref` on the way through (Swagger 2.0 pointers) */
+  rewriteRef?: (ref: string) => string;
+}
+
+/** `{ type: 'null' }` or `{ type: ['null'] }` as an `anyOf` / `oneOf` member */
+function isNullSchema(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  const { type } = value;
+  return type === 'null' || (Array.isArray(type) && type.length === 1 && type[0] === 'null');
+}
+
+/** Folds 3.1 / Swagger-only keywords of one schema object into the 3.0 model */
+function normalizeSchemaNode(node: JsonObject, where: string, options: KeywordOptions): JsonObject {
+  const { version, report } = options;
+  const out: JsonObject = { ...node };
+
+  if (typeof out['x-nullable'] === 'boolean') {
+    out.nullable = out['x-nullable'];
+    delete out['x-nullable'];
+  } else if (typeof out.nullable === 'boolean' && version === '3.1') {
+    report(where, '"nullable" was removed in OpenAPI 3.1 — still honored; use type: [T, "null"]');
+  }
+
+  if (typeof out.discriminator === 'string') out.discriminator = { propertyName: out.discriminator };
+
+  if (out.type === 'file') {
+    out.type = 'string';
+    out.format = 'binary';
+  }
+
+  const flag31 = (keyword: string) => {
+    if (version !== '3.1') report(where, `${keyword} is OpenAPI 3.1 syntax in a ${version} document — read anyway`);
+  };
+
+  // Folded before a type list is split so `example` stays on the shared parent
+  if (Array.isArray(out.examples)) {
+    flag31('examples (array)');
+    if (out.example === undefined && out.examples.length > 0) out.example = out.examples[0];
+    delete out.examples;
+  }
+
+  if (Array.isArray(out.type) || out.type === 'null') {
+    flag31('type: [..., "null"]');
+    const types = (Array.isArray(out.type) ? out.type : [out.type]).map(String);
+    const concrete = types.filter((t) => t !== 'null');
+    if (concrete.length < types.length) out.nullable = true;
+    delete out.type;
+    if (concrete.length === 0 && out.enum === undefined && out.const === undefined) out.enum = [null];
+    if (concrete.length === 1) out.type = concrete[0];
+    if (concrete.length > 1) {
+      const shared: JsonObject = {};
+      for (const [key, value] of Object.entries(out)) {
+        if (ANNOTATION_KEYWORDS.has(key)) shared[key] = value;
+      }
+      const rest: JsonObject = { ...out };
+      for (const key of Object.keys(shared)) delete rest[key];
+      return { ...shared, anyOf: concrete.map((type) => ({ ...rest, type })) };
+    }
+  }
+
+  for (const combinator of ['anyOf', 'oneOf'] as const) {
+    const list = out[combinator];
+    if (Array.isArray(list) && list.some(isNullSchema)) {
+      flag31(`${combinator} with { type: "null" }`);
+      out[combinator] = list.filter((member) => !isNullSchema(member));
+      out.nullable = true;
+    }
+  }
+
+  if ('const' in out) {
+    flag31('const');
+    if (out.enum === undefined) out.enum = [out.const];
+    delete out.const;
+  }
+
+  for (const [exclusive, bound] of [
+    ['exclusiveMinimum', 'minimum'],
+    ['exclusiveMaximum', 'maximum'],
+  ] as const) {
+    if (typeof out[exclusive] === 'number') {
+      flag31(`numeric ${exclusive}`);
+      out[bound] = out[exclusive];
+      out[exclusive] = true;
+    }
+  }
+
+  for (const keyword of UNSUPPORTED_KEYWORDS) {
+    if (keyword in out) report(where, `"${keyword}" is not supported and was ignored`);
+  }
+
+  return out;
+}
+
+/**
+ * Walks any part of a spec and normalizes every schema-like object in it.
+ * Example payloads, defaults and extensions are copied untouched.
+ */
+function normalizeKeywords(node: unknown, where: string, options: KeywordOptions, isMap = false): unknown {
+  if (Array.isArray(node)) return node.map((item, i) => normalizeKeywords(item, `${where}/${i}`, options));
+  if (!isObject(node)) return node;
+
+  const current = isMap ? node : normalizeSchemaNode(node, where, options);
+  const out: JsonObject = {};
+  for (const [key, value] of Object.entries(current)) {
+    const path = `${where}/${pointerSegment(key)}`;
+    if (!isMap && key === '$ref' && typeof value === 'string') out[key] = options.rewriteRef ? options.rewriteRef(value) : value;
+    else if (!isMap && (DATA_KEYWORDS.has(key) || key.startsWith('x-'))) out[key] = value;
+    else out[key] = normalizeKeywords(value, path, options, !isMap && MAP_KEYWORDS.has(key));
+  }
+  return out;
+}
+
+// ─── SWAGGER 2.0 UPGRADE ─────────────────────────────────────────────────────
+
+/**
+ * Where a Swagger 2.0 JSON Pointer lives after the upgrade, e.g.
+ * `/definitions/Pet` → `/components/schemas/Pet`. Body parameters moved to
+ * `components.requestBodies`, so `upgraded` is consulted for those.
+ */
+export function upgradeSwaggerPointer(pointer: string, upgraded: OpenAPIDocument): string {
+  const match = /^\/(definitions|parameters|responses|securityDefinitions)(\/.*)?$/.exec(pointer);
+  if (!match) return pointer;
+  const [, section, rest = ''] = match;
+  if (section === 'definitions') return `/components/schemas${rest}`;
+  if (section === 'responses') return `/components/responses${rest}`;
+  if (section === 'securityDefinitions') return `/components/securitySchemes${rest}`;
+
+  const name = (rest.split('/')[1] ?? '').replace(/~1/g, '/').replace(/~0/g, '~');
+  return upgraded.components.requestBodies?.[name] && !upgraded.components.parameters?.[name]
+    ? `/components/requestBodies${rest}`
+    : `/components/parameters${rest}`;
+}
+
+/** Schema for a non-body parameter (or an `items` object) built from its inline keywords */
+function swaggerInlineSchema(source: JsonObject): SchemaObject {
+  const schema: JsonObject = {};
+  for (const keyword of SWAGGER_SCHEMA_KEYWORDS) {
+    if (source[keyword] !== undefined) schema[keyword] = source[keyword];
+  }
+  if (isObject(schema.items)) schema.items = swaggerInlineSchema(schema.items);
+  if (source['x-nullable'] !== undefined) schema['x-nullable'] = source['x-nullable'];
+  return schema as SchemaObject;
+}
+
+/** `collectionFormat` → `style` / `explode` */
+function collectionStyle(param: SwaggerParameter, where: string, report: Reporter): Partial<ParameterObject> {
+  if (param.type !== 'array') return {};
+  const format = param.collectionFormat ?? 'csv';
+  switch (format) {
+    case 'multi':
+      return { style: 'form', explode: true };
+    case 'ssv':
+      return { style: 'spaceDelimited', explode: false };
+    case 'pipes':
+      return { style: 'pipeDelimited', explode: false };
+    case 'csv':
+      return param.in === 'query' ? { style: 'form', explode: false } : { style: 'simple', explode: false };
+    default:
+      report(where, `collectionFormat "${format}" has no OpenAPI 3 equivalent — read as csv`);
+      return param.in === 'query' ? { style: 'form', explode: false } : { style: 'simple', explode: false };
+  }
+}
+
+function upgradeParameter(param: SwaggerParameter, where: string, report: Reporter): ParameterObject {
+  const out: JsonObject = {
+    name: param.name,
+    in: param.in,
+    ...collectionStyle(param, where, report),
+    schema: swaggerInlineSchema(param),
+  };
+  for (const key of Object.keys(param)) {
+    if (key === 'collectionFormat' || key === 'x-nullable' || SWAGGER_SCHEMA_KEYWORDS.includes(key)) continue;
+    if (!(key in out)) out[key] = param[key];
+  }
+  if (param.in === 'path') out.required = true;
+  return out as unknown as ParameterObject;
+}
+
+function bodyFromParameter(param: SwaggerParameter, consumes: string[]): RequestBodyObject {
+  const body: RequestBodyObject = {
+    content: Object.fromEntries(consumes.map((type) => [type, { schema: param.schema ?? {} }])),
+  };
+  if (param.description) body.description = param.description;
+  if (param.required) body.required = true;
+  return body;
+}
+
+/** `in: formData` parameters → one form request body with a property per field */
+function bodyFromFormData(params: SwaggerParameter[], consumes: string[]): RequestBodyObject {
+  const properties: Record<string, SchemaObject> = {};
+  const required: string[] = [];
+  for (const param of params) {
+    const schema = swaggerInlineSchema(param);
+    if (param.description) schema.description = param.description;
+    properties[param.name] = schema;
+    if (param.required) required.push(param.name);
+  }
+  const hasFile = params.some((p) => p.type === 'file');
+  const type =
+    hasFile || consumes.includes('multipart/form-data') ? 'multipart/form-data' : 'application/x-www-form-urlencoded';
+  const schema: SchemaObject = { type: 'object', properties };
+  const body: RequestBodyObject = { content: { [type]: { schema } } };
+  if (required.length > 0) {
+    schema.required = required;
+    body.required = true;
+  }
+  return body;
+}
+
+function upgradeResponse(response: JsonObject, produces: string[]): ResponseObject {
+  const { schema, examples, headers, ...rest } = response;
+  const out: ResponseObject = { ...rest, description: String(response.description ?? '') };
+  if (isObject(headers)) {
+    out.headers = Object.fromEntries(
+      Object.entries(headers).map(([name, header]) => {
+        const { description } = asObject(header);
+        const upgraded: HeaderObject = { schema: swaggerInlineSchema(asObject(header)) };
+        if (typeof description === 'string') upgraded.description = description;
+        return [name, upgraded];
+      }),
+    );
+  }
+  if (schema !== undefined) {
+    const byType = asObject(examples);
+    out.content = Object.fromEntries(
+      produces.map((type) => {
+        const media: MediaTypeObject = { schema: schema as SchemaObject };
+        if (byType[type] !== undefined) media.example = byType[type];
+        return [type, media];
+      }),
+    );
+  }
+  return out;
+}
+
+function upgradeSecurityScheme(scheme: JsonObject): Record<string, unknown> {
+  if (scheme.type === 'basic') return { type: 'http', scheme: 'basic', description: scheme.description };
+  if (scheme.type !== 'oauth2') return scheme;
+  const flowNames: Record<string, string> = {
+    implicit: 'implicit',
+    password: 'password',
+    application: 'clientCredentials',
+    accessCode: 'authorizationCode',
+  };
+  const flow: JsonObject = { scopes: scheme.scopes ?? {} };
+  if (scheme.authorizationUrl) flow.authorizationUrl = scheme.authorizationUrl;
+  if (scheme.tokenUrl) flow.tokenUrl = scheme.tokenUrl;
+  return {
+    type: 'oauth2',
+    description: scheme.description,
+    flows: { [flowNames[String(scheme.flow)] ?? 'implicit']: flow },
+  };
+}
+
+function swaggerServers(doc: JsonObject): ServerObject[] | undefined {
+  const basePath = typeof doc.basePath === 'string' ? doc.basePath.replace(/\/$/, '') : '';
+  if (typeof doc.host !== 'string') return basePath ? [{ url: basePath }] : undefined;
+  const schemes = Array.isArray(doc.schemes) && doc.schemes.length > 0 ? doc.schemes.map(String) : ['https'];
+  return schemes.map((scheme) => ({ url: `${scheme}://${doc.host}${basePath}` }));
+}
+
+/** Structural Swagger 2.0 → OpenAPI 3.0 upgrade; refs are rewritten afterwards */
+function upgradeSwagger2(doc: JsonObject, report: Reporter): OpenAPIDocument {
+  const mediaTypes = (value: unknown, fallback: string[]) =>
+    Array.isArray(value) && value.length > 0 ? value.map(String) : fallback;
+  const produces = mediaTypes(doc.produces, ['application/json']);
+  const consumes = mediaTypes(doc.consumes, ['application/json']);
+
+  const components: OpenAPIDocument['components'] = {};
+  if (isObject(doc.definitions)) components.schemas = doc.definitions as Record<string, SchemaObject>;
+
+  // Shared parameters split three ways: body → requestBodies, formData → inlined, rest → parameters
+  const sharedParams = asObject(doc.parameters) as Record<string, SwaggerParameter>;
+  const formDataParams = new Map<string, SwaggerParameter>();
+  for (const [name, param] of Object.entries(sharedParams)) {
+    const where = `#/parameters/${pointerSegment(name)}`;
+    if (param.in === 'body') (components.requestBodies ??= {})[name] = bodyFromParameter(param, consumes);
+    else if (param.in === 'formData') formDataParams.set(name, param);
+    else (components.parameters ??= {})[name] = upgradeParameter(param, where, report);
+  }
+
+  if (isObject(doc.responses)) {
+    components.responses = Object.fromEntries(
+      Object.entries(doc.responses).map(([name, response]) => [name, upgradeResponse(asObject(response), produces)]),
+    );
+  }
+  if (isObject(doc.securityDefinitions)) {
+    components.securitySchemes = Object.fromEntries(
+      Object.entries(doc.securityDefinitions).map(([name, scheme]) => [name, upgradeSecurityScheme(asObject(scheme))]),
+    );
+  }
+
+  const sharedName = (ref: string) => {
+    const match = /^#\/parameters\/(.+)$/.exec(ref);
+    return match ? match[1].replace(/~1/g, '/').replace(/~0/g, '~') : null;
+  };
+
+  /** Splits a parameter list into OpenAPI 3 parameters plus an optional request body */
+  const upgradeParameters = (list: unknown, where: string, opConsumes: string[]) => {
+    const parameters: (ParameterObject | ReferenceObject)[] = [];
+    const bodies: (RequestBodyObject | ReferenceObject)[] = [];
+    const formData: SwaggerParameter[] = [];
+
+    for (const raw of Array.isArray(list) ? list : []) {
+      const param = asObject(raw) as SwaggerParameter & { $ref?: string };
+      if (typeof param.$ref === 'string') {
+        const name = sharedName(param.$ref);
+        if (name && components.requestBodies?.[name]) bodies.push({ $ref: `#/components/requestBodies/${pointerSegment(name)}` });
+        else if (name && formDataParams.has(name)) formData.push(formDataParams.get(name)!);
+        else parameters.push({ $ref: param.$ref });
+      } else if (param.in === 'body') bodies.push(bodyFromParameter(param, opConsumes));
+      else if (param.in === 'formData') formData.push(param);
+      else parameters.push(upgradeParameter(param, `${where} "${param.name}"`, report));
+    }
+
+    if (formData.length > 0) bodies.push(bodyFromFormData(formData, opConsumes));
+    if (bodies.length > 1) report(where, 'more than one body / formData parameter — only the first request body is kept');
+    return { parameters, requestBody: bodies[0] };
+  };
+
+  const paths: OpenAPIDocument['paths'] = {};
+  for (const [path, rawItem] of Object.entries(asObject(doc.paths))) {
+    const item = asObject(rawItem);
+    const upgradedItem: JsonObject = { ...item };
+    const shared = upgradeParameters(item.parameters, path, consumes);
+    if (item.parameters !== undefined) upgradedItem.parameters = shared.parameters;
+
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!isObject(operation)) continue;
+      const where = `${method.toUpperCase()} ${path}`;
+      const { produces: opProduces, consumes: opConsumes, ...upgraded } = operation;
+      delete upgraded.schemes;
+      const own = upgradeParameters(operation.parameters, where, mediaTypes(opConsumes, consumes));
+
+      if (operation.parameters !== undefined) upgraded.parameters = own.parameters;
+      // A path-level body applies to every operation unless it declares its own
+      const requestBody = own.requestBody ?? shared.requestBody;
+      if (requestBody) upgraded.requestBody = requestBody;
+      if (isObject(operation.responses)) {
+        upgraded.responses = Object.fromEntries(
+          Object.entries(operation.responses).map(([status, response]) => [
+            status,
+            isObject(response) && typeof response.$ref === 'string'
+              ? response
+              : upgradeResponse(asObject(response), mediaTypes(opProduces, produces)),
+          ]),
+        );
+      }
+      upgradedItem[method] = upgraded;
+    }
+    paths[path] = upgradedItem as PathItemObject;
+  }
+
+  const document: OpenAPIDocument = {
+    openapi: NORMALIZED_VERSION,
+    info: asObject(doc.info),
+    paths,
+    components,
+  };
+  const servers = swaggerServers(doc);
+  if (servers) document.servers = servers;
+  if (Array.isArray(doc.security)) document.security = doc.security as OpenAPIDocument['security'];
+  if (Array.isArray(doc.tags)) document.tags = doc.tags as OpenAPIDocument['tags'];
+  for (const [key, value] of Object.entries(doc)) {
+    if (key.startsWith('x-')) (document as unknown as JsonObject)[key] = value;
+  }
+  return document;
+}
+
+// ─── NORMALIZATION ───────────────────────────────────────────────────────────
+
+/**
+ * Normalizes a parsed Swagger 2.0 / OpenAPI 3.0 / 3.1 document into the
+ * 3.0-shaped model. Throws when the input isn't a document at all.
+ */
+export function normalizeOpenAPI(raw: unknown): ParsedOpenAPI {
+  if (!isObject(raw)) throw new Error('Expected an OpenAPI document object');
+
+  const warnings: string[] = [];
+  const version = detectVersion(raw, warnings);
+  const report = createReporter();
+
+  let document: OpenAPIDocument;
+  let rewriteRef: ((ref: string) => string) | undefined;
+  if (version === '2.0') {
+    document = upgradeSwagger2(raw, report);
+    const upgraded = document;
+    rewriteRef = (ref) => (ref.startsWith('#/') ? `#${upgradeSwaggerPointer(ref.slice(1), upgraded)}` : ref);
+  } else {
+    document = {
+      ...raw,
+      openapi: typeof raw.openapi === 'string' ? raw.openapi : NORMALIZED_VERSION,
+      info: asObject(raw.info),
+      paths: asObject(raw.paths) as OpenAPIDocument['paths'],
+      components: asObject(raw.components),
+    };
+    if (version === '3.1') {
+      if (isObject(raw.webhooks)) warnings.push('OpenAPI 3.1 webhooks are ignored');
+      const dialect = raw.jsonSchemaDialect;
+      if (typeof dialect === 'string' && !dialect.startsWith('https://spec.openapis.org/oas/3.1/dialect/')) {
+        warnings.push(`jsonSchemaDialect ${dialect} is read as the OpenAPI 3.1 default dialect`);
+      }
+    }
+  }
+
+  document = normalizeKeywords(document, '#', { version, report, rewriteRef }) as OpenAPIDocument;
+  return { document, version, warnings: [...warnings, ...report.flush()] };
+}
+
+/**
+ * Normalizes the schema keywords of an extra spec file (a bare schema or a
+ * bag of them) using the dialect of the main document. `rewriteRef` lets the
+ * caller redirect refs that point into an upgraded Swagger 2.0 document.
+ */
+export function normalizeSpecFragment(
+  fragment: unknown,
+  version: OpenAPIVersion,
+  rewriteRef?: (ref: string) => string,
+): { document: unknown; warnings: string[] } {
+  const report = createReporter();
+  const document = normalizeKeywords(fragment, '#', { version, report, rewriteRef });
+  return { document, warnings: report.flush() };
+}
@@ -0,0 +1,256 @@
+// src/utils/openapiRefs.ts
+// ─── OpenAPI $ref Resolver ───────────────────────────────────────────────────
+// Resolves JSON References across a virtual file system of spec files, so the
+// OpenAPI tools can follow `#/components/parameters/Limit` as well as
+// `./common.yaml#/Pet` into another pasted or dropped file.
+//
+// Every resolved target gets a canonical `file#pointer` key. Callers keep the
+// keys they are currently expanding on a stack; meeting one again is a cycle
+// (OpenAPI → Zod turns it into `z.lazy`, `dereferenceSpec` keeps the `$ref`).
+//
+// The entry is normalized to the 3.0-shaped model on load and the other files
+// follow its dialect, so refs into an upgraded Swagger 2.0 entry
+// (`../api.yaml#/definitions/Pet`) land on its new location.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  normalizeSpecFragment,
+  parseOpenAPI,
+  parseSpecText,
+  upgradeSwaggerPointer,
+  type OpenAPIDocument,
+  type OpenAPIVersion,
+  type ReferenceObject,
+} from './openapiParser';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+/** Name given to the main document when the caller doesn't name it */
+export const ENTRY_FILE = 'openapi.yaml';
+
+/** Hard stop for `$ref → $ref → …` chains and inlining depth */
+const MAX_DEPTH = 64;
+
+// ─── TYPES ───────────────────────────────────────────────────────────────────
+
+/** One file of a multi-file spec, as pasted or dropped into a tab */
+export interface SpecFile {
+  name: string;
+  content: string;
+}
+
+/** Options shared by the converters that accept multi-file specs */
+export interface SpecFilesOptions {
+  /** Name of the main document, for resolving relative refs (default `openapi.yaml`) */
+  entryName?: string;
+  /** Other files of the spec that refs may point into */
+  files?: SpecFile[];
+}
+
+/** Parsed documents keyed by normalized file path; `entry` is the main spec */
+export interface SpecBundle {
+  entry: string;
+  /** The normalized entry document (also in `documents`) */
+  spec: OpenAPIDocument;
+  /** Dialect the entry was written in */
+  version: OpenAPIVersion;
+  documents: Map<string, unknown>;
+  /** Version notes plus non-entry files that failed to parse (the entry throws instead) */
+  warnings: string[];
+}
+
+export interface RefTarget<T = unknown> {
+  value: T;
+  file: string;
+  /** JSON Pointer inside `file`; '' is the whole document */
+  pointer: string;
+  /** Canonical `file#pointer`, stable across differently written refs */
+  key: string;
+}
+
+export type Reference = ReferenceObject;
+
+/** Receives one message per reference that can't be followed */
+export type RefErrorHandler = (message: string) => void;
+
+// ─── PATHS ───────────────────────────────────────────────────────────────────
+
+/** `./a/../b//c.yaml` → `b/c.yaml` */
+export function normalizeFilePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+function dirname(file: string): string {
+  const index = file.lastIndexOf('/');
+  return index === -1 ? '' : file.slice(0, index + 1);
+}
+
+export function isReference(value: unknown): value is Reference {
+  return typeof value === 'object' && value !== null && typeof (value as Reference).$ref === 'string';
+}
+
+/** Split a `$ref` into the file it points at (relative to `fromFile`) and a JSON Pointer */
+export function parseRef(ref: string, fromFile: string): { file: string; pointer: string } {
+  const hash = ref.indexOf('#');
+  const filePart = hash === -1 ? ref : ref.slice(0, hash);
+  const fragment = hash === -1 ? '' : ref.slice(hash + 1);
+  const file = filePart ? normalizeFilePath(dirname(fromFile) + filePart) : fromFile;
+  let pointer = fragment;
+  try {
+    pointer = decodeURIComponent(fragment);
+  } catch {
+    // A stray % — use the fragment as written
+  }
+  return { file, pointer };
+}
+
+/** Canonical key for a location, e.g. `openapi.yaml#/components/schemas/Pet` */
+export function refKey(file: string, pointer: string): string {
+  return `${file}#${pointer}`;
+}
+
+/** Follow a JSON Pointer (`/components/schemas/a~1b`) into a document */
+export function readPointer(document: unknown, pointer: string): unknown {
+  if (pointer === '' || pointer === '/') return document;
+  let node = document;
+  for (const raw of pointer.replace(/^\//, '').split('/')) {
+    const segment = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (typeof node !== 'object' || node === null || !(segment in node)) return undefined;
+    node = (node as Record<string, unknown>)[segment];
+  }
+  return node;
+}
+
+// ─── BUNDLE ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parses every file (JSON or YAML) into a bundle; the first one is the entry
+ * and is normalized to the 3.0-shaped model. Throws when the entry itself
+ * can't be parsed.
+ */
+export function loadSpecBundle(files: SpecFile[]): SpecBundle {
+  const entry = normalizeFilePath(files[0]?.name || ENTRY_FILE);
+  const parsed = parseOpenAPI(files[0]?.content ?? '');
+  const documents = new Map<string, unknown>([[entry, parsed.document]]);
+  const warnings = [...parsed.warnings];
+
+  // Refs from other files into a Swagger 2.0 entry still say `#/definitions/…`
+  const rewriteRef = (fromFile: string) => (ref: string) => {
+    if (parsed.version !== '2.0' || /^[a-z][a-z0-9+.-]*:/i.test(ref) || !ref.includes('#')) return ref;
+    if (parseRef(ref, fromFile).file !== entry) return ref;
+    const hash = ref.indexOf('#');
+    return ref.slice(0, hash + 1) + upgradeSwaggerPointer(ref.slice(hash + 1), parsed.document);
+  };
+
+  files.slice(1).forEach((file) => {
+    const name = normalizeFilePath(file.name);
+    if (!file.content.trim()) return;
+    if (documents.has(name)) {
+      warnings.push(`${name}: duplicate file name — only the first tab is used`);
+      return;
+    }
+    try {
+      const fragment = normalizeSpecFragment(parseSpecText(file.content), parsed.version, rewriteRef(name));
+      documents.set(name, fragment.document);
+      warnings.push(...fragment.warnings.map((w) => `${name}: ${w}`));
+    } catch (err) {
+      warnings.push(`${name}: ${(err as Error).message}`);
+    }
+  });
+
+  return { entry, spec: parsed.document, version: parsed.version, documents, warnings };
+}
+
+// ─── RESOLUTION ──────────────────────────────────────────────────────────────
+
+/** Resolve one `$ref` written in `fromFile`; `null` (and `onError`) when it can't be */
+export function resolveRef<T = unknown>(
+  bundle: Pick<SpecBundle, 'documents'>,
+  ref: string,
+  fromFile: string,
+  onError: RefErrorHandler = () => {},
+): RefTarget<T> | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(ref)) {
+    onError(`${ref}: remote references aren't fetched — add the file as a tab and use a relative path`);
+    return null;
+  }
+  const { file, pointer } = parseRef(ref, fromFile);
+  if (!bundle.documents.has(file)) {
+    onError(`${ref}: file "${file}" is not loaded — add it as a tab`);
+    return null;
+  }
+  const value = readPointer(bundle.documents.get(file), pointer);
+  if (value === undefined) {
+    onError(`${ref}: nothing at ${pointer || '/'} in ${file}`);
+    return null;
+  }
+  return { value: value as T, file, pointer, key: refKey(file, pointer) };
+}
+
+/**
+ * Follow a value through any chain of `$ref`s (a response pointing at a
+ * shared response pointing at another file). Plain values come back as-is
+ * with a `null` key.
+ */
+export function resolveValue<T>(
+  bundle: Pick<SpecBundle, 'documents'>,
+  value: T | Reference | undefined,
+  fromFile: string,
+  onError: RefErrorHandler = () => {},
+): { value: T; file: string; key: string | null } | null {
+  let current: unknown = value;
+  let file = fromFile;
+  let key: string | null = null;
+  const seen = new Set<string>();
+
+  while (isReference(current)) {
+    const target = resolveRef(bundle, current.$ref, file, onError);
+    if (!target) return null;
+    if (seen.has(target.key) || seen.size >= MAX_DEPTH) {
+      onError(`${current.$ref}: circular $ref chain`);
+      return null;
+    }
+    seen.add(target.key);
+    ({ value: current, file, key } = target);
+  }
+  return current === undefined ? null : { value: current as T, file, key };
+}
+
+/**
+ * A copy of the entry document with every `$ref` inlined — other files
+ * included. A reference back into something it is already inside is kept as
+ * a `$ref` (rewritten relative to the entry) so the result stays finite.
+ */
+export function dereferenceSpec(bundle: SpecBundle, onError: RefErrorHandler = () => {}): unknown {
+  const relativeToEntry = (key: string) => (key.startsWith(`${bundle.entry}#`) ? key.slice(bundle.entry.length) : key);
+
+  const walk = (node: unknown, file: string, stack: Set<string>, depth: number): unknown => {
+    if (depth > MAX_DEPTH || typeof node !== 'object' || node === null) return node;
+    if (Array.isArray(node)) return node.map((item) => walk(item, file, stack, depth + 1));
+
+    if (isReference(node)) {
+      const { $ref, ...siblings } = node as Reference & Record<string, unknown>;
+      const target = resolveRef(bundle, $ref, file, onError);
+      if (!target) return node;
+      if (stack.has(target.key)) return { ...siblings, $ref: relativeToEntry(target.key) };
+      const inner = new Set(stack).add(target.key);
+      const resolved = walk(target.value, target.file, inner, depth + 1);
+      const extra = walk(siblings, file, stack, depth + 1) as Record<string, unknown>;
+      return typeof resolved === 'object' && resolved !== null && !Array.isArray(resolved)
+        ? { ...resolved, ...extra }
+        : resolved;
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) out[key] = walk(value, file, stack, depth + 1);
+    return out;
+  };
+
+  return walk(bundle.documents.get(bundle.entry), bundle.entry, new Set([refKey(bundle.entry, '')]), 0);
+}
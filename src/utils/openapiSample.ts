@@ -0,0 +1,117 @@
+// src/utils/openapiSample.ts
+// ─── OpenAPI Example Values ──────────────────────────────────────────────────
+// Picks the example a generated handler should return for a response: the
+// media type's `example`, else its first `examples` entry, else a value built
+// from the schema (`example` / `default` / first `enum` value, then a
+// placeholder per type and format). Output is deterministic — the same spec
+// always yields the same body.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { ExampleObject, MediaTypeObject, SchemaObject } from './openapiParser';
+import { isReference, resolveRef, resolveValue, type SpecBundle } from './openapiRefs';
+
+// ─── CONSTANTS ───────────────────────────────────────────────────────────────
+
+const MAX_DEPTH = 12;
+
+/** Placeholder strings per `format` */
+const FORMAT_SAMPLES: Record<string, string> = {
+  email: 'user@example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  'date-time': '2024-01-01T00:00:00.000Z',
+  date: '2024-01-01',
+  time: '12:00:00',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '192.0.2.1',
+  ipv6: '2001:db8::1',
+  byte: 'U3dhZ2dlciByb2Nrcw==',
+  binary: '',
+  password: '********',
+};
+
+// ─── SCHEMA SAMPLES ──────────────────────────────────────────────────────────
+
+/**
+ * A value matching `schema` (refs resolved relative to `file`). A ref back
+ * into itself yields `undefined`, which objects and arrays leave out.
+ */
+export function sampleFromSchema(
+  bundle: SpecBundle,
+  schema: SchemaObject | undefined,
+  file: string,
+  stack: Set<string> = new Set(),
+  depth = 0,
+): unknown {
+  if (!schema || depth > MAX_DEPTH) return undefined;
+
+  if (schema.$ref) {
+    const target = resolveRef<SchemaObject>(bundle, schema.$ref, file);
+    if (!target || stack.has(target.key)) return undefined;
+    return sampleFromSchema(bundle, target.value, target.file, new Set(stack).add(target.key), depth + 1);
+  }
+
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  const next = (child: SchemaObject | undefined) => sampleFromSchema(bundle, child, file, stack, depth + 1);
+
+  if (schema.allOf && schema.allOf.length > 0) {
+    const parts = schema.allOf.map(next);
+    if (parts.every((part) => typeof part === 'object' && part !== null && !Array.isArray(part))) {
+      return Object.assign({}, ...parts);
+    }
+    return parts.find((part) => part !== undefined);
+  }
+  const union = schema.oneOf ?? schema.anyOf;
+  if (union && union.length > 0) return next(union[0]);
+
+  const type = schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+  switch (type) {
+    case 'string': {
+      const sample = (schema.format && FORMAT_SAMPLES[schema.format]) ?? 'string';
+      return schema.minLength && sample.length < schema.minLength ? sample.padEnd(schema.minLength, 'x') : sample;
+    }
+    case 'integer':
+    case 'number': {
+      if (schema.minimum !== undefined) return schema.minimum + (schema.exclusiveMinimum ? 1 : 0);
+      if (schema.maximum !== undefined && schema.maximum < 0) return schema.maximum - (schema.exclusiveMaximum ? 1 : 0);
+      return type === 'integer' ? 1 : 1.5;
+    }
+    case 'boolean':
+      return true;
+    case 'array': {
+      const item = next(schema.items);
+      if (item === undefined) return [];
+      return Array.from({ length: Math.max(1, schema.minItems ?? 1) }, () => item);
+    }
+    case 'object': {
+      const out: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (property.writeOnly) continue;
+        const value = next(property);
+        if (value !== undefined) out[key] = value;
+      }
+      return out;
+    }
+    default:
+      return schema.nullable ? null : undefined;
+  }
+}
+
+// ─── MEDIA EXAMPLES ──────────────────────────────────────────────────────────
+
+/** The body a mock should send for one media type of a response */
+export function exampleForMedia(bundle: SpecBundle, media: MediaTypeObject | undefined, file: string): unknown {
+  if (!media) return undefined;
+  if (media.example !== undefined) return media.example;
+
+  const first = Object.values(media.examples ?? {})[0];
+  if (first !== undefined) {
+    const example = isReference(first) ? resolveValue<ExampleObject>(bundle, first, file)?.value : first;
+    if (example?.value !== undefined) return example.value;
+  }
+  return sampleFromSchema(bundle, media.schema, file);
+}
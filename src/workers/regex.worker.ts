@@ -0,0 +1,28 @@
+// src/workers/regex.worker.ts
+// ─── Regex Worker ────────────────────────────────────────────────────────────
+// Runs patterns off the main thread. A catastrophic pattern can only be
+// stopped from outside, so the runner terminates this worker when a run
+// outlives its deadline and spawns a fresh one for the next.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { runRegex, type RegexRun } from '../lib/regex/engines';
+import type { RegexFlavor } from '../lib/regex/flavors';
+
+export interface RegexWorkerRequest {
+  id: number;
+  flavor: RegexFlavor;
+  pattern: string;
+  flags: string;
+  text: string;
+}
+
+export interface RegexWorkerResponse {
+  id: number;
+  run: RegexRun;
+}
+
+self.onmessage = async (event: MessageEvent<RegexWorkerRequest>) => {
+  const { id, flavor, pattern, flags, text } = event.data;
+  const response: RegexWorkerResponse = { id, run: await runRegex(flavor, pattern, flags, text) };
+  self.postMessage(response);
+};
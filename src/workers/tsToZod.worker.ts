@@ -0,0 +1,24 @@
+// src/workers/tsToZod.worker.ts
+// ─── TS → Zod Worker ─────────────────────────────────────────────────────────
+// Hosts the TypeScript compiler off the main thread. The worker (and with it
+// the multi-MB compiler bundle) is only fetched once the tool first needs it.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { convertTsToZodAst } from '../lib/converters/tsToZodAst';
+import type { ConversionResult } from '../lib/converters/types';
+
+export interface TsToZodRequest {
+  id: number;
+  source: string;
+}
+
+export interface TsToZodResponse {
+  id: number;
+  result: ConversionResult;
+}
+
+self.onmessage = (event: MessageEvent<TsToZodRequest>) => {
+  const { id, source } = event.data;
+  const response: TsToZodResponse = { id, result: convertTsToZodAst(source) };
+  self.postMessage(response);
+};